@@ -14,7 +14,9 @@ import { LeadDetailPage } from "@/pages/LeadDetailPage";
 import { LeadNewPage } from "@/pages/LeadNewPage";
 import { LeadsPage } from "@/pages/LeadsPage";
 import { LoginPage } from "@/pages/LoginPage";
+import { NotificationDeliveriesPage } from "@/pages/NotificationDeliveriesPage";
 import { NotificationsPage } from "@/pages/NotificationsPage";
+import { SequencesPage } from "@/pages/SequencesPage";
 import { SettingsPage } from "@/pages/SettingsPage";
 import { WebhookDeliveriesPage } from "@/pages/WebhookDeliveriesPage";
 import { WebhooksPage } from "@/pages/WebhooksPage";
@@ -59,10 +61,12 @@ function AppRoutes() {
 				<Route path="contacts/:id" element={<ContactDetailPage />} />
 				<Route path="companies" element={<CompaniesPage />} />
 				<Route path="companies/:id" element={<CompanyDetailPage />} />
+				<Route path="sequences" element={<SequencesPage />} />
 				<Route path="api-keys" element={<ApiKeysPage />} />
 				<Route path="webhooks" element={<WebhooksPage />} />
 				<Route path="webhooks/:id/deliveries" element={<WebhookDeliveriesPage />} />
 				<Route path="notifications" element={<NotificationsPage />} />
+				<Route path="notifications/:id/deliveries" element={<NotificationDeliveriesPage />} />
 				<Route path="settings" element={<SettingsPage />} />
 			</Route>
 			<Route path="*" element={<Navigate to="/" replace />} />
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Card, CardContent, CardHeader } from "@/components/ui/Card";
+import { Select } from "@/components/ui/Select";
+import { useContactEnrollments, useEnrollmentActions, useSequences } from "@/hooks/useSequences";
+import { ApiError } from "@/lib/api";
+import type { SequenceEnrollmentStatus } from "@/lib/types";
+import { formatRelativeTime } from "@/lib/utils";
+
+const statusVariants: Record<SequenceEnrollmentStatus, "success" | "warning" | "default"> = {
+	active: "success",
+	paused: "warning",
+	completed: "default",
+};
+
+/**
+ * The contact's outreach sequence: its current step and controls to pause,
+ * resume or stop it, or to enroll the contact in one.
+ */
+export function ContactSequenceCard({ contactId }: { contactId: string }) {
+	const { data: enrollments } = useContactEnrollments(contactId);
+	const { data: sequences } = useSequences();
+	const { enroll, pause, resume, stop } = useEnrollmentActions(contactId);
+	const [sequenceId, setSequenceId] = useState("");
+
+	const current = enrollments?.find((e) => e.status !== "completed");
+	const completed = enrollments?.filter((e) => e.status === "completed") ?? [];
+	const error = [enroll, pause, resume, stop].find((m) => m.error instanceof ApiError)?.error;
+
+	const handleEnroll = async () => {
+		if (!sequenceId) return;
+		try {
+			await enroll.mutateAsync(sequenceId);
+			setSequenceId("");
+		} catch {
+			// Error handled by mutation
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<h3 className="font-semibold">Sequence</h3>
+			</CardHeader>
+			<CardContent className="space-y-3">
+				{current ? (
+					<>
+						<div className="flex items-center justify-between gap-2">
+							<span className="font-medium">{current.sequence.name}</span>
+							<Badge variant={statusVariants[current.status]}>{current.status}</Badge>
+						</div>
+						<p className="text-sm text-dark-300">
+							Step {Math.min(current.currentStep + 1, current.sequence.stepCount)} of{" "}
+							{current.sequence.stepCount}
+						</p>
+						{current.status === "active" && current.stepDueAt && (
+							<p className="text-sm text-dark-500">Due: {formatRelativeTime(current.stepDueAt)}</p>
+						)}
+						{current.status === "paused" && current.pausedAt && (
+							<p className="text-sm text-dark-500">Paused {formatRelativeTime(current.pausedAt)}</p>
+						)}
+						<div className="flex gap-2">
+							{current.status === "active" ? (
+								<Button
+									variant="secondary"
+									size="sm"
+									onClick={() => pause.mutate(current.id)}
+									isLoading={pause.isPending}
+								>
+									Pause
+								</Button>
+							) : (
+								<Button
+									variant="secondary"
+									size="sm"
+									onClick={() => resume.mutate(current.id)}
+									isLoading={resume.isPending}
+								>
+									Resume
+								</Button>
+							)}
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => stop.mutate(current.id)}
+								isLoading={stop.isPending}
+							>
+								Remove
+							</Button>
+						</div>
+					</>
+				) : sequences && sequences.length > 0 ? (
+					<div className="space-y-2">
+						<Select
+							options={sequences.map((s) => ({ value: s.id, label: s.name }))}
+							value={sequenceId}
+							onChange={(e) => setSequenceId(e.target.value)}
+							placeholder="Choose a sequence"
+						/>
+						<Button
+							size="sm"
+							className="w-full"
+							onClick={handleEnroll}
+							isLoading={enroll.isPending}
+							disabled={!sequenceId}
+						>
+							Enroll
+						</Button>
+					</div>
+				) : (
+					<p className="text-dark-500 text-sm">
+						No sequences yet.{" "}
+						<Link to="/sequences" className="text-primary-400 hover:text-primary-300">
+							Create one
+						</Link>
+					</p>
+				)}
+				{completed.length > 0 && (
+					<p className="text-xs text-dark-500">
+						Completed: {completed.map((e) => e.sequence.name).join(", ")}
+					</p>
+				)}
+				{error && <p className="text-sm text-red-400">{error.message}</p>}
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { Select } from "@/components/ui/Select";
+import { Textarea } from "@/components/ui/Textarea";
+import {
+	useCreateEmailSnippet,
+	useDeleteEmailSnippet,
+	useEmailSnippets,
+} from "@/hooks/useEmailSnippets";
+import { ApiError } from "@/lib/api";
+
+interface EmailComposerModalProps {
+	isOpen: boolean;
+	onClose: () => void;
+	recipient: { name: string; email: string };
+	onSend: (email: { subject: string; body: string }) => Promise<unknown>;
+	isSending: boolean;
+	error: Error | null;
+}
+
+/**
+ * Compose and send an email to a lead or contact, starting from a saved
+ * snippet if wanted. Placeholders like {{firstName}} are filled in by the
+ * server when the email is sent.
+ */
+export function EmailComposerModal({
+	isOpen,
+	onClose,
+	recipient,
+	onSend,
+	isSending,
+	error,
+}: EmailComposerModalProps) {
+	const { data: snippets } = useEmailSnippets();
+	const createSnippetMutation = useCreateEmailSnippet();
+	const deleteSnippetMutation = useDeleteEmailSnippet();
+
+	const [snippetId, setSnippetId] = useState("");
+	const [subject, setSubject] = useState("");
+	const [body, setBody] = useState("");
+	const [snippetName, setSnippetName] = useState("");
+	const [isSavingSnippet, setIsSavingSnippet] = useState(false);
+
+	useEffect(() => {
+		if (isOpen) {
+			setSnippetId("");
+			setSubject("");
+			setBody("");
+			setIsSavingSnippet(false);
+		}
+	}, [isOpen]);
+
+	const applySnippet = (id: string) => {
+		setSnippetId(id);
+		const snippet = snippets?.data.find((s) => s.id === id);
+		if (snippet) {
+			if (snippet.subject) setSubject(snippet.subject);
+			setBody(snippet.body);
+		}
+	};
+
+	const handleSaveSnippet = async () => {
+		if (!snippetName.trim() || !body.trim()) return;
+		try {
+			const snippet = await createSnippetMutation.mutateAsync({
+				name: snippetName.trim(),
+				subject: subject.trim() || null,
+				body,
+			});
+			setSnippetId(snippet.id);
+			setSnippetName("");
+			setIsSavingSnippet(false);
+		} catch {
+			// Error handled by mutation
+		}
+	};
+
+	const handleDeleteSnippet = async () => {
+		if (!snippetId) return;
+		try {
+			await deleteSnippetMutation.mutateAsync(snippetId);
+			setSnippetId("");
+		} catch {
+			// Error handled by mutation
+		}
+	};
+
+	const handleSend = async () => {
+		if (!subject.trim() || !body.trim()) return;
+		try {
+			await onSend({ subject, body });
+			onClose();
+		} catch {
+			// Error handled by mutation
+		}
+	};
+
+	const fields = (snippets?.fields ?? []).map((field) => `{{${field}}}`).join(", ");
+	const snippetError = formatError(createSnippetMutation.error);
+	const sendError = formatError(error);
+
+	return (
+		<Modal isOpen={isOpen} onClose={onClose} title="Send Email" size="lg">
+			<div className="space-y-4">
+				<p className="text-sm text-dark-400">
+					To: {recipient.name} &lt;{recipient.email}&gt;
+				</p>
+				{snippets && snippets.data.length > 0 && (
+					<div className="flex items-end gap-2">
+						<div className="flex-1">
+							<Select
+								label="Snippet"
+								options={[
+									{ value: "", label: "None" },
+									...snippets.data.map((s) => ({ value: s.id, label: s.name })),
+								]}
+								value={snippetId}
+								onChange={(e) => applySnippet(e.target.value)}
+							/>
+						</div>
+						{snippetId && (
+							<Button
+								variant="ghost"
+								onClick={handleDeleteSnippet}
+								isLoading={deleteSnippetMutation.isPending}
+							>
+								Delete Snippet
+							</Button>
+						)}
+					</div>
+				)}
+				<Input
+					label="Subject"
+					value={subject}
+					onChange={(e) => setSubject(e.target.value)}
+					required
+				/>
+				<Textarea
+					label="Message"
+					value={body}
+					onChange={(e) => setBody(e.target.value)}
+					rows={10}
+					hint={fields ? `Available fields: ${fields}` : undefined}
+					required
+				/>
+				{isSavingSnippet && (
+					<div className="flex items-end gap-2">
+						<div className="flex-1">
+							<Input
+								label="Snippet Name"
+								value={snippetName}
+								onChange={(e) => setSnippetName(e.target.value)}
+								placeholder="e.g. Follow-up after call"
+							/>
+						</div>
+						<Button
+							variant="secondary"
+							onClick={handleSaveSnippet}
+							isLoading={createSnippetMutation.isPending}
+							disabled={!snippetName.trim() || !body.trim()}
+						>
+							Save
+						</Button>
+					</div>
+				)}
+				{snippetError && <p className="text-sm text-red-400">{snippetError}</p>}
+				{sendError && <p className="text-sm text-red-400">{sendError}</p>}
+				<div className="flex items-center justify-between pt-4">
+					<Button
+						variant="ghost"
+						onClick={() => setIsSavingSnippet(!isSavingSnippet)}
+						disabled={!body.trim()}
+					>
+						Save as Snippet
+					</Button>
+					<div className="flex gap-3">
+						<Button variant="secondary" onClick={onClose}>
+							Cancel
+						</Button>
+						<Button
+							onClick={handleSend}
+							isLoading={isSending}
+							disabled={!subject.trim() || !body.trim()}
+						>
+							Send Email
+						</Button>
+					</div>
+				</div>
+			</div>
+		</Modal>
+	);
+}
+
+function formatError(error: Error | null): string | undefined {
+	return error instanceof ApiError && error.details
+		? Object.values(error.details).join(". ")
+		: error?.message;
+}
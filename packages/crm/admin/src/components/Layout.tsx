@@ -7,6 +7,7 @@ const navItems = [
 	{ to: "/leads", label: "Leads", icon: UsersIcon },
 	{ to: "/contacts", label: "Contacts", icon: ContactIcon },
 	{ to: "/companies", label: "Companies", icon: BuildingIcon },
+	{ to: "/sequences", label: "Sequences", icon: SequenceIcon },
 	{ to: "/api-keys", label: "API Keys", icon: KeyIcon },
 	{ to: "/webhooks", label: "Webhooks", icon: WebhookIcon },
 	{ to: "/notifications", label: "Notifications", icon: BellIcon },
@@ -158,6 +159,24 @@ function BuildingIcon({ className }: { className?: string }) {
 	);
 }
 
+function SequenceIcon({ className }: { className?: string }) {
+	return (
+		<svg
+			className={className}
+			fill="none"
+			viewBox="0 0 24 24"
+			stroke="currentColor"
+			strokeWidth={1.5}
+		>
+			<path
+				strokeLinecap="round"
+				strokeLinejoin="round"
+				d="M8.25 6.75h12M8.25 12h12m-12 5.25h12M3.75 6.75h.007v.008H3.75V6.75zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zM3.75 12h.007v.008H3.75V12zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm-.375 5.25h.007v.008H3.75v-.008zm.375 0a.375.375 0 11-.75 0 .375.375 0 01.75 0z"
+			/>
+		</svg>
+	);
+}
+
 function KeyIcon({ className }: { className?: string }) {
 	return (
 		<svg
@@ -0,0 +1,82 @@
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/Badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/Card";
+import { useBookings } from "@/hooks/useBookings";
+import type { Booking } from "@/lib/types";
+import { formatDateTime } from "@/lib/utils";
+
+interface UpcomingMeetingsCardProps {
+	/** Only show this lead's meetings (and leave out the lead link) */
+	leadId?: string;
+	limit?: number;
+}
+
+/**
+ * Scheduled Cal.com meetings that haven't started yet, soonest first.
+ */
+export function UpcomingMeetingsCard({ leadId, limit = 5 }: UpcomingMeetingsCardProps) {
+	const { data: bookings, isLoading } = useBookings({ leadId, upcoming: true, limit });
+
+	return (
+		<Card>
+			<CardHeader>
+				{leadId ? (
+					<h3 className="font-semibold">Upcoming Meetings</h3>
+				) : (
+					<h2 className="text-lg font-semibold">Upcoming Meetings</h2>
+				)}
+			</CardHeader>
+			{isLoading ? (
+				<CardContent className="text-sm text-dark-500">Loading...</CardContent>
+			) : !bookings || bookings.length === 0 ? (
+				<CardContent className="text-sm text-dark-500">No upcoming meetings.</CardContent>
+			) : (
+				<div className="divide-y divide-dark-800">
+					{bookings.map((booking) => (
+						<MeetingRow key={booking.id} booking={booking} showLead={!leadId} />
+					))}
+				</div>
+			)}
+		</Card>
+	);
+}
+
+function MeetingRow({ booking, showLead }: { booking: Booking; showLead: boolean }) {
+	return (
+		<div className="p-4 space-y-1">
+			<div className="flex items-center justify-between gap-4">
+				<p className="font-medium">{booking.title}</p>
+				{booking.rescheduleCount > 0 && <Badge>Rescheduled</Badge>}
+			</div>
+			<p className="text-sm text-dark-400">
+				{booking.startTime ? formatDateTime(booking.startTime) : "Time not set"}
+				{booking.attendeeTimeZone && (
+					<span className="text-dark-500"> · attendee in {booking.attendeeTimeZone}</span>
+				)}
+			</p>
+			<p className="text-sm text-dark-500">
+				{showLead && booking.lead ? (
+					<Link
+						to={`/leads/${booking.lead.id}`}
+						className="text-primary-400 hover:text-primary-300"
+					>
+						{booking.lead.name}
+					</Link>
+				) : (
+					booking.attendeeName
+				)}
+				{booking.contact && (
+					<>
+						{" · contact "}
+						<Link
+							to={`/contacts/${booking.contact.id}`}
+							className="text-primary-400 hover:text-primary-300"
+						>
+							{booking.contact.name}
+						</Link>
+					</>
+				)}
+			</p>
+		</div>
+	);
+}
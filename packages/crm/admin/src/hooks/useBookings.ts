@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import type { Booking, BookingStatus } from "@/lib/types";
+
+interface BookingsQueryParams {
+	limit?: number;
+	leadId?: string;
+	contactId?: string;
+	status?: BookingStatus;
+	upcoming?: boolean;
+}
+
+/**
+ * Fetch Cal.com bookings, e.g. a lead's upcoming meetings.
+ *
+ * Uses /admin/bookings endpoint with session-based authentication.
+ * With upcoming set, only scheduled bookings yet to start are returned,
+ * soonest first.
+ */
+export function useBookings(params: BookingsQueryParams = {}) {
+	return useQuery({
+		queryKey: ["bookings", params],
+		queryFn: async () => {
+			const response = await api.get<{ data: Booking[] }>(
+				"/admin/bookings",
+				params as Record<string, string | number | boolean | undefined>,
+			);
+			return response.data;
+		},
+	});
+}
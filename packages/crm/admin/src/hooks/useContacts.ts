@@ -4,6 +4,7 @@ import type {
 	Contact,
 	ContactInteraction,
 	ContactParseResult,
+	ContactScore,
 	ContactWithDetails,
 	PaginatedResponse,
 } from "@/lib/types";
@@ -108,6 +109,7 @@ export function useUpdateContact() {
 		onSuccess: (contact) => {
 			queryClient.invalidateQueries({ queryKey: ["contacts"] });
 			queryClient.invalidateQueries({ queryKey: ["contact", contact.id] });
+			queryClient.invalidateQueries({ queryKey: ["contactScore", contact.id] });
 		},
 	});
 }
@@ -155,6 +157,40 @@ export function useCreateInteraction(contactId: string) {
 			queryClient.invalidateQueries({
 				queryKey: ["contactInteractions", contactId],
 			});
+			// Logging an interaction can advance or pause the contact's sequence
+			queryClient.invalidateQueries({ queryKey: ["sequenceEnrollments", contactId] });
+			queryClient.invalidateQueries({ queryKey: ["contactScore", contactId] });
+		},
+	});
+}
+
+/**
+ * Email a contact from the composer.
+ *
+ * Uses /admin/contacts/:id/email endpoint with session-based authentication.
+ * The sent email is logged as an interaction, so the same caches as
+ * useCreateInteraction are invalidated on success.
+ */
+export function useSendContactEmail(contactId: string) {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (data: { subject: string; body: string }) => {
+			const response = await api.post<ApiResponse<ContactInteraction>>(
+				`/admin/contacts/${contactId}/email`,
+				data,
+			);
+			return response.data;
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["contact", contactId] });
+			queryClient.invalidateQueries({ queryKey: ["contacts"] });
+			queryClient.invalidateQueries({
+				queryKey: ["contactInteractions", contactId],
+			});
+			// Logging an interaction can advance or pause the contact's sequence
+			queryClient.invalidateQueries({ queryKey: ["sequenceEnrollments", contactId] });
+			queryClient.invalidateQueries({ queryKey: ["contactScore", contactId] });
 		},
 	});
 }
@@ -183,6 +219,25 @@ export function useContactInteractions(
 	});
 }
 
+/**
+ * Fetch a contact's score and what it's made of.
+ *
+ * Uses /admin/contacts/:id/score endpoint with session-based authentication.
+ */
+export function useContactScore(contactId: string | undefined) {
+	return useQuery({
+		queryKey: ["contactScore", contactId],
+		queryFn: async () => {
+			if (!contactId) throw new Error("Contact ID required");
+			const response = await api.get<ApiResponse<ContactScore>>(
+				`/admin/contacts/${contactId}/score`,
+			);
+			return response.data;
+		},
+		enabled: !!contactId,
+	});
+}
+
 /**
  * Parse contact information from unstructured text using AI.
  *
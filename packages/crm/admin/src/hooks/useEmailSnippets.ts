@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import type { EmailSnippet } from "@/lib/types";
+
+/**
+ * Fetch all email snippets, with the fields they may reference.
+ *
+ * Uses /admin/email-snippets endpoint with session-based authentication.
+ */
+export function useEmailSnippets() {
+	return useQuery({
+		queryKey: ["emailSnippets"],
+		queryFn: async () => {
+			return api.get<{ data: EmailSnippet[]; fields: string[] }>("/admin/email-snippets");
+		},
+	});
+}
+
+/**
+ * Save a subject and body as a new snippet.
+ *
+ * Uses /admin/email-snippets endpoint with session-based authentication.
+ * Invalidates the snippets cache on success.
+ */
+export function useCreateEmailSnippet() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (data: { name: string; subject: string | null; body: string }) => {
+			const response = await api.post<{ data: EmailSnippet }>("/admin/email-snippets", data);
+			return response.data;
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["emailSnippets"] });
+		},
+	});
+}
+
+/**
+ * Delete a snippet.
+ *
+ * Uses /admin/email-snippets/:id endpoint with session-based authentication.
+ * Invalidates the snippets cache on success.
+ */
+export function useDeleteEmailSnippet() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (id: string) => {
+			await api.delete(`/admin/email-snippets/${id}`);
+			return id;
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["emailSnippets"] });
+		},
+	});
+}
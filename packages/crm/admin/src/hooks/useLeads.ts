@@ -155,6 +155,38 @@ export function useAddActivity() {
 	});
 }
 
+/**
+ * Email a lead from the composer.
+ *
+ * Uses /admin/leads/:id/email endpoint with session-based authentication.
+ * The sent email is logged as an activity, so the single lead cache is
+ * invalidated on success.
+ */
+export function useSendLeadEmail() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			leadId,
+			subject,
+			body,
+		}: {
+			leadId: string;
+			subject: string;
+			body: string;
+		}) => {
+			const response = await api.post<ApiResponse<Activity>>(`/admin/leads/${leadId}/email`, {
+				subject,
+				body,
+			});
+			return response.data;
+		},
+		onSuccess: (_, variables) => {
+			queryClient.invalidateQueries({ queryKey: ["lead", variables.leadId] });
+		},
+	});
+}
+
 /**
  * Parse unstructured text into lead data using AI.
  *
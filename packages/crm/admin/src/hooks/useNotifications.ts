@@ -1,6 +1,16 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
-import type { NotificationChannel, NotificationChannelType } from "@/lib/types";
+import type {
+	NotificationChannel,
+	NotificationChannelType,
+	NotificationConfigField,
+	NotificationDelivery,
+	NotificationFilterPreview,
+	NotificationSchedule,
+	NotificationTemplatePart,
+	NotificationTemplatePreview,
+	NotificationTemplates,
+} from "@/lib/types";
 
 export function useNotificationChannels() {
 	return useQuery({
@@ -12,6 +22,32 @@ export function useNotificationChannels() {
 	});
 }
 
+export function useNotificationChannel(id: string | undefined) {
+	return useQuery({
+		queryKey: ["notification", id],
+		queryFn: async () => {
+			if (!id) throw new Error("Channel ID required");
+			return api.get<NotificationChannel>(`/admin/notifications/${id}`);
+		},
+		enabled: !!id,
+	});
+}
+
+export function useNotificationDeliveries(channelId: string | undefined, page = 1, limit = 20) {
+	return useQuery({
+		queryKey: ["notificationDeliveries", channelId, page, limit],
+		queryFn: async () => {
+			if (!channelId) throw new Error("Channel ID required");
+			const response = await api.get<{
+				deliveries: NotificationDelivery[];
+				pagination: { page: number; limit: number; total: number; totalPages: number };
+			}>(`/admin/notifications/${channelId}/deliveries`, { page, limit });
+			return response;
+		},
+		enabled: !!channelId,
+	});
+}
+
 export function useNotificationEvents() {
 	return useQuery({
 		queryKey: ["notificationEvents"],
@@ -32,7 +68,9 @@ export function useNotificationTypes() {
 				types: {
 					type: NotificationChannelType;
 					name: string;
-					configHints: Record<string, string>;
+					description: string;
+					configFields: NotificationConfigField[];
+					templateParts: NotificationTemplatePart[];
 				}[];
 			}>("/admin/notifications/types/list");
 			return response.types;
@@ -44,13 +82,17 @@ export function useCreateNotificationChannel() {
 	const queryClient = useQueryClient();
 
 	return useMutation({
-		mutationFn: async (data: {
-			type: NotificationChannelType;
-			name: string;
-			config: Record<string, string>;
-			events: string[];
-			enabled?: boolean;
-		}) => {
+		mutationFn: async (
+			data: {
+				type: NotificationChannelType;
+				name: string;
+				config: Record<string, string>;
+				events: string[];
+				enabled?: boolean;
+				filter?: string | null;
+				templates?: NotificationTemplates | null;
+			} & Partial<NotificationSchedule>,
+		) => {
 			const response = await api.post<{ channel: NotificationChannel }>(
 				"/admin/notifications",
 				data,
@@ -72,12 +114,16 @@ export function useUpdateNotificationChannel() {
 			data,
 		}: {
 			id: string;
-			data: Partial<{
-				name: string;
-				config: Record<string, string>;
-				events: string[];
-				enabled: boolean;
-			}>;
+			data: Partial<
+				{
+					name: string;
+					config: Record<string, string>;
+					events: string[];
+					enabled: boolean;
+					filter: string | null;
+					templates: NotificationTemplates | null;
+				} & NotificationSchedule
+			>;
 		}) => {
 			const response = await api.patch<{ channel: NotificationChannel }>(
 				`/admin/notifications/${id}`,
@@ -105,6 +151,25 @@ export function useDeleteNotificationChannel() {
 	});
 }
 
+export function useNotificationFilterPreview() {
+	return useMutation({
+		mutationFn: async (data: { filter: string | null }) => {
+			return api.post<NotificationFilterPreview>("/admin/notifications/filter/preview", data);
+		},
+	});
+}
+
+export function useNotificationTemplatePreview() {
+	return useMutation({
+		mutationFn: async (data: {
+			type: NotificationChannelType;
+			templates: NotificationTemplates | null;
+		}) => {
+			return api.post<NotificationTemplatePreview>("/admin/notifications/templates/preview", data);
+		},
+	});
+}
+
 export function useTestNotificationChannel() {
 	return useMutation({
 		mutationFn: async (id: string) => {
@@ -0,0 +1,156 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import type { Sequence, SequenceEnrollment, SequenceStep } from "@/lib/types";
+
+interface SequenceInput {
+	name: string;
+	description: string | null;
+	steps: SequenceStep[];
+}
+
+/**
+ * Fetch all outreach sequences, with their active enrollment counts.
+ *
+ * Uses /admin/sequences endpoint with session-based authentication.
+ */
+export function useSequences() {
+	return useQuery({
+		queryKey: ["sequences"],
+		queryFn: async () => {
+			const response = await api.get<{ data: Sequence[] }>("/admin/sequences");
+			return response.data;
+		},
+	});
+}
+
+/**
+ * Create a sequence.
+ *
+ * Uses /admin/sequences endpoint with session-based authentication.
+ * Invalidates the sequences cache on success.
+ */
+export function useCreateSequence() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (data: SequenceInput) => {
+			const response = await api.post<{ data: Sequence }>("/admin/sequences", data);
+			return response.data;
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["sequences"] });
+		},
+	});
+}
+
+/**
+ * Update a sequence; steps are replaced as a whole.
+ *
+ * Uses /admin/sequences/:id endpoint with session-based authentication.
+ * Invalidates the sequences cache on success.
+ */
+export function useUpdateSequence() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({ id, data }: { id: string; data: Partial<SequenceInput> }) => {
+			const response = await api.patch<{ data: Sequence }>(`/admin/sequences/${id}`, data);
+			return response.data;
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["sequences"] });
+		},
+	});
+}
+
+/**
+ * Delete a sequence and its enrollments.
+ *
+ * Uses /admin/sequences/:id endpoint with session-based authentication.
+ * Invalidates the sequences and enrollments caches on success.
+ */
+export function useDeleteSequence() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (id: string) => {
+			await api.delete(`/admin/sequences/${id}`);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["sequences"] });
+			queryClient.invalidateQueries({ queryKey: ["sequenceEnrollments"] });
+		},
+	});
+}
+
+/**
+ * Fetch a contact's sequence enrollments, newest first.
+ *
+ * Uses /admin/sequences/enrollments endpoint with session-based authentication.
+ */
+export function useContactEnrollments(contactId: string | undefined) {
+	return useQuery({
+		queryKey: ["sequenceEnrollments", contactId],
+		queryFn: async () => {
+			const response = await api.get<{ data: SequenceEnrollment[] }>(
+				"/admin/sequences/enrollments",
+				{ contactId },
+			);
+			return response.data;
+		},
+		enabled: !!contactId,
+	});
+}
+
+/**
+ * Enroll a contact in a sequence, or pause, resume or remove their
+ * enrollment. Each changes the contact's next action.
+ *
+ * Uses /admin/sequences/:id/enrollments and /admin/sequences/enrollments/:id
+ * endpoints with session-based authentication. Invalidates the contact,
+ * enrollments and sequences caches on success.
+ */
+export function useEnrollmentActions(contactId: string) {
+	const queryClient = useQueryClient();
+
+	const onSuccess = () => {
+		queryClient.invalidateQueries({ queryKey: ["contact", contactId] });
+		queryClient.invalidateQueries({ queryKey: ["contacts"] });
+		queryClient.invalidateQueries({ queryKey: ["sequenceEnrollments", contactId] });
+		queryClient.invalidateQueries({ queryKey: ["sequences"] });
+	};
+
+	const enroll = useMutation({
+		mutationFn: async (sequenceId: string) => {
+			const response = await api.post<{ data: SequenceEnrollment }>(
+				`/admin/sequences/${sequenceId}/enrollments`,
+				{ contactId },
+			);
+			return response.data;
+		},
+		onSuccess,
+	});
+
+	const pause = useMutation({
+		mutationFn: async (enrollmentId: string) => {
+			await api.post(`/admin/sequences/enrollments/${enrollmentId}/pause`);
+		},
+		onSuccess,
+	});
+
+	const resume = useMutation({
+		mutationFn: async (enrollmentId: string) => {
+			await api.post(`/admin/sequences/enrollments/${enrollmentId}/resume`);
+		},
+		onSuccess,
+	});
+
+	const stop = useMutation({
+		mutationFn: async (enrollmentId: string) => {
+			await api.delete(`/admin/sequences/enrollments/${enrollmentId}`);
+		},
+		onSuccess,
+	});
+
+	return { enroll, pause, resume, stop };
+}
@@ -1,6 +1,13 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
-import type { Webhook, WebhookDelivery } from "@/lib/types";
+import type {
+	Webhook,
+	WebhookDelivery,
+	WebhookDeliveryRetention,
+	WebhookDeliveryStats,
+	WebhookPreview,
+	WebhookQueuedRetry,
+} from "@/lib/types";
 
 export function useWebhooks() {
 	return useQuery({
@@ -12,6 +19,47 @@ export function useWebhooks() {
 	});
 }
 
+export function useWebhookStats() {
+	return useQuery({
+		queryKey: ["webhookStats"],
+		queryFn: async () => {
+			return api.get<{ stats: WebhookDeliveryStats[]; windowDays: number }>(
+				"/admin/webhooks/stats",
+			);
+		},
+	});
+}
+
+export function useWebhookRetention() {
+	return useQuery({
+		queryKey: ["webhookRetention"],
+		queryFn: async () => {
+			const response = await api.get<{ retention: WebhookDeliveryRetention }>(
+				"/admin/webhooks/retention",
+			);
+			return response.retention;
+		},
+	});
+}
+
+export function useUpdateWebhookRetention() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (data: WebhookDeliveryRetention) => {
+			const response = await api.patch<{ retention: WebhookDeliveryRetention }>(
+				"/admin/webhooks/retention",
+				data,
+			);
+			return response.retention;
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["webhookRetention"] });
+			queryClient.invalidateQueries({ queryKey: ["webhookStats"] });
+		},
+	});
+}
+
 export function useWebhook(id: string | undefined) {
 	return useQuery({
 		queryKey: ["webhook", id],
@@ -31,6 +79,7 @@ export function useWebhookDeliveries(webhookId: string | undefined, page = 1, li
 			if (!webhookId) throw new Error("Webhook ID required");
 			const response = await api.get<{
 				deliveries: WebhookDelivery[];
+				queued: WebhookQueuedRetry[];
 				pagination: { page: number; limit: number; total: number; totalPages: number };
 			}>(`/admin/webhooks/${webhookId}/deliveries`, { page, limit });
 			return response;
@@ -49,6 +98,10 @@ export function useCreateWebhook() {
 			events: string[];
 			secret?: string;
 			enabled?: boolean;
+			filter?: string | null;
+			fieldAllowlist?: string[] | null;
+			customHeaders?: Record<string, string> | null;
+			bodyTemplate?: string | null;
 		}) => {
 			const response = await api.post<{ webhook: Webhook }>("/admin/webhooks", data);
 			return response.webhook;
@@ -74,6 +127,11 @@ export function useUpdateWebhook() {
 				events: string[];
 				secret: string;
 				enabled: boolean;
+				filter: string | null;
+				fieldAllowlist: string[] | null;
+				/** Headers to set; null values remove a header */
+				customHeaders: Record<string, string | null> | null;
+				bodyTemplate: string | null;
 			}>;
 		}) => {
 			const response = await api.patch<{ webhook: Webhook }>(`/admin/webhooks/${id}`, data);
@@ -112,3 +170,98 @@ export function useTestWebhook() {
 		},
 	});
 }
+
+export function useWebhookPreview() {
+	return useMutation({
+		mutationFn: async (data: { bodyTemplate: string | null; fieldAllowlist: string[] | null }) => {
+			return api.post<WebhookPreview>("/admin/webhooks/preview", data);
+		},
+	});
+}
+
+export function useRotateWebhookSecret() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			id,
+			secret,
+			gracePeriodHours,
+		}: {
+			id: string;
+			secret?: string;
+			gracePeriodHours?: number;
+		}) => {
+			const response = await api.post<{
+				secret: string;
+				previousSecretExpiresAt: string | null;
+			}>(`/admin/webhooks/${id}/rotate-secret`, { secret, gracePeriodHours });
+			return response;
+		},
+		onSuccess: (_, variables) => {
+			queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+			queryClient.invalidateQueries({ queryKey: ["webhook", variables.id] });
+		},
+	});
+}
+
+export function useRevokePreviousWebhookSecret() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (id: string) => {
+			await api.delete(`/admin/webhooks/${id}/previous-secret`);
+			return id;
+		},
+		onSuccess: (id) => {
+			queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+			queryClient.invalidateQueries({ queryKey: ["webhook", id] });
+		},
+	});
+}
+
+export function useRedeliverWebhookDelivery() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({ webhookId, deliveryId }: { webhookId: string; deliveryId: string }) => {
+			const response = await api.post<{
+				success: boolean;
+				deliveryId: string;
+				statusCode: number | null;
+				responseTime: number;
+				error: string | null;
+			}>(`/admin/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`);
+			return response;
+		},
+		onSuccess: (_, variables) => {
+			queryClient.invalidateQueries({ queryKey: ["webhookDeliveries", variables.webhookId] });
+			queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+		},
+	});
+}
+
+export function useReplayWebhookDeliveries() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			webhookId,
+			from,
+			to,
+		}: {
+			webhookId: string;
+			from: string;
+			to?: string;
+		}) => {
+			const response = await api.post<{ queued: number; skipped: number }>(
+				`/admin/webhooks/${webhookId}/replay`,
+				{ from, to },
+			);
+			return response;
+		},
+		onSuccess: (_, variables) => {
+			queryClient.invalidateQueries({ queryKey: ["webhookDeliveries", variables.webhookId] });
+		},
+	});
+}
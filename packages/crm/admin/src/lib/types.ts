@@ -30,7 +30,14 @@ export type LeadSource =
 	| "other";
 
 // Activity types
-export type ActivityType = "note" | "email" | "call" | "meeting" | "status_change" | "created";
+export type ActivityType =
+	| "note"
+	| "email"
+	| "email_received"
+	| "call"
+	| "meeting"
+	| "status_change"
+	| "created";
 
 // User
 export interface User {
@@ -50,6 +57,7 @@ export interface Lead {
 	message: string | null;
 	source: LeadSource | null;
 	status: LeadStatus;
+	score: number;
 	notes: string | null;
 	tags: string[];
 	rawInput: string | null;
@@ -66,6 +74,8 @@ export interface Activity {
 	description: string;
 	oldStatus: LeadStatus | null;
 	newStatus: LeadStatus | null;
+	/** Full message for emails sent from the CRM */
+	body: string | null;
 	createdAt: string;
 }
 
@@ -92,13 +102,29 @@ export interface Webhook {
 	name: string;
 	url: string;
 	events: string[];
+	/** Filter expression over lead fields; non-matching lead events are skipped */
+	filter: string | null;
+	/** Lead fields sent to the endpoint; all fields when null */
+	fieldAllowlist: string[] | null;
+	/** Extra request headers; values are masked */
+	customHeaders: Record<string, string> | null;
+	/** JSON body template with {{path}} placeholders; standard payload when null */
+	bodyTemplate: string | null;
 	enabled: boolean;
 	failureCount: number;
 	lastDeliveryAt: string | null;
+	/** Set while a secret rotation is in progress and the old secret still signs */
+	previousSecretExpiresAt: string | null;
 	createdAt: string;
 	updatedAt: string;
 }
 
+// Webhook body template preview
+export interface WebhookPreview {
+	payload: Record<string, unknown>;
+	body: unknown;
+}
+
 // Webhook delivery
 export interface WebhookDelivery {
 	id: string;
@@ -109,26 +135,149 @@ export interface WebhookDelivery {
 	responseBody: string | null;
 	durationMs: number | null;
 	success: boolean;
+	/** Not attempted because the webhook's filter did not match */
+	skipped: boolean;
+	skipReason: string | null;
 	attemptNumber: number;
 	nextRetryAt: string | null;
-	createdAt: string;
+	redeliveryOfId: string | null;
+	attemptedAt: string;
+}
+
+// Webhook delivery statistics over the retained window
+export interface WebhookDeliveryStats {
+	webhookId: string;
+	total: number;
+	succeeded: number;
+	failed: number;
+	/** Share of attempts with a 2xx response (0-1) */
+	successRate: number | null;
+	p50DurationMs: number | null;
+	p95DurationMs: number | null;
+}
+
+// How long delivery history is kept, by outcome
+export interface WebhookDeliveryRetention {
+	successDays: number;
+	failureDays: number;
+}
+
+// Webhook retry waiting in the outbox
+export interface WebhookQueuedRetry {
+	id: string;
+	event: string;
+	attemptNumber: number;
+	nextAttemptAt: string;
+	lastError: string | null;
 }
 
 // Notification channel types
-export type NotificationChannelType = "discord" | "telegram" | "email";
+export type NotificationChannelType = "discord" | "telegram" | "email" | "slack" | "push";
+
+export interface NotificationConfigField {
+	name: string;
+	label: string;
+	type: "text" | "password" | "url" | "email" | "select";
+	/** Choices for "select" fields */
+	options?: string[];
+	placeholder: string;
+	hint: string;
+}
+
+export type NotificationDeliveryMode = "realtime" | "daily" | "weekly";
+
+// Channel delivery schedule (hours and days are in the channel's timezone)
+export interface NotificationSchedule {
+	deliveryMode: NotificationDeliveryMode;
+	digestHour: number;
+	/** 0 = Sunday, weekly digests only */
+	digestDay: number;
+	timezone: string;
+	/** Real-time messages are held from this hour until quietHoursEnd */
+	quietHoursStart: number | null;
+	quietHoursEnd: number | null;
+}
+
+// Routing rules checked against recent leads
+export interface NotificationFilterPreview {
+	total: number;
+	matched: number;
+	leads: Array<{
+		id: string;
+		name: string;
+		company: string | null;
+		budget: string | null;
+		projectType: string | null;
+		source: string | null;
+		status: string;
+		tags: string[];
+		createdAt: string;
+		matched: boolean;
+	}>;
+}
+
+// Message template overrides by event, then message part (e.g. "title")
+export type NotificationTemplates = Record<string, Record<string, string>>;
+
+// A message part a channel type's templates can override
+export interface NotificationTemplatePart {
+	event: string;
+	name: string;
+	label: string;
+	default: string;
+}
+
+// A channel type's new-lead message rendered for a sample lead
+export interface NotificationTemplatePreview {
+	type: NotificationChannelType;
+	preview: {
+		/** Discord */
+		embeds?: Array<{
+			title: string;
+			description?: string;
+			fields: Array<{ name: string; value: string }>;
+		}>;
+		/** Telegram */
+		text?: string;
+		/** Email */
+		subject?: string;
+		html?: string;
+	};
+}
 
 // Notification channel
-export interface NotificationChannel {
+export interface NotificationChannel extends NotificationSchedule {
 	id: string;
 	type: NotificationChannelType;
 	name: string;
 	config: Record<string, string>;
 	events: string[];
 	enabled: boolean;
+	/** Routing rules over lead fields; null sends every lead */
+	filter: string | null;
+	/** Message template overrides; null uses the default messages */
+	templates: NotificationTemplates | null;
+	lastDigestAt: string | null;
 	createdAt: string;
 	updatedAt: string;
 }
 
+export interface NotificationDelivery {
+	id: string;
+	event: string;
+	payload: Record<string, unknown>;
+	/** "held" while a message waits for the channel's quiet hours to end */
+	status: "success" | "failed" | "held";
+	success: boolean;
+	statusCode: number | null;
+	error: string | null;
+	durationMs: number | null;
+	attemptNumber: number;
+	/** Set while a retry of this failed attempt (or release of a held one) is queued */
+	nextRetryAt: string | null;
+	attemptedAt: string;
+}
+
 // AI parse result
 export interface ParseResult {
 	name: string | null;
@@ -268,6 +417,7 @@ export interface Contact {
 	notes: string | null;
 	tags: string[];
 	lastInteractionAt: string | null;
+	decayPinned: boolean;
 	leadId: string | null;
 	interactionCount?: number;
 	company?: { id: string; name: string } | null;
@@ -290,9 +440,116 @@ export interface ContactInteraction {
 	direction: InteractionDirection;
 	description: string;
 	url: string | null;
+	/** Full message for emails sent from the CRM */
+	body: string | null;
 	createdAt: string;
 }
 
+// Contact score: points per interaction type/direction and company signal,
+// and the warmth and tier it suggests
+export type CompanySignal = "hiringContractors" | "b2bContracts";
+
+export interface ContactScore {
+	score: number;
+	warmth: ContactWarmth;
+	suggestedTier: ContactTier;
+	breakdown: {
+		interactions: Array<{
+			type: ContactInteractionType;
+			direction: InteractionDirection;
+			count: number;
+			points: number;
+		}>;
+		company: Array<{ signal: CompanySignal; points: number }>;
+	};
+}
+
+// Weights and thresholds behind contact scores (Settings)
+export interface ContactScoringSettings {
+	interactionWeights: Record<ContactInteractionType, number>;
+	inboundMultiplier: number;
+	halfLifeDays: number;
+	companySignals: Record<CompanySignal, number>;
+	warmthThresholds: { warm: number; hot: number };
+	tierThresholds: { A: number; B: number };
+}
+
+// Rules behind the score stored on each lead
+export interface LeadScoringSettings {
+	budgetPoints: Record<string, number>;
+	projectTypePoints: Record<string, number>;
+	sourcePoints: Record<string, number>;
+	domainPoints: { corporate: number; freeMail: number };
+	freeMailDomains: string[];
+	detailedMessage: { minLength: number; points: number };
+	contactInteractions: { pointsEach: number; maxPoints: number };
+}
+
+// Reusable subject and body for the email composer
+export interface EmailSnippet {
+	id: string;
+	name: string;
+	subject: string | null;
+	body: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+// Cal.com booking stored by the booking webhook
+export type BookingStatus = "scheduled" | "cancelled" | "completed";
+
+export interface Booking {
+	id: string;
+	calUid: string;
+	title: string;
+	startTime: string | null;
+	endTime: string | null;
+	attendeeName: string;
+	attendeeEmail: string;
+	attendeeTimeZone: string | null;
+	status: BookingStatus;
+	rescheduleCount: number;
+	cancellationReason: string | null;
+	lead: { id: string; name: string } | null;
+	contact: { id: string; name: string } | null;
+	createdAt: string;
+	updatedAt: string;
+}
+
+// Outreach sequence step: what to do, the interaction that marks it done,
+// and the days to wait after the previous step
+export interface SequenceStep {
+	action: string;
+	type: ContactInteractionType;
+	delayDays: number;
+}
+
+export interface Sequence {
+	id: string;
+	name: string;
+	description: string | null;
+	steps: SequenceStep[];
+	activeEnrollments?: number;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export type SequenceEnrollmentStatus = "active" | "paused" | "completed";
+
+export interface SequenceEnrollment {
+	id: string;
+	sequence: { id: string; name: string; stepCount: number };
+	contact: { id: string; name: string };
+	currentStep: number;
+	currentAction: string | null;
+	status: SequenceEnrollmentStatus;
+	stepDueAt: string | null;
+	pausedAt: string | null;
+	completedAt: string | null;
+	createdAt: string;
+	updatedAt: string;
+}
+
 // Contact AI parse result
 export interface ContactParseResult {
 	parsed: {
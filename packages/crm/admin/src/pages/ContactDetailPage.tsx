@@ -1,5 +1,7 @@
 import { useState } from "react";
 import { Link, useNavigate, useParams } from "react-router-dom";
+import { ContactSequenceCard } from "@/components/ContactSequenceCard";
+import { EmailComposerModal } from "@/components/EmailComposerModal";
 import { Badge } from "@/components/ui/Badge";
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent, CardHeader } from "@/components/ui/Card";
@@ -7,10 +9,13 @@ import { Input } from "@/components/ui/Input";
 import { Modal } from "@/components/ui/Modal";
 import { Select } from "@/components/ui/Select";
 import { Textarea } from "@/components/ui/Textarea";
+import { Toggle } from "@/components/ui/Toggle";
 import {
 	useContact,
+	useContactScore,
 	useCreateInteraction,
 	useDeleteContact,
+	useSendContactEmail,
 	useUpdateContact,
 } from "@/hooks/useContacts";
 import type {
@@ -50,17 +55,25 @@ const statusSteps: { value: ContactRelationshipStatus; label: string }[] = [
 	{ value: "converted", label: "Converted" },
 ];
 
+const companySignalLabels: Record<string, string> = {
+	hiringContractors: "Company hires contractors",
+	b2bContracts: "Company takes B2B contracts",
+};
+
 export function ContactDetailPage() {
 	const { id } = useParams<{ id: string }>();
 	const navigate = useNavigate();
 	const { data: contact, isLoading, error } = useContact(id);
+	const { data: score } = useContactScore(id);
 	const updateMutation = useUpdateContact();
 	const deleteMutation = useDeleteContact();
 	const interactionMutation = useCreateInteraction(id || "");
+	const sendEmailMutation = useSendContactEmail(id || "");
 
 	const [isEditModalOpen, setIsEditModalOpen] = useState(false);
 	const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
 	const [isInteractionModalOpen, setIsInteractionModalOpen] = useState(false);
+	const [isEmailModalOpen, setIsEmailModalOpen] = useState(false);
 	const [editForm, setEditForm] = useState({
 		name: "",
 		email: "",
@@ -171,6 +184,15 @@ export function ContactDetailPage() {
 		}
 	};
 
+	const handlePinnedChange = async (decayPinned: boolean) => {
+		if (!id || !contact) return;
+		try {
+			await updateMutation.mutateAsync({ id, data: { decayPinned } });
+		} catch {
+			// Error handled by mutation
+		}
+	};
+
 	const handleAddInteraction = async () => {
 		if (!interactionForm.description.trim()) return;
 		try {
@@ -416,6 +438,11 @@ export function ContactDetailPage() {
 													</span>
 												</div>
 												<p className="text-dark-300">{interaction.description}</p>
+												{interaction.body && (
+													<p className="text-sm text-dark-300 whitespace-pre-wrap mt-2 p-3 bg-dark-800/50 rounded-lg">
+														{interaction.body}
+													</p>
+												)}
 												{interaction.url && (
 													<a
 														href={interaction.url}
@@ -458,6 +485,9 @@ export function ContactDetailPage() {
 						</CardContent>
 					</Card>
 
+					{/* Outreach Sequence */}
+					<ContactSequenceCard contactId={contact.id} />
+
 					{/* Tier Selector */}
 					<Card>
 						<CardHeader>
@@ -486,9 +516,81 @@ export function ContactDetailPage() {
 										? "21-day touch cadence"
 										: "60-day touch cadence"}
 							</p>
+							<div className="mt-4">
+								<Toggle
+									checked={contact.decayPinned}
+									onChange={handlePinnedChange}
+									disabled={updateMutation.isPending}
+									label="Pinned"
+								/>
+								<p className="text-xs text-dark-500 mt-1">
+									Pinned contacts keep their warmth and status when they go quiet
+								</p>
+							</div>
 						</CardContent>
 					</Card>
 
+					{/* Score Breakdown */}
+					{score && (
+						<Card>
+							<CardHeader>
+								<div className="flex items-center justify-between">
+									<h3 className="font-semibold">Score</h3>
+									<span className="text-lg font-semibold">{score.score}</span>
+								</div>
+							</CardHeader>
+							<CardContent className="space-y-3">
+								<div className="flex items-center justify-between text-sm">
+									<span className="text-dark-400">Suggests</span>
+									<div className="flex items-center gap-2">
+										<Badge variant={getWarmthBadgeVariant(score.warmth)}>
+											{formatWarmth(score.warmth)}
+										</Badge>
+										<Badge>Tier {score.suggestedTier}</Badge>
+										{score.suggestedTier !== contact.tier && (
+											<Button
+												variant="ghost"
+												size="sm"
+												onClick={() => handleTierChange(score.suggestedTier)}
+												disabled={updateMutation.isPending}
+											>
+												Apply
+											</Button>
+										)}
+									</div>
+								</div>
+								{score.breakdown.interactions.length === 0 &&
+								score.breakdown.company.length === 0 ? (
+									<p className="text-sm text-dark-500">No interactions yet</p>
+								) : (
+									<ul className="space-y-1 text-sm">
+										{score.breakdown.interactions.map((item) => (
+											<li
+												key={`${item.type}-${item.direction}`}
+												className="flex justify-between gap-2 text-dark-300"
+											>
+												<span>
+													{formatInteractionType(item.type)}
+													{item.direction === "inbound" && " (inbound)"} × {item.count}
+												</span>
+												<span className="text-dark-400">+{item.points}</span>
+											</li>
+										))}
+										{score.breakdown.company.map((item) => (
+											<li key={item.signal} className="flex justify-between gap-2 text-dark-300">
+												<span>{companySignalLabels[item.signal] ?? item.signal}</span>
+												<span className="text-dark-400">+{item.points}</span>
+											</li>
+										))}
+									</ul>
+								)}
+								<p className="text-xs text-dark-500">
+									Older interactions count for less. Weights are set in Settings.
+								</p>
+							</CardContent>
+						</Card>
+					)}
+
 					{/* Tags */}
 					{contact.tags && contact.tags.length > 0 && (
 						<Card>
@@ -543,6 +645,19 @@ export function ContactDetailPage() {
 								<MailIcon className="h-4 w-4" />
 								Log DM
 							</Button>
+							{contact.email && (
+								<Button
+									variant="secondary"
+									className="w-full justify-start"
+									onClick={() => {
+										sendEmailMutation.reset();
+										setIsEmailModalOpen(true);
+									}}
+								>
+									<MailIcon className="h-4 w-4" />
+									Send Email
+								</Button>
+							)}
 							{contact.linkedinUrl && (
 								<a href={contact.linkedinUrl} target="_blank" rel="noopener noreferrer">
 									<Button variant="secondary" className="w-full justify-start">
@@ -738,6 +853,18 @@ export function ContactDetailPage() {
 					</Button>
 				</div>
 			</Modal>
+
+			{/* Send Email Modal */}
+			{contact.email && (
+				<EmailComposerModal
+					isOpen={isEmailModalOpen}
+					onClose={() => setIsEmailModalOpen(false)}
+					recipient={{ name: contact.name, email: contact.email }}
+					onSend={(email) => sendEmailMutation.mutateAsync(email)}
+					isSending={sendEmailMutation.isPending}
+					error={sendEmailMutation.error}
+				/>
+			)}
 		</div>
 	);
 }
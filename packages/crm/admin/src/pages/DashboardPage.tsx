@@ -1,4 +1,5 @@
 import { Link } from "react-router-dom";
+import { UpcomingMeetingsCard } from "@/components/UpcomingMeetingsCard";
 import { Badge } from "@/components/ui/Badge";
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent, CardHeader } from "@/components/ui/Card";
@@ -89,6 +90,9 @@ export function DashboardPage() {
 				</CardContent>
 			</Card>
 
+			{/* Upcoming Meetings */}
+			<UpcomingMeetingsCard />
+
 			{/* Recent Leads */}
 			<Card>
 				<CardHeader>
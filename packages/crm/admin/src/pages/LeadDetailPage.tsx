@@ -1,5 +1,7 @@
 import { useState } from "react";
 import { Link, useNavigate, useParams } from "react-router-dom";
+import { EmailComposerModal } from "@/components/EmailComposerModal";
+import { UpcomingMeetingsCard } from "@/components/UpcomingMeetingsCard";
 import { Badge } from "@/components/ui/Badge";
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent, CardHeader } from "@/components/ui/Card";
@@ -7,7 +9,13 @@ import { Input } from "@/components/ui/Input";
 import { Modal } from "@/components/ui/Modal";
 import { Select } from "@/components/ui/Select";
 import { Textarea } from "@/components/ui/Textarea";
-import { useAddActivity, useDeleteLead, useLead, useUpdateLead } from "@/hooks/useLeads";
+import {
+	useAddActivity,
+	useDeleteLead,
+	useLead,
+	useSendLeadEmail,
+	useUpdateLead,
+} from "@/hooks/useLeads";
 import type { ActivityType, LeadStatus } from "@/lib/types";
 import {
 	cn,
@@ -61,10 +69,12 @@ export function LeadDetailPage() {
 	const updateMutation = useUpdateLead();
 	const deleteMutation = useDeleteLead();
 	const addActivityMutation = useAddActivity();
+	const sendEmailMutation = useSendLeadEmail();
 
 	const [isEditModalOpen, setIsEditModalOpen] = useState(false);
 	const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
 	const [isNoteModalOpen, setIsNoteModalOpen] = useState(false);
+	const [isEmailModalOpen, setIsEmailModalOpen] = useState(false);
 	const [noteText, setNoteText] = useState("");
 	const [editForm, setEditForm] = useState({
 		name: "",
@@ -152,6 +162,11 @@ export function LeadDetailPage() {
 		}
 	};
 
+	const openEmailModal = () => {
+		sendEmailMutation.reset();
+		setIsEmailModalOpen(true);
+	};
+
 	if (isLoading) {
 		return (
 			<div className="flex items-center justify-center h-64">
@@ -256,6 +271,10 @@ export function LeadDetailPage() {
 									<p className="text-sm text-dark-500">Source</p>
 									<p className="font-medium">{formatSource(lead.source)}</p>
 								</div>
+								<div>
+									<p className="text-sm text-dark-500">Score</p>
+									<p className="font-medium">{lead.score}</p>
+								</div>
 								<div>
 									<p className="text-sm text-dark-500">Created</p>
 									<p className="font-medium">{formatDateTime(lead.createdAt)}</p>
@@ -309,6 +328,11 @@ export function LeadDetailPage() {
 													</span>
 												</div>
 												<p className="text-sm text-dark-400 mt-1">{activity.description}</p>
+												{activity.body && (
+													<p className="text-sm text-dark-300 whitespace-pre-wrap mt-2 p-3 bg-dark-800/50 rounded-lg">
+														{activity.body}
+													</p>
+												)}
 												{activity.type === "status_change" &&
 													activity.oldStatus &&
 													activity.newStatus && (
@@ -346,12 +370,10 @@ export function LeadDetailPage() {
 								<NoteIcon className="h-4 w-4" />
 								Add Note
 							</Button>
-							<a href={`mailto:${lead.email}`}>
-								<Button variant="secondary" className="w-full justify-start">
-									<MailIcon className="h-4 w-4" />
-									Send Email
-								</Button>
-							</a>
+							<Button variant="secondary" className="w-full justify-start" onClick={openEmailModal}>
+								<MailIcon className="h-4 w-4" />
+								Send Email
+							</Button>
 							{lead.phone && (
 								<a href={`tel:${lead.phone}`}>
 									<Button variant="secondary" className="w-full justify-start">
@@ -363,6 +385,8 @@ export function LeadDetailPage() {
 						</CardContent>
 					</Card>
 
+					<UpcomingMeetingsCard leadId={lead.id} />
+
 					{lead.tags && lead.tags.length > 0 && (
 						<Card>
 							<CardHeader>
@@ -500,6 +524,16 @@ export function LeadDetailPage() {
 					</Button>
 				</div>
 			</Modal>
+
+			{/* Send Email Modal */}
+			<EmailComposerModal
+				isOpen={isEmailModalOpen}
+				onClose={() => setIsEmailModalOpen(false)}
+				recipient={lead}
+				onSend={(email) => sendEmailMutation.mutateAsync({ leadId: lead.id, ...email })}
+				isSending={sendEmailMutation.isPending}
+				error={sendEmailMutation.error}
+			/>
 		</div>
 	);
 }
@@ -508,6 +542,7 @@ function getActivityTitle(type: ActivityType): string {
 	const titles: Record<ActivityType, string> = {
 		note: "Note added",
 		email: "Email sent",
+		email_received: "Email received",
 		call: "Call made",
 		meeting: "Meeting held",
 		status_change: "Status changed",
@@ -523,6 +558,7 @@ function ActivityIcon({ type }: { type: ActivityType }) {
 		case "note":
 			return <NoteIcon className={className} />;
 		case "email":
+		case "email_received":
 			return <MailIcon className={className} />;
 		case "call":
 			return <PhoneIcon className={className} />;
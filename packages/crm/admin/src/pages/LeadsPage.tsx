@@ -22,6 +22,7 @@ const statusOptions = [
 
 const sortOptions = [
 	{ value: "createdAt:desc", label: "Newest First" },
+	{ value: "score:desc", label: "Highest Score" },
 	{ value: "createdAt:asc", label: "Oldest First" },
 	{ value: "name:asc", label: "Name A-Z" },
 	{ value: "name:desc", label: "Name Z-A" },
@@ -43,8 +44,8 @@ export function LeadsPage() {
 		limit: 20,
 		status: status || undefined,
 		search: search || undefined,
-		sort: sortField,
-		order: sortOrder,
+		// The API takes a "-" prefix for descending order
+		sort: sortOrder === "desc" ? `-${sortField}` : sortField,
 	});
 
 	const deleteMutation = useDeleteLead();
@@ -169,6 +170,7 @@ export function LeadsPage() {
 										<th className="text-left py-3 px-4 text-sm font-medium text-dark-400">
 											Status
 										</th>
+										<th className="text-left py-3 px-4 text-sm font-medium text-dark-400">Score</th>
 										<th className="text-left py-3 px-4 text-sm font-medium text-dark-400">
 											Created
 										</th>
@@ -198,6 +200,7 @@ export function LeadsPage() {
 													{formatStatus(lead.status)}
 												</Badge>
 											</td>
+											<td className="py-3 px-4 text-dark-400">{lead.score}</td>
 											<td className="py-3 px-4 text-dark-400 text-sm">
 												{formatRelativeTime(lead.createdAt)}
 											</td>
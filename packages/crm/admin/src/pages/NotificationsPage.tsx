@@ -1,28 +1,107 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { Badge } from "@/components/ui/Badge";
 import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { Input } from "@/components/ui/Input";
 import { Modal } from "@/components/ui/Modal";
 import { Select } from "@/components/ui/Select";
+import { Textarea } from "@/components/ui/Textarea";
 import { Toggle } from "@/components/ui/Toggle";
 import {
 	useCreateNotificationChannel,
 	useDeleteNotificationChannel,
 	useNotificationChannels,
 	useNotificationEvents,
+	useNotificationFilterPreview,
+	useNotificationTemplatePreview,
 	useNotificationTypes,
 	useTestNotificationChannel,
 	useUpdateNotificationChannel,
 } from "@/hooks/useNotifications";
-import type { NotificationChannelType } from "@/lib/types";
+import { ApiError } from "@/lib/api";
+import type {
+	NotificationChannel,
+	NotificationChannelType,
+	NotificationDeliveryMode,
+	NotificationSchedule,
+	NotificationTemplatePart,
+	NotificationTemplatePreview,
+	NotificationTemplates,
+} from "@/lib/types";
+import { truncate } from "@/lib/utils";
 
 const CHANNEL_ICONS: Record<NotificationChannelType, React.FC<{ className?: string }>> = {
 	discord: DiscordIcon,
 	telegram: TelegramIcon,
 	email: EmailIcon,
+	slack: SlackIcon,
+	push: PushIcon,
 };
 
+// Event pickers are grouped by the resource prefix of the event name
+const EVENT_GROUP_LABELS: Record<string, string> = {
+	lead: "Leads",
+	contact: "Contacts",
+	webhook: "Webhooks",
+	booking: "Bookings",
+};
+
+const DELIVERY_MODE_OPTIONS: { value: NotificationDeliveryMode; label: string }[] = [
+	{ value: "realtime", label: "Real-time" },
+	{ value: "daily", label: "Daily digest" },
+	{ value: "weekly", label: "Weekly digest" },
+];
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const DEFAULT_SCHEDULE: NotificationSchedule = {
+	deliveryMode: "realtime",
+	digestHour: 9,
+	digestDay: 1,
+	timezone: "UTC",
+	quietHoursStart: null,
+	quietHoursEnd: null,
+};
+
+function formatHour(hour: number): string {
+	return `${String(hour).padStart(2, "0")}:00`;
+}
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => ({
+	value: String(hour),
+	label: formatHour(hour),
+}));
+
+const QUIET_HOUR_OPTIONS = [{ value: "", label: "Off" }, ...HOUR_OPTIONS];
+
+// Drops blank template overrides (they fall back to the default), or null when none are left
+function compactTemplates(templates: NotificationTemplates): NotificationTemplates | null {
+	const compacted: NotificationTemplates = {};
+	for (const [event, parts] of Object.entries(templates)) {
+		const overrides = Object.entries(parts).filter(([, template]) => template.trim());
+		if (overrides.length > 0) {
+			compacted[event] = Object.fromEntries(overrides);
+		}
+	}
+	return Object.keys(compacted).length > 0 ? compacted : null;
+}
+
+// Summarizes a channel's schedule for the list, or null for plain real-time delivery
+function describeSchedule(channel: NotificationChannel): string | null {
+	const at = `${formatHour(channel.digestHour)} ${channel.timezone}`;
+	if (channel.deliveryMode === "daily") {
+		return `Daily digest at ${at}`;
+	}
+	if (channel.deliveryMode === "weekly") {
+		return `Weekly digest on ${WEEKDAYS[channel.digestDay] ?? "Monday"} at ${at}`;
+	}
+	if (channel.quietHoursStart !== null && channel.quietHoursEnd !== null) {
+		return `Quiet ${formatHour(channel.quietHoursStart)}–${formatHour(channel.quietHoursEnd)} ${channel.timezone}`;
+	}
+	return null;
+}
+
 export function NotificationsPage() {
 	const { data: channels, isLoading, error } = useNotificationChannels();
 	const { data: events } = useNotificationEvents();
@@ -31,6 +110,24 @@ export function NotificationsPage() {
 	const updateMutation = useUpdateNotificationChannel();
 	const deleteMutation = useDeleteNotificationChannel();
 	const testMutation = useTestNotificationChannel();
+	const previewMutation = useNotificationFilterPreview();
+	const { mutate: previewFilter } = previewMutation;
+	const templatePreviewMutation = useNotificationTemplatePreview();
+	const { mutate: previewTemplates } = templatePreviewMutation;
+
+	const eventGroups = (events ?? []).reduce<
+		Array<{ label: string; events: { event: string; description: string }[] }>
+	>((groups, item) => {
+		const prefix = item.event.slice(0, item.event.indexOf("."));
+		const label = EVENT_GROUP_LABELS[prefix] ?? prefix;
+		const group = groups.find((g) => g.label === label);
+		if (group) {
+			group.events.push(item);
+		} else {
+			groups.push({ label, events: [item] });
+		}
+		return groups;
+	}, []);
 
 	const [isModalOpen, setIsModalOpen] = useState(false);
 	const [editingId, setEditingId] = useState<string | null>(null);
@@ -46,21 +143,65 @@ export function NotificationsPage() {
 		name: "",
 		config: {} as Record<string, string>,
 		events: [] as string[],
+		filter: "",
+		templates: {} as NotificationTemplates,
+		schedule: DEFAULT_SCHEDULE,
 	});
 
+	const selectedType = types?.find((t) => t.type === form.type);
+	const templateParts = selectedType?.templateParts ?? [];
+	const hasTemplates = templateParts.length > 0;
+
+	// Live preview of the routing rules against recent leads (debounced)
+	useEffect(() => {
+		if (!isModalOpen) return;
+		const timeout = setTimeout(() => {
+			previewFilter({ filter: form.filter || null });
+		}, 400);
+		return () => clearTimeout(timeout);
+	}, [isModalOpen, form.filter, previewFilter]);
+
+	// Live preview of the new-lead message for a sample lead (debounced)
+	useEffect(() => {
+		if (!isModalOpen || !hasTemplates || !form.type) return;
+		const type = form.type;
+		const timeout = setTimeout(() => {
+			previewTemplates({ type, templates: compactTemplates(form.templates) });
+		}, 400);
+		return () => clearTimeout(timeout);
+	}, [isModalOpen, hasTemplates, form.type, form.templates, previewTemplates]);
+
 	const openCreateModal = () => {
 		setEditingId(null);
-		setForm({ type: "", name: "", config: {}, events: [] });
+		setForm({
+			type: "",
+			name: "",
+			config: {},
+			events: [],
+			filter: "",
+			templates: {},
+			schedule: DEFAULT_SCHEDULE,
+		});
 		setIsModalOpen(true);
 	};
 
-	const openEditModal = (channel: NonNullable<typeof channels>[number]) => {
+	const openEditModal = (channel: NotificationChannel) => {
 		setEditingId(channel.id);
 		setForm({
 			type: channel.type,
 			name: channel.name,
 			config: { ...channel.config },
 			events: [...channel.events],
+			filter: channel.filter ?? "",
+			templates: channel.templates ?? {},
+			schedule: {
+				deliveryMode: channel.deliveryMode,
+				digestHour: channel.digestHour,
+				digestDay: channel.digestDay,
+				timezone: channel.timezone,
+				quietHoursStart: channel.quietHoursStart,
+				quietHoursEnd: channel.quietHoursEnd,
+			},
 		});
 		setIsModalOpen(true);
 	};
@@ -76,6 +217,9 @@ export function NotificationsPage() {
 						name: form.name,
 						config: form.config,
 						events: form.events,
+						filter: form.filter || null,
+						templates: compactTemplates(form.templates),
+						...form.schedule,
 					},
 				});
 			} else {
@@ -84,6 +228,9 @@ export function NotificationsPage() {
 					name: form.name,
 					config: form.config,
 					events: form.events,
+					filter: form.filter || null,
+					templates: compactTemplates(form.templates),
+					...form.schedule,
 				});
 			}
 			setIsModalOpen(false);
@@ -131,13 +278,38 @@ export function NotificationsPage() {
 	};
 
 	const updateConfig = (key: string, value: string) => {
+		setForm((prev) => {
+			// Cleared fields are omitted so optional settings fall back to their defaults
+			const { [key]: _, ...config } = prev.config;
+			return { ...prev, config: value ? { ...config, [key]: value } : config };
+		});
+	};
+
+	const updateSchedule = (changes: Partial<NotificationSchedule>) => {
+		setForm((prev) => ({ ...prev, schedule: { ...prev.schedule, ...changes } }));
+	};
+
+	const updateTemplate = (part: NotificationTemplatePart, value: string) => {
 		setForm((prev) => ({
 			...prev,
-			config: { ...prev.config, [key]: value },
+			templates: {
+				...prev.templates,
+				[part.event]: { ...prev.templates[part.event], [part.name]: value },
+			},
 		}));
 	};
 
-	const selectedType = types?.find((t) => t.type === form.type);
+	const toQuietHour = (value: string) => (value === "" ? null : Number(value));
+
+	const previewError =
+		previewMutation.error instanceof ApiError
+			? (previewMutation.error.details?.filter ?? previewMutation.error.message)
+			: previewMutation.error?.message;
+
+	const templatePreviewError =
+		templatePreviewMutation.error instanceof ApiError
+			? (templatePreviewMutation.error.details?.templates ?? templatePreviewMutation.error.message)
+			: templatePreviewMutation.error?.message;
 
 	return (
 		<div className="space-y-6">
@@ -197,10 +369,19 @@ export function NotificationsPage() {
 												</div>
 												<p className="text-sm text-dark-500 mt-1 capitalize">{channel.type}</p>
 												<div className="flex flex-wrap gap-2 mt-2">
+													{describeSchedule(channel) && (
+														<Badge variant="info">{describeSchedule(channel)}</Badge>
+													)}
+													{channel.templates && <Badge variant="info">Custom message</Badge>}
 													{channel.events.map((event) => (
 														<Badge key={event}>{event}</Badge>
 													))}
 												</div>
+												{channel.filter && (
+													<p className="text-xs text-dark-500 mt-2 font-mono">
+														Only: {truncate(channel.filter, 80)}
+													</p>
+												)}
 											</div>
 										</div>
 										<div className="flex items-center gap-2">
@@ -212,6 +393,11 @@ export function NotificationsPage() {
 											>
 												Test
 											</Button>
+											<Link to={`/notifications/${channel.id}/deliveries`}>
+												<Button variant="ghost" size="sm">
+													History
+												</Button>
+											</Link>
 											<Button variant="ghost" size="sm" onClick={() => openEditModal(channel)}>
 												Edit
 											</Button>
@@ -249,7 +435,12 @@ export function NotificationsPage() {
 							]}
 							value={form.type}
 							onChange={(e) => {
-								setForm({ ...form, type: e.target.value as NotificationChannelType, config: {} });
+								setForm({
+									...form,
+									type: e.target.value as NotificationChannelType,
+									config: {},
+									templates: {},
+								});
 							}}
 						/>
 					)}
@@ -264,42 +455,232 @@ export function NotificationsPage() {
 					{selectedType && (
 						<div className="space-y-3">
 							<p className="text-sm font-medium text-dark-300">Configuration</p>
-							{Object.entries(selectedType.configHints).map(([key, hint]) => (
-								<Input
-									key={key}
-									label={key.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase())}
-									value={form.config[key] || ""}
-									onChange={(e) => updateConfig(key, e.target.value)}
-									placeholder={hint}
-									type={key.includes("token") || key.includes("key") ? "password" : "text"}
-								/>
-							))}
+							{selectedType.configFields.map((field) =>
+								field.type === "select" ? (
+									<div key={field.name} className="space-y-1.5">
+										<Select
+											label={field.label}
+											options={(field.options ?? []).map((option) => ({
+												value: option,
+												label: option,
+											}))}
+											value={form.config[field.name] || field.placeholder}
+											onChange={(e) => updateConfig(field.name, e.target.value)}
+										/>
+										<p className="text-sm text-dark-500">{field.hint}</p>
+									</div>
+								) : (
+									<Input
+										key={field.name}
+										label={field.label}
+										value={form.config[field.name] || ""}
+										onChange={(e) => updateConfig(field.name, e.target.value)}
+										placeholder={field.placeholder}
+										hint={field.hint}
+										// "email" fields accept lists and display names, so they stay plain text
+										type={field.type === "email" ? "text" : field.type}
+									/>
+								),
+							)}
 						</div>
 					)}
 
 					<div>
 						<label className="block text-sm font-medium text-dark-300 mb-2">Events</label>
-						<div className="space-y-2">
-							{events?.map(({ event, description }) => (
-								<label
-									key={event}
-									className="flex items-start gap-3 p-3 rounded-lg border border-dark-700 hover:border-dark-600 cursor-pointer"
-								>
-									<input
-										type="checkbox"
-										checked={form.events.includes(event)}
-										onChange={() => toggleEvent(event)}
-										className="mt-0.5 h-4 w-4 rounded border-dark-700 bg-dark-800 text-primary-500 focus:ring-primary-500 focus:ring-offset-dark-950"
-									/>
-									<div>
-										<p className="font-medium text-sm">{event}</p>
-										<p className="text-xs text-dark-500">{description}</p>
+						<div className="space-y-4">
+							{eventGroups.map((group) => (
+								<div key={group.label}>
+									<p className="text-xs font-medium uppercase tracking-wide text-dark-500 mb-2">
+										{group.label}
+									</p>
+									<div className="space-y-2">
+										{group.events.map(({ event, description }) => (
+											<label
+												key={event}
+												className="flex items-start gap-3 p-3 rounded-lg border border-dark-700 hover:border-dark-600 cursor-pointer"
+											>
+												<input
+													type="checkbox"
+													checked={form.events.includes(event)}
+													onChange={() => toggleEvent(event)}
+													className="mt-0.5 h-4 w-4 rounded border-dark-700 bg-dark-800 text-primary-500 focus:ring-primary-500 focus:ring-offset-dark-950"
+												/>
+												<div>
+													<p className="font-medium text-sm">{event}</p>
+													<p className="text-xs text-dark-500">{description}</p>
+												</div>
+											</label>
+										))}
 									</div>
-								</label>
+								</div>
 							))}
 						</div>
 					</div>
 
+					<div>
+						<Textarea
+							label="Routing Rules (optional)"
+							value={form.filter}
+							onChange={(e) => setForm({ ...form, filter: e.target.value })}
+							placeholder={'budget >= 50000 or projectType == "Legacy Modernization"'}
+							hint="Only leads that match are sent to this channel. Fields: name, email, company, phone, budget, projectType, message, source, status, tags. Supports ==, !=, >, >=, <, <=, in [...], contains, and, or, not"
+							className="font-mono text-sm min-h-[60px]"
+						/>
+						{previewError ? (
+							<p className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm font-mono break-all">
+								{previewError}
+							</p>
+						) : (
+							previewMutation.data && (
+								<div className="mt-3">
+									<p className="text-sm text-dark-400 mb-2">
+										Matches {previewMutation.data.matched} of the last {previewMutation.data.total}{" "}
+										leads
+									</p>
+									<div className="max-h-48 overflow-y-auto rounded-lg border border-dark-700 divide-y divide-dark-800">
+										{previewMutation.data.leads.map((lead) => (
+											<div
+												key={lead.id}
+												className={`flex items-center justify-between gap-3 px-3 py-2 text-sm ${
+													lead.matched ? "" : "opacity-50"
+												}`}
+											>
+												<div className="min-w-0">
+													<p className="font-medium truncate">{lead.name}</p>
+													<p className="text-xs text-dark-500 truncate">
+														{[
+															lead.company,
+															lead.budget,
+															lead.projectType,
+															lead.source,
+															...lead.tags,
+														]
+															.filter(Boolean)
+															.join(" · ")}
+													</p>
+												</div>
+												<Badge variant={lead.matched ? "success" : "default"}>
+													{lead.matched ? "Match" : "Skipped"}
+												</Badge>
+											</div>
+										))}
+									</div>
+								</div>
+							)
+						)}
+					</div>
+
+					{hasTemplates && (
+						<div className="space-y-3">
+							<p className="text-sm font-medium text-dark-300">New Lead Message (optional)</p>
+							<p className="text-sm text-dark-500">
+								Leave a part empty to keep the default. Insert fields with {"{{lead.name}}"}, show
+								text only when a field is set with {"{{#lead.company}}…{{/lead.company}}"} (or when
+								it isn't with {"{{^lead.company}}"}). Fields: lead.name, lead.email, lead.company,
+								lead.phone, lead.budget, lead.projectType, lead.message, lead.source, lead.status,
+								lead.tags, lead.createdAt, message, leadUrl, crmUrl
+							</p>
+							{templateParts.map((part) => {
+								const value = form.templates[part.event]?.[part.name] ?? "";
+								return (
+									<div key={`${part.event}:${part.name}`}>
+										<Textarea
+											label={part.label}
+											value={value}
+											onChange={(e) => updateTemplate(part, e.target.value)}
+											placeholder={part.default}
+											className="font-mono text-sm min-h-[60px]"
+										/>
+										{!value && (
+											<button
+												type="button"
+												className="mt-1 text-xs text-primary-400 hover:text-primary-300"
+												onClick={() => updateTemplate(part, part.default)}
+											>
+												Start from the default
+											</button>
+										)}
+									</div>
+								);
+							})}
+							{templatePreviewError ? (
+								<p className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm font-mono break-all">
+									{templatePreviewError}
+								</p>
+							) : (
+								templatePreviewMutation.data && (
+									<TemplatePreview preview={templatePreviewMutation.data.preview} />
+								)
+							)}
+						</div>
+					)}
+
+					<div className="space-y-3">
+						<p className="text-sm font-medium text-dark-300">Delivery</p>
+						<div className="grid grid-cols-2 gap-3">
+							<Select
+								label="Mode"
+								options={DELIVERY_MODE_OPTIONS}
+								value={form.schedule.deliveryMode}
+								onChange={(e) =>
+									updateSchedule({ deliveryMode: e.target.value as NotificationDeliveryMode })
+								}
+							/>
+							<Input
+								label="Timezone"
+								value={form.schedule.timezone}
+								onChange={(e) => updateSchedule({ timezone: e.target.value })}
+								placeholder="e.g., Europe/Berlin"
+							/>
+						</div>
+						{form.schedule.deliveryMode === "realtime" ? (
+							<>
+								<div className="grid grid-cols-2 gap-3">
+									<Select
+										label="Quiet hours from"
+										options={QUIET_HOUR_OPTIONS}
+										value={form.schedule.quietHoursStart?.toString() ?? ""}
+										onChange={(e) =>
+											updateSchedule({ quietHoursStart: toQuietHour(e.target.value) })
+										}
+									/>
+									<Select
+										label="Quiet hours until"
+										options={QUIET_HOUR_OPTIONS}
+										value={form.schedule.quietHoursEnd?.toString() ?? ""}
+										onChange={(e) => updateSchedule({ quietHoursEnd: toQuietHour(e.target.value) })}
+									/>
+								</div>
+								<p className="text-sm text-dark-500">
+									Messages during quiet hours are held and sent when they end.
+								</p>
+							</>
+						) : (
+							<>
+								<div className="grid grid-cols-2 gap-3">
+									{form.schedule.deliveryMode === "weekly" && (
+										<Select
+											label="Day"
+											options={WEEKDAYS.map((day, index) => ({ value: String(index), label: day }))}
+											value={String(form.schedule.digestDay)}
+											onChange={(e) => updateSchedule({ digestDay: Number(e.target.value) })}
+										/>
+									)}
+									<Select
+										label="Send at"
+										options={HOUR_OPTIONS}
+										value={String(form.schedule.digestHour)}
+										onChange={(e) => updateSchedule({ digestHour: Number(e.target.value) })}
+									/>
+								</div>
+								<p className="text-sm text-dark-500">
+									Digests summarize new leads, status changes and stale proposals, and overdue
+									follow-ups for the events selected above.
+								</p>
+							</>
+						)}
+					</div>
+
 					<div className="flex justify-end gap-3 pt-4">
 						<Button variant="secondary" onClick={() => setIsModalOpen(false)}>
 							Cancel
@@ -333,6 +714,51 @@ export function NotificationsPage() {
 	);
 }
 
+// Shows a rendered new-lead message roughly the way its channel displays it
+function TemplatePreview({ preview }: { preview: NotificationTemplatePreview["preview"] }) {
+	const embed = preview.embeds?.[0];
+
+	return (
+		<div className="rounded-lg border border-dark-700 p-3 space-y-2 text-sm">
+			<p className="text-xs font-medium uppercase tracking-wide text-dark-500">
+				Preview with a sample lead
+			</p>
+			{embed && (
+				<div className="border-l-4 border-primary-500 pl-3 space-y-2">
+					<p className="font-semibold">{embed.title}</p>
+					{embed.description && (
+						<p className="text-dark-400 whitespace-pre-wrap">{embed.description}</p>
+					)}
+					<div className="grid grid-cols-2 gap-2">
+						{embed.fields.map((field) => (
+							<div key={field.name}>
+								<p className="text-xs font-medium">{field.name}</p>
+								<p className="text-dark-400">{field.value}</p>
+							</div>
+						))}
+					</div>
+				</div>
+			)}
+			{preview.text !== undefined && (
+				<pre className="whitespace-pre-wrap font-mono text-xs text-dark-300">{preview.text}</pre>
+			)}
+			{preview.subject !== undefined && (
+				<>
+					<p>
+						<span className="text-dark-500">Subject:</span> {preview.subject}
+					</p>
+					<iframe
+						title="Email preview"
+						sandbox=""
+						srcDoc={preview.html}
+						className="w-full h-72 rounded bg-white"
+					/>
+				</>
+			)}
+		</div>
+	);
+}
+
 // Icons
 function PlusIcon({ className }: { className?: string }) {
 	return (
@@ -382,6 +808,32 @@ function TelegramIcon({ className }: { className?: string }) {
 	);
 }
 
+function SlackIcon({ className }: { className?: string }) {
+	return (
+		<svg className={className} viewBox="0 0 24 24" fill="currentColor">
+			<path d="M5.042 15.165a2.528 2.528 0 0 1-2.52 2.523A2.528 2.528 0 0 1 0 15.165a2.527 2.527 0 0 1 2.522-2.52h2.52v2.52zm1.271 0a2.527 2.527 0 0 1 2.521-2.52 2.527 2.527 0 0 1 2.521 2.52v6.313A2.528 2.528 0 0 1 8.834 24a2.528 2.528 0 0 1-2.521-2.522v-6.313zM8.834 5.042a2.528 2.528 0 0 1-2.521-2.52A2.528 2.528 0 0 1 8.834 0a2.528 2.528 0 0 1 2.521 2.522v2.52H8.834zm0 1.271a2.528 2.528 0 0 1 2.521 2.521 2.528 2.528 0 0 1-2.521 2.521H2.522A2.528 2.528 0 0 1 0 8.834a2.528 2.528 0 0 1 2.522-2.521h6.312zm10.122 2.521a2.528 2.528 0 0 1 2.522-2.521A2.528 2.528 0 0 1 24 8.834a2.528 2.528 0 0 1-2.522 2.521h-2.522V8.834zm-1.268 0a2.528 2.528 0 0 1-2.523 2.521 2.527 2.527 0 0 1-2.52-2.521V2.522A2.527 2.527 0 0 1 15.165 0a2.528 2.528 0 0 1 2.523 2.522v6.312zm-2.523 10.122a2.528 2.528 0 0 1 2.523 2.522A2.528 2.528 0 0 1 15.165 24a2.527 2.527 0 0 1-2.52-2.522v-2.522h2.52zm0-1.268a2.527 2.527 0 0 1-2.52-2.523 2.526 2.526 0 0 1 2.52-2.52h6.313A2.527 2.527 0 0 1 24 15.165a2.528 2.528 0 0 1-2.522 2.523h-6.313z" />
+		</svg>
+	);
+}
+
+function PushIcon({ className }: { className?: string }) {
+	return (
+		<svg
+			className={className}
+			fill="none"
+			viewBox="0 0 24 24"
+			stroke="currentColor"
+			strokeWidth={1.5}
+		>
+			<path
+				strokeLinecap="round"
+				strokeLinejoin="round"
+				d="M10.5 1.5H8.25A2.25 2.25 0 006 3.75v16.5a2.25 2.25 0 002.25 2.25h7.5A2.25 2.25 0 0018 20.25V3.75a2.25 2.25 0 00-2.25-2.25H13.5m-3 0V3h3V1.5m-3 0h3m-3 18.75h3"
+			/>
+		</svg>
+	);
+}
+
 function EmailIcon({ className }: { className?: string }) {
 	return (
 		<svg
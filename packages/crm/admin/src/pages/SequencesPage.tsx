@@ -0,0 +1,338 @@
+import { useRef, useState } from "react";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { Input } from "@/components/ui/Input";
+import { Modal } from "@/components/ui/Modal";
+import { Select } from "@/components/ui/Select";
+import { Textarea } from "@/components/ui/Textarea";
+import {
+	useCreateSequence,
+	useDeleteSequence,
+	useSequences,
+	useUpdateSequence,
+} from "@/hooks/useSequences";
+import { ApiError } from "@/lib/api";
+import type { ContactInteractionType, Sequence, SequenceStep } from "@/lib/types";
+
+const stepTypeOptions = [
+	{ value: "linkedin_connection_sent", label: "Connection Request Sent" },
+	{ value: "linkedin_comment", label: "LinkedIn Comment" },
+	{ value: "linkedin_like", label: "LinkedIn Like" },
+	{ value: "linkedin_dm_sent", label: "LinkedIn DM Sent" },
+	{ value: "linkedin_post_engagement", label: "Post Engagement" },
+	{ value: "email_sent", label: "Email Sent" },
+	{ value: "call", label: "Phone Call" },
+	{ value: "meeting", label: "Meeting" },
+	{ value: "note", label: "Note" },
+];
+
+const emptyStep: SequenceStep = { action: "", type: "linkedin_connection_sent", delayDays: 0 };
+
+// Steps being edited carry a local key so rows keep their state when one is removed
+type DraftStep = SequenceStep & { key: number };
+
+export function SequencesPage() {
+	const { data: sequences, isLoading, error } = useSequences();
+	const createMutation = useCreateSequence();
+	const updateMutation = useUpdateSequence();
+	const deleteMutation = useDeleteSequence();
+
+	const [editing, setEditing] = useState<Sequence | "new" | null>(null);
+	const [deletingId, setDeletingId] = useState<string | null>(null);
+	const nextStepKey = useRef(0);
+	const draftStep = (step: SequenceStep = emptyStep): DraftStep => ({
+		...step,
+		key: nextStepKey.current++,
+	});
+	const [form, setForm] = useState<{ name: string; description: string; steps: DraftStep[] }>({
+		name: "",
+		description: "",
+		steps: [],
+	});
+
+	const saveMutation = editing === "new" ? createMutation : updateMutation;
+	const saveError = saveMutation.error instanceof ApiError ? saveMutation.error : null;
+
+	const openCreate = () => {
+		createMutation.reset();
+		setForm({ name: "", description: "", steps: [draftStep()] });
+		setEditing("new");
+	};
+
+	const openEdit = (sequence: Sequence) => {
+		updateMutation.reset();
+		setForm({
+			name: sequence.name,
+			description: sequence.description || "",
+			steps: sequence.steps.map((step) => draftStep(step)),
+		});
+		setEditing(sequence);
+	};
+
+	const updateStep = (index: number, changes: Partial<SequenceStep>) => {
+		setForm((prev) => ({
+			...prev,
+			steps: prev.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+		}));
+	};
+
+	const handleSave = async () => {
+		if (!editing) return;
+
+		const data = {
+			name: form.name,
+			description: form.description || null,
+			steps: form.steps.map(({ key: _key, ...step }) => step),
+		};
+
+		try {
+			if (editing === "new") {
+				await createMutation.mutateAsync(data);
+			} else {
+				await updateMutation.mutateAsync({ id: editing.id, data });
+			}
+			setEditing(null);
+		} catch {
+			// Error handled by mutation
+		}
+	};
+
+	const handleDelete = async () => {
+		if (!deletingId) return;
+
+		try {
+			await deleteMutation.mutateAsync(deletingId);
+			setDeletingId(null);
+		} catch {
+			// Error handled by mutation
+		}
+	};
+
+	const canSave = form.name.trim() !== "" && form.steps.every((step) => step.action.trim() !== "");
+
+	return (
+		<div className="space-y-6">
+			{/* Header */}
+			<div className="flex items-center justify-between">
+				<div>
+					<h1 className="text-2xl font-bold">Sequences</h1>
+					<p className="text-dark-400 mt-1">
+						Outreach cadences that schedule each contact's next action
+					</p>
+				</div>
+				<Button onClick={openCreate}>
+					<PlusIcon className="h-4 w-4" />
+					New Sequence
+				</Button>
+			</div>
+
+			{/* Sequences List */}
+			<Card>
+				{isLoading ? (
+					<div className="flex items-center justify-center h-64">
+						<div className="h-8 w-8 animate-spin rounded-full border-2 border-primary-500 border-t-transparent" />
+					</div>
+				) : error ? (
+					<div className="p-6 text-center text-red-400">
+						Failed to load sequences. Please try again.
+					</div>
+				) : sequences?.length === 0 ? (
+					<div className="p-12 text-center">
+						<p className="text-dark-400">No sequences yet</p>
+						<p className="text-sm text-dark-500 mt-1">
+							Create a sequence, then enroll contacts from their page
+						</p>
+					</div>
+				) : (
+					<div className="divide-y divide-dark-800">
+						{sequences?.map((sequence) => (
+							<div key={sequence.id} className="p-4 flex items-start justify-between gap-4">
+								<div className="flex-1">
+									<div className="flex items-center gap-3">
+										<h3 className="font-medium">{sequence.name}</h3>
+										<Badge>{sequence.activeEnrollments ?? 0} active</Badge>
+									</div>
+									{sequence.description && (
+										<p className="text-sm text-dark-400 mt-1">{sequence.description}</p>
+									)}
+									<ol className="mt-2 space-y-1 text-sm text-dark-400">
+										{sequence.steps.map((step, index) => (
+											<li key={`${sequence.id}-${index}`}>
+												{index + 1}. {step.action}
+												<span className="text-dark-500">
+													{" "}
+													· {formatDelay(step.delayDays, index)} ·{" "}
+													{stepTypeOptions.find((o) => o.value === step.type)?.label ?? step.type}
+												</span>
+											</li>
+										))}
+									</ol>
+								</div>
+								<div className="flex gap-2">
+									<Button variant="secondary" size="sm" onClick={() => openEdit(sequence)}>
+										Edit
+									</Button>
+									<Button variant="danger" size="sm" onClick={() => setDeletingId(sequence.id)}>
+										Delete
+									</Button>
+								</div>
+							</div>
+						))}
+					</div>
+				)}
+			</Card>
+
+			{/* Create / Edit Modal */}
+			<Modal
+				isOpen={!!editing}
+				onClose={() => setEditing(null)}
+				title={editing === "new" ? "New Sequence" : "Edit Sequence"}
+				size="lg"
+			>
+				<div className="space-y-4">
+					<Input
+						label="Name"
+						value={form.name}
+						onChange={(e) => setForm({ ...form, name: e.target.value })}
+						placeholder="e.g., LinkedIn intro"
+						required
+					/>
+					<Textarea
+						label="Description"
+						value={form.description}
+						onChange={(e) => setForm({ ...form, description: e.target.value })}
+						rows={2}
+					/>
+
+					<div>
+						<label className="block text-sm font-medium text-dark-300 mb-2">Steps</label>
+						<p className="text-xs text-dark-500 mb-3">
+							Logging an interaction of a step's type moves the contact to the next step. An inbound
+							reply pauses the sequence.
+						</p>
+						<div className="space-y-3">
+							{form.steps.map((step, index) => (
+								<div
+									key={step.key}
+									className="grid grid-cols-12 gap-2 items-end p-3 rounded-lg border border-dark-700"
+								>
+									<div className="col-span-5">
+										<Input
+											label={`Step ${index + 1}`}
+											value={step.action}
+											onChange={(e) => updateStep(index, { action: e.target.value })}
+											placeholder="e.g., Send a DM"
+										/>
+									</div>
+									<div className="col-span-4">
+										<Select
+											label="Done when logged"
+											options={stepTypeOptions}
+											value={step.type}
+											onChange={(e) =>
+												updateStep(index, { type: e.target.value as ContactInteractionType })
+											}
+										/>
+									</div>
+									<div className="col-span-2">
+										<Input
+											label="Days after"
+											type="number"
+											min={0}
+											value={step.delayDays}
+											onChange={(e) =>
+												updateStep(index, { delayDays: Math.max(0, Number(e.target.value) || 0) })
+											}
+										/>
+									</div>
+									<div className="col-span-1 flex justify-end">
+										<Button
+											variant="ghost"
+											size="sm"
+											onClick={() =>
+												setForm({
+													...form,
+													steps: form.steps.filter((_, i) => i !== index),
+												})
+											}
+											disabled={form.steps.length === 1}
+											title="Remove step"
+										>
+											×
+										</Button>
+									</div>
+								</div>
+							))}
+						</div>
+						<Button
+							variant="secondary"
+							size="sm"
+							className="mt-3"
+							onClick={() => setForm({ ...form, steps: [...form.steps, draftStep()] })}
+							disabled={form.steps.length >= 20}
+						>
+							<PlusIcon className="h-4 w-4" />
+							Add Step
+						</Button>
+					</div>
+
+					{saveError && <p className="text-sm text-red-400">{saveError.message}</p>}
+
+					<div className="flex justify-end gap-3 pt-4">
+						<Button variant="secondary" onClick={() => setEditing(null)}>
+							Cancel
+						</Button>
+						<Button onClick={handleSave} isLoading={saveMutation.isPending} disabled={!canSave}>
+							Save Sequence
+						</Button>
+					</div>
+				</div>
+			</Modal>
+
+			{/* Delete Confirmation Modal */}
+			<Modal
+				isOpen={!!deletingId}
+				onClose={() => setDeletingId(null)}
+				title="Delete Sequence"
+				size="sm"
+			>
+				<p className="text-dark-400 mb-6">
+					Are you sure you want to delete this sequence? Enrolled contacts are removed from it and
+					keep their current next action.
+				</p>
+				<div className="flex justify-end gap-3">
+					<Button variant="secondary" onClick={() => setDeletingId(null)}>
+						Cancel
+					</Button>
+					<Button variant="danger" onClick={handleDelete} isLoading={deleteMutation.isPending}>
+						Delete Sequence
+					</Button>
+				</div>
+			</Modal>
+		</div>
+	);
+}
+
+function formatDelay(delayDays: number, index: number): string {
+	if (delayDays === 0) {
+		return index === 0 ? "right away" : "same day";
+	}
+	const days = `${delayDays} day${delayDays === 1 ? "" : "s"}`;
+	return index === 0 ? `after ${days}` : `${days} later`;
+}
+
+// Icons
+function PlusIcon({ className }: { className?: string }) {
+	return (
+		<svg
+			className={className}
+			fill="none"
+			viewBox="0 0 24 24"
+			stroke="currentColor"
+			strokeWidth={1.5}
+		>
+			<path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+		</svg>
+	);
+}
@@ -1,15 +1,29 @@
-import { type FormEvent, useEffect, useState } from "react";
+import { type FormEvent, useCallback, useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent, CardHeader } from "@/components/ui/Card";
 import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { Textarea } from "@/components/ui/Textarea";
+import { Toggle } from "@/components/ui/Toggle";
 import { useAuth } from "@/hooks/useAuth";
 import { ApiError, api } from "@/lib/api";
+import type {
+	ContactInteractionType,
+	ContactScoringSettings,
+	LeadScoringSettings,
+} from "@/lib/types";
 
 interface SettingsResponse {
 	settings: {
 		cal_link: string | null;
 		openai_api_key: string | null;
 		admin_email: string | null;
+		email_from: string | null;
+		inbound_email_secret: string | null;
+		cal_webhook_secret: string | null;
+		qualify_after_meeting: boolean;
+		warmth_decay_days: number;
+		dormant_after_days: number;
 	};
 }
 
@@ -17,6 +31,37 @@ interface SettingsForm {
 	cal_link: string;
 	openai_api_key: string;
 	admin_email: string;
+	email_from: string;
+	inbound_email_secret: string;
+	cal_webhook_secret: string;
+	qualify_after_meeting: boolean;
+	warmth_decay_days: number;
+	dormant_after_days: number;
+}
+
+interface AutoResponderTemplate {
+	subject: string;
+	body: string;
+}
+
+interface AutoResponder extends AutoResponderTemplate {
+	enabled: boolean;
+	from: string;
+	replyTo: string | null;
+	projectTypeTemplates: Record<string, Partial<AutoResponderTemplate>>;
+	excludedSources: string[];
+}
+
+interface AutoResponderResponse {
+	autoResponder: AutoResponder;
+	templateFields: string[];
+	projectTypes: string[];
+}
+
+interface AutoResponsePreview {
+	subject: string;
+	text: string;
+	html: string;
 }
 
 export function SettingsPage() {
@@ -35,11 +80,23 @@ export function SettingsPage() {
 		cal_link: "",
 		openai_api_key: "",
 		admin_email: "",
+		email_from: "",
+		inbound_email_secret: "",
+		cal_webhook_secret: "",
+		qualify_after_meeting: false,
+		warmth_decay_days: 30,
+		dormant_after_days: 90,
 	});
 	const [originalSettings, setOriginalSettings] = useState<SettingsForm>({
 		cal_link: "",
 		openai_api_key: "",
 		admin_email: "",
+		email_from: "",
+		inbound_email_secret: "",
+		cal_webhook_secret: "",
+		qualify_after_meeting: false,
+		warmth_decay_days: 30,
+		dormant_after_days: 90,
 	});
 	const [settingsError, setSettingsError] = useState<string | null>(null);
 	const [settingsSuccess, setSettingsSuccess] = useState(false);
@@ -55,6 +112,12 @@ export function SettingsPage() {
 					cal_link: data.settings.cal_link || "",
 					openai_api_key: data.settings.openai_api_key || "",
 					admin_email: data.settings.admin_email || "",
+					email_from: data.settings.email_from || "",
+					inbound_email_secret: data.settings.inbound_email_secret || "",
+					cal_webhook_secret: data.settings.cal_webhook_secret || "",
+					qualify_after_meeting: data.settings.qualify_after_meeting ?? false,
+					warmth_decay_days: data.settings.warmth_decay_days ?? 30,
+					dormant_after_days: data.settings.dormant_after_days ?? 90,
 				};
 				setSettingsForm(loaded);
 				setOriginalSettings(loaded);
@@ -89,6 +152,24 @@ export function SettingsPage() {
 		if (settingsForm.admin_email !== originalSettings.admin_email) {
 			changedSettings.admin_email = settingsForm.admin_email;
 		}
+		if (settingsForm.email_from !== originalSettings.email_from) {
+			changedSettings.email_from = settingsForm.email_from;
+		}
+		if (settingsForm.inbound_email_secret !== originalSettings.inbound_email_secret) {
+			changedSettings.inbound_email_secret = settingsForm.inbound_email_secret;
+		}
+		if (settingsForm.cal_webhook_secret !== originalSettings.cal_webhook_secret) {
+			changedSettings.cal_webhook_secret = settingsForm.cal_webhook_secret;
+		}
+		if (settingsForm.qualify_after_meeting !== originalSettings.qualify_after_meeting) {
+			changedSettings.qualify_after_meeting = settingsForm.qualify_after_meeting;
+		}
+		if (settingsForm.warmth_decay_days !== originalSettings.warmth_decay_days) {
+			changedSettings.warmth_decay_days = settingsForm.warmth_decay_days;
+		}
+		if (settingsForm.dormant_after_days !== originalSettings.dormant_after_days) {
+			changedSettings.dormant_after_days = settingsForm.dormant_after_days;
+		}
 
 		if (Object.keys(changedSettings).length === 0) {
 			setSettingsError("No changes to save");
@@ -221,6 +302,79 @@ export function SettingsPage() {
 								hint="Email address for admin notifications"
 							/>
 
+							<Input
+								label="Outbound Email Sender"
+								type="text"
+								value={settingsForm.email_from}
+								onChange={(e) => setSettingsForm({ ...settingsForm, email_from: e.target.value })}
+								placeholder="Octatech <hello@octatech.xyz>"
+								hint="Sender for emails written to leads and contacts (must be a verified Resend domain)"
+							/>
+
+							<Input
+								label="Inbound Email Secret"
+								type="password"
+								value={settingsForm.inbound_email_secret}
+								onChange={(e) =>
+									setSettingsForm({ ...settingsForm, inbound_email_secret: e.target.value })
+								}
+								placeholder="At least 16 characters"
+								hint={`Point your Resend or Postmark inbound webhook at ${window.location.origin}/api/webhooks/email?token=<secret>`}
+							/>
+
+							<Input
+								label="Cal.com Webhook Secret"
+								type="password"
+								value={settingsForm.cal_webhook_secret}
+								onChange={(e) =>
+									setSettingsForm({ ...settingsForm, cal_webhook_secret: e.target.value })
+								}
+								placeholder="At least 16 characters"
+								hint={`Use the same secret for the Cal.com webhook pointing at ${window.location.origin}/api/webhooks/cal. Bookings are rejected until it is set.`}
+							/>
+
+							<div>
+								<Toggle
+									checked={settingsForm.qualify_after_meeting}
+									onChange={(qualify_after_meeting) =>
+										setSettingsForm({ ...settingsForm, qualify_after_meeting })
+									}
+									label="Qualify leads after their Cal.com meeting"
+								/>
+								<p className="mt-1 text-sm text-dark-500">
+									When a booked meeting ends, move new and contacted leads to qualified
+								</p>
+							</div>
+
+							<div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+								<Input
+									label="Warmth Decay (days)"
+									type="number"
+									min={0}
+									value={settingsForm.warmth_decay_days}
+									onChange={(e) =>
+										setSettingsForm({
+											...settingsForm,
+											warmth_decay_days: Math.max(0, Number(e.target.value) || 0),
+										})
+									}
+									hint="Contacts without an interaction for this long drop a warmth level (0 to turn off)"
+								/>
+								<Input
+									label="Dormant After (days)"
+									type="number"
+									min={0}
+									value={settingsForm.dormant_after_days}
+									onChange={(e) =>
+										setSettingsForm({
+											...settingsForm,
+											dormant_after_days: Math.max(0, Number(e.target.value) || 0),
+										})
+									}
+									hint="Contacts without an interaction for this long become dormant (0 to turn off). Pinned contacts are skipped."
+								/>
+							</div>
+
 							<Button type="submit" isLoading={isSavingSettings}>
 								Save Settings
 							</Button>
@@ -229,6 +383,12 @@ export function SettingsPage() {
 				</CardContent>
 			</Card>
 
+			<AutoResponderCard />
+
+			<ContactScoringCard />
+
+			<LeadScoringCard />
+
 			{/* Change Password */}
 			<Card>
 				<CardHeader>
@@ -346,6 +506,791 @@ export function SettingsPage() {
 	);
 }
 
+/**
+ * Auto-responder settings: the acknowledgement email new inbound leads get,
+ * with per-project-type overrides and excluded sources.
+ */
+function AutoResponderCard() {
+	const [form, setForm] = useState<AutoResponder | null>(null);
+	const [excludedSources, setExcludedSources] = useState("");
+	const [templateFields, setTemplateFields] = useState<string[]>([]);
+	const [projectTypes, setProjectTypes] = useState<string[]>([]);
+	// Project type whose templates are being edited ("" for the defaults)
+	const [projectType, setProjectType] = useState("");
+	const [preview, setPreview] = useState<AutoResponsePreview | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState(false);
+	const [isSaving, setIsSaving] = useState(false);
+	const [isPreviewing, setIsPreviewing] = useState(false);
+
+	useEffect(() => {
+		const fetchAutoResponder = async () => {
+			try {
+				const data = await api.get<AutoResponderResponse>("/admin/settings/auto-responder");
+				setForm(data.autoResponder);
+				setExcludedSources(data.autoResponder.excludedSources.join(", "));
+				setTemplateFields(data.templateFields);
+				setProjectTypes(data.projectTypes);
+			} catch (err) {
+				setError(err instanceof ApiError ? err.message : "Failed to load auto-responder");
+			}
+		};
+
+		fetchAutoResponder();
+	}, []);
+
+	if (!form) {
+		return (
+			<Card>
+				<CardHeader>
+					<h2 className="font-semibold">Auto-responder</h2>
+				</CardHeader>
+				<CardContent>
+					<div className={error ? "text-red-400 text-sm" : "text-dark-400"}>
+						{error || "Loading auto-responder..."}
+					</div>
+				</CardContent>
+			</Card>
+		);
+	}
+
+	const overrides = projectType ? (form.projectTypeTemplates[projectType] ?? {}) : null;
+
+	const setTemplate = (part: keyof AutoResponderTemplate, value: string) => {
+		if (!projectType) {
+			setForm({ ...form, [part]: value });
+			return;
+		}
+		setForm({
+			...form,
+			projectTypeTemplates: {
+				...form.projectTypeTemplates,
+				[projectType]: { ...overrides, [part]: value },
+			},
+		});
+	};
+
+	const buildPayload = () => ({
+		...form,
+		replyTo: form.replyTo?.trim() || null,
+		excludedSources: excludedSources
+			.split(",")
+			.map((source) => source.trim())
+			.filter(Boolean),
+	});
+
+	const handleSave = async (e: FormEvent) => {
+		e.preventDefault();
+		setError(null);
+		setSuccess(false);
+		setIsSaving(true);
+
+		try {
+			const data = await api.patch<{ autoResponder: AutoResponder }>(
+				"/admin/settings/auto-responder",
+				buildPayload(),
+			);
+			setForm(data.autoResponder);
+			setExcludedSources(data.autoResponder.excludedSources.join(", "));
+			setSuccess(true);
+		} catch (err) {
+			setError(err instanceof ApiError ? err.message : "Failed to save auto-responder");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handlePreview = async () => {
+		setError(null);
+		setIsPreviewing(true);
+
+		try {
+			const data = await api.post<{ preview: AutoResponsePreview }>(
+				"/admin/settings/auto-responder/preview",
+				{ ...buildPayload(), projectType: projectType || null },
+			);
+			setPreview(data.preview);
+		} catch (err) {
+			setPreview(null);
+			setError(err instanceof ApiError ? err.message : "Failed to preview auto-response");
+		} finally {
+			setIsPreviewing(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<h2 className="font-semibold">Auto-responder</h2>
+				<p className="text-sm text-dark-400 mt-1">
+					Email new leads from the contact form as soon as they reach out. Sent emails are recorded
+					on the lead&apos;s activity timeline.
+				</p>
+			</CardHeader>
+			<CardContent>
+				<form onSubmit={handleSave} className="space-y-4">
+					{error && (
+						<div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+							{error}
+						</div>
+					)}
+					{success && (
+						<div className="p-3 bg-green-500/10 border border-green-500/30 rounded-lg text-green-400 text-sm">
+							Auto-responder saved successfully
+						</div>
+					)}
+
+					<Toggle
+						checked={form.enabled}
+						onChange={(enabled) => setForm({ ...form, enabled })}
+						label="Send auto-responses to new leads"
+					/>
+
+					<div className="grid gap-4 sm:grid-cols-2">
+						<Input
+							label="From"
+							value={form.from}
+							onChange={(e) => setForm({ ...form, from: e.target.value })}
+							placeholder="Octatech <hello@octatech.xyz>"
+							hint="Must use a domain verified in Resend"
+						/>
+						<Input
+							label="Reply-To"
+							type="email"
+							value={form.replyTo ?? ""}
+							onChange={(e) => setForm({ ...form, replyTo: e.target.value })}
+							placeholder="Same as From"
+						/>
+					</div>
+
+					<Select
+						label="Templates for"
+						value={projectType}
+						onChange={(e) => {
+							setProjectType(e.target.value);
+							setPreview(null);
+						}}
+						options={[
+							{ value: "", label: "All leads (default)" },
+							...projectTypes.map((type) => ({ value: type, label: type })),
+						]}
+					/>
+
+					<Input
+						label="Subject"
+						value={overrides ? (overrides.subject ?? "") : form.subject}
+						onChange={(e) => setTemplate("subject", e.target.value)}
+						placeholder={overrides ? form.subject : undefined}
+					/>
+					<Textarea
+						label="Body"
+						rows={10}
+						className="font-mono text-sm"
+						value={overrides ? (overrides.body ?? "") : form.body}
+						onChange={(e) => setTemplate("body", e.target.value)}
+						placeholder={overrides ? form.body : undefined}
+						hint={
+							overrides
+								? "Leave empty to use the default template for this project type"
+								: `Available fields: ${templateFields.map((field) => `{{${field}}}`).join(", ")}. {{calLink}} is your Cal.com booking link.`
+						}
+					/>
+
+					<Input
+						label="Excluded Sources"
+						value={excludedSources}
+						onChange={(e) => setExcludedSources(e.target.value)}
+						placeholder="API, Referral"
+						hint="Comma-separated lead sources that never get an auto-response"
+					/>
+
+					{preview && (
+						<div className="rounded-lg border border-dark-700 p-3 space-y-2 text-sm">
+							<p className="text-xs font-medium uppercase tracking-wide text-dark-500">
+								Preview with a sample lead
+							</p>
+							<p>
+								<span className="text-dark-500">Subject:</span> {preview.subject}
+							</p>
+							<pre className="whitespace-pre-wrap font-sans text-dark-300">{preview.text}</pre>
+						</div>
+					)}
+
+					<div className="flex gap-3">
+						<Button type="submit" isLoading={isSaving}>
+							Save Auto-responder
+						</Button>
+						<Button
+							type="button"
+							variant="secondary"
+							onClick={handlePreview}
+							isLoading={isPreviewing}
+						>
+							Preview
+						</Button>
+					</div>
+				</form>
+			</CardContent>
+		</Card>
+	);
+}
+
+const scoredInteractionTypes: { value: ContactInteractionType; label: string }[] = [
+	{ value: "linkedin_like", label: "LinkedIn Like" },
+	{ value: "linkedin_comment", label: "LinkedIn Comment" },
+	{ value: "linkedin_post_engagement", label: "Post Engagement" },
+	{ value: "linkedin_connection_sent", label: "Connection Sent" },
+	{ value: "linkedin_connection_accepted", label: "Connection Accepted" },
+	{ value: "linkedin_dm_sent", label: "DM Sent" },
+	{ value: "linkedin_dm_received", label: "DM Received" },
+	{ value: "email_sent", label: "Email Sent" },
+	{ value: "email_received", label: "Email Received" },
+	{ value: "call", label: "Call" },
+	{ value: "meeting", label: "Meeting" },
+	{ value: "note", label: "Note" },
+];
+
+function ContactScoringCard() {
+	const [form, setForm] = useState<ContactScoringSettings | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState(false);
+	const [isSaving, setIsSaving] = useState(false);
+
+	useEffect(() => {
+		const fetchContactScoring = async () => {
+			try {
+				const data = await api.get<{ contactScoring: ContactScoringSettings }>(
+					"/admin/settings/contact-scoring",
+				);
+				setForm(data.contactScoring);
+			} catch (err) {
+				setError(err instanceof ApiError ? err.message : "Failed to load contact scoring");
+			}
+		};
+
+		fetchContactScoring();
+	}, []);
+
+	if (!form) {
+		return (
+			<Card>
+				<CardHeader>
+					<h2 className="font-semibold">Contact Scoring</h2>
+				</CardHeader>
+				<CardContent>
+					<div className={error ? "text-red-400 text-sm" : "text-dark-400"}>
+						{error || "Loading contact scoring..."}
+					</div>
+				</CardContent>
+			</Card>
+		);
+	}
+
+	const toNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+	const handleSave = async (e: FormEvent) => {
+		e.preventDefault();
+		setError(null);
+		setSuccess(false);
+		setIsSaving(true);
+
+		try {
+			const data = await api.patch<{ contactScoring: ContactScoringSettings }>(
+				"/admin/settings/contact-scoring",
+				form,
+			);
+			setForm(data.contactScoring);
+			setSuccess(true);
+		} catch (err) {
+			setError(err instanceof ApiError ? err.message : "Failed to save contact scoring");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<h2 className="font-semibold">Contact Scoring</h2>
+				<p className="text-sm text-dark-400 mt-1">
+					Points each interaction is worth. A contact&apos;s score sets their warmth (which only
+					goes up as interactions are logged) and the tier suggested on their page.
+				</p>
+			</CardHeader>
+			<CardContent>
+				<form onSubmit={handleSave} className="space-y-4">
+					{error && (
+						<div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+							{error}
+						</div>
+					)}
+					{success && (
+						<div className="p-3 bg-green-500/10 border border-green-500/30 rounded-lg text-green-400 text-sm">
+							Contact scoring saved successfully
+						</div>
+					)}
+
+					<div className="grid gap-4 grid-cols-2 sm:grid-cols-4">
+						{scoredInteractionTypes.map((type) => (
+							<Input
+								key={type.value}
+								label={type.label}
+								type="number"
+								min={0}
+								step="0.5"
+								value={form.interactionWeights[type.value]}
+								onChange={(e) =>
+									setForm({
+										...form,
+										interactionWeights: {
+											...form.interactionWeights,
+											[type.value]: toNumber(e.target.value),
+										},
+									})
+								}
+							/>
+						))}
+					</div>
+
+					<div className="grid gap-4 sm:grid-cols-2">
+						<Input
+							label="Inbound Multiplier"
+							type="number"
+							min={1}
+							step="0.5"
+							value={form.inboundMultiplier}
+							onChange={(e) =>
+								setForm({ ...form, inboundMultiplier: Math.max(1, toNumber(e.target.value)) })
+							}
+							hint="Inbound interactions (they reached out) are worth this many times more"
+						/>
+						<Input
+							label="Half-life (days)"
+							type="number"
+							min={0}
+							value={form.halfLifeDays}
+							onChange={(e) =>
+								setForm({ ...form, halfLifeDays: Math.floor(toNumber(e.target.value)) })
+							}
+							hint="An interaction this old counts half as much (0 to never decay)"
+						/>
+						<Input
+							label="Company Hires Contractors"
+							type="number"
+							min={0}
+							value={form.companySignals.hiringContractors}
+							onChange={(e) =>
+								setForm({
+									...form,
+									companySignals: {
+										...form.companySignals,
+										hiringContractors: toNumber(e.target.value),
+									},
+								})
+							}
+						/>
+						<Input
+							label="Company Takes B2B Contracts"
+							type="number"
+							min={0}
+							value={form.companySignals.b2bContracts}
+							onChange={(e) =>
+								setForm({
+									...form,
+									companySignals: {
+										...form.companySignals,
+										b2bContracts: toNumber(e.target.value),
+									},
+								})
+							}
+						/>
+					</div>
+
+					<div className="grid gap-4 grid-cols-2 sm:grid-cols-4">
+						<Input
+							label="Warm at"
+							type="number"
+							min={0}
+							value={form.warmthThresholds.warm}
+							onChange={(e) =>
+								setForm({
+									...form,
+									warmthThresholds: { ...form.warmthThresholds, warm: toNumber(e.target.value) },
+								})
+							}
+						/>
+						<Input
+							label="Hot at"
+							type="number"
+							min={0}
+							value={form.warmthThresholds.hot}
+							onChange={(e) =>
+								setForm({
+									...form,
+									warmthThresholds: { ...form.warmthThresholds, hot: toNumber(e.target.value) },
+								})
+							}
+						/>
+						<Input
+							label="Tier B at"
+							type="number"
+							min={0}
+							value={form.tierThresholds.B}
+							onChange={(e) =>
+								setForm({
+									...form,
+									tierThresholds: { ...form.tierThresholds, B: toNumber(e.target.value) },
+								})
+							}
+						/>
+						<Input
+							label="Tier A at"
+							type="number"
+							min={0}
+							value={form.tierThresholds.A}
+							onChange={(e) =>
+								setForm({
+									...form,
+									tierThresholds: { ...form.tierThresholds, A: toNumber(e.target.value) },
+								})
+							}
+						/>
+					</div>
+
+					<Button type="submit" isLoading={isSaving}>
+						Save Contact Scoring
+					</Button>
+				</form>
+			</CardContent>
+		</Card>
+	);
+}
+
+// Sources being edited carry a local key so rows keep their state when one is removed
+interface DraftSourcePoints {
+	key: number;
+	source: string;
+	points: number;
+}
+
+function LeadScoringCard() {
+	const [form, setForm] = useState<LeadScoringSettings | null>(null);
+	const [sources, setSources] = useState<DraftSourcePoints[]>([]);
+	const [freeMailDomains, setFreeMailDomains] = useState("");
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState<string | null>(null);
+	const [isSaving, setIsSaving] = useState(false);
+	const nextSourceKey = useRef(0);
+
+	const load = useCallback((leadScoring: LeadScoringSettings) => {
+		setForm(leadScoring);
+		setSources(
+			Object.entries(leadScoring.sourcePoints).map(([source, points]) => ({
+				key: nextSourceKey.current++,
+				source,
+				points,
+			})),
+		);
+		setFreeMailDomains(leadScoring.freeMailDomains.join("\n"));
+	}, []);
+
+	useEffect(() => {
+		const fetchLeadScoring = async () => {
+			try {
+				const data = await api.get<{ leadScoring: LeadScoringSettings }>(
+					"/admin/settings/lead-scoring",
+				);
+				load(data.leadScoring);
+			} catch (err) {
+				setError(err instanceof ApiError ? err.message : "Failed to load lead scoring");
+			}
+		};
+
+		fetchLeadScoring();
+	}, [load]);
+
+	if (!form) {
+		return (
+			<Card>
+				<CardHeader>
+					<h2 className="font-semibold">Lead Scoring</h2>
+				</CardHeader>
+				<CardContent>
+					<div className={error ? "text-red-400 text-sm" : "text-dark-400"}>
+						{error || "Loading lead scoring..."}
+					</div>
+				</CardContent>
+			</Card>
+		);
+	}
+
+	const toPoints = (value: string) => Math.max(0, Math.floor(Number(value) || 0));
+
+	const updateSource = (key: number, changes: Partial<DraftSourcePoints>) => {
+		setSources((prev) =>
+			prev.map((entry) => (entry.key === key ? { ...entry, ...changes } : entry)),
+		);
+	};
+
+	const handleSave = async (e: FormEvent) => {
+		e.preventDefault();
+		setError(null);
+		setSuccess(null);
+		setIsSaving(true);
+
+		try {
+			const data = await api.patch<{ leadScoring: LeadScoringSettings; rescored: number }>(
+				"/admin/settings/lead-scoring",
+				{
+					...form,
+					sourcePoints: Object.fromEntries(
+						sources
+							.filter((entry) => entry.source.trim())
+							.map((entry) => [entry.source.trim(), entry.points]),
+					),
+					freeMailDomains: freeMailDomains.split(/[\s,]+/).filter(Boolean),
+				},
+			);
+			load(data.leadScoring);
+			setSuccess(
+				`Lead scoring saved. ${data.rescored} lead${data.rescored === 1 ? "" : "s"} rescored.`,
+			);
+		} catch (err) {
+			setError(err instanceof ApiError ? err.message : "Failed to save lead scoring");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<h2 className="font-semibold">Lead Scoring</h2>
+				<p className="text-sm text-dark-400 mt-1">
+					Points a new lead earns from what they told us. Leads are scored when created or edited,
+					and saving these rules rescores every lead.
+				</p>
+			</CardHeader>
+			<CardContent>
+				<form onSubmit={handleSave} className="space-y-6">
+					{error && (
+						<div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+							{error}
+						</div>
+					)}
+					{success && (
+						<div className="p-3 bg-green-500/10 border border-green-500/30 rounded-lg text-green-400 text-sm">
+							{success}
+						</div>
+					)}
+
+					<div>
+						<h3 className="text-sm font-medium text-dark-300 mb-2">Budget</h3>
+						<div className="grid gap-4 grid-cols-2 sm:grid-cols-3">
+							{Object.entries(form.budgetPoints).map(([budget, points]) => (
+								<Input
+									key={budget}
+									label={budget}
+									type="number"
+									min={0}
+									value={points}
+									onChange={(e) =>
+										setForm({
+											...form,
+											budgetPoints: { ...form.budgetPoints, [budget]: toPoints(e.target.value) },
+										})
+									}
+								/>
+							))}
+						</div>
+					</div>
+
+					<div>
+						<h3 className="text-sm font-medium text-dark-300 mb-2">Project Type</h3>
+						<div className="grid gap-4 grid-cols-2 sm:grid-cols-3">
+							{Object.entries(form.projectTypePoints).map(([projectType, points]) => (
+								<Input
+									key={projectType}
+									label={projectType}
+									type="number"
+									min={0}
+									value={points}
+									onChange={(e) =>
+										setForm({
+											...form,
+											projectTypePoints: {
+												...form.projectTypePoints,
+												[projectType]: toPoints(e.target.value),
+											},
+										})
+									}
+								/>
+							))}
+						</div>
+					</div>
+
+					<div>
+						<h3 className="text-sm font-medium text-dark-300 mb-2">Source</h3>
+						<p className="text-xs text-dark-500 mb-3">
+							Matched case-insensitively. Sources not listed score 0.
+						</p>
+						<div className="space-y-2">
+							{sources.map((entry) => (
+								<div key={entry.key} className="grid grid-cols-12 gap-2 items-center">
+									<div className="col-span-7">
+										<Input
+											value={entry.source}
+											onChange={(e) => updateSource(entry.key, { source: e.target.value })}
+											placeholder="e.g., Referral"
+										/>
+									</div>
+									<div className="col-span-4">
+										<Input
+											type="number"
+											min={0}
+											value={entry.points}
+											onChange={(e) =>
+												updateSource(entry.key, { points: toPoints(e.target.value) })
+											}
+										/>
+									</div>
+									<div className="col-span-1 flex justify-end">
+										<Button
+											type="button"
+											variant="ghost"
+											size="sm"
+											onClick={() =>
+												setSources((prev) => prev.filter((other) => other.key !== entry.key))
+											}
+											title="Remove source"
+										>
+											×
+										</Button>
+									</div>
+								</div>
+							))}
+						</div>
+						<Button
+							type="button"
+							variant="secondary"
+							size="sm"
+							className="mt-3"
+							onClick={() =>
+								setSources((prev) => [
+									...prev,
+									{ key: nextSourceKey.current++, source: "", points: 0 },
+								])
+							}
+						>
+							Add Source
+						</Button>
+					</div>
+
+					<div className="grid gap-4 sm:grid-cols-2">
+						<Input
+							label="Corporate Email Domain"
+							type="number"
+							min={0}
+							value={form.domainPoints.corporate}
+							onChange={(e) =>
+								setForm({
+									...form,
+									domainPoints: { ...form.domainPoints, corporate: toPoints(e.target.value) },
+								})
+							}
+						/>
+						<Input
+							label="Free-mail Email Domain"
+							type="number"
+							min={0}
+							value={form.domainPoints.freeMail}
+							onChange={(e) =>
+								setForm({
+									...form,
+									domainPoints: { ...form.domainPoints, freeMail: toPoints(e.target.value) },
+								})
+							}
+						/>
+					</div>
+
+					<Textarea
+						label="Free-mail Domains"
+						value={freeMailDomains}
+						onChange={(e) => setFreeMailDomains(e.target.value)}
+						rows={4}
+						hint="One per line. Any other domain counts as corporate."
+					/>
+
+					<div className="grid gap-4 grid-cols-2 sm:grid-cols-4">
+						<Input
+							label="Detailed Message (chars)"
+							type="number"
+							min={0}
+							value={form.detailedMessage.minLength}
+							onChange={(e) =>
+								setForm({
+									...form,
+									detailedMessage: {
+										...form.detailedMessage,
+										minLength: toPoints(e.target.value),
+									},
+								})
+							}
+						/>
+						<Input
+							label="Detailed Message"
+							type="number"
+							min={0}
+							value={form.detailedMessage.points}
+							onChange={(e) =>
+								setForm({
+									...form,
+									detailedMessage: { ...form.detailedMessage, points: toPoints(e.target.value) },
+								})
+							}
+						/>
+						<Input
+							label="Per Contact Interaction"
+							type="number"
+							min={0}
+							value={form.contactInteractions.pointsEach}
+							onChange={(e) =>
+								setForm({
+									...form,
+									contactInteractions: {
+										...form.contactInteractions,
+										pointsEach: toPoints(e.target.value),
+									},
+								})
+							}
+						/>
+						<Input
+							label="Contact Interactions Cap"
+							type="number"
+							min={0}
+							value={form.contactInteractions.maxPoints}
+							onChange={(e) =>
+								setForm({
+									...form,
+									contactInteractions: {
+										...form.contactInteractions,
+										maxPoints: toPoints(e.target.value),
+									},
+								})
+							}
+							hint="Prior interactions with the contact who has the lead's email"
+						/>
+					</div>
+
+					<Button type="submit" isLoading={isSaving}>
+						Save Lead Scoring
+					</Button>
+				</form>
+			</CardContent>
+		</Card>
+	);
+}
+
 // Icons
 function ShieldIcon({ className }: { className?: string }) {
 	return (
@@ -1,19 +1,79 @@
-import { useState } from "react";
+import { type FormEvent, useState } from "react";
 import { Link, useParams } from "react-router-dom";
 import { Badge } from "@/components/ui/Badge";
 import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
+import { Input } from "@/components/ui/Input";
 import { Modal } from "@/components/ui/Modal";
-import { useWebhook, useWebhookDeliveries } from "@/hooks/useWebhooks";
+import {
+	useRedeliverWebhookDelivery,
+	useReplayWebhookDeliveries,
+	useWebhook,
+	useWebhookDeliveries,
+} from "@/hooks/useWebhooks";
 import type { WebhookDelivery } from "@/lib/types";
 import { formatDateTime } from "@/lib/utils";
 
+function DeliveryStatusBadge({ delivery }: { delivery: WebhookDelivery }) {
+	if (delivery.skipped) {
+		return <Badge variant="default">Skipped</Badge>;
+	}
+	return (
+		<Badge variant={delivery.success ? "success" : "danger"}>
+			{delivery.success ? "Success" : "Failed"}
+		</Badge>
+	);
+}
+
 export function WebhookDeliveriesPage() {
 	const { id } = useParams<{ id: string }>();
 	const { data: webhook, isLoading: webhookLoading } = useWebhook(id);
 	const [page, setPage] = useState(1);
 	const { data, isLoading, error } = useWebhookDeliveries(id, page);
 	const [selectedDelivery, setSelectedDelivery] = useState<WebhookDelivery | null>(null);
+	const redeliverMutation = useRedeliverWebhookDelivery();
+	const replayMutation = useReplayWebhookDeliveries();
+	const [isReplayOpen, setIsReplayOpen] = useState(false);
+	const [replayRange, setReplayRange] = useState({ from: "", to: "" });
+	const [notice, setNotice] = useState<{ success: boolean; message: string } | null>(null);
+
+	const handleRedeliver = async (delivery: WebhookDelivery) => {
+		if (!id) return;
+		try {
+			const result = await redeliverMutation.mutateAsync({
+				webhookId: id,
+				deliveryId: delivery.id,
+			});
+			setNotice({
+				success: result.success,
+				message: result.success
+					? `Redelivered (${result.statusCode}) in ${result.responseTime}ms`
+					: `Redelivery failed: ${result.error ?? result.statusCode ?? "unknown error"}`,
+			});
+			setSelectedDelivery(null);
+		} catch (err) {
+			setNotice({ success: false, message: (err as Error).message });
+		}
+	};
+
+	const handleReplay = async (e: FormEvent) => {
+		e.preventDefault();
+		if (!id || !replayRange.from) return;
+		try {
+			const result = await replayMutation.mutateAsync({
+				webhookId: id,
+				from: new Date(replayRange.from).toISOString(),
+				to: replayRange.to ? new Date(replayRange.to).toISOString() : undefined,
+			});
+			setNotice({
+				success: true,
+				message: `Queued ${result.queued} failed ${result.queued === 1 ? "delivery" : "deliveries"} for replay${result.skipped > 0 ? ` (${result.skipped} already delivered or pending)` : ""}`,
+			});
+			setIsReplayOpen(false);
+		} catch (err) {
+			setNotice({ success: false, message: (err as Error).message });
+		}
+	};
 
 	if (webhookLoading || isLoading) {
 		return (
@@ -44,12 +104,58 @@ export function WebhookDeliveriesPage() {
 				>
 					<ArrowLeftIcon className="h-5 w-5" />
 				</Link>
-				<div>
+				<div className="flex-1">
 					<h1 className="text-2xl font-bold">Delivery History</h1>
 					<p className="text-dark-400 mt-1">{webhook.name}</p>
 				</div>
+				<Button
+					variant="secondary"
+					onClick={() => setIsReplayOpen(true)}
+					disabled={!webhook.enabled}
+					title={webhook.enabled ? undefined : "Enable the webhook to replay deliveries"}
+				>
+					Replay Failed
+				</Button>
 			</div>
 
+			{notice && (
+				<div
+					className={
+						notice.success
+							? "p-3 bg-green-500/10 border border-green-500/30 rounded-lg text-sm text-green-400"
+							: "p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400"
+					}
+				>
+					{notice.message}
+				</div>
+			)}
+
+			{/* Queued Retries */}
+			{data && data.queued.length > 0 && (
+				<Card>
+					<div className="px-4 py-3 border-b border-dark-800">
+						<h2 className="font-medium">Queued Retries</h2>
+						<p className="text-sm text-dark-400 mt-1">
+							Failed deliveries waiting for their next attempt
+						</p>
+					</div>
+					<ul className="divide-y divide-dark-800">
+						{data.queued.map((retry) => (
+							<li key={retry.id} className="flex items-center justify-between px-4 py-3">
+								<div className="flex items-center gap-3">
+									<Badge variant="warning">Attempt {retry.attemptNumber}</Badge>
+									<code className="text-sm text-primary-400">{retry.event}</code>
+									{retry.lastError && (
+										<span className="text-sm text-dark-500">{retry.lastError}</span>
+									)}
+								</div>
+								<span className="text-sm text-dark-400">{formatDateTime(retry.nextAttemptAt)}</span>
+							</li>
+						))}
+					</ul>
+				</Card>
+			)}
+
 			{/* Deliveries List */}
 			<Card>
 				{data?.deliveries.length === 0 ? (
@@ -70,6 +176,9 @@ export function WebhookDeliveriesPage() {
 											Status
 										</th>
 										<th className="text-left py-3 px-4 text-sm font-medium text-dark-400">Event</th>
+										<th className="text-left py-3 px-4 text-sm font-medium text-dark-400">
+											Attempt
+										</th>
 										<th className="text-left py-3 px-4 text-sm font-medium text-dark-400">
 											Response
 										</th>
@@ -88,13 +197,17 @@ export function WebhookDeliveriesPage() {
 									{data?.deliveries.map((delivery) => (
 										<tr key={delivery.id} className="hover:bg-dark-800/50">
 											<td className="py-3 px-4">
-												<Badge variant={delivery.success ? "success" : "danger"}>
-													{delivery.success ? "Success" : "Failed"}
-												</Badge>
+												<DeliveryStatusBadge delivery={delivery} />
 											</td>
 											<td className="py-3 px-4 text-sm">
 												<code className="text-primary-400">{delivery.event}</code>
+												{delivery.redeliveryOfId && (
+													<Badge variant="info" className="ml-2">
+														Redelivery
+													</Badge>
+												)}
 											</td>
+											<td className="py-3 px-4 text-sm text-dark-400">{delivery.attemptNumber}</td>
 											<td className="py-3 px-4 text-sm text-dark-400">
 												{delivery.statusCode || "-"}
 											</td>
@@ -102,9 +215,17 @@ export function WebhookDeliveriesPage() {
 												{delivery.durationMs ? `${delivery.durationMs}ms` : "-"}
 											</td>
 											<td className="py-3 px-4 text-sm text-dark-400">
-												{formatDateTime(delivery.createdAt)}
+												{formatDateTime(delivery.attemptedAt)}
 											</td>
 											<td className="py-3 px-4 text-right">
+												<Button
+													variant="ghost"
+													size="sm"
+													onClick={() => handleRedeliver(delivery)}
+													disabled={redeliverMutation.isPending}
+												>
+													Redeliver
+												</Button>
 												<Button
 													variant="ghost"
 													size="sm"
@@ -161,9 +282,7 @@ export function WebhookDeliveriesPage() {
 						<div className="grid grid-cols-2 gap-4">
 							<div>
 								<p className="text-sm text-dark-500">Status</p>
-								<Badge variant={selectedDelivery.success ? "success" : "danger"}>
-									{selectedDelivery.success ? "Success" : "Failed"}
-								</Badge>
+								<DeliveryStatusBadge delivery={selectedDelivery} />
 							</div>
 							<div>
 								<p className="text-sm text-dark-500">Event</p>
@@ -185,7 +304,7 @@ export function WebhookDeliveriesPage() {
 							</div>
 							<div>
 								<p className="text-sm text-dark-500">Timestamp</p>
-								<p className="font-medium">{formatDateTime(selectedDelivery.createdAt)}</p>
+								<p className="font-medium">{formatDateTime(selectedDelivery.attemptedAt)}</p>
 							</div>
 						</div>
 
@@ -205,6 +324,14 @@ export function WebhookDeliveriesPage() {
 							</div>
 						)}
 
+						{selectedDelivery.skipReason && (
+							<div className="p-3 bg-dark-800 border border-dark-700 rounded-lg">
+								<p className="text-sm text-dark-300">
+									Not delivered: {selectedDelivery.skipReason}
+								</p>
+							</div>
+						)}
+
 						{selectedDelivery.nextRetryAt && (
 							<div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
 								<p className="text-sm text-yellow-400">
@@ -213,12 +340,55 @@ export function WebhookDeliveriesPage() {
 							</div>
 						)}
 
-						<div className="flex justify-end pt-4">
+						<div className="flex justify-end gap-3 pt-4">
+							<Button
+								variant="secondary"
+								onClick={() => handleRedeliver(selectedDelivery)}
+								isLoading={redeliverMutation.isPending}
+							>
+								Redeliver
+							</Button>
 							<Button onClick={() => setSelectedDelivery(null)}>Close</Button>
 						</div>
 					</div>
 				)}
 			</Modal>
+
+			{/* Replay Modal */}
+			<Modal
+				isOpen={isReplayOpen}
+				onClose={() => setIsReplayOpen(false)}
+				title="Replay Failed Deliveries"
+			>
+				<form onSubmit={handleReplay} className="space-y-4">
+					<p className="text-sm text-dark-400">
+						Every event that failed in this window and was never delivered will be resent with the
+						current secret. Replays follow the normal retry schedule.
+					</p>
+					<Input
+						label="From"
+						type="datetime-local"
+						value={replayRange.from}
+						onChange={(e) => setReplayRange({ ...replayRange, from: e.target.value })}
+						required
+					/>
+					<Input
+						label="To"
+						type="datetime-local"
+						value={replayRange.to}
+						onChange={(e) => setReplayRange({ ...replayRange, to: e.target.value })}
+						hint="Leave empty to replay up to now"
+					/>
+					<div className="flex justify-end gap-3 pt-4">
+						<Button type="button" variant="secondary" onClick={() => setIsReplayOpen(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" isLoading={replayMutation.isPending}>
+							Replay
+						</Button>
+					</div>
+				</form>
+			</Modal>
 		</div>
 	);
 }
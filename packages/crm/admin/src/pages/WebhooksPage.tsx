@@ -1,19 +1,28 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import { Badge } from "@/components/ui/Badge";
 import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { Input } from "@/components/ui/Input";
 import { Modal } from "@/components/ui/Modal";
+import { Textarea } from "@/components/ui/Textarea";
 import { Toggle } from "@/components/ui/Toggle";
 import {
 	useCreateWebhook,
 	useDeleteWebhook,
+	useRevokePreviousWebhookSecret,
+	useRotateWebhookSecret,
 	useTestWebhook,
 	useUpdateWebhook,
+	useUpdateWebhookRetention,
+	useWebhookPreview,
+	useWebhookRetention,
+	useWebhookStats,
 	useWebhooks,
 } from "@/hooks/useWebhooks";
-import { formatRelativeTime, truncate } from "@/lib/utils";
+import { ApiError } from "@/lib/api";
+import type { WebhookDeliveryStats } from "@/lib/types";
+import { formatDateTime, formatRelativeTime, truncate } from "@/lib/utils";
 
 const WEBHOOK_EVENTS = [
 	{ value: "lead.created", label: "Lead Created" },
@@ -21,14 +30,56 @@ const WEBHOOK_EVENTS = [
 	{ value: "lead.status_changed", label: "Lead Status Changed" },
 	{ value: "lead.deleted", label: "Lead Deleted" },
 	{ value: "lead.activity_added", label: "Lead Activity Added" },
+	{ value: "contact.created", label: "Contact Created" },
+	{ value: "contact.updated", label: "Contact Updated" },
+	{ value: "contact.status_changed", label: "Contact Status Changed" },
+	{ value: "contact.interaction_added", label: "Contact Interaction Added" },
+	{ value: "company.created", label: "Company Created" },
+	{ value: "company.updated", label: "Company Updated" },
+	{ value: "company.deleted", label: "Company Deleted" },
 ];
 
+const LEAD_FIELDS = [
+	{ value: "name", label: "Name" },
+	{ value: "email", label: "Email" },
+	{ value: "company", label: "Company" },
+	{ value: "phone", label: "Phone" },
+	{ value: "budget", label: "Budget" },
+	{ value: "projectType", label: "Project Type" },
+	{ value: "message", label: "Message" },
+	{ value: "source", label: "Source" },
+	{ value: "status", label: "Status" },
+	{ value: "createdAt", label: "Created At" },
+];
+
+const SAMPLE_TEMPLATE = `{
+  "text": "New lead: {{data.lead.name}} ({{data.lead.email}})"
+}`;
+
+/**
+ * A custom header row in the form. Stored values are masked by the API, so
+ * existing headers keep their value unless a new one is typed.
+ */
+interface HeaderRow {
+	name: string;
+	value: string;
+	/** Masked stored value for existing headers */
+	masked: string | null;
+}
+
 export function WebhooksPage() {
 	const { data: webhooks, isLoading, error } = useWebhooks();
 	const createMutation = useCreateWebhook();
 	const updateMutation = useUpdateWebhook();
 	const deleteMutation = useDeleteWebhook();
 	const testMutation = useTestWebhook();
+	const rotateMutation = useRotateWebhookSecret();
+	const revokeMutation = useRevokePreviousWebhookSecret();
+	const previewMutation = useWebhookPreview();
+	const { data: statsData } = useWebhookStats();
+	const { data: retention } = useWebhookRetention();
+	const retentionMutation = useUpdateWebhookRetention();
+	const { mutate: previewTemplate } = previewMutation;
 
 	const [isModalOpen, setIsModalOpen] = useState(false);
 	const [editingId, setEditingId] = useState<string | null>(null);
@@ -40,16 +91,53 @@ export function WebhooksPage() {
 		responseTime: number;
 	} | null>(null);
 
+	const [rotateId, setRotateId] = useState<string | null>(null);
+	const [rotateForm, setRotateForm] = useState({ secret: "", gracePeriodHours: "24" });
+	const [rotatedSecret, setRotatedSecret] = useState<{
+		secret: string;
+		previousSecretExpiresAt: string | null;
+	} | null>(null);
+
+	const [isRetentionOpen, setIsRetentionOpen] = useState(false);
+	const [retentionForm, setRetentionForm] = useState({ successDays: "", failureDays: "" });
+
 	const [form, setForm] = useState({
 		name: "",
 		url: "",
 		events: [] as string[],
 		secret: "",
+		filter: "",
+		fieldAllowlist: [] as string[],
+		headers: [] as HeaderRow[],
+		bodyTemplate: "",
 	});
+	const [originalHeaderNames, setOriginalHeaderNames] = useState<string[]>([]);
+
+	// Live preview of the body template against a sample lead (debounced)
+	useEffect(() => {
+		if (!isModalOpen) return;
+		const timeout = setTimeout(() => {
+			previewTemplate({
+				bodyTemplate: form.bodyTemplate || null,
+				fieldAllowlist: form.fieldAllowlist.length > 0 ? form.fieldAllowlist : null,
+			});
+		}, 400);
+		return () => clearTimeout(timeout);
+	}, [isModalOpen, form.bodyTemplate, form.fieldAllowlist, previewTemplate]);
 
 	const openCreateModal = () => {
 		setEditingId(null);
-		setForm({ name: "", url: "", events: [], secret: "" });
+		setForm({
+			name: "",
+			url: "",
+			events: [],
+			secret: "",
+			filter: "",
+			fieldAllowlist: [],
+			headers: [],
+			bodyTemplate: "",
+		});
+		setOriginalHeaderNames([]);
 		setIsModalOpen(true);
 	};
 
@@ -61,10 +149,34 @@ export function WebhooksPage() {
 			url: webhook.url,
 			events: webhook.events,
 			secret: "",
+			filter: webhook.filter ?? "",
+			fieldAllowlist: webhook.fieldAllowlist ?? [],
+			headers: Object.entries(webhook.customHeaders ?? {}).map(([name, masked]) => ({
+				name,
+				value: "",
+				masked,
+			})),
+			bodyTemplate: webhook.bodyTemplate ?? "",
 		});
+		setOriginalHeaderNames(Object.keys(webhook.customHeaders ?? {}));
 		setIsModalOpen(true);
 	};
 
+	const buildHeaderChanges = () => {
+		const changes: Record<string, string | null> = {};
+		for (const name of originalHeaderNames) {
+			if (!form.headers.some((row) => row.masked !== null && row.name === name)) {
+				changes[name] = null;
+			}
+		}
+		for (const row of form.headers) {
+			if (row.name.trim() && row.value) {
+				changes[row.name.trim()] = row.value;
+			}
+		}
+		return changes;
+	};
+
 	const handleSubmit = async () => {
 		if (!form.name || !form.url || form.events.length === 0) return;
 
@@ -77,6 +189,10 @@ export function WebhooksPage() {
 						url: form.url,
 						events: form.events,
 						...(form.secret && { secret: form.secret }),
+						filter: form.filter || null,
+						fieldAllowlist: form.fieldAllowlist.length > 0 ? form.fieldAllowlist : null,
+						customHeaders: buildHeaderChanges(),
+						bodyTemplate: form.bodyTemplate || null,
 					},
 				});
 			} else {
@@ -85,6 +201,14 @@ export function WebhooksPage() {
 					url: form.url,
 					events: form.events,
 					secret: form.secret || undefined,
+					filter: form.filter || null,
+					fieldAllowlist: form.fieldAllowlist.length > 0 ? form.fieldAllowlist : null,
+					customHeaders: Object.fromEntries(
+						form.headers
+							.filter((row) => row.name.trim() && row.value)
+							.map((row) => [row.name.trim(), row.value]),
+					),
+					bodyTemplate: form.bodyTemplate || null,
 				});
 			}
 			setIsModalOpen(false);
@@ -122,6 +246,93 @@ export function WebhooksPage() {
 		}
 	};
 
+	const openRotateModal = (id: string) => {
+		setRotateId(id);
+		setRotateForm({ secret: "", gracePeriodHours: "24" });
+		setRotatedSecret(null);
+	};
+
+	const closeRotateModal = () => {
+		setRotateId(null);
+		setRotatedSecret(null);
+	};
+
+	const handleRotate = async () => {
+		if (!rotateId) return;
+		try {
+			const result = await rotateMutation.mutateAsync({
+				id: rotateId,
+				secret: rotateForm.secret || undefined,
+				gracePeriodHours: Number(rotateForm.gracePeriodHours) || undefined,
+			});
+			setRotatedSecret(result);
+		} catch {
+			// Error handled by mutation
+		}
+	};
+
+	const handleRevokePrevious = async (id: string) => {
+		try {
+			await revokeMutation.mutateAsync(id);
+		} catch {
+			// Error handled by mutation
+		}
+	};
+
+	const openRetentionModal = () => {
+		setRetentionForm({
+			successDays: String(retention?.successDays ?? 7),
+			failureDays: String(retention?.failureDays ?? 90),
+		});
+		setIsRetentionOpen(true);
+	};
+
+	const handleSaveRetention = async () => {
+		try {
+			await retentionMutation.mutateAsync({
+				successDays: Number(retentionForm.successDays),
+				failureDays: Number(retentionForm.failureDays),
+			});
+			setIsRetentionOpen(false);
+		} catch {
+			// Error handled by mutation
+		}
+	};
+
+	const statsByWebhook = new Map(statsData?.stats.map((stats) => [stats.webhookId, stats]));
+
+	const toggleField = (field: string) => {
+		setForm((prev) => ({
+			...prev,
+			fieldAllowlist: prev.fieldAllowlist.includes(field)
+				? prev.fieldAllowlist.filter((f) => f !== field)
+				: [...prev.fieldAllowlist, field],
+		}));
+	};
+
+	const updateHeader = (index: number, changes: Partial<HeaderRow>) => {
+		setForm((prev) => ({
+			...prev,
+			headers: prev.headers.map((row, i) => (i === index ? { ...row, ...changes } : row)),
+		}));
+	};
+
+	const removeHeader = (index: number) => {
+		setForm((prev) => ({ ...prev, headers: prev.headers.filter((_, i) => i !== index) }));
+	};
+
+	const addHeader = () => {
+		setForm((prev) => ({
+			...prev,
+			headers: [...prev.headers, { name: "", value: "", masked: null }],
+		}));
+	};
+
+	const previewError =
+		previewMutation.error instanceof ApiError
+			? (previewMutation.error.details?.bodyTemplate ?? previewMutation.error.message)
+			: previewMutation.error?.message;
+
 	const toggleEvent = (event: string) => {
 		setForm((prev) => ({
 			...prev,
@@ -141,10 +352,15 @@ export function WebhooksPage() {
 						Configure webhooks to receive real-time notifications
 					</p>
 				</div>
-				<Button onClick={openCreateModal}>
-					<PlusIcon className="h-4 w-4" />
-					Create Webhook
-				</Button>
+				<div className="flex items-center gap-2">
+					<Button variant="secondary" onClick={openRetentionModal}>
+						Retention
+					</Button>
+					<Button onClick={openCreateModal}>
+						<PlusIcon className="h-4 w-4" />
+						Create Webhook
+					</Button>
+				</div>
 			</div>
 
 			{/* Webhooks List */}
@@ -180,6 +396,11 @@ export function WebhooksPage() {
 											{webhook.failureCount > 0 && (
 												<Badge variant="danger">{webhook.failureCount} failures</Badge>
 											)}
+											{webhook.previousSecretExpiresAt && (
+												<Badge variant="warning">
+													Rotating until {formatDateTime(webhook.previousSecretExpiresAt)}
+												</Badge>
+											)}
 											{testResult?.id === webhook.id && (
 												<Badge variant={testResult.success ? "success" : "danger"}>
 													{testResult.success
@@ -196,6 +417,33 @@ export function WebhooksPage() {
 												<Badge key={event}>{event}</Badge>
 											))}
 										</div>
+										{webhook.filter && (
+											<p className="text-xs text-dark-500 mt-2 font-mono">
+												Filter: {truncate(webhook.filter, 80)}
+											</p>
+										)}
+										{webhook.fieldAllowlist && (
+											<p className="text-xs text-dark-500 mt-1">
+												Lead fields: {webhook.fieldAllowlist.join(", ")}
+											</p>
+										)}
+										{(webhook.customHeaders || webhook.bodyTemplate) && (
+											<p className="text-xs text-dark-500 mt-1">
+												{[
+													webhook.customHeaders &&
+														`Headers: ${Object.keys(webhook.customHeaders).join(", ")}`,
+													webhook.bodyTemplate && "Custom body template",
+												]
+													.filter(Boolean)
+													.join(" · ")}
+											</p>
+										)}
+										{statsData && (
+											<DeliveryStatsLine
+												stats={statsByWebhook.get(webhook.id)}
+												windowDays={statsData.windowDays}
+											/>
+										)}
 										{webhook.lastDeliveryAt && (
 											<p className="text-xs text-dark-500 mt-2">
 												Last delivery: {formatRelativeTime(webhook.lastDeliveryAt)}
@@ -219,6 +467,21 @@ export function WebhooksPage() {
 										<Button variant="ghost" size="sm" onClick={() => openEditModal(webhook)}>
 											Edit
 										</Button>
+										<Button variant="ghost" size="sm" onClick={() => openRotateModal(webhook.id)}>
+											Rotate Secret
+										</Button>
+										{webhook.previousSecretExpiresAt && (
+											<Button
+												variant="ghost"
+												size="sm"
+												onClick={() => handleRevokePrevious(webhook.id)}
+												isLoading={
+													revokeMutation.isPending && revokeMutation.variables === webhook.id
+												}
+											>
+												End Rotation
+											</Button>
+										)}
 										<Button
 											variant="ghost"
 											size="sm"
@@ -263,7 +526,7 @@ export function WebhooksPage() {
 						value={form.secret}
 						onChange={(e) => setForm({ ...form, secret: e.target.value })}
 						placeholder="Your webhook secret"
-						hint="Used to sign webhook payloads with HMAC-SHA256"
+						hint="Used to sign the delivery ID, timestamp and payload with HMAC-SHA256"
 					/>
 
 					<div>
@@ -286,6 +549,106 @@ export function WebhooksPage() {
 						</div>
 					</div>
 
+					<Textarea
+						label="Lead Filter (optional)"
+						value={form.filter}
+						onChange={(e) => setForm({ ...form, filter: e.target.value })}
+						placeholder={'budget >= 15000 and source == "Contact Form"'}
+						hint="Lead events that don't match are skipped. Supports ==, !=, >, >=, <, <=, in [...], contains, and, or, not"
+						className="font-mono text-sm min-h-[60px]"
+					/>
+
+					<div>
+						<label className="block text-sm font-medium text-dark-300 mb-2">Lead Fields</label>
+						<p className="text-xs text-dark-500 mb-2">
+							Only checked fields are sent with lead events. Leave all unchecked to send every
+							field.
+						</p>
+						<div className="grid grid-cols-2 gap-2">
+							{LEAD_FIELDS.map(({ value, label }) => (
+								<label
+									key={value}
+									className="flex items-center gap-3 p-2 rounded-lg border border-dark-700 hover:border-dark-600 cursor-pointer"
+								>
+									<input
+										type="checkbox"
+										checked={form.fieldAllowlist.includes(value)}
+										onChange={() => toggleField(value)}
+										className="h-4 w-4 rounded border-dark-700 bg-dark-800 text-primary-500 focus:ring-primary-500 focus:ring-offset-dark-950"
+									/>
+									<span className="text-sm">{label}</span>
+								</label>
+							))}
+						</div>
+					</div>
+
+					<div>
+						<label className="block text-sm font-medium text-dark-300 mb-2">Custom Headers</label>
+						<p className="text-xs text-dark-500 mb-2">
+							Sent with every delivery, e.g. Authorization. Values are stored as secrets; leave a
+							saved value empty to keep it.
+						</p>
+						<div className="space-y-2">
+							{form.headers.map((row, index) => (
+								<div key={`${index}-${row.masked ?? "new"}`} className="flex items-center gap-2">
+									<div className="flex-1">
+										<Input
+											value={row.name}
+											onChange={(e) => updateHeader(index, { name: e.target.value })}
+											placeholder="Authorization"
+											disabled={row.masked !== null}
+											className="font-mono text-sm"
+										/>
+									</div>
+									<div className="flex-1">
+										<Input
+											type="password"
+											value={row.value}
+											onChange={(e) => updateHeader(index, { value: e.target.value })}
+											placeholder={row.masked ?? "Bearer ..."}
+											className="font-mono text-sm"
+										/>
+									</div>
+									<Button
+										variant="ghost"
+										size="sm"
+										className="text-red-400 hover:text-red-300"
+										onClick={() => removeHeader(index)}
+									>
+										Remove
+									</Button>
+								</div>
+							))}
+						</div>
+						<Button variant="ghost" size="sm" className="mt-2" onClick={addHeader}>
+							<PlusIcon className="h-4 w-4" />
+							Add Header
+						</Button>
+					</div>
+
+					<div>
+						<Textarea
+							label="Body Template (optional)"
+							value={form.bodyTemplate}
+							onChange={(e) => setForm({ ...form, bodyTemplate: e.target.value })}
+							placeholder={SAMPLE_TEMPLATE}
+							hint="JSON sent instead of the standard payload. {{data.lead.name}} inserts a value; a string that is only a placeholder keeps the value's type"
+							className="font-mono text-sm min-h-[120px]"
+						/>
+						<label className="block text-sm font-medium text-dark-300 mt-3 mb-2">
+							Preview (sample lead)
+						</label>
+						{previewError ? (
+							<p className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm font-mono break-all">
+								{previewError}
+							</p>
+						) : (
+							<pre className="p-3 rounded-lg bg-dark-800 text-xs font-mono overflow-x-auto max-h-64">
+								{previewMutation.data ? JSON.stringify(previewMutation.data.body, null, 2) : "..."}
+							</pre>
+						)}
+					</div>
+
 					<div className="flex justify-end gap-3 pt-4">
 						<Button variant="secondary" onClick={() => setIsModalOpen(false)}>
 							Cancel
@@ -301,6 +664,103 @@ export function WebhooksPage() {
 				</div>
 			</Modal>
 
+			{/* Rotate Secret Modal */}
+			<Modal isOpen={!!rotateId} onClose={closeRotateModal} title="Rotate Secret">
+				{rotatedSecret ? (
+					<div className="space-y-4">
+						<p className="text-sm text-dark-400">
+							Copy the new secret now. It will not be shown again.
+						</p>
+						<pre className="p-3 rounded-lg bg-dark-800 text-sm font-mono break-all whitespace-pre-wrap">
+							{rotatedSecret.secret}
+						</pre>
+						{rotatedSecret.previousSecretExpiresAt && (
+							<p className="text-sm text-dark-400">
+								Deliveries are signed with both secrets until{" "}
+								{formatDateTime(rotatedSecret.previousSecretExpiresAt)}.
+							</p>
+						)}
+						<div className="flex justify-end pt-4">
+							<Button onClick={closeRotateModal}>Done</Button>
+						</div>
+					</div>
+				) : (
+					<div className="space-y-4">
+						<Input
+							label="New Secret (optional)"
+							type="password"
+							value={rotateForm.secret}
+							onChange={(e) => setRotateForm({ ...rotateForm, secret: e.target.value })}
+							placeholder="Leave empty to generate one"
+						/>
+						<Input
+							label="Grace Period (hours)"
+							type="number"
+							min={1}
+							max={168}
+							value={rotateForm.gracePeriodHours}
+							onChange={(e) => setRotateForm({ ...rotateForm, gracePeriodHours: e.target.value })}
+							hint="The current secret keeps signing deliveries until the grace period ends"
+						/>
+						<div className="flex justify-end gap-3 pt-4">
+							<Button variant="secondary" onClick={closeRotateModal}>
+								Cancel
+							</Button>
+							<Button onClick={handleRotate} isLoading={rotateMutation.isPending}>
+								Rotate
+							</Button>
+						</div>
+					</div>
+				)}
+			</Modal>
+
+			{/* Retention Modal */}
+			<Modal
+				isOpen={isRetentionOpen}
+				onClose={() => setIsRetentionOpen(false)}
+				title="Delivery History Retention"
+				size="sm"
+			>
+				<div className="space-y-4">
+					<p className="text-sm text-dark-400">
+						Delivery history older than this is removed by a scheduled cleanup. Statistics cover the
+						shorter of the two periods.
+					</p>
+					<Input
+						label="Keep successful deliveries (days)"
+						type="number"
+						min={1}
+						max={365}
+						value={retentionForm.successDays}
+						onChange={(e) => setRetentionForm({ ...retentionForm, successDays: e.target.value })}
+						hint="Also applies to deliveries skipped by a filter"
+					/>
+					<Input
+						label="Keep failed deliveries (days)"
+						type="number"
+						min={1}
+						max={365}
+						value={retentionForm.failureDays}
+						onChange={(e) => setRetentionForm({ ...retentionForm, failureDays: e.target.value })}
+					/>
+					{retentionMutation.error && (
+						<p className="text-sm text-red-400">
+							{retentionMutation.error instanceof ApiError && retentionMutation.error.details
+								? Object.values(retentionMutation.error.details).join(". ")
+								: retentionMutation.error.message}
+						</p>
+					)}
+					<div className="flex justify-end gap-3 pt-4">
+						<Button variant="secondary" onClick={() => setIsRetentionOpen(false)}>
+							Cancel
+						</Button>
+						<Button onClick={handleSaveRetention} isLoading={retentionMutation.isPending}>
+							Save
+						</Button>
+					</div>
+				</div>
+			</Modal>
+
 			{/* Delete Confirmation Modal */}
 			<Modal isOpen={!!deleteId} onClose={() => setDeleteId(null)} title="Delete Webhook" size="sm">
 				<p className="text-dark-400 mb-6">
@@ -319,6 +779,32 @@ export function WebhooksPage() {
 	);
 }
 
+function DeliveryStatsLine({
+	stats,
+	windowDays,
+}: {
+	stats: WebhookDeliveryStats | undefined;
+	windowDays: number;
+}) {
+	const period = windowDays === 1 ? "last day" : `last ${windowDays} days`;
+
+	if (!stats || stats.successRate === null) {
+		return <p className="text-xs text-dark-500 mt-2">No deliveries in the {period}</p>;
+	}
+
+	const percent = stats.successRate * 100;
+	const rateColor =
+		percent >= 99 ? "text-green-400" : percent >= 90 ? "text-yellow-400" : "text-red-400";
+
+	return (
+		<p className="text-xs text-dark-500 mt-2">
+			<span className={rateColor}>{percent.toFixed(1)}% success</span> ({stats.succeeded}/
+			{stats.total}) · p50 {stats.p50DurationMs ?? "-"}ms · p95 {stats.p95DurationMs ?? "-"}ms ·{" "}
+			{period}
+		</p>
+	);
+}
+
 // Icons
 function PlusIcon({ className }: { className?: string }) {
 	return (
@@ -10,7 +10,9 @@ export { LeadDetailPage } from "./LeadDetailPage";
 export { LeadNewPage } from "./LeadNewPage";
 export { LeadsPage } from "./LeadsPage";
 export { LoginPage } from "./LoginPage";
+export { NotificationDeliveriesPage } from "./NotificationDeliveriesPage";
 export { NotificationsPage } from "./NotificationsPage";
+export { SequencesPage } from "./SequencesPage";
 export { SettingsPage } from "./SettingsPage";
 export { WebhookDeliveriesPage } from "./WebhookDeliveriesPage";
 export { WebhooksPage } from "./WebhooksPage";
@@ -72,6 +72,7 @@ vi.mock("./db", () => ({
 		"lead.activity_added",
 	],
 	notificationChannelTypeEnum: ["email", "discord", "telegram", "slack"],
+	notificationDeliveryModeEnum: ["realtime", "daily", "weekly"],
 }));
 
 vi.mock("./db/connection", () => ({
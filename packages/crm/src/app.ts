@@ -14,11 +14,14 @@ import { secureHeaders } from "hono/secure-headers";
 import { errorHandler, notFoundHandler, rateLimiter } from "./middleware/index.js";
 import {
 	adminApiKeysRoutes,
+	adminBookingsRoutes,
 	adminCompaniesRoutes,
 	adminContactsRoutes,
 	adminDashboardRoutes,
+	adminEmailSnippetsRoutes,
 	adminLeadsRoutes,
 	adminNotificationsRoutes,
+	adminSequencesRoutes,
 	adminSettingsRoutes,
 	adminWebhooksRoutes,
 } from "./routes/admin/index.js";
@@ -26,9 +29,11 @@ import {
 	calWebhookRoutes,
 	companiesApiRoutes,
 	contactsApiRoutes,
+	emailWebhookRoutes,
 	leadsRoutes,
 	meRoutes,
 	publicLeadsRoutes,
+	telegramWebhookRoutes,
 } from "./routes/api/index.js";
 import { authRoutes } from "./routes/auth.js";
 
@@ -92,6 +97,15 @@ app.route("/api/admin/companies", adminCompaniesRoutes);
 // Admin contacts management routes (session auth)
 app.route("/api/admin/contacts", adminContactsRoutes);
 
+// Admin email composer snippets routes (session auth)
+app.route("/api/admin/email-snippets", adminEmailSnippetsRoutes);
+
+// Admin Cal.com bookings routes (session auth)
+app.route("/api/admin/bookings", adminBookingsRoutes);
+
+// Admin contact outreach sequences routes (session auth)
+app.route("/api/admin/sequences", adminSequencesRoutes);
+
 // Public leads endpoint (contact form) - no auth required
 // Rate limiting is applied via the /api/* pattern
 app.use("/api/leads", rateLimiter);
@@ -102,6 +116,14 @@ app.route("/api/leads", publicLeadsRoutes);
 app.use("/api/webhooks/cal", rateLimiter);
 app.route("/api/webhooks/cal", calWebhookRoutes);
 
+// Inbound email webhook endpoint - authenticated by the inbound_email_secret setting
+app.use("/api/webhooks/email", rateLimiter);
+app.route("/api/webhooks/email", emailWebhookRoutes);
+
+// Telegram bot webhook endpoint - authenticated by the channel's secret token
+// Not rate limited: Telegram redelivers throttled updates, repeating bot actions
+app.route("/api/webhooks/telegram", telegramWebhookRoutes);
+
 // API v1 routes (require API key authentication)
 app.route("/api/v1/leads", leadsRoutes);
 app.route("/api/v1/companies", companiesApiRoutes);
@@ -28,6 +28,8 @@ export type {
 	AdminUser,
 	ApiKey,
 	ApiKeyScope,
+	Booking,
+	BookingStatus,
 	Company,
 	CompanyContractType,
 	CompanySize,
@@ -44,33 +46,48 @@ export type {
 	ContentPost,
 	DiscordConfig,
 	EmailConfig,
+	EmailSnippet,
 	InteractionDirection,
 	Lead,
 	LeadActivity,
 	LeadStatus,
 	NewAdminUser,
 	NewApiKey,
+	NewBooking,
 	NewCompany,
 	NewContact,
 	NewContactInteraction,
 	NewContentEngagement,
 	NewContentPost,
+	NewEmailSnippet,
 	NewLead,
 	NewLeadActivity,
 	NewNotificationChannel,
+	NewNotificationDelivery,
+	NewSequence,
+	NewSequenceEnrollment,
 	NewSession,
 	NewSetting,
 	NewWebhook,
 	NewWebhookDelivery,
+	NewWebhookOutboxEntry,
 	NotificationChannel,
 	NotificationChannelType,
 	NotificationConfig,
+	NotificationDelivery,
+	NotificationDeliveryMode,
+	NotificationDeliveryStatus,
+	Sequence,
+	SequenceEnrollment,
+	SequenceEnrollmentStatus,
+	SequenceStep,
 	Session,
 	Setting,
 	TelegramConfig,
 	Webhook,
 	WebhookDelivery,
 	WebhookEvent,
+	WebhookOutboxEntry,
 } from "./schema.js";
 // Schema tables
 // Relations
@@ -81,6 +98,9 @@ export {
 	adminUserRelations,
 	apiKeyScopeEnum,
 	apiKeys,
+	bookingStatusEnum,
+	bookings,
+	bookingsRelations,
 	companies,
 	companiesRelations,
 	companyContractTypeEnum,
@@ -100,6 +120,7 @@ export {
 	contentPlatformEnum,
 	contentPosts,
 	contentPostsRelations,
+	emailSnippets,
 	interactionDirectionEnum,
 	leadActivities,
 	leadActivitiesRelations,
@@ -107,13 +128,25 @@ export {
 	leads,
 	leadsRelations,
 	notificationChannels,
+	notificationChannelsRelations,
 	notificationChannelTypeEnum,
+	notificationDeliveries,
+	notificationDeliveriesRelations,
+	notificationDeliveryModeEnum,
+	notificationDeliveryStatusEnum,
+	sequenceEnrollmentStatusEnum,
+	sequenceEnrollments,
+	sequenceEnrollmentsRelations,
+	sequences,
+	sequencesRelations,
 	sessions,
 	sessionsRelations,
 	settings,
 	webhookDeliveries,
 	webhookDeliveriesRelations,
 	webhookEventEnum,
+	webhookOutbox,
+	webhookOutboxRelations,
 	webhooks,
 	webhooksRelations,
 } from "./schema.js";
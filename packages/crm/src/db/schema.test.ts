@@ -754,7 +754,14 @@ describe("Schema Types", () => {
 	});
 
 	it("should export activity type enum values", () => {
-		expect(schema.activityTypeEnum).toEqual(["note", "email", "call", "meeting", "status_change"]);
+		expect(schema.activityTypeEnum).toEqual([
+			"note",
+			"email",
+			"email_received",
+			"call",
+			"meeting",
+			"status_change",
+		]);
 	});
 
 	it("should export API key scope enum values", () => {
@@ -781,10 +788,23 @@ describe("Schema Types", () => {
 			"lead.status_changed",
 			"lead.deleted",
 			"lead.activity_added",
+			"contact.created",
+			"contact.updated",
+			"contact.status_changed",
+			"contact.interaction_added",
+			"company.created",
+			"company.updated",
+			"company.deleted",
 		]);
 	});
 
 	it("should export notification channel type enum values", () => {
-		expect(schema.notificationChannelTypeEnum).toEqual(["discord", "telegram", "email"]);
+		expect(schema.notificationChannelTypeEnum).toEqual([
+			"discord",
+			"telegram",
+			"email",
+			"slack",
+			"push",
+		]);
 	});
 });
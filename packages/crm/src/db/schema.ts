@@ -1,5 +1,6 @@
 import { relations, sql } from "drizzle-orm";
 import {
+	type AnyPgColumn,
 	boolean,
 	check,
 	index,
@@ -8,6 +9,7 @@ import {
 	pgTable,
 	text,
 	timestamp,
+	uniqueIndex,
 	uuid,
 	varchar,
 } from "drizzle-orm/pg-core";
@@ -125,6 +127,9 @@ export const leads = pgTable(
 		// Lifecycle
 		status: varchar("status", { length: 50 }).notNull().default("new"),
 
+		// Priority from the lead scoring rules (lib/lead-score.ts)
+		score: integer("score").notNull().default(0),
+
 		// Metadata
 		notes: text("notes"),
 		tags: text("tags").array(),
@@ -146,6 +151,7 @@ export const leads = pgTable(
 		index("idx_leads_email").on(table.email),
 		index("idx_leads_created_at").on(table.createdAt.desc()),
 		index("idx_leads_contact_id").on(table.contactId),
+		index("idx_leads_score").on(table.score.desc()),
 		check(
 			"valid_status",
 			sql`${table.status} IN ('new', 'contacted', 'qualified', 'proposal', 'won', 'lost')`,
@@ -156,7 +162,14 @@ export const leads = pgTable(
 /**
  * Activity types for lead interactions.
  */
-export const activityTypeEnum = ["note", "email", "call", "meeting", "status_change"] as const;
+export const activityTypeEnum = [
+	"note",
+	"email",
+	"email_received",
+	"call",
+	"meeting",
+	"status_change",
+] as const;
 export type ActivityType = (typeof activityTypeEnum)[number];
 
 /**
@@ -178,6 +191,9 @@ export const leadActivities = pgTable(
 		oldStatus: varchar("old_status", { length: 50 }),
 		newStatus: varchar("new_status", { length: 50 }),
 
+		// Full message for emails sent from or received by the CRM
+		body: text("body"),
+
 		createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 	},
 	(table) => [index("idx_lead_activities_lead_id").on(table.leadId)],
@@ -245,6 +261,13 @@ export const webhookEventEnum = [
 	"lead.status_changed",
 	"lead.deleted",
 	"lead.activity_added",
+	"contact.created",
+	"contact.updated",
+	"contact.status_changed",
+	"contact.interaction_added",
+	"company.created",
+	"company.updated",
+	"company.deleted",
 ] as const;
 export type WebhookEvent = (typeof webhookEventEnum)[number];
 
@@ -264,6 +287,20 @@ export const webhooks = pgTable("webhooks", {
 	// Security - HMAC secret for signature verification
 	secret: varchar("secret", { length: 255 }),
 
+	// Secret rotation - the replaced secret keeps signing until it expires
+	previousSecret: varchar("previous_secret", { length: 255 }),
+	previousSecretExpiresAt: timestamp("previous_secret_expires_at", { withTimezone: true }),
+
+	// Delivery filtering - lead events that don't match the filter expression are
+	// skipped, and only allow-listed lead fields are sent (all fields when null)
+	filter: text("filter"),
+	fieldAllowlist: text("field_allowlist").array(),
+
+	// Request customization - extra headers (treated as secrets, masked in the API)
+	// and an optional JSON body template rendered from the event payload
+	customHeaders: jsonb("custom_headers").$type<Record<string, string>>(),
+	bodyTemplate: text("body_template"),
+
 	// Status
 	enabled: boolean("enabled").notNull().default(true),
 
@@ -298,8 +335,63 @@ export const webhookDeliveries = pgTable(
 		// Timing
 		attemptedAt: timestamp("attempted_at", { withTimezone: true }).notNull().defaultNow(),
 		durationMs: integer("duration_ms"),
+
+		// Retry tracking (1 = initial delivery, set when a follow-up attempt was queued)
+		attemptNumber: integer("attempt_number").notNull().default(1),
+		nextRetryAt: timestamp("next_retry_at", { withTimezone: true }),
+
+		// Set when the delivery was not attempted (e.g. the webhook filter did not match)
+		skipReason: text("skip_reason"),
+
+		// Set when this row is a manual redelivery or replay of an earlier delivery
+		redeliveryOfId: uuid("redelivery_of_id").references((): AnyPgColumn => webhookDeliveries.id, {
+			onDelete: "set null",
+		}),
+	},
+	(table) => [
+		index("idx_webhook_deliveries_webhook_id").on(table.webhookId),
+		index("idx_webhook_deliveries_attempted_at").on(table.attemptedAt),
+		// Attempts of the same event, for replay and retention
+		index("idx_webhook_deliveries_payload_id").on(table.webhookId, sql`(${table.payload}->>'id')`),
+	],
+);
+
+/**
+ * Durable outbox of pending webhook retries.
+ * A worker loop claims due rows, attempts delivery, and either reschedules
+ * or removes them, so queued retries survive process restarts.
+ */
+export const webhookOutbox = pgTable(
+	"webhook_outbox",
+	{
+		id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+		webhookId: uuid("webhook_id")
+			.notNull()
+			.references(() => webhooks.id, { onDelete: "cascade" }),
+
+		event: varchar("event", { length: 100 }).notNull(),
+		payload: jsonb("payload").notNull(),
+
+		// Attempt to perform next (1-indexed, matches RETRY_DELAYS_MS)
+		attemptNumber: integer("attempt_number").notNull(),
+		nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull(),
+
+		// Original delivery when the entry was queued by a bulk replay
+		redeliveryOfId: uuid("redelivery_of_id").references(() => webhookDeliveries.id, {
+			onDelete: "set null",
+		}),
+
+		// Lease held by the worker that claimed the row
+		lockedUntil: timestamp("locked_until", { withTimezone: true }),
+		lastError: text("last_error"),
+
+		createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 	},
-	(table) => [index("idx_webhook_deliveries_webhook_id").on(table.webhookId)],
+	(table) => [
+		index("idx_webhook_outbox_next_attempt_at").on(table.nextAttemptAt),
+		index("idx_webhook_outbox_webhook_id").on(table.webhookId),
+	],
 );
 
 // ============================================================================
@@ -309,7 +401,13 @@ export const webhookDeliveries = pgTable(
 /**
  * Supported notification channel types.
  */
-export const notificationChannelTypeEnum = ["discord", "telegram", "email"] as const;
+export const notificationChannelTypeEnum = [
+	"discord",
+	"telegram",
+	"email",
+	"slack",
+	"push",
+] as const;
 export type NotificationChannelType = (typeof notificationChannelTypeEnum)[number];
 
 /**
@@ -317,15 +415,38 @@ export type NotificationChannelType = (typeof notificationChannelTypeEnum)[numbe
  * Discord: { webhook_url: string }
  * Telegram: { bot_token: string, chat_id: string }
  * Email: { to: string, from: string }
+ * Slack: { webhook_url: string }
+ * Push: { url: string, format?: "text" | "json", title?: string, priority?: string, tags?: string }
  */
 export type DiscordConfig = { webhook_url: string };
 export type TelegramConfig = { bot_token: string; chat_id: string };
 export type EmailConfig = { to: string; from: string };
-export type NotificationConfig = DiscordConfig | TelegramConfig | EmailConfig;
+export type SlackConfig = { webhook_url: string };
+export type PushConfig = {
+	url: string;
+	format?: "text" | "json";
+	title?: string;
+	priority?: string;
+	tags?: string;
+};
+export type NotificationConfig =
+	| DiscordConfig
+	| TelegramConfig
+	| EmailConfig
+	| SlackConfig
+	| PushConfig;
+
+/**
+ * How a channel receives notifications: as they happen, or bundled into a
+ * daily or weekly digest.
+ */
+export const notificationDeliveryModeEnum = ["realtime", "daily", "weekly"] as const;
+export type NotificationDeliveryMode = (typeof notificationDeliveryModeEnum)[number];
 
 /**
  * Configurable notification channels for real-time alerts.
- * Supports Discord webhooks, Telegram bots, and email via Resend.
+ * Supports Discord webhooks, Telegram bots, email via Resend, Slack webhooks,
+ * and generic HTTP push endpoints (ntfy, Gotify, Matrix hookshot).
  */
 export const notificationChannels = pgTable("notification_channels", {
 	id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -341,10 +462,75 @@ export const notificationChannels = pgTable("notification_channels", {
 
 	enabled: boolean("enabled").notNull().default(true),
 
+	// Routing rules - lead events that don't match the filter expression are not
+	// sent to this channel (same syntax as webhook filters)
+	filter: text("filter"),
+
+	// Message template overrides by event and message part; null uses the
+	// provider's default messages
+	templates: jsonb("templates").$type<Record<string, Record<string, string>>>(),
+
+	// Delivery schedule (hours and days are in the channel's timezone)
+	deliveryMode: varchar("delivery_mode", { length: 20 })
+		.notNull()
+		.default("realtime")
+		.$type<NotificationDeliveryMode>(),
+	digestHour: integer("digest_hour").notNull().default(9),
+	digestDay: integer("digest_day").notNull().default(1), // 0 = Sunday, weekly digests only
+	timezone: varchar("timezone", { length: 64 }).notNull().default("UTC"),
+	quietHoursStart: integer("quiet_hours_start"),
+	quietHoursEnd: integer("quiet_hours_end"),
+	lastDigestAt: timestamp("last_digest_at", { withTimezone: true }),
+
 	createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 	updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
+/**
+ * Notification delivery outcomes.
+ * "held" rows are real-time messages queued until a channel's quiet hours end.
+ */
+export const notificationDeliveryStatusEnum = ["success", "failed", "held"] as const;
+export type NotificationDeliveryStatus = (typeof notificationDeliveryStatusEnum)[number];
+
+/**
+ * Log of notification delivery attempts (one row per attempt).
+ * Rows with next_retry_at set double as the retry queue: the retry worker
+ * claims due rows and logs the follow-up attempt as a new row.
+ */
+export const notificationDeliveries = pgTable(
+	"notification_deliveries",
+	{
+		id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+		channelId: uuid("channel_id")
+			.notNull()
+			.references(() => notificationChannels.id, { onDelete: "cascade" }),
+
+		event: varchar("event", { length: 100 }).notNull(),
+		payload: jsonb("payload").notNull(),
+
+		// Outcome
+		status: varchar("status", { length: 20 }).notNull().$type<NotificationDeliveryStatus>(),
+		statusCode: integer("status_code"),
+		error: text("error"),
+
+		// Timing
+		attemptedAt: timestamp("attempted_at", { withTimezone: true }).notNull().defaultNow(),
+		durationMs: integer("duration_ms"),
+
+		// Retry tracking (1 = initial delivery; next_retry_at is cleared once the retry is handled)
+		attemptNumber: integer("attempt_number").notNull().default(1),
+		nextRetryAt: timestamp("next_retry_at", { withTimezone: true }),
+		// Lease held by the worker that claimed the retry
+		lockedUntil: timestamp("locked_until", { withTimezone: true }),
+	},
+	(table) => [
+		index("idx_notification_deliveries_channel_id").on(table.channelId),
+		index("idx_notification_deliveries_attempted_at").on(table.attemptedAt),
+		index("idx_notification_deliveries_next_retry_at").on(table.nextRetryAt),
+	],
+);
+
 // ============================================================================
 // SYSTEM SETTINGS
 // ============================================================================
@@ -456,9 +642,15 @@ export const contacts = pgTable(
 		tier: varchar("tier", { length: 5 }).default("C"),
 		nextAction: text("next_action"),
 		nextActionDue: timestamp("next_action_due", { withTimezone: true }),
+		// When the follow-up reminder last fired; it fires again once next_action_due moves past it
+		nextActionNotifiedAt: timestamp("next_action_notified_at", { withTimezone: true }),
 		notes: text("notes"),
 		tags: text("tags").array(),
 		lastInteractionAt: timestamp("last_interaction_at", { withTimezone: true }),
+		// Pinned contacts keep their warmth and status when they go quiet (lib/contact-decay.ts)
+		decayPinned: boolean("decay_pinned").notNull().default(false),
+		// When the inactivity job last cooled the contact down a warmth level
+		warmthDecayedAt: timestamp("warmth_decayed_at", { withTimezone: true }),
 		leadId: uuid("lead_id").references(() => leads.id, { onDelete: "set null" }),
 		createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 		updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
@@ -489,6 +681,8 @@ export const contactInteractions = pgTable(
 		direction: varchar("direction", { length: 20 }).notNull().default("outbound"),
 		description: text("description").notNull(),
 		url: varchar("url", { length: 1000 }),
+		// Full message for emails sent from or received by the CRM
+		body: text("body"),
 		createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 	},
 	(table) => [
@@ -553,6 +747,144 @@ export const contentEngagements = pgTable(
 	],
 );
 
+// ============================================================================
+// EMAIL SNIPPETS
+// ============================================================================
+
+/**
+ * Reusable subject/body snippets for the lead and contact email composer.
+ * Snippets may use {{name}}, {{firstName}}, {{email}} and {{company}}.
+ */
+export const emailSnippets = pgTable("email_snippets", {
+	id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+	name: varchar("name", { length: 255 }).notNull(),
+	subject: varchar("subject", { length: 500 }),
+	body: text("body").notNull(),
+
+	createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+	updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// ============================================================================
+// BOOKINGS
+// ============================================================================
+
+/**
+ * Lifecycle of a Cal.com booking.
+ */
+export const bookingStatusEnum = ["scheduled", "cancelled", "completed"] as const;
+export type BookingStatus = (typeof bookingStatusEnum)[number];
+
+/**
+ * Cal.com bookings received through the booking webhook, kept in step with
+ * reschedules, cancellations and finished meetings.
+ */
+export const bookings = pgTable(
+	"bookings",
+	{
+		id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+		// Cal.com's booking uid; a reschedule gets a new uid
+		calUid: varchar("cal_uid", { length: 255 }).notNull().unique(),
+		leadId: uuid("lead_id").references(() => leads.id, { onDelete: "set null" }),
+		contactId: uuid("contact_id").references(() => contacts.id, { onDelete: "set null" }),
+
+		title: varchar("title", { length: 500 }).notNull(),
+		startTime: timestamp("start_time", { withTimezone: true }),
+		endTime: timestamp("end_time", { withTimezone: true }),
+		attendeeName: varchar("attendee_name", { length: 255 }).notNull(),
+		attendeeEmail: varchar("attendee_email", { length: 255 }).notNull(),
+		// IANA time zone the attendee booked in, e.g. "Europe/Berlin"
+		attendeeTimeZone: varchar("attendee_time_zone", { length: 100 }),
+
+		status: varchar("status", { length: 50 }).notNull().default("scheduled"),
+		rescheduleCount: integer("reschedule_count").notNull().default(0),
+		cancellationReason: text("cancellation_reason"),
+
+		createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+	},
+	(table) => [
+		index("idx_bookings_lead_id").on(table.leadId),
+		index("idx_bookings_contact_id").on(table.contactId),
+		index("idx_bookings_start_time").on(table.startTime),
+		check("valid_status", sql`${table.status} IN ('scheduled', 'cancelled', 'completed')`),
+	],
+);
+
+// ============================================================================
+// OUTREACH SEQUENCES
+// ============================================================================
+
+/**
+ * State of a contact's enrollment in a sequence.
+ * An inbound reply pauses it; logging the last step completes it.
+ */
+export const sequenceEnrollmentStatusEnum = ["active", "paused", "completed"] as const;
+export type SequenceEnrollmentStatus = (typeof sequenceEnrollmentStatusEnum)[number];
+
+/**
+ * One step of an outreach sequence: what to do, the interaction type that
+ * counts as doing it, and how many days after the previous step it is due.
+ */
+export type SequenceStep = {
+	action: string;
+	type: ContactInteractionType;
+	delayDays: number;
+};
+
+/**
+ * Outreach sequences (cadences), e.g. connect, comment, DM after 3 days,
+ * follow up after a week. Steps are kept in order.
+ */
+export const sequences = pgTable("sequences", {
+	id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+	name: varchar("name", { length: 255 }).notNull(),
+	description: text("description"),
+	steps: jsonb("steps").notNull().$type<SequenceStep[]>(),
+
+	createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+	updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Contacts enrolled in a sequence. The current step drives the contact's
+ * next_action / next_action_due.
+ */
+export const sequenceEnrollments = pgTable(
+	"sequence_enrollments",
+	{
+		id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+		sequenceId: uuid("sequence_id")
+			.notNull()
+			.references(() => sequences.id, { onDelete: "cascade" }),
+		contactId: uuid("contact_id")
+			.notNull()
+			.references(() => contacts.id, { onDelete: "cascade" }),
+
+		// Index into the sequence's steps
+		currentStep: integer("current_step").notNull().default(0),
+		status: varchar("status", { length: 20 }).notNull().default("active"),
+		stepDueAt: timestamp("step_due_at", { withTimezone: true }),
+		// Next action this enrollment set on the contact; the sequence owns the
+		// contact's next action while they still match
+		nextAction: text("next_action"),
+		pausedAt: timestamp("paused_at", { withTimezone: true }),
+		completedAt: timestamp("completed_at", { withTimezone: true }),
+
+		createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+	},
+	(table) => [
+		index("idx_sequence_enrollments_sequence_id").on(table.sequenceId),
+		index("idx_sequence_enrollments_contact_id").on(table.contactId),
+		// A contact is in at most one sequence at a time
+		uniqueIndex("idx_sequence_enrollments_open_contact")
+			.on(table.contactId)
+			.where(sql`${table.status} IN ('active', 'paused')`),
+		check("valid_status", sql`${table.status} IN ('active', 'paused', 'completed')`),
+	],
+);
+
 // ============================================================================
 // RELATIONS
 // ============================================================================
@@ -562,6 +894,7 @@ export const contentEngagements = pgTable(
  */
 export const leadsRelations = relations(leads, ({ many, one }) => ({
 	activities: many(leadActivities),
+	bookings: many(bookings),
 	contact: one(contacts, {
 		fields: [leads.contactId],
 		references: [contacts.id],
@@ -575,8 +908,20 @@ export const leadActivitiesRelations = relations(leadActivities, ({ one }) => ({
 	}),
 }));
 
+export const bookingsRelations = relations(bookings, ({ one }) => ({
+	lead: one(leads, {
+		fields: [bookings.leadId],
+		references: [leads.id],
+	}),
+	contact: one(contacts, {
+		fields: [bookings.contactId],
+		references: [contacts.id],
+	}),
+}));
+
 export const webhooksRelations = relations(webhooks, ({ many }) => ({
 	deliveries: many(webhookDeliveries),
+	outbox: many(webhookOutbox),
 }));
 
 export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
@@ -586,6 +931,24 @@ export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one })
 	}),
 }));
 
+export const webhookOutboxRelations = relations(webhookOutbox, ({ one }) => ({
+	webhook: one(webhooks, {
+		fields: [webhookOutbox.webhookId],
+		references: [webhooks.id],
+	}),
+}));
+
+export const notificationChannelsRelations = relations(notificationChannels, ({ many }) => ({
+	deliveries: many(notificationDeliveries),
+}));
+
+export const notificationDeliveriesRelations = relations(notificationDeliveries, ({ one }) => ({
+	channel: one(notificationChannels, {
+		fields: [notificationDeliveries.channelId],
+		references: [notificationChannels.id],
+	}),
+}));
+
 export const adminUserRelations = relations(adminUser, ({ many }) => ({
 	sessions: many(sessions),
 }));
@@ -602,6 +965,8 @@ export const companiesRelations = relations(companies, ({ many }) => ({
 }));
 
 export const contactsRelations = relations(contacts, ({ one, many }) => ({
+	bookings: many(bookings),
+	sequenceEnrollments: many(sequenceEnrollments),
 	company: one(companies, {
 		fields: [contacts.companyId],
 		references: [companies.id],
@@ -620,6 +985,21 @@ export const contactInteractionsRelations = relations(contactInteractions, ({ on
 	}),
 }));
 
+export const sequencesRelations = relations(sequences, ({ many }) => ({
+	enrollments: many(sequenceEnrollments),
+}));
+
+export const sequenceEnrollmentsRelations = relations(sequenceEnrollments, ({ one }) => ({
+	sequence: one(sequences, {
+		fields: [sequenceEnrollments.sequenceId],
+		references: [sequences.id],
+	}),
+	contact: one(contacts, {
+		fields: [sequenceEnrollments.contactId],
+		references: [contacts.id],
+	}),
+}));
+
 export const contentPostsRelations = relations(contentPosts, ({ many }) => ({
 	engagements: many(contentEngagements),
 }));
@@ -654,9 +1034,15 @@ export type NewWebhook = typeof webhooks.$inferInsert;
 export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
 export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
 
+export type WebhookOutboxEntry = typeof webhookOutbox.$inferSelect;
+export type NewWebhookOutboxEntry = typeof webhookOutbox.$inferInsert;
+
 export type NotificationChannel = typeof notificationChannels.$inferSelect;
 export type NewNotificationChannel = typeof notificationChannels.$inferInsert;
 
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type NewNotificationDelivery = typeof notificationDeliveries.$inferInsert;
+
 export type Setting = typeof settings.$inferSelect;
 export type NewSetting = typeof settings.$inferInsert;
 
@@ -680,3 +1066,15 @@ export type NewContentPost = typeof contentPosts.$inferInsert;
 
 export type ContentEngagement = typeof contentEngagements.$inferSelect;
 export type NewContentEngagement = typeof contentEngagements.$inferInsert;
+
+export type EmailSnippet = typeof emailSnippets.$inferSelect;
+export type NewEmailSnippet = typeof emailSnippets.$inferInsert;
+
+export type Booking = typeof bookings.$inferSelect;
+export type NewBooking = typeof bookings.$inferInsert;
+
+export type Sequence = typeof sequences.$inferSelect;
+export type NewSequence = typeof sequences.$inferInsert;
+
+export type SequenceEnrollment = typeof sequenceEnrollments.$inferSelect;
+export type NewSequenceEnrollment = typeof sequenceEnrollments.$inferInsert;
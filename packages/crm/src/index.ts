@@ -1,5 +1,12 @@
 import { serve } from "@hono/node-server";
 import { app } from "./app.js";
+import { startContactDecayJob } from "./lib/contact-decay.js";
+import {
+	startFollowUpReminderJob,
+	startNotificationDigestJob,
+	startNotificationRetryWorker,
+} from "./lib/notifications/index.js";
+import { startWebhookDeliveryPurgeJob, startWebhookRetryWorker } from "./lib/webhooks.js";
 
 const port = parseInt(process.env.PORT || "3000", 10);
 
@@ -10,4 +17,22 @@ serve({
 	port,
 });
 
+// Deliver webhook retries persisted in the outbox (including ones queued before a restart)
+startWebhookRetryWorker();
+
+// Remove delivery log rows past the configured retention
+startWebhookDeliveryPurgeJob();
+
+// Retry notifications that failed with a transient error (and release ones held for quiet hours)
+startNotificationRetryWorker();
+
+// Send daily and weekly digests to digest-mode channels
+startNotificationDigestJob();
+
+// Announce contact follow-ups as they come due
+startFollowUpReminderJob();
+
+// Cool down contacts that have gone quiet and mark long-silent ones dormant
+startContactDecayJob();
+
 console.log(`✅ CRM server running at http://localhost:${port}`);
@@ -0,0 +1,271 @@
+/**
+ * Tests for the lead auto-responder.
+ *
+ * Verifies settings fallbacks, template rendering per projectType, the
+ * per-source opt-out and recording sent emails as lead activities.
+ */
+
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("../db", () => ({
+	db: {
+		select: vi.fn(),
+	},
+	settings: { key: "key" },
+}));
+
+vi.mock("./leads", () => ({
+	addLeadActivity: vi.fn(() => Promise.resolve({ id: "activity-1" })),
+}));
+
+vi.mock("./notifications", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./notifications")>()),
+	sendEmail: vi.fn(() => Promise.resolve({ success: true, statusCode: 200, durationMs: 1 })),
+}));
+
+import { db } from "../db";
+import {
+	type AutoResponderSettings,
+	DEFAULT_AUTO_RESPONDER,
+	getAutoResponderSettings,
+	isSourceExcluded,
+	renderAutoResponse,
+	sendLeadAutoResponse,
+	validateAutoResponderTemplates,
+} from "./auto-responder";
+import { addLeadActivity } from "./leads";
+import { leadToNotificationData, sendEmail } from "./notifications";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const LEAD_ID = "550e8400-e29b-41d4-a716-446655440000";
+const CAL_LINK = "https://cal.com/octatech/discovery";
+
+/**
+ * Create a mock lead row.
+ */
+function createMockLead(overrides: Record<string, unknown> = {}) {
+	return {
+		id: LEAD_ID,
+		name: "Jane Doe",
+		email: "jane@acme.com",
+		company: "Acme Inc",
+		phone: null,
+		budget: null,
+		projectType: "Cloud Migration",
+		message: "We need to move to AWS",
+		source: "Contact Form",
+		status: "new",
+		notes: null,
+		tags: [],
+		rawInput: null,
+		aiParsed: false,
+		createdAt: new Date("2025-01-15T10:00:00Z"),
+		updatedAt: new Date("2025-01-15T10:00:00Z"),
+		contactedAt: null,
+		...overrides,
+	};
+}
+
+/**
+ * Create an enabled auto-responder configuration.
+ */
+function createSettings(overrides: Partial<AutoResponderSettings> = {}): AutoResponderSettings {
+	return {
+		...DEFAULT_AUTO_RESPONDER,
+		enabled: true,
+		from: "Octatech <hello@octatech.xyz>",
+		...overrides,
+	};
+}
+
+/**
+ * Mock settings reads: the auto-responder configuration, then cal_link.
+ */
+function mockSettings(autoResponder: unknown, calLink: string | null = "octatech/discovery") {
+	const rows = [
+		autoResponder === undefined ? [] : [{ key: "lead_auto_responder", value: autoResponder }],
+		calLink === null ? [] : [{ key: "cal_link", value: calLink }],
+	];
+	let call = 0;
+	(db.select as Mock).mockImplementation(() => ({
+		from: () => ({ where: () => ({ limit: () => Promise.resolve(rows[call++] ?? []) }) }),
+	}));
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+// ============================================================================
+// SETTINGS TESTS
+// ============================================================================
+
+describe("getAutoResponderSettings", () => {
+	it("should return the defaults when nothing is stored", async () => {
+		mockSettings(undefined);
+
+		expect(await getAutoResponderSettings()).toEqual(DEFAULT_AUTO_RESPONDER);
+	});
+
+	it("should fall back to the defaults for invalid stored values", async () => {
+		mockSettings({ enabled: "yes", subject: "", body: 42, excludedSources: ["API", 1] });
+
+		const autoResponder = await getAutoResponderSettings();
+
+		expect(autoResponder.enabled).toBe(false);
+		expect(autoResponder.subject).toBe(DEFAULT_AUTO_RESPONDER.subject);
+		expect(autoResponder.body).toBe(DEFAULT_AUTO_RESPONDER.body);
+		expect(autoResponder.excludedSources).toEqual(["API"]);
+	});
+});
+
+// ============================================================================
+// RENDERING TESTS
+// ============================================================================
+
+describe("renderAutoResponse", () => {
+	const lead = leadToNotificationData(createMockLead() as never);
+
+	it("should render the default templates with the booking link", () => {
+		const email = renderAutoResponse(createSettings(), lead, CAL_LINK);
+
+		expect(email.subject).toBe("Thanks for reaching out, Jane Doe");
+		expect(email.text).toContain("Thanks for getting in touch about Acme Inc.");
+		expect(email.text).toContain(CAL_LINK);
+		expect(email.html).toContain(`<a href="${CAL_LINK}"`);
+	});
+
+	it("should leave out the booking section without a cal_link", () => {
+		const email = renderAutoResponse(createSettings(), lead, null);
+
+		expect(email.text).not.toContain("pick a time");
+		expect(email.text).toContain("— The Octatech team");
+	});
+
+	it("should use the lead's projectType templates, falling back per part", () => {
+		const autoResponder = createSettings({
+			projectTypeTemplates: {
+				"Cloud Migration": { body: "Hi {{lead.name}}, our cloud team will be in touch." },
+			},
+		});
+
+		const email = renderAutoResponse(autoResponder, lead, CAL_LINK);
+
+		expect(email.subject).toBe("Thanks for reaching out, Jane Doe");
+		expect(email.text).toBe("Hi Jane Doe, our cloud team will be in touch.");
+	});
+
+	it("should collapse whitespace in the subject", () => {
+		const email = renderAutoResponse(
+			createSettings({ subject: "Hi {{lead.name}}\n{{lead.company}}  " }),
+			lead,
+			null,
+		);
+
+		expect(email.subject).toBe("Hi Jane Doe Acme Inc");
+	});
+});
+
+describe("validateAutoResponderTemplates", () => {
+	it("should accept the defaults", () => {
+		expect(validateAutoResponderTemplates(DEFAULT_AUTO_RESPONDER)).toBeNull();
+	});
+
+	it("should reject fields outside the auto-responder's", () => {
+		const error = validateAutoResponderTemplates(
+			createSettings({ projectTypeTemplates: { Other: { body: "{{lead.url}}" } } }),
+		);
+
+		expect(error).toMatch(/^Other body: /);
+	});
+});
+
+describe("isSourceExcluded", () => {
+	it("should match sources case-insensitively", () => {
+		const autoResponder = createSettings({ excludedSources: ["API", " Cal.com "] });
+
+		expect(isSourceExcluded(autoResponder, "api")).toBe(true);
+		expect(isSourceExcluded(autoResponder, "cal.com")).toBe(true);
+		expect(isSourceExcluded(autoResponder, "Contact Form")).toBe(false);
+		expect(isSourceExcluded(autoResponder, null)).toBe(false);
+	});
+});
+
+// ============================================================================
+// SENDING TESTS
+// ============================================================================
+
+describe("sendLeadAutoResponse", () => {
+	it("should email the lead and record the activity", async () => {
+		mockSettings(createSettings({ replyTo: "sales@octatech.xyz" }));
+		const lead = createMockLead();
+
+		const sent = await sendLeadAutoResponse(lead as never);
+
+		expect(sent).toBe(true);
+		expect(sendEmail).toHaveBeenCalledWith(
+			expect.objectContaining({
+				from: "Octatech <hello@octatech.xyz>",
+				to: ["jane@acme.com"],
+				subject: "Thanks for reaching out, Jane Doe",
+				replyTo: "sales@octatech.xyz",
+				text: expect.stringContaining(CAL_LINK),
+			}),
+		);
+		expect(addLeadActivity).toHaveBeenCalledWith(lead, {
+			type: "email",
+			description: 'Auto-response sent: "Thanks for reaching out, Jane Doe"',
+			body: expect.stringContaining("Hi Jane Doe,"),
+		});
+	});
+
+	it("should do nothing when disabled or without a sender", async () => {
+		mockSettings(createSettings({ enabled: false }));
+		expect(await sendLeadAutoResponse(createMockLead() as never)).toBe(false);
+
+		mockSettings(createSettings({ from: "" }));
+		expect(await sendLeadAutoResponse(createMockLead() as never)).toBe(false);
+
+		expect(sendEmail).not.toHaveBeenCalled();
+	});
+
+	it("should skip leads from excluded sources", async () => {
+		mockSettings(createSettings({ excludedSources: ["contact form"] }));
+		const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+		expect(await sendLeadAutoResponse(createMockLead() as never)).toBe(false);
+		expect(sendEmail).not.toHaveBeenCalled();
+		consoleSpy.mockRestore();
+	});
+
+	it("should not record an activity when sending fails", async () => {
+		mockSettings(createSettings());
+		(sendEmail as Mock).mockResolvedValueOnce({
+			success: false,
+			error: "Resend API error: invalid from",
+			durationMs: 1,
+		});
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+		expect(await sendLeadAutoResponse(createMockLead() as never)).toBe(false);
+		expect(addLeadActivity).not.toHaveBeenCalled();
+		expect(consoleSpy).toHaveBeenCalledWith(
+			`[Auto-responder] Failed to email lead ${LEAD_ID}: Resend API error: invalid from`,
+		);
+		consoleSpy.mockRestore();
+	});
+
+	it("should log errors instead of throwing", async () => {
+		(db.select as Mock).mockImplementation(() => {
+			throw new Error("Database down");
+		});
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+		expect(await sendLeadAutoResponse(createMockLead() as never)).toBe(false);
+		expect(consoleSpy).toHaveBeenCalled();
+		consoleSpy.mockRestore();
+	});
+});
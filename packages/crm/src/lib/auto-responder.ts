@@ -0,0 +1,360 @@
+/**
+ * Lead Auto-Responder.
+ *
+ * Sends new inbound leads an acknowledgement email through Resend (see
+ * lib/notifications/email.ts) after POST /api/leads, so they hear from us
+ * before someone replies by hand.
+ *
+ * The auto-responder is configured in the lead_auto_responder setting:
+ * - A subject and plain text body written in the notification template
+ *   language, with optional overrides per lead projectType
+ * - {{calLink}} renders the Cal.com booking link from the cal_link setting
+ * - Leads from excluded sources never get an auto-response
+ *
+ * Each sent email is recorded, with its body, as an "email" activity on the lead.
+ */
+
+import { eq } from "drizzle-orm";
+import { db, type Lead, settings } from "../db/index.js";
+import { addLeadActivity } from "./leads.js";
+import {
+	createLeadTemplateContext,
+	formatTextEmailHtml,
+	leadToNotificationData,
+	type NotificationLeadData,
+	renderNotificationTemplate,
+	resolveTemplates,
+	sendEmail,
+	validateNotificationTemplate,
+} from "./notifications/index.js";
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+/**
+ * Settings key the auto-responder configuration is stored under.
+ */
+export const AUTO_RESPONDER_SETTING = "lead_auto_responder";
+
+/**
+ * Subject and body of an auto-response.
+ */
+export interface AutoResponderTemplate {
+	subject: string;
+	body: string;
+}
+
+/**
+ * Auto-responder configuration.
+ */
+export interface AutoResponderSettings extends AutoResponderTemplate {
+	enabled: boolean;
+	/** Sender, e.g. "Octatech <hello@octatech.xyz>" (must be a verified Resend domain) */
+	from: string;
+	/** Address replies go to; the sender when null */
+	replyTo: string | null;
+	/**
+	 * Overrides keyed by lead projectType. Empty parts fall back to the
+	 * default subject and body.
+	 */
+	projectTypeTemplates: Record<string, Partial<AutoResponderTemplate>>;
+	/** Lead sources (case-insensitive) that never get an auto-response */
+	excludedSources: string[];
+}
+
+/**
+ * Fields auto-response templates may reference. CRM links are left out:
+ * the email goes to the lead.
+ */
+export const AUTO_RESPONDER_TEMPLATE_FIELDS = [
+	"lead.name",
+	"lead.email",
+	"lead.company",
+	"lead.phone",
+	"lead.budget",
+	"lead.projectType",
+	"lead.message",
+	"lead.source",
+	"calLink",
+] as const;
+
+/**
+ * Default auto-responder configuration (disabled until a sender is set).
+ */
+export const DEFAULT_AUTO_RESPONDER: AutoResponderSettings = {
+	enabled: false,
+	from: "",
+	replyTo: null,
+	subject: "Thanks for reaching out, {{lead.name}}",
+	body: [
+		"Hi {{lead.name}},",
+		"",
+		"Thanks for getting in touch{{#lead.company}} about {{lead.company}}{{/lead.company}}. We've received your message and will get back to you within 24 hours.",
+		"",
+		"{{#calLink}}",
+		"If you'd like to talk sooner, pick a time that suits you:",
+		"{{calLink}}",
+		"",
+		"{{/calLink}}",
+		"— The Octatech team",
+	].join("\n"),
+	projectTypeTemplates: {},
+	excludedSources: [],
+};
+
+/**
+ * Rendered auto-response.
+ */
+export interface AutoResponse {
+	subject: string;
+	text: string;
+	html: string;
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Read the auto-responder configuration from settings.
+ * Missing or invalid values fall back to DEFAULT_AUTO_RESPONDER.
+ *
+ * @returns The auto-responder configuration
+ */
+export async function getAutoResponderSettings(): Promise<AutoResponderSettings> {
+	const [setting] = await db
+		.select()
+		.from(settings)
+		.where(eq(settings.key, AUTO_RESPONDER_SETTING))
+		.limit(1);
+
+	const value = (setting?.value ?? {}) as Partial<AutoResponderSettings>;
+	const isString = (v: unknown): v is string => typeof v === "string";
+
+	return {
+		enabled: value.enabled === true,
+		from: isString(value.from) ? value.from : DEFAULT_AUTO_RESPONDER.from,
+		replyTo: isString(value.replyTo) ? value.replyTo : null,
+		subject:
+			isString(value.subject) && value.subject ? value.subject : DEFAULT_AUTO_RESPONDER.subject,
+		body: isString(value.body) && value.body ? value.body : DEFAULT_AUTO_RESPONDER.body,
+		projectTypeTemplates:
+			value.projectTypeTemplates && typeof value.projectTypeTemplates === "object"
+				? value.projectTypeTemplates
+				: {},
+		excludedSources: Array.isArray(value.excludedSources)
+			? value.excludedSources.filter(isString)
+			: [],
+	};
+}
+
+/**
+ * Store the auto-responder configuration.
+ * Callers validate the templates and addresses first.
+ *
+ * @param autoResponder - The configuration to store
+ * @returns The stored configuration
+ */
+export async function setAutoResponderSettings(
+	autoResponder: AutoResponderSettings,
+): Promise<AutoResponderSettings> {
+	const value = { ...autoResponder };
+	const now = new Date();
+	await db
+		.insert(settings)
+		.values({ key: AUTO_RESPONDER_SETTING, value, updatedAt: now })
+		.onConflictDoUpdate({ target: settings.key, set: { value, updatedAt: now } });
+
+	return value;
+}
+
+/**
+ * Get the Cal.com booking URL from the cal_link setting.
+ *
+ * @returns e.g. "https://cal.com/octatech/discovery", or null if not set
+ */
+export async function getCalBookingUrl(): Promise<string | null> {
+	const [setting] = await db.select().from(settings).where(eq(settings.key, "cal_link")).limit(1);
+
+	return typeof setting?.value === "string" && setting.value
+		? `https://cal.com/${setting.value}`
+		: null;
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Whether leads from a source are opted out of auto-responses.
+ *
+ * @param autoResponder - The auto-responder configuration
+ * @param source - The lead's source
+ */
+export function isSourceExcluded(
+	autoResponder: AutoResponderSettings,
+	source: string | null,
+): boolean {
+	const normalized = source?.trim().toLowerCase();
+	return (
+		!!normalized &&
+		autoResponder.excludedSources.some((excluded) => excluded.trim().toLowerCase() === normalized)
+	);
+}
+
+/**
+ * Render the auto-response for a lead, using its projectType's templates
+ * when there are any.
+ *
+ * @param autoResponder - The auto-responder configuration
+ * @param lead - The lead the email goes to
+ * @param calLink - Cal.com booking URL, or null
+ * @returns Subject, plain text and HTML body
+ * @throws NotificationTemplateError if a stored template is invalid
+ */
+export function renderAutoResponse(
+	autoResponder: AutoResponderSettings,
+	lead: NotificationLeadData,
+	calLink: string | null,
+): AutoResponse {
+	const templates = resolveTemplates(
+		autoResponder.projectTypeTemplates as Record<string, Record<string, string>>,
+		lead.projectType ?? "",
+		{ subject: autoResponder.subject, body: autoResponder.body },
+	);
+	const context = { ...createLeadTemplateContext(lead), calLink };
+
+	const subject = renderNotificationTemplate(templates.subject, context)
+		.replace(/\s+/g, " ")
+		.trim();
+	const text = renderNotificationTemplate(templates.body, context).trim();
+
+	return { subject, text, html: formatTextEmailHtml(text) };
+}
+
+/**
+ * Check every template in a configuration, returning the first error.
+ *
+ * @param autoResponder - The auto-responder configuration
+ * @returns An error message like "Cloud Migration body: ...", or null if valid
+ */
+export function validateAutoResponderTemplates(
+	autoResponder: AutoResponderSettings,
+): string | null {
+	const templates: [string, string | undefined][] = [
+		["subject", autoResponder.subject],
+		["body", autoResponder.body],
+	];
+	for (const [projectType, overrides] of Object.entries(autoResponder.projectTypeTemplates)) {
+		templates.push([`${projectType} subject`, overrides.subject]);
+		templates.push([`${projectType} body`, overrides.body]);
+	}
+
+	for (const [label, template] of templates) {
+		const error = template
+			? validateNotificationTemplate(template, AUTO_RESPONDER_TEMPLATE_FIELDS)
+			: null;
+		if (error) {
+			return `${label}: ${error}`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Render the auto-response for a sample lead, as the admin UI previews it.
+ *
+ * @param autoResponder - The auto-responder configuration
+ * @param projectType - The sample lead's projectType (null for none)
+ * @param calLink - Cal.com booking URL, or null
+ * @returns Subject, plain text and HTML body
+ * @throws NotificationTemplateError if a template is invalid
+ */
+export function previewAutoResponse(
+	autoResponder: AutoResponderSettings,
+	projectType: string | null,
+	calLink: string | null,
+): AutoResponse {
+	return renderAutoResponse(
+		autoResponder,
+		{
+			id: "preview-lead-00000000-0000-0000-0000-000000000000",
+			name: "Jane Smith",
+			email: "jane@example.com",
+			company: "Acme Inc",
+			phone: "+1-555-0123",
+			budget: "$15,000 - $50,000",
+			projectType,
+			message: "We're looking for help building the first version of our product.",
+			source: "Contact Form",
+			status: "new",
+			tags: [],
+			createdAt: new Date(),
+		},
+		calLink,
+	);
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Send the auto-response to a new lead and record it as an activity.
+ *
+ * Does nothing when the auto-responder is disabled, has no sender, or the
+ * lead's source is excluded. Failures are logged, never thrown, so callers
+ * can fire and forget.
+ *
+ * @param lead - The newly created lead
+ * @returns Whether an email was sent
+ *
+ * @example
+ * ```ts
+ * // After creating a lead from the contact form
+ * sendLeadAutoResponse(newLead);
+ * ```
+ */
+export async function sendLeadAutoResponse(lead: Lead): Promise<boolean> {
+	try {
+		const autoResponder = await getAutoResponderSettings();
+		if (!autoResponder.enabled || !autoResponder.from) {
+			return false;
+		}
+
+		if (isSourceExcluded(autoResponder, lead.source)) {
+			console.log(`[Auto-responder] Skipping lead ${lead.id}: source "${lead.source}" is excluded`);
+			return false;
+		}
+
+		const calLink = await getCalBookingUrl();
+		const email = renderAutoResponse(autoResponder, leadToNotificationData(lead), calLink);
+
+		const result = await sendEmail({
+			from: autoResponder.from,
+			to: [lead.email],
+			subject: email.subject,
+			html: email.html,
+			text: email.text,
+			replyTo: autoResponder.replyTo ?? undefined,
+		});
+
+		if (!result.success) {
+			console.error(`[Auto-responder] Failed to email lead ${lead.id}: ${result.error}`);
+			return false;
+		}
+
+		await addLeadActivity(lead, {
+			type: "email",
+			description: `Auto-response sent: "${email.subject}"`,
+			body: email.text,
+		});
+
+		return true;
+	} catch (error) {
+		console.error(`[Auto-responder] Error sending auto-response to lead ${lead.id}:`, error);
+		return false;
+	}
+}
@@ -0,0 +1,172 @@
+/**
+ * Cal.com booking records.
+ *
+ * The Cal.com webhook (routes/api/cal-webhook.ts) stores every booking it
+ * sees and keeps the record in step as the meeting is rescheduled, cancelled
+ * or held. Records are keyed by Cal.com's booking uid and linked to the lead
+ * and contact with the attendee's email; GET /api/admin/bookings lists them.
+ *
+ * The webhook only accepts payloads signed with the cal_webhook_secret
+ * setting: Cal.com sends the hex HMAC-SHA256 of the raw body in
+ * X-Cal-Signature-256.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { eq, sql } from "drizzle-orm";
+import { type Booking, bookings, contacts, db, type NewBooking, settings } from "../db/index.js";
+
+/**
+ * Settings key for the secret Cal.com signs webhook payloads with.
+ */
+export const CAL_WEBHOOK_SECRET_SETTING = "cal_webhook_secret";
+
+/**
+ * Header carrying Cal.com's payload signature.
+ */
+export const CAL_SIGNATURE_HEADER = "X-Cal-Signature-256";
+
+/**
+ * Settings key for advancing leads to "qualified" once a meeting ends.
+ */
+export const QUALIFY_AFTER_MEETING_SETTING = "qualify_after_meeting";
+
+/**
+ * Lead statuses a completed meeting may advance to "qualified".
+ */
+export const QUALIFY_AFTER_MEETING_STATUSES = ["new", "contacted"] as const;
+
+/**
+ * Find a booking by its Cal.com uid.
+ *
+ * @param calUid - The Cal.com booking uid
+ * @returns The booking, or null if it was never stored
+ */
+export async function findBookingByUid(calUid: string): Promise<Booking | null> {
+	const [booking] = await db.select().from(bookings).where(eq(bookings.calUid, calUid)).limit(1);
+
+	return booking ?? null;
+}
+
+/**
+ * Find the contact a booking's attendee corresponds to.
+ *
+ * @param email - The attendee's email
+ * @returns The contact ID, or null if no contact has the email
+ */
+export async function findBookingContactId(email: string): Promise<string | null> {
+	const [contact] = await db
+		.select({ id: contacts.id })
+		.from(contacts)
+		.where(sql`lower(${contacts.email}) = ${email.toLowerCase()}`)
+		.limit(1);
+
+	return contact?.id ?? null;
+}
+
+/**
+ * Store a booking, updating the existing record for the same uid.
+ * Unless a contact is given, the booking is linked to the contact with the
+ * attendee's email.
+ *
+ * @param values - The booking fields; omitted fields keep their stored values
+ * @returns The stored booking
+ *
+ * @example
+ * ```ts
+ * await saveBooking({ calUid, leadId, title, attendeeName, attendeeEmail, status: "cancelled" });
+ * ```
+ */
+export async function saveBooking(values: NewBooking): Promise<Booking> {
+	const now = new Date();
+	const row = {
+		...values,
+		contactId: values.contactId ?? (await findBookingContactId(values.attendeeEmail)),
+		updatedAt: now,
+	};
+	const [booking] = await db
+		.insert(bookings)
+		.values(row)
+		.onConflictDoUpdate({ target: bookings.calUid, set: row })
+		.returning();
+
+	return booking;
+}
+
+/**
+ * Update a stored booking.
+ * Used for reschedules, where Cal.com replaces the booking's uid.
+ *
+ * @param id - The booking ID
+ * @param changes - Fields to update
+ * @returns The updated booking
+ */
+export async function updateBooking(id: string, changes: Partial<NewBooking>): Promise<Booking> {
+	const [booking] = await db
+		.update(bookings)
+		.set({ ...changes, updatedAt: new Date() })
+		.where(eq(bookings.id, id))
+		.returning();
+
+	return booking;
+}
+
+/**
+ * Whether finished meetings should advance their lead to "qualified".
+ *
+ * @returns True when the setting is on (off by default)
+ */
+export async function getQualifyAfterMeeting(): Promise<boolean> {
+	const [setting] = await db
+		.select()
+		.from(settings)
+		.where(eq(settings.key, QUALIFY_AFTER_MEETING_SETTING))
+		.limit(1);
+
+	return setting?.value === true;
+}
+
+/**
+ * Get the Cal.com webhook secret from settings.
+ *
+ * @returns The secret, or null if it hasn't been set
+ */
+export async function getCalWebhookSecret(): Promise<string | null> {
+	const [setting] = await db
+		.select()
+		.from(settings)
+		.where(eq(settings.key, CAL_WEBHOOK_SECRET_SETTING))
+		.limit(1);
+
+	return typeof setting?.value === "string" && setting.value ? setting.value : null;
+}
+
+/**
+ * Check a Cal.com payload signature.
+ * The comparison is constant-time; signatures of the wrong length (including
+ * anything that isn't hex) are rejected up front.
+ *
+ * @param secret - The configured secret
+ * @param body - The raw request body
+ * @param signature - The X-Cal-Signature-256 header value
+ * @returns true if the signature matches the body
+ *
+ * @example
+ * ```ts
+ * if (!verifyCalSignature(secret, await c.req.text(), c.req.header(CAL_SIGNATURE_HEADER))) {
+ *   return c.json({ success: false, error: "Invalid signature" }, 401);
+ * }
+ * ```
+ */
+export function verifyCalSignature(
+	secret: string,
+	body: string,
+	signature: string | undefined,
+): boolean {
+	if (!signature) {
+		return false;
+	}
+
+	const expected = createHmac("sha256", secret).update(body).digest();
+	const actual = Buffer.from(signature.trim(), "hex");
+	return actual.length === expected.length && timingSafeEqual(expected, actual);
+}
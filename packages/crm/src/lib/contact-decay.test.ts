@@ -0,0 +1,212 @@
+/**
+ * Tests for contact inactivity decay.
+ *
+ * Verifies that quiet contacts lose a warmth level per period, become
+ * dormant after the longer threshold, get a note for every change, and that
+ * the thresholds can be turned off.
+ */
+
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("../db", () => ({
+	db: {
+		select: vi.fn(),
+		insert: vi.fn(),
+		update: vi.fn(),
+	},
+	contacts: {
+		id: "id",
+		warmth: "warmth",
+		relationshipStatus: "relationship_status",
+		lastInteractionAt: "last_interaction_at",
+		warmthDecayedAt: "warmth_decayed_at",
+		decayPinned: "decay_pinned",
+	},
+	contactInteractions: { contactId: "contact_id" },
+	settings: { key: "key" },
+}));
+
+vi.mock("./webhooks", () => ({
+	triggerContactStatusChanged: vi.fn(() => Promise.resolve()),
+}));
+
+import { db } from "../db";
+import { processContactDecay } from "./contact-decay";
+import { triggerContactStatusChanged } from "./webhooks";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2025-06-01T12:00:00Z");
+
+function daysAgo(days: number): Date {
+	return new Date(NOW.getTime() - days * DAY_MS);
+}
+
+function createMockContact(overrides: Record<string, unknown> = {}) {
+	return {
+		id: "contact-1",
+		name: "Jane Doe",
+		warmth: "hot",
+		relationshipStatus: "engaged",
+		lastInteractionAt: daysAgo(40),
+		warmthDecayedAt: null,
+		decayPinned: false,
+		...overrides,
+	};
+}
+
+/**
+ * Mock the settings lookups and the quiet contacts query.
+ */
+function mockSelect(quietContacts: unknown[], thresholds: Record<string, number> = {}) {
+	// Settings are read in order: warmth_decay_days, then dormant_after_days
+	const keys = ["warmth_decay_days", "dormant_after_days"];
+	let settingsRead = 0;
+	(db.select as Mock).mockReturnValue({
+		from: () => ({
+			where: () =>
+				Object.assign(Promise.resolve(quietContacts), {
+					limit: () => {
+						const key = keys[settingsRead++ % keys.length];
+						return Promise.resolve(
+							thresholds[key] === undefined ? [] : [{ key, value: thresholds[key] }],
+						);
+					},
+				}),
+		}),
+	});
+}
+
+/**
+ * Mock the contact update (claiming the row unless `claimed` is false) and
+ * the note insert.
+ */
+function mockWrites(claimed = true) {
+	const set = vi.fn((values: Record<string, unknown>) => ({
+		where: () => ({
+			returning: () => Promise.resolve(claimed ? [{ ...createMockContact(), ...values }] : []),
+		}),
+	}));
+	(db.update as Mock).mockReturnValue({ set });
+	const values = vi.fn(() => Promise.resolve());
+	(db.insert as Mock).mockReturnValue({ values });
+	return { set, values };
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("processContactDecay", () => {
+	it("should lower warmth one level after the decay period and log a note", async () => {
+		mockSelect([createMockContact()]);
+		const { set, values } = mockWrites();
+
+		const changed = await processContactDecay(NOW);
+
+		expect(changed).toBe(1);
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({ warmth: "warm", warmthDecayedAt: NOW }),
+		);
+		expect(values).toHaveBeenCalledWith([
+			expect.objectContaining({
+				contactId: "contact-1",
+				type: "note",
+				description: "Warmth lowered from hot to warm after 40 days without an interaction",
+			}),
+		]);
+		expect(triggerContactStatusChanged).not.toHaveBeenCalled();
+	});
+
+	it("should wait a full period after the last drop before lowering again", async () => {
+		mockSelect([createMockContact({ warmth: "warm", warmthDecayedAt: daysAgo(10) })]);
+		const { set } = mockWrites();
+
+		const changed = await processContactDecay(NOW);
+
+		expect(changed).toBe(0);
+		expect(set).not.toHaveBeenCalled();
+	});
+
+	it("should mark long-silent contacts dormant and fire the status webhook", async () => {
+		mockSelect([
+			createMockContact({
+				warmth: "cold",
+				lastInteractionAt: daysAgo(120),
+				warmthDecayedAt: daysAgo(60),
+			}),
+		]);
+		const { set, values } = mockWrites();
+
+		await processContactDecay(NOW);
+
+		expect(set).toHaveBeenCalledWith(expect.objectContaining({ relationshipStatus: "dormant" }));
+		expect(values).toHaveBeenCalledWith([
+			expect.objectContaining({
+				description: "Status changed from engaged to dormant after 120 days without an interaction",
+			}),
+		]);
+		expect(triggerContactStatusChanged).toHaveBeenCalledWith(
+			expect.objectContaining({ id: "contact-1" }),
+			"engaged",
+			"dormant",
+		);
+	});
+
+	it("should log a note for each change when both are due", async () => {
+		mockSelect([createMockContact({ lastInteractionAt: daysAgo(100) })]);
+		const { values } = mockWrites();
+
+		await processContactDecay(NOW);
+
+		expect(values).toHaveBeenCalledWith([
+			expect.objectContaining({ description: expect.stringContaining("hot to warm") }),
+			expect.objectContaining({ description: expect.stringContaining("to dormant") }),
+		]);
+	});
+
+	it("should never mark converted contacts dormant", async () => {
+		mockSelect([
+			createMockContact({
+				warmth: "cold",
+				relationshipStatus: "converted",
+				lastInteractionAt: daysAgo(200),
+			}),
+		]);
+		const { set } = mockWrites();
+
+		expect(await processContactDecay(NOW)).toBe(0);
+		expect(set).not.toHaveBeenCalled();
+	});
+
+	it("should skip contacts that changed since they were selected", async () => {
+		mockSelect([createMockContact()]);
+		const { values } = mockWrites(false);
+
+		expect(await processContactDecay(NOW)).toBe(0);
+		expect(values).not.toHaveBeenCalled();
+	});
+
+	it("should use the configured thresholds", async () => {
+		mockSelect([createMockContact()], { warmth_decay_days: 60 });
+		const { set } = mockWrites();
+
+		expect(await processContactDecay(NOW)).toBe(0);
+		expect(set).not.toHaveBeenCalled();
+	});
+
+	it("should do nothing when both thresholds are turned off", async () => {
+		mockSelect([createMockContact()], { warmth_decay_days: 0, dormant_after_days: 0 });
+		const { set } = mockWrites();
+
+		expect(await processContactDecay(NOW)).toBe(0);
+		expect(set).not.toHaveBeenCalled();
+	});
+});
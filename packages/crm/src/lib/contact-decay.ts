@@ -0,0 +1,284 @@
+/**
+ * Contact Inactivity Decay.
+ *
+ * addContactInteraction only ever upgrades a contact's warmth and
+ * relationship status, so this job cools contacts down again once they go
+ * quiet, based on last_interaction_at:
+ *
+ * - Every warmth_decay_days without an interaction, warmth drops one level
+ *   (hot → warm → cold). warmth_decayed_at records the last drop, so a
+ *   contact silent for twice the period goes from hot to cold in two steps.
+ * - After dormant_after_days without an interaction, the relationship
+ *   status becomes dormant (converted contacts are left alone).
+ *
+ * Every change is logged on the contact as a note interaction. Notes are
+ * inserted directly rather than through addContactInteraction, so they don't
+ * count as activity. Contacts with decay_pinned set are skipped.
+ */
+
+import { and, eq, isNotNull, isNull, lt, ne, notInArray, or } from "drizzle-orm";
+import { type Contact, contactInteractions, contacts, db, settings } from "../db/index.js";
+import { createIntervalJob } from "./interval-job.js";
+import { triggerContactStatusChanged } from "./webhooks.js";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Settings key for the days without an interaction before warmth drops a level.
+ */
+export const WARMTH_DECAY_DAYS_SETTING = "warmth_decay_days";
+
+/**
+ * Settings key for the days without an interaction before a contact is dormant.
+ */
+export const DORMANT_AFTER_DAYS_SETTING = "dormant_after_days";
+
+/**
+ * Contact decay configuration.
+ */
+export const CONTACT_DECAY_CONFIG = {
+	/** How often the job checks for quiet contacts */
+	pollIntervalMs: 60 * 60 * 1000,
+	/** Used while warmth_decay_days is unset */
+	defaultWarmthDecayDays: 30,
+	/** Used while dormant_after_days is unset */
+	defaultDormantAfterDays: 90,
+} as const;
+
+/**
+ * Relationship statuses that never become dormant automatically.
+ */
+const DORMANT_EXEMPT_STATUSES = ["dormant", "converted"];
+
+const WARMTH_ORDER = ["cold", "warm", "hot"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Inactivity thresholds in days; 0 turns that part of the job off.
+ */
+export interface ContactDecaySettings {
+	warmthDecayDays: number;
+	dormantAfterDays: number;
+}
+
+/**
+ * Read a day count from settings, falling back to its default.
+ */
+async function getDaysSetting(key: string, fallback: number): Promise<number> {
+	const [setting] = await db.select().from(settings).where(eq(settings.key, key)).limit(1);
+
+	return typeof setting?.value === "number" ? setting.value : fallback;
+}
+
+/**
+ * Get the inactivity thresholds from settings.
+ *
+ * @returns The thresholds, with defaults for any that haven't been set
+ */
+export async function getContactDecaySettings(): Promise<ContactDecaySettings> {
+	return {
+		warmthDecayDays: await getDaysSetting(
+			WARMTH_DECAY_DAYS_SETTING,
+			CONTACT_DECAY_CONFIG.defaultWarmthDecayDays,
+		),
+		dormantAfterDays: await getDaysSetting(
+			DORMANT_AFTER_DAYS_SETTING,
+			CONTACT_DECAY_CONFIG.defaultDormantAfterDays,
+		),
+	};
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Decay warmth and mark dormant every unpinned contact that has been quiet
+ * past the configured thresholds.
+ *
+ * @param now - Current time (injectable for tests)
+ * @returns Number of contacts changed
+ *
+ * @example
+ * ```ts
+ * const changed = await processContactDecay();
+ * ```
+ */
+export async function processContactDecay(now: Date = new Date()): Promise<number> {
+	const { warmthDecayDays, dormantAfterDays } = await getContactDecaySettings();
+
+	const warmthCutoff = new Date(now.getTime() - warmthDecayDays * DAY_MS);
+	const dormantCutoff = new Date(now.getTime() - dormantAfterDays * DAY_MS);
+
+	const due = [];
+
+	if (warmthDecayDays > 0) {
+		due.push(
+			and(
+				ne(contacts.warmth, "cold"),
+				lt(contacts.lastInteractionAt, warmthCutoff),
+				or(isNull(contacts.warmthDecayedAt), lt(contacts.warmthDecayedAt, warmthCutoff)),
+			),
+		);
+	}
+
+	if (dormantAfterDays > 0) {
+		due.push(
+			and(
+				notInArray(contacts.relationshipStatus, DORMANT_EXEMPT_STATUSES),
+				lt(contacts.lastInteractionAt, dormantCutoff),
+			),
+		);
+	}
+
+	if (due.length === 0) {
+		return 0;
+	}
+
+	const quietContacts = await db
+		.select()
+		.from(contacts)
+		.where(and(eq(contacts.decayPinned, false), isNotNull(contacts.lastInteractionAt), or(...due)));
+
+	let changed = 0;
+
+	for (const contact of quietContacts) {
+		try {
+			if (await decayContact(contact, { warmthDecayDays, dormantAfterDays }, now)) {
+				changed++;
+			}
+		} catch (error) {
+			console.error(`Failed to decay contact ${contact.id}:`, error);
+		}
+	}
+
+	return changed;
+}
+
+/**
+ * Apply the due changes to one contact and log each as a note.
+ *
+ * @returns True if anything changed
+ */
+async function decayContact(
+	contact: Contact,
+	{ warmthDecayDays, dormantAfterDays }: ContactDecaySettings,
+	now: Date,
+): Promise<boolean> {
+	const lastInteractionAt = contact.lastInteractionAt;
+	if (!lastInteractionAt) {
+		return false;
+	}
+
+	const quietMs = now.getTime() - lastInteractionAt.getTime();
+	const updateData: Partial<typeof contacts.$inferInsert> = {};
+	const notes: string[] = [];
+
+	// A full period must pass since the last interaction or the last drop,
+	// whichever is later
+	const warmthIndex = WARMTH_ORDER.indexOf(contact.warmth);
+	const warmthQuietMs = Math.min(
+		quietMs,
+		now.getTime() - (contact.warmthDecayedAt?.getTime() ?? 0),
+	);
+	if (warmthDecayDays > 0 && warmthIndex > 0 && warmthQuietMs > warmthDecayDays * DAY_MS) {
+		updateData.warmth = WARMTH_ORDER[warmthIndex - 1];
+		updateData.warmthDecayedAt = now;
+		notes.push(
+			`Warmth lowered from ${contact.warmth} to ${updateData.warmth} after ${formatQuietDays(quietMs)} without an interaction`,
+		);
+	}
+
+	if (
+		dormantAfterDays > 0 &&
+		!DORMANT_EXEMPT_STATUSES.includes(contact.relationshipStatus) &&
+		quietMs > dormantAfterDays * DAY_MS
+	) {
+		updateData.relationshipStatus = "dormant";
+		notes.push(
+			`Status changed from ${contact.relationshipStatus} to dormant after ${formatQuietDays(quietMs)} without an interaction`,
+		);
+	}
+
+	if (notes.length === 0) {
+		return false;
+	}
+
+	// Only touch contacts that are still unpinned and haven't had an
+	// interaction logged since they were selected
+	const [updated] = await db
+		.update(contacts)
+		.set({ ...updateData, updatedAt: now })
+		.where(
+			and(
+				eq(contacts.id, contact.id),
+				eq(contacts.decayPinned, false),
+				eq(contacts.lastInteractionAt, lastInteractionAt),
+			),
+		)
+		.returning();
+
+	if (!updated) {
+		return false;
+	}
+
+	await db.insert(contactInteractions).values(
+		notes.map((description) => ({
+			contactId: contact.id,
+			type: "note",
+			direction: "outbound",
+			description,
+			createdAt: now,
+		})),
+	);
+
+	if (updateData.relationshipStatus) {
+		triggerContactStatusChanged(updated, contact.relationshipStatus, "dormant").catch((err) => {
+			console.error("Failed to trigger contact.status_changed webhook:", err);
+		});
+	}
+
+	return true;
+}
+
+/**
+ * Format a quiet period in whole days, e.g. "45 days".
+ */
+function formatQuietDays(quietMs: number): string {
+	const days = Math.floor(quietMs / DAY_MS);
+	return `${days} day${days === 1 ? "" : "s"}`;
+}
+
+// ============================================================================
+// SCHEDULED JOB
+// ============================================================================
+
+const contactDecayJob = createIntervalJob(
+	"Contact decay job",
+	CONTACT_DECAY_CONFIG.pollIntervalMs,
+	() => processContactDecay(),
+);
+
+/**
+ * Start the job that cools down quiet contacts, every
+ * CONTACT_DECAY_CONFIG.pollIntervalMs unless an interval is given.
+ *
+ * @example
+ * ```ts
+ * // On server startup
+ * startContactDecayJob();
+ * ```
+ */
+export const startContactDecayJob = contactDecayJob.start;
+
+/**
+ * Stop the contact decay job.
+ */
+export const stopContactDecayJob = contactDecayJob.stop;
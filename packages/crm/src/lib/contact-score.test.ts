@@ -0,0 +1,167 @@
+/**
+ * Tests for contact scoring.
+ *
+ * Verifies interaction weights, the inbound multiplier, time decay, company
+ * signals, the warmth and tier thresholds, and reading the configuration
+ * from settings.
+ */
+
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("../db", () => ({
+	db: {
+		select: vi.fn(),
+	},
+	companies: { id: "id" },
+	contactInteractions: { contactId: "contact_id" },
+	settings: { key: "key" },
+}));
+
+import { db } from "../db";
+import {
+	computeContactScore,
+	DEFAULT_CONTACT_SCORING,
+	getContactScoringSettings,
+} from "./contact-score";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2025-06-01T12:00:00Z");
+
+// No time decay unless a test asks for it
+const SCORING = { ...DEFAULT_CONTACT_SCORING, halfLifeDays: 0 };
+
+function interaction(type: string, direction = "outbound", daysAgo = 0) {
+	return { type, direction, createdAt: new Date(NOW.getTime() - daysAgo * DAY_MS) };
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("computeContactScore", () => {
+	it("should weigh interactions by type", () => {
+		const likes = computeContactScore(
+			[interaction("linkedin_like"), interaction("linkedin_like"), interaction("linkedin_like")],
+			null,
+			SCORING,
+			NOW,
+		);
+		const meeting = computeContactScore([interaction("meeting")], null, SCORING, NOW);
+
+		expect(likes.score).toBe(3);
+		expect(likes.warmth).toBe("cold");
+		expect(meeting.score).toBe(8);
+		expect(meeting.warmth).toBe("warm");
+	});
+
+	it("should multiply inbound interactions", () => {
+		const result = computeContactScore(
+			[interaction("email_received", "inbound"), interaction("email_sent")],
+			null,
+			SCORING,
+			NOW,
+		);
+
+		expect(result.score).toBe(8);
+		expect(result.breakdown.interactions).toEqual([
+			{ type: "email_received", direction: "inbound", count: 1, points: 6 },
+			{ type: "email_sent", direction: "outbound", count: 1, points: 2 },
+		]);
+	});
+
+	it("should halve an interaction's points every half-life", () => {
+		const result = computeContactScore(
+			[interaction("meeting", "outbound", 90), interaction("meeting", "outbound", 180)],
+			null,
+			DEFAULT_CONTACT_SCORING,
+			NOW,
+		);
+
+		expect(result.score).toBe(6);
+	});
+
+	it("should add company signals", () => {
+		const result = computeContactScore(
+			[],
+			{ hiringContractors: true, contractType: "both" },
+			SCORING,
+			NOW,
+		);
+
+		expect(result.score).toBe(8);
+		expect(result.breakdown.company).toEqual([
+			{ signal: "hiringContractors", points: 5 },
+			{ signal: "b2bContracts", points: 3 },
+		]);
+	});
+
+	it("should suggest a warmth and tier from the thresholds", () => {
+		const result = computeContactScore(
+			[
+				interaction("meeting"),
+				interaction("call", "inbound"),
+				interaction("linkedin_dm_received", "inbound"),
+			],
+			{ hiringContractors: true, contractType: "unknown" },
+			SCORING,
+			NOW,
+		);
+
+		expect(result.score).toBe(29);
+		expect(result.warmth).toBe("hot");
+		expect(result.suggestedTier).toBe("B");
+	});
+
+	it("should ignore notes and unknown interaction types", () => {
+		const result = computeContactScore(
+			[interaction("note"), interaction("carrier_pigeon")],
+			null,
+			SCORING,
+			NOW,
+		);
+
+		expect(result.score).toBe(0);
+		expect(result.breakdown.interactions).toEqual([
+			{ type: "note", direction: "outbound", count: 1, points: 0 },
+		]);
+		expect(result.suggestedTier).toBe("C");
+	});
+});
+
+describe("getContactScoringSettings", () => {
+	it("should fill anything unset or invalid with the defaults", async () => {
+		(db.select as Mock).mockReturnValue({
+			from: () => ({
+				where: () => ({
+					limit: () =>
+						Promise.resolve([
+							{
+								key: "contact_scoring",
+								value: {
+									interactionWeights: { linkedin_like: 0.5, meeting: -3 },
+									inboundMultiplier: "lots",
+									warmthThresholds: { hot: 40 },
+								},
+							},
+						]),
+				}),
+			}),
+		});
+
+		const scoring = await getContactScoringSettings();
+
+		expect(scoring.interactionWeights.linkedin_like).toBe(0.5);
+		expect(scoring.interactionWeights.meeting).toBe(8);
+		expect(scoring.inboundMultiplier).toBe(2);
+		expect(scoring.warmthThresholds).toEqual({ warm: 6, hot: 40 });
+		expect(scoring.companySignals).toEqual(DEFAULT_CONTACT_SCORING.companySignals);
+	});
+});
@@ -0,0 +1,295 @@
+/**
+ * Contact Scoring.
+ *
+ * Scores a contact from its interactions and company so warmth reflects what
+ * happened rather than how often: each interaction is worth its type's
+ * weight, inbound ones are multiplied (a reply says more than a message we
+ * sent), and older interactions count for less, halving every halfLifeDays.
+ * Company signals such as hiring contractors add fixed points.
+ *
+ * The score maps to a warmth (applied as an upgrade by addContactInteraction
+ * in lib/contacts.ts) and a suggested tier (shown in the admin UI). The
+ * weights and thresholds are stored in the contact_scoring setting and
+ * edited under /api/admin/settings/contact-scoring.
+ */
+
+import { eq } from "drizzle-orm";
+import {
+	type Contact,
+	type ContactInteractionType,
+	companies,
+	contactInteractions,
+	db,
+	type InteractionDirection,
+	settings,
+} from "../db/index.js";
+import { numberOr, numbersOr } from "./setting-values.js";
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Settings key for the scoring configuration.
+ */
+export const CONTACT_SCORING_SETTING = "contact_scoring";
+
+/**
+ * Company signals that add to a contact's score.
+ */
+export const COMPANY_SIGNALS = ["hiringContractors", "b2bContracts"] as const;
+export type CompanySignal = (typeof COMPANY_SIGNALS)[number];
+
+/**
+ * Scoring configuration.
+ */
+export interface ContactScoringSettings {
+	/** Points per interaction, by type */
+	interactionWeights: Record<ContactInteractionType, number>;
+	/** Multiplier for inbound interactions */
+	inboundMultiplier: number;
+	/** Days after which an interaction counts half as much; 0 turns decay off */
+	halfLifeDays: number;
+	/** Points added when the contact's company shows a signal */
+	companySignals: Record<CompanySignal, number>;
+	/** Minimum scores for warm and hot */
+	warmthThresholds: { warm: number; hot: number };
+	/** Minimum scores for suggesting tier A and B */
+	tierThresholds: { A: number; B: number };
+}
+
+/**
+ * Default scoring. A handful of likes and comments makes a contact warm;
+ * it takes replies, calls or meetings to make them hot.
+ */
+export const DEFAULT_CONTACT_SCORING: ContactScoringSettings = {
+	interactionWeights: {
+		linkedin_like: 1,
+		linkedin_comment: 2,
+		linkedin_post_engagement: 2,
+		linkedin_connection_sent: 1,
+		linkedin_connection_accepted: 2,
+		linkedin_dm_sent: 2,
+		linkedin_dm_received: 3,
+		email_sent: 2,
+		email_received: 3,
+		call: 5,
+		meeting: 8,
+		note: 0,
+	},
+	inboundMultiplier: 2,
+	halfLifeDays: 90,
+	companySignals: {
+		hiringContractors: 5,
+		b2bContracts: 3,
+	},
+	warmthThresholds: { warm: 6, hot: 20 },
+	tierThresholds: { A: 30, B: 12 },
+};
+
+/**
+ * Get the scoring configuration from settings.
+ *
+ * @returns The configuration, with defaults for anything that hasn't been set
+ */
+export async function getContactScoringSettings(): Promise<ContactScoringSettings> {
+	const [setting] = await db
+		.select()
+		.from(settings)
+		.where(eq(settings.key, CONTACT_SCORING_SETTING))
+		.limit(1);
+
+	const value = (setting?.value ?? {}) as Partial<Record<keyof ContactScoringSettings, unknown>>;
+
+	return {
+		interactionWeights: numbersOr(
+			value.interactionWeights,
+			DEFAULT_CONTACT_SCORING.interactionWeights,
+		),
+		inboundMultiplier: numberOr(value.inboundMultiplier, DEFAULT_CONTACT_SCORING.inboundMultiplier),
+		halfLifeDays: numberOr(value.halfLifeDays, DEFAULT_CONTACT_SCORING.halfLifeDays),
+		companySignals: numbersOr(value.companySignals, DEFAULT_CONTACT_SCORING.companySignals),
+		warmthThresholds: numbersOr(value.warmthThresholds, DEFAULT_CONTACT_SCORING.warmthThresholds),
+		tierThresholds: numbersOr(value.tierThresholds, DEFAULT_CONTACT_SCORING.tierThresholds),
+	};
+}
+
+/**
+ * Store the scoring configuration.
+ * Callers validate it first.
+ *
+ * @param scoring - The complete configuration
+ * @returns The stored configuration
+ */
+export async function setContactScoringSettings(
+	scoring: ContactScoringSettings,
+): Promise<ContactScoringSettings> {
+	const value = { ...scoring };
+	const now = new Date();
+	await db
+		.insert(settings)
+		.values({ key: CONTACT_SCORING_SETTING, value, updatedAt: now })
+		.onConflictDoUpdate({ target: settings.key, set: { value, updatedAt: now } });
+
+	return value;
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * An interaction as far as scoring is concerned.
+ */
+export interface ScoredInteraction {
+	type: string;
+	direction: string;
+	createdAt: Date;
+}
+
+/**
+ * The company fields scoring looks at.
+ */
+export interface ScoredCompany {
+	hiringContractors: boolean | null;
+	contractType: string | null;
+}
+
+/**
+ * A contact's score, what it's made of, and the warmth and tier it implies.
+ */
+export interface ContactScore {
+	score: number;
+	warmth: "cold" | "warm" | "hot";
+	suggestedTier: "A" | "B" | "C";
+	breakdown: {
+		/** Points per interaction type and direction, highest first */
+		interactions: Array<{
+			type: ContactInteractionType;
+			direction: InteractionDirection;
+			count: number;
+			points: number;
+		}>;
+		/** Company signals that applied */
+		company: Array<{ signal: CompanySignal; points: number }>;
+	};
+}
+
+/**
+ * Round to one decimal place for display.
+ */
+function roundPoints(points: number): number {
+	return Math.round(points * 10) / 10;
+}
+
+/**
+ * Score a contact's interactions and company.
+ *
+ * @param interactions - The contact's interactions
+ * @param company - The contact's company, or null
+ * @param scoring - The scoring configuration
+ * @param now - Current time (injectable for tests)
+ * @returns The score with its breakdown
+ *
+ * @example
+ * ```ts
+ * const { score, warmth } = computeContactScore(interactions, null, DEFAULT_CONTACT_SCORING);
+ * ```
+ */
+export function computeContactScore(
+	interactions: ScoredInteraction[],
+	company: ScoredCompany | null,
+	scoring: ContactScoringSettings,
+	now: Date = new Date(),
+): ContactScore {
+	const groups = new Map<string, ContactScore["breakdown"]["interactions"][number]>();
+
+	for (const interaction of interactions) {
+		const type = interaction.type as ContactInteractionType;
+		const direction: InteractionDirection =
+			interaction.direction === "inbound" ? "inbound" : "outbound";
+
+		let points = scoring.interactionWeights[type];
+		if (points === undefined) {
+			continue;
+		}
+		if (direction === "inbound") {
+			points *= scoring.inboundMultiplier;
+		}
+		if (scoring.halfLifeDays > 0) {
+			const ageDays = Math.max(0, now.getTime() - interaction.createdAt.getTime()) / DAY_MS;
+			points *= 0.5 ** (ageDays / scoring.halfLifeDays);
+		}
+
+		const key = `${type}:${direction}`;
+		const group = groups.get(key) ?? { type, direction, count: 0, points: 0 };
+		group.count++;
+		group.points += points;
+		groups.set(key, group);
+	}
+
+	const companyPoints: ContactScore["breakdown"]["company"] = [];
+	if (company?.hiringContractors) {
+		companyPoints.push({
+			signal: "hiringContractors",
+			points: scoring.companySignals.hiringContractors,
+		});
+	}
+	if (company?.contractType === "b2b" || company?.contractType === "both") {
+		companyPoints.push({ signal: "b2bContracts", points: scoring.companySignals.b2bContracts });
+	}
+
+	const interactionPoints = [...groups.values()]
+		.map((group) => ({ ...group, points: roundPoints(group.points) }))
+		.sort((a, b) => b.points - a.points);
+
+	const score = roundPoints(
+		[...groups.values()].reduce((sum, group) => sum + group.points, 0) +
+			companyPoints.reduce((sum, signal) => sum + signal.points, 0),
+	);
+
+	const { warmthThresholds, tierThresholds } = scoring;
+
+	return {
+		score,
+		warmth:
+			score >= warmthThresholds.hot ? "hot" : score >= warmthThresholds.warm ? "warm" : "cold",
+		suggestedTier: score >= tierThresholds.A ? "A" : score >= tierThresholds.B ? "B" : "C",
+		breakdown: { interactions: interactionPoints, company: companyPoints },
+	};
+}
+
+/**
+ * Load a contact's interactions, company and the scoring configuration,
+ * and score the contact.
+ *
+ * @param contact - The contact to score
+ * @returns The score with its breakdown
+ */
+export async function scoreContact(contact: Contact): Promise<ContactScore> {
+	const interactions = await db
+		.select({
+			type: contactInteractions.type,
+			direction: contactInteractions.direction,
+			createdAt: contactInteractions.createdAt,
+		})
+		.from(contactInteractions)
+		.where(eq(contactInteractions.contactId, contact.id));
+
+	let company: ScoredCompany | null = null;
+	if (contact.companyId) {
+		const [row] = await db
+			.select({
+				hiringContractors: companies.hiringContractors,
+				contractType: companies.contractType,
+			})
+			.from(companies)
+			.where(eq(companies.id, contact.companyId))
+			.limit(1);
+		company = row ?? null;
+	}
+
+	return computeContactScore(interactions, company, await getContactScoringSettings());
+}
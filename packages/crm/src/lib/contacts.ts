@@ -0,0 +1,152 @@
+/**
+ * Contact mutations shared by the admin API, the public API and the email
+ * composer.
+ *
+ * Adding an interaction through addContactInteraction applies the warmth
+ * (from the contact's score, lib/contact-score.ts) and relationship status
+ * auto-upgrades, moves the contact's outreach sequence along
+ * (lib/sequences.ts) and fires the matching webhooks, so every entry point
+ * behaves like POST /api/admin/contacts/:id/interactions.
+ */
+
+import { eq, sql } from "drizzle-orm";
+import {
+	type Contact,
+	type ContactInteraction,
+	contactInteractions,
+	contacts,
+	db,
+} from "../db/index.js";
+import { scoreContact } from "./contact-score.js";
+import { applySequenceInteraction } from "./sequences.js";
+import type { CreateInteractionInput } from "./validation.js";
+import { triggerContactInteractionAdded, triggerContactStatusChanged } from "./webhooks.js";
+
+/**
+ * Count interactions for a contact.
+ */
+async function getInteractionCount(contactId: string): Promise<number> {
+	const [result] = await db
+		.select({ count: sql<number>`count(*)::int` })
+		.from(contactInteractions)
+		.where(eq(contactInteractions.contactId, contactId));
+
+	return result?.count || 0;
+}
+
+/**
+ * Auto-upgrade warmth to the warmth the contact's score implies
+ * (lib/contact-score.ts).
+ * Only upgrades, never downgrades; the inactivity job (lib/contact-decay.ts)
+ * cools contacts down.
+ */
+function computeAutoWarmth(currentWarmth: string, scoredWarmth: string): string {
+	const warmthOrder = ["cold", "warm", "hot"];
+
+	if (warmthOrder.indexOf(scoredWarmth) > warmthOrder.indexOf(currentWarmth)) {
+		return scoredWarmth;
+	}
+
+	return currentWarmth;
+}
+
+/**
+ * Auto-upgrade relationship status based on interaction count.
+ * Only auto-upgrades from low statuses (identified, first_interaction).
+ *
+ * Rules:
+ * - If identified and first interaction → first_interaction
+ * - If first_interaction and 3+ interactions → engaged
+ * - Higher statuses require manual change
+ */
+function computeAutoStatus(currentStatus: string, interactionCount: number): string {
+	if (currentStatus === "identified" && interactionCount >= 1) {
+		return "first_interaction";
+	}
+
+	if (currentStatus === "first_interaction" && interactionCount >= 3) {
+		return "engaged";
+	}
+
+	return currentStatus;
+}
+
+/**
+ * Add an interaction to a contact, bump lastInteractionAt, apply the warmth
+ * and status auto-upgrades, advance or pause the contact's sequence and fire
+ * webhooks.
+ *
+ * @param contact - The contact the interaction belongs to
+ * @param input - Validated interaction, optionally with the full email body
+ * @returns The created interaction
+ *
+ * @example
+ * ```ts
+ * const interaction = await addContactInteraction(contact, {
+ *   type: "call",
+ *   direction: "outbound",
+ *   description: "Intro call",
+ * });
+ * ```
+ */
+export async function addContactInteraction(
+	contact: Contact,
+	input: CreateInteractionInput & { body?: string | null },
+): Promise<ContactInteraction> {
+	// Create the interaction
+	const [newInteraction] = await db
+		.insert(contactInteractions)
+		.values({
+			contactId: contact.id,
+			type: input.type,
+			direction: input.direction || "outbound",
+			description: input.description,
+			url: input.url || null,
+			body: input.body ?? null,
+		})
+		.returning();
+
+	// Get updated interaction count and score
+	const interactionCount = await getInteractionCount(contact.id);
+	const { warmth: scoredWarmth } = await scoreContact(contact);
+
+	// Compute auto-upgrades
+	const newWarmth = computeAutoWarmth(contact.warmth, scoredWarmth);
+	const newStatus = computeAutoStatus(contact.relationshipStatus, interactionCount);
+
+	// Advance the contact's sequence, or pause it on a reply
+	const sequenceChanges = await applySequenceInteraction(contact, newInteraction);
+
+	// Update contact: lastInteractionAt + any auto-upgrades and sequence step
+	const contactUpdateData: Partial<typeof contacts.$inferInsert> = {
+		...sequenceChanges,
+		lastInteractionAt: new Date(),
+		updatedAt: new Date(),
+	};
+
+	if (newWarmth !== contact.warmth) {
+		contactUpdateData.warmth = newWarmth;
+	}
+
+	if (newStatus !== contact.relationshipStatus) {
+		contactUpdateData.relationshipStatus = newStatus;
+	}
+
+	await db.update(contacts).set(contactUpdateData).where(eq(contacts.id, contact.id));
+	const updatedContact = { ...contact, ...contactUpdateData } as Contact;
+
+	// Trigger webhooks (fire-and-forget, don't await)
+	triggerContactInteractionAdded(updatedContact, newInteraction).catch((err) => {
+		console.error("Failed to trigger contact.interaction_added webhook:", err);
+	});
+
+	if (newStatus !== contact.relationshipStatus) {
+		triggerContactStatusChanged(updatedContact, contact.relationshipStatus, newStatus).catch(
+			(err) => {
+				console.error("Failed to trigger contact.status_changed webhook:", err);
+			},
+		);
+	}
+
+	return newInteraction;
+}
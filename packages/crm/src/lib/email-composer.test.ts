@@ -0,0 +1,202 @@
+/**
+ * Tests for the lead and contact email composer.
+ *
+ * Verifies variable substitution, template validation, and that sends are
+ * logged with their body through lib/leads.ts and lib/contacts.ts.
+ */
+
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("../db", () => ({
+	db: {
+		select: vi.fn(),
+	},
+	settings: { key: "key" },
+	companies: { id: "id", name: "name" },
+}));
+
+vi.mock("./leads", () => ({
+	addLeadActivity: vi.fn((lead, input) =>
+		Promise.resolve({ id: "activity-1", leadId: lead.id, ...input }),
+	),
+}));
+
+vi.mock("./contacts", () => ({
+	addContactInteraction: vi.fn((contact, input) =>
+		Promise.resolve({ id: "interaction-1", contactId: contact.id, ...input }),
+	),
+}));
+
+vi.mock("./notifications", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./notifications")>()),
+	sendEmail: vi.fn(() => Promise.resolve({ success: true, statusCode: 200, durationMs: 1 })),
+}));
+
+import { db } from "../db";
+import { addContactInteraction } from "./contacts";
+import {
+	EmailSendError,
+	renderComposedEmail,
+	sendContactEmail,
+	sendLeadEmail,
+	validateComposerTemplates,
+} from "./email-composer";
+import { addLeadActivity } from "./leads";
+import { sendEmail } from "./notifications";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const SENDER = "Octatech <hello@octatech.xyz>";
+
+const input = {
+	subject: "Following up, {{firstName}}",
+	body: "Hi {{firstName}},\n\nHow are things{{#company}} at {{company}}{{/company}}?",
+};
+
+/**
+ * Create a mock lead row.
+ */
+function createMockLead(overrides: Record<string, unknown> = {}) {
+	return {
+		id: "lead-1",
+		name: "Jane Doe",
+		email: "jane@acme.com",
+		company: "Acme Inc",
+		status: "new",
+		...overrides,
+	} as never;
+}
+
+/**
+ * Create a mock contact row.
+ */
+function createMockContact(overrides: Record<string, unknown> = {}) {
+	return {
+		id: "contact-1",
+		name: "Sam Lee",
+		email: "sam@globex.com",
+		companyId: "company-1",
+		warmth: "cold",
+		relationshipStatus: "identified",
+		...overrides,
+	} as never;
+}
+
+/**
+ * Mock select queries to return the given rows, one result per query.
+ */
+function mockSelects(...results: unknown[][]) {
+	let call = 0;
+	(db.select as Mock).mockImplementation(() => ({
+		from: () => ({ where: () => ({ limit: () => Promise.resolve(results[call++] ?? []) }) }),
+	}));
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+// ============================================================================
+// RENDERING TESTS
+// ============================================================================
+
+describe("renderComposedEmail", () => {
+	it("should fill in the recipient's variables", () => {
+		const email = renderComposedEmail(input, {
+			name: "Jane Doe",
+			email: "jane@acme.com",
+			company: "Acme Inc",
+		});
+
+		expect(email.subject).toBe("Following up, Jane");
+		expect(email.text).toBe("Hi Jane,\n\nHow are things at Acme Inc?");
+		expect(email.html).toContain("How are things at Acme Inc?</p>");
+	});
+
+	it("should leave out company sections without a company", () => {
+		const email = renderComposedEmail(input, {
+			name: "Jane",
+			email: "jane@example.com",
+			company: null,
+		});
+
+		expect(email.text).toBe("Hi Jane,\n\nHow are things?");
+	});
+});
+
+describe("validateComposerTemplates", () => {
+	it("should accept the composer's fields", () => {
+		expect(validateComposerTemplates(input)).toBeNull();
+	});
+
+	it("should report errors by part", () => {
+		const errors = validateComposerTemplates({ subject: "Hi", body: "{{lead.name}}" });
+
+		expect(Object.keys(errors ?? {})).toEqual(["body"]);
+	});
+});
+
+// ============================================================================
+// SENDING TESTS
+// ============================================================================
+
+describe("sendLeadEmail", () => {
+	it("should send from the configured sender and log an email activity", async () => {
+		mockSelects([{ key: "email_from", value: SENDER }]);
+
+		const activity = await sendLeadEmail(createMockLead(), input);
+
+		expect(sendEmail).toHaveBeenCalledWith(
+			expect.objectContaining({
+				from: SENDER,
+				to: ["jane@acme.com"],
+				subject: "Following up, Jane",
+			}),
+		);
+		expect(addLeadActivity).toHaveBeenCalledWith(createMockLead(), {
+			type: "email",
+			description: 'Email sent: "Following up, Jane"',
+			body: "Hi Jane,\n\nHow are things at Acme Inc?",
+		});
+		expect(activity.id).toBe("activity-1");
+	});
+
+	it("should fail without a sender", async () => {
+		mockSelects([]);
+
+		await expect(sendLeadEmail(createMockLead(), input)).rejects.toThrow(EmailSendError);
+		expect(sendEmail).not.toHaveBeenCalled();
+	});
+
+	it("should not log anything when sending fails", async () => {
+		mockSelects([{ key: "email_from", value: SENDER }]);
+		(sendEmail as Mock).mockResolvedValueOnce({
+			success: false,
+			error: "Resend API error: domain not verified",
+			durationMs: 1,
+		});
+
+		await expect(sendLeadEmail(createMockLead(), input)).rejects.toThrow(
+			"Failed to send email: Resend API error: domain not verified",
+		);
+		expect(addLeadActivity).not.toHaveBeenCalled();
+	});
+});
+
+describe("sendContactEmail", () => {
+	it("should use the contact's company and log an outbound email_sent interaction", async () => {
+		mockSelects([{ name: "Globex" }], [{ key: "email_from", value: SENDER }]);
+
+		await sendContactEmail(createMockContact(), input);
+
+		expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: ["sam@globex.com"] }));
+		expect(addContactInteraction).toHaveBeenCalledWith(createMockContact(), {
+			type: "email_sent",
+			direction: "outbound",
+			description: 'Email sent: "Following up, Sam"',
+			body: "Hi Sam,\n\nHow are things at Globex?",
+		});
+	});
+});
@@ -0,0 +1,240 @@
+/**
+ * Outbound email composer for leads and contacts.
+ *
+ * Sends a plain text email written in the admin UI through Resend (see
+ * lib/notifications/email.ts) and logs it on the recipient's timeline:
+ * - Leads get an "email" activity (via lib/leads.ts)
+ * - Contacts get an outbound "email_sent" interaction (via lib/contacts.ts)
+ *
+ * The sent subject and body are kept with the log entry. Subjects and
+ * bodies, including saved email snippets, may use {{name}}, {{firstName}},
+ * {{email}} and {{company}} (and {{#company}}...{{/company}} sections).
+ *
+ * Emails are sent from the address in the email_from setting.
+ */
+
+import { eq } from "drizzle-orm";
+import {
+	type Contact,
+	type ContactInteraction,
+	companies,
+	db,
+	type Lead,
+	type LeadActivity,
+	settings,
+} from "../db/index.js";
+import { addContactInteraction } from "./contacts.js";
+import { addLeadActivity } from "./leads.js";
+import {
+	formatTextEmailHtml,
+	renderNotificationTemplate,
+	sendEmail,
+	validateNotificationTemplate,
+} from "./notifications/index.js";
+import type { SendEmailInput } from "./validation.js";
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+/**
+ * Settings key holding the sender for composed emails.
+ */
+export const EMAIL_FROM_SETTING = "email_from";
+
+/**
+ * Fields composed emails and snippets may reference.
+ */
+export const EMAIL_COMPOSER_FIELDS = ["name", "firstName", "email", "company"] as const;
+
+/**
+ * Who a composed email goes to.
+ */
+export interface EmailRecipient {
+	name: string;
+	email: string;
+	company: string | null;
+}
+
+/**
+ * Rendered email, as sent.
+ */
+export interface ComposedEmail {
+	subject: string;
+	text: string;
+	html: string;
+}
+
+/**
+ * Error thrown when a composed email can't be sent (no sender configured,
+ * or Resend rejected it).
+ */
+export class EmailSendError extends Error {
+	public readonly code = "EMAIL_SERVICE_ERROR";
+
+	constructor(message = "Email service temporarily unavailable") {
+		super(message);
+		this.name = "EmailSendError";
+	}
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Check a subject and body against the composer's fields.
+ *
+ * @param input - Subject and body templates
+ * @returns Errors keyed by "subject"/"body", or null if both are valid
+ */
+export function validateComposerTemplates(input: {
+	subject?: string | null;
+	body?: string | null;
+}): Record<string, string> | null {
+	const errors: Record<string, string> = {};
+	for (const [part, template] of Object.entries(input)) {
+		const error = template ? validateNotificationTemplate(template, EMAIL_COMPOSER_FIELDS) : null;
+		if (error) {
+			errors[part] = error;
+		}
+	}
+
+	return Object.keys(errors).length > 0 ? errors : null;
+}
+
+/**
+ * Render a composed email for its recipient.
+ *
+ * @param input - Subject and plain text body templates
+ * @param recipient - The lead or contact the email goes to
+ * @returns Subject, plain text and HTML body
+ * @throws NotificationTemplateError if a template is invalid
+ *
+ * @example
+ * ```ts
+ * renderComposedEmail(
+ *   { subject: "Following up, {{firstName}}", body: "Hi {{firstName}}, ..." },
+ *   { name: "Jane Doe", email: "jane@acme.com", company: "Acme" },
+ * );
+ * ```
+ */
+export function renderComposedEmail(
+	input: SendEmailInput,
+	recipient: EmailRecipient,
+): ComposedEmail {
+	const context = {
+		name: recipient.name,
+		firstName: recipient.name.trim().split(/\s+/)[0] ?? "",
+		email: recipient.email,
+		company: recipient.company,
+	};
+
+	const subject = renderNotificationTemplate(input.subject, context).replace(/\s+/g, " ").trim();
+	const text = renderNotificationTemplate(input.body, context).trim();
+
+	return { subject, text, html: formatTextEmailHtml(text) };
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Get the sender for composed emails from the email_from setting.
+ *
+ * @returns e.g. "Octatech <hello@octatech.xyz>", or null if not set
+ */
+export async function getEmailSender(): Promise<string | null> {
+	const [setting] = await db
+		.select()
+		.from(settings)
+		.where(eq(settings.key, EMAIL_FROM_SETTING))
+		.limit(1);
+
+	return typeof setting?.value === "string" && setting.value ? setting.value : null;
+}
+
+/**
+ * Render and send a composed email.
+ *
+ * @throws EmailSendError if no sender is configured or sending fails
+ */
+async function deliver(input: SendEmailInput, recipient: EmailRecipient): Promise<ComposedEmail> {
+	const from = await getEmailSender();
+	if (!from) {
+		throw new EmailSendError("No sender configured. Set the outbound email sender in Settings.");
+	}
+
+	const email = renderComposedEmail(input, recipient);
+	const result = await sendEmail({
+		from,
+		to: [recipient.email],
+		subject: email.subject,
+		html: email.html,
+		text: email.text,
+	});
+
+	if (!result.success) {
+		throw new EmailSendError(`Failed to send email: ${result.error}`);
+	}
+
+	return email;
+}
+
+/**
+ * Email a lead and log it as an "email" activity with the sent body.
+ *
+ * @param lead - The lead to email
+ * @param input - Validated subject and body templates
+ * @returns The logged activity
+ * @throws EmailSendError if the email couldn't be sent (nothing is logged)
+ */
+export async function sendLeadEmail(lead: Lead, input: SendEmailInput): Promise<LeadActivity> {
+	const email = await deliver(input, {
+		name: lead.name,
+		email: lead.email,
+		company: lead.company,
+	});
+
+	return addLeadActivity(lead, {
+		type: "email",
+		description: `Email sent: "${email.subject}"`,
+		body: email.text,
+	});
+}
+
+/**
+ * Email a contact and log it as an outbound "email_sent" interaction with
+ * the sent body.
+ *
+ * @param contact - The contact to email (must have an email address)
+ * @param input - Validated subject and body templates
+ * @returns The logged interaction
+ * @throws EmailSendError if the email couldn't be sent (nothing is logged)
+ */
+export async function sendContactEmail(
+	contact: Contact & { email: string },
+	input: SendEmailInput,
+): Promise<ContactInteraction> {
+	const [company] = contact.companyId
+		? await db
+				.select({ name: companies.name })
+				.from(companies)
+				.where(eq(companies.id, contact.companyId))
+				.limit(1)
+		: [];
+
+	const email = await deliver(input, {
+		name: contact.name,
+		email: contact.email,
+		company: company?.name ?? null,
+	});
+
+	return addContactInteraction(contact, {
+		type: "email_sent",
+		direction: "outbound",
+		description: `Email sent: "${email.subject}"`,
+		body: email.text,
+	});
+}
@@ -0,0 +1,412 @@
+/**
+ * Tests for inbound email ingestion.
+ *
+ * Verifies reading Postmark, Resend and raw .eml emails, and recording them
+ * on matching leads and contacts or as new leads.
+ */
+
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("../db", () => ({
+	db: {
+		select: vi.fn(),
+		insert: vi.fn(),
+	},
+	settings: { key: "key" },
+	leads: { email: "email", createdAt: "created_at" },
+	contacts: { email: "email" },
+	leadActivities: { leadId: "lead_id" },
+}));
+
+vi.mock("./ai", () => {
+	class AIServiceError extends Error {
+		code = "AI_SERVICE_ERROR";
+	}
+	class ParseFailedError extends Error {
+		code = "PARSE_FAILED";
+	}
+	return { AIServiceError, ParseFailedError, parseLeadText: vi.fn() };
+});
+
+vi.mock("./leads", () => ({
+	addLeadActivity: vi.fn(() => Promise.resolve({ id: "activity-1" })),
+}));
+
+vi.mock("./lead-score", () => ({
+	withLeadScore: vi.fn((values) => Promise.resolve({ ...values, score: 0 })),
+}));
+
+vi.mock("./contacts", () => ({
+	addContactInteraction: vi.fn(() => Promise.resolve({ id: "interaction-1" })),
+}));
+
+vi.mock("./auto-responder", () => ({
+	sendLeadAutoResponse: vi.fn(() => Promise.resolve(true)),
+}));
+
+vi.mock("./notifications/dispatcher", () => ({
+	triggerLeadCreatedNotification: vi.fn(),
+}));
+
+vi.mock("./webhooks", () => ({
+	triggerLeadCreated: vi.fn(() => Promise.resolve()),
+}));
+
+import { db } from "../db";
+import { AIServiceError, parseLeadText } from "./ai";
+import { sendLeadAutoResponse } from "./auto-responder";
+import { addContactInteraction } from "./contacts";
+import {
+	type InboundEmail,
+	InboundEmailParseError,
+	ingestInboundEmail,
+	parseAddress,
+	parseInboundPayload,
+	parseRawEmail,
+	verifyInboundEmailSecret,
+} from "./inbound-email";
+import { addLeadActivity } from "./leads";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const LEAD = { id: "lead-1", name: "Jane Doe", email: "jane@acme.com" };
+const CONTACT = { id: "contact-1", name: "Jane Doe", email: "Jane@Acme.com" };
+
+const email: InboundEmail = {
+	from: { email: "jane@acme.com", name: "Jane Doe" },
+	subject: "Re: Proposal",
+	text: "Looks good, let's talk Tuesday.",
+	attachments: ["signed.pdf"],
+	automated: false,
+};
+
+/**
+ * Mock lead/contact lookups: each call returns the next set of rows.
+ */
+function mockLookups(...results: unknown[][]) {
+	let call = 0;
+	const next = () => Promise.resolve(results[call++] ?? []);
+	(db.select as Mock).mockImplementation(() => ({
+		from: () => ({
+			where: () => ({
+				orderBy: () => ({ limit: next }),
+				limit: next,
+			}),
+		}),
+	}));
+}
+
+/**
+ * Mock lead and activity inserts, returning the values mock.
+ */
+function mockInserts() {
+	const values = vi.fn((row: Record<string, unknown>) => ({
+		returning: () => Promise.resolve([{ id: "new-lead", ...row }]),
+	}));
+	(db.insert as Mock).mockReturnValue({ values });
+	return values;
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+// ============================================================================
+// PARSING TESTS
+// ============================================================================
+
+describe("parseInboundPayload", () => {
+	it("should read a Postmark inbound webhook", () => {
+		const parsed = parseInboundPayload({
+			From: "jane@acme.com",
+			FromFull: { Email: "Jane@Acme.com", Name: "Jane Doe" },
+			Subject: "Re:  Proposal",
+			TextBody: "Looks good.\r\n",
+			HtmlBody: "<p>Looks good.</p>",
+			Attachments: [{ Name: "signed.pdf", ContentType: "application/pdf" }],
+		});
+
+		expect(parsed).toEqual({
+			from: { email: "jane@acme.com", name: "Jane Doe" },
+			subject: "Re: Proposal",
+			text: "Looks good.",
+			attachments: ["signed.pdf"],
+			automated: false,
+		});
+	});
+
+	it("should flag automated mail from the Postmark headers", () => {
+		const payload = { From: "jane@acme.com", Subject: "Out of office", TextBody: "Away" };
+
+		expect(
+			parseInboundPayload({
+				...payload,
+				Headers: [{ Name: "Auto-Submitted", Value: "auto-replied" }],
+			}).automated,
+		).toBe(true);
+		expect(
+			parseInboundPayload({ ...payload, Headers: [{ Name: "Precedence", Value: "bulk" }] })
+				.automated,
+		).toBe(true);
+		expect(
+			parseInboundPayload({ ...payload, Headers: [{ Name: "Auto-Submitted", Value: "no" }] })
+				.automated,
+		).toBe(false);
+	});
+
+	it("should read a Resend email.received event, falling back to the HTML body", () => {
+		const parsed = parseInboundPayload({
+			type: "email.received",
+			data: {
+				from: '"Doe, Jane" <jane@acme.com>',
+				subject: "Hello",
+				html: "<p>Hi there &amp; hello</p><p>Jane</p>",
+				attachments: [{ filename: "brief.docx" }],
+			},
+		});
+
+		expect(parsed.from).toEqual({ email: "jane@acme.com", name: "Doe, Jane" });
+		expect(parsed.text).toBe("Hi there & hello\nJane");
+		expect(parsed.attachments).toEqual(["brief.docx"]);
+	});
+
+	it("should reject payloads without a valid sender", () => {
+		expect(() => parseInboundPayload({ subject: "Hi" })).toThrow(InboundEmailParseError);
+		expect(() => parseInboundPayload({ from: "not an address" })).toThrow(
+			"Sender address is missing or invalid",
+		);
+	});
+});
+
+describe("parseRawEmail", () => {
+	it("should read a multipart message with encoded parts and attachments", () => {
+		const eml = [
+			"From: =?UTF-8?B?SsO8cmdlbiBNw7xsbGVy?= <jurgen@example.de>",
+			"Subject: =?UTF-8?Q?Angebot_f=C3=BCr?=",
+			" =?UTF-8?Q?_Cloud?=",
+			"MIME-Version: 1.0",
+			'Content-Type: multipart/mixed; boundary="outer"',
+			"",
+			"This is a multi-part message.",
+			"--outer",
+			'Content-Type: multipart/alternative; boundary="inner"',
+			"",
+			"--inner",
+			"Content-Type: text/plain; charset=utf-8",
+			"Content-Transfer-Encoding: quoted-printable",
+			"",
+			"Wir brauchen Hilfe bei der Migration =E2=80=93 k=C3=B6nnen Sie hel=",
+			"fen?",
+			"--inner",
+			"Content-Type: text/html; charset=utf-8",
+			"",
+			"<p>ignored</p>",
+			"--inner--",
+			"--outer",
+			"Content-Type: application/pdf; name=old.pdf",
+			"Content-Disposition: attachment; filename*=utf-8''Anforderungen%20v2.pdf",
+			"Content-Transfer-Encoding: base64",
+			"",
+			"JVBERi0xLjQK",
+			"--outer--",
+		].join("\r\n");
+
+		const parsed = parseRawEmail(eml);
+
+		expect(parsed.from).toEqual({ email: "jurgen@example.de", name: "Jürgen Müller" });
+		expect(parsed.subject).toBe("Angebot für Cloud");
+		expect(parsed.text).toBe("Wir brauchen Hilfe bei der Migration – können Sie helfen?");
+		expect(parsed.attachments).toEqual(["Anforderungen v2.pdf"]);
+	});
+
+	it("should decode a single-part base64 body", () => {
+		const eml = [
+			"From: jane@acme.com",
+			"Subject: Hi",
+			"Content-Type: text/plain; charset=utf-8",
+			"Content-Transfer-Encoding: base64",
+			"",
+			Buffer.from("Hello from Jane").toString("base64"),
+		].join("\n");
+
+		expect(parseRawEmail(eml).text).toBe("Hello from Jane");
+	});
+
+	it("should flag auto-submitted, list and no-reply mail", () => {
+		const message = (...headers: string[]) => [...headers, "Subject: Hi", "", "Body"].join("\n");
+
+		expect(parseRawEmail(message("From: jane@acme.com")).automated).toBe(false);
+		expect(
+			parseRawEmail(message("From: jane@acme.com", "Auto-Submitted: auto-generated")).automated,
+		).toBe(true);
+		expect(parseRawEmail(message("From: news@acme.com", "Precedence: list")).automated).toBe(true);
+		expect(parseRawEmail(message("From: jane@acme.com", "Precedence: first-class")).automated).toBe(
+			false,
+		);
+		expect(parseRawEmail(message("From: MAILER-DAEMON@mx.acme.com")).automated).toBe(true);
+		expect(parseRawEmail(message("From: Acme <no-reply@acme.com>")).automated).toBe(true);
+		expect(parseRawEmail(message("From: noreply+billing@acme.com")).automated).toBe(true);
+		expect(parseRawEmail(message("From: replies@acme.com")).automated).toBe(false);
+	});
+
+	it("should reject messages without a From header", () => {
+		expect(() => parseRawEmail("Subject: Hi\n\nBody")).toThrow("Email has no From header");
+	});
+});
+
+describe("parseAddress", () => {
+	it("should split name and address", () => {
+		expect(parseAddress("Jane Doe <Jane@Acme.com>")).toEqual({
+			email: "jane@acme.com",
+			name: "Jane Doe",
+		});
+		expect(parseAddress("jane@acme.com")).toEqual({ email: "jane@acme.com", name: null });
+		expect(parseAddress("Jane Doe")).toBeNull();
+	});
+});
+
+describe("verifyInboundEmailSecret", () => {
+	it("should only accept the configured secret", () => {
+		expect(verifyInboundEmailSecret("0123456789abcdef", "0123456789abcdef")).toBe(true);
+		expect(verifyInboundEmailSecret("0123456789abcdef", "wrong")).toBe(false);
+		expect(verifyInboundEmailSecret("0123456789abcdef", undefined)).toBe(false);
+	});
+});
+
+// ============================================================================
+// INGESTION TESTS
+// ============================================================================
+
+describe("ingestInboundEmail", () => {
+	it("should log the email on a matching lead and contact", async () => {
+		mockLookups([LEAD], [CONTACT]);
+
+		const result = await ingestInboundEmail(email);
+
+		expect(result).toEqual({ leadIds: ["lead-1"], contactIds: ["contact-1"], createdLeadId: null });
+		expect(addLeadActivity).toHaveBeenCalledWith(LEAD, {
+			type: "email_received",
+			description: 'Email received: "Re: Proposal" (attachments: signed.pdf)',
+			body: "Looks good, let's talk Tuesday.",
+		});
+		expect(addContactInteraction).toHaveBeenCalledWith(CONTACT, {
+			type: "email_received",
+			direction: "inbound",
+			description: 'Email received: "Re: Proposal" (attachments: signed.pdf)',
+			body: "Looks good, let's talk Tuesday.",
+		});
+		expect(parseLeadText).not.toHaveBeenCalled();
+	});
+
+	it("should log a forwarded email on the prospect found by AI parsing", async () => {
+		mockLookups([], [], [], [CONTACT]);
+		(parseLeadText as Mock).mockResolvedValue({
+			parsed: { name: "Jane Doe", email: "jane@acme.com" },
+			confidence: 0.9,
+			extractedFields: ["name", "email"],
+		});
+
+		const result = await ingestInboundEmail({
+			...email,
+			from: { email: "sales@octatech.xyz", name: "Octatech Sales" },
+		});
+
+		expect(result.contactIds).toEqual(["contact-1"]);
+		expect(result.createdLeadId).toBeNull();
+		expect(parseLeadText).toHaveBeenCalledWith(
+			expect.stringContaining("From: Octatech Sales <sales@octatech.xyz>"),
+		);
+	});
+
+	it("should create a lead from the parsed email for an unknown sender", async () => {
+		mockLookups([], [], [], []);
+		const values = mockInserts();
+		(parseLeadText as Mock).mockResolvedValue({
+			parsed: {
+				name: "Sam Lee",
+				email: "sam@globex.com",
+				company: "Globex",
+				phone: null,
+				budget: null,
+				projectType: null,
+				message: "Needs a new mobile app",
+				source: null,
+			},
+			confidence: 0.8,
+			extractedFields: ["name", "email", "company", "message"],
+		});
+
+		const result = await ingestInboundEmail({
+			...email,
+			from: { email: "fwd@octatech.xyz", name: null },
+		});
+
+		expect(result.createdLeadId).toBe("new-lead");
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({
+				name: "Sam Lee",
+				email: "sam@globex.com",
+				company: "Globex",
+				message: "Needs a new mobile app",
+				source: "Email",
+				aiParsed: true,
+			}),
+		);
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({
+				leadId: "new-lead",
+				type: "email_received",
+				body: "Looks good, let's talk Tuesday.",
+			}),
+		);
+		expect(sendLeadAutoResponse).toHaveBeenCalled();
+	});
+
+	it("should create a lead from the sender when AI parsing is unavailable", async () => {
+		mockLookups([], []);
+		const values = mockInserts();
+		(parseLeadText as Mock).mockRejectedValue(new AIServiceError("OpenAI API key not configured"));
+		const consoleSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		await ingestInboundEmail({ ...email, from: { email: "new@startup.io", name: "New Person" } });
+
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({
+				name: "New Person",
+				email: "new@startup.io",
+				message: "Looks good, let's talk Tuesday.",
+				aiParsed: false,
+			}),
+		);
+		consoleSpy.mockRestore();
+	});
+
+	it("should not create a lead or auto-respond for automated mail from unknown senders", async () => {
+		mockLookups([], []);
+		const values = mockInserts();
+		const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+		const result = await ingestInboundEmail({
+			...email,
+			from: { email: "mailer-daemon@mx.startup.io", name: null },
+			automated: true,
+		});
+
+		expect(result).toEqual({ leadIds: [], contactIds: [], createdLeadId: null });
+		expect(parseLeadText).not.toHaveBeenCalled();
+		expect(values).not.toHaveBeenCalled();
+		expect(sendLeadAutoResponse).not.toHaveBeenCalled();
+		consoleSpy.mockRestore();
+	});
+
+	it("should still log automated mail from a known lead", async () => {
+		mockLookups([LEAD], []);
+
+		const result = await ingestInboundEmail({ ...email, automated: true });
+
+		expect(result.leadIds).toEqual(["lead-1"]);
+		expect(addLeadActivity).toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,705 @@
+/**
+ * Inbound email ingestion.
+ *
+ * Turns an email forwarded to the CRM (see routes/api/email-webhook.ts) into
+ * timeline entries:
+ * - A sender matching leads.email gets an "email_received" lead activity
+ * - A sender matching contacts.email gets an inbound "email_received" contact
+ *   interaction (both are logged when the sender is a lead and a contact)
+ * - Unknown senders are run through parseLeadText, so a prospect's email
+ *   forwarded by a teammate lands on the prospect, and a new lead is created
+ *   when nobody matches
+ * - Automated mail (auto-replies, bounces, mailing lists) from unknown
+ *   senders is ignored, so it creates no lead and gets no auto-response
+ *
+ * Emails arrive as a Resend or Postmark inbound webhook (JSON) or as a raw
+ * .eml message. Attachments are not stored, but their names are recorded in
+ * the entry's description.
+ */
+
+import { desc, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+import {
+	type Contact,
+	contacts,
+	db,
+	type Lead,
+	leadActivities,
+	leads,
+	settings,
+} from "../db/index.js";
+import {
+	AIServiceError,
+	type ParsedLeadData,
+	ParseFailedError,
+	parseLeadText,
+} from "./ai/index.js";
+import { sendLeadAutoResponse } from "./auto-responder.js";
+import { addContactInteraction } from "./contacts.js";
+import { withLeadScore } from "./lead-score.js";
+import { addLeadActivity } from "./leads.js";
+import { triggerLeadCreatedNotification } from "./notifications/dispatcher.js";
+import { safeCompareSecret } from "./secrets.js";
+import { triggerLeadCreated } from "./webhooks.js";
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+/**
+ * Settings key holding the secret inbound email webhooks must present.
+ */
+export const INBOUND_EMAIL_SECRET_SETTING = "inbound_email_secret";
+
+/**
+ * Header carrying the inbound email secret. Providers that only let you
+ * configure a URL can pass it as the ?token= query parameter instead.
+ */
+export const INBOUND_EMAIL_SECRET_HEADER = "X-Inbound-Email-Secret";
+
+/**
+ * Source given to leads created from inbound emails.
+ */
+export const INBOUND_EMAIL_SOURCE = "Email";
+
+/**
+ * An inbound email, normalized from any of the accepted formats.
+ */
+export interface InboundEmail {
+	from: { email: string; name: string | null };
+	subject: string;
+	/** Plain text body (derived from the HTML body when there is none) */
+	text: string;
+	/** Attachment file names */
+	attachments: string[];
+	/** Sent by an auto-responder, mailing list or mail system rather than a person */
+	automated: boolean;
+}
+
+/**
+ * Where an inbound email was recorded.
+ */
+export interface InboundEmailResult {
+	/** Leads the email was logged on */
+	leadIds: string[];
+	/** Contacts the email was logged on */
+	contactIds: string[];
+	/** The lead created for an unknown sender */
+	createdLeadId: string | null;
+}
+
+/**
+ * Error thrown when an inbound email can't be read.
+ */
+export class InboundEmailParseError extends Error {
+	public readonly code = "INVALID_EMAIL";
+
+	constructor(message: string) {
+		super(message);
+		this.name = "InboundEmailParseError";
+	}
+}
+
+// ============================================================================
+// WEBHOOK PAYLOADS
+// ============================================================================
+
+/**
+ * Postmark inbound webhook payload (fields we use).
+ */
+const postmarkInboundSchema = z.object({
+	From: z.string(),
+	FromFull: z.object({ Email: z.string(), Name: z.string().optional() }).optional(),
+	Subject: z.string().optional(),
+	TextBody: z.string().optional(),
+	HtmlBody: z.string().optional(),
+	Headers: z.array(z.object({ Name: z.string(), Value: z.string() })).optional(),
+	Attachments: z.array(z.object({ Name: z.string() })).optional(),
+});
+
+/**
+ * Resend inbound email (the "data" of an email.received event, or sent
+ * as-is by simpler forwarders).
+ */
+const resendInboundSchema = z.object({
+	from: z.string(),
+	subject: z.string().nullable().optional(),
+	text: z.string().nullable().optional(),
+	html: z.string().nullable().optional(),
+	headers: z.record(z.string()).nullable().optional(),
+	attachments: z.array(z.object({ filename: z.string() })).optional(),
+});
+
+/**
+ * Normalize a Postmark or Resend inbound webhook body.
+ *
+ * @param body - The parsed JSON body
+ * @returns The email
+ * @throws InboundEmailParseError if the body isn't a supported payload
+ */
+export function parseInboundPayload(body: unknown): InboundEmail {
+	const record = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+
+	if ("From" in record) {
+		const result = postmarkInboundSchema.safeParse(record);
+		if (!result.success) {
+			throw new InboundEmailParseError("Invalid Postmark inbound payload");
+		}
+		const email = result.data;
+		return buildInboundEmail({
+			from: email.FromFull ? formatAddress(email.FromFull.Email, email.FromFull.Name) : email.From,
+			subject: email.Subject,
+			text: email.TextBody,
+			html: email.HtmlBody,
+			headers: email.Headers?.map((header) => [header.Name, header.Value]),
+			attachments: email.Attachments?.map((attachment) => attachment.Name),
+		});
+	}
+
+	const data = typeof record.data === "object" && record.data !== null ? record.data : record;
+	const result = resendInboundSchema.safeParse(data);
+	if (!result.success) {
+		throw new InboundEmailParseError("Unsupported inbound email payload");
+	}
+	const email = result.data;
+	return buildInboundEmail({
+		from: email.from,
+		subject: email.subject,
+		text: email.text,
+		html: email.html,
+		headers: Object.entries(email.headers ?? {}),
+		attachments: email.attachments?.map((attachment) => attachment.filename),
+	});
+}
+
+// ============================================================================
+// RAW MESSAGES (.eml)
+// ============================================================================
+
+/**
+ * A MIME entity: lowercased headers and an undecoded body.
+ */
+interface MimePart {
+	headers: Map<string, string>;
+	body: string;
+}
+
+/**
+ * Text and attachment names collected from a MIME tree.
+ */
+interface MimeContent {
+	text: string | null;
+	html: string | null;
+	attachments: string[];
+}
+
+/**
+ * Parse a raw RFC 822 message, e.g. an .eml file.
+ *
+ * Handles multipart messages, base64 and quoted-printable bodies and
+ * RFC 2047 encoded headers. Attachments are skipped, keeping their names.
+ *
+ * @param raw - The message source
+ * @returns The email
+ * @throws InboundEmailParseError if the message has no sender
+ */
+export function parseRawEmail(raw: string): InboundEmail {
+	const message = splitPart(raw.replace(/\r\n/g, "\n"));
+	const from = message.headers.get("from");
+	if (!from) {
+		throw new InboundEmailParseError("Email has no From header");
+	}
+
+	const content: MimeContent = { text: null, html: null, attachments: [] };
+	collectContent(message, content);
+
+	return buildInboundEmail({
+		from: decodeHeader(from),
+		subject: decodeHeader(message.headers.get("subject") ?? ""),
+		text: content.text,
+		html: content.html,
+		headers: [...message.headers],
+		attachments: content.attachments,
+	});
+}
+
+/**
+ * Split a MIME entity into unfolded headers and body.
+ */
+function splitPart(source: string): MimePart {
+	// A part without headers starts with the blank line
+	const separator = source.startsWith("\n") ? 0 : source.indexOf("\n\n");
+	const head = separator === -1 ? source : source.slice(0, separator);
+	const body = separator === -1 ? "" : source.slice(separator === 0 ? 1 : separator + 2);
+
+	const headers = new Map<string, string>();
+	for (const line of head.replace(/\n[ \t]+/g, " ").split("\n")) {
+		const colon = line.indexOf(":");
+		if (colon > 0) {
+			const name = line.slice(0, colon).trim().toLowerCase();
+			if (!headers.has(name)) {
+				headers.set(name, line.slice(colon + 1).trim());
+			}
+		}
+	}
+
+	return { headers, body };
+}
+
+/**
+ * Walk a MIME tree, keeping the first text/plain and text/html bodies and
+ * the names of attachments.
+ */
+function collectContent(part: MimePart, content: MimeContent): void {
+	const contentType = parseHeaderParams(part.headers.get("content-type") ?? "text/plain");
+	const disposition = parseHeaderParams(part.headers.get("content-disposition") ?? "");
+	const filename = disposition.params.filename ?? contentType.params.name;
+
+	if (contentType.value.startsWith("multipart/") && contentType.params.boundary) {
+		for (const child of splitMultipart(part.body, contentType.params.boundary)) {
+			collectContent(splitPart(child), content);
+		}
+		return;
+	}
+
+	if (filename || disposition.value === "attachment" || contentType.value === "message/rfc822") {
+		content.attachments.push(filename ? decodeHeader(filename) : "attachment");
+		return;
+	}
+
+	if (contentType.value === "text/plain" && content.text === null) {
+		content.text = decodeBody(part, contentType.params.charset);
+	} else if (contentType.value === "text/html" && content.html === null) {
+		content.html = decodeBody(part, contentType.params.charset);
+	}
+}
+
+/**
+ * Split a multipart body into its parts, dropping the preamble and epilogue.
+ */
+function splitMultipart(body: string, boundary: string): string[] {
+	const parts: string[] = [];
+	let current: string[] | null = null;
+
+	for (const line of body.split("\n")) {
+		const trimmed = line.trimEnd();
+		if (trimmed === `--${boundary}--`) {
+			break;
+		}
+		if (trimmed === `--${boundary}`) {
+			if (current) parts.push(current.join("\n"));
+			current = [];
+		} else if (current) {
+			current.push(line);
+		}
+	}
+
+	if (current) parts.push(current.join("\n"));
+	return parts;
+}
+
+/**
+ * Parse a structured header like Content-Type into its value and
+ * parameters (including RFC 2231 "name*=charset''value" parameters).
+ */
+function parseHeaderParams(header: string): { value: string; params: Record<string, string> } {
+	const [value = "", ...rest] = header.split(";");
+	const params: Record<string, string> = {};
+
+	for (const match of rest.join(";").matchAll(/([\w*-]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g)) {
+		let name = match[1].toLowerCase();
+		let paramValue = match[2].trim().replace(/^"(.*)"$/, "$1");
+		if (name.endsWith("*")) {
+			name = name.slice(0, -1);
+			paramValue = decodeURIComponentSafe(paramValue.replace(/^[^']*'[^']*'/, ""));
+		}
+		params[name] = paramValue;
+	}
+
+	return { value: value.trim().toLowerCase(), params };
+}
+
+/**
+ * Decode a part's body per its Content-Transfer-Encoding and charset.
+ */
+function decodeBody(part: MimePart, charset = "utf-8"): string {
+	const encoding = part.headers.get("content-transfer-encoding")?.toLowerCase();
+
+	if (encoding === "base64") {
+		return decodeBytes(Buffer.from(part.body.replace(/\s+/g, ""), "base64"), charset);
+	}
+	if (encoding === "quoted-printable") {
+		return decodeBytes(decodeQuotedPrintable(part.body.replace(/=\n/g, "")), charset);
+	}
+	return part.body;
+}
+
+/**
+ * Decode quoted-printable text (=XX escapes) into bytes.
+ */
+function decodeQuotedPrintable(text: string): Buffer {
+	const bytes: number[] = [];
+	for (let i = 0; i < text.length; i++) {
+		const hex = text.slice(i + 1, i + 3);
+		if (text[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+			bytes.push(Number.parseInt(hex, 16));
+			i += 2;
+		} else {
+			bytes.push(...Buffer.from(text[i]));
+		}
+	}
+	return Buffer.from(bytes);
+}
+
+/**
+ * Decode bytes in a charset, falling back to UTF-8 for unknown charsets.
+ */
+function decodeBytes(bytes: Buffer, charset: string): string {
+	try {
+		return new TextDecoder(charset).decode(bytes);
+	} catch {
+		return new TextDecoder().decode(bytes);
+	}
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?charset?B|Q?text?=) in a header.
+ */
+function decodeHeader(value: string): string {
+	return value
+		.replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+		.replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text) => {
+			const bytes =
+				encoding.toUpperCase() === "B"
+					? Buffer.from(text, "base64")
+					: decodeQuotedPrintable(text.replace(/_/g, " "));
+			return decodeBytes(bytes, charset);
+		});
+}
+
+/**
+ * Percent-decode a value, keeping it as-is if it's malformed.
+ */
+function decodeURIComponentSafe(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Split an address header like "Jane Doe <jane@acme.com>" into email and
+ * display name.
+ *
+ * @param value - The header value
+ * @returns Lowercased email and display name, or null if there's no valid email
+ */
+export function parseAddress(value: string): { email: string; name: string | null } | null {
+	const angle = value.match(/<([^<>]+)>/);
+	const email = (angle ? angle[1] : value).trim().toLowerCase();
+
+	if (!z.string().email().safeParse(email).success) {
+		return null;
+	}
+
+	const name = angle
+		? value
+				.slice(0, angle.index)
+				.trim()
+				.replace(/^"(.*)"$/, "$1")
+				.trim()
+		: "";
+
+	return { email, name: name || null };
+}
+
+/**
+ * Format an email and optional display name as an address header.
+ */
+function formatAddress(email: string, name?: string): string {
+	return name ? `${name} <${email}>` : email;
+}
+
+/**
+ * Convert an HTML body to readable plain text.
+ */
+function htmlToText(html: string): string {
+	return html
+		.replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+		.replace(/<[^>]+>/g, "")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, "&")
+		.replace(/[ \t]+\n/g, "\n")
+		.replace(/\n{3,}/g, "\n\n");
+}
+
+/**
+ * Build an InboundEmail from raw fields, validating the sender.
+ */
+function buildInboundEmail(fields: {
+	from: string;
+	subject?: string | null;
+	text?: string | null;
+	html?: string | null;
+	headers?: [string, string][];
+	attachments?: string[];
+}): InboundEmail {
+	const from = parseAddress(fields.from);
+	if (!from) {
+		throw new InboundEmailParseError("Sender address is missing or invalid");
+	}
+
+	const text = fields.text?.trim() ? fields.text : fields.html ? htmlToText(fields.html) : "";
+	const headers = new Map(
+		(fields.headers ?? []).map(([name, value]) => [name.toLowerCase(), value.trim()]),
+	);
+
+	return {
+		from,
+		subject: fields.subject?.replace(/\s+/g, " ").trim() ?? "",
+		text: text.replace(/\r\n/g, "\n").trim(),
+		attachments: (fields.attachments ?? []).filter(Boolean),
+		automated: isAutomatedEmail(headers, from.email),
+	};
+}
+
+/**
+ * Precedence header values used by mailing lists and bulk senders.
+ */
+const BULK_PRECEDENCE = new Set(["bulk", "list", "junk"]);
+
+/**
+ * Sender mailboxes nobody reads: no-reply addresses and mail systems.
+ */
+const AUTOMATED_SENDER_PATTERN =
+	/^(?:no[-_.]?reply|do[-_.]?not[-_.]?reply|mailer-daemon|postmaster)(?:[-_.+][^@]*)?@/i;
+
+/**
+ * Whether an email was sent by a machine (RFC 3834 Auto-Submitted, bulk
+ * Precedence, or a no-reply/bounce sender).
+ */
+function isAutomatedEmail(headers: Map<string, string>, address: string): boolean {
+	const autoSubmitted = headers.get("auto-submitted")?.split(";")[0].trim().toLowerCase();
+	if (autoSubmitted && autoSubmitted !== "no") {
+		return true;
+	}
+
+	const precedence = headers.get("precedence")?.toLowerCase();
+	if (precedence && BULK_PRECEDENCE.has(precedence)) {
+		return true;
+	}
+
+	return AUTOMATED_SENDER_PATTERN.test(address);
+}
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+/**
+ * Get the inbound email secret from settings.
+ *
+ * @returns The secret, or null if inbound email isn't set up
+ */
+export async function getInboundEmailSecret(): Promise<string | null> {
+	const [setting] = await db
+		.select()
+		.from(settings)
+		.where(eq(settings.key, INBOUND_EMAIL_SECRET_SETTING))
+		.limit(1);
+
+	return typeof setting?.value === "string" && setting.value ? setting.value : null;
+}
+
+/**
+ * Check a token presented by an inbound webhook against the secret.
+ *
+ * @param secret - The configured secret
+ * @param token - The header or query token from the request
+ * @returns true if the token matches the secret
+ */
+export function verifyInboundEmailSecret(secret: string, token: string | undefined): boolean {
+	if (!token) {
+		return false;
+	}
+
+	return safeCompareSecret(secret, token);
+}
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+/**
+ * Describe an inbound email for a timeline entry.
+ */
+function describeEmail(prefix: string, email: InboundEmail): string {
+	const subject = email.subject ? `"${email.subject}"` : "(no subject)";
+	const attachments = email.attachments.length
+		? ` (attachments: ${email.attachments.join(", ")})`
+		: "";
+	return `${prefix}: ${subject}${attachments}`;
+}
+
+/**
+ * Find the newest lead and the contact with an email address.
+ */
+async function findByEmail(address: string): Promise<{ lead?: Lead; contact?: Contact }> {
+	const [lead] = await db
+		.select()
+		.from(leads)
+		.where(sql`lower(${leads.email}) = ${address}`)
+		.orderBy(desc(leads.createdAt))
+		.limit(1);
+
+	const [contact] = await db
+		.select()
+		.from(contacts)
+		.where(sql`lower(${contacts.email}) = ${address}`)
+		.limit(1);
+
+	return { lead, contact };
+}
+
+/**
+ * Run an unknown sender's email through AI parsing.
+ *
+ * @returns The parsed lead, or null when AI parsing is unavailable or fails
+ */
+async function parseSender(email: InboundEmail): Promise<ParsedLeadData | null> {
+	const from = formatAddress(email.from.email, email.from.name ?? undefined);
+	try {
+		const result = await parseLeadText(`From: ${from}\nSubject: ${email.subject}\n\n${email.text}`);
+		return result.parsed;
+	} catch (error) {
+		if (error instanceof AIServiceError || error instanceof ParseFailedError) {
+			console.warn(
+				`[Inbound Email] AI parsing unavailable for ${email.from.email}: ${error.message}`,
+			);
+			return null;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Create a lead for an email nobody matched, logging the email as its first
+ * activity. Fires the same webhooks, notifications and auto-response as a
+ * contact form submission.
+ */
+async function createLeadFromEmail(
+	email: InboundEmail,
+	parsed: ParsedLeadData | null,
+): Promise<Lead> {
+	const parsedEmail = parsed?.email ? parseAddress(parsed.email) : null;
+	const address = parsedEmail?.email ?? email.from.email;
+	const name =
+		parsed?.name ||
+		(address === email.from.email ? email.from.name : null) ||
+		address.split("@")[0];
+
+	const [newLead] = await db
+		.insert(leads)
+		.values(
+			await withLeadScore({
+				name,
+				email: address,
+				company: parsed?.company ?? null,
+				phone: parsed?.phone ?? null,
+				budget: parsed?.budget ?? null,
+				projectType: parsed?.projectType ?? null,
+				message: parsed?.message || email.text || email.subject || "(empty email)",
+				source: INBOUND_EMAIL_SOURCE,
+				status: "new",
+				rawInput: email.text,
+				aiParsed: parsed !== null,
+			}),
+		)
+		.returning();
+
+	await db.insert(leadActivities).values({
+		leadId: newLead.id,
+		type: "email_received",
+		description: describeEmail(`Lead created from email from ${email.from.email}`, email),
+		body: email.text || null,
+	});
+
+	triggerLeadCreated(newLead).catch((err) => {
+		console.error("[Inbound Email] Failed to trigger lead.created webhook:", err);
+	});
+	triggerLeadCreatedNotification(newLead);
+	sendLeadAutoResponse(newLead);
+
+	return newLead;
+}
+
+/**
+ * Record an inbound email on the matching lead and/or contact, or create a
+ * lead when the sender (or the prospect in a forwarded email) is unknown.
+ * Automated emails from unknown senders are not recorded.
+ *
+ * @param email - The normalized email
+ * @returns Where the email was recorded
+ *
+ * @example
+ * ```ts
+ * const result = await ingestInboundEmail(parseRawEmail(eml));
+ * if (result.createdLeadId) console.log("New lead", result.createdLeadId);
+ * ```
+ */
+export async function ingestInboundEmail(email: InboundEmail): Promise<InboundEmailResult> {
+	let match = await findByEmail(email.from.email);
+	let parsed: ParsedLeadData | null = null;
+	const result: InboundEmailResult = { leadIds: [], contactIds: [], createdLeadId: null };
+
+	if (!match.lead && !match.contact && email.automated) {
+		// Auto-replies, bounces and newsletters from unknown senders are not leads
+		console.log(`[Inbound Email] Ignoring automated email from ${email.from.email}`);
+		return result;
+	}
+
+	if (!match.lead && !match.contact) {
+		parsed = await parseSender(email);
+		const parsedEmail = parsed?.email ? parseAddress(parsed.email) : null;
+		if (parsedEmail && parsedEmail.email !== email.from.email) {
+			match = await findByEmail(parsedEmail.email);
+		}
+	}
+
+	const description = describeEmail("Email received", email);
+	const body = email.text || null;
+
+	if (match.lead) {
+		await addLeadActivity(match.lead, { type: "email_received", description, body });
+		result.leadIds.push(match.lead.id);
+	}
+
+	if (match.contact) {
+		await addContactInteraction(match.contact, {
+			type: "email_received",
+			direction: "inbound",
+			description,
+			body,
+		});
+		result.contactIds.push(match.contact.id);
+	}
+
+	if (!match.lead && !match.contact) {
+		const newLead = await createLeadFromEmail(email, parsed);
+		result.leadIds.push(newLead.id);
+		result.createdLeadId = newLead.id;
+	}
+
+	return result;
+}
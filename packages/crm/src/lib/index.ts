@@ -4,4 +4,5 @@
 
 export * from "./api-keys.js";
 export * from "./errors.js";
+export * from "./webhook-urls.js";
 export * from "./webhooks.js";
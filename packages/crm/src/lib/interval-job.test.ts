@@ -0,0 +1,80 @@
+/**
+ * Tests for interval jobs.
+ *
+ * Verifies that a job runs on start and every interval, skips ticks while a
+ * run is in progress, logs errors without stopping, and stops cleanly.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createIntervalJob } from "./interval-job";
+
+beforeEach(() => {
+	vi.useFakeTimers();
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+describe("createIntervalJob", () => {
+	it("should run on start and then every interval", async () => {
+		const tick = vi.fn(() => Promise.resolve());
+		const job = createIntervalJob("Test job", 1000, tick);
+
+		job.start();
+		expect(tick).toHaveBeenCalledTimes(1);
+
+		await vi.advanceTimersByTimeAsync(2000);
+		expect(tick).toHaveBeenCalledTimes(3);
+
+		job.stop();
+		await vi.advanceTimersByTimeAsync(2000);
+		expect(tick).toHaveBeenCalledTimes(3);
+	});
+
+	it("should ignore a second start while running", async () => {
+		const tick = vi.fn(() => Promise.resolve());
+		const job = createIntervalJob("Test job", 1000, tick);
+
+		job.start();
+		job.start();
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect(tick).toHaveBeenCalledTimes(2);
+		job.stop();
+	});
+
+	it("should skip ticks while the previous run is still going", async () => {
+		let finish: () => void = () => {};
+		const tick = vi.fn(
+			() =>
+				new Promise<void>((resolve) => {
+					finish = resolve;
+				}),
+		);
+		const job = createIntervalJob("Test job", 1000, tick);
+
+		job.start();
+		await vi.advanceTimersByTimeAsync(3000);
+		expect(tick).toHaveBeenCalledTimes(1);
+
+		finish();
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(tick).toHaveBeenCalledTimes(2);
+		job.stop();
+	});
+
+	it("should log errors and keep running", async () => {
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+		const tick = vi.fn(() => Promise.reject(new Error("boom")));
+		const job = createIntervalJob("Test job", 1000, tick);
+
+		job.start(500);
+		await vi.advanceTimersByTimeAsync(500);
+
+		expect(tick).toHaveBeenCalledTimes(2);
+		expect(consoleSpy).toHaveBeenCalledWith("Test job error:", expect.any(Error));
+		job.stop();
+	});
+});
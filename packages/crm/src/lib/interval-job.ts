@@ -0,0 +1,81 @@
+/**
+ * Interval Jobs.
+ *
+ * Background work such as the retry outboxes, the delivery purge, reminders,
+ * digests and contact decay runs in-process on a fixed interval. This module
+ * holds the scaffolding they share: a job runs once when started and then
+ * every interval, a run that is still going makes the next tick a no-op, and
+ * errors are logged rather than stopping the job.
+ */
+
+/**
+ * A job that runs on a fixed interval.
+ */
+export interface IntervalJob {
+	/**
+	 * Run the job now and then every interval.
+	 * Calling it again while the job is running is a no-op.
+	 *
+	 * @param intervalMs - Run interval (default: the job's own interval)
+	 */
+	start: (intervalMs?: number) => void;
+	/**
+	 * Stop scheduling runs. A run in progress finishes.
+	 */
+	stop: () => void;
+}
+
+/**
+ * Create a job that runs on a fixed interval.
+ *
+ * @param name - Name used when logging errors, e.g. "Webhook retry worker"
+ * @param intervalMs - Default run interval
+ * @param tick - The work done on each run
+ * @returns The job's start and stop functions
+ *
+ * @example
+ * ```ts
+ * const purgeJob = createIntervalJob("Purge job", 60_000, () => purgeOldRows());
+ * purgeJob.start();
+ * ```
+ */
+export function createIntervalJob(
+	name: string,
+	intervalMs: number,
+	tick: () => Promise<unknown>,
+): IntervalJob {
+	let timer: ReturnType<typeof setInterval> | null = null;
+	let busy = false;
+
+	const run = async () => {
+		if (busy) {
+			return;
+		}
+
+		busy = true;
+		try {
+			await tick();
+		} catch (error) {
+			console.error(`${name} error:`, error);
+		} finally {
+			busy = false;
+		}
+	};
+
+	return {
+		start(runIntervalMs = intervalMs) {
+			if (timer) {
+				return;
+			}
+
+			timer = setInterval(run, runIntervalMs);
+			void run();
+		},
+		stop() {
+			if (timer) {
+				clearInterval(timer);
+				timer = null;
+			}
+		},
+	};
+}
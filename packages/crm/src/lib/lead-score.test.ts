@@ -0,0 +1,222 @@
+/**
+ * Tests for lead scoring.
+ *
+ * Verifies the budget, project type, source, email domain, message length
+ * and contact history rules, and reading the rules from settings.
+ */
+
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("../db", () => ({
+	db: {
+		select: vi.fn(),
+		execute: vi.fn(),
+	},
+	contactInteractions: { contactId: "contact_id", type: "type" },
+	contacts: { id: "id", email: "email" },
+	leads: {
+		id: "id",
+		email: "email",
+		budget: "budget",
+		projectType: "project_type",
+		source: "source",
+		message: "message",
+		contactId: "contact_id",
+		score: "score",
+	},
+	settings: { key: "key" },
+}));
+
+import { db } from "../db";
+import {
+	computeLeadScore,
+	DEFAULT_LEAD_SCORING,
+	getLeadScoringSettings,
+	rescoreAllLeads,
+	scoreLead,
+	withLeadScore,
+} from "./lead-score";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+function createLead(overrides: Record<string, unknown> = {}) {
+	return {
+		email: "jane@gmail.com",
+		budget: null,
+		projectType: null,
+		source: null,
+		message: "Hi",
+		contactId: null,
+		...overrides,
+	};
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("computeLeadScore", () => {
+	it("should score a bare free-mail lead at zero", () => {
+		expect(computeLeadScore(createLead(), 0, DEFAULT_LEAD_SCORING)).toBe(0);
+	});
+
+	it("should add budget, project type and source points", () => {
+		const score = computeLeadScore(
+			createLead({
+				budget: "$50,000 - $100,000",
+				projectType: "Cloud Migration",
+				source: "referral",
+			}),
+			0,
+			DEFAULT_LEAD_SCORING,
+		);
+
+		expect(score).toBe(25 + 15 + 20);
+	});
+
+	it("should ignore values without a rule", () => {
+		const score = computeLeadScore(
+			createLead({ budget: "constructor", projectType: "Blockchain", source: "Carrier Pigeon" }),
+			0,
+			DEFAULT_LEAD_SCORING,
+		);
+
+		expect(score).toBe(0);
+	});
+
+	it("should tell corporate domains from free mail", () => {
+		const scoring = { ...DEFAULT_LEAD_SCORING, domainPoints: { corporate: 10, freeMail: 2 } };
+
+		expect(computeLeadScore(createLead({ email: "cto@acme.io" }), 0, scoring)).toBe(10);
+		expect(computeLeadScore(createLead({ email: "Jane@Yahoo.com" }), 0, scoring)).toBe(2);
+	});
+
+	it("should reward a detailed message", () => {
+		const score = computeLeadScore(
+			createLead({ message: "x".repeat(300) }),
+			0,
+			DEFAULT_LEAD_SCORING,
+		);
+
+		expect(score).toBe(10);
+	});
+
+	it("should add points per prior interaction up to the cap", () => {
+		expect(computeLeadScore(createLead(), 2, DEFAULT_LEAD_SCORING)).toBe(6);
+		expect(computeLeadScore(createLead(), 20, DEFAULT_LEAD_SCORING)).toBe(15);
+	});
+});
+
+describe("scoreLead", () => {
+	it("should count interactions of the contact with the lead's email", async () => {
+		const results = [[{ id: "contact-1" }], [{ count: 3 }]];
+		(db.select as Mock).mockImplementation(() => {
+			const result = results.shift() ?? [];
+			return {
+				from: () => ({
+					where: () => Object.assign(Promise.resolve(result), { limit: () => result }),
+				}),
+			};
+		});
+
+		const score = await scoreLead(createLead(), DEFAULT_LEAD_SCORING);
+
+		expect(score).toBe(9);
+	});
+});
+
+describe("withLeadScore", () => {
+	it("should fall back to a score of 0 when scoring fails", async () => {
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+		(db.select as Mock).mockImplementation(() => {
+			throw new Error("connection lost");
+		});
+
+		const values = await withLeadScore(createLead({ budget: "$100,000+" }));
+
+		expect(values).toEqual(expect.objectContaining({ budget: "$100,000+", score: 0 }));
+		expect(consoleSpy).toHaveBeenCalled();
+		consoleSpy.mockRestore();
+	});
+});
+
+describe("getLeadScoringSettings", () => {
+	it("should fill anything unset or invalid with the defaults", async () => {
+		(db.select as Mock).mockReturnValue({
+			from: () => ({
+				where: () => ({
+					limit: () =>
+						Promise.resolve([
+							{
+								key: "lead_scoring",
+								value: {
+									budgetPoints: { "$100,000+": 50, "Not sure yet": -5 },
+									sourcePoints: { Partner: 12, Spam: "lots" },
+									domainPoints: { corporate: 1.5 },
+								},
+							},
+						]),
+				}),
+			}),
+		});
+
+		const scoring = await getLeadScoringSettings();
+
+		expect(scoring.budgetPoints["$100,000+"]).toBe(50);
+		expect(scoring.budgetPoints["Not sure yet"]).toBe(0);
+		expect(scoring.sourcePoints).toEqual({ Partner: 12 });
+		expect(scoring.domainPoints).toEqual(DEFAULT_LEAD_SCORING.domainPoints);
+		expect(scoring.freeMailDomains).toEqual(DEFAULT_LEAD_SCORING.freeMailDomains);
+	});
+});
+
+describe("rescoreAllLeads", () => {
+	it("should read counts once and write changed scores in one batch", async () => {
+		const allLeads = [
+			{ ...createLead({ id: "lead-1", contactId: "contact-1" }), score: 0 },
+			{ ...createLead({ id: "lead-2", email: "Sam@Gmail.com" }), score: 0 },
+			{ ...createLead({ id: "lead-3" }), score: 0 },
+		];
+		const counts = [
+			{ contactId: "contact-1", email: null, count: 1 },
+			{ contactId: "contact-2", email: "sam@gmail.com", count: 2 },
+		];
+		(db.select as Mock)
+			.mockReturnValueOnce({
+				from: () => ({ where: () => ({ limit: () => Promise.resolve([]) }) }),
+			})
+			.mockReturnValueOnce({ from: () => Promise.resolve(allLeads) })
+			.mockReturnValueOnce({
+				from: () => ({ innerJoin: () => ({ groupBy: () => Promise.resolve(counts) }) }),
+			});
+		(db.execute as Mock).mockResolvedValue(undefined);
+
+		const changed = await rescoreAllLeads();
+
+		expect(changed).toBe(2);
+		expect(db.select).toHaveBeenCalledTimes(3);
+		expect(db.execute).toHaveBeenCalledTimes(1);
+	});
+
+	it("should not write when no score changed", async () => {
+		(db.select as Mock)
+			.mockReturnValueOnce({
+				from: () => ({ where: () => ({ limit: () => Promise.resolve([]) }) }),
+			})
+			.mockReturnValueOnce({
+				from: () => Promise.resolve([{ ...createLead({ id: "lead-1" }), score: 0 }]),
+			})
+			.mockReturnValueOnce({
+				from: () => ({ innerJoin: () => ({ groupBy: () => Promise.resolve([]) }) }),
+			});
+
+		expect(await rescoreAllLeads()).toBe(0);
+		expect(db.execute).not.toHaveBeenCalled();
+	});
+});
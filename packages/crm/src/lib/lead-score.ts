@@ -0,0 +1,400 @@
+/**
+ * Lead Scoring.
+ *
+ * Scores inbound leads so the list can be sorted by priority instead of by
+ * arrival. The score is a sum of rule points: the lead's budget, project type
+ * and source, whether the email is on a corporate domain or a free-mail one,
+ * whether the message is detailed, and how much history we already have with
+ * the matching contact.
+ *
+ * The score is stored on the lead (leads.score) and recomputed whenever a
+ * lead is created or updated. The rules are stored in the lead_scoring
+ * setting and edited under /api/admin/settings/lead-scoring; saving them
+ * rescores every lead.
+ */
+
+import { and, eq, ne, sql } from "drizzle-orm";
+import { contactInteractions, contacts, db, leads, settings } from "../db/index.js";
+import { numberOr, numbersOr } from "./setting-values.js";
+import type { BudgetOption, ProjectTypeOption } from "./validation.js";
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Settings key for the scoring rules.
+ */
+export const LEAD_SCORING_SETTING = "lead_scoring";
+
+/**
+ * Lead scoring rules.
+ */
+export interface LeadScoringSettings {
+	/** Points per budget range */
+	budgetPoints: Record<BudgetOption, number>;
+	/** Points per project type */
+	projectTypePoints: Record<ProjectTypeOption, number>;
+	/** Points per source, matched case-insensitively; unlisted sources get 0 */
+	sourcePoints: Record<string, number>;
+	/** Points for an email on a corporate or a free-mail domain */
+	domainPoints: { corporate: number; freeMail: number };
+	/** Domains counted as free mail */
+	freeMailDomains: string[];
+	/** Points for a message at least minLength characters long */
+	detailedMessage: { minLength: number; points: number };
+	/** Points per prior interaction with the matching contact, up to maxPoints */
+	contactInteractions: { pointsEach: number; maxPoints: number };
+}
+
+/**
+ * Default rules. Budget and a referral weigh the most; a corporate domain
+ * and a detailed brief separate real projects from tyre-kickers.
+ */
+export const DEFAULT_LEAD_SCORING: LeadScoringSettings = {
+	budgetPoints: {
+		"Not sure yet": 0,
+		"$5,000 - $15,000": 5,
+		"$15,000 - $50,000": 15,
+		"$50,000 - $100,000": 25,
+		"$100,000+": 30,
+	},
+	projectTypePoints: {
+		"New Product / MVP": 10,
+		"Staff Augmentation": 10,
+		"Legacy Modernization": 15,
+		"Cloud Migration": 15,
+		"Performance Optimization": 10,
+		"Security Audit": 10,
+		Other: 0,
+	},
+	sourcePoints: {
+		Referral: 20,
+		"Cal.com Booking": 15,
+		"Conference/Event": 10,
+		LinkedIn: 10,
+		"Google Search": 5,
+		"Contact Form": 5,
+	},
+	domainPoints: { corporate: 10, freeMail: 0 },
+	freeMailDomains: [
+		"gmail.com",
+		"googlemail.com",
+		"yahoo.com",
+		"hotmail.com",
+		"outlook.com",
+		"live.com",
+		"icloud.com",
+		"me.com",
+		"aol.com",
+		"proton.me",
+		"protonmail.com",
+		"gmx.com",
+		"mail.com",
+		"yandex.com",
+	],
+	detailedMessage: { minLength: 300, points: 10 },
+	contactInteractions: { pointsEach: 3, maxPoints: 15 },
+};
+
+/**
+ * Lead scores are stored as integers, so every rule is worth whole points.
+ */
+const WHOLE_POINTS = { integer: true };
+
+/**
+ * Get the scoring rules from settings.
+ *
+ * @returns The rules, with defaults for anything that hasn't been set
+ */
+export async function getLeadScoringSettings(): Promise<LeadScoringSettings> {
+	const [setting] = await db
+		.select()
+		.from(settings)
+		.where(eq(settings.key, LEAD_SCORING_SETTING))
+		.limit(1);
+
+	const value = (setting?.value ?? {}) as Partial<Record<keyof LeadScoringSettings, unknown>>;
+
+	// Sources are free-form, so a stored list replaces the default one
+	const sourcePoints =
+		value.sourcePoints && typeof value.sourcePoints === "object"
+			? Object.fromEntries(
+					Object.entries(value.sourcePoints).filter(
+						(entry): entry is [string, number] => numberOr(entry[1], -1, WHOLE_POINTS) >= 0,
+					),
+				)
+			: DEFAULT_LEAD_SCORING.sourcePoints;
+
+	const freeMailDomains = Array.isArray(value.freeMailDomains)
+		? value.freeMailDomains.filter((domain): domain is string => typeof domain === "string")
+		: DEFAULT_LEAD_SCORING.freeMailDomains;
+
+	return {
+		budgetPoints: numbersOr(value.budgetPoints, DEFAULT_LEAD_SCORING.budgetPoints, WHOLE_POINTS),
+		projectTypePoints: numbersOr(
+			value.projectTypePoints,
+			DEFAULT_LEAD_SCORING.projectTypePoints,
+			WHOLE_POINTS,
+		),
+		sourcePoints,
+		domainPoints: numbersOr(value.domainPoints, DEFAULT_LEAD_SCORING.domainPoints, WHOLE_POINTS),
+		freeMailDomains,
+		detailedMessage: numbersOr(
+			value.detailedMessage,
+			DEFAULT_LEAD_SCORING.detailedMessage,
+			WHOLE_POINTS,
+		),
+		contactInteractions: numbersOr(
+			value.contactInteractions,
+			DEFAULT_LEAD_SCORING.contactInteractions,
+			WHOLE_POINTS,
+		),
+	};
+}
+
+/**
+ * Store the scoring rules.
+ * Callers validate them first.
+ *
+ * @param scoring - The complete rules
+ * @returns The stored rules
+ */
+export async function setLeadScoringSettings(
+	scoring: LeadScoringSettings,
+): Promise<LeadScoringSettings> {
+	const value = { ...scoring };
+	const now = new Date();
+	await db
+		.insert(settings)
+		.values({ key: LEAD_SCORING_SETTING, value, updatedAt: now })
+		.onConflictDoUpdate({ target: settings.key, set: { value, updatedAt: now } });
+
+	return value;
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * The lead fields scoring looks at.
+ */
+export interface ScoredLead {
+	email: string;
+	budget?: string | null;
+	projectType?: string | null;
+	source?: string | null;
+	message: string;
+	contactId?: string | null;
+}
+
+/**
+ * Look up a field's points; values without an entry score 0.
+ */
+function pointsFor(points: Record<string, number>, value: string | null | undefined): number {
+	return value && Object.hasOwn(points, value) ? points[value] : 0;
+}
+
+/**
+ * Score a lead against the rules.
+ *
+ * @param lead - The lead's scored fields
+ * @param interactionCount - Prior interactions with the lead's contact
+ * @param scoring - The scoring rules
+ * @returns The score
+ *
+ * @example
+ * ```ts
+ * const score = computeLeadScore(lead, 0, DEFAULT_LEAD_SCORING);
+ * ```
+ */
+export function computeLeadScore(
+	lead: ScoredLead,
+	interactionCount: number,
+	scoring: LeadScoringSettings,
+): number {
+	let score = 0;
+
+	score += pointsFor(scoring.budgetPoints, lead.budget);
+	score += pointsFor(scoring.projectTypePoints, lead.projectType);
+
+	if (lead.source) {
+		const source = lead.source.toLowerCase();
+		const match = Object.entries(scoring.sourcePoints).find(
+			([name]) => name.toLowerCase() === source,
+		);
+		score += match?.[1] ?? 0;
+	}
+
+	const at = lead.email.lastIndexOf("@");
+	const domain =
+		at >= 0
+			? lead.email
+					.slice(at + 1)
+					.trim()
+					.toLowerCase()
+			: "";
+	if (domain) {
+		const freeMail = scoring.freeMailDomains.some((d) => d.toLowerCase() === domain);
+		score += freeMail ? scoring.domainPoints.freeMail : scoring.domainPoints.corporate;
+	}
+
+	if (lead.message.trim().length >= scoring.detailedMessage.minLength) {
+		score += scoring.detailedMessage.points;
+	}
+
+	score += Math.min(
+		interactionCount * scoring.contactInteractions.pointsEach,
+		scoring.contactInteractions.maxPoints,
+	);
+
+	return score;
+}
+
+/**
+ * Count prior interactions with the lead's contact: the linked contact, or
+ * else the contact with the lead's email. Notes don't count.
+ */
+async function countContactInteractions(lead: ScoredLead): Promise<number> {
+	let contactId = lead.contactId ?? null;
+
+	if (!contactId) {
+		const [contact] = await db
+			.select({ id: contacts.id })
+			.from(contacts)
+			.where(sql`lower(${contacts.email}) = ${lead.email.toLowerCase()}`)
+			.limit(1);
+		contactId = contact?.id ?? null;
+	}
+
+	if (!contactId) {
+		return 0;
+	}
+
+	const [result] = await db
+		.select({ count: sql<number>`count(*)::int` })
+		.from(contactInteractions)
+		.where(and(eq(contactInteractions.contactId, contactId), ne(contactInteractions.type, "note")));
+
+	return result?.count ?? 0;
+}
+
+/**
+ * Score a lead with the stored rules.
+ *
+ * @param lead - The lead's scored fields
+ * @param scoring - The rules (default: read from settings)
+ * @returns The score
+ */
+export async function scoreLead(lead: ScoredLead, scoring?: LeadScoringSettings): Promise<number> {
+	return computeLeadScore(
+		lead,
+		await countContactInteractions(lead),
+		scoring ?? (await getLeadScoringSettings()),
+	);
+}
+
+/**
+ * Add the score to a lead's insert values.
+ *
+ * Scoring is enrichment: if the rules or the contact history can't be read,
+ * the error is logged and the lead is stored with a score of 0 rather than
+ * failing its creation.
+ *
+ * @param values - The lead being inserted
+ * @returns The values with score set
+ *
+ * @example
+ * ```ts
+ * await db.insert(leads).values(await withLeadScore({ name, email, message }));
+ * ```
+ */
+export async function withLeadScore<T extends ScoredLead>(
+	values: T,
+): Promise<T & { score: number }> {
+	try {
+		return { ...values, score: await scoreLead(values) };
+	} catch (error) {
+		console.error("Failed to score lead, storing it with a score of 0:", error);
+		return { ...values, score: 0 };
+	}
+}
+
+/**
+ * Leads rescored per UPDATE statement.
+ */
+const RESCORE_BATCH_SIZE = 500;
+
+/**
+ * Rescore every lead, e.g. after the rules change.
+ *
+ * Interaction counts for every contact are read in one grouped query and
+ * changed scores are written in batched UPDATEs, so the number of queries
+ * doesn't grow with the number of leads.
+ *
+ * @returns Number of leads whose score changed
+ */
+export async function rescoreAllLeads(): Promise<number> {
+	const scoring = await getLeadScoringSettings();
+
+	const allLeads = await db
+		.select({
+			id: leads.id,
+			email: leads.email,
+			budget: leads.budget,
+			projectType: leads.projectType,
+			source: leads.source,
+			message: leads.message,
+			contactId: leads.contactId,
+			score: leads.score,
+		})
+		.from(leads);
+
+	const interactionCounts = await db
+		.select({
+			contactId: contacts.id,
+			email: sql<string | null>`lower(${contacts.email})`,
+			count: sql<number>`count(*)::int`,
+		})
+		.from(contacts)
+		.innerJoin(
+			contactInteractions,
+			and(eq(contactInteractions.contactId, contacts.id), ne(contactInteractions.type, "note")),
+		)
+		.groupBy(contacts.id);
+
+	const countsById = new Map<string, number>();
+	const countsByEmail = new Map<string, number>();
+	for (const row of interactionCounts) {
+		countsById.set(row.contactId, row.count);
+		if (row.email) {
+			countsByEmail.set(row.email, row.count);
+		}
+	}
+
+	const changes: Array<{ id: string; score: number }> = [];
+	for (const lead of allLeads) {
+		const interactionCount = lead.contactId
+			? (countsById.get(lead.contactId) ?? 0)
+			: (countsByEmail.get(lead.email.toLowerCase()) ?? 0);
+		const score = computeLeadScore(lead, interactionCount, scoring);
+		if (score !== lead.score) {
+			changes.push({ id: lead.id, score });
+		}
+	}
+
+	for (let i = 0; i < changes.length; i += RESCORE_BATCH_SIZE) {
+		const rows = sql.join(
+			changes
+				.slice(i, i + RESCORE_BATCH_SIZE)
+				.map((change) => sql`(${change.id}::uuid, ${change.score}::int)`),
+			sql`, `,
+		);
+		await db.execute(
+			sql`update leads set score = v.score from (values ${rows}) as v(id, score) where leads.id = v.id`,
+		);
+	}
+
+	return changes.length;
+}
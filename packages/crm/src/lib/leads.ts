@@ -0,0 +1,228 @@
+/**
+ * Lead mutations shared by the admin API, the public v1 API and the
+ * Telegram bot.
+ *
+ * Updating a lead or adding an activity through these functions logs the
+ * status change activity and fires the matching webhooks and notifications,
+ * so every entry point behaves like PATCH /api/admin/leads/:id.
+ */
+
+import { eq } from "drizzle-orm";
+import { db, type Lead, type LeadActivity, leadActivities, leads } from "../db/index.js";
+import { scoreLead } from "./lead-score.js";
+import {
+	triggerLeadActivityAddedNotification,
+	triggerLeadStatusChangedNotification,
+} from "./notifications/index.js";
+import type { CreateActivityInput, UpdateLeadInput } from "./validation.js";
+import {
+	triggerLeadActivityAdded,
+	triggerLeadStatusChanged,
+	triggerLeadUpdated,
+} from "./webhooks.js";
+
+/**
+ * Create a status change activity when lead status changes.
+ *
+ * @param leadId - The lead whose status changed
+ * @param oldStatus - The previous status
+ * @param newStatus - The new status
+ */
+export async function logStatusChange(
+	leadId: string,
+	oldStatus: string,
+	newStatus: string,
+): Promise<void> {
+	await db.insert(leadActivities).values({
+		leadId,
+		type: "status_change",
+		description: `Status changed from ${oldStatus} to ${newStatus}`,
+		oldStatus,
+		newStatus,
+	});
+}
+
+/**
+ * Update a lead and fire the side effects of the change.
+ *
+ * Rescores the lead (keeping the current score if scoring fails), sets
+ * contactedAt the first time it moves to "contacted", logs a status_change
+ * activity, and fires lead.updated / lead.status_changed webhooks and the
+ * lead.status_changed notification (fire-and-forget).
+ *
+ * @param existingLead - The lead as currently stored
+ * @param input - Validated fields to update
+ * @returns The updated lead
+ *
+ * @example
+ * ```ts
+ * const lead = await updateLead(existingLead, { status: "contacted" });
+ * ```
+ */
+export async function updateLead(existingLead: Lead, input: UpdateLeadInput): Promise<Lead> {
+	const id = existingLead.id;
+
+	// Track status change for activity logging
+	const statusChanged = input.status !== undefined && input.status !== existingLead.status;
+	const oldStatus = existingLead.status;
+	const newStatus = input.status;
+
+	// Build update object and track changes for webhooks
+	const updateData: Partial<typeof leads.$inferInsert> & { updatedAt: Date } = {
+		updatedAt: new Date(),
+	};
+	const changes: Record<string, { old: unknown; new: unknown }> = {};
+
+	if (input.name !== undefined) {
+		if (input.name !== existingLead.name) {
+			changes.name = { old: existingLead.name, new: input.name };
+		}
+		updateData.name = input.name;
+	}
+	if (input.email !== undefined) {
+		if (input.email !== existingLead.email) {
+			changes.email = { old: existingLead.email, new: input.email };
+		}
+		updateData.email = input.email;
+	}
+	if (input.company !== undefined) {
+		if (input.company !== existingLead.company) {
+			changes.company = { old: existingLead.company, new: input.company };
+		}
+		updateData.company = input.company;
+	}
+	if (input.phone !== undefined) {
+		if (input.phone !== existingLead.phone) {
+			changes.phone = { old: existingLead.phone, new: input.phone };
+		}
+		updateData.phone = input.phone;
+	}
+	if (input.budget !== undefined) {
+		if (input.budget !== existingLead.budget) {
+			changes.budget = { old: existingLead.budget, new: input.budget };
+		}
+		updateData.budget = input.budget;
+	}
+	if (input.projectType !== undefined) {
+		if (input.projectType !== existingLead.projectType) {
+			changes.projectType = { old: existingLead.projectType, new: input.projectType };
+		}
+		updateData.projectType = input.projectType;
+	}
+	if (input.message !== undefined) {
+		if (input.message !== existingLead.message) {
+			changes.message = { old: existingLead.message, new: input.message };
+		}
+		updateData.message = input.message;
+	}
+	if (input.source !== undefined) {
+		if (input.source !== existingLead.source) {
+			changes.source = { old: existingLead.source, new: input.source };
+		}
+		updateData.source = input.source;
+	}
+	if (input.status !== undefined) {
+		if (input.status !== existingLead.status) {
+			changes.status = { old: existingLead.status, new: input.status };
+		}
+		updateData.status = input.status;
+	}
+	if (input.notes !== undefined) {
+		if (input.notes !== existingLead.notes) {
+			changes.notes = { old: existingLead.notes, new: input.notes };
+		}
+		updateData.notes = input.notes;
+	}
+	if (input.tags !== undefined) {
+		const tagsChanged = JSON.stringify(input.tags) !== JSON.stringify(existingLead.tags);
+		if (tagsChanged) {
+			changes.tags = { old: existingLead.tags, new: input.tags };
+		}
+		updateData.tags = input.tags;
+	}
+
+	// Set contactedAt when status changes to 'contacted' for the first time
+	if (statusChanged && newStatus === "contacted" && existingLead.contactedAt === null) {
+		updateData.contactedAt = new Date();
+	}
+
+	// Rescore with the updated fields; scoring is enrichment, so a failure
+	// keeps the current score rather than failing the update
+	try {
+		updateData.score = await scoreLead({ ...existingLead, ...updateData });
+	} catch (error) {
+		console.error(`Failed to rescore lead ${id}, keeping its current score:`, error);
+	}
+
+	// Update lead
+	const [updatedLead] = await db.update(leads).set(updateData).where(eq(leads.id, id)).returning();
+
+	// Log status change as activity
+	if (statusChanged && oldStatus && newStatus) {
+		await logStatusChange(id, oldStatus, newStatus);
+	}
+
+	// Trigger webhooks (fire-and-forget, don't await)
+	if (Object.keys(changes).length > 0) {
+		triggerLeadUpdated(updatedLead, changes).catch((err) => {
+			console.error("Failed to trigger lead.updated webhook:", err);
+		});
+	}
+
+	// Trigger status changed webhook in addition to lead.updated when status changes
+	if (statusChanged && oldStatus && newStatus) {
+		triggerLeadStatusChanged(updatedLead, oldStatus, newStatus).catch((err) => {
+			console.error("Failed to trigger lead.status_changed webhook:", err);
+		});
+
+		// Notify subscribed channels (fire-and-forget)
+		triggerLeadStatusChangedNotification(updatedLead, oldStatus, newStatus);
+	}
+
+	return updatedLead;
+}
+
+/**
+ * Add an activity to a lead and fire the side effects.
+ *
+ * Bumps the lead's updatedAt and fires the lead.activity_added webhook and
+ * notification (fire-and-forget).
+ *
+ * @param lead - The lead the activity belongs to
+ * @param input - Validated activity type and description, optionally with the
+ *   full email body
+ * @returns The new activity
+ *
+ * @example
+ * ```ts
+ * const activity = await addLeadActivity(lead, { type: "note", description: "Called back" });
+ * ```
+ */
+export async function addLeadActivity(
+	lead: Lead,
+	input: CreateActivityInput & { body?: string | null },
+): Promise<LeadActivity> {
+	// Insert activity
+	const [newActivity] = await db
+		.insert(leadActivities)
+		.values({
+			leadId: lead.id,
+			type: input.type,
+			description: input.description,
+			body: input.body ?? null,
+		})
+		.returning();
+
+	// Update lead's updatedAt timestamp
+	await db.update(leads).set({ updatedAt: new Date() }).where(eq(leads.id, lead.id));
+
+	// Trigger webhook (fire-and-forget, don't await)
+	triggerLeadActivityAdded(lead, newActivity).catch((err) => {
+		console.error("Failed to trigger lead.activity_added webhook:", err);
+	});
+
+	// Notify subscribed channels (fire-and-forget)
+	triggerLeadActivityAddedNotification(lead, newActivity);
+
+	return newActivity;
+}
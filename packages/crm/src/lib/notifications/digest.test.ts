@@ -0,0 +1,325 @@
+/**
+ * Tests for notification digests.
+ *
+ * Verifies digest content, scheduling and claiming for digest-mode channels.
+ */
+
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("../../db", () => ({
+	db: {
+		select: vi.fn(),
+		update: vi.fn(),
+	},
+	contacts: { id: "id", name: "name", nextAction: "next_action", nextActionDue: "next_action_due" },
+	leadActivities: {
+		leadId: "lead_id",
+		type: "type",
+		oldStatus: "old_status",
+		newStatus: "new_status",
+		createdAt: "created_at",
+	},
+	leads: { id: "id", name: "name", company: "company", status: "status", createdAt: "created_at" },
+	notificationChannels: {
+		id: "id",
+		enabled: "enabled",
+		deliveryMode: "delivery_mode",
+		lastDigestAt: "last_digest_at",
+	},
+}));
+
+vi.mock("./dispatcher", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./dispatcher")>()),
+	deliverNotification: vi.fn(() => Promise.resolve({ success: true, durationMs: 10 })),
+}));
+
+import { db } from "../../db";
+import { buildNotificationDigest, processNotificationDigests } from "./digest";
+import { deliverNotification } from "./dispatcher";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const NOW = new Date("2025-01-20T09:05:00Z");
+
+/**
+ * Create a daily digest channel whose last digest went out yesterday.
+ */
+function createMockChannel(overrides: Record<string, unknown> = {}) {
+	return {
+		id: "channel-1",
+		type: "telegram",
+		name: "Morning Digest",
+		config: { bot_token: "123:abc", chat_id: "-100123" },
+		events: ["lead.created"],
+		filter: null,
+		enabled: true,
+		deliveryMode: "daily",
+		digestHour: 9,
+		digestDay: 1,
+		timezone: "UTC",
+		quietHoursStart: null,
+		quietHoursEnd: null,
+		lastDigestAt: new Date("2025-01-19T09:00:00Z"),
+		createdAt: new Date("2025-01-01T00:00:00Z"),
+		updatedAt: new Date("2025-01-01T00:00:00Z"),
+		...overrides,
+	};
+}
+
+/**
+ * Create a lead row.
+ */
+function createMockLead(overrides: Record<string, unknown> = {}) {
+	return {
+		id: "lead-1",
+		name: "John Doe",
+		email: "john@example.com",
+		company: "Acme Inc",
+		phone: null,
+		budget: "$15,000 - $50,000",
+		projectType: "New Product / MVP",
+		message: "We need help building our product.",
+		source: "Contact Form",
+		status: "new",
+		tags: [],
+		createdAt: new Date("2025-01-19T12:00:00Z"),
+		updatedAt: new Date("2025-01-19T12:00:00Z"),
+		...overrides,
+	};
+}
+
+/**
+ * Mock consecutive select queries, each resolving to the given rows
+ * (after .where() or .orderBy()).
+ */
+function mockSelects(...results: unknown[][]) {
+	for (const rows of results) {
+		const query = {
+			from: vi.fn(() => query),
+			innerJoin: vi.fn(() => query),
+			where: vi.fn(() =>
+				Object.assign(Promise.resolve(rows), { orderBy: vi.fn(() => Promise.resolve(rows)) }),
+			),
+		};
+		(db.select as Mock).mockReturnValueOnce(query);
+	}
+}
+
+/**
+ * Mock the claiming update.
+ */
+function mockClaim(claimed: unknown[]) {
+	const set = vi.fn(() => ({
+		where: vi.fn(() => ({ returning: vi.fn(() => Promise.resolve(claimed)) })),
+	}));
+	(db.update as Mock).mockReturnValue({ set });
+	return set;
+}
+
+// ============================================================================
+// CONTENT TESTS
+// ============================================================================
+
+describe("buildNotificationDigest", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(db.select as Mock).mockReset();
+	});
+
+	it("should include sections for the subscribed events", async () => {
+		mockSelects(
+			[{ lead: createMockLead(), oldStatus: "new", newStatus: "contacted" }],
+			[
+				createMockLead({
+					id: "lead-2",
+					name: "Acme Deal",
+					status: "proposal",
+					updatedAt: new Date("2024-12-01T00:00:00Z"),
+				}),
+			],
+			[
+				{
+					id: "contact-1",
+					name: "Jane Smith",
+					nextAction: "Send proposal",
+					nextActionDue: new Date("2025-01-18T10:00:00Z"),
+				},
+			],
+		);
+
+		const digest = await buildNotificationDigest(
+			["lead.status_changed", "contact.follow_up_due"],
+			"daily",
+			new Date("2025-01-19T09:00:00Z"),
+			NOW,
+		);
+
+		expect(digest.sections.map((section) => section.title)).toEqual([
+			"🔄 Status Changes",
+			"⏳ Stale Proposals",
+			"⏰ Overdue Follow-ups",
+		]);
+		expect(digest.sections[0].items[0]).toEqual({
+			label: "John Doe",
+			detail: "new → contacted",
+			url: expect.stringContaining("/leads/lead-1"),
+		});
+		expect(digest.sections[1].items[0].detail).toBe("No update since Dec 1, 2024, 12:00 AM UTC");
+		expect(digest.sections[2].items[0]).toEqual({
+			label: "Jane Smith",
+			detail: "Send proposal · due Jan 18, 2025, 10:00 AM UTC",
+			url: expect.stringContaining("/contacts/contact-1"),
+		});
+	});
+
+	it("should cap listed items but count them all", async () => {
+		const rows = Array.from({ length: 12 }, (_, i) =>
+			createMockLead({ id: `lead-${i}`, name: `Lead ${i}`, company: null }),
+		);
+		mockSelects(rows);
+
+		const digest = await buildNotificationDigest(["lead.created"], "weekly", NOW, NOW);
+
+		expect(digest.sections[0].total).toBe(12);
+		expect(digest.sections[0].items).toHaveLength(10);
+	});
+
+	it("should only list leads that match the channel's routing rules", async () => {
+		mockSelects(
+			[
+				createMockLead({ id: "lead-1", budget: "$50,000 - $100,000" }),
+				createMockLead({ id: "lead-2", budget: "$5,000 - $15,000" }),
+			],
+			[
+				{ lead: createMockLead({ id: "lead-1", budget: "$50,000 - $100,000" }), oldStatus: "new" },
+				{ lead: createMockLead({ id: "lead-2", budget: "$5,000 - $15,000" }), oldStatus: "new" },
+			],
+			[createMockLead({ id: "lead-3", status: "proposal", budget: null })],
+		);
+
+		const digest = await buildNotificationDigest(
+			["lead.created", "lead.status_changed"],
+			"daily",
+			new Date("2025-01-19T09:00:00Z"),
+			NOW,
+			'budget == "$50,000 - $100,000"',
+		);
+
+		expect(digest.sections.map((section) => section.total)).toEqual([1, 1, 0]);
+		expect(digest.sections[0].items[0].url).toContain("/leads/lead-1");
+		expect(digest.sections[1].items[0].url).toContain("/leads/lead-1");
+	});
+
+	it("should skip events that have no digest section", async () => {
+		const digest = await buildNotificationDigest(["booking.created"], "daily", NOW, NOW);
+
+		expect(digest.sections).toEqual([]);
+		expect(db.select).not.toHaveBeenCalled();
+	});
+});
+
+// ============================================================================
+// PROCESSING TESTS
+// ============================================================================
+
+describe("processNotificationDigests", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(db.select as Mock).mockReset();
+	});
+
+	it("should claim and send a due digest covering the time since the last one", async () => {
+		mockSelects([createMockChannel()], [createMockLead()]);
+		const set = mockClaim([{ id: "channel-1" }]);
+
+		const sent = await processNotificationDigests(NOW);
+
+		expect(sent).toBe(1);
+		expect(set).toHaveBeenCalledWith({ lastDigestAt: NOW });
+		expect(deliverNotification).toHaveBeenCalledWith(
+			expect.objectContaining({ id: "channel-1", type: "telegram" }),
+			"digest",
+			{
+				event: "digest",
+				digest: {
+					period: "daily",
+					since: new Date("2025-01-19T09:00:00Z"),
+					until: NOW,
+					sections: [
+						{
+							title: "🆕 New Leads",
+							total: 1,
+							items: [
+								{
+									label: "John Doe",
+									detail: "Acme Inc",
+									url: expect.stringContaining("/leads/lead-1"),
+								},
+							],
+						},
+					],
+				},
+			},
+		);
+	});
+
+	it("should not send before the next scheduled time", async () => {
+		mockSelects([createMockChannel({ lastDigestAt: new Date("2025-01-20T09:00:30Z") })]);
+
+		expect(await processNotificationDigests(NOW)).toBe(0);
+		expect(db.update).not.toHaveBeenCalled();
+		expect(deliverNotification).not.toHaveBeenCalled();
+	});
+
+	it("should not send when another run claimed the digest", async () => {
+		mockSelects([createMockChannel()]);
+		mockClaim([]);
+
+		expect(await processNotificationDigests(NOW)).toBe(0);
+		expect(deliverNotification).not.toHaveBeenCalled();
+	});
+
+	it("should leave out leads the channel's routing rules don't match", async () => {
+		mockSelects(
+			[createMockChannel({ filter: 'source == "Referral"' })],
+			[createMockLead({ source: "Contact Form" })],
+		);
+		mockClaim([{ id: "channel-1" }]);
+
+		expect(await processNotificationDigests(NOW)).toBe(0);
+		expect(deliverNotification).not.toHaveBeenCalled();
+	});
+
+	it("should skip digests with nothing to report", async () => {
+		mockSelects([createMockChannel()], []);
+		mockClaim([{ id: "channel-1" }]);
+
+		expect(await processNotificationDigests(NOW)).toBe(0);
+		expect(deliverNotification).not.toHaveBeenCalled();
+	});
+
+	it("should keep going when one channel fails", async () => {
+		mockSelects(
+			[createMockChannel({ id: "channel-1" }), createMockChannel({ id: "channel-2" })],
+			[createMockLead({ company: null })],
+		);
+		(db.update as Mock)
+			.mockImplementationOnce(() => {
+				throw new Error("db down");
+			})
+			.mockReturnValue({
+				set: vi.fn(() => ({
+					where: vi.fn(() => ({ returning: vi.fn(() => Promise.resolve([{ id: "channel-2" }])) })),
+				})),
+			});
+
+		expect(await processNotificationDigests(NOW)).toBe(1);
+		expect(deliverNotification).toHaveBeenCalledWith(
+			expect.objectContaining({ id: "channel-2" }),
+			"digest",
+			expect.anything(),
+		);
+	});
+});
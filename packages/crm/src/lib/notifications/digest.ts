@@ -0,0 +1,355 @@
+/**
+ * Notification Digests.
+ *
+ * Sends digest-mode channels a scheduled summary instead of a message per
+ * event, per specs/09-notifications.md. A digest covers the time since the
+ * channel's previous digest, with a section for each event it subscribes to:
+ *
+ * - lead.created: new leads
+ * - lead.status_changed: status changes and proposals that have gone stale
+ * - contact.follow_up_due: follow-ups that are overdue
+ *
+ * Lead sections only list leads that match the channel's routing rules, as
+ * realtime notifications do. Digests with nothing to report are skipped.
+ */
+
+import { and, asc, desc, eq, gte, isNotNull, isNull, lt, ne, or } from "drizzle-orm";
+import {
+	contacts,
+	db,
+	type Lead,
+	leadActivities,
+	leads,
+	type NotificationChannel,
+	notificationChannels,
+} from "../../db/index.js";
+import { createIntervalJob } from "../interval-job.js";
+import {
+	deliverNotification,
+	matchesChannelFilter,
+	toNotificationChannelInfo,
+} from "./dispatcher.js";
+import { getLatestDigestSlot } from "./schedule.js";
+import type {
+	NotificationDigestData,
+	NotificationDigestItem,
+	NotificationDigestSection,
+	NotificationPayload,
+} from "./types.js";
+import {
+	formatNotificationDate,
+	getContactUrl,
+	getLeadUrl,
+	leadToNotificationData,
+} from "./types.js";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Digest configuration.
+ */
+export const NOTIFICATION_DIGEST_CONFIG = {
+	/** How often the job checks for due digests */
+	pollIntervalMs: 60_000,
+	/** Items listed per section (the section total counts the rest) */
+	maxItemsPerSection: 10,
+	/** Proposals without an update for this long are reported as stale */
+	staleProposalDays: 14,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// DIGEST CONTENT
+// ============================================================================
+
+/**
+ * Build a section, listing up to maxItemsPerSection items.
+ */
+function toSection(title: string, items: NotificationDigestItem[]): NotificationDigestSection {
+	return {
+		title,
+		total: items.length,
+		items: items.slice(0, NOTIFICATION_DIGEST_CONFIG.maxItemsPerSection),
+	};
+}
+
+/**
+ * Check a lead against the channel's routing rules.
+ */
+function isRouted(filter: string | null, lead: Lead): boolean {
+	return matchesChannelFilter(filter, leadToNotificationData(lead));
+}
+
+/**
+ * Leads created during the period, newest first.
+ */
+async function getNewLeadsSection(
+	since: Date,
+	until: Date,
+	filter: string | null,
+): Promise<NotificationDigestSection> {
+	const rows = await db
+		.select()
+		.from(leads)
+		.where(and(gte(leads.createdAt, since), lt(leads.createdAt, until)))
+		.orderBy(desc(leads.createdAt));
+
+	return toSection(
+		"🆕 New Leads",
+		rows
+			.filter((lead) => isRouted(filter, lead))
+			.map((lead) => ({ label: lead.name, detail: lead.company, url: getLeadUrl(lead.id) })),
+	);
+}
+
+/**
+ * Status changes logged during the period, newest first.
+ */
+async function getStatusChangesSection(
+	since: Date,
+	until: Date,
+	filter: string | null,
+): Promise<NotificationDigestSection> {
+	const rows = await db
+		.select({
+			lead: leads,
+			oldStatus: leadActivities.oldStatus,
+			newStatus: leadActivities.newStatus,
+		})
+		.from(leadActivities)
+		.innerJoin(leads, eq(leadActivities.leadId, leads.id))
+		.where(
+			and(
+				eq(leadActivities.type, "status_change"),
+				gte(leadActivities.createdAt, since),
+				lt(leadActivities.createdAt, until),
+			),
+		)
+		.orderBy(desc(leadActivities.createdAt));
+
+	return toSection(
+		"🔄 Status Changes",
+		rows
+			.filter((row) => isRouted(filter, row.lead))
+			.map((row) => ({
+				label: row.lead.name,
+				detail: `${row.oldStatus ?? "unknown"} → ${row.newStatus ?? "unknown"}`,
+				url: getLeadUrl(row.lead.id),
+			})),
+	);
+}
+
+/**
+ * Proposals that haven't been updated for staleProposalDays, oldest first.
+ */
+async function getStaleProposalsSection(
+	until: Date,
+	filter: string | null,
+): Promise<NotificationDigestSection> {
+	const staleBefore = new Date(
+		until.getTime() - NOTIFICATION_DIGEST_CONFIG.staleProposalDays * DAY_MS,
+	);
+
+	const rows = await db
+		.select()
+		.from(leads)
+		.where(and(eq(leads.status, "proposal"), lt(leads.updatedAt, staleBefore)))
+		.orderBy(asc(leads.updatedAt));
+
+	return toSection(
+		"⏳ Stale Proposals",
+		rows
+			.filter((lead) => isRouted(filter, lead))
+			.map((lead) => ({
+				label: lead.name,
+				detail: `No update since ${formatNotificationDate(lead.updatedAt)}`,
+				url: getLeadUrl(lead.id),
+			})),
+	);
+}
+
+/**
+ * Contacts whose next action is overdue, most overdue first.
+ */
+async function getOverdueFollowUpsSection(until: Date): Promise<NotificationDigestSection> {
+	const rows = await db
+		.select({
+			id: contacts.id,
+			name: contacts.name,
+			nextAction: contacts.nextAction,
+			nextActionDue: contacts.nextActionDue,
+		})
+		.from(contacts)
+		.where(and(isNotNull(contacts.nextActionDue), lt(contacts.nextActionDue, until)))
+		.orderBy(asc(contacts.nextActionDue));
+
+	return toSection(
+		"⏰ Overdue Follow-ups",
+		rows.map((row) => {
+			const due = row.nextActionDue ? `due ${formatNotificationDate(row.nextActionDue)}` : null;
+			return {
+				label: row.name,
+				detail: [row.nextAction, due].filter(Boolean).join(" · ") || null,
+				url: getContactUrl(row.id),
+			};
+		}),
+	);
+}
+
+/**
+ * Build the digest for a channel.
+ *
+ * @param events - Events the channel subscribes to (selects the sections)
+ * @param period - Digest period
+ * @param since - Start of the period
+ * @param until - End of the period
+ * @param filter - The channel's routing rules (null for none)
+ * @returns The digest (sections may be empty)
+ *
+ * @example
+ * ```ts
+ * const digest = await buildNotificationDigest(["lead.created"], "daily", since, now);
+ * ```
+ */
+export async function buildNotificationDigest(
+	events: string[],
+	period: NotificationDigestData["period"],
+	since: Date,
+	until: Date,
+	filter: string | null = null,
+): Promise<NotificationDigestData> {
+	const sections: NotificationDigestSection[] = [];
+
+	if (events.includes("lead.created")) {
+		sections.push(await getNewLeadsSection(since, until, filter));
+	}
+	if (events.includes("lead.status_changed")) {
+		sections.push(await getStatusChangesSection(since, until, filter));
+		sections.push(await getStaleProposalsSection(until, filter));
+	}
+	if (events.includes("contact.follow_up_due")) {
+		sections.push(await getOverdueFollowUpsSection(until));
+	}
+
+	return { period, since, until, sections };
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Send a channel's digest if its scheduled time has passed since the last one.
+ *
+ * The digest is claimed by stamping last_digest_at in a conditional UPDATE,
+ * so concurrent runs never send the same digest twice.
+ *
+ * @returns True if a digest was sent
+ */
+async function sendDigestIfDue(channel: NotificationChannel, now: Date): Promise<boolean> {
+	const channelInfo = toNotificationChannelInfo(channel);
+	const slot = getLatestDigestSlot(channelInfo.schedule, now);
+	if (!slot || (channel.lastDigestAt && channel.lastDigestAt >= slot)) {
+		return false;
+	}
+
+	const claimed = await db
+		.update(notificationChannels)
+		.set({ lastDigestAt: now })
+		.where(
+			and(
+				eq(notificationChannels.id, channel.id),
+				or(isNull(notificationChannels.lastDigestAt), lt(notificationChannels.lastDigestAt, slot)),
+			),
+		)
+		.returning({ id: notificationChannels.id });
+
+	if (claimed.length === 0) {
+		return false;
+	}
+
+	const period = channel.deliveryMode === "weekly" ? "weekly" : "daily";
+	const since =
+		channel.lastDigestAt ?? new Date(slot.getTime() - (period === "weekly" ? 7 : 1) * DAY_MS);
+	const digest = await buildNotificationDigest(channel.events, period, since, now, channel.filter);
+
+	if (digest.sections.every((section) => section.total === 0)) {
+		console.log(`Skipping empty ${period} digest for "${channel.name}"`);
+		return false;
+	}
+
+	const payload: NotificationPayload = { event: "digest", digest };
+	const result = await deliverNotification(channelInfo, "digest", payload);
+
+	if (!result.success) {
+		console.error(`Digest to "${channel.name}" failed: ${result.error}`);
+	}
+
+	return true;
+}
+
+/**
+ * Send every digest that has come due since the last run.
+ *
+ * @param now - Current time (injectable for tests)
+ * @returns Number of digests sent
+ *
+ * @example
+ * ```ts
+ * const sent = await processNotificationDigests();
+ * ```
+ */
+export async function processNotificationDigests(now: Date = new Date()): Promise<number> {
+	const channels = await db
+		.select()
+		.from(notificationChannels)
+		.where(
+			and(
+				eq(notificationChannels.enabled, true),
+				ne(notificationChannels.deliveryMode, "realtime"),
+			),
+		);
+
+	let sent = 0;
+	for (const channel of channels) {
+		try {
+			if (await sendDigestIfDue(channel, now)) {
+				sent++;
+			}
+		} catch (error) {
+			console.error(`Failed to send digest for channel ${channel.id}:`, error);
+		}
+	}
+
+	return sent;
+}
+
+// ============================================================================
+// SCHEDULED JOB
+// ============================================================================
+
+const digestJob = createIntervalJob(
+	"Notification digest job",
+	NOTIFICATION_DIGEST_CONFIG.pollIntervalMs,
+	() => processNotificationDigests(),
+);
+
+/**
+ * Start the job that sends scheduled digests, every
+ * NOTIFICATION_DIGEST_CONFIG.pollIntervalMs unless an interval is given.
+ *
+ * @example
+ * ```ts
+ * // On server startup
+ * startNotificationDigestJob();
+ * ```
+ */
+export const startNotificationDigestJob = digestJob.start;
+
+/**
+ * Stop the notification digest job.
+ */
+export const stopNotificationDigestJob = digestJob.stop;
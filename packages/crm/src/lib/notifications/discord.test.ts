@@ -8,9 +8,16 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
 	DISCORD_CONFIG,
 	discordProvider,
+	formatBookingCancelledEmbed,
+	formatBookingCreatedEmbed,
+	formatBookingRescheduledEmbed,
+	formatContactFollowUpDueEmbed,
+	formatDigestEmbed,
 	formatDiscordPayload,
+	formatLeadActivityAddedEmbed,
 	formatLeadCreatedEmbed,
 	formatLeadStatusChangedEmbed,
+	formatWebhookAutoDisabledEmbed,
 	sendDiscordNotification,
 	validateDiscordConfig,
 } from "./discord";
@@ -201,6 +208,36 @@ describe("formatLeadCreatedEmbed", () => {
 		expect(result.embeds[0].description?.length).toBeLessThanOrEqual(1003);
 		expect(result.embeds[0].description).toContain("...");
 	});
+
+	it("should render the channel's template overrides", () => {
+		const payload = {
+			event: "lead.created" as const,
+			lead: createMockLeadData({ phone: null }),
+		};
+
+		const [embed] = formatLeadCreatedEmbed(payload, {
+			"lead.created": {
+				title: "{{lead.company}}: {{lead.name}}",
+				description: "{{lead.phone}}",
+				fields: "Budget | {{lead.budget}}\nPhone | {{lead.phone}}\nnot a field",
+			},
+		}).embeds;
+
+		expect(embed.title).toBe("Acme Inc: John Doe");
+		expect(embed.description).toBeUndefined();
+		expect(embed.fields).toEqual([{ name: "Budget", value: "$10,000 - $25,000", inline: true }]);
+	});
+
+	it("should fall back to the default for parts without an override", () => {
+		const payload = { event: "lead.created" as const, lead: createMockLeadData() };
+
+		const [embed] = formatLeadCreatedEmbed(payload, {
+			"lead.created": { title: "{{lead.name}}" },
+		}).embeds;
+
+		expect(embed.title).toBe("John Doe");
+		expect(embed.fields).toEqual(formatLeadCreatedEmbed(payload).embeds[0].fields);
+	});
 });
 
 describe("formatLeadStatusChangedEmbed", () => {
@@ -252,6 +289,233 @@ describe("formatDiscordPayload", () => {
 	});
 });
 
+// ============================================================================
+// ADDITIONAL EVENT FORMATTING TESTS
+// ============================================================================
+
+type PayloadFor<E extends NotificationPayload["event"]> = Extract<
+	NotificationPayload,
+	{ event: E }
+>;
+
+const activityPayload: PayloadFor<"lead.activity_added"> = {
+	event: "lead.activity_added",
+	lead: createMockLeadData(),
+	activity: {
+		id: "activity-123",
+		type: "call",
+		description: "Discussed <scope> & timeline",
+		createdAt: new Date("2024-01-16T10:00:00Z"),
+	},
+};
+
+const followUpPayload: PayloadFor<"contact.follow_up_due"> = {
+	event: "contact.follow_up_due",
+	contact: {
+		id: "contact-123",
+		name: "Jane Smith",
+		email: "jane@globex.com",
+		role: "CTO",
+		companyName: "Globex",
+		nextAction: "Send proposal",
+		nextActionDue: new Date("2025-01-20T10:00:00Z"),
+	},
+};
+
+const webhookDisabledPayload: PayloadFor<"webhook.auto_disabled"> = {
+	event: "webhook.auto_disabled",
+	webhook: {
+		id: "webhook-123",
+		name: "Zapier",
+		url: "https://hooks.zapier.com/hooks/catch/123",
+		events: ["lead.created", "lead.updated"],
+		failureCount: 10,
+	},
+};
+
+const bookingPayload: PayloadFor<"booking.created"> = {
+	event: "booking.created",
+	booking: {
+		title: "Discovery Call",
+		startTime: new Date("2025-01-20T10:00:00Z"),
+		endTime: new Date("2025-01-20T10:30:00Z"),
+		attendeeName: "John Doe",
+		attendeeEmail: "john@example.com",
+	},
+	lead: createMockLeadData(),
+	isNewLead: true,
+};
+
+const rescheduledPayload: PayloadFor<"booking.rescheduled"> = {
+	event: "booking.rescheduled",
+	booking: { ...bookingPayload.booking, startTime: new Date("2025-01-22T15:00:00Z") },
+	lead: createMockLeadData(),
+	previousStartTime: new Date("2025-01-20T10:00:00Z"),
+};
+
+const cancelledPayload: PayloadFor<"booking.cancelled"> = {
+	event: "booking.cancelled",
+	booking: bookingPayload.booking,
+	lead: createMockLeadData(),
+	reason: "Went with <another> agency",
+};
+
+const digestPayload: PayloadFor<"digest"> = {
+	event: "digest",
+	digest: {
+		period: "daily",
+		since: new Date("2025-01-19T09:00:00Z"),
+		until: new Date("2025-01-20T09:00:00Z"),
+		sections: [
+			{
+				title: "🆕 New Leads",
+				total: 12,
+				items: [
+					{
+						label: "John <Doe>",
+						detail: "Acme & Co",
+						url: "https://crm.example.com/leads/lead-123",
+					},
+				],
+			},
+			{ title: "⏰ Overdue Follow-ups", total: 0, items: [] },
+		],
+	},
+};
+
+describe("formatLeadActivityAddedEmbed", () => {
+	it("should create embed with activity description and type", () => {
+		const embed = formatLeadActivityAddedEmbed(activityPayload).embeds[0];
+
+		expect(embed.title).toBe("📝 Activity Added: John Doe");
+		expect(embed.description).toBe("Discussed <scope> & timeline");
+		expect(embed.fields.find((f) => f.name === "🏷️ Type")?.value).toBe("call");
+		expect(embed.url).toContain("/leads/lead-123");
+	});
+});
+
+describe("formatContactFollowUpDueEmbed", () => {
+	it("should create embed with next action and due date", () => {
+		const embed = formatContactFollowUpDueEmbed(followUpPayload).embeds[0];
+
+		expect(embed.title).toBe("⏰ Follow-up Due: Jane Smith");
+		expect(embed.description).toBe("Send proposal");
+		expect(embed.fields.map((f) => f.value)).toEqual([
+			"Jan 20, 2025, 10:00 AM UTC",
+			"jane@globex.com",
+			"Globex",
+		]);
+		expect(embed.url).toContain("/contacts/contact-123");
+	});
+});
+
+describe("formatWebhookAutoDisabledEmbed", () => {
+	it("should create alert embed linking to the delivery history", () => {
+		const embed = formatWebhookAutoDisabledEmbed(webhookDisabledPayload).embeds[0];
+
+		expect(embed.title).toBe("⚠️ Webhook Auto-Disabled: Zapier");
+		expect(embed.color).toBe(DISCORD_CONFIG.alertColor);
+		expect(embed.description).toContain("10 consecutive delivery failures");
+		expect(embed.fields[1].value).toBe("lead.created, lead.updated");
+		expect(embed.url).toContain("/webhooks/webhook-123/deliveries");
+	});
+});
+
+describe("formatBookingCreatedEmbed", () => {
+	it("should create embed with meeting time and lead state", () => {
+		const embed = formatBookingCreatedEmbed(bookingPayload).embeds[0];
+
+		expect(embed.title).toBe("📅 New Booking: John Doe");
+		expect(embed.description).toBe("Discovery Call (new lead)");
+		expect(embed.fields.find((f) => f.name === "🕐 When")?.value).toBe(
+			"Jan 20, 2025, 10:00 AM UTC",
+		);
+	});
+
+	it("should handle bookings without a start time", () => {
+		const embed = formatBookingCreatedEmbed({
+			...bookingPayload,
+			booking: { ...bookingPayload.booking, startTime: null },
+			isNewLead: false,
+		}).embeds[0];
+
+		expect(embed.description).toBe("Discovery Call (existing lead)");
+		expect(embed.fields.find((f) => f.name === "🕐 When")?.value).toBe("Unknown time");
+	});
+});
+
+describe("formatBookingRescheduledEmbed", () => {
+	it("should show the old and new times", () => {
+		const embed = formatBookingRescheduledEmbed(rescheduledPayload).embeds[0];
+
+		expect(embed.title).toBe("🔁 Booking Rescheduled: John Doe");
+		expect(embed.fields.find((f) => f.name === "🕐 Was")?.value).toBe("Jan 20, 2025, 10:00 AM UTC");
+		expect(embed.fields.find((f) => f.name === "🕐 Now")?.value).toBe("Jan 22, 2025, 3:00 PM UTC");
+	});
+});
+
+describe("formatBookingCancelledEmbed", () => {
+	it("should use the alert color and include the reason", () => {
+		const embed = formatBookingCancelledEmbed(cancelledPayload).embeds[0];
+
+		expect(embed.title).toBe("❌ Booking Cancelled: John Doe");
+		expect(embed.color).toBe(DISCORD_CONFIG.alertColor);
+		expect(embed.fields.find((f) => f.name === "💬 Reason")?.value).toBe(
+			"Went with <another> agency",
+		);
+	});
+
+	it("should omit the reason field when none was given", () => {
+		const embed = formatBookingCancelledEmbed({ ...cancelledPayload, reason: null }).embeds[0];
+		expect(embed.fields.find((f) => f.name === "💬 Reason")).toBeUndefined();
+	});
+});
+
+describe("formatDiscordPayload (additional events)", () => {
+	it.each([
+		[activityPayload.event, activityPayload, "Activity Added"],
+		[followUpPayload.event, followUpPayload, "Follow-up Due"],
+		[webhookDisabledPayload.event, webhookDisabledPayload, "Webhook Auto-Disabled"],
+		[bookingPayload.event, bookingPayload, "New Booking"],
+		[rescheduledPayload.event, rescheduledPayload, "Booking Rescheduled"],
+		[cancelledPayload.event, cancelledPayload, "Booking Cancelled"],
+	] as const)("should format %s", (_, payload, title) => {
+		expect(formatDiscordPayload(payload).embeds[0].title).toContain(title);
+	});
+});
+
+describe("formatDigestEmbed", () => {
+	it("should create a field per section with linked items", () => {
+		const embed = formatDigestEmbed(digestPayload).embeds[0];
+
+		expect(embed.title).toBe("📬 Daily Digest");
+		expect(embed.description).toBe("Jan 19, 2025, 9:00 AM UTC – Jan 20, 2025, 9:00 AM UTC");
+		expect(embed.fields).toEqual([
+			{
+				name: "🆕 New Leads (12)",
+				value: "• [John <Doe>](https://crm.example.com/leads/lead-123) — Acme & Co\n…and 11 more",
+				inline: false,
+			},
+			{ name: "⏰ Overdue Follow-ups (0)", value: "None", inline: false },
+		]);
+	});
+
+	it("should drop lines to stay within the field limit", () => {
+		const items = Array.from({ length: 10 }, (_, i) => ({
+			label: `Lead ${i}`,
+			detail: "x".repeat(150),
+			url: `https://crm.example.com/leads/lead-${i}`,
+		}));
+		const embed = formatDigestEmbed({
+			...digestPayload,
+			digest: { ...digestPayload.digest, sections: [{ title: "🆕 New Leads", total: 10, items }] },
+		}).embeds[0];
+
+		expect(embed.fields[0].value.length).toBeLessThanOrEqual(1024);
+		expect(embed.fields[0].value).toMatch(/…and \d+ more$/);
+	});
+});
+
 // ============================================================================
 // DELIVERY TESTS
 // ============================================================================
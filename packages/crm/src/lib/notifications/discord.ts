@@ -11,14 +11,29 @@
  * - Graceful error handling
  */
 
+import {
+	createLeadTemplateContext,
+	renderNotificationTemplate,
+	resolveTemplates,
+} from "./templates.js";
 import type {
 	DiscordConfig,
 	NotificationConfig,
 	NotificationDeliveryResult,
 	NotificationPayload,
 	NotificationProvider,
+	NotificationTemplates,
+} from "./types.js";
+import {
+	formatDigestPeriod,
+	formatNotificationDate,
+	getContactUrl,
+	getCrmBaseUrl,
+	getDigestTitle,
+	getLeadUrl,
+	getWebhookUrl,
+	isDiscordConfig,
 } from "./types.js";
-import { getLeadUrl, isDiscordConfig } from "./types.js";
 
 // ============================================================================
 // CONSTANTS
@@ -32,8 +47,15 @@ export const DISCORD_CONFIG = {
 	timeoutMs: 10_000,
 	/** Indigo color for embed accent (6366f1 in decimal) */
 	embedColor: 6513393,
+	/** Red color for alert embeds (dc2626 in decimal) */
+	alertColor: 14427686,
 } as const;
 
+/**
+ * Maximum length of an embed field value (Discord limit).
+ */
+const MAX_FIELD_VALUE_LENGTH = 1024;
+
 /**
  * Discord webhook URL pattern for validation.
  */
@@ -73,10 +95,57 @@ interface DiscordWebhookPayload {
 	embeds: DiscordEmbed[];
 }
 
+/**
+ * Default templates for lead.created embeds. Each line of `fields` is a
+ * "Name | value" field; lines that render blank are left out.
+ */
+export const DISCORD_LEAD_CREATED_TEMPLATES = {
+	title: "🆕 New Lead: {{lead.name}}",
+	description: "{{message}}",
+	fields: [
+		"📧 Email | {{lead.email}}",
+		"{{#lead.company}}🏢 Company | {{lead.company}}{{/lead.company}}",
+		"{{#lead.phone}}📞 Phone | {{lead.phone}}{{/lead.phone}}",
+		"{{#lead.budget}}💰 Budget | {{lead.budget}}{{/lead.budget}}",
+		"{{#lead.projectType}}📋 Project | {{lead.projectType}}{{/lead.projectType}}",
+		"{{#lead.source}}🔗 Source | {{lead.source}}{{/lead.source}}",
+	].join("\n"),
+};
+
+/**
+ * Length lead messages are shortened to in embed descriptions.
+ */
+const LEAD_MESSAGE_LENGTH = 1000;
+
+/**
+ * Split rendered "Name | value" lines into embed fields, skipping blank lines
+ * and fields without a value.
+ *
+ * @param rendered - The rendered fields template
+ * @returns Embed fields
+ */
+export function parseEmbedFields(rendered: string): DiscordEmbedField[] {
+	const fields: DiscordEmbedField[] = [];
+
+	for (const line of rendered.split("\n")) {
+		const separator = line.indexOf("|");
+		if (separator === -1) continue;
+
+		const name = line.slice(0, separator).trim();
+		const value = line.slice(separator + 1).trim();
+		if (name && value) {
+			fields.push({ name, value: value.substring(0, MAX_FIELD_VALUE_LENGTH), inline: true });
+		}
+	}
+
+	return fields;
+}
+
 /**
  * Format a lead.created notification as a Discord embed.
  *
  * @param payload - The notification payload
+ * @param templates - The channel's template overrides (defaults when omitted)
  * @returns Discord webhook payload
  *
  * @example
@@ -87,18 +156,52 @@ interface DiscordWebhookPayload {
  */
 export function formatLeadCreatedEmbed(
 	payload: Extract<NotificationPayload, { event: "lead.created" }>,
+	templates?: NotificationTemplates | null,
 ): DiscordWebhookPayload {
 	const { lead } = payload;
-	const fields: DiscordEmbedField[] = [];
+	const template = resolveTemplates(templates, "lead.created", DISCORD_LEAD_CREATED_TEMPLATES);
+	const context = createLeadTemplateContext(lead, LEAD_MESSAGE_LENGTH);
 
-	// Add email field (always present)
-	fields.push({
-		name: "📧 Email",
-		value: lead.email,
-		inline: true,
-	});
+	return {
+		content: null,
+		embeds: [
+			{
+				title: renderNotificationTemplate(template.title, context),
+				description: renderNotificationTemplate(template.description, context) || undefined,
+				color: DISCORD_CONFIG.embedColor,
+				fields: parseEmbedFields(renderNotificationTemplate(template.fields, context)),
+				timestamp: new Date().toISOString(),
+				footer: { text: "Octatech CRM" },
+				url: getLeadUrl(lead.id),
+			},
+		],
+	};
+}
+
+/**
+ * Format a lead.status_changed notification as a Discord embed.
+ *
+ * @param payload - The notification payload
+ * @returns Discord webhook payload
+ */
+export function formatLeadStatusChangedEmbed(
+	payload: Extract<NotificationPayload, { event: "lead.status_changed" }>,
+): DiscordWebhookPayload {
+	const { lead, previousStatus, newStatus } = payload;
+
+	const fields: DiscordEmbedField[] = [
+		{
+			name: "📧 Email",
+			value: lead.email,
+			inline: true,
+		},
+		{
+			name: "📊 Status Change",
+			value: `${previousStatus} → ${newStatus}`,
+			inline: true,
+		},
+	];
 
-	// Add company field if present
 	if (lead.company) {
 		fields.push({
 			name: "🏢 Company",
@@ -107,85 +210,184 @@ export function formatLeadCreatedEmbed(
 		});
 	}
 
-	// Add phone field if present
-	if (lead.phone) {
-		fields.push({
-			name: "📞 Phone",
-			value: lead.phone,
+	return {
+		content: null,
+		embeds: [
+			{
+				title: `📊 Status Changed: ${lead.name}`,
+				color: DISCORD_CONFIG.embedColor,
+				fields,
+				timestamp: new Date().toISOString(),
+				footer: { text: "Octatech CRM" },
+				url: getLeadUrl(lead.id),
+			},
+		],
+	};
+}
+
+/**
+ * Format a lead.activity_added notification as a Discord embed.
+ *
+ * @param payload - The notification payload
+ * @returns Discord webhook payload
+ */
+export function formatLeadActivityAddedEmbed(
+	payload: Extract<NotificationPayload, { event: "lead.activity_added" }>,
+): DiscordWebhookPayload {
+	const { lead, activity } = payload;
+
+	const fields: DiscordEmbedField[] = [
+		{
+			name: "📧 Email",
+			value: lead.email,
 			inline: true,
-		});
-	}
+		},
+		{
+			name: "🏷️ Type",
+			value: activity.type,
+			inline: true,
+		},
+	];
 
-	// Add budget field if present
-	if (lead.budget) {
+	if (lead.company) {
 		fields.push({
-			name: "💰 Budget",
-			value: lead.budget,
+			name: "🏢 Company",
+			value: lead.company,
 			inline: true,
 		});
 	}
 
-	// Add project type field if present
-	if (lead.projectType) {
+	const maxDescriptionLength = 1000;
+	const truncatedDescription =
+		activity.description.length > maxDescriptionLength
+			? `${activity.description.substring(0, maxDescriptionLength)}...`
+			: activity.description;
+
+	return {
+		content: null,
+		embeds: [
+			{
+				title: `📝 Activity Added: ${lead.name}`,
+				description: truncatedDescription,
+				color: DISCORD_CONFIG.embedColor,
+				fields,
+				timestamp: new Date().toISOString(),
+				footer: { text: "Octatech CRM" },
+				url: getLeadUrl(lead.id),
+			},
+		],
+	};
+}
+
+/**
+ * Format a contact.follow_up_due notification as a Discord embed.
+ *
+ * @param payload - The notification payload
+ * @returns Discord webhook payload
+ */
+export function formatContactFollowUpDueEmbed(
+	payload: Extract<NotificationPayload, { event: "contact.follow_up_due" }>,
+): DiscordWebhookPayload {
+	const { contact } = payload;
+
+	const fields: DiscordEmbedField[] = [
+		{
+			name: "⏰ Due",
+			value: formatNotificationDate(contact.nextActionDue),
+			inline: true,
+		},
+	];
+
+	if (contact.email) {
 		fields.push({
-			name: "📋 Project",
-			value: lead.projectType,
+			name: "📧 Email",
+			value: contact.email,
 			inline: true,
 		});
 	}
 
-	// Add source field if present
-	if (lead.source) {
+	if (contact.companyName) {
 		fields.push({
-			name: "🔗 Source",
-			value: lead.source,
+			name: "🏢 Company",
+			value: contact.companyName,
 			inline: true,
 		});
 	}
 
-	// Truncate message if too long for embed description
-	const maxMessageLength = 1000;
-	const truncatedMessage =
-		lead.message.length > maxMessageLength
-			? `${lead.message.substring(0, maxMessageLength)}...`
-			: lead.message;
-
 	return {
 		content: null,
 		embeds: [
 			{
-				title: `🆕 New Lead: ${lead.name}`,
-				description: truncatedMessage,
+				title: `⏰ Follow-up Due: ${contact.name}`,
+				description: contact.nextAction || undefined,
 				color: DISCORD_CONFIG.embedColor,
 				fields,
 				timestamp: new Date().toISOString(),
 				footer: { text: "Octatech CRM" },
-				url: getLeadUrl(lead.id),
+				url: getContactUrl(contact.id),
 			},
 		],
 	};
 }
 
 /**
- * Format a lead.status_changed notification as a Discord embed.
+ * Format a webhook.auto_disabled notification as a Discord embed.
  *
  * @param payload - The notification payload
  * @returns Discord webhook payload
  */
-export function formatLeadStatusChangedEmbed(
-	payload: Extract<NotificationPayload, { event: "lead.status_changed" }>,
+export function formatWebhookAutoDisabledEmbed(
+	payload: Extract<NotificationPayload, { event: "webhook.auto_disabled" }>,
 ): DiscordWebhookPayload {
-	const { lead, previousStatus, newStatus } = payload;
+	const { webhook } = payload;
+
+	return {
+		content: null,
+		embeds: [
+			{
+				title: `⚠️ Webhook Auto-Disabled: ${webhook.name}`,
+				description: `Disabled after ${webhook.failureCount} consecutive delivery failures. Re-enable it once the endpoint is fixed.`,
+				color: DISCORD_CONFIG.alertColor,
+				fields: [
+					{
+						name: "🔗 URL",
+						value: webhook.url,
+						inline: false,
+					},
+					{
+						name: "📋 Events",
+						value: webhook.events.join(", "),
+						inline: false,
+					},
+				],
+				timestamp: new Date().toISOString(),
+				footer: { text: "Octatech CRM" },
+				url: getWebhookUrl(webhook.id),
+			},
+		],
+	};
+}
+
+/**
+ * Format a booking.created notification as a Discord embed.
+ *
+ * @param payload - The notification payload
+ * @returns Discord webhook payload
+ */
+export function formatBookingCreatedEmbed(
+	payload: Extract<NotificationPayload, { event: "booking.created" }>,
+): DiscordWebhookPayload {
+	const { booking, lead, isNewLead } = payload;
 
 	const fields: DiscordEmbedField[] = [
 		{
 			name: "📧 Email",
-			value: lead.email,
+			value: booking.attendeeEmail,
 			inline: true,
 		},
 		{
-			name: "📊 Status Change",
-			value: `${previousStatus} → ${newStatus}`,
+			name: "🕐 When",
+			value: booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time",
 			inline: true,
 		},
 	];
@@ -202,7 +404,8 @@ export function formatLeadStatusChangedEmbed(
 		content: null,
 		embeds: [
 			{
-				title: `📊 Status Changed: ${lead.name}`,
+				title: `📅 New Booking: ${booking.attendeeName}`,
+				description: isNewLead ? `${booking.title} (new lead)` : `${booking.title} (existing lead)`,
 				color: DISCORD_CONFIG.embedColor,
 				fields,
 				timestamp: new Date().toISOString(),
@@ -213,17 +416,175 @@ export function formatLeadStatusChangedEmbed(
 	};
 }
 
+/**
+ * Format a booking.rescheduled notification as a Discord embed.
+ *
+ * @param payload - The notification payload
+ * @returns Discord webhook payload
+ */
+export function formatBookingRescheduledEmbed(
+	payload: Extract<NotificationPayload, { event: "booking.rescheduled" }>,
+): DiscordWebhookPayload {
+	const { booking, lead, previousStartTime } = payload;
+
+	return {
+		content: null,
+		embeds: [
+			{
+				title: `🔁 Booking Rescheduled: ${booking.attendeeName}`,
+				description: booking.title,
+				color: DISCORD_CONFIG.embedColor,
+				fields: [
+					{
+						name: "🕐 Was",
+						value: previousStartTime ? formatNotificationDate(previousStartTime) : "Unknown time",
+						inline: true,
+					},
+					{
+						name: "🕐 Now",
+						value: booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time",
+						inline: true,
+					},
+					{
+						name: "📧 Email",
+						value: booking.attendeeEmail,
+						inline: true,
+					},
+				],
+				timestamp: new Date().toISOString(),
+				footer: { text: "Octatech CRM" },
+				url: getLeadUrl(lead.id),
+			},
+		],
+	};
+}
+
+/**
+ * Format a booking.cancelled notification as a Discord embed.
+ *
+ * @param payload - The notification payload
+ * @returns Discord webhook payload
+ */
+export function formatBookingCancelledEmbed(
+	payload: Extract<NotificationPayload, { event: "booking.cancelled" }>,
+): DiscordWebhookPayload {
+	const { booking, lead, reason } = payload;
+
+	const fields: DiscordEmbedField[] = [
+		{
+			name: "🕐 Was",
+			value: booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time",
+			inline: true,
+		},
+		{
+			name: "📧 Email",
+			value: booking.attendeeEmail,
+			inline: true,
+		},
+	];
+
+	if (reason) {
+		fields.push({
+			name: "💬 Reason",
+			value: reason.substring(0, MAX_FIELD_VALUE_LENGTH),
+			inline: false,
+		});
+	}
+
+	return {
+		content: null,
+		embeds: [
+			{
+				title: `❌ Booking Cancelled: ${booking.attendeeName}`,
+				description: booking.title,
+				color: DISCORD_CONFIG.alertColor,
+				fields,
+				timestamp: new Date().toISOString(),
+				footer: { text: "Octatech CRM" },
+				url: getLeadUrl(lead.id),
+			},
+		],
+	};
+}
+
+/**
+ * Format a digest notification as a Discord embed with a field per section.
+ *
+ * @param payload - The notification payload
+ * @returns Discord webhook payload
+ */
+export function formatDigestEmbed(
+	payload: Extract<NotificationPayload, { event: "digest" }>,
+): DiscordWebhookPayload {
+	const { digest } = payload;
+
+	const fields: DiscordEmbedField[] = digest.sections.map((section) => {
+		const lines = section.items.map(
+			(item) => `• [${item.label}](${item.url})${item.detail ? ` — ${item.detail}` : ""}`,
+		);
+
+		// Drop whole lines (counting them as "more") until the value fits
+		const render = (shown: number) => {
+			const more = section.total - shown;
+			const visible = more > 0 ? [...lines.slice(0, shown), `…and ${more} more`] : lines;
+			return visible.join("\n") || "None";
+		};
+		let shown = lines.length;
+		let value = render(shown);
+		while (value.length > MAX_FIELD_VALUE_LENGTH && shown > 0) {
+			shown--;
+			value = render(shown);
+		}
+
+		return { name: `${section.title} (${section.total})`, value, inline: false };
+	});
+
+	return {
+		content: null,
+		embeds: [
+			{
+				title: getDigestTitle(digest),
+				description: formatDigestPeriod(digest),
+				color: DISCORD_CONFIG.embedColor,
+				fields,
+				timestamp: new Date().toISOString(),
+				footer: { text: "Octatech CRM" },
+				url: getCrmBaseUrl(),
+			},
+		],
+	};
+}
+
 /**
  * Format a notification payload as a Discord webhook payload.
  *
  * @param payload - The notification payload
+ * @param templates - The channel's template overrides
  * @returns Discord webhook payload
  */
-export function formatDiscordPayload(payload: NotificationPayload): DiscordWebhookPayload {
-	if (payload.event === "lead.created") {
-		return formatLeadCreatedEmbed(payload);
-	} else {
-		return formatLeadStatusChangedEmbed(payload);
+export function formatDiscordPayload(
+	payload: NotificationPayload,
+	templates?: NotificationTemplates | null,
+): DiscordWebhookPayload {
+	switch (payload.event) {
+		case "lead.created":
+			return formatLeadCreatedEmbed(payload, templates);
+		case "lead.status_changed":
+			return formatLeadStatusChangedEmbed(payload);
+		case "lead.activity_added":
+			return formatLeadActivityAddedEmbed(payload);
+		case "contact.follow_up_due":
+			return formatContactFollowUpDueEmbed(payload);
+		case "webhook.auto_disabled":
+			return formatWebhookAutoDisabledEmbed(payload);
+		case "booking.created":
+			return formatBookingCreatedEmbed(payload);
+		case "booking.rescheduled":
+			return formatBookingRescheduledEmbed(payload);
+		case "booking.cancelled":
+			return formatBookingCancelledEmbed(payload);
+		case "digest":
+			return formatDigestEmbed(payload);
 	}
 }
 
@@ -278,6 +639,7 @@ export function validateDiscordConfig(config: unknown): {
  *
  * @param config - Discord configuration with webhook URL
  * @param payload - The notification payload
+ * @param templates - The channel's template overrides
  * @returns Delivery result
  *
  * @example
@@ -295,6 +657,7 @@ export function validateDiscordConfig(config: unknown): {
 export async function sendDiscordNotification(
 	config: DiscordConfig,
 	payload: NotificationPayload,
+	templates?: NotificationTemplates | null,
 ): Promise<NotificationDeliveryResult> {
 	const startTime = Date.now();
 
@@ -309,7 +672,7 @@ export async function sendDiscordNotification(
 	}
 
 	// Format the payload
-	const discordPayload = formatDiscordPayload(payload);
+	const discordPayload = formatDiscordPayload(payload, templates);
 	const body = JSON.stringify(discordPayload);
 
 	// Create AbortController for timeout
@@ -402,6 +765,7 @@ export const discordProvider: NotificationProvider = {
 	async send(
 		config: NotificationConfig,
 		payload: NotificationPayload,
+		templates?: NotificationTemplates | null,
 	): Promise<NotificationDeliveryResult> {
 		if (!isDiscordConfig(config)) {
 			return {
@@ -410,7 +774,7 @@ export const discordProvider: NotificationProvider = {
 				durationMs: 0,
 			};
 		}
-		return sendDiscordNotification(config, payload);
+		return sendDiscordNotification(config, payload, templates);
 	},
 
 	validateConfig(config: unknown): { valid: boolean; error?: string } {
@@ -5,7 +5,7 @@
  * per specs/09-notifications.md.
  */
 
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
 
 // Mock the database module BEFORE importing dispatcher
 vi.mock("../../db", () => ({
@@ -31,44 +31,78 @@ vi.mock("../../db", () => ({
 		})),
 	},
 	notificationChannels: {},
+	notificationDeliveries: {},
 }));
 
 // Mock the providers
-vi.mock("./discord", () => ({
+vi.mock("./discord", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./discord")>()),
 	discordProvider: {
 		send: vi.fn(() => Promise.resolve({ success: true, durationMs: 100, statusCode: 200 })),
 		validateConfig: vi.fn(() => ({ valid: true })),
 	},
 }));
 
-vi.mock("./telegram", () => ({
+vi.mock("./telegram", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./telegram")>()),
 	telegramProvider: {
 		send: vi.fn(() => Promise.resolve({ success: true, durationMs: 100, statusCode: 200 })),
 		validateConfig: vi.fn(() => ({ valid: true })),
 	},
 }));
 
-vi.mock("./email", () => ({
+vi.mock("./slack", () => ({
+	slackProvider: {
+		send: vi.fn(() => Promise.resolve({ success: true, durationMs: 100, statusCode: 200 })),
+		validateConfig: vi.fn(() => ({ valid: true })),
+	},
+}));
+
+vi.mock("./push", () => ({
+	pushProvider: {
+		send: vi.fn(() => Promise.resolve({ success: true, durationMs: 100, statusCode: 200 })),
+		validateConfig: vi.fn(() => ({ valid: true })),
+	},
+}));
+
+vi.mock("./email", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./email")>()),
 	emailProvider: {
 		send: vi.fn(() => Promise.resolve({ success: true, durationMs: 100, statusCode: 200 })),
 		validateConfig: vi.fn(() => ({ valid: true })),
 	},
 }));
 
-import type { Lead } from "../../db";
+import type { Lead, LeadActivity, Webhook } from "../../db";
 import { db } from "../../db";
 import { discordProvider } from "./discord";
 import {
 	dispatchNotification,
 	dispatchNotificationAsync,
 	getChannelsForEvent,
+	getDefaultChannelTemplates,
+	isTransientFailure,
+	matchesChannelFilter,
+	NOTIFICATION_RETRY_CONFIG,
+	NOTIFICATION_RETRY_DELAYS_MS,
+	previewChannelTemplates,
+	processNotificationRetryQueue,
 	sendTestNotification,
+	triggerBookingCancelledNotification,
+	triggerBookingCreatedNotification,
+	triggerBookingRescheduledNotification,
+	triggerLeadActivityAddedNotification,
 	triggerLeadCreatedNotification,
 	triggerLeadStatusChangedNotification,
+	triggerWebhookAutoDisabledNotification,
 	validateChannelConfig,
+	validateChannelTemplates,
 } from "./dispatcher";
 import { emailProvider } from "./email";
+import { pushProvider } from "./push";
+import { slackProvider } from "./slack";
 import { telegramProvider } from "./telegram";
+import { leadToNotificationData } from "./types";
 
 // ============================================================================
 // TEST FIXTURES
@@ -104,13 +138,14 @@ function createMockLead(overrides: Partial<Lead> = {}): Lead {
  * Create mock channel data.
  */
 function createMockChannel(
-	type: "discord" | "telegram" | "email",
+	type: "discord" | "telegram" | "email" | "push",
 	overrides: Record<string, unknown> = {},
 ) {
 	const configs = {
 		discord: { webhook_url: "https://discord.com/api/webhooks/123/abc" },
 		telegram: { bot_token: "123:abc", chat_id: "-100123" },
 		email: { to: "admin@example.com", from: "crm@octatech.xyz" },
+		push: { url: "https://ntfy.sh/octatech-leads", priority: "high" },
 	};
 
 	return {
@@ -120,6 +155,15 @@ function createMockChannel(
 		config: configs[type],
 		events: ["lead.created", "lead.status_changed"],
 		enabled: true,
+		filter: null,
+		templates: null,
+		deliveryMode: "realtime",
+		digestHour: 9,
+		digestDay: 1,
+		timezone: "UTC",
+		quietHoursStart: null,
+		quietHoursEnd: null,
+		lastDigestAt: null,
 		createdAt: new Date(),
 		updatedAt: new Date(),
 		...overrides,
@@ -181,6 +225,70 @@ describe("getChannelsForEvent", () => {
 		// Just verify the query was made
 		expect(db.select).toHaveBeenCalled();
 	});
+
+	it("should skip channels whose routing rules don't match the lead", async () => {
+		const mockChannels = [
+			createMockChannel("discord", {
+				filter: "budget >= 50000 or projectType == 'Legacy Modernization'",
+			}),
+			createMockChannel("email", { filter: "source == 'Referral'" }),
+			createMockChannel("telegram"),
+		];
+
+		vi.mocked(db.select).mockReturnValue({
+			from: vi.fn(() => ({
+				where: vi.fn(() => Promise.resolve(mockChannels)),
+			})),
+		} as any);
+
+		const lead = leadToNotificationData(
+			createMockLead({ budget: "$50,000 - $100,000", source: "LinkedIn" }),
+		);
+		const channels = await getChannelsForEvent("lead.created", lead);
+
+		expect(channels.map((c) => c.type)).toEqual(["discord", "telegram"]);
+	});
+
+	it("should ignore routing rules for events without a lead", async () => {
+		const mockChannels = [
+			createMockChannel("email", {
+				events: ["contact.follow_up_due"],
+				filter: "source == 'Referral'",
+			}),
+		];
+
+		vi.mocked(db.select).mockReturnValue({
+			from: vi.fn(() => ({
+				where: vi.fn(() => Promise.resolve(mockChannels)),
+			})),
+		} as any);
+
+		const channels = await getChannelsForEvent("contact.follow_up_due");
+
+		expect(channels).toHaveLength(1);
+		expect(channels[0].filter).toBe("source == 'Referral'");
+	});
+});
+
+describe("matchesChannelFilter", () => {
+	const lead = leadToNotificationData(
+		createMockLead({ source: "Referral", tags: ["vip", "enterprise"] }),
+	);
+
+	it("should match every lead without rules", () => {
+		expect(matchesChannelFilter(null, lead)).toBe(true);
+	});
+
+	it("should evaluate rules over lead fields and tags", () => {
+		expect(matchesChannelFilter("source == 'referral'", lead)).toBe(true);
+		expect(matchesChannelFilter("tags contains 'vip' and budget >= 50000", lead)).toBe(false);
+		expect(matchesChannelFilter("tags in ['enterprise']", lead)).toBe(true);
+	});
+
+	it("should match nothing when the rules no longer parse", () => {
+		expect(matchesChannelFilter("notes == 'x'", lead)).toBe(false);
+		expect(matchesChannelFilter("source ==", lead)).toBe(false);
+	});
 });
 
 // ============================================================================
@@ -244,6 +352,25 @@ describe("dispatchNotification", () => {
 		expect(emailProvider.send).toHaveBeenCalled();
 	});
 
+	it("should pass the channel's templates to its provider", async () => {
+		const templates = { "lead.created": { title: "{{lead.name}}" } };
+		const mockChannels = [createMockChannel("discord", { templates })];
+
+		vi.mocked(db.select).mockReturnValue({
+			from: vi.fn(() => ({
+				where: vi.fn(() => Promise.resolve(mockChannels)),
+			})),
+		} as any);
+
+		const payload = {
+			event: "lead.created" as const,
+			lead: leadToNotificationData(createMockLead()),
+		};
+		await dispatchNotification("lead.created", payload);
+
+		expect(discordProvider.send).toHaveBeenCalledWith(mockChannels[0].config, payload, templates);
+	});
+
 	it("should return results for each channel", async () => {
 		const mockChannels = [createMockChannel("discord")];
 
@@ -318,16 +445,13 @@ describe("dispatchNotification", () => {
 
 	it("should handle unknown channel type", async () => {
 		const mockChannels = [
-			{
+			createMockChannel("discord", {
 				id: "channel-unknown",
 				type: "sms", // Unknown type
 				name: "SMS Channel",
 				config: {},
 				events: ["lead.created"],
-				enabled: true,
-				createdAt: new Date(),
-				updatedAt: new Date(),
-			},
+			}),
 		];
 
 		vi.mocked(db.select).mockReturnValue({
@@ -410,6 +534,18 @@ describe("validateChannelConfig", () => {
 		expect(emailProvider.validateConfig).toHaveBeenCalledWith(config);
 	});
 
+	it("should validate Slack config", () => {
+		const config = { webhook_url: "https://hooks.slack.com/services/T000/B000/abc" };
+		const _result = validateChannelConfig("slack", config);
+		expect(slackProvider.validateConfig).toHaveBeenCalledWith(config);
+	});
+
+	it("should validate push config", () => {
+		const config = { url: "https://ntfy.sh/octatech-leads" };
+		const _result = validateChannelConfig("push", config);
+		expect(pushProvider.validateConfig).toHaveBeenCalledWith(config);
+	});
+
 	it("should reject unknown channel type", () => {
 		const result = validateChannelConfig("sms" as any, {});
 		expect(result.valid).toBe(false);
@@ -417,6 +553,65 @@ describe("validateChannelConfig", () => {
 	});
 });
 
+// ============================================================================
+// MESSAGE TEMPLATE TESTS
+// ============================================================================
+
+describe("message templates", () => {
+	it("should list default templates for types that support them", () => {
+		expect(Object.keys(getDefaultChannelTemplates("telegram") ?? {})).toEqual(["lead.created"]);
+		expect(getDefaultChannelTemplates("slack")).toBeNull();
+	});
+
+	it("should preview the message for the sample lead", () => {
+		const preview = previewChannelTemplates("email", {
+			"lead.created": { subject: "{{lead.name}} from {{lead.company}}" },
+		}) as { subject: string; html: string };
+
+		expect(preview.subject).toBe("Test Lead from Test Company Inc");
+		expect(preview.html).toContain("New Lead Received");
+		expect(previewChannelTemplates("push", null)).toBeNull();
+	});
+
+	it("should accept valid overrides", () => {
+		expect(
+			validateChannelTemplates("discord", {
+				"lead.created": { fields: "{{#lead.tags}}Tags | {{lead.tags}}{{/lead.tags}}" },
+			}),
+		).toEqual({ valid: true });
+	});
+
+	it.each([
+		["push", { "lead.created": { text: "x" } }, "push channels don't support message templates"],
+		[
+			"telegram",
+			{ "lead.created": { title: "x" } },
+			'Unknown template part "title" for lead.created',
+		],
+		[
+			"telegram",
+			{ "lead.created": { text: "{{lead.salary}}" } },
+			'lead.created text: Unknown field "lead.salary"',
+		],
+		["telegram", { "lead.created": { text: "{{#lead.phone}}" } }, 'Missing "{{/lead.phone}}"'],
+		[
+			"telegram",
+			{ "lead.created": { text: "{{^message}}x{{/message}}" } },
+			"text must not render empty",
+		],
+		[
+			"discord",
+			{ "lead.created": { title: "x".repeat(300) } },
+			"title must render at most 256 characters",
+		],
+	])("should reject %s templates %o", (type, templates, error) => {
+		const result = validateChannelTemplates(type as "telegram", templates);
+
+		expect(result.valid).toBe(false);
+		expect(result.error).toContain(error);
+	});
+});
+
 // ============================================================================
 // TEST NOTIFICATION TESTS
 // ============================================================================
@@ -456,6 +651,27 @@ describe("sendTestNotification", () => {
 		expect(result?.channelType).toBe("discord");
 		expect(discordProvider.send).toHaveBeenCalled();
 	});
+
+	it("should send test notification to a push channel", async () => {
+		const mockChannel = createMockChannel("push");
+
+		vi.mocked(db.select).mockReturnValue({
+			from: vi.fn(() => ({
+				where: vi.fn(() => ({
+					limit: vi.fn(() => Promise.resolve([mockChannel])),
+				})),
+			})),
+		} as any);
+
+		const result = await sendTestNotification("channel-push");
+
+		expect(result?.channelType).toBe("push");
+		expect(pushProvider.send).toHaveBeenCalledWith(
+			mockChannel.config,
+			expect.objectContaining({ event: "lead.created" }),
+			null,
+		);
+	});
 });
 
 // ============================================================================
@@ -501,3 +717,557 @@ describe("triggerLeadStatusChangedNotification", () => {
 		}).not.toThrow();
 	});
 });
+
+describe("additional event triggers", () => {
+	/**
+	 * Subscribe a Discord channel to the event and return the payload it receives.
+	 */
+	async function captureDispatchedPayload(event: string, trigger: () => void) {
+		vi.mocked(db.select).mockReturnValue({
+			from: vi.fn(() => ({
+				where: vi.fn(() => Promise.resolve([createMockChannel("discord", { events: [event] })])),
+			})),
+		} as any);
+
+		trigger();
+		await new Promise((resolve) => setTimeout(resolve, 10));
+
+		expect(discordProvider.send).toHaveBeenCalledTimes(1);
+		return vi.mocked(discordProvider.send).mock.calls[0][1];
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("should dispatch lead.activity_added with the activity", async () => {
+		const activity: LeadActivity = {
+			id: "activity-1",
+			leadId: "lead-123",
+			type: "call",
+			description: "Scoping call",
+			oldStatus: null,
+			newStatus: null,
+			createdAt: new Date("2024-01-16T10:00:00Z"),
+		};
+
+		const payload = await captureDispatchedPayload("lead.activity_added", () =>
+			triggerLeadActivityAddedNotification(createMockLead(), activity),
+		);
+
+		expect(payload).toEqual({
+			event: "lead.activity_added",
+			lead: expect.objectContaining({ id: "lead-123" }),
+			activity: {
+				id: "activity-1",
+				type: "call",
+				description: "Scoping call",
+				createdAt: activity.createdAt,
+			},
+		});
+	});
+
+	it("should dispatch webhook.auto_disabled with the failure count", async () => {
+		const webhook = {
+			id: "webhook-1",
+			name: "Zapier",
+			url: "https://hooks.zapier.com/hooks/catch/123",
+			events: ["lead.created"],
+		} as Webhook;
+
+		const payload = await captureDispatchedPayload("webhook.auto_disabled", () =>
+			triggerWebhookAutoDisabledNotification(webhook, 10),
+		);
+
+		expect(payload).toEqual({
+			event: "webhook.auto_disabled",
+			webhook: {
+				id: "webhook-1",
+				name: "Zapier",
+				url: "https://hooks.zapier.com/hooks/catch/123",
+				events: ["lead.created"],
+				failureCount: 10,
+			},
+		});
+	});
+
+	it("should dispatch booking.created with the booking", async () => {
+		const booking = {
+			title: "Discovery Call",
+			startTime: new Date("2025-01-20T10:00:00Z"),
+			endTime: null,
+			attendeeName: "John Doe",
+			attendeeEmail: "john@example.com",
+		};
+
+		const payload = await captureDispatchedPayload("booking.created", () =>
+			triggerBookingCreatedNotification(createMockLead(), booking, true),
+		);
+
+		expect(payload).toEqual({
+			event: "booking.created",
+			booking,
+			lead: expect.objectContaining({ id: "lead-123" }),
+			isNewLead: true,
+		});
+	});
+
+	it("should dispatch booking.rescheduled with the previous time", async () => {
+		const booking = {
+			title: "Discovery Call",
+			startTime: new Date("2025-01-22T15:00:00Z"),
+			endTime: null,
+			attendeeName: "John Doe",
+			attendeeEmail: "john@example.com",
+		};
+		const previousStartTime = new Date("2025-01-20T10:00:00Z");
+
+		const payload = await captureDispatchedPayload("booking.rescheduled", () =>
+			triggerBookingRescheduledNotification(createMockLead(), booking, previousStartTime),
+		);
+
+		expect(payload).toEqual({
+			event: "booking.rescheduled",
+			booking,
+			lead: expect.objectContaining({ id: "lead-123" }),
+			previousStartTime,
+		});
+	});
+
+	it("should dispatch booking.cancelled with the reason", async () => {
+		const booking = {
+			title: "Discovery Call",
+			startTime: new Date("2025-01-20T10:00:00Z"),
+			endTime: null,
+			attendeeName: "John Doe",
+			attendeeEmail: "john@example.com",
+		};
+
+		const payload = await captureDispatchedPayload("booking.cancelled", () =>
+			triggerBookingCancelledNotification(createMockLead(), booking, "Budget cut"),
+		);
+
+		expect(payload).toEqual({
+			event: "booking.cancelled",
+			booking,
+			lead: expect.objectContaining({ id: "lead-123" }),
+			reason: "Budget cut",
+		});
+	});
+});
+
+// ============================================================================
+// DELIVERY LOG & RETRY TESTS
+// ============================================================================
+
+const leadPayload = {
+	event: "lead.created" as const,
+	lead: {
+		id: "123",
+		name: "Test",
+		email: "test@example.com",
+		company: null,
+		phone: null,
+		budget: null,
+		projectType: null,
+		message: "Test message",
+		source: null,
+		status: "new",
+		createdAt: new Date("2024-01-15T10:00:00Z"),
+	},
+};
+
+/**
+ * Mock db.insert and return the spy receiving the inserted values.
+ */
+function mockDeliveryInsert() {
+	const values = vi.fn(() => Promise.resolve());
+	(db.insert as Mock).mockReturnValue({ values });
+	return values;
+}
+
+describe("isTransientFailure", () => {
+	it.each([
+		[{ success: false, statusCode: 429, durationMs: 1 }, true],
+		[{ success: false, statusCode: 503, durationMs: 1 }, true],
+		[{ success: false, error: "Request timeout after 10000ms", durationMs: 1 }, true],
+		[{ success: false, error: "Network error: ECONNRESET", durationMs: 1 }, true],
+		[{ success: false, statusCode: 400, durationMs: 1 }, false],
+		[{ success: false, error: "Invalid Discord configuration", durationMs: 0 }, false],
+		[{ success: true, statusCode: 200, durationMs: 1 }, false],
+	])("should classify %o as %s", (result, expected) => {
+		expect(isTransientFailure(result)).toBe(expected);
+	});
+});
+
+describe("dispatchNotification delivery log", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(db.select).mockReturnValue({
+			from: vi.fn(() => ({
+				where: vi.fn(() => Promise.resolve([createMockChannel("telegram")])),
+			})),
+		} as any);
+	});
+
+	it("should log a successful attempt without a retry", async () => {
+		const values = mockDeliveryInsert();
+
+		await dispatchNotification("lead.created", leadPayload);
+
+		expect(values).toHaveBeenCalledWith({
+			channelId: "channel-telegram",
+			event: "lead.created",
+			payload: leadPayload,
+			status: "success",
+			statusCode: 200,
+			error: null,
+			durationMs: 100,
+			attemptNumber: 1,
+			nextRetryAt: null,
+		});
+	});
+
+	it("should queue a retry for transient failures", async () => {
+		const values = mockDeliveryInsert();
+		vi.mocked(telegramProvider.send).mockResolvedValueOnce({
+			success: false,
+			error: "Telegram API returned 502",
+			statusCode: 502,
+			durationMs: 50,
+		});
+		const before = Date.now();
+
+		await dispatchNotification("lead.created", leadPayload);
+
+		const logged = values.mock.calls[0][0] as { status: string; nextRetryAt: Date };
+		expect(logged.status).toBe("failed");
+		expect(logged.nextRetryAt.getTime()).toBeGreaterThanOrEqual(
+			before + NOTIFICATION_RETRY_DELAYS_MS[1],
+		);
+	});
+
+	it("should not retry permanent failures", async () => {
+		const values = mockDeliveryInsert();
+		vi.mocked(telegramProvider.send).mockResolvedValueOnce({
+			success: false,
+			error: "Chat not found",
+			statusCode: 400,
+			durationMs: 50,
+		});
+
+		await dispatchNotification("lead.created", leadPayload);
+
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({ status: "failed", error: "Chat not found", nextRetryAt: null }),
+		);
+	});
+
+	it("should still return results when logging fails", async () => {
+		(db.insert as Mock).mockReturnValue({
+			values: vi.fn(() => Promise.reject(new Error("db down"))),
+		});
+
+		const results = await dispatchNotification("lead.created", leadPayload);
+
+		expect(results).toHaveLength(1);
+		expect(results[0].success).toBe(true);
+	});
+
+	it("should hold deliveries during quiet hours", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(new Date("2025-01-20T23:30:00Z"));
+		vi.mocked(db.select).mockReturnValue({
+			from: vi.fn(() => ({
+				where: vi.fn(() =>
+					Promise.resolve([
+						createMockChannel("telegram", { quietHoursStart: 22, quietHoursEnd: 7 }),
+					]),
+				),
+			})),
+		} as any);
+		const values = mockDeliveryInsert();
+
+		try {
+			const results = await dispatchNotification("lead.created", leadPayload);
+
+			expect(results).toEqual([]);
+			expect(telegramProvider.send).not.toHaveBeenCalled();
+			expect(values).toHaveBeenCalledWith({
+				channelId: "channel-telegram",
+				event: "lead.created",
+				payload: leadPayload,
+				status: "held",
+				attemptNumber: 0,
+				nextRetryAt: new Date("2025-01-21T07:00:00Z"),
+			});
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it("should skip digest-mode channels", async () => {
+		vi.mocked(db.select).mockReturnValue({
+			from: vi.fn(() => ({
+				where: vi.fn(() =>
+					Promise.resolve([createMockChannel("telegram", { deliveryMode: "daily" })]),
+				),
+			})),
+		} as any);
+		const values = mockDeliveryInsert();
+
+		const results = await dispatchNotification("lead.created", leadPayload);
+
+		expect(results).toEqual([]);
+		expect(telegramProvider.send).not.toHaveBeenCalled();
+		expect(values).not.toHaveBeenCalled();
+	});
+});
+
+describe("processNotificationRetryQueue", () => {
+	/**
+	 * Create a claimed delivery row.
+	 */
+	function createMockDelivery(overrides: Record<string, unknown> = {}) {
+		return {
+			id: "delivery-1",
+			channelId: "channel-telegram",
+			event: "lead.created",
+			// Stored as JSONB, so dates come back as strings
+			payload: JSON.parse(JSON.stringify(leadPayload)),
+			status: "failed",
+			statusCode: 502,
+			error: "Telegram API returned 502",
+			durationMs: 50,
+			attemptNumber: 1,
+			nextRetryAt: new Date(),
+			lockedUntil: new Date(Date.now() + NOTIFICATION_RETRY_CONFIG.leaseMs),
+			attemptedAt: new Date(),
+			...overrides,
+		};
+	}
+
+	/**
+	 * Mock the claim (subquery + update) and the channel lookup.
+	 */
+	function mockRetryQueries(claimed: unknown[], channel: unknown) {
+		const subquery = {
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			orderBy: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockReturnThis(),
+			for: vi.fn().mockReturnThis(),
+		};
+		const channelQuery = {
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockResolvedValue(channel ? [channel] : []),
+		};
+		vi.mocked(db.select)
+			.mockReturnValueOnce(subquery as any)
+			.mockReturnValue(channelQuery as any);
+		(db.update as Mock).mockReturnValue({
+			set: vi.fn(() => ({
+				where: vi.fn(() => ({ returning: vi.fn(() => Promise.resolve(claimed)) })),
+			})),
+		});
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(db.select as Mock).mockReset();
+	});
+
+	it("should resend the stored payload and log the next attempt", async () => {
+		const values = mockDeliveryInsert();
+		mockRetryQueries([createMockDelivery()], createMockChannel("telegram"));
+
+		const processed = await processNotificationRetryQueue();
+
+		expect(processed).toBe(1);
+		expect(telegramProvider.send).toHaveBeenCalledWith(
+			{ bot_token: "123:abc", chat_id: "-100123" },
+			leadPayload,
+			null,
+		);
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({ status: "success", attemptNumber: 2, nextRetryAt: null }),
+		);
+	});
+
+	it("should lease claimed retries and complete them once sent", async () => {
+		mockDeliveryInsert();
+		mockRetryQueries([createMockDelivery()], createMockChannel("telegram"));
+
+		await processNotificationRetryQueue();
+
+		const claim = (db.update as Mock).mock.results[0].value.set as Mock;
+		const complete = (db.update as Mock).mock.results[1].value.set as Mock;
+		expect(claim).toHaveBeenCalledWith({ lockedUntil: expect.any(Date) });
+		expect(complete).toHaveBeenCalledWith({ nextRetryAt: null, lockedUntil: null });
+	});
+
+	it("should leave the lease in place when a retry throws", async () => {
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+		mockRetryQueries([createMockDelivery()], createMockChannel("telegram"));
+		vi.mocked(db.select).mockReturnValue({
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockRejectedValue(new Error("connection lost")),
+		} as any);
+
+		await processNotificationRetryQueue();
+
+		// Only the claim ran, so the row is picked up again once the lease expires
+		expect(db.update).toHaveBeenCalledTimes(1);
+		expect(telegramProvider.send).not.toHaveBeenCalled();
+		consoleSpy.mockRestore();
+	});
+
+	it("should stop retrying after the last attempt", async () => {
+		const values = mockDeliveryInsert();
+		vi.mocked(telegramProvider.send).mockResolvedValueOnce({
+			success: false,
+			statusCode: 503,
+			durationMs: 50,
+		});
+		mockRetryQueries(
+			[createMockDelivery({ attemptNumber: NOTIFICATION_RETRY_DELAYS_MS.length - 1 })],
+			createMockChannel("telegram"),
+		);
+
+		await processNotificationRetryQueue();
+
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({
+				status: "failed",
+				attemptNumber: NOTIFICATION_RETRY_DELAYS_MS.length,
+				nextRetryAt: null,
+			}),
+		);
+	});
+
+	it("should drop retries for disabled channels", async () => {
+		const values = mockDeliveryInsert();
+		mockRetryQueries([createMockDelivery()], createMockChannel("telegram", { enabled: false }));
+
+		await processNotificationRetryQueue();
+
+		const complete = (db.update as Mock).mock.results[1].value.set as Mock;
+		expect(complete).toHaveBeenCalledWith({ nextRetryAt: null, lockedUntil: null });
+		expect(telegramProvider.send).not.toHaveBeenCalled();
+		expect(values).not.toHaveBeenCalled();
+	});
+
+	it("should restore dates in non-lead payloads", async () => {
+		mockDeliveryInsert();
+		const followUpPayload = {
+			event: "contact.follow_up_due" as const,
+			contact: {
+				id: "contact-1",
+				name: "Jane Smith",
+				email: null,
+				role: null,
+				companyName: null,
+				nextAction: "Send proposal",
+				nextActionDue: new Date("2025-01-20T10:00:00Z"),
+			},
+		};
+		mockRetryQueries(
+			[
+				createMockDelivery({
+					event: "contact.follow_up_due",
+					payload: JSON.parse(JSON.stringify(followUpPayload)),
+				}),
+			],
+			createMockChannel("telegram", { events: ["contact.follow_up_due"] }),
+		);
+
+		await processNotificationRetryQueue();
+
+		expect(telegramProvider.send).toHaveBeenCalledWith(expect.anything(), followUpPayload, null);
+	});
+
+	it("should send held deliveries as the initial attempt", async () => {
+		const values = mockDeliveryInsert();
+		mockRetryQueries(
+			[createMockDelivery({ status: "held", attemptNumber: 0 })],
+			createMockChannel("telegram", { quietHoursStart: 22, quietHoursEnd: 7 }),
+		);
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(new Date("2025-01-21T07:00:00Z"));
+
+		try {
+			await processNotificationRetryQueue();
+		} finally {
+			vi.useRealTimers();
+		}
+
+		expect(telegramProvider.send).toHaveBeenCalledTimes(1);
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({ status: "success", attemptNumber: 1 }),
+		);
+	});
+
+	it("should hold retries again while quiet hours last", async () => {
+		const values = mockDeliveryInsert();
+		mockRetryQueries(
+			[createMockDelivery()],
+			createMockChannel("telegram", { quietHoursStart: 22, quietHoursEnd: 7 }),
+		);
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(new Date("2025-01-20T23:30:00Z"));
+
+		try {
+			await processNotificationRetryQueue();
+		} finally {
+			vi.useRealTimers();
+		}
+
+		const requeue = (db.update as Mock).mock.results[1].value.set as Mock;
+		expect(requeue).toHaveBeenCalledWith({
+			nextRetryAt: new Date("2025-01-21T07:00:00Z"),
+			lockedUntil: null,
+		});
+		expect(telegramProvider.send).not.toHaveBeenCalled();
+		expect(values).not.toHaveBeenCalled();
+	});
+
+	it("should drop queued events for channels switched to digest mode", async () => {
+		mockRetryQueries(
+			[createMockDelivery()],
+			createMockChannel("telegram", { deliveryMode: "daily" }),
+		);
+
+		await processNotificationRetryQueue();
+
+		expect(telegramProvider.send).not.toHaveBeenCalled();
+	});
+
+	it("should retry digests and restore their dates", async () => {
+		mockDeliveryInsert();
+		const digestPayload = {
+			event: "digest" as const,
+			digest: {
+				period: "daily" as const,
+				since: new Date("2025-01-19T09:00:00Z"),
+				until: new Date("2025-01-20T09:00:00Z"),
+				sections: [],
+			},
+		};
+		mockRetryQueries(
+			[createMockDelivery({ event: "digest", payload: JSON.parse(JSON.stringify(digestPayload)) })],
+			createMockChannel("telegram", { deliveryMode: "daily" }),
+		);
+
+		await processNotificationRetryQueue();
+
+		expect(telegramProvider.send).toHaveBeenCalledWith(expect.anything(), digestPayload, null);
+	});
+
+	it("should return 0 when nothing is due", async () => {
+		mockRetryQueries([], null);
+
+		expect(await processNotificationRetryQueue()).toBe(0);
+	});
+});
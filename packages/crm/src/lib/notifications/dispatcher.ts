@@ -5,26 +5,70 @@
  * Implements async, non-blocking delivery per specs/09-notifications.md.
  *
  * Features:
- * - Query enabled channels for event type
+ * - Query enabled channels for event type, skipping channels whose routing
+ *   rules don't match the lead (see webhook-filters.ts for the syntax)
  * - Dispatch to each channel asynchronously
  * - Handle failures gracefully (don't block main operation)
- * - Log results for debugging
+ * - Persist every attempt to `notification_deliveries`
+ * - Retry transient failures (429, 5xx, timeouts, network errors) with backoff
+ *   from a polling worker (see startNotificationRetryWorker)
+ * - Hold real-time messages during a channel's quiet hours; the retry worker
+ *   releases them when the quiet hours end
+ * - Skip digest-mode channels, which get a scheduled summary instead (see digest.ts)
  */
 
-import { eq } from "drizzle-orm";
-import { db, type Lead, notificationChannels } from "../../db/index.js";
-import { discordProvider } from "./discord.js";
-import { emailProvider } from "./email.js";
-import { telegramProvider } from "./telegram.js";
+import { and, asc, eq, inArray, isNull, lt, lte, or } from "drizzle-orm";
+import {
+	db,
+	type Lead,
+	type LeadActivity,
+	type NotificationChannel,
+	type NotificationDelivery,
+	notificationChannels,
+	notificationDeliveries,
+	type Webhook,
+} from "../../db/index.js";
+import { createIntervalJob } from "../interval-job.js";
+import {
+	evaluateWebhookFilter,
+	parseWebhookFilter,
+	WebhookFilterError,
+} from "../webhook-filters.js";
+import {
+	DISCORD_LEAD_CREATED_TEMPLATES,
+	discordProvider,
+	formatDiscordPayload,
+} from "./discord.js";
+import { EMAIL_LEAD_CREATED_TEMPLATES, emailProvider, formatEmail } from "./email.js";
+import { pushProvider } from "./push.js";
+import { getQuietHoursEnd, isInQuietHours } from "./schedule.js";
+import { slackProvider } from "./slack.js";
+import {
+	formatTelegramMessage,
+	TELEGRAM_LEAD_CREATED_TEMPLATES,
+	telegramProvider,
+} from "./telegram.js";
+import {
+	LEAD_TEMPLATE_FIELDS,
+	NotificationTemplateError,
+	validateNotificationTemplate,
+} from "./templates.js";
 import type {
+	NotificationBookingData,
 	NotificationChannelInfo,
 	NotificationChannelType,
 	NotificationConfig,
 	NotificationDeliveryResult,
 	NotificationLeadData,
 	NotificationPayload,
+	NotificationTemplates,
+} from "./types.js";
+import {
+	activityToNotificationData,
+	leadToNotificationData,
+	NOTIFICATION_FILTER_FIELDS,
+	VALID_NOTIFICATION_EVENTS,
 } from "./types.js";
-import { leadToNotificationData, VALID_NOTIFICATION_EVENTS } from "./types.js";
 
 // ============================================================================
 // PROVIDER REGISTRY
@@ -37,41 +81,135 @@ const providers = {
 	discord: discordProvider,
 	telegram: telegramProvider,
 	email: emailProvider,
+	slack: slackProvider,
+	push: pushProvider,
+} as const;
+
+/**
+ * Notification retry configuration.
+ */
+export const NOTIFICATION_RETRY_CONFIG = {
+	/** How often the retry worker polls for due retries */
+	pollIntervalMs: 10_000,
+	/** Maximum retries claimed per poll */
+	batchSize: 20,
+	/** How long a claimed retry stays locked before another worker may take it */
+	leaseMs: 120_000,
 } as const;
 
+/**
+ * Delay before each attempt in milliseconds.
+ * Notifications are time-sensitive, so the schedule is much shorter than
+ * the webhook one: attempt 1 immediately, then 30s, 2m, 10m and 30m.
+ */
+export const NOTIFICATION_RETRY_DELAYS_MS = [0, 30_000, 120_000, 600_000, 1_800_000] as const;
+
 // ============================================================================
 // CHANNEL QUERYING
 // ============================================================================
 
+/**
+ * Convert a notification channel row to the shape providers and the
+ * dispatcher work with.
+ *
+ * @param channel - The channel from the database
+ * @returns Channel info
+ */
+export function toNotificationChannelInfo(channel: NotificationChannel): NotificationChannelInfo {
+	return {
+		id: channel.id,
+		type: channel.type as NotificationChannelType,
+		name: channel.name,
+		config: channel.config as NotificationConfig,
+		events: channel.events,
+		enabled: channel.enabled,
+		filter: channel.filter,
+		templates: channel.templates,
+		schedule: {
+			deliveryMode: channel.deliveryMode,
+			digestHour: channel.digestHour,
+			digestDay: channel.digestDay,
+			timezone: channel.timezone,
+			quietHoursStart: channel.quietHoursStart,
+			quietHoursEnd: channel.quietHoursEnd,
+		},
+	};
+}
+
+/**
+ * Get the lead a notification is about, if any.
+ *
+ * @param payload - The notification payload
+ * @returns The lead, or null for events that aren't about a lead
+ */
+export function getNotificationLead(payload: NotificationPayload): NotificationLeadData | null {
+	return "lead" in payload ? payload.lead : null;
+}
+
+/**
+ * Check a lead against a channel's routing rules.
+ *
+ * Channels without rules match every lead. Rules that no longer parse match
+ * nothing, so a broken rule can't flood a channel meant for a few leads.
+ *
+ * @param filter - The channel's filter expression (null for none)
+ * @param lead - The lead to test
+ * @returns True if the channel should be notified about the lead
+ *
+ * @example
+ * ```ts
+ * matchesChannelFilter('source == "Referral"', lead);
+ * ```
+ */
+export function matchesChannelFilter(filter: string | null, lead: NotificationLeadData): boolean {
+	if (!filter) {
+		return true;
+	}
+
+	try {
+		return evaluateWebhookFilter(parseWebhookFilter(filter, NOTIFICATION_FILTER_FIELDS), {
+			...lead,
+		});
+	} catch (error) {
+		if (error instanceof WebhookFilterError) {
+			console.warn(`Invalid notification routing rules "${filter}": ${error.message}`);
+			return false;
+		}
+		throw error;
+	}
+}
+
 /**
  * Get all enabled notification channels subscribed to a specific event.
  *
+ * When the event is about a lead, channels whose routing rules don't match
+ * it are left out. Events without a lead go to every subscribed channel.
+ *
  * @param event - The event type to filter by
+ * @param lead - The lead the event is about (optional)
  * @returns Array of enabled channels subscribed to the event
  *
  * @example
  * ```ts
- * const channels = await getChannelsForEvent("lead.created");
+ * const channels = await getChannelsForEvent("lead.created", lead);
  * // Returns all enabled channels with "lead.created" in their events array
+ * // whose routing rules match the lead
  * ```
  */
-export async function getChannelsForEvent(event: string): Promise<NotificationChannelInfo[]> {
+export async function getChannelsForEvent(
+	event: string,
+	lead: NotificationLeadData | null = null,
+): Promise<NotificationChannelInfo[]> {
 	const allChannels = await db
 		.select()
 		.from(notificationChannels)
 		.where(eq(notificationChannels.enabled, true));
 
-	// Filter to channels that include this event
+	// Filter to channels that include this event and route this lead to them
 	return allChannels
 		.filter((channel) => channel.events.includes(event))
-		.map((channel) => ({
-			id: channel.id,
-			type: channel.type as NotificationChannelType,
-			name: channel.name,
-			config: channel.config as NotificationConfig,
-			events: channel.events,
-			enabled: channel.enabled,
-		}));
+		.filter((channel) => !lead || matchesChannelFilter(channel.filter, lead))
+		.map(toNotificationChannelInfo);
 }
 
 // ============================================================================
@@ -87,6 +225,27 @@ export interface ChannelDispatchResult extends NotificationDeliveryResult {
 	channelType: NotificationChannelType;
 }
 
+/**
+ * Check whether a failed delivery is worth retrying.
+ * Rate limits, server errors, timeouts and network errors are transient;
+ * other 4xx responses and configuration errors are not.
+ *
+ * @param result - The delivery result
+ * @returns True if the delivery should be retried
+ */
+export function isTransientFailure(result: NotificationDeliveryResult): boolean {
+	if (result.success) {
+		return false;
+	}
+	if (result.statusCode !== undefined) {
+		return result.statusCode === 429 || result.statusCode >= 500;
+	}
+	return (
+		result.error?.startsWith("Request timeout") === true ||
+		result.error?.startsWith("Network error") === true
+	);
+}
+
 /**
  * Send a notification to a specific channel.
  *
@@ -112,7 +271,7 @@ async function sendToChannel(
 	}
 
 	try {
-		const result = await provider.send(channel.config, payload);
+		const result = await provider.send(channel.config, payload, channel.templates);
 		return {
 			...result,
 			channelId: channel.id,
@@ -135,13 +294,16 @@ async function sendToChannel(
  * Dispatch a notification event to all subscribed channels.
  *
  * This is the main entry point for triggering notifications. It:
- * 1. Finds all enabled channels subscribed to the event
- * 2. Sends the notification to each channel in parallel
- * 3. Returns results for all channels
+ * 1. Finds all enabled real-time channels subscribed to the event whose
+ *    routing rules match the lead
+ * 2. Holds the notification for channels in their quiet hours
+ * 3. Sends the notification to the other channels in parallel
+ * 4. Logs each attempt and queues retries for transient failures
+ * 5. Returns results for the channels it was sent to
  *
  * @param event - The event type
  * @param payload - The notification payload
- * @returns Array of dispatch results for each channel
+ * @returns Array of dispatch results for each channel sent to
  *
  * @example
  * ```ts
@@ -167,15 +329,30 @@ export async function dispatchNotification(
 		return [];
 	}
 
-	// Get channels for this event
-	const channels = await getChannelsForEvent(event);
+	// Get real-time channels for this event (digest channels summarize it later)
+	const channels = (await getChannelsForEvent(event, getNotificationLead(payload))).filter(
+		(channel) => channel.schedule.deliveryMode === "realtime",
+	);
 
 	if (channels.length === 0) {
 		return [];
 	}
 
-	// Dispatch to all channels in parallel
-	const results = await Promise.all(channels.map((channel) => sendToChannel(channel, payload)));
+	// Hold until morning for channels in their quiet hours
+	const now = new Date();
+	const quietChannels = channels.filter((channel) => isInQuietHours(channel.schedule, now));
+	await Promise.all(
+		quietChannels.map((channel) =>
+			holdDelivery(channel, event, payload, getQuietHoursEnd(channel.schedule, now)),
+		),
+	);
+
+	// Dispatch to the rest in parallel
+	const results = await Promise.all(
+		channels
+			.filter((channel) => !quietChannels.includes(channel))
+			.map((channel) => deliverNotification(channel, event, payload)),
+	);
 
 	// Log results for debugging
 	for (const result of results) {
@@ -193,6 +370,30 @@ export async function dispatchNotification(
 	return results;
 }
 
+/**
+ * Send a notification to one channel and log the attempt, queuing a retry
+ * for transient failures.
+ *
+ * @param channel - The channel to send to
+ * @param event - The event type logged with the delivery
+ * @param payload - The notification payload
+ * @returns Delivery result with channel info
+ *
+ * @example
+ * ```ts
+ * const result = await deliverNotification(channel, "digest", digestPayload);
+ * ```
+ */
+export async function deliverNotification(
+	channel: NotificationChannelInfo,
+	event: string,
+	payload: NotificationPayload,
+): Promise<ChannelDispatchResult> {
+	const result = await sendToChannel(channel, payload);
+	await recordDelivery(result, event, payload, 1);
+	return result;
+}
+
 /**
  * Dispatch a notification without waiting for results.
  * Used for fire-and-forget notifications that shouldn't block the main operation.
@@ -212,6 +413,303 @@ export function dispatchNotificationAsync(event: string, payload: NotificationPa
 	});
 }
 
+// ============================================================================
+// DELIVERY LOG & RETRIES
+// ============================================================================
+
+/**
+ * Persist a delivery attempt, queuing a retry when the failure is transient
+ * and attempts remain.
+ *
+ * Logging errors are swallowed so a database hiccup never turns a delivered
+ * notification into a failed dispatch.
+ *
+ * @param result - The dispatch result
+ * @param event - The event type
+ * @param payload - The notification payload
+ * @param attemptNumber - The attempt that produced the result (1-indexed)
+ * @returns When the retry is due, or null if none was queued
+ */
+async function recordDelivery(
+	result: ChannelDispatchResult,
+	event: string,
+	payload: NotificationPayload,
+	attemptNumber: number,
+): Promise<Date | null> {
+	const nextRetryAt =
+		isTransientFailure(result) && attemptNumber < NOTIFICATION_RETRY_DELAYS_MS.length
+			? new Date(Date.now() + NOTIFICATION_RETRY_DELAYS_MS[attemptNumber])
+			: null;
+
+	try {
+		await db.insert(notificationDeliveries).values({
+			channelId: result.channelId,
+			event,
+			payload: payload as unknown as Record<string, unknown>,
+			status: result.success ? "success" : "failed",
+			statusCode: result.statusCode ?? null,
+			error: result.error ?? null,
+			durationMs: result.durationMs,
+			attemptNumber,
+			nextRetryAt,
+		});
+	} catch (error) {
+		console.error(`Failed to log notification delivery for channel ${result.channelId}:`, error);
+		return null;
+	}
+
+	return nextRetryAt;
+}
+
+/**
+ * Queue a notification for a channel in its quiet hours.
+ *
+ * The row goes into the retry queue as attempt 0, so the retry worker sends
+ * it as the initial delivery once the quiet hours end.
+ *
+ * @param channel - The quiet channel
+ * @param event - The event type
+ * @param payload - The notification payload
+ * @param releaseAt - When the quiet hours end
+ */
+async function holdDelivery(
+	channel: NotificationChannelInfo,
+	event: string,
+	payload: NotificationPayload,
+	releaseAt: Date,
+): Promise<void> {
+	try {
+		await db.insert(notificationDeliveries).values({
+			channelId: channel.id,
+			event,
+			payload: payload as unknown as Record<string, unknown>,
+			status: "held",
+			attemptNumber: 0,
+			nextRetryAt: releaseAt,
+		});
+		console.log(`Notification to ${channel.type} "${channel.name}" held until quiet hours end`);
+	} catch (error) {
+		console.error(`Failed to hold notification for channel ${channel.id}:`, error);
+	}
+}
+
+/**
+ * Restore a payload read back from JSONB (dates are stored as strings).
+ *
+ * @param payload - The stored payload
+ * @returns The notification payload
+ */
+function reviveNotificationPayload(payload: unknown): NotificationPayload {
+	const stored = payload as NotificationPayload;
+	const toDate = (value: Date | null) => (value ? new Date(value) : null);
+
+	switch (stored.event) {
+		case "contact.follow_up_due":
+			return {
+				...stored,
+				contact: { ...stored.contact, nextActionDue: new Date(stored.contact.nextActionDue) },
+			};
+		case "webhook.auto_disabled":
+			return stored;
+		case "digest":
+			return {
+				...stored,
+				digest: {
+					...stored.digest,
+					since: new Date(stored.digest.since),
+					until: new Date(stored.digest.until),
+				},
+			};
+		case "lead.activity_added":
+			return {
+				...stored,
+				lead: { ...stored.lead, createdAt: new Date(stored.lead.createdAt) },
+				activity: { ...stored.activity, createdAt: new Date(stored.activity.createdAt) },
+			};
+		case "booking.created":
+		case "booking.cancelled":
+			return {
+				...stored,
+				lead: { ...stored.lead, createdAt: new Date(stored.lead.createdAt) },
+				booking: {
+					...stored.booking,
+					startTime: toDate(stored.booking.startTime),
+					endTime: toDate(stored.booking.endTime),
+				},
+			};
+		case "booking.rescheduled":
+			return {
+				...stored,
+				lead: { ...stored.lead, createdAt: new Date(stored.lead.createdAt) },
+				booking: {
+					...stored.booking,
+					startTime: toDate(stored.booking.startTime),
+					endTime: toDate(stored.booking.endTime),
+				},
+				previousStartTime: toDate(stored.previousStartTime),
+			};
+		default:
+			return {
+				...stored,
+				lead: { ...stored.lead, createdAt: new Date(stored.lead.createdAt) },
+			};
+	}
+}
+
+/**
+ * Claim due retries for this worker.
+ *
+ * Uses `FOR UPDATE SKIP LOCKED` plus a lease timestamp so concurrent workers
+ * never send the same retry, and retries held by a crashed worker become
+ * claimable again once the lease expires.
+ *
+ * @returns The claimed delivery rows
+ */
+async function claimDueNotificationRetries(): Promise<NotificationDelivery[]> {
+	const now = new Date();
+
+	const dueDeliveries = db
+		.select({ id: notificationDeliveries.id })
+		.from(notificationDeliveries)
+		.where(
+			and(
+				lte(notificationDeliveries.nextRetryAt, now),
+				or(isNull(notificationDeliveries.lockedUntil), lt(notificationDeliveries.lockedUntil, now)),
+			),
+		)
+		.orderBy(asc(notificationDeliveries.nextRetryAt))
+		.limit(NOTIFICATION_RETRY_CONFIG.batchSize)
+		.for("update", { skipLocked: true });
+
+	return db
+		.update(notificationDeliveries)
+		.set({ lockedUntil: new Date(now.getTime() + NOTIFICATION_RETRY_CONFIG.leaseMs) })
+		.where(inArray(notificationDeliveries.id, dueDeliveries))
+		.returning();
+}
+
+/**
+ * Mark a claimed retry as handled so it is never claimed again.
+ *
+ * @param deliveryId - The delivery row that held the retry
+ */
+async function completeNotificationRetry(deliveryId: string): Promise<void> {
+	await db
+		.update(notificationDeliveries)
+		.set({ nextRetryAt: null, lockedUntil: null })
+		.where(eq(notificationDeliveries.id, deliveryId));
+}
+
+/**
+ * Check whether a channel still accepts a queued delivery.
+ * Digests need a digest-mode channel; events need a real-time channel that is
+ * still subscribed (digest channels summarize them instead).
+ */
+function channelAcceptsDelivery(channel: NotificationChannel, event: string): boolean {
+	if (!channel.enabled) {
+		return false;
+	}
+	if (event === "digest") {
+		return channel.deliveryMode !== "realtime";
+	}
+	return channel.deliveryMode === "realtime" && channel.events.includes(event);
+}
+
+/**
+ * Retry a claimed delivery (or release a held one) and log the new attempt.
+ *
+ * @param delivery - The failed or held attempt being retried
+ */
+async function executeNotificationRetry(delivery: NotificationDelivery): Promise<void> {
+	// Fetch current channel state (it may have been disabled, unsubscribed or rescheduled)
+	const [channel] = await db
+		.select()
+		.from(notificationChannels)
+		.where(eq(notificationChannels.id, delivery.channelId))
+		.limit(1);
+
+	if (!channel || !channelAcceptsDelivery(channel, delivery.event)) {
+		console.log(`Notification channel ${delivery.channelId} no longer takes ${delivery.event}`);
+		await completeNotificationRetry(delivery.id);
+		return;
+	}
+
+	const channelInfo = toNotificationChannelInfo(channel);
+
+	// Quiet hours may have started (or moved) since the retry was queued
+	const now = new Date();
+	if (delivery.event !== "digest" && isInQuietHours(channelInfo.schedule, now)) {
+		await db
+			.update(notificationDeliveries)
+			.set({ nextRetryAt: getQuietHoursEnd(channelInfo.schedule, now), lockedUntil: null })
+			.where(eq(notificationDeliveries.id, delivery.id));
+		return;
+	}
+
+	const attemptNumber = delivery.attemptNumber + 1;
+	const payload = reviveNotificationPayload(delivery.payload);
+	const result = await sendToChannel(channelInfo, payload);
+
+	const nextRetryAt = await recordDelivery(result, delivery.event, payload, attemptNumber);
+	await completeNotificationRetry(delivery.id);
+
+	if (result.success) {
+		console.log(`Notification retry ${attemptNumber} to "${channel.name}" succeeded`);
+	} else if (nextRetryAt) {
+		console.log(`Notification retry ${attemptNumber} to "${channel.name}" failed: ${result.error}`);
+	} else {
+		console.error(`Notification to "${channel.name}" gave up after attempt ${attemptNumber}`);
+	}
+}
+
+/**
+ * Process all currently due notification retries once.
+ *
+ * @returns Number of retries processed
+ *
+ * @example
+ * ```ts
+ * const processed = await processNotificationRetryQueue();
+ * ```
+ */
+export async function processNotificationRetryQueue(): Promise<number> {
+	const deliveries = await claimDueNotificationRetries();
+
+	for (const delivery of deliveries) {
+		try {
+			await executeNotificationRetry(delivery);
+		} catch (error) {
+			// Leave the row locked; it becomes claimable again when the lease expires
+			console.error(`Notification retry failed for channel ${delivery.channelId}:`, error);
+		}
+	}
+
+	return deliveries.length;
+}
+
+const notificationRetryWorker = createIntervalJob(
+	"Notification retry worker",
+	NOTIFICATION_RETRY_CONFIG.pollIntervalMs,
+	() => processNotificationRetryQueue(),
+);
+
+/**
+ * Start the background worker that delivers queued notification retries,
+ * every NOTIFICATION_RETRY_CONFIG.pollIntervalMs unless an interval is given.
+ *
+ * @example
+ * ```ts
+ * // On server startup
+ * startNotificationRetryWorker();
+ * ```
+ */
+export const startNotificationRetryWorker = notificationRetryWorker.start;
+
+/**
+ * Stop the notification retry worker.
+ */
+export const stopNotificationRetryWorker = notificationRetryWorker.stop;
+
 // ============================================================================
 // CONVENIENCE FUNCTIONS
 // ============================================================================
@@ -269,13 +767,176 @@ export function triggerLeadStatusChangedNotification(
 	dispatchNotificationAsync("lead.status_changed", payload);
 }
 
+/**
+ * Trigger notifications for a lead.activity_added event.
+ *
+ * This is a fire-and-forget operation that won't block the main operation.
+ *
+ * @param lead - The lead the activity belongs to
+ * @param activity - The new activity
+ *
+ * @example
+ * ```ts
+ * triggerLeadActivityAddedNotification(lead, activity);
+ * ```
+ */
+export function triggerLeadActivityAddedNotification(lead: Lead, activity: LeadActivity): void {
+	const payload: NotificationPayload = {
+		event: "lead.activity_added",
+		lead: leadToNotificationData(lead),
+		activity: activityToNotificationData(activity),
+	};
+
+	dispatchNotificationAsync("lead.activity_added", payload);
+}
+
+/**
+ * Trigger notifications for a webhook.auto_disabled event.
+ *
+ * This is a fire-and-forget operation that won't block the main operation.
+ *
+ * @param webhook - The webhook that was disabled
+ * @param failureCount - Consecutive failures that caused the disable
+ *
+ * @example
+ * ```ts
+ * triggerWebhookAutoDisabledNotification(webhook, 10);
+ * ```
+ */
+export function triggerWebhookAutoDisabledNotification(
+	webhook: Webhook,
+	failureCount: number,
+): void {
+	const payload: NotificationPayload = {
+		event: "webhook.auto_disabled",
+		webhook: {
+			id: webhook.id,
+			name: webhook.name,
+			url: webhook.url,
+			events: webhook.events,
+			failureCount,
+		},
+	};
+
+	dispatchNotificationAsync("webhook.auto_disabled", payload);
+}
+
+/**
+ * Trigger notifications for a booking.created event.
+ *
+ * This is a fire-and-forget operation that won't block the main operation.
+ *
+ * @param lead - The lead the booking was matched to or created
+ * @param booking - The Cal.com booking details
+ * @param isNewLead - Whether the booking created the lead
+ *
+ * @example
+ * ```ts
+ * triggerBookingCreatedNotification(lead, booking, true);
+ * ```
+ */
+export function triggerBookingCreatedNotification(
+	lead: Lead,
+	booking: NotificationBookingData,
+	isNewLead: boolean,
+): void {
+	const payload: NotificationPayload = {
+		event: "booking.created",
+		booking,
+		lead: leadToNotificationData(lead),
+		isNewLead,
+	};
+
+	dispatchNotificationAsync("booking.created", payload);
+}
+
+/**
+ * Trigger notifications for a booking.rescheduled event.
+ *
+ * This is a fire-and-forget operation that won't block the main operation.
+ *
+ * @param lead - The lead the booking belongs to
+ * @param booking - The Cal.com booking details, with the new times
+ * @param previousStartTime - When the meeting was scheduled before
+ *
+ * @example
+ * ```ts
+ * triggerBookingRescheduledNotification(lead, booking, previousStartTime);
+ * ```
+ */
+export function triggerBookingRescheduledNotification(
+	lead: Lead,
+	booking: NotificationBookingData,
+	previousStartTime: Date | null,
+): void {
+	const payload: NotificationPayload = {
+		event: "booking.rescheduled",
+		booking,
+		lead: leadToNotificationData(lead),
+		previousStartTime,
+	};
+
+	dispatchNotificationAsync("booking.rescheduled", payload);
+}
+
+/**
+ * Trigger notifications for a booking.cancelled event.
+ *
+ * This is a fire-and-forget operation that won't block the main operation.
+ *
+ * @param lead - The lead the booking belongs to
+ * @param booking - The Cal.com booking details
+ * @param reason - The cancellation reason, if one was given
+ *
+ * @example
+ * ```ts
+ * triggerBookingCancelledNotification(lead, booking, "Found another agency");
+ * ```
+ */
+export function triggerBookingCancelledNotification(
+	lead: Lead,
+	booking: NotificationBookingData,
+	reason: string | null,
+): void {
+	const payload: NotificationPayload = {
+		event: "booking.cancelled",
+		booking,
+		lead: leadToNotificationData(lead),
+		reason,
+	};
+
+	dispatchNotificationAsync("booking.cancelled", payload);
+}
+
 // ============================================================================
 // TESTING UTILITIES
 // ============================================================================
 
+/**
+ * Sample lead for test sends and template previews.
+ */
+function createTestLead(): NotificationLeadData {
+	return {
+		id: "test-lead-00000000-0000-0000-0000-000000000000",
+		name: "Test Lead",
+		email: "test@example.com",
+		company: "Test Company Inc",
+		phone: "+1-555-0123",
+		budget: "$10,000 - $50,000",
+		projectType: "New Product / MVP",
+		message:
+			"This is a test notification to verify your channel configuration is working correctly.",
+		source: "Test",
+		status: "new",
+		tags: [],
+		createdAt: new Date(),
+	};
+}
+
 /**
  * Send a test notification to a specific channel.
- * Used for verifying channel configuration from the admin UI.
+ * Used for verifying channel configuration from the admin UI. The result is
+ * returned directly, so test sends are neither logged nor retried.
  *
  * @param channelId - The channel ID to test
  * @returns Test result or null if channel not found
@@ -304,37 +965,12 @@ export async function sendTestNotification(
 		return null;
 	}
 
-	// Create test payload
-	const testLead: NotificationLeadData = {
-		id: "test-lead-00000000-0000-0000-0000-000000000000",
-		name: "Test Lead",
-		email: "test@example.com",
-		company: "Test Company Inc",
-		phone: "+1-555-0123",
-		budget: "$10,000 - $50,000",
-		projectType: "New Product / MVP",
-		message:
-			"This is a test notification to verify your channel configuration is working correctly.",
-		source: "Test",
-		status: "new",
-		createdAt: new Date(),
-	};
-
 	const testPayload: NotificationPayload = {
 		event: "lead.created",
-		lead: testLead,
+		lead: createTestLead(),
 	};
 
-	const channelInfo: NotificationChannelInfo = {
-		id: channel.id,
-		type: channel.type as NotificationChannelType,
-		name: channel.name,
-		config: channel.config as NotificationConfig,
-		events: channel.events,
-		enabled: channel.enabled,
-	};
-
-	return sendToChannel(channelInfo, testPayload);
+	return sendToChannel(toNotificationChannelInfo(channel), testPayload);
 }
 
 /**
@@ -356,3 +992,144 @@ export function validateChannelConfig(
 
 	return provider.validateConfig(config);
 }
+
+// ============================================================================
+// MESSAGE TEMPLATES
+// ============================================================================
+
+/**
+ * Template support for a channel type: its default templates by event, how
+ * it formats a payload, and checks on the formatted message.
+ */
+interface ChannelTemplateSupport {
+	defaults: Record<string, Record<string, string>>;
+	format(payload: NotificationPayload, templates: NotificationTemplates | null): unknown;
+	check(message: unknown): string | null;
+}
+
+/**
+ * Channel types whose messages can be customized with templates.
+ */
+const templateSupport: Partial<Record<NotificationChannelType, ChannelTemplateSupport>> = {
+	discord: {
+		defaults: { "lead.created": DISCORD_LEAD_CREATED_TEMPLATES },
+		format: formatDiscordPayload,
+		check(message) {
+			const [embed] = (message as ReturnType<typeof formatDiscordPayload>).embeds;
+			if (!embed.title.trim()) return "title must not render empty";
+			if (embed.title.length > 256) return "title must render at most 256 characters";
+			if ((embed.description?.length ?? 0) > 4096) {
+				return "description must render at most 4096 characters";
+			}
+			if (embed.fields.length > 25) return "fields must render at most 25 fields";
+			return null;
+		},
+	},
+	telegram: {
+		defaults: { "lead.created": TELEGRAM_LEAD_CREATED_TEMPLATES },
+		format: (payload, templates) => ({ text: formatTelegramMessage(payload, templates) }),
+		check(message) {
+			const { text } = message as { text: string };
+			if (!text.trim()) return "text must not render empty";
+			if (text.length > 4096) return "text must render at most 4096 characters";
+			return null;
+		},
+	},
+	email: {
+		defaults: { "lead.created": EMAIL_LEAD_CREATED_TEMPLATES },
+		format: formatEmail,
+		check(message) {
+			const { subject, html } = message as ReturnType<typeof formatEmail>;
+			if (!subject) return "subject must not render empty";
+			if (!html.trim()) return "html must not render empty";
+			return null;
+		},
+	},
+};
+
+/**
+ * Get the default message templates for a channel type, by event.
+ *
+ * @param type - The channel type
+ * @returns Default templates, or null if the type doesn't support templates
+ */
+export function getDefaultChannelTemplates(
+	type: NotificationChannelType,
+): Record<string, Record<string, string>> | null {
+	return templateSupport[type]?.defaults ?? null;
+}
+
+/**
+ * Render a channel type's message for the sample lead with the given
+ * template overrides, as it would be sent.
+ *
+ * @param type - The channel type
+ * @param templates - Template overrides (null for the defaults)
+ * @returns The formatted message, or null if the type doesn't support templates
+ * @throws NotificationTemplateError if a template is invalid
+ */
+export function previewChannelTemplates(
+	type: NotificationChannelType,
+	templates: NotificationTemplates | null,
+): unknown {
+	const support = templateSupport[type];
+	if (!support) {
+		return null;
+	}
+
+	return support.format({ event: "lead.created", lead: createTestLead() }, templates);
+}
+
+/**
+ * Validate a channel's template overrides: every event and part must be
+ * customizable for the type, every template must parse, and the message
+ * rendered for the sample lead must fit the channel's limits.
+ *
+ * @param type - The channel type
+ * @param templates - The template overrides to validate
+ * @returns Validation result
+ */
+export function validateChannelTemplates(
+	type: NotificationChannelType,
+	templates: NotificationTemplates,
+): { valid: boolean; error?: string } {
+	const support = templateSupport[type];
+	if (!support) {
+		return { valid: false, error: `${type} channels don't support message templates` };
+	}
+
+	for (const [event, parts] of Object.entries(templates)) {
+		const defaults = support.defaults[event];
+		if (!defaults) {
+			return { valid: false, error: `Templates are not supported for ${event}` };
+		}
+
+		for (const [part, source] of Object.entries(parts)) {
+			if (!(part in defaults)) {
+				return { valid: false, error: `Unknown template part "${part}" for ${event}` };
+			}
+
+			const error = validateNotificationTemplate(source, LEAD_TEMPLATE_FIELDS);
+			if (error) {
+				return { valid: false, error: `${event} ${part}: ${error}` };
+			}
+		}
+
+		let message: unknown;
+		try {
+			message = previewChannelTemplates(type, templates);
+		} catch (error) {
+			if (error instanceof NotificationTemplateError) {
+				return { valid: false, error: `${event}: ${error.message}` };
+			}
+			throw error;
+		}
+
+		const error = support.check(message);
+		if (error) {
+			return { valid: false, error: `${event} ${error}` };
+		}
+	}
+
+	return { valid: true };
+}
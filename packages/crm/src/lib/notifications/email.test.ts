@@ -8,10 +8,19 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
 	EMAIL_CONFIG,
 	emailProvider,
+	formatBookingCancelledEmail,
+	formatBookingCreatedEmail,
+	formatBookingRescheduledEmail,
+	formatContactFollowUpDueEmail,
+	formatDigestEmail,
 	formatEmail,
+	formatLeadActivityAddedEmail,
 	formatLeadCreatedEmail,
 	formatLeadStatusChangedEmail,
+	formatTextEmailHtml,
+	formatWebhookAutoDisabledEmail,
 	getResendApiKey,
+	sendEmail,
 	sendEmailNotification,
 	validateEmailConfig,
 } from "./email";
@@ -234,6 +243,23 @@ describe("formatLeadCreatedEmail", () => {
 		expect(html).toContain("Hello &amp; goodbye");
 		expect(html).not.toContain("<script>alert");
 	});
+
+	it("should render the channel's template overrides", () => {
+		const payload = {
+			event: "lead.created" as const,
+			lead: createMockLeadData({ name: "O'Brien <Ltd>" }),
+		};
+
+		const { subject, html } = formatLeadCreatedEmail(payload, {
+			"lead.created": {
+				subject: "[{{lead.source}}] {{lead.name}}",
+				html: "<p>{{lead.name}} wants {{lead.projectType}}</p>",
+			},
+		});
+
+		expect(subject).toBe("[Contact Form] O'Brien <Ltd>");
+		expect(html).toBe("<p>O&#39;Brien &lt;Ltd&gt; wants Web Application</p>");
+	});
 });
 
 describe("formatLeadStatusChangedEmail", () => {
@@ -298,6 +324,218 @@ describe("formatEmail", () => {
 	});
 });
 
+// ============================================================================
+// ADDITIONAL EVENT FORMATTING TESTS
+// ============================================================================
+
+type PayloadFor<E extends NotificationPayload["event"]> = Extract<
+	NotificationPayload,
+	{ event: E }
+>;
+
+const activityPayload: PayloadFor<"lead.activity_added"> = {
+	event: "lead.activity_added",
+	lead: createMockLeadData(),
+	activity: {
+		id: "activity-123",
+		type: "call",
+		description: "Discussed <scope> & timeline",
+		createdAt: new Date("2024-01-16T10:00:00Z"),
+	},
+};
+
+const followUpPayload: PayloadFor<"contact.follow_up_due"> = {
+	event: "contact.follow_up_due",
+	contact: {
+		id: "contact-123",
+		name: "Jane Smith",
+		email: "jane@globex.com",
+		role: "CTO",
+		companyName: "Globex",
+		nextAction: "Send proposal",
+		nextActionDue: new Date("2025-01-20T10:00:00Z"),
+	},
+};
+
+const webhookDisabledPayload: PayloadFor<"webhook.auto_disabled"> = {
+	event: "webhook.auto_disabled",
+	webhook: {
+		id: "webhook-123",
+		name: "Zapier",
+		url: "https://hooks.zapier.com/hooks/catch/123",
+		events: ["lead.created", "lead.updated"],
+		failureCount: 10,
+	},
+};
+
+const bookingPayload: PayloadFor<"booking.created"> = {
+	event: "booking.created",
+	booking: {
+		title: "Discovery Call",
+		startTime: new Date("2025-01-20T10:00:00Z"),
+		endTime: new Date("2025-01-20T10:30:00Z"),
+		attendeeName: "John Doe",
+		attendeeEmail: "john@example.com",
+	},
+	lead: createMockLeadData(),
+	isNewLead: true,
+};
+
+const rescheduledPayload: PayloadFor<"booking.rescheduled"> = {
+	event: "booking.rescheduled",
+	booking: { ...bookingPayload.booking, startTime: new Date("2025-01-22T15:00:00Z") },
+	lead: createMockLeadData(),
+	previousStartTime: new Date("2025-01-20T10:00:00Z"),
+};
+
+const cancelledPayload: PayloadFor<"booking.cancelled"> = {
+	event: "booking.cancelled",
+	booking: bookingPayload.booking,
+	lead: createMockLeadData(),
+	reason: "Went with <another> agency",
+};
+
+const digestPayload: PayloadFor<"digest"> = {
+	event: "digest",
+	digest: {
+		period: "daily",
+		since: new Date("2025-01-19T09:00:00Z"),
+		until: new Date("2025-01-20T09:00:00Z"),
+		sections: [
+			{
+				title: "🆕 New Leads",
+				total: 12,
+				items: [
+					{
+						label: "John <Doe>",
+						detail: "Acme & Co",
+						url: "https://crm.example.com/leads/lead-123",
+					},
+				],
+			},
+			{ title: "⏰ Overdue Follow-ups", total: 0, items: [] },
+		],
+	},
+};
+
+describe("formatLeadActivityAddedEmail", () => {
+	it("should include activity type and escaped description", () => {
+		const { subject, html } = formatLeadActivityAddedEmail(activityPayload);
+
+		expect(subject).toBe("Activity Added: John Doe (call)");
+		expect(html).toContain("📝 Lead Activity Added");
+		expect(html).toContain("Discussed &lt;scope&gt; &amp; timeline");
+		expect(html).toContain("/leads/lead-123");
+	});
+});
+
+describe("formatContactFollowUpDueEmail", () => {
+	it("should include contact details, due date and next action", () => {
+		const { subject, html } = formatContactFollowUpDueEmail(followUpPayload);
+
+		expect(subject).toBe("Follow-up Due: Jane Smith");
+		expect(html).toContain("CTO");
+		expect(html).toContain("Globex");
+		expect(html).toContain("Jan 20, 2025, 10:00 AM UTC");
+		expect(html).toContain("Send proposal");
+		expect(html).toContain("/contacts/contact-123");
+	});
+
+	it("should omit the next action block when none is set", () => {
+		const { html } = formatContactFollowUpDueEmail({
+			...followUpPayload,
+			contact: { ...followUpPayload.contact, nextAction: null },
+		});
+
+		expect(html).not.toContain("Next Action");
+	});
+});
+
+describe("formatWebhookAutoDisabledEmail", () => {
+	it("should include webhook details and a link to its deliveries", () => {
+		const { subject, html } = formatWebhookAutoDisabledEmail(webhookDisabledPayload);
+
+		expect(subject).toBe("⚠️ Webhook Auto-Disabled: Zapier");
+		expect(html).toContain("#dc2626");
+		expect(html).toContain("https://hooks.zapier.com/hooks/catch/123");
+		expect(html).toContain("10 consecutive failures");
+		expect(html).toContain("/webhooks/webhook-123/deliveries");
+	});
+});
+
+describe("formatBookingCreatedEmail", () => {
+	it("should include meeting details", () => {
+		const { subject, html } = formatBookingCreatedEmail(bookingPayload);
+
+		expect(subject).toBe("New Booking: John Doe - Discovery Call");
+		expect(html).toContain("Jan 20, 2025, 10:00 AM UTC");
+		expect(html).toContain("Created from this booking");
+		expect(html).toContain("/leads/lead-123");
+	});
+});
+
+describe("formatBookingRescheduledEmail", () => {
+	it("should include the old and new times", () => {
+		const { subject, html } = formatBookingRescheduledEmail(rescheduledPayload);
+
+		expect(subject).toBe("Booking Rescheduled: John Doe - Discovery Call");
+		expect(html).toContain("Jan 20, 2025, 10:00 AM UTC");
+		expect(html).toContain("Jan 22, 2025, 3:00 PM UTC");
+	});
+});
+
+describe("formatBookingCancelledEmail", () => {
+	it("should include the escaped reason", () => {
+		const { subject, html } = formatBookingCancelledEmail(cancelledPayload);
+
+		expect(subject).toBe("Booking Cancelled: John Doe - Discovery Call");
+		expect(html).toContain("Went with &lt;another&gt; agency");
+		expect(html).toContain("/leads/lead-123");
+	});
+});
+
+describe("formatEmail (additional events)", () => {
+	it.each([
+		[activityPayload.event, activityPayload, "Activity Added"],
+		[followUpPayload.event, followUpPayload, "Follow-up Due"],
+		[webhookDisabledPayload.event, webhookDisabledPayload, "Webhook Auto-Disabled"],
+		[bookingPayload.event, bookingPayload, "New Booking"],
+		[rescheduledPayload.event, rescheduledPayload, "Booking Rescheduled"],
+		[cancelledPayload.event, cancelledPayload, "Booking Cancelled"],
+	] as const)("should format %s", (_, payload, subject) => {
+		expect(formatEmail(payload).subject).toContain(subject);
+	});
+});
+
+describe("formatTextEmailHtml", () => {
+	it("should turn blank-line separated text into paragraphs", () => {
+		const html = formatTextEmailHtml("Hi Jane,\n\nThanks for reaching out.\nTalk soon");
+
+		expect(html).toContain("Hi Jane,</p>");
+		expect(html).toContain("Thanks for reaching out.<br>\nTalk soon</p>");
+	});
+
+	it("should escape HTML and link URLs", () => {
+		const html = formatTextEmailHtml('<b>"Hi"</b> https://cal.com/octatech/discovery');
+
+		expect(html).toContain("&lt;b&gt;&quot;Hi&quot;&lt;/b&gt;");
+		expect(html).toContain('<a href="https://cal.com/octatech/discovery"');
+	});
+});
+
+describe("formatDigestEmail", () => {
+	it("should render a linked list per section", () => {
+		const { subject, html } = formatDigestEmail(digestPayload);
+
+		expect(subject).toBe("📬 Daily Digest (Jan 20, 2025, 9:00 AM UTC)");
+		expect(html).toContain("🆕 New Leads (12)");
+		expect(html).toContain('href="https://crm.example.com/leads/lead-123"');
+		expect(html).toContain("John &lt;Doe&gt; — Acme &amp; Co");
+		expect(html).toContain("…and 11 more");
+		expect(html).toContain("⏰ Overdue Follow-ups (0)");
+	});
+});
+
 // ============================================================================
 // DELIVERY TESTS
 // ============================================================================
@@ -532,6 +770,70 @@ describe("sendEmailNotification", () => {
 	});
 });
 
+describe("sendEmail", () => {
+	const mockFetch = vi.fn();
+	const originalFetch = global.fetch;
+	const originalEnv = process.env.RESEND_API_KEY;
+
+	beforeEach(() => {
+		global.fetch = mockFetch;
+		mockFetch.mockReset();
+		process.env.RESEND_API_KEY = "re_test_api_key";
+	});
+
+	afterEach(() => {
+		global.fetch = originalFetch;
+		if (originalEnv !== undefined) {
+			process.env.RESEND_API_KEY = originalEnv;
+		} else {
+			delete process.env.RESEND_API_KEY;
+		}
+	});
+
+	it("should send the message with a plain text part and reply-to", async () => {
+		mockFetch.mockResolvedValue({
+			ok: true,
+			status: 200,
+			json: () => Promise.resolve({ id: "email-id-123" }),
+		});
+
+		const result = await sendEmail({
+			from: "Octatech <hello@octatech.xyz>",
+			to: ["jane@example.com"],
+			subject: "Thanks",
+			html: "<p>Hi</p>",
+			text: "Hi",
+			replyTo: "sales@octatech.xyz",
+		});
+
+		expect(result.success).toBe(true);
+		const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+		expect(body).toEqual({
+			from: "Octatech <hello@octatech.xyz>",
+			to: ["jane@example.com"],
+			subject: "Thanks",
+			html: "<p>Hi</p>",
+			text: "Hi",
+			reply_to: "sales@octatech.xyz",
+		});
+	});
+
+	it("should fail without an API key", async () => {
+		delete process.env.RESEND_API_KEY;
+
+		const result = await sendEmail({
+			from: "hello@octatech.xyz",
+			to: ["jane@example.com"],
+			subject: "Thanks",
+			html: "<p>Hi</p>",
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain("RESEND_API_KEY");
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+});
+
 // ============================================================================
 // PROVIDER INTERFACE TESTS
 // ============================================================================
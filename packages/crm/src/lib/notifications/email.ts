@@ -7,18 +7,34 @@
  * Features:
  * - Rich HTML email templates
  * - Configurable sender and recipient
+ * - sendEmail for other mail sent through Resend (lead auto-responses)
  * - Timeout handling (10 second default)
  * - Graceful error handling
  */
 
+import {
+	createLeadTemplateContext,
+	renderNotificationTemplate,
+	resolveTemplates,
+} from "./templates.js";
 import type {
 	EmailConfig,
 	NotificationConfig,
 	NotificationDeliveryResult,
 	NotificationPayload,
 	NotificationProvider,
+	NotificationTemplates,
+} from "./types.js";
+import {
+	formatDigestPeriod,
+	formatNotificationDate,
+	getContactUrl,
+	getCrmBaseUrl,
+	getDigestTitle,
+	getLeadUrl,
+	getWebhookUrl,
+	isEmailConfig,
 } from "./types.js";
-import { getLeadUrl, isEmailConfig } from "./types.js";
 
 // ============================================================================
 // CONSTANTS
@@ -61,59 +77,71 @@ function escapeHtml(text: string): string {
 }
 
 /**
- * Format a lead.created notification as HTML email.
+ * Render a plain text message as a simple HTML email body: blank lines
+ * separate paragraphs, line breaks are kept and URLs become links.
  *
- * @param payload - The notification payload
- * @returns HTML email content
+ * @param text - Plain text message
+ * @returns Complete HTML document
+ *
+ * @example
+ * ```ts
+ * formatTextEmailHtml("Hi Jane,\n\nBook a call: https://cal.com/octatech/discovery");
+ * ```
  */
-export function formatLeadCreatedEmail(
-	payload: Extract<NotificationPayload, { event: "lead.created" }>,
-): { subject: string; html: string } {
-	const { lead } = payload;
-
-	const subject = lead.company
-		? `New Lead: ${lead.name} - ${lead.company}`
-		: `New Lead: ${lead.name}`;
-
-	// Build table rows for lead fields
-	const rows: Array<{ label: string; value: string }> = [
-		{ label: "Name", value: lead.name },
-		{ label: "Email", value: lead.email },
-	];
-
-	if (lead.company) {
-		rows.push({ label: "Company", value: lead.company });
-	}
-
-	if (lead.phone) {
-		rows.push({ label: "Phone", value: lead.phone });
-	}
-
-	if (lead.budget) {
-		rows.push({ label: "Budget", value: lead.budget });
-	}
-
-	if (lead.projectType) {
-		rows.push({ label: "Project Type", value: lead.projectType });
-	}
+export function formatTextEmailHtml(text: string): string {
+	const paragraphs = text
+		.trim()
+		.split(/\n\s*\n/)
+		.map((paragraph) => {
+			const html = escapeHtml(paragraph.trim())
+				.replace(
+					/https?:\/\/[^\s<]+/g,
+					(url) => `<a href="${url}" style="color: #6366f1;">${url}</a>`,
+				)
+				.replace(/\n/g, "<br>\n");
+			return `  <p style="margin: 0 0 16px;">${html}</p>`;
+		})
+		.join("\n");
+
+	return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333; line-height: 1.5;">
+${paragraphs}
+</body>
+</html>
+  `.trim();
+}
 
-	if (lead.source) {
-		rows.push({ label: "Source", value: lead.source });
-	}
+/**
+ * Template for a row of the lead details table.
+ */
+function leadTableRow(label: string, path: string): string {
+	return [
+		"    <tr>",
+		`      <td style="padding: 8px; border-bottom: 1px solid #eee;"><strong>${label}</strong></td>`,
+		`      <td style="padding: 8px; border-bottom: 1px solid #eee;">{{${path}}}</td>`,
+		"    </tr>",
+	].join("\n");
+}
 
-	const tableRows = rows
-		.map(
-			(row) => `
-        <tr>
-          <td style="padding: 8px; border-bottom: 1px solid #eee;"><strong>${escapeHtml(row.label)}</strong></td>
-          <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(row.value)}</td>
-        </tr>
-      `,
-		)
-		.join("");
+/**
+ * Template for a row shown only when the lead has the field.
+ */
+function optionalLeadTableRow(label: string, path: string): string {
+	return [`    {{#${path}}}`, leadTableRow(label, path), `    {{/${path}}}`].join("\n");
+}
 
-	const html = `
-<!DOCTYPE html>
+/**
+ * Default templates for lead.created emails.
+ */
+export const EMAIL_LEAD_CREATED_TEMPLATES = {
+	subject: "New Lead: {{lead.name}}{{#lead.company}} - {{lead.company}}{{/lead.company}}",
+	html: `<!DOCTYPE html>
 <html>
 <head>
   <meta charset="utf-8">
@@ -123,16 +151,24 @@ export function formatLeadCreatedEmail(
   <h2 style="color: #6366f1; margin-bottom: 24px;">🆕 New Lead Received</h2>
 
   <table style="width: 100%; border-collapse: collapse; margin-bottom: 24px;">
-    ${tableRows}
+${[
+	leadTableRow("Name", "lead.name"),
+	leadTableRow("Email", "lead.email"),
+	optionalLeadTableRow("Company", "lead.company"),
+	optionalLeadTableRow("Phone", "lead.phone"),
+	optionalLeadTableRow("Budget", "lead.budget"),
+	optionalLeadTableRow("Project Type", "lead.projectType"),
+	optionalLeadTableRow("Source", "lead.source"),
+].join("\n")}
   </table>
 
   <h3 style="color: #333; margin-bottom: 12px;">Message</h3>
   <p style="background: #f5f5f5; padding: 16px; border-radius: 8px; white-space: pre-wrap; margin-bottom: 24px;">
-${escapeHtml(lead.message)}
+{{message}}
   </p>
 
   <p style="margin-bottom: 24px;">
-    <a href="${getLeadUrl(lead.id)}"
+    <a href="{{leadUrl}}"
        style="display: inline-block; background: #6366f1; color: white;
               padding: 12px 24px; text-decoration: none; border-radius: 8px;
               font-weight: 500;">
@@ -145,10 +181,27 @@ ${escapeHtml(lead.message)}
     Octatech CRM • <a href="https://octatech.xyz" style="color: #6366f1;">octatech.xyz</a>
   </p>
 </body>
-</html>
-  `.trim();
+</html>`,
+};
 
-	return { subject, html };
+/**
+ * Format a lead.created notification as HTML email.
+ *
+ * @param payload - The notification payload
+ * @param templates - The channel's template overrides (defaults when omitted)
+ * @returns HTML email content
+ */
+export function formatLeadCreatedEmail(
+	payload: Extract<NotificationPayload, { event: "lead.created" }>,
+	templates?: NotificationTemplates | null,
+): { subject: string; html: string } {
+	const template = resolveTemplates(templates, "lead.created", EMAIL_LEAD_CREATED_TEMPLATES);
+	const context = createLeadTemplateContext(payload.lead);
+
+	return {
+		subject: renderNotificationTemplate(template.subject, context).trim(),
+		html: renderNotificationTemplate(template.html, context, escapeHtml),
+	};
 }
 
 /**
@@ -225,20 +278,352 @@ export function formatLeadStatusChangedEmail(
 	return { subject, html };
 }
 
+/**
+ * Render the shared email layout: heading, details table, optional
+ * highlighted text block, optional linked lists and a call-to-action button.
+ *
+ * @returns Complete HTML document
+ */
+function renderEmailLayout(options: {
+	heading: string;
+	headingColor?: string;
+	rows: Array<{ label: string; value: string }>;
+	note?: { title: string; text: string };
+	lists?: Array<{ title: string; items: Array<{ text: string; url: string }>; footer?: string }>;
+	link: { url: string; label: string };
+}): string {
+	const { heading, headingColor = "#6366f1", rows, note, lists = [], link } = options;
+
+	const tableRows = rows
+		.map(
+			(row) => `
+        <tr>
+          <td style="padding: 8px; border-bottom: 1px solid #eee;"><strong>${escapeHtml(row.label)}</strong></td>
+          <td style="padding: 8px; border-bottom: 1px solid #eee; word-break: break-word;">${escapeHtml(row.value)}</td>
+        </tr>
+      `,
+		)
+		.join("");
+
+	const noteHtml = note
+		? `
+  <h3 style="color: #333; margin-bottom: 12px;">${escapeHtml(note.title)}</h3>
+  <p style="background: #f5f5f5; padding: 16px; border-radius: 8px; white-space: pre-wrap; margin-bottom: 24px;">
+${escapeHtml(note.text)}
+  </p>
+`
+		: "";
+
+	const listsHtml = lists
+		.map((list) => {
+			const items = list.items
+				.map(
+					(item) =>
+						`<li style="margin-bottom: 6px;"><a href="${item.url}" style="color: #6366f1;">${escapeHtml(item.text)}</a></li>`,
+				)
+				.join("");
+			return `
+  <h3 style="color: #333; margin-bottom: 12px;">${escapeHtml(list.title)}</h3>
+  ${items ? `<ul style="padding-left: 20px; margin-bottom: 12px;">${items}</ul>` : '<p style="color: #666;">None</p>'}
+  ${list.footer ? `<p style="color: #666; margin-bottom: 24px;">${escapeHtml(list.footer)}</p>` : ""}
+`;
+		})
+		.join("");
+
+	return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333;">
+  <h2 style="color: ${headingColor}; margin-bottom: 24px;">${escapeHtml(heading)}</h2>
+
+  <table style="width: 100%; border-collapse: collapse; margin-bottom: 24px;">
+    ${tableRows}
+  </table>
+${noteHtml}${listsHtml}
+  <p style="margin-bottom: 24px;">
+    <a href="${link.url}"
+       style="display: inline-block; background: #6366f1; color: white;
+              padding: 12px 24px; text-decoration: none; border-radius: 8px;
+              font-weight: 500;">
+      ${escapeHtml(link.label)}
+    </a>
+  </p>
+
+  <hr style="border: none; border-top: 1px solid #eee; margin: 24px 0;">
+  <p style="color: #666; font-size: 12px;">
+    Octatech CRM • <a href="https://octatech.xyz" style="color: #6366f1;">octatech.xyz</a>
+  </p>
+</body>
+</html>
+  `.trim();
+}
+
+/**
+ * Format a lead.activity_added notification as HTML email.
+ *
+ * @param payload - The notification payload
+ * @returns HTML email content
+ */
+export function formatLeadActivityAddedEmail(
+	payload: Extract<NotificationPayload, { event: "lead.activity_added" }>,
+): { subject: string; html: string } {
+	const { lead, activity } = payload;
+
+	const rows = [
+		{ label: "Name", value: lead.name },
+		{ label: "Email", value: lead.email },
+	];
+	if (lead.company) {
+		rows.push({ label: "Company", value: lead.company });
+	}
+	rows.push({ label: "Activity Type", value: activity.type });
+
+	return {
+		subject: `Activity Added: ${lead.name} (${activity.type})`,
+		html: renderEmailLayout({
+			heading: "📝 Lead Activity Added",
+			rows,
+			note: { title: "Description", text: activity.description },
+			link: { url: getLeadUrl(lead.id), label: "View Lead in CRM" },
+		}),
+	};
+}
+
+/**
+ * Format a contact.follow_up_due notification as HTML email.
+ *
+ * @param payload - The notification payload
+ * @returns HTML email content
+ */
+export function formatContactFollowUpDueEmail(
+	payload: Extract<NotificationPayload, { event: "contact.follow_up_due" }>,
+): { subject: string; html: string } {
+	const { contact } = payload;
+
+	const rows = [{ label: "Name", value: contact.name }];
+	if (contact.email) {
+		rows.push({ label: "Email", value: contact.email });
+	}
+	if (contact.role) {
+		rows.push({ label: "Role", value: contact.role });
+	}
+	if (contact.companyName) {
+		rows.push({ label: "Company", value: contact.companyName });
+	}
+	rows.push({ label: "Due", value: formatNotificationDate(contact.nextActionDue) });
+
+	return {
+		subject: `Follow-up Due: ${contact.name}`,
+		html: renderEmailLayout({
+			heading: "⏰ Follow-up Due",
+			rows,
+			note: contact.nextAction ? { title: "Next Action", text: contact.nextAction } : undefined,
+			link: { url: getContactUrl(contact.id), label: "View Contact in CRM" },
+		}),
+	};
+}
+
+/**
+ * Format a webhook.auto_disabled notification as HTML email.
+ *
+ * @param payload - The notification payload
+ * @returns HTML email content
+ */
+export function formatWebhookAutoDisabledEmail(
+	payload: Extract<NotificationPayload, { event: "webhook.auto_disabled" }>,
+): { subject: string; html: string } {
+	const { webhook } = payload;
+
+	return {
+		subject: `⚠️ Webhook Auto-Disabled: ${webhook.name}`,
+		html: renderEmailLayout({
+			heading: "⚠️ Webhook Auto-Disabled",
+			headingColor: "#dc2626",
+			rows: [
+				{ label: "Webhook Name", value: webhook.name },
+				{ label: "URL", value: webhook.url },
+				{ label: "Events", value: webhook.events.join(", ") },
+				{ label: "Failure Count", value: `${webhook.failureCount} consecutive failures` },
+			],
+			note: {
+				title: "What to do",
+				text: "Check that the endpoint is reachable and returns 2xx responses, then re-enable the webhook.",
+			},
+			link: { url: getWebhookUrl(webhook.id), label: "View Deliveries in CRM" },
+		}),
+	};
+}
+
+/**
+ * Format a booking.created notification as HTML email.
+ *
+ * @param payload - The notification payload
+ * @returns HTML email content
+ */
+export function formatBookingCreatedEmail(
+	payload: Extract<NotificationPayload, { event: "booking.created" }>,
+): { subject: string; html: string } {
+	const { booking, lead, isNewLead } = payload;
+
+	const rows = [
+		{ label: "Meeting", value: booking.title },
+		{
+			label: "When",
+			value: booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time",
+		},
+		{ label: "Name", value: booking.attendeeName },
+		{ label: "Email", value: booking.attendeeEmail },
+	];
+	if (lead.company) {
+		rows.push({ label: "Company", value: lead.company });
+	}
+	rows.push({ label: "Lead", value: isNewLead ? "Created from this booking" : "Existing lead" });
+
+	return {
+		subject: `New Booking: ${booking.attendeeName} - ${booking.title}`,
+		html: renderEmailLayout({
+			heading: "📅 New Cal.com Booking",
+			rows,
+			link: { url: getLeadUrl(lead.id), label: "View Lead in CRM" },
+		}),
+	};
+}
+
+/**
+ * Format a booking.rescheduled notification as HTML email.
+ *
+ * @param payload - The notification payload
+ * @returns HTML email content
+ */
+export function formatBookingRescheduledEmail(
+	payload: Extract<NotificationPayload, { event: "booking.rescheduled" }>,
+): { subject: string; html: string } {
+	const { booking, lead, previousStartTime } = payload;
+
+	return {
+		subject: `Booking Rescheduled: ${booking.attendeeName} - ${booking.title}`,
+		html: renderEmailLayout({
+			heading: "🔁 Cal.com Booking Rescheduled",
+			rows: [
+				{ label: "Meeting", value: booking.title },
+				{
+					label: "Was",
+					value: previousStartTime ? formatNotificationDate(previousStartTime) : "Unknown time",
+				},
+				{
+					label: "Now",
+					value: booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time",
+				},
+				{ label: "Name", value: booking.attendeeName },
+				{ label: "Email", value: booking.attendeeEmail },
+			],
+			link: { url: getLeadUrl(lead.id), label: "View Lead in CRM" },
+		}),
+	};
+}
+
+/**
+ * Format a booking.cancelled notification as HTML email.
+ *
+ * @param payload - The notification payload
+ * @returns HTML email content
+ */
+export function formatBookingCancelledEmail(
+	payload: Extract<NotificationPayload, { event: "booking.cancelled" }>,
+): { subject: string; html: string } {
+	const { booking, lead, reason } = payload;
+
+	return {
+		subject: `Booking Cancelled: ${booking.attendeeName} - ${booking.title}`,
+		html: renderEmailLayout({
+			heading: "❌ Cal.com Booking Cancelled",
+			headingColor: "#dc2626",
+			rows: [
+				{ label: "Meeting", value: booking.title },
+				{
+					label: "Was",
+					value: booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time",
+				},
+				{ label: "Name", value: booking.attendeeName },
+				{ label: "Email", value: booking.attendeeEmail },
+			],
+			note: reason ? { title: "Reason", text: reason } : undefined,
+			link: { url: getLeadUrl(lead.id), label: "View Lead in CRM" },
+		}),
+	};
+}
+
+/**
+ * Format a digest notification as HTML email.
+ *
+ * @param payload - The notification payload
+ * @returns HTML email content
+ */
+export function formatDigestEmail(payload: Extract<NotificationPayload, { event: "digest" }>): {
+	subject: string;
+	html: string;
+} {
+	const { digest } = payload;
+	const title = getDigestTitle(digest);
+
+	return {
+		subject: `${title} (${formatNotificationDate(digest.until)})`,
+		html: renderEmailLayout({
+			heading: title,
+			rows: [{ label: "Period", value: formatDigestPeriod(digest) }],
+			lists: digest.sections.map((section) => {
+				const more = section.total - section.items.length;
+				return {
+					title: `${section.title} (${section.total})`,
+					items: section.items.map((item) => ({
+						text: item.detail ? `${item.label} — ${item.detail}` : item.label,
+						url: item.url,
+					})),
+					footer: more > 0 ? `…and ${more} more` : undefined,
+				};
+			}),
+			link: { url: getCrmBaseUrl(), label: "Open CRM" },
+		}),
+	};
+}
+
 /**
  * Format a notification payload as HTML email.
  *
  * @param payload - The notification payload
+ * @param templates - The channel's template overrides
  * @returns Subject and HTML body
  */
-export function formatEmail(payload: NotificationPayload): {
+export function formatEmail(
+	payload: NotificationPayload,
+	templates?: NotificationTemplates | null,
+): {
 	subject: string;
 	html: string;
 } {
-	if (payload.event === "lead.created") {
-		return formatLeadCreatedEmail(payload);
-	} else {
-		return formatLeadStatusChangedEmail(payload);
+	switch (payload.event) {
+		case "lead.created":
+			return formatLeadCreatedEmail(payload, templates);
+		case "lead.status_changed":
+			return formatLeadStatusChangedEmail(payload);
+		case "lead.activity_added":
+			return formatLeadActivityAddedEmail(payload);
+		case "contact.follow_up_due":
+			return formatContactFollowUpDueEmail(payload);
+		case "webhook.auto_disabled":
+			return formatWebhookAutoDisabledEmail(payload);
+		case "booking.created":
+			return formatBookingCreatedEmail(payload);
+		case "booking.rescheduled":
+			return formatBookingRescheduledEmail(payload);
+		case "booking.cancelled":
+			return formatBookingCancelledEmail(payload);
+		case "digest":
+			return formatDigestEmail(payload);
 	}
 }
 
@@ -330,40 +715,38 @@ export function getResendApiKey(): string | null {
 }
 
 /**
- * Send a notification via email using Resend API.
+ * An email to send through Resend.
+ */
+export interface EmailMessage {
+	from: string;
+	to: string[];
+	subject: string;
+	html: string;
+	/** Plain text alternative */
+	text?: string;
+	/** Address replies go to, when it isn't the sender */
+	replyTo?: string;
+}
+
+/**
+ * Send an email using the Resend API.
  *
- * @param config - Email configuration with to and from addresses
- * @param payload - The notification payload
+ * @param message - Sender, recipients and content
  * @returns Delivery result
  *
  * @example
  * ```ts
- * const result = await sendEmailNotification(
- *   { to: "admin@example.com", from: "CRM <crm@octatech.xyz>" },
- *   { event: "lead.created", lead: { ... } }
- * );
- *
- * if (!result.success) {
- *   console.error("Email notification failed:", result.error);
- * }
+ * const result = await sendEmail({
+ *   from: "Octatech <hello@octatech.xyz>",
+ *   to: ["jane@acme.com"],
+ *   subject: "Thanks for reaching out",
+ *   html: "<p>We'll be in touch.</p>",
+ * });
  * ```
  */
-export async function sendEmailNotification(
-	config: EmailConfig,
-	payload: NotificationPayload,
-): Promise<NotificationDeliveryResult> {
+export async function sendEmail(message: EmailMessage): Promise<NotificationDeliveryResult> {
 	const startTime = Date.now();
 
-	// Validate configuration
-	const validation = validateEmailConfig(config);
-	if (!validation.valid) {
-		return {
-			success: false,
-			error: validation.error,
-			durationMs: Date.now() - startTime,
-		};
-	}
-
 	// Get API key
 	const apiKey = getResendApiKey();
 	if (!apiKey) {
@@ -374,15 +757,14 @@ export async function sendEmailNotification(
 		};
 	}
 
-	// Format the email
-	const { subject, html } = formatEmail(payload);
-
 	// Build request body
 	const body = JSON.stringify({
-		from: config.from,
-		to: config.to.split(",").map((e) => e.trim()),
-		subject,
-		html,
+		from: message.from,
+		to: message.to,
+		subject: message.subject,
+		html: message.html,
+		text: message.text,
+		reply_to: message.replyTo,
 	});
 
 	// Create AbortController for timeout
@@ -469,6 +851,52 @@ export async function sendEmailNotification(
 	}
 }
 
+/**
+ * Send a notification via email using Resend API.
+ *
+ * @param config - Email configuration with to and from addresses
+ * @param payload - The notification payload
+ * @param templates - The channel's template overrides
+ * @returns Delivery result
+ *
+ * @example
+ * ```ts
+ * const result = await sendEmailNotification(
+ *   { to: "admin@example.com", from: "CRM <crm@octatech.xyz>" },
+ *   { event: "lead.created", lead: { ... } }
+ * );
+ *
+ * if (!result.success) {
+ *   console.error("Email notification failed:", result.error);
+ * }
+ * ```
+ */
+export async function sendEmailNotification(
+	config: EmailConfig,
+	payload: NotificationPayload,
+	templates?: NotificationTemplates | null,
+): Promise<NotificationDeliveryResult> {
+	// Validate configuration
+	const validation = validateEmailConfig(config);
+	if (!validation.valid) {
+		return {
+			success: false,
+			error: validation.error,
+			durationMs: 0,
+		};
+	}
+
+	// Format the email
+	const { subject, html } = formatEmail(payload, templates);
+
+	return sendEmail({
+		from: config.from,
+		to: config.to.split(",").map((e) => e.trim()),
+		subject,
+		html,
+	});
+}
+
 // ============================================================================
 // PROVIDER EXPORT
 // ============================================================================
@@ -480,6 +908,7 @@ export const emailProvider: NotificationProvider = {
 	async send(
 		config: NotificationConfig,
 		payload: NotificationPayload,
+		templates?: NotificationTemplates | null,
 	): Promise<NotificationDeliveryResult> {
 		if (!isEmailConfig(config)) {
 			return {
@@ -488,7 +917,7 @@ export const emailProvider: NotificationProvider = {
 				durationMs: 0,
 			};
 		}
-		return sendEmailNotification(config, payload);
+		return sendEmailNotification(config, payload, templates);
 	},
 
 	validateConfig(config: unknown): { valid: boolean; error?: string } {
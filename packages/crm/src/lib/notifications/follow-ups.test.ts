@@ -0,0 +1,131 @@
+/**
+ * Tests for follow-up reminders.
+ *
+ * Verifies that due follow-ups are claimed once and dispatched as
+ * contact.follow_up_due notifications.
+ */
+
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("../../db", () => ({
+	db: {
+		select: vi.fn(),
+		update: vi.fn(),
+	},
+	companies: { id: "id", name: "name" },
+	contacts: {
+		nextActionDue: "next_action_due",
+		nextActionNotifiedAt: "next_action_notified_at",
+	},
+}));
+
+vi.mock("./dispatcher", () => ({
+	dispatchNotification: vi.fn(() => Promise.resolve([])),
+}));
+
+import { db } from "../../db";
+import { dispatchNotification } from "./dispatcher";
+import { processDueFollowUps } from "./follow-ups";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const NOW = new Date("2025-01-20T10:05:00Z");
+
+/**
+ * Create a claimed contact row.
+ */
+function createMockContact(overrides: Record<string, unknown> = {}) {
+	return {
+		id: "contact-1",
+		name: "Jane Smith",
+		email: "jane@globex.com",
+		phone: null,
+		role: "CTO",
+		companyId: "company-1",
+		nextAction: "Send proposal",
+		nextActionDue: new Date("2025-01-20T10:00:00Z"),
+		nextActionNotifiedAt: NOW,
+		...overrides,
+	};
+}
+
+/**
+ * Mock the claiming update and the company name lookup.
+ */
+function mockQueries(claimed: unknown[], companyRows: unknown[] = []) {
+	const set = vi.fn(() => ({
+		where: vi.fn(() => ({ returning: vi.fn(() => Promise.resolve(claimed)) })),
+	}));
+	(db.update as Mock).mockReturnValue({ set });
+	(db.select as Mock).mockReturnValue({
+		from: vi.fn(() => ({ where: vi.fn(() => Promise.resolve(companyRows)) })),
+	});
+	return set;
+}
+
+// ============================================================================
+// PROCESSING TESTS
+// ============================================================================
+
+describe("processDueFollowUps", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("should stamp claimed contacts and dispatch a reminder for each", async () => {
+		const set = mockQueries([createMockContact()], [{ id: "company-1", name: "Globex" }]);
+
+		const sent = await processDueFollowUps(NOW);
+
+		expect(sent).toBe(1);
+		expect(set).toHaveBeenCalledWith({ nextActionNotifiedAt: NOW });
+		expect(dispatchNotification).toHaveBeenCalledWith("contact.follow_up_due", {
+			event: "contact.follow_up_due",
+			contact: {
+				id: "contact-1",
+				name: "Jane Smith",
+				email: "jane@globex.com",
+				role: "CTO",
+				companyName: "Globex",
+				nextAction: "Send proposal",
+				nextActionDue: new Date("2025-01-20T10:00:00Z"),
+			},
+		});
+	});
+
+	it("should skip the company lookup for contacts without a company", async () => {
+		mockQueries([createMockContact({ companyId: null })]);
+
+		await processDueFollowUps(NOW);
+
+		expect(db.select).not.toHaveBeenCalled();
+		expect(dispatchNotification).toHaveBeenCalledWith(
+			"contact.follow_up_due",
+			expect.objectContaining({
+				contact: expect.objectContaining({ companyName: null }),
+			}),
+		);
+	});
+
+	it("should keep going when one reminder fails", async () => {
+		mockQueries([
+			createMockContact({ companyId: null }),
+			createMockContact({ id: "contact-2", companyId: null }),
+		]);
+		vi.mocked(dispatchNotification).mockRejectedValueOnce(new Error("db down"));
+
+		const sent = await processDueFollowUps(NOW);
+
+		expect(sent).toBe(2);
+		expect(dispatchNotification).toHaveBeenCalledTimes(2);
+	});
+
+	it("should return 0 when nothing is due", async () => {
+		mockQueries([]);
+
+		expect(await processDueFollowUps(NOW)).toBe(0);
+		expect(dispatchNotification).not.toHaveBeenCalled();
+	});
+});
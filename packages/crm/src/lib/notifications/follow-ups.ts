@@ -0,0 +1,137 @@
+/**
+ * Follow-up Reminders.
+ *
+ * Fires contact.follow_up_due notifications when a contact's
+ * next_action_due passes, per specs/09-notifications.md.
+ *
+ * Each contact records when its reminder fired (next_action_notified_at), so
+ * a reminder is sent once per due date: rescheduling the follow-up to a later
+ * time re-arms it.
+ */
+
+import { and, gte, inArray, isNull, lt, lte, or } from "drizzle-orm";
+import { companies, contacts, db } from "../../db/index.js";
+import { createIntervalJob } from "../interval-job.js";
+import { dispatchNotification } from "./dispatcher.js";
+import type { NotificationPayload } from "./types.js";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Follow-up reminder configuration.
+ */
+export const FOLLOW_UP_REMINDER_CONFIG = {
+	/** How often the job checks for due follow-ups */
+	pollIntervalMs: 60_000,
+	/**
+	 * Follow-ups overdue by more than this are never announced, so enabling
+	 * the event doesn't flood channels with long-stale reminders.
+	 */
+	maxLagMs: 24 * 60 * 60 * 1000,
+} as const;
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Send reminders for every follow-up that has come due since the last run.
+ *
+ * Contacts are claimed by stamping next_action_notified_at in a single
+ * UPDATE ... RETURNING, so concurrent runs never announce the same due date.
+ *
+ * @param now - Current time (injectable for tests)
+ * @returns Number of reminders sent
+ *
+ * @example
+ * ```ts
+ * const sent = await processDueFollowUps();
+ * ```
+ */
+export async function processDueFollowUps(now: Date = new Date()): Promise<number> {
+	const dueContacts = await db
+		.update(contacts)
+		.set({ nextActionNotifiedAt: now })
+		.where(
+			and(
+				lte(contacts.nextActionDue, now),
+				gte(contacts.nextActionDue, new Date(now.getTime() - FOLLOW_UP_REMINDER_CONFIG.maxLagMs)),
+				or(
+					isNull(contacts.nextActionNotifiedAt),
+					lt(contacts.nextActionNotifiedAt, contacts.nextActionDue),
+				),
+			),
+		)
+		.returning();
+
+	if (dueContacts.length === 0) {
+		return 0;
+	}
+
+	// Look up company names in one query
+	const companyIds = [
+		...new Set(dueContacts.map((contact) => contact.companyId).filter((id) => id !== null)),
+	];
+	const companyNames = new Map<string, string>();
+	if (companyIds.length > 0) {
+		const rows = await db
+			.select({ id: companies.id, name: companies.name })
+			.from(companies)
+			.where(inArray(companies.id, companyIds));
+		for (const row of rows) {
+			companyNames.set(row.id, row.name);
+		}
+	}
+
+	for (const contact of dueContacts) {
+		const payload: NotificationPayload = {
+			event: "contact.follow_up_due",
+			contact: {
+				id: contact.id,
+				name: contact.name,
+				email: contact.email,
+				role: contact.role,
+				companyName: contact.companyId ? (companyNames.get(contact.companyId) ?? null) : null,
+				nextAction: contact.nextAction,
+				nextActionDue: contact.nextActionDue ?? now,
+			},
+		};
+
+		try {
+			await dispatchNotification("contact.follow_up_due", payload);
+		} catch (error) {
+			console.error(`Failed to send follow-up reminder for contact ${contact.id}:`, error);
+		}
+	}
+
+	return dueContacts.length;
+}
+
+// ============================================================================
+// SCHEDULED JOB
+// ============================================================================
+
+const followUpReminderJob = createIntervalJob(
+	"Follow-up reminder job",
+	FOLLOW_UP_REMINDER_CONFIG.pollIntervalMs,
+	() => processDueFollowUps(),
+);
+
+/**
+ * Start the job that sends follow-up reminders, every
+ * FOLLOW_UP_REMINDER_CONFIG.pollIntervalMs unless an interval is given.
+ *
+ * @example
+ * ```ts
+ * // On server startup
+ * startFollowUpReminderJob();
+ * ```
+ */
+export const startFollowUpReminderJob = followUpReminderJob.start;
+
+/**
+ * Stop the follow-up reminder job.
+ */
+export const stopFollowUpReminderJob = followUpReminderJob.stop;
@@ -4,72 +4,231 @@
  * Re-exports all notification-related types, providers, and utilities.
  */
 
+// Digests
+export {
+	buildNotificationDigest,
+	NOTIFICATION_DIGEST_CONFIG,
+	processNotificationDigests,
+	startNotificationDigestJob,
+	stopNotificationDigestJob,
+} from "./digest.js";
 // Discord provider
 export {
 	DISCORD_CONFIG,
+	DISCORD_LEAD_CREATED_TEMPLATES,
 	discordProvider,
+	formatBookingCancelledEmbed,
+	formatBookingCreatedEmbed,
+	formatBookingRescheduledEmbed,
+	formatContactFollowUpDueEmbed,
+	formatDigestEmbed,
 	formatDiscordPayload,
+	formatLeadActivityAddedEmbed,
 	formatLeadCreatedEmbed,
 	formatLeadStatusChangedEmbed,
+	formatWebhookAutoDisabledEmbed,
+	parseEmbedFields,
 	sendDiscordNotification,
 	validateDiscordConfig,
 } from "./discord.js";
 // Dispatcher
 export type { ChannelDispatchResult } from "./dispatcher.js";
 export {
+	deliverNotification,
 	dispatchNotification,
 	dispatchNotificationAsync,
 	getChannelsForEvent,
+	getDefaultChannelTemplates,
+	getNotificationLead,
+	isTransientFailure,
+	matchesChannelFilter,
+	NOTIFICATION_RETRY_CONFIG,
+	NOTIFICATION_RETRY_DELAYS_MS,
+	previewChannelTemplates,
+	processNotificationRetryQueue,
 	sendTestNotification,
+	startNotificationRetryWorker,
+	stopNotificationRetryWorker,
+	toNotificationChannelInfo,
+	triggerBookingCancelledNotification,
+	triggerBookingCreatedNotification,
+	triggerBookingRescheduledNotification,
+	triggerLeadActivityAddedNotification,
 	triggerLeadCreatedNotification,
 	triggerLeadStatusChangedNotification,
+	triggerWebhookAutoDisabledNotification,
 	validateChannelConfig,
+	validateChannelTemplates,
 } from "./dispatcher.js";
 // Email provider
+export type { EmailMessage } from "./email.js";
 export {
 	EMAIL_CONFIG,
+	EMAIL_LEAD_CREATED_TEMPLATES,
 	emailProvider,
+	formatBookingCancelledEmail,
+	formatBookingCreatedEmail,
+	formatBookingRescheduledEmail,
+	formatContactFollowUpDueEmail,
+	formatDigestEmail,
 	formatEmail,
+	formatLeadActivityAddedEmail,
 	formatLeadCreatedEmail,
 	formatLeadStatusChangedEmail,
+	formatTextEmailHtml,
+	formatWebhookAutoDisabledEmail,
 	getResendApiKey,
+	sendEmail,
 	sendEmailNotification,
 	validateEmailConfig,
 } from "./email.js";
+// Follow-up reminders
+export {
+	FOLLOW_UP_REMINDER_CONFIG,
+	processDueFollowUps,
+	startFollowUpReminderJob,
+	stopFollowUpReminderJob,
+} from "./follow-ups.js";
+// Generic HTTP push provider
+export type { PushMessage } from "./push.js";
+export {
+	buildPushRequest,
+	encodeHeaderValue,
+	formatBookingCancelledPush,
+	formatBookingCreatedPush,
+	formatBookingRescheduledPush,
+	formatContactFollowUpDuePush,
+	formatDigestPush,
+	formatLeadActivityAddedPush,
+	formatLeadCreatedPush,
+	formatLeadStatusChangedPush,
+	formatPushMessage,
+	formatWebhookAutoDisabledPush,
+	PUSH_CONFIG,
+	PUSH_PRIORITIES,
+	parsePushPriority,
+	parsePushTags,
+	pushProvider,
+	sendPushNotification,
+	validatePushConfig,
+} from "./push.js";
+// Delivery schedules
+export {
+	getLatestDigestSlot,
+	getQuietHoursEnd,
+	isInQuietHours,
+	isValidTimeZone,
+} from "./schedule.js";
+// Slack provider
+export {
+	escapeSlackText,
+	formatBookingCancelledBlocks,
+	formatBookingCreatedBlocks,
+	formatBookingRescheduledBlocks,
+	formatContactFollowUpDueBlocks,
+	formatDigestBlocks,
+	formatLeadActivityAddedBlocks,
+	formatLeadCreatedBlocks,
+	formatLeadStatusChangedBlocks,
+	formatSlackPayload,
+	formatWebhookAutoDisabledBlocks,
+	SLACK_CONFIG,
+	sendSlackNotification,
+	slackProvider,
+	validateSlackConfig,
+} from "./slack.js";
 // Telegram provider
+export type {
+	TelegramApiResponse,
+	TelegramInlineKeyboardButton,
+	TelegramLeadAction,
+} from "./telegram.js";
 export {
+	buildLeadKeyboard,
+	callTelegramApi,
 	escapeHtml,
+	formatBookingCancelledMessage,
+	formatBookingCreatedMessage,
+	formatBookingRescheduledMessage,
+	formatContactFollowUpDueMessage,
+	formatDigestMessage,
+	formatLeadActivityAddedMessage,
 	formatLeadCreatedMessage,
 	formatLeadStatusChangedMessage,
 	formatTelegramMessage,
+	formatWebhookAutoDisabledMessage,
+	parseLeadCallbackData,
 	sendTelegramNotification,
 	TELEGRAM_CONFIG,
+	TELEGRAM_LEAD_ACTIONS,
+	TELEGRAM_LEAD_CREATED_TEMPLATES,
 	telegramProvider,
 	validateTelegramConfig,
 } from "./telegram.js";
+// Message templates
+export type { LeadTemplateContext } from "./templates.js";
+export {
+	createLeadTemplateContext,
+	LEAD_TEMPLATE_FIELDS,
+	MAX_NOTIFICATION_TEMPLATE_LENGTH,
+	NotificationTemplateError,
+	parseNotificationTemplate,
+	renderNotificationTemplate,
+	resolveTemplates,
+	validateNotificationTemplate,
+} from "./templates.js";
 // Types
 export type {
+	BookingCancelledNotification,
+	BookingCreatedNotification,
+	BookingRescheduledNotification,
+	ContactFollowUpDueNotification,
+	DigestNotification,
 	DiscordConfig,
 	EmailConfig,
+	LeadActivityAddedNotification,
 	LeadCreatedNotification,
 	LeadStatusChangedNotification,
+	NotificationActivityData,
+	NotificationBookingData,
 	NotificationChannelInfo,
 	NotificationChannelType,
 	NotificationConfig,
+	NotificationContactData,
+	NotificationDeliveryMode,
 	NotificationDeliveryResult,
+	NotificationDigestData,
+	NotificationDigestItem,
+	NotificationDigestSection,
 	NotificationEvent,
 	NotificationLeadData,
 	NotificationPayload,
 	NotificationProvider,
+	NotificationSchedule,
+	NotificationTemplates,
+	NotificationWebhookData,
+	PushConfig,
+	SlackConfig,
 	TelegramConfig,
+	WebhookAutoDisabledNotification,
 } from "./types.js";
 export {
+	activityToNotificationData,
+	formatDigestPeriod,
+	formatNotificationDate,
+	getContactUrl,
 	getCrmBaseUrl,
+	getDigestTitle,
 	getLeadUrl,
+	getNotificationUrl,
+	getWebhookUrl,
 	isDiscordConfig,
 	isEmailConfig,
+	isPushConfig,
+	isSlackConfig,
 	isTelegramConfig,
 	leadToNotificationData,
+	NOTIFICATION_FILTER_FIELDS,
 	notificationEventEnum,
 	VALID_NOTIFICATION_EVENTS,
 } from "./types.js";
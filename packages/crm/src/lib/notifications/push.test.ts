@@ -0,0 +1,568 @@
+/**
+ * Tests for the generic HTTP push notification provider.
+ *
+ * Verifies message formatting, ntfy-style headers, JSON bodies, validation,
+ * and delivery per specs/09-notifications.md.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("dns/promises", () => ({
+	lookup: vi.fn(() => Promise.resolve([{ address: "1.2.3.4", family: 4 }])),
+}));
+
+import { lookup } from "node:dns/promises";
+import {
+	buildPushRequest,
+	encodeHeaderValue,
+	formatDigestPush,
+	formatLeadCreatedPush,
+	formatLeadStatusChangedPush,
+	formatPushMessage,
+	PUSH_CONFIG,
+	parsePushPriority,
+	parsePushTags,
+	pushProvider,
+	sendPushNotification,
+	validatePushConfig,
+} from "./push";
+import type { NotificationLeadData, NotificationPayload } from "./types";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const PUSH_URL = "https://ntfy.sh/octatech-leads";
+
+/**
+ * Create mock notification lead data.
+ */
+function createMockLeadData(overrides: Partial<NotificationLeadData> = {}): NotificationLeadData {
+	return {
+		id: "lead-123",
+		name: "John Doe",
+		email: "john@example.com",
+		company: "Acme Inc",
+		phone: "+1-555-1234",
+		budget: "$10,000 - $25,000",
+		projectType: "Web Application",
+		message: "I need a web application built for my business",
+		source: "Contact Form",
+		status: "new",
+		createdAt: new Date("2024-01-15T10:00:00Z"),
+		...overrides,
+	};
+}
+
+// ============================================================================
+// VALIDATION TESTS
+// ============================================================================
+
+describe("validatePushConfig", () => {
+	it("should accept a URL with title, priority and tags", () => {
+		const result = validatePushConfig({
+			url: PUSH_URL,
+			format: "text",
+			title: "New lead",
+			priority: "high",
+			tags: "rotating_light, lead",
+		});
+		expect(result.valid).toBe(true);
+		expect(result.error).toBeUndefined();
+	});
+
+	it("should accept numeric priorities and empty optional fields", () => {
+		expect(validatePushConfig({ url: PUSH_URL, priority: "5" }).valid).toBe(true);
+		expect(validatePushConfig({ url: PUSH_URL, priority: "", tags: "" }).valid).toBe(true);
+	});
+
+	it("should reject null config", () => {
+		const result = validatePushConfig(null);
+		expect(result.valid).toBe(false);
+		expect(result.error).toBe("Configuration is required");
+	});
+
+	it("should reject missing url", () => {
+		const result = validatePushConfig({});
+		expect(result.valid).toBe(false);
+		expect(result.error).toContain("url is required");
+	});
+
+	it.each([
+		["malformed URL", "not-a-url", "Invalid URL format"],
+		["HTTP URL", "http://ntfy.sh/topic", "URL must use HTTPS protocol"],
+		["localhost", "https://localhost/topic", "private IP addresses or localhost"],
+		["private IP", "https://192.168.1.10/topic", "private IP addresses or localhost"],
+	])("should reject %s", (_, url, error) => {
+		const result = validatePushConfig({ url });
+		expect(result.valid).toBe(false);
+		expect(result.error).toContain(error);
+	});
+
+	it("should reject invalid format", () => {
+		const result = validatePushConfig({ url: PUSH_URL, format: "xml" });
+		expect(result.valid).toBe(false);
+		expect(result.error).toBe("format must be text or json");
+	});
+
+	it.each(["0", "6", "loud"])("should reject priority %s", (priority) => {
+		const result = validatePushConfig({ url: PUSH_URL, priority });
+		expect(result.valid).toBe(false);
+		expect(result.error).toContain("priority must be 1-5");
+	});
+
+	it("should reject invalid tags", () => {
+		const result = validatePushConfig({ url: PUSH_URL, tags: "ok,not ok" });
+		expect(result.valid).toBe(false);
+		expect(result.error).toBe('Invalid tag "not ok"');
+	});
+
+	it("should reject too many tags", () => {
+		const tags = Array.from({ length: PUSH_CONFIG.maxTags + 1 }, (_, i) => `t${i}`).join(",");
+		const result = validatePushConfig({ url: PUSH_URL, tags });
+		expect(result.valid).toBe(false);
+		expect(result.error).toContain("tags are allowed");
+	});
+
+	it("should reject an overly long title", () => {
+		const result = validatePushConfig({
+			url: PUSH_URL,
+			title: "T".repeat(PUSH_CONFIG.maxTitleLength + 1),
+		});
+		expect(result.valid).toBe(false);
+		expect(result.error).toContain("title must be at most");
+	});
+});
+
+describe("parsePushPriority", () => {
+	it("should map names and numbers", () => {
+		expect(parsePushPriority(undefined)).toBe(3);
+		expect(parsePushPriority("min")).toBe(1);
+		expect(parsePushPriority("High")).toBe(4);
+		expect(parsePushPriority("urgent")).toBe(5);
+		expect(parsePushPriority("2")).toBe(2);
+	});
+});
+
+describe("parsePushTags", () => {
+	it("should split and trim tags", () => {
+		expect(parsePushTags(" rotating_light , lead,, ")).toEqual(["rotating_light", "lead"]);
+		expect(parsePushTags(undefined)).toEqual([]);
+	});
+});
+
+// ============================================================================
+// FORMATTING TESTS
+// ============================================================================
+
+describe("formatLeadCreatedPush", () => {
+	it("should list lead fields and the message", () => {
+		const result = formatLeadCreatedPush({
+			event: "lead.created",
+			lead: createMockLeadData(),
+		});
+
+		expect(result.title).toBe("New Lead: John Doe");
+		expect(result.message).toBe(
+			[
+				"Email: john@example.com",
+				"Company: Acme Inc",
+				"Phone: +1-555-1234",
+				"Budget: $10,000 - $25,000",
+				"Project: Web Application",
+				"Source: Contact Form",
+				"",
+				"I need a web application built for my business",
+			].join("\n"),
+		);
+	});
+
+	it("should skip missing optional fields and truncate long messages", () => {
+		const result = formatLeadCreatedPush({
+			event: "lead.created",
+			lead: createMockLeadData({
+				company: null,
+				phone: null,
+				budget: null,
+				projectType: null,
+				source: null,
+				message: "a".repeat(1500),
+			}),
+		});
+
+		const lines = result.message.split("\n");
+		expect(lines[0]).toBe("Email: john@example.com");
+		expect(lines[1]).toBe("");
+		expect(lines[2]).toHaveLength(PUSH_CONFIG.maxMessageLength + 3);
+	});
+});
+
+describe("formatLeadStatusChangedPush", () => {
+	it("should include the status change", () => {
+		const result = formatLeadStatusChangedPush({
+			event: "lead.status_changed",
+			lead: createMockLeadData(),
+			previousStatus: "new",
+			newStatus: "contacted",
+		});
+
+		expect(result.title).toBe("Status Changed: John Doe");
+		expect(result.message).toBe(
+			"Status: new → contacted\nEmail: john@example.com\nCompany: Acme Inc",
+		);
+	});
+});
+
+const digestPayload: Extract<NotificationPayload, { event: "digest" }> = {
+	event: "digest",
+	digest: {
+		period: "daily",
+		since: new Date("2025-01-19T09:00:00Z"),
+		until: new Date("2025-01-20T09:00:00Z"),
+		sections: [
+			{
+				title: "🆕 New Leads",
+				total: 12,
+				items: [
+					{
+						label: "John <Doe>",
+						detail: "Acme & Co",
+						url: "https://crm.example.com/leads/lead-123",
+					},
+				],
+			},
+			{ title: "⏰ Overdue Follow-ups", total: 0, items: [] },
+		],
+	},
+};
+
+describe("formatDigestPush", () => {
+	it("should list each section as plain text", () => {
+		const { title, message } = formatDigestPush(digestPayload);
+
+		expect(title).toBe("📬 Daily Digest");
+		expect(message).toBe(
+			[
+				"Jan 19, 2025, 9:00 AM UTC – Jan 20, 2025, 9:00 AM UTC",
+				"",
+				"🆕 New Leads (12)",
+				"• John <Doe> — Acme & Co",
+				"…and 11 more",
+				"",
+				"⏰ Overdue Follow-ups (0)",
+			].join("\n"),
+		);
+	});
+});
+
+describe("formatPushMessage", () => {
+	const payload: NotificationPayload = { event: "lead.created", lead: createMockLeadData() };
+
+	it("should use event defaults", () => {
+		const message = formatPushMessage({ url: PUSH_URL }, payload);
+
+		expect(message.title).toBe("New Lead: John Doe");
+		expect(message.priority).toBe(3);
+		expect(message.tags).toEqual([]);
+		expect(message.url).toContain("/leads/lead-123");
+	});
+
+	it("should apply the configured title, priority and tags", () => {
+		const message = formatPushMessage(
+			{ url: PUSH_URL, title: "CRM", priority: "urgent", tags: "lead,money" },
+			payload,
+		);
+
+		expect(message.title).toBe("CRM");
+		expect(message.priority).toBe(5);
+		expect(message.tags).toEqual(["lead", "money"]);
+	});
+
+	it("should format contact follow-ups and link to the contact", () => {
+		const message = formatPushMessage(
+			{ url: PUSH_URL },
+			{
+				event: "contact.follow_up_due",
+				contact: {
+					id: "contact-123",
+					name: "Jane Smith",
+					email: "jane@globex.com",
+					role: null,
+					companyName: "Globex",
+					nextAction: "Send proposal",
+					nextActionDue: new Date("2025-01-20T10:00:00Z"),
+				},
+			},
+		);
+
+		expect(message.title).toBe("Follow-up Due: Jane Smith");
+		expect(message.message).toBe(
+			"Due: Jan 20, 2025, 10:00 AM UTC\nEmail: jane@globex.com\nCompany: Globex\n\nSend proposal",
+		);
+		expect(message.url).toContain("/contacts/contact-123");
+	});
+
+	it("should format webhook auto-disable alerts", () => {
+		const message = formatPushMessage(
+			{ url: PUSH_URL },
+			{
+				event: "webhook.auto_disabled",
+				webhook: {
+					id: "webhook-123",
+					name: "Zapier",
+					url: "https://hooks.zapier.com/hooks/catch/123",
+					events: ["lead.created"],
+					failureCount: 10,
+				},
+			},
+		);
+
+		expect(message.title).toBe("Webhook Auto-Disabled: Zapier");
+		expect(message.message).toContain("10 consecutive delivery failures");
+		expect(message.url).toContain("/webhooks/webhook-123/deliveries");
+	});
+
+	it("should format activities and bookings", () => {
+		const lead = createMockLeadData();
+
+		expect(
+			formatPushMessage(
+				{ url: PUSH_URL },
+				{
+					event: "lead.activity_added",
+					lead,
+					activity: { id: "a-1", type: "call", description: "Scoping call", createdAt: new Date() },
+				},
+			).message,
+		).toBe("Type: call\nEmail: john@example.com\nCompany: Acme Inc\n\nScoping call");
+
+		expect(
+			formatPushMessage(
+				{ url: PUSH_URL },
+				{
+					event: "booking.created",
+					lead,
+					isNewLead: false,
+					booking: {
+						title: "Discovery Call",
+						startTime: null,
+						endTime: null,
+						attendeeName: "John Doe",
+						attendeeEmail: "john@example.com",
+					},
+				},
+			).title,
+		).toBe("New Booking: John Doe");
+	});
+
+	it("should format booking changes", () => {
+		const lead = createMockLeadData();
+		const booking = {
+			title: "Discovery Call",
+			startTime: new Date("2025-01-22T15:00:00Z"),
+			endTime: null,
+			attendeeName: "John Doe",
+			attendeeEmail: "john@example.com",
+		};
+
+		expect(
+			formatPushMessage(
+				{ url: PUSH_URL },
+				{
+					event: "booking.rescheduled",
+					lead,
+					booking,
+					previousStartTime: new Date("2025-01-20T10:00:00Z"),
+				},
+			).message,
+		).toBe(
+			"Meeting: Discovery Call\nWas: Jan 20, 2025, 10:00 AM UTC\nNow: Jan 22, 2025, 3:00 PM UTC",
+		);
+
+		const cancelled = formatPushMessage(
+			{ url: PUSH_URL },
+			{ event: "booking.cancelled", lead, booking, reason: "Budget cut" },
+		);
+		expect(cancelled.title).toBe("Booking Cancelled: John Doe");
+		expect(cancelled.message).toContain("Reason: Budget cut");
+	});
+});
+
+describe("encodeHeaderValue", () => {
+	it("should leave ASCII values unchanged", () => {
+		expect(encodeHeaderValue("New Lead: John Doe")).toBe("New Lead: John Doe");
+	});
+
+	it("should encode non-ASCII values as an RFC 2047 encoded-word", () => {
+		const encoded = encodeHeaderValue("New Lead: José");
+		expect(encoded).toBe(`=?UTF-8?B?${Buffer.from("New Lead: José").toString("base64")}?=`);
+	});
+});
+
+describe("buildPushRequest", () => {
+	const message = {
+		title: "New Lead: John Doe",
+		message: "Email: john@example.com",
+		priority: 4,
+		tags: ["rotating_light", "lead"],
+		url: "https://api.octatech.xyz/leads/lead-123",
+	};
+
+	it("should send plain text with ntfy headers by default", () => {
+		const request = buildPushRequest({ url: PUSH_URL }, message);
+
+		expect(request.headers).toEqual({
+			"Content-Type": "text/plain; charset=utf-8",
+			Title: "New Lead: John Doe",
+			Priority: "4",
+			Tags: "rotating_light,lead",
+			Click: "https://api.octatech.xyz/leads/lead-123",
+		});
+		expect(request.body).toBe(
+			"Email: john@example.com\n\nView in CRM: https://api.octatech.xyz/leads/lead-123",
+		);
+	});
+
+	it("should omit the Tags header without tags", () => {
+		const request = buildPushRequest({ url: PUSH_URL }, { ...message, tags: [] });
+		expect(request.headers.Tags).toBeUndefined();
+	});
+
+	it("should send JSON when configured", () => {
+		const request = buildPushRequest({ url: PUSH_URL, format: "json" }, message);
+
+		expect(request.headers).toEqual({ "Content-Type": "application/json" });
+		expect(JSON.parse(request.body)).toEqual({
+			title: "New Lead: John Doe",
+			message: "Email: john@example.com",
+			text: "New Lead: John Doe\n\nEmail: john@example.com",
+			priority: 4,
+			tags: ["rotating_light", "lead"],
+			url: "https://api.octatech.xyz/leads/lead-123",
+		});
+	});
+});
+
+// ============================================================================
+// DELIVERY TESTS
+// ============================================================================
+
+describe("sendPushNotification", () => {
+	const mockFetch = vi.fn();
+	const originalFetch = global.fetch;
+	const payload: NotificationPayload = {
+		event: "lead.created",
+		lead: createMockLeadData(),
+	};
+
+	beforeEach(() => {
+		global.fetch = mockFetch;
+		mockFetch.mockReset();
+	});
+
+	afterEach(() => {
+		global.fetch = originalFetch;
+	});
+
+	it("should post the message to the configured URL", async () => {
+		mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+		const result = await sendPushNotification({ url: PUSH_URL, priority: "high" }, payload);
+
+		expect(result.success).toBe(true);
+		expect(result.statusCode).toBe(200);
+		const [url, init] = mockFetch.mock.calls[0];
+		expect(url).toBe(PUSH_URL);
+		expect(init.method).toBe("POST");
+		expect(init.headers.Priority).toBe("4");
+		expect(init.body).toContain("Email: john@example.com");
+	});
+
+	it("should fail with invalid config", async () => {
+		const result = await sendPushNotification({ url: "http://ntfy.sh/topic" }, payload);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("URL must use HTTPS protocol");
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it("should refuse a host that resolves to a private IP", async () => {
+		(lookup as Mock).mockResolvedValueOnce([{ address: "10.0.0.5", family: 4 }]);
+
+		const result = await sendPushNotification({ url: "https://ntfy.internal/topic" }, payload);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("URL resolves to a private IP address");
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it("should handle rate limiting (429)", async () => {
+		mockFetch.mockResolvedValue({
+			ok: false,
+			status: 429,
+			headers: {
+				get: (name: string) => (name === "Retry-After" ? "60" : null),
+			},
+		});
+
+		const result = await sendPushNotification({ url: PUSH_URL }, payload);
+
+		expect(result.success).toBe(false);
+		expect(result.statusCode).toBe(429);
+		expect(result.error).toBe("Push endpoint rate limited. Retry after 60 seconds");
+	});
+
+	it("should include the response body on errors", async () => {
+		mockFetch.mockResolvedValue({
+			ok: false,
+			status: 403,
+			text: () => Promise.resolve('{"error":"forbidden"}'),
+		});
+
+		const result = await sendPushNotification({ url: PUSH_URL }, payload);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe('Push endpoint returned 403: {"error":"forbidden"}');
+	});
+
+	it("should handle network errors", async () => {
+		mockFetch.mockRejectedValue(new Error("Network unavailable"));
+
+		const result = await sendPushNotification({ url: PUSH_URL }, payload);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("Network error: Network unavailable");
+	});
+
+	it("should handle timeout", async () => {
+		const error = new Error("Aborted");
+		error.name = "AbortError";
+		mockFetch.mockRejectedValue(error);
+
+		const result = await sendPushNotification({ url: PUSH_URL }, payload);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe(`Request timeout after ${PUSH_CONFIG.timeoutMs}ms`);
+	});
+});
+
+// ============================================================================
+// PROVIDER INTERFACE TESTS
+// ============================================================================
+
+describe("pushProvider", () => {
+	it("should validate config correctly", () => {
+		expect(pushProvider.validateConfig({ url: PUSH_URL }).valid).toBe(true);
+		expect(pushProvider.validateConfig({ url: "invalid" }).valid).toBe(false);
+	});
+
+	it("should reject non-push config", async () => {
+		const result = await pushProvider.send(
+			{ webhook_url: "https://discord.com/api/webhooks/123/abc" },
+			{ event: "lead.created", lead: createMockLeadData() },
+		);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("Invalid push configuration");
+	});
+});
@@ -0,0 +1,701 @@
+/**
+ * Generic HTTP Push Notification Provider.
+ *
+ * POSTs a human-readable message to any URL per specs/09-notifications.md.
+ * Works with ntfy out of the box and with Gotify or Matrix hookshot using
+ * the JSON format.
+ *
+ * Features:
+ * - Plain text body with ntfy-style Title, Priority, Tags and Click headers
+ * - Optional JSON body ({ title, message, text, priority, tags, url })
+ * - Configurable title, priority and tags
+ * - HTTPS only; private and localhost URLs are refused (see webhook-urls.ts)
+ * - Timeout handling (10 second default)
+ * - Graceful error handling
+ */
+
+import { resolvesToPrivateIp, validateWebhookUrl } from "../webhook-urls.js";
+import type {
+	NotificationConfig,
+	NotificationDeliveryResult,
+	NotificationPayload,
+	NotificationProvider,
+	PushConfig,
+} from "./types.js";
+import {
+	formatDigestPeriod,
+	formatNotificationDate,
+	getDigestTitle,
+	getNotificationUrl,
+	isPushConfig,
+} from "./types.js";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Push notification configuration.
+ */
+export const PUSH_CONFIG = {
+	/** HTTP request timeout in milliseconds */
+	timeoutMs: 10_000,
+	/** Maximum message length included in the body */
+	maxMessageLength: 1000,
+	/** Maximum length of the configured title */
+	maxTitleLength: 250,
+	/** Maximum number of configured tags */
+	maxTags: 10,
+} as const;
+
+/**
+ * Priority names (ntfy) mapped to their numeric value.
+ */
+export const PUSH_PRIORITIES: Record<string, number> = {
+	min: 1,
+	low: 2,
+	default: 3,
+	high: 4,
+	urgent: 5,
+	max: 5,
+};
+
+/**
+ * Tag format: ntfy tags are short identifiers, often emoji shortcodes.
+ */
+const TAG_PATTERN = /^[\w-]{1,50}$/;
+
+// ============================================================================
+// MESSAGE FORMATTING
+// ============================================================================
+
+/**
+ * Push message content shared by the text and JSON formats.
+ */
+export interface PushMessage {
+	title: string;
+	message: string;
+	priority: number;
+	tags: string[];
+	url: string;
+}
+
+/**
+ * Parse the configured priority into its numeric value.
+ *
+ * @param priority - Priority name or number ("1" to "5")
+ * @returns Numeric priority, 3 (default) when unset
+ */
+export function parsePushPriority(priority: string | undefined): number {
+	if (!priority) {
+		return PUSH_PRIORITIES.default;
+	}
+	const normalized = priority.trim().toLowerCase();
+	return PUSH_PRIORITIES[normalized] ?? Number.parseInt(normalized, 10);
+}
+
+/**
+ * Split the configured comma-separated tags.
+ *
+ * @param tags - Comma-separated tags (e.g., "rotating_light,lead")
+ * @returns Tag list without empty entries
+ */
+export function parsePushTags(tags: string | undefined): string[] {
+	if (!tags) {
+		return [];
+	}
+	return tags
+		.split(",")
+		.map((tag) => tag.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Truncate free text to the push message limit.
+ */
+function truncateMessage(text: string): string {
+	return text.length > PUSH_CONFIG.maxMessageLength
+		? `${text.substring(0, PUSH_CONFIG.maxMessageLength)}...`
+		: text;
+}
+
+/**
+ * Format a lead.created notification as a plain text message.
+ *
+ * @param payload - The notification payload
+ * @returns Default title and message body
+ *
+ * @example
+ * ```ts
+ * const { title, message } = formatLeadCreatedPush(payload);
+ * // title: "New Lead: John Doe"
+ * // message: "Email: john@acme.com\nCompany: Acme Inc\n..."
+ * ```
+ */
+export function formatLeadCreatedPush(
+	payload: Extract<NotificationPayload, { event: "lead.created" }>,
+): { title: string; message: string } {
+	const { lead } = payload;
+	const lines: string[] = [`Email: ${lead.email}`];
+
+	if (lead.company) {
+		lines.push(`Company: ${lead.company}`);
+	}
+	if (lead.phone) {
+		lines.push(`Phone: ${lead.phone}`);
+	}
+	if (lead.budget) {
+		lines.push(`Budget: ${lead.budget}`);
+	}
+	if (lead.projectType) {
+		lines.push(`Project: ${lead.projectType}`);
+	}
+	if (lead.source) {
+		lines.push(`Source: ${lead.source}`);
+	}
+
+	if (lead.message.trim()) {
+		lines.push("", truncateMessage(lead.message));
+	}
+
+	return {
+		title: `New Lead: ${lead.name}`,
+		message: lines.join("\n"),
+	};
+}
+
+/**
+ * Format a lead.status_changed notification as a plain text message.
+ *
+ * @param payload - The notification payload
+ * @returns Default title and message body
+ */
+export function formatLeadStatusChangedPush(
+	payload: Extract<NotificationPayload, { event: "lead.status_changed" }>,
+): { title: string; message: string } {
+	const { lead, previousStatus, newStatus } = payload;
+	const lines: string[] = [`Status: ${previousStatus} → ${newStatus}`, `Email: ${lead.email}`];
+
+	if (lead.company) {
+		lines.push(`Company: ${lead.company}`);
+	}
+
+	return {
+		title: `Status Changed: ${lead.name}`,
+		message: lines.join("\n"),
+	};
+}
+
+/**
+ * Format a lead.activity_added notification as a plain text message.
+ *
+ * @param payload - The notification payload
+ * @returns Default title and message body
+ */
+export function formatLeadActivityAddedPush(
+	payload: Extract<NotificationPayload, { event: "lead.activity_added" }>,
+): { title: string; message: string } {
+	const { lead, activity } = payload;
+	const lines: string[] = [`Type: ${activity.type}`, `Email: ${lead.email}`];
+
+	if (lead.company) {
+		lines.push(`Company: ${lead.company}`);
+	}
+	if (activity.description.trim()) {
+		lines.push("", truncateMessage(activity.description));
+	}
+
+	return {
+		title: `Activity Added: ${lead.name}`,
+		message: lines.join("\n"),
+	};
+}
+
+/**
+ * Format a contact.follow_up_due notification as a plain text message.
+ *
+ * @param payload - The notification payload
+ * @returns Default title and message body
+ */
+export function formatContactFollowUpDuePush(
+	payload: Extract<NotificationPayload, { event: "contact.follow_up_due" }>,
+): { title: string; message: string } {
+	const { contact } = payload;
+	const lines: string[] = [`Due: ${formatNotificationDate(contact.nextActionDue)}`];
+
+	if (contact.email) {
+		lines.push(`Email: ${contact.email}`);
+	}
+	if (contact.companyName) {
+		lines.push(`Company: ${contact.companyName}`);
+	}
+	if (contact.nextAction?.trim()) {
+		lines.push("", truncateMessage(contact.nextAction));
+	}
+
+	return {
+		title: `Follow-up Due: ${contact.name}`,
+		message: lines.join("\n"),
+	};
+}
+
+/**
+ * Format a webhook.auto_disabled notification as a plain text message.
+ *
+ * @param payload - The notification payload
+ * @returns Default title and message body
+ */
+export function formatWebhookAutoDisabledPush(
+	payload: Extract<NotificationPayload, { event: "webhook.auto_disabled" }>,
+): { title: string; message: string } {
+	const { webhook } = payload;
+
+	return {
+		title: `Webhook Auto-Disabled: ${webhook.name}`,
+		message: [
+			`Disabled after ${webhook.failureCount} consecutive delivery failures.`,
+			`URL: ${webhook.url}`,
+		].join("\n"),
+	};
+}
+
+/**
+ * Format a booking.created notification as a plain text message.
+ *
+ * @param payload - The notification payload
+ * @returns Default title and message body
+ */
+export function formatBookingCreatedPush(
+	payload: Extract<NotificationPayload, { event: "booking.created" }>,
+): { title: string; message: string } {
+	const { booking, lead, isNewLead } = payload;
+	const lines: string[] = [
+		`Meeting: ${booking.title}`,
+		`When: ${booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time"}`,
+		`Email: ${booking.attendeeEmail}`,
+	];
+
+	if (lead.company) {
+		lines.push(`Company: ${lead.company}`);
+	}
+	lines.push(isNewLead ? "New lead" : "Existing lead");
+
+	return {
+		title: `New Booking: ${booking.attendeeName}`,
+		message: lines.join("\n"),
+	};
+}
+
+/**
+ * Format a booking.rescheduled notification as a plain text message.
+ *
+ * @param payload - The notification payload
+ * @returns Default title and message body
+ */
+export function formatBookingRescheduledPush(
+	payload: Extract<NotificationPayload, { event: "booking.rescheduled" }>,
+): { title: string; message: string } {
+	const { booking, previousStartTime } = payload;
+
+	return {
+		title: `Booking Rescheduled: ${booking.attendeeName}`,
+		message: [
+			`Meeting: ${booking.title}`,
+			`Was: ${previousStartTime ? formatNotificationDate(previousStartTime) : "Unknown time"}`,
+			`Now: ${booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time"}`,
+		].join("\n"),
+	};
+}
+
+/**
+ * Format a booking.cancelled notification as a plain text message.
+ *
+ * @param payload - The notification payload
+ * @returns Default title and message body
+ */
+export function formatBookingCancelledPush(
+	payload: Extract<NotificationPayload, { event: "booking.cancelled" }>,
+): { title: string; message: string } {
+	const { booking, reason } = payload;
+	const lines: string[] = [
+		`Meeting: ${booking.title}`,
+		`Was: ${booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time"}`,
+	];
+
+	if (reason) {
+		lines.push(`Reason: ${reason}`);
+	}
+
+	return {
+		title: `Booking Cancelled: ${booking.attendeeName}`,
+		message: truncateMessage(lines.join("\n")),
+	};
+}
+
+/**
+ * Format a digest notification as a plain text message.
+ *
+ * @param payload - The notification payload
+ * @returns Default title and message body
+ */
+export function formatDigestPush(payload: Extract<NotificationPayload, { event: "digest" }>): {
+	title: string;
+	message: string;
+} {
+	const { digest } = payload;
+	const lines: string[] = [formatDigestPeriod(digest)];
+
+	for (const section of digest.sections) {
+		lines.push("", `${section.title} (${section.total})`);
+		for (const item of section.items) {
+			lines.push(item.detail ? `• ${item.label} — ${item.detail}` : `• ${item.label}`);
+		}
+		const more = section.total - section.items.length;
+		if (more > 0) {
+			lines.push(`…and ${more} more`);
+		}
+	}
+
+	return {
+		title: getDigestTitle(digest),
+		message: truncateMessage(lines.join("\n")),
+	};
+}
+
+/**
+ * Format a notification payload's default title and message.
+ *
+ * @param payload - The notification payload
+ * @returns Default title and message body
+ */
+function formatPushText(payload: NotificationPayload): { title: string; message: string } {
+	switch (payload.event) {
+		case "lead.created":
+			return formatLeadCreatedPush(payload);
+		case "lead.status_changed":
+			return formatLeadStatusChangedPush(payload);
+		case "lead.activity_added":
+			return formatLeadActivityAddedPush(payload);
+		case "contact.follow_up_due":
+			return formatContactFollowUpDuePush(payload);
+		case "webhook.auto_disabled":
+			return formatWebhookAutoDisabledPush(payload);
+		case "booking.created":
+			return formatBookingCreatedPush(payload);
+		case "booking.rescheduled":
+			return formatBookingRescheduledPush(payload);
+		case "booking.cancelled":
+			return formatBookingCancelledPush(payload);
+		case "digest":
+			return formatDigestPush(payload);
+	}
+}
+
+/**
+ * Build the push message for a payload and channel configuration.
+ * A configured title replaces the event title.
+ *
+ * @param config - Push configuration
+ * @param payload - The notification payload
+ * @returns Push message
+ */
+export function formatPushMessage(config: PushConfig, payload: NotificationPayload): PushMessage {
+	const { title, message } = formatPushText(payload);
+
+	return {
+		title: config.title?.trim() || title,
+		message,
+		priority: parsePushPriority(config.priority),
+		tags: parsePushTags(config.tags),
+		url: getNotificationUrl(payload),
+	};
+}
+
+/**
+ * Encode a header value so non-ASCII text (names, arrows) survives HTTP.
+ * Uses an RFC 2047 encoded-word, which ntfy decodes.
+ *
+ * @param value - Header value
+ * @returns The value, encoded if it contains non-ASCII characters
+ */
+export function encodeHeaderValue(value: string): string {
+	if (/^[\x20-\x7e]*$/.test(value)) {
+		return value;
+	}
+	return `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Build the HTTP request for a push message.
+ *
+ * @param config - Push configuration
+ * @param message - The push message
+ * @returns Request headers and body
+ */
+export function buildPushRequest(
+	config: PushConfig,
+	message: PushMessage,
+): { headers: Record<string, string>; body: string } {
+	if (config.format === "json") {
+		return {
+			headers: { "Content-Type": "application/json" },
+			// `message` is read by Gotify, `text` by Matrix hookshot
+			body: JSON.stringify({
+				title: message.title,
+				message: message.message,
+				text: `${message.title}\n\n${message.message}`,
+				priority: message.priority,
+				tags: message.tags,
+				url: message.url,
+			}),
+		};
+	}
+
+	const headers: Record<string, string> = {
+		"Content-Type": "text/plain; charset=utf-8",
+		Title: encodeHeaderValue(message.title),
+		Priority: String(message.priority),
+		Click: message.url,
+	};
+	if (message.tags.length > 0) {
+		headers.Tags = message.tags.join(",");
+	}
+
+	return {
+		headers,
+		body: `${message.message}\n\nView in CRM: ${message.url}`,
+	};
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate push configuration.
+ *
+ * @param config - Configuration to validate
+ * @returns Object with valid flag and optional error message
+ *
+ * @example
+ * ```ts
+ * const result = validatePushConfig({
+ *   url: "https://ntfy.sh/octatech-leads",
+ *   priority: "high",
+ *   tags: "rotating_light",
+ * });
+ * ```
+ */
+export function validatePushConfig(config: unknown): {
+	valid: boolean;
+	error?: string;
+} {
+	if (!config || typeof config !== "object") {
+		return { valid: false, error: "Configuration is required" };
+	}
+
+	const cfg = config as Record<string, unknown>;
+
+	if (!cfg.url || typeof cfg.url !== "string") {
+		return { valid: false, error: "url is required and must be a string" };
+	}
+
+	// Same URL rules as outgoing webhooks
+	const urlValidation = validateWebhookUrl(cfg.url);
+	if (!urlValidation.valid) {
+		return { valid: false, error: urlValidation.error };
+	}
+
+	if (cfg.format !== undefined && cfg.format !== "text" && cfg.format !== "json") {
+		return { valid: false, error: "format must be text or json" };
+	}
+
+	if (cfg.title !== undefined) {
+		if (typeof cfg.title !== "string") {
+			return { valid: false, error: "title must be a string" };
+		}
+		if (cfg.title.length > PUSH_CONFIG.maxTitleLength) {
+			return {
+				valid: false,
+				error: `title must be at most ${PUSH_CONFIG.maxTitleLength} characters`,
+			};
+		}
+	}
+
+	if (cfg.priority !== undefined && cfg.priority !== "") {
+		const priority =
+			typeof cfg.priority === "string" ? parsePushPriority(cfg.priority) : Number.NaN;
+		if (!Number.isInteger(priority) || priority < 1 || priority > 5) {
+			return {
+				valid: false,
+				error: "priority must be 1-5 or one of: min, low, default, high, urgent",
+			};
+		}
+	}
+
+	if (cfg.tags !== undefined) {
+		if (typeof cfg.tags !== "string") {
+			return { valid: false, error: "tags must be a comma-separated string" };
+		}
+		const tags = parsePushTags(cfg.tags);
+		if (tags.length > PUSH_CONFIG.maxTags) {
+			return { valid: false, error: `At most ${PUSH_CONFIG.maxTags} tags are allowed` };
+		}
+		const invalid = tags.find((tag) => !TAG_PATTERN.test(tag));
+		if (invalid) {
+			return { valid: false, error: `Invalid tag "${invalid}"` };
+		}
+	}
+
+	return { valid: true };
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Send a push notification to the configured URL.
+ *
+ * @param config - Push configuration
+ * @param payload - The notification payload
+ * @returns Delivery result
+ *
+ * @example
+ * ```ts
+ * const result = await sendPushNotification(
+ *   { url: "https://ntfy.sh/octatech-leads", priority: "high" },
+ *   { event: "lead.created", lead: { ... } }
+ * );
+ * ```
+ */
+export async function sendPushNotification(
+	config: PushConfig,
+	payload: NotificationPayload,
+): Promise<NotificationDeliveryResult> {
+	const startTime = Date.now();
+
+	// Validate configuration
+	const validation = validatePushConfig(config);
+	if (!validation.valid) {
+		return {
+			success: false,
+			error: validation.error,
+			durationMs: Date.now() - startTime,
+		};
+	}
+
+	// Check for DNS rebinding attacks (resolve to private IP)
+	if (await resolvesToPrivateIp(new URL(config.url).hostname)) {
+		return {
+			success: false,
+			error: "URL resolves to a private IP address",
+			durationMs: Date.now() - startTime,
+		};
+	}
+
+	const { headers, body } = buildPushRequest(config, formatPushMessage(config, payload));
+
+	// Create AbortController for timeout
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => {
+		controller.abort();
+	}, PUSH_CONFIG.timeoutMs);
+
+	try {
+		const response = await fetch(config.url, {
+			method: "POST",
+			headers,
+			body,
+			signal: controller.signal,
+		});
+
+		clearTimeout(timeoutId);
+		const durationMs = Date.now() - startTime;
+
+		if (response.ok) {
+			return {
+				success: true,
+				statusCode: response.status,
+				durationMs,
+			};
+		}
+
+		// Handle rate limiting
+		if (response.status === 429) {
+			const retryAfter = response.headers.get("Retry-After");
+			return {
+				success: false,
+				error: `Push endpoint rate limited. Retry after ${retryAfter || "unknown"} seconds`,
+				statusCode: response.status,
+				durationMs,
+			};
+		}
+
+		// Try to get error details
+		let errorBody = "";
+		try {
+			errorBody = await response.text();
+		} catch {
+			// Ignore response read errors
+		}
+
+		return {
+			success: false,
+			error: `Push endpoint returned ${response.status}: ${errorBody.substring(0, 200)}`,
+			statusCode: response.status,
+			durationMs,
+		};
+	} catch (error) {
+		clearTimeout(timeoutId);
+		const durationMs = Date.now() - startTime;
+
+		if (error instanceof Error) {
+			if (error.name === "AbortError") {
+				return {
+					success: false,
+					error: `Request timeout after ${PUSH_CONFIG.timeoutMs}ms`,
+					durationMs,
+				};
+			}
+			return {
+				success: false,
+				error: `Network error: ${error.message}`,
+				durationMs,
+			};
+		}
+
+		return {
+			success: false,
+			error: "Unknown error occurred",
+			durationMs,
+		};
+	}
+}
+
+// ============================================================================
+// PROVIDER EXPORT
+// ============================================================================
+
+/**
+ * Generic HTTP push notification provider implementation.
+ */
+export const pushProvider: NotificationProvider = {
+	async send(
+		config: NotificationConfig,
+		payload: NotificationPayload,
+	): Promise<NotificationDeliveryResult> {
+		if (!isPushConfig(config)) {
+			return {
+				success: false,
+				error: "Invalid push configuration",
+				durationMs: 0,
+			};
+		}
+		return sendPushNotification(config, payload);
+	},
+
+	validateConfig(config: unknown): { valid: boolean; error?: string } {
+		return validatePushConfig(config);
+	},
+};
@@ -0,0 +1,167 @@
+/**
+ * Tests for channel delivery schedules.
+ *
+ * Verifies quiet hours and digest slots across timezones.
+ */
+
+import { describe, expect, it } from "vitest";
+import { getLatestDigestSlot, getQuietHoursEnd, isInQuietHours, isValidTimeZone } from "./schedule";
+import type { NotificationSchedule } from "./types";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+/**
+ * Create a schedule with real-time delivery in UTC.
+ */
+function createSchedule(overrides: Partial<NotificationSchedule> = {}): NotificationSchedule {
+	return {
+		deliveryMode: "realtime",
+		digestHour: 9,
+		digestDay: 1,
+		timezone: "UTC",
+		quietHoursStart: null,
+		quietHoursEnd: null,
+		...overrides,
+	};
+}
+
+// ============================================================================
+// TIMEZONE TESTS
+// ============================================================================
+
+describe("isValidTimeZone", () => {
+	it("should accept IANA timezones", () => {
+		expect(isValidTimeZone("UTC")).toBe(true);
+		expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+		expect(isValidTimeZone("America/New_York")).toBe(true);
+	});
+
+	it("should reject unknown timezones", () => {
+		expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+		expect(isValidTimeZone("")).toBe(false);
+	});
+});
+
+// ============================================================================
+// QUIET HOURS TESTS
+// ============================================================================
+
+describe("isInQuietHours", () => {
+	it("should be false without quiet hours", () => {
+		expect(isInQuietHours(createSchedule(), new Date("2025-01-20T23:00:00Z"))).toBe(false);
+	});
+
+	it("should handle windows within a day", () => {
+		const schedule = createSchedule({ quietHoursStart: 12, quietHoursEnd: 14 });
+
+		expect(isInQuietHours(schedule, new Date("2025-01-20T11:59:00Z"))).toBe(false);
+		expect(isInQuietHours(schedule, new Date("2025-01-20T12:00:00Z"))).toBe(true);
+		expect(isInQuietHours(schedule, new Date("2025-01-20T14:00:00Z"))).toBe(false);
+	});
+
+	it("should handle windows that wrap midnight", () => {
+		const schedule = createSchedule({ quietHoursStart: 22, quietHoursEnd: 7 });
+
+		expect(isInQuietHours(schedule, new Date("2025-01-20T21:30:00Z"))).toBe(false);
+		expect(isInQuietHours(schedule, new Date("2025-01-20T23:30:00Z"))).toBe(true);
+		expect(isInQuietHours(schedule, new Date("2025-01-21T03:00:00Z"))).toBe(true);
+		expect(isInQuietHours(schedule, new Date("2025-01-21T07:00:00Z"))).toBe(false);
+	});
+
+	it("should use the channel timezone", () => {
+		// 21:30 UTC is 22:30 in Berlin (UTC+1 in winter)
+		const schedule = createSchedule({
+			timezone: "Europe/Berlin",
+			quietHoursStart: 22,
+			quietHoursEnd: 7,
+		});
+
+		expect(isInQuietHours(schedule, new Date("2025-01-20T21:30:00Z"))).toBe(true);
+		expect(isInQuietHours(schedule, new Date("2025-01-21T06:30:00Z"))).toBe(false);
+	});
+});
+
+describe("getQuietHoursEnd", () => {
+	it("should return the end hour on the next morning", () => {
+		const schedule = createSchedule({ quietHoursStart: 22, quietHoursEnd: 7 });
+
+		expect(getQuietHoursEnd(schedule, new Date("2025-01-20T23:30:00Z"))).toEqual(
+			new Date("2025-01-21T07:00:00Z"),
+		);
+	});
+
+	it("should return the end hour later the same day after midnight", () => {
+		const schedule = createSchedule({ quietHoursStart: 22, quietHoursEnd: 7 });
+
+		expect(getQuietHoursEnd(schedule, new Date("2025-01-21T03:15:00Z"))).toEqual(
+			new Date("2025-01-21T07:00:00Z"),
+		);
+	});
+
+	it("should resolve the end hour in the channel timezone", () => {
+		const schedule = createSchedule({
+			timezone: "America/New_York",
+			quietHoursStart: 22,
+			quietHoursEnd: 7,
+		});
+
+		// 23:00 in New York (UTC-5) → 07:00 New York is 12:00 UTC
+		expect(getQuietHoursEnd(schedule, new Date("2025-01-21T04:00:00Z"))).toEqual(
+			new Date("2025-01-21T12:00:00Z"),
+		);
+	});
+});
+
+// ============================================================================
+// DIGEST SLOT TESTS
+// ============================================================================
+
+describe("getLatestDigestSlot", () => {
+	it("should return null for real-time channels", () => {
+		expect(getLatestDigestSlot(createSchedule(), new Date("2025-01-20T10:00:00Z"))).toBeNull();
+	});
+
+	it("should return today's slot once it has passed", () => {
+		const schedule = createSchedule({ deliveryMode: "daily" });
+
+		expect(getLatestDigestSlot(schedule, new Date("2025-01-20T10:05:00Z"))).toEqual(
+			new Date("2025-01-20T09:00:00Z"),
+		);
+	});
+
+	it("should return yesterday's slot before today's", () => {
+		const schedule = createSchedule({ deliveryMode: "daily" });
+
+		expect(getLatestDigestSlot(schedule, new Date("2025-01-20T08:59:00Z"))).toEqual(
+			new Date("2025-01-19T09:00:00Z"),
+		);
+	});
+
+	it("should return the last matching weekday for weekly digests", () => {
+		// 2025-01-22 is a Wednesday; the last Monday 9:00 was 2025-01-20
+		const schedule = createSchedule({ deliveryMode: "weekly", digestDay: 1 });
+
+		expect(getLatestDigestSlot(schedule, new Date("2025-01-22T12:00:00Z"))).toEqual(
+			new Date("2025-01-20T09:00:00Z"),
+		);
+	});
+
+	it("should go back a full week before the weekday's slot", () => {
+		const schedule = createSchedule({ deliveryMode: "weekly", digestDay: 1 });
+
+		expect(getLatestDigestSlot(schedule, new Date("2025-01-20T08:00:00Z"))).toEqual(
+			new Date("2025-01-13T09:00:00Z"),
+		);
+	});
+
+	it("should resolve the digest hour in the channel timezone", () => {
+		// 9:00 in Berlin during summer time (UTC+2) is 07:00 UTC
+		const schedule = createSchedule({ deliveryMode: "daily", timezone: "Europe/Berlin" });
+
+		expect(getLatestDigestSlot(schedule, new Date("2025-07-01T08:00:00Z"))).toEqual(
+			new Date("2025-07-01T07:00:00Z"),
+		);
+	});
+});
@@ -0,0 +1,185 @@
+/**
+ * Channel Delivery Schedules.
+ *
+ * Timezone-aware helpers for digest scheduling and quiet hours, per
+ * specs/09-notifications.md. Times are resolved with Intl, so any IANA
+ * timezone supported by the runtime works without a date library.
+ */
+
+import type { NotificationSchedule } from "./types.js";
+
+// ============================================================================
+// TIMEZONE HELPERS
+// ============================================================================
+
+/**
+ * Wall-clock time in a specific timezone.
+ */
+interface ZonedTime {
+	year: number;
+	/** 1-12 */
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+}
+
+/**
+ * Check whether a string is a timezone the runtime understands.
+ *
+ * @param timeZone - IANA timezone name
+ * @returns True if the timezone is valid
+ *
+ * @example
+ * ```ts
+ * isValidTimeZone("Europe/Berlin"); // true
+ * isValidTimeZone("Mars/Olympus"); // false
+ * ```
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Get the wall-clock time of an instant in a timezone.
+ */
+function getZonedTime(date: Date, timeZone: string): ZonedTime {
+	const parts = new Intl.DateTimeFormat("en-US", {
+		timeZone,
+		hourCycle: "h23",
+		year: "numeric",
+		month: "numeric",
+		day: "numeric",
+		hour: "numeric",
+		minute: "numeric",
+	}).formatToParts(date);
+
+	const get = (type: Intl.DateTimeFormatPartTypes) =>
+		Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+	return {
+		year: get("year"),
+		month: get("month"),
+		day: get("day"),
+		hour: get("hour"),
+		minute: get("minute"),
+	};
+}
+
+/**
+ * Get the instant a wall-clock hour starts in a timezone.
+ * Days outside the month roll over (day 0 is the last day of the previous month).
+ */
+function zonedHourToDate(
+	year: number,
+	month: number,
+	day: number,
+	hour: number,
+	timeZone: string,
+): Date {
+	const wallClock = Date.UTC(year, month - 1, day, hour);
+
+	// Correct by the zone offset, then once more in case the guess crossed a DST change
+	let instant = wallClock;
+	for (let i = 0; i < 2; i++) {
+		const zoned = getZonedTime(new Date(instant), timeZone);
+		const offset =
+			Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute) - instant;
+		instant = wallClock - offset;
+	}
+
+	return new Date(instant);
+}
+
+// ============================================================================
+// QUIET HOURS
+// ============================================================================
+
+/**
+ * Check whether a channel is inside its quiet hours.
+ * Windows may wrap midnight (e.g. 22 → 7).
+ *
+ * @param schedule - The channel schedule
+ * @param now - Current time
+ * @returns True if real-time messages should be held
+ */
+export function isInQuietHours(schedule: NotificationSchedule, now: Date = new Date()): boolean {
+	const { quietHoursStart: start, quietHoursEnd: end } = schedule;
+	if (start === null || end === null || start === end) {
+		return false;
+	}
+
+	const { hour } = getZonedTime(now, schedule.timezone);
+	return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Get when a channel's current quiet hours end.
+ *
+ * @param schedule - The channel schedule (must have quiet hours configured)
+ * @param now - Current time
+ * @returns The next time the end hour starts
+ */
+export function getQuietHoursEnd(schedule: NotificationSchedule, now: Date = new Date()): Date {
+	const local = getZonedTime(now, schedule.timezone);
+	const endHour = schedule.quietHoursEnd ?? 0;
+
+	const today = zonedHourToDate(local.year, local.month, local.day, endHour, schedule.timezone);
+	return today > now
+		? today
+		: zonedHourToDate(local.year, local.month, local.day + 1, endHour, schedule.timezone);
+}
+
+// ============================================================================
+// DIGESTS
+// ============================================================================
+
+/**
+ * Get the most recent scheduled digest time at or before now.
+ *
+ * @param schedule - The channel schedule
+ * @param now - Current time
+ * @returns The latest digest slot, or null for real-time channels
+ *
+ * @example
+ * ```ts
+ * // Daily at 9:00 in UTC, checked at 2025-01-20T10:05Z
+ * getLatestDigestSlot(schedule, now); // 2025-01-20T09:00Z
+ * ```
+ */
+export function getLatestDigestSlot(
+	schedule: NotificationSchedule,
+	now: Date = new Date(),
+): Date | null {
+	if (schedule.deliveryMode === "realtime") {
+		return null;
+	}
+
+	const local = getZonedTime(now, schedule.timezone);
+
+	for (let daysBack = 0; daysBack <= 7; daysBack++) {
+		// Date.UTC normalizes the day, giving the calendar date and weekday daysBack days ago
+		const calendarDay = new Date(Date.UTC(local.year, local.month - 1, local.day - daysBack));
+		if (schedule.deliveryMode === "weekly" && calendarDay.getUTCDay() !== schedule.digestDay) {
+			continue;
+		}
+
+		const slot = zonedHourToDate(
+			calendarDay.getUTCFullYear(),
+			calendarDay.getUTCMonth() + 1,
+			calendarDay.getUTCDate(),
+			schedule.digestHour,
+			schedule.timezone,
+		);
+		if (slot <= now) {
+			return slot;
+		}
+	}
+
+	return null;
+}
@@ -0,0 +1,473 @@
+/**
+ * Tests for Slack notification provider.
+ *
+ * Verifies Block Kit formatting, validation, and delivery per specs/09-notifications.md.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	escapeSlackText,
+	formatDigestBlocks,
+	formatLeadCreatedBlocks,
+	formatLeadStatusChangedBlocks,
+	formatSlackPayload,
+	SLACK_CONFIG,
+	sendSlackNotification,
+	slackProvider,
+	validateSlackConfig,
+} from "./slack";
+import type { NotificationLeadData, NotificationPayload } from "./types";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const WEBHOOK_URL = "https://hooks.slack.com/services/T0123ABC/B0456DEF/abcdefghijklmnop";
+
+/**
+ * Create mock notification lead data.
+ */
+function createMockLeadData(overrides: Partial<NotificationLeadData> = {}): NotificationLeadData {
+	return {
+		id: "lead-123",
+		name: "John Doe",
+		email: "john@example.com",
+		company: "Acme Inc",
+		phone: "+1-555-1234",
+		budget: "$10,000 - $25,000",
+		projectType: "Web Application",
+		message: "I need a web application built for my business",
+		source: "Contact Form",
+		status: "new",
+		createdAt: new Date("2024-01-15T10:00:00Z"),
+		...overrides,
+	};
+}
+
+// ============================================================================
+// VALIDATION TESTS
+// ============================================================================
+
+describe("validateSlackConfig", () => {
+	it("should accept a valid Slack incoming webhook URL", () => {
+		const result = validateSlackConfig({ webhook_url: WEBHOOK_URL });
+		expect(result.valid).toBe(true);
+		expect(result.error).toBeUndefined();
+	});
+
+	it("should reject null config", () => {
+		const result = validateSlackConfig(null);
+		expect(result.valid).toBe(false);
+		expect(result.error).toBe("Configuration is required");
+	});
+
+	it("should reject missing webhook_url", () => {
+		const result = validateSlackConfig({});
+		expect(result.valid).toBe(false);
+		expect(result.error).toContain("webhook_url is required");
+	});
+
+	it.each([
+		["HTTP URL", "http://hooks.slack.com/services/T0123ABC/B0456DEF/abcdef"],
+		["Discord URL", "https://discord.com/api/webhooks/123/abc"],
+		["URL without token", "https://hooks.slack.com/services/T0123ABC/B0456DEF"],
+		["workflow URL", "https://hooks.slack.com/workflows/T0123ABC/A0456DEF/123/abc"],
+	])("should reject %s", (_, url) => {
+		const result = validateSlackConfig({ webhook_url: url });
+		expect(result.valid).toBe(false);
+		expect(result.error).toContain("Invalid Slack webhook URL");
+	});
+});
+
+// ============================================================================
+// FORMATTING TESTS
+// ============================================================================
+
+describe("escapeSlackText", () => {
+	it("should escape control characters", () => {
+		expect(escapeSlackText("<@U123> & <!channel>")).toBe("&lt;@U123&gt; &amp; &lt;!channel&gt;");
+	});
+});
+
+describe("formatLeadCreatedBlocks", () => {
+	it("should create blocks with all lead fields", () => {
+		const result = formatLeadCreatedBlocks({
+			event: "lead.created",
+			lead: createMockLeadData(),
+		});
+
+		expect(result.text).toBe("🆕 New Lead: John Doe");
+		expect(result.blocks[0]).toEqual({
+			type: "header",
+			text: { type: "plain_text", text: "🆕 New Lead: John Doe", emoji: true },
+		});
+		expect(result.blocks[1]).toEqual({
+			type: "section",
+			text: { type: "mrkdwn", text: "I need a web application built for my business" },
+		});
+
+		const fields = result.blocks[2].type === "section" ? result.blocks[2].fields : undefined;
+		expect(fields?.map((field) => field.text)).toEqual([
+			"*📧 Email*\njohn@example.com",
+			"*🏢 Company*\nAcme Inc",
+			"*📞 Phone*\n+1-555-1234",
+			"*💰 Budget*\n$10,000 - $25,000",
+			"*📋 Project*\nWeb Application",
+			"*🔗 Source*\nContact Form",
+		]);
+
+		expect(result.blocks[3]).toMatchObject({
+			type: "actions",
+			elements: [{ type: "button", url: expect.stringContaining("/leads/lead-123") }],
+		});
+		expect(result.blocks[4]).toEqual({
+			type: "context",
+			elements: [{ type: "mrkdwn", text: "Octatech CRM" }],
+		});
+	});
+
+	it("should handle lead without optional fields", () => {
+		const result = formatLeadCreatedBlocks({
+			event: "lead.created",
+			lead: createMockLeadData({
+				company: null,
+				phone: null,
+				budget: null,
+				projectType: null,
+				source: null,
+			}),
+		});
+
+		const fields = result.blocks[2].type === "section" ? result.blocks[2].fields : undefined;
+		expect(fields).toHaveLength(1);
+	});
+
+	it("should omit the message section for an empty message", () => {
+		const result = formatLeadCreatedBlocks({
+			event: "lead.created",
+			lead: createMockLeadData({ message: "  " }),
+		});
+
+		expect(result.blocks.map((block) => block.type)).toEqual([
+			"header",
+			"section",
+			"actions",
+			"context",
+		]);
+	});
+
+	it("should truncate long messages and escape user input", () => {
+		const result = formatLeadCreatedBlocks({
+			event: "lead.created",
+			lead: createMockLeadData({ message: `<!channel> ${"a".repeat(1500)}` }),
+		});
+
+		const section = result.blocks[1];
+		const text = section.type === "section" ? section.text?.text : undefined;
+		expect(text?.startsWith("&lt;!channel&gt;")).toBe(true);
+		expect(text?.endsWith("...")).toBe(true);
+	});
+
+	it("should truncate long names in the header", () => {
+		const result = formatLeadCreatedBlocks({
+			event: "lead.created",
+			lead: createMockLeadData({ name: "N".repeat(200) }),
+		});
+
+		const header = result.blocks[0];
+		expect(header.type === "header" && header.text.text.length).toBe(150);
+	});
+});
+
+describe("formatLeadStatusChangedBlocks", () => {
+	it("should create blocks with status change info", () => {
+		const result = formatLeadStatusChangedBlocks({
+			event: "lead.status_changed",
+			lead: createMockLeadData(),
+			previousStatus: "new",
+			newStatus: "contacted",
+		});
+
+		expect(result.text).toBe("📊 Status Changed: John Doe (new → contacted)");
+		const fields = result.blocks[1].type === "section" ? result.blocks[1].fields : undefined;
+		expect(fields?.map((field) => field.text)).toEqual([
+			"*📧 Email*\njohn@example.com",
+			"*📊 Status Change*\nnew → contacted",
+			"*🏢 Company*\nAcme Inc",
+		]);
+	});
+});
+
+const digestPayload: Extract<NotificationPayload, { event: "digest" }> = {
+	event: "digest",
+	digest: {
+		period: "daily",
+		since: new Date("2025-01-19T09:00:00Z"),
+		until: new Date("2025-01-20T09:00:00Z"),
+		sections: [
+			{
+				title: "🆕 New Leads",
+				total: 12,
+				items: [
+					{
+						label: "John <Doe>",
+						detail: "Acme & Co",
+						url: "https://crm.example.com/leads/lead-123",
+					},
+				],
+			},
+			{ title: "⏰ Overdue Follow-ups", total: 0, items: [] },
+		],
+	},
+};
+
+describe("formatDigestBlocks", () => {
+	it("should render a section per digest section", () => {
+		const result = formatDigestBlocks(digestPayload);
+
+		expect(result.text).toBe("📬 Daily Digest");
+		expect(result.blocks[2]).toEqual({
+			type: "section",
+			text: {
+				type: "mrkdwn",
+				text: "*🆕 New Leads (12)*\n• <https://crm.example.com/leads/lead-123|John &lt;Doe&gt;> — Acme &amp; Co\n_…and 11 more_",
+			},
+		});
+		expect(result.blocks[3]).toEqual({
+			type: "section",
+			text: { type: "mrkdwn", text: "*⏰ Overdue Follow-ups (0)*\nNone" },
+		});
+	});
+});
+
+describe("formatSlackPayload", () => {
+	it("should format each event type", () => {
+		const lead = createMockLeadData();
+
+		expect(formatSlackPayload({ event: "lead.created", lead }).text).toContain("New Lead");
+		expect(
+			formatSlackPayload({
+				event: "lead.status_changed",
+				lead,
+				previousStatus: "new",
+				newStatus: "won",
+			}).text,
+		).toContain("Status Changed");
+	});
+
+	it("should format lead.activity_added with an escaped description", () => {
+		const result = formatSlackPayload({
+			event: "lead.activity_added",
+			lead: createMockLeadData(),
+			activity: { id: "a-1", type: "call", description: "<!here> call", createdAt: new Date() },
+		});
+
+		expect(result.text).toBe("📝 Activity Added: John Doe");
+		expect(result.blocks[1]).toEqual({
+			type: "section",
+			text: { type: "mrkdwn", text: "&lt;!here&gt; call" },
+		});
+	});
+
+	it("should link contact.follow_up_due to the contact", () => {
+		const result = formatSlackPayload({
+			event: "contact.follow_up_due",
+			contact: {
+				id: "contact-123",
+				name: "Jane Smith",
+				email: null,
+				role: null,
+				companyName: null,
+				nextAction: null,
+				nextActionDue: new Date("2025-01-20T10:00:00Z"),
+			},
+		});
+
+		expect(result.text).toBe("⏰ Follow-up Due: Jane Smith");
+		expect(result.blocks.map((block) => block.type)).toEqual([
+			"header",
+			"section",
+			"actions",
+			"context",
+		]);
+		expect(result.blocks[2]).toMatchObject({
+			elements: [{ url: expect.stringContaining("/contacts/contact-123") }],
+		});
+	});
+
+	it("should format webhook.auto_disabled and booking.created", () => {
+		expect(
+			formatSlackPayload({
+				event: "webhook.auto_disabled",
+				webhook: {
+					id: "webhook-123",
+					name: "Zapier",
+					url: "https://hooks.zapier.com/hooks/catch/123",
+					events: ["lead.created"],
+					failureCount: 10,
+				},
+			}).text,
+		).toBe("⚠️ Webhook Auto-Disabled: Zapier");
+
+		expect(
+			formatSlackPayload({
+				event: "booking.created",
+				lead: createMockLeadData(),
+				isNewLead: true,
+				booking: {
+					title: "Discovery Call",
+					startTime: new Date("2025-01-20T10:00:00Z"),
+					endTime: null,
+					attendeeName: "John Doe",
+					attendeeEmail: "john@example.com",
+				},
+			}).text,
+		).toBe("📅 New Booking: John Doe");
+	});
+
+	it("should format booking.rescheduled and booking.cancelled", () => {
+		const booking = {
+			title: "Discovery Call",
+			startTime: new Date("2025-01-22T15:00:00Z"),
+			endTime: null,
+			attendeeName: "John Doe",
+			attendeeEmail: "john@example.com",
+		};
+
+		const rescheduled = formatSlackPayload({
+			event: "booking.rescheduled",
+			lead: createMockLeadData(),
+			booking,
+			previousStartTime: new Date("2025-01-20T10:00:00Z"),
+		});
+		expect(rescheduled.text).toBe("🔁 Booking Rescheduled: John Doe");
+		expect(JSON.stringify(rescheduled.blocks)).toContain("Jan 20, 2025, 10:00 AM UTC");
+
+		const cancelled = formatSlackPayload({
+			event: "booking.cancelled",
+			lead: createMockLeadData(),
+			booking,
+			reason: "Budget cut",
+		});
+		expect(cancelled.text).toBe("❌ Booking Cancelled: John Doe");
+		expect(cancelled.blocks[2]).toMatchObject({ text: { text: "Reason: Budget cut" } });
+	});
+});
+
+// ============================================================================
+// DELIVERY TESTS
+// ============================================================================
+
+describe("sendSlackNotification", () => {
+	const mockFetch = vi.fn();
+	const originalFetch = global.fetch;
+	const payload: NotificationPayload = {
+		event: "lead.created",
+		lead: createMockLeadData(),
+	};
+
+	beforeEach(() => {
+		global.fetch = mockFetch;
+		mockFetch.mockReset();
+	});
+
+	afterEach(() => {
+		global.fetch = originalFetch;
+	});
+
+	it("should post the blocks to the webhook URL", async () => {
+		mockFetch.mockResolvedValue({
+			ok: true,
+			status: 200,
+			text: () => Promise.resolve("ok"),
+		});
+
+		const result = await sendSlackNotification({ webhook_url: WEBHOOK_URL }, payload);
+
+		expect(result.success).toBe(true);
+		expect(result.statusCode).toBe(200);
+		const [url, init] = mockFetch.mock.calls[0];
+		expect(url).toBe(WEBHOOK_URL);
+		expect(init.headers).toEqual({ "Content-Type": "application/json" });
+		expect(JSON.parse(init.body)).toEqual(formatSlackPayload(payload));
+	});
+
+	it("should fail with invalid config", async () => {
+		const result = await sendSlackNotification({ webhook_url: "invalid" }, payload);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain("Invalid Slack webhook URL");
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it("should handle rate limiting (429)", async () => {
+		mockFetch.mockResolvedValue({
+			ok: false,
+			status: 429,
+			headers: {
+				get: (name: string) => (name === "Retry-After" ? "30" : null),
+			},
+			text: () => Promise.resolve("rate_limited"),
+		});
+
+		const result = await sendSlackNotification({ webhook_url: WEBHOOK_URL }, payload);
+
+		expect(result.success).toBe(false);
+		expect(result.statusCode).toBe(429);
+		expect(result.error).toBe("Slack rate limited. Retry after 30 seconds");
+	});
+
+	it("should include Slack's error code", async () => {
+		mockFetch.mockResolvedValue({
+			ok: false,
+			status: 404,
+			text: () => Promise.resolve("no_service"),
+		});
+
+		const result = await sendSlackNotification({ webhook_url: WEBHOOK_URL }, payload);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("Slack webhook returned 404: no_service");
+	});
+
+	it("should handle network errors", async () => {
+		mockFetch.mockRejectedValue(new Error("Network unavailable"));
+
+		const result = await sendSlackNotification({ webhook_url: WEBHOOK_URL }, payload);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain("Network error");
+	});
+
+	it("should handle timeout", async () => {
+		const error = new Error("Aborted");
+		error.name = "AbortError";
+		mockFetch.mockRejectedValue(error);
+
+		const result = await sendSlackNotification({ webhook_url: WEBHOOK_URL }, payload);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe(`Request timeout after ${SLACK_CONFIG.timeoutMs}ms`);
+	});
+});
+
+// ============================================================================
+// PROVIDER INTERFACE TESTS
+// ============================================================================
+
+describe("slackProvider", () => {
+	it("should validate config correctly", () => {
+		expect(slackProvider.validateConfig({ webhook_url: WEBHOOK_URL }).valid).toBe(true);
+		expect(slackProvider.validateConfig({ webhook_url: "invalid" }).valid).toBe(false);
+	});
+
+	it("should reject non-Slack config", async () => {
+		const result = await slackProvider.send(
+			{ webhook_url: "https://discord.com/api/webhooks/123/abc" },
+			{ event: "lead.created", lead: createMockLeadData() },
+		);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain("Invalid Slack configuration");
+	});
+});
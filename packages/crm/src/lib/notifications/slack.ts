@@ -0,0 +1,657 @@
+/**
+ * Slack Notification Provider.
+ *
+ * Implements Slack incoming webhook notifications with Block Kit formatting
+ * per specs/09-notifications.md.
+ *
+ * Features:
+ * - Block Kit layout mirroring the Discord embeds (header, message, fields, link)
+ * - Plain-text fallback for push notifications and older clients
+ * - Configurable incoming webhook URL
+ * - Timeout handling (10 second default)
+ * - Graceful error handling
+ */
+
+import type {
+	NotificationConfig,
+	NotificationDeliveryResult,
+	NotificationPayload,
+	NotificationProvider,
+	SlackConfig,
+} from "./types.js";
+import {
+	formatDigestPeriod,
+	formatNotificationDate,
+	getContactUrl,
+	getCrmBaseUrl,
+	getDigestTitle,
+	getLeadUrl,
+	getWebhookUrl,
+	isSlackConfig,
+} from "./types.js";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Slack notification configuration.
+ */
+export const SLACK_CONFIG = {
+	/** HTTP request timeout in milliseconds */
+	timeoutMs: 10_000,
+	/** Maximum message length shown in the message section */
+	maxMessageLength: 1000,
+} as const;
+
+/**
+ * Slack incoming webhook URL pattern for validation.
+ */
+const SLACK_WEBHOOK_REGEX =
+	/^https:\/\/hooks\.slack\.com\/services\/[A-Z0-9]+\/[A-Z0-9]+\/[A-Za-z0-9]+$/;
+
+/**
+ * Maximum length of header block text (Slack limit).
+ */
+const MAX_HEADER_LENGTH = 150;
+
+// ============================================================================
+// BLOCK KIT FORMATTING
+// ============================================================================
+
+/**
+ * Slack text object.
+ */
+interface SlackText {
+	type: "plain_text" | "mrkdwn";
+	text: string;
+	emoji?: boolean;
+}
+
+/**
+ * Slack Block Kit block (the subset used by this provider).
+ */
+type SlackBlock =
+	| { type: "header"; text: SlackText }
+	| { type: "section"; text?: SlackText; fields?: SlackText[] }
+	| {
+			type: "actions";
+			elements: Array<{ type: "button"; text: SlackText; url: string }>;
+	  }
+	| { type: "context"; elements: SlackText[] };
+
+/**
+ * Slack incoming webhook payload structure.
+ */
+interface SlackWebhookPayload {
+	/** Fallback shown in notifications and clients without Block Kit */
+	text: string;
+	blocks: SlackBlock[];
+}
+
+/**
+ * Escape the characters Slack treats as control sequences in mrkdwn text.
+ *
+ * @param text - Text to escape
+ * @returns Escaped text
+ */
+export function escapeSlackText(text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Create a mrkdwn field with a bold label.
+ */
+function field(label: string, value: string): SlackText {
+	return { type: "mrkdwn", text: `*${label}*\n${escapeSlackText(value)}` };
+}
+
+/**
+ * Create a header block, truncated to Slack's limit.
+ */
+function header(text: string): SlackBlock {
+	const truncated =
+		text.length > MAX_HEADER_LENGTH ? `${text.substring(0, MAX_HEADER_LENGTH - 3)}...` : text;
+	return { type: "header", text: { type: "plain_text", text: truncated, emoji: true } };
+}
+
+/**
+ * Create a mrkdwn section with escaped, truncated text.
+ */
+function textSection(text: string): SlackBlock {
+	const truncated =
+		text.length > SLACK_CONFIG.maxMessageLength
+			? `${text.substring(0, SLACK_CONFIG.maxMessageLength)}...`
+			: text;
+	return { type: "section", text: { type: "mrkdwn", text: escapeSlackText(truncated) } };
+}
+
+/**
+ * Create the "View in CRM" button and footer blocks.
+ */
+function footerBlocks(url: string): SlackBlock[] {
+	return [
+		{
+			type: "actions",
+			elements: [
+				{
+					type: "button",
+					text: { type: "plain_text", text: "View in CRM" },
+					url,
+				},
+			],
+		},
+		{ type: "context", elements: [{ type: "mrkdwn", text: "Octatech CRM" }] },
+	];
+}
+
+/**
+ * Format a lead.created notification as Slack blocks.
+ *
+ * @param payload - The notification payload
+ * @returns Slack webhook payload
+ *
+ * @example
+ * ```ts
+ * const message = formatLeadCreatedBlocks(payload);
+ * // Returns blocks with header "🆕 New Lead: John Doe"
+ * ```
+ */
+export function formatLeadCreatedBlocks(
+	payload: Extract<NotificationPayload, { event: "lead.created" }>,
+): SlackWebhookPayload {
+	const { lead } = payload;
+	const fields: SlackText[] = [field("📧 Email", lead.email)];
+
+	if (lead.company) {
+		fields.push(field("🏢 Company", lead.company));
+	}
+	if (lead.phone) {
+		fields.push(field("📞 Phone", lead.phone));
+	}
+	if (lead.budget) {
+		fields.push(field("💰 Budget", lead.budget));
+	}
+	if (lead.projectType) {
+		fields.push(field("📋 Project", lead.projectType));
+	}
+	if (lead.source) {
+		fields.push(field("🔗 Source", lead.source));
+	}
+
+	const title = `🆕 New Lead: ${lead.name}`;
+	const blocks: SlackBlock[] = [header(title)];
+
+	// Slack rejects empty text objects, so the message section is optional
+	if (lead.message.trim()) {
+		blocks.push(textSection(lead.message));
+	}
+
+	blocks.push({ type: "section", fields }, ...footerBlocks(getLeadUrl(lead.id)));
+
+	return { text: title, blocks };
+}
+
+/**
+ * Format a lead.status_changed notification as Slack blocks.
+ *
+ * @param payload - The notification payload
+ * @returns Slack webhook payload
+ */
+export function formatLeadStatusChangedBlocks(
+	payload: Extract<NotificationPayload, { event: "lead.status_changed" }>,
+): SlackWebhookPayload {
+	const { lead, previousStatus, newStatus } = payload;
+
+	const fields: SlackText[] = [
+		field("📧 Email", lead.email),
+		field("📊 Status Change", `${previousStatus} → ${newStatus}`),
+	];
+
+	if (lead.company) {
+		fields.push(field("🏢 Company", lead.company));
+	}
+
+	const title = `📊 Status Changed: ${lead.name}`;
+
+	return {
+		text: `${title} (${previousStatus} → ${newStatus})`,
+		blocks: [header(title), { type: "section", fields }, ...footerBlocks(getLeadUrl(lead.id))],
+	};
+}
+
+/**
+ * Format a lead.activity_added notification as Slack blocks.
+ *
+ * @param payload - The notification payload
+ * @returns Slack webhook payload
+ */
+export function formatLeadActivityAddedBlocks(
+	payload: Extract<NotificationPayload, { event: "lead.activity_added" }>,
+): SlackWebhookPayload {
+	const { lead, activity } = payload;
+
+	const fields: SlackText[] = [field("📧 Email", lead.email), field("🏷️ Type", activity.type)];
+
+	if (lead.company) {
+		fields.push(field("🏢 Company", lead.company));
+	}
+
+	const title = `📝 Activity Added: ${lead.name}`;
+	const blocks: SlackBlock[] = [header(title)];
+
+	if (activity.description.trim()) {
+		blocks.push(textSection(activity.description));
+	}
+
+	blocks.push({ type: "section", fields }, ...footerBlocks(getLeadUrl(lead.id)));
+
+	return { text: title, blocks };
+}
+
+/**
+ * Format a contact.follow_up_due notification as Slack blocks.
+ *
+ * @param payload - The notification payload
+ * @returns Slack webhook payload
+ */
+export function formatContactFollowUpDueBlocks(
+	payload: Extract<NotificationPayload, { event: "contact.follow_up_due" }>,
+): SlackWebhookPayload {
+	const { contact } = payload;
+
+	const fields: SlackText[] = [field("⏰ Due", formatNotificationDate(contact.nextActionDue))];
+
+	if (contact.email) {
+		fields.push(field("📧 Email", contact.email));
+	}
+	if (contact.companyName) {
+		fields.push(field("🏢 Company", contact.companyName));
+	}
+
+	const title = `⏰ Follow-up Due: ${contact.name}`;
+	const blocks: SlackBlock[] = [header(title)];
+
+	if (contact.nextAction?.trim()) {
+		blocks.push(textSection(contact.nextAction));
+	}
+
+	blocks.push({ type: "section", fields }, ...footerBlocks(getContactUrl(contact.id)));
+
+	return { text: title, blocks };
+}
+
+/**
+ * Format a webhook.auto_disabled notification as Slack blocks.
+ *
+ * @param payload - The notification payload
+ * @returns Slack webhook payload
+ */
+export function formatWebhookAutoDisabledBlocks(
+	payload: Extract<NotificationPayload, { event: "webhook.auto_disabled" }>,
+): SlackWebhookPayload {
+	const { webhook } = payload;
+
+	const title = `⚠️ Webhook Auto-Disabled: ${webhook.name}`;
+
+	return {
+		text: title,
+		blocks: [
+			header(title),
+			textSection(`Disabled after ${webhook.failureCount} consecutive delivery failures.`),
+			{
+				type: "section",
+				fields: [field("🔗 URL", webhook.url), field("📋 Events", webhook.events.join(", "))],
+			},
+			...footerBlocks(getWebhookUrl(webhook.id)),
+		],
+	};
+}
+
+/**
+ * Format a booking.created notification as Slack blocks.
+ *
+ * @param payload - The notification payload
+ * @returns Slack webhook payload
+ */
+export function formatBookingCreatedBlocks(
+	payload: Extract<NotificationPayload, { event: "booking.created" }>,
+): SlackWebhookPayload {
+	const { booking, lead, isNewLead } = payload;
+
+	const fields: SlackText[] = [
+		field("📋 Meeting", booking.title),
+		field(
+			"🕐 When",
+			booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time",
+		),
+		field("📧 Email", booking.attendeeEmail),
+		field("👤 Lead", isNewLead ? "New" : "Existing"),
+	];
+
+	if (lead.company) {
+		fields.push(field("🏢 Company", lead.company));
+	}
+
+	const title = `📅 New Booking: ${booking.attendeeName}`;
+
+	return {
+		text: title,
+		blocks: [header(title), { type: "section", fields }, ...footerBlocks(getLeadUrl(lead.id))],
+	};
+}
+
+/**
+ * Format a booking.rescheduled notification as Slack blocks.
+ *
+ * @param payload - The notification payload
+ * @returns Slack webhook payload
+ */
+export function formatBookingRescheduledBlocks(
+	payload: Extract<NotificationPayload, { event: "booking.rescheduled" }>,
+): SlackWebhookPayload {
+	const { booking, lead, previousStartTime } = payload;
+
+	const fields: SlackText[] = [
+		field("📋 Meeting", booking.title),
+		field("📧 Email", booking.attendeeEmail),
+		field("🕐 Was", previousStartTime ? formatNotificationDate(previousStartTime) : "Unknown time"),
+		field("🕐 Now", booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time"),
+	];
+
+	const title = `🔁 Booking Rescheduled: ${booking.attendeeName}`;
+
+	return {
+		text: title,
+		blocks: [header(title), { type: "section", fields }, ...footerBlocks(getLeadUrl(lead.id))],
+	};
+}
+
+/**
+ * Format a booking.cancelled notification as Slack blocks.
+ *
+ * @param payload - The notification payload
+ * @returns Slack webhook payload
+ */
+export function formatBookingCancelledBlocks(
+	payload: Extract<NotificationPayload, { event: "booking.cancelled" }>,
+): SlackWebhookPayload {
+	const { booking, lead, reason } = payload;
+
+	const fields: SlackText[] = [
+		field("📋 Meeting", booking.title),
+		field("📧 Email", booking.attendeeEmail),
+		field("🕐 Was", booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time"),
+	];
+
+	const title = `❌ Booking Cancelled: ${booking.attendeeName}`;
+
+	return {
+		text: title,
+		blocks: [
+			header(title),
+			{ type: "section", fields },
+			...(reason ? [textSection(`Reason: ${reason}`)] : []),
+			...footerBlocks(getLeadUrl(lead.id)),
+		],
+	};
+}
+
+/**
+ * Format a digest notification as Slack blocks, one section per digest section.
+ *
+ * @param payload - The notification payload
+ * @returns Slack webhook payload
+ */
+export function formatDigestBlocks(
+	payload: Extract<NotificationPayload, { event: "digest" }>,
+): SlackWebhookPayload {
+	const { digest } = payload;
+	const title = getDigestTitle(digest);
+
+	const sections: SlackBlock[] = digest.sections.map((section) => {
+		const lines = section.items.map((item) => {
+			const detail = item.detail ? ` — ${escapeSlackText(item.detail)}` : "";
+			return `• <${item.url}|${escapeSlackText(item.label)}>${detail}`;
+		});
+		if (lines.length === 0) {
+			lines.push("None");
+		}
+		const more = section.total - section.items.length;
+		if (more > 0) {
+			lines.push(`_…and ${more} more_`);
+		}
+
+		return {
+			type: "section",
+			text: {
+				type: "mrkdwn",
+				text: `*${escapeSlackText(section.title)} (${section.total})*\n${lines.join("\n")}`,
+			},
+		};
+	});
+
+	return {
+		text: title,
+		blocks: [
+			header(title),
+			{ type: "context", elements: [{ type: "mrkdwn", text: formatDigestPeriod(digest) }] },
+			...sections,
+			...footerBlocks(getCrmBaseUrl()),
+		],
+	};
+}
+
+/**
+ * Format a notification payload as a Slack webhook payload.
+ *
+ * @param payload - The notification payload
+ * @returns Slack webhook payload
+ */
+export function formatSlackPayload(payload: NotificationPayload): SlackWebhookPayload {
+	switch (payload.event) {
+		case "lead.created":
+			return formatLeadCreatedBlocks(payload);
+		case "lead.status_changed":
+			return formatLeadStatusChangedBlocks(payload);
+		case "lead.activity_added":
+			return formatLeadActivityAddedBlocks(payload);
+		case "contact.follow_up_due":
+			return formatContactFollowUpDueBlocks(payload);
+		case "webhook.auto_disabled":
+			return formatWebhookAutoDisabledBlocks(payload);
+		case "booking.created":
+			return formatBookingCreatedBlocks(payload);
+		case "booking.rescheduled":
+			return formatBookingRescheduledBlocks(payload);
+		case "booking.cancelled":
+			return formatBookingCancelledBlocks(payload);
+		case "digest":
+			return formatDigestBlocks(payload);
+	}
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate Slack configuration.
+ *
+ * @param config - Configuration to validate
+ * @returns Object with valid flag and optional error message
+ *
+ * @example
+ * ```ts
+ * const result = validateSlackConfig({
+ *   webhook_url: "https://hooks.slack.com/services/T000/B000/XXXX",
+ * });
+ * ```
+ */
+export function validateSlackConfig(config: unknown): {
+	valid: boolean;
+	error?: string;
+} {
+	if (!config || typeof config !== "object") {
+		return { valid: false, error: "Configuration is required" };
+	}
+
+	const cfg = config as Record<string, unknown>;
+
+	if (!cfg.webhook_url || typeof cfg.webhook_url !== "string") {
+		return { valid: false, error: "webhook_url is required and must be a string" };
+	}
+
+	if (!SLACK_WEBHOOK_REGEX.test(cfg.webhook_url)) {
+		return {
+			valid: false,
+			error:
+				"Invalid Slack webhook URL. Must be https://hooks.slack.com/services/{team}/{channel}/{token}",
+		};
+	}
+
+	return { valid: true };
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Send a notification to Slack via incoming webhook.
+ *
+ * @param config - Slack configuration with webhook URL
+ * @param payload - The notification payload
+ * @returns Delivery result
+ *
+ * @example
+ * ```ts
+ * const result = await sendSlackNotification(
+ *   { webhook_url: "https://hooks.slack.com/services/..." },
+ *   { event: "lead.created", lead: { ... } }
+ * );
+ * ```
+ */
+export async function sendSlackNotification(
+	config: SlackConfig,
+	payload: NotificationPayload,
+): Promise<NotificationDeliveryResult> {
+	const startTime = Date.now();
+
+	// Validate configuration
+	const validation = validateSlackConfig(config);
+	if (!validation.valid) {
+		return {
+			success: false,
+			error: validation.error,
+			durationMs: Date.now() - startTime,
+		};
+	}
+
+	const body = JSON.stringify(formatSlackPayload(payload));
+
+	// Create AbortController for timeout
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => {
+		controller.abort();
+	}, SLACK_CONFIG.timeoutMs);
+
+	try {
+		const response = await fetch(config.webhook_url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body,
+			signal: controller.signal,
+		});
+
+		clearTimeout(timeoutId);
+		const durationMs = Date.now() - startTime;
+
+		if (response.ok) {
+			return {
+				success: true,
+				statusCode: response.status,
+				durationMs,
+			};
+		}
+
+		// Handle rate limiting
+		if (response.status === 429) {
+			const retryAfter = response.headers.get("Retry-After");
+			return {
+				success: false,
+				error: `Slack rate limited. Retry after ${retryAfter || "unknown"} seconds`,
+				statusCode: response.status,
+				durationMs,
+			};
+		}
+
+		// Slack returns a short error code as the body (e.g. "invalid_payload", "no_service")
+		let errorBody = "";
+		try {
+			errorBody = await response.text();
+		} catch {
+			// Ignore response read errors
+		}
+
+		return {
+			success: false,
+			error: `Slack webhook returned ${response.status}: ${errorBody.substring(0, 200)}`,
+			statusCode: response.status,
+			durationMs,
+		};
+	} catch (error) {
+		clearTimeout(timeoutId);
+		const durationMs = Date.now() - startTime;
+
+		if (error instanceof Error) {
+			if (error.name === "AbortError") {
+				return {
+					success: false,
+					error: `Request timeout after ${SLACK_CONFIG.timeoutMs}ms`,
+					durationMs,
+				};
+			}
+			return {
+				success: false,
+				error: `Network error: ${error.message}`,
+				durationMs,
+			};
+		}
+
+		return {
+			success: false,
+			error: "Unknown error occurred",
+			durationMs,
+		};
+	}
+}
+
+// ============================================================================
+// PROVIDER EXPORT
+// ============================================================================
+
+/**
+ * Slack notification provider implementation.
+ */
+export const slackProvider: NotificationProvider = {
+	async send(
+		config: NotificationConfig,
+		payload: NotificationPayload,
+	): Promise<NotificationDeliveryResult> {
+		if (!isSlackConfig(config)) {
+			return {
+				success: false,
+				error: "Invalid Slack configuration",
+				durationMs: 0,
+			};
+		}
+		return sendSlackNotification(config, payload);
+	},
+
+	validateConfig(config: unknown): { valid: boolean; error?: string } {
+		return validateSlackConfig(config);
+	},
+};
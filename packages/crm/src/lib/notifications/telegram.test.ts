@@ -6,10 +6,20 @@
 
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
+	buildLeadKeyboard,
+	callTelegramApi,
 	escapeHtml,
+	formatBookingCancelledMessage,
+	formatBookingCreatedMessage,
+	formatBookingRescheduledMessage,
+	formatContactFollowUpDueMessage,
+	formatDigestMessage,
+	formatLeadActivityAddedMessage,
 	formatLeadCreatedMessage,
 	formatLeadStatusChangedMessage,
 	formatTelegramMessage,
+	formatWebhookAutoDisabledMessage,
+	parseLeadCallbackData,
 	sendTelegramNotification,
 	TELEGRAM_CONFIG,
 	telegramProvider,
@@ -102,6 +112,16 @@ describe("validateTelegramConfig", () => {
 			const result = validateTelegramConfig(config);
 			expect(result.valid).toBe(true);
 		});
+
+		it("should accept a webhook secret", () => {
+			const config = {
+				bot_token: "999:xyz",
+				chat_id: "-100123456",
+				webhook_secret: "s3cret_token-1",
+			};
+			const result = validateTelegramConfig(config);
+			expect(result.valid).toBe(true);
+		});
 	});
 
 	describe("invalid configurations", () => {
@@ -164,6 +184,51 @@ describe("validateTelegramConfig", () => {
 			expect(result.valid).toBe(false);
 			expect(result.error).toContain("Invalid chat_id format");
 		});
+
+		it("should reject a webhook secret with characters Telegram doesn't allow", () => {
+			const config = { bot_token: "123:abc", chat_id: "-100123", webhook_secret: "not secret!" };
+			const result = validateTelegramConfig(config);
+			expect(result.valid).toBe(false);
+			expect(result.error).toContain("webhook_secret");
+		});
+	});
+});
+
+// ============================================================================
+// INLINE KEYBOARD TESTS
+// ============================================================================
+
+describe("buildLeadKeyboard", () => {
+	it("should build status and note buttons for the lead", () => {
+		const keyboard = buildLeadKeyboard("550e8400-e29b-41d4-a716-446655440000");
+
+		expect(keyboard.flat().map((button) => button.callback_data)).toEqual([
+			"lead:contacted:550e8400-e29b-41d4-a716-446655440000",
+			"lead:qualified:550e8400-e29b-41d4-a716-446655440000",
+			"lead:lost:550e8400-e29b-41d4-a716-446655440000",
+			"lead:note:550e8400-e29b-41d4-a716-446655440000",
+		]);
+		for (const button of keyboard.flat()) {
+			expect(new TextEncoder().encode(button.callback_data).length).toBeLessThanOrEqual(64);
+		}
+	});
+});
+
+describe("parseLeadCallbackData", () => {
+	it("should parse a lead action", () => {
+		expect(parseLeadCallbackData("lead:qualified:lead-123")).toEqual({
+			action: "qualified",
+			leadId: "lead-123",
+		});
+	});
+
+	it.each([
+		"lead:won:lead-123",
+		"other:contacted:lead-123",
+		"lead:contacted",
+		"lead:contacted:lead-123:extra",
+	])("should reject %j", (data) => {
+		expect(parseLeadCallbackData(data)).toBeNull();
 	});
 });
 
@@ -249,6 +314,31 @@ describe("formatLeadCreatedMessage", () => {
 		expect(message).toContain("...");
 		expect(message.indexOf("<i>")).toBeLessThan(message.length);
 	});
+
+	it("should render the channel's template override", () => {
+		const payload = {
+			event: "lead.created" as const,
+			lead: createMockLeadData({ name: "Tom & Jerry", phone: null }),
+		};
+
+		const message = formatLeadCreatedMessage(payload, {
+			"lead.created": {
+				text: "<b>{{lead.name}}</b>\n{{#lead.phone}}\n📞 {{lead.phone}}\n{{/lead.phone}}\n{{^lead.phone}}\nNo phone\n{{/lead.phone}}\n{{leadUrl}}",
+			},
+		});
+
+		expect(message).toBe(
+			"<b>Tom &amp; Jerry</b>\nNo phone\nhttps://api.octatech.xyz/leads/lead-123",
+		);
+	});
+
+	it("should ignore overrides for other events", () => {
+		const payload = { event: "lead.created" as const, lead: createMockLeadData() };
+
+		expect(formatLeadCreatedMessage(payload, { "lead.status_changed": { text: "Changed" } })).toBe(
+			formatLeadCreatedMessage(payload),
+		);
+	});
 });
 
 describe("formatLeadStatusChangedMessage", () => {
@@ -310,6 +400,207 @@ describe("formatTelegramMessage", () => {
 	});
 });
 
+// ============================================================================
+// ADDITIONAL EVENT FORMATTING TESTS
+// ============================================================================
+
+type PayloadFor<E extends NotificationPayload["event"]> = Extract<
+	NotificationPayload,
+	{ event: E }
+>;
+
+const activityPayload: PayloadFor<"lead.activity_added"> = {
+	event: "lead.activity_added",
+	lead: createMockLeadData(),
+	activity: {
+		id: "activity-123",
+		type: "call",
+		description: "Discussed <scope> & timeline",
+		createdAt: new Date("2024-01-16T10:00:00Z"),
+	},
+};
+
+const followUpPayload: PayloadFor<"contact.follow_up_due"> = {
+	event: "contact.follow_up_due",
+	contact: {
+		id: "contact-123",
+		name: "Jane Smith",
+		email: "jane@globex.com",
+		role: "CTO",
+		companyName: "Globex",
+		nextAction: "Send proposal",
+		nextActionDue: new Date("2025-01-20T10:00:00Z"),
+	},
+};
+
+const webhookDisabledPayload: PayloadFor<"webhook.auto_disabled"> = {
+	event: "webhook.auto_disabled",
+	webhook: {
+		id: "webhook-123",
+		name: "Zapier",
+		url: "https://hooks.zapier.com/hooks/catch/123",
+		events: ["lead.created", "lead.updated"],
+		failureCount: 10,
+	},
+};
+
+const bookingPayload: PayloadFor<"booking.created"> = {
+	event: "booking.created",
+	booking: {
+		title: "Discovery Call",
+		startTime: new Date("2025-01-20T10:00:00Z"),
+		endTime: new Date("2025-01-20T10:30:00Z"),
+		attendeeName: "John Doe",
+		attendeeEmail: "john@example.com",
+	},
+	lead: createMockLeadData(),
+	isNewLead: true,
+};
+
+const rescheduledPayload: PayloadFor<"booking.rescheduled"> = {
+	event: "booking.rescheduled",
+	booking: { ...bookingPayload.booking, startTime: new Date("2025-01-22T15:00:00Z") },
+	lead: createMockLeadData(),
+	previousStartTime: new Date("2025-01-20T10:00:00Z"),
+};
+
+const cancelledPayload: PayloadFor<"booking.cancelled"> = {
+	event: "booking.cancelled",
+	booking: bookingPayload.booking,
+	lead: createMockLeadData(),
+	reason: "Went with <another> agency",
+};
+
+const digestPayload: PayloadFor<"digest"> = {
+	event: "digest",
+	digest: {
+		period: "daily",
+		since: new Date("2025-01-19T09:00:00Z"),
+		until: new Date("2025-01-20T09:00:00Z"),
+		sections: [
+			{
+				title: "🆕 New Leads",
+				total: 12,
+				items: [
+					{
+						label: "John <Doe>",
+						detail: "Acme & Co",
+						url: "https://crm.example.com/leads/lead-123",
+					},
+				],
+			},
+			{ title: "⏰ Overdue Follow-ups", total: 0, items: [] },
+		],
+	},
+};
+
+describe("formatLeadActivityAddedMessage", () => {
+	it("should format activity with escaped description", () => {
+		const message = formatLeadActivityAddedMessage(activityPayload);
+
+		expect(message).toContain("<b>📝 Activity Added: John Doe</b>");
+		expect(message).toContain("<b>Type:</b> call");
+		expect(message).toContain("<i>Discussed &lt;scope&gt; &amp; timeline</i>");
+		expect(message).toContain("/leads/lead-123");
+	});
+});
+
+describe("formatContactFollowUpDueMessage", () => {
+	it("should format follow-up with next action and due date", () => {
+		const message = formatContactFollowUpDueMessage(followUpPayload);
+
+		expect(message).toContain("<b>⏰ Follow-up Due: Jane Smith</b>");
+		expect(message).toContain("<b>Next action:</b> Send proposal");
+		expect(message).toContain("<b>Due:</b> Jan 20, 2025, 10:00 AM UTC");
+		expect(message).toContain("<b>Company:</b> Globex");
+		expect(message).toContain("/contacts/contact-123");
+	});
+
+	it("should omit missing optional fields", () => {
+		const message = formatContactFollowUpDueMessage({
+			...followUpPayload,
+			contact: { ...followUpPayload.contact, email: null, companyName: null, nextAction: null },
+		});
+
+		expect(message).not.toContain("Next action");
+		expect(message).not.toContain("Email");
+		expect(message).not.toContain("Company");
+	});
+});
+
+describe("formatWebhookAutoDisabledMessage", () => {
+	it("should format failure count, URL and events", () => {
+		const message = formatWebhookAutoDisabledMessage(webhookDisabledPayload);
+
+		expect(message).toContain("<b>⚠️ Webhook Auto-Disabled: Zapier</b>");
+		expect(message).toContain("Disabled after 10 consecutive delivery failures.");
+		expect(message).toContain("<b>Events:</b> lead.created, lead.updated");
+		expect(message).toContain("/webhooks/webhook-123/deliveries");
+	});
+});
+
+describe("formatBookingCreatedMessage", () => {
+	it("should format meeting details", () => {
+		const message = formatBookingCreatedMessage(bookingPayload);
+
+		expect(message).toContain("<b>📅 New Booking: John Doe</b>");
+		expect(message).toContain("<b>Meeting:</b> Discovery Call");
+		expect(message).toContain("<b>When:</b> Jan 20, 2025, 10:00 AM UTC");
+		expect(message).toContain("New lead created from this booking");
+	});
+
+	it("should mark bookings from existing leads", () => {
+		const message = formatBookingCreatedMessage({ ...bookingPayload, isNewLead: false });
+		expect(message).toContain("<i>Existing lead</i>");
+	});
+});
+
+describe("formatBookingRescheduledMessage", () => {
+	it("should show the old and new times", () => {
+		const message = formatBookingRescheduledMessage(rescheduledPayload);
+
+		expect(message).toContain("<b>🔁 Booking Rescheduled: John Doe</b>");
+		expect(message).toContain("<b>Was:</b> Jan 20, 2025, 10:00 AM UTC");
+		expect(message).toContain("<b>Now:</b> Jan 22, 2025, 3:00 PM UTC");
+	});
+});
+
+describe("formatBookingCancelledMessage", () => {
+	it("should include the escaped reason", () => {
+		const message = formatBookingCancelledMessage(cancelledPayload);
+
+		expect(message).toContain("<b>❌ Booking Cancelled: John Doe</b>");
+		expect(message).toContain("<b>Reason:</b> Went with &lt;another&gt; agency");
+	});
+});
+
+describe("formatTelegramMessage (additional events)", () => {
+	it.each([
+		[activityPayload.event, activityPayload, "Activity Added"],
+		[followUpPayload.event, followUpPayload, "Follow-up Due"],
+		[webhookDisabledPayload.event, webhookDisabledPayload, "Webhook Auto-Disabled"],
+		[bookingPayload.event, bookingPayload, "New Booking"],
+		[rescheduledPayload.event, rescheduledPayload, "Booking Rescheduled"],
+		[cancelledPayload.event, cancelledPayload, "Booking Cancelled"],
+	] as const)("should format %s", (_, payload, title) => {
+		expect(formatTelegramMessage(payload)).toContain(title);
+	});
+});
+
+describe("formatDigestMessage", () => {
+	it("should list each section with escaped, linked items", () => {
+		const message = formatDigestMessage(digestPayload);
+
+		expect(message).toContain("<b>📬 Daily Digest</b>");
+		expect(message).toContain("<b>🆕 New Leads (12)</b>");
+		expect(message).toContain(
+			'• <a href="https://crm.example.com/leads/lead-123">John &lt;Doe&gt;</a> — Acme &amp; Co',
+		);
+		expect(message).toContain("<i>…and 11 more</i>");
+		expect(message).toContain("<b>⏰ Overdue Follow-ups (0)</b>\nNone");
+	});
+});
+
 // ============================================================================
 // DELIVERY TESTS
 // ============================================================================
@@ -365,6 +656,41 @@ describe("sendTelegramNotification", () => {
 		expect(body.chat_id).toBe("-1001234567890");
 		expect(body.parse_mode).toBe("HTML");
 		expect(body.disable_web_page_preview).toBe(true);
+		expect(body.reply_markup).toBeUndefined();
+	});
+
+	it("should add lead action buttons when the chat is linked to the bot", async () => {
+		mockFetch.mockResolvedValue({
+			ok: true,
+			status: 200,
+			json: () => Promise.resolve({ ok: true, result: { message_id: 123 } }),
+		});
+
+		const config = { bot_token: "123:abc", chat_id: "-100123", webhook_secret: "secret" };
+
+		await sendTelegramNotification(config, {
+			event: "lead.status_changed",
+			lead: createMockLeadData(),
+			previousStatus: "new",
+			newStatus: "contacted",
+		});
+		await sendTelegramNotification(config, {
+			event: "webhook.auto_disabled",
+			webhook: {
+				id: "webhook-1",
+				name: "Zapier",
+				url: "https://hooks.zapier.com/x",
+				events: ["lead.created"],
+				failureCount: 10,
+			},
+		});
+
+		const leadBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+		expect(leadBody.reply_markup).toEqual({ inline_keyboard: buildLeadKeyboard("lead-123") });
+
+		// Notifications without a lead have nothing to act on
+		const webhookBody = JSON.parse(mockFetch.mock.calls[1][1].body);
+		expect(webhookBody.reply_markup).toBeUndefined();
 	});
 
 	it("should fail with invalid config", async () => {
@@ -504,6 +830,47 @@ describe("sendTelegramNotification", () => {
 // PROVIDER INTERFACE TESTS
 // ============================================================================
 
+describe("callTelegramApi", () => {
+	const mockFetch = vi.fn();
+	const originalFetch = global.fetch;
+
+	beforeEach(() => {
+		global.fetch = mockFetch;
+		mockFetch.mockReset();
+	});
+
+	afterEach(() => {
+		global.fetch = originalFetch;
+	});
+
+	it("should POST the parameters to the method and return the response", async () => {
+		mockFetch.mockResolvedValue({
+			ok: true,
+			status: 200,
+			json: () => Promise.resolve({ ok: true, result: true }),
+		});
+
+		const response = await callTelegramApi("123:abc", "answerCallbackQuery", {
+			callback_query_id: "42",
+		});
+
+		expect(response.ok).toBe(true);
+		expect(mockFetch).toHaveBeenCalledWith(
+			`${TELEGRAM_CONFIG.apiBaseUrl}/bot123:abc/answerCallbackQuery`,
+			expect.objectContaining({
+				method: "POST",
+				body: JSON.stringify({ callback_query_id: "42" }),
+			}),
+		);
+	});
+
+	it("should throw on network errors", async () => {
+		mockFetch.mockRejectedValue(new Error("ECONNRESET"));
+
+		await expect(callTelegramApi("123:abc", "sendMessage", {})).rejects.toThrow("ECONNRESET");
+	});
+});
+
 describe("telegramProvider", () => {
 	it("should implement send method", () => {
 		expect(typeof telegramProvider.send).toBe("function");
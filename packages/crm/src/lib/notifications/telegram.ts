@@ -7,18 +7,35 @@
  * Features:
  * - HTML formatted messages with bold, italic, links
  * - Configurable bot token and chat ID
+ * - Inline action buttons on lead notifications when the chat is linked to
+ *   the bot via a webhook secret (see lib/telegram-bot.ts)
  * - Timeout handling (10 second default)
  * - Graceful error handling
  */
 
+import {
+	createLeadTemplateContext,
+	renderNotificationTemplate,
+	resolveTemplates,
+} from "./templates.js";
 import type {
 	NotificationConfig,
 	NotificationDeliveryResult,
 	NotificationPayload,
 	NotificationProvider,
+	NotificationTemplates,
 	TelegramConfig,
 } from "./types.js";
-import { getLeadUrl, isTelegramConfig } from "./types.js";
+import {
+	formatDigestPeriod,
+	formatNotificationDate,
+	getContactUrl,
+	getCrmBaseUrl,
+	getDigestTitle,
+	getLeadUrl,
+	getWebhookUrl,
+	isTelegramConfig,
+} from "./types.js";
 
 // ============================================================================
 // CONSTANTS
@@ -48,10 +65,46 @@ export function escapeHtml(text: string): string {
 	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
 }
 
+/**
+ * Default template for lead.created messages.
+ */
+export const TELEGRAM_LEAD_CREATED_TEMPLATES = {
+	text: [
+		"<b>🆕 New Lead: {{lead.name}}</b>",
+		"",
+		"<b>Email:</b> {{lead.email}}",
+		"{{#lead.company}}",
+		"<b>Company:</b> {{lead.company}}",
+		"{{/lead.company}}",
+		"{{#lead.phone}}",
+		"<b>Phone:</b> {{lead.phone}}",
+		"{{/lead.phone}}",
+		"{{#lead.budget}}",
+		"<b>Budget:</b> {{lead.budget}}",
+		"{{/lead.budget}}",
+		"{{#lead.projectType}}",
+		"<b>Project:</b> {{lead.projectType}}",
+		"{{/lead.projectType}}",
+		"{{#lead.source}}",
+		"<b>Source:</b> {{lead.source}}",
+		"{{/lead.source}}",
+		"",
+		"<i>{{message}}</i>",
+		"",
+		'<a href="{{leadUrl}}">View in CRM →</a>',
+	].join("\n"),
+};
+
+/**
+ * Length lead messages are shortened to.
+ */
+const LEAD_MESSAGE_LENGTH = 500;
+
 /**
  * Format a lead.created notification as Telegram HTML message.
  *
  * @param payload - The notification payload
+ * @param templates - The channel's template overrides (defaults when omitted)
  * @returns HTML formatted message string
  *
  * @example
@@ -66,78 +119,179 @@ export function escapeHtml(text: string): string {
  */
 export function formatLeadCreatedMessage(
 	payload: Extract<NotificationPayload, { event: "lead.created" }>,
+	templates?: NotificationTemplates | null,
 ): string {
-	const { lead } = payload;
+	const template = resolveTemplates(templates, "lead.created", TELEGRAM_LEAD_CREATED_TEMPLATES);
+	const context = createLeadTemplateContext(payload.lead, LEAD_MESSAGE_LENGTH);
+
+	return renderNotificationTemplate(template.text, context, escapeHtml);
+}
+
+/**
+ * Format a lead.status_changed notification as Telegram HTML message.
+ *
+ * @param payload - The notification payload
+ * @returns HTML formatted message string
+ */
+export function formatLeadStatusChangedMessage(
+	payload: Extract<NotificationPayload, { event: "lead.status_changed" }>,
+): string {
+	const { lead, previousStatus, newStatus } = payload;
 	const lines: string[] = [];
 
 	// Title
-	lines.push(`<b>🆕 New Lead: ${escapeHtml(lead.name)}</b>`);
+	lines.push(`<b>📊 Status Changed: ${escapeHtml(lead.name)}</b>`);
 	lines.push("");
 
-	// Contact info
+	// Status change info
 	lines.push(`<b>Email:</b> ${escapeHtml(lead.email)}`);
 
 	if (lead.company) {
 		lines.push(`<b>Company:</b> ${escapeHtml(lead.company)}`);
 	}
 
-	if (lead.phone) {
-		lines.push(`<b>Phone:</b> ${escapeHtml(lead.phone)}`);
+	lines.push("");
+	lines.push(`<b>Status:</b> ${escapeHtml(previousStatus)} → ${escapeHtml(newStatus)}`);
+
+	// CRM link
+	lines.push("");
+	lines.push(`<a href="${getLeadUrl(lead.id)}">View in CRM →</a>`);
+
+	return lines.join("\n");
+}
+
+/**
+ * Format a lead.activity_added notification as Telegram HTML message.
+ *
+ * @param payload - The notification payload
+ * @returns HTML formatted message string
+ */
+export function formatLeadActivityAddedMessage(
+	payload: Extract<NotificationPayload, { event: "lead.activity_added" }>,
+): string {
+	const { lead, activity } = payload;
+	const lines: string[] = [];
+
+	// Title
+	lines.push(`<b>📝 Activity Added: ${escapeHtml(lead.name)}</b>`);
+	lines.push("");
+
+	lines.push(`<b>Type:</b> ${escapeHtml(activity.type)}`);
+	lines.push(`<b>Email:</b> ${escapeHtml(lead.email)}`);
+
+	if (lead.company) {
+		lines.push(`<b>Company:</b> ${escapeHtml(lead.company)}`);
 	}
 
-	if (lead.budget) {
-		lines.push(`<b>Budget:</b> ${escapeHtml(lead.budget)}`);
+	// Description (truncate if too long)
+	lines.push("");
+	const maxDescriptionLength = 500;
+	const truncatedDescription =
+		activity.description.length > maxDescriptionLength
+			? `${activity.description.substring(0, maxDescriptionLength)}...`
+			: activity.description;
+	lines.push(`<i>${escapeHtml(truncatedDescription)}</i>`);
+
+	// CRM link
+	lines.push("");
+	lines.push(`<a href="${getLeadUrl(lead.id)}">View in CRM →</a>`);
+
+	return lines.join("\n");
+}
+
+/**
+ * Format a contact.follow_up_due notification as Telegram HTML message.
+ *
+ * @param payload - The notification payload
+ * @returns HTML formatted message string
+ */
+export function formatContactFollowUpDueMessage(
+	payload: Extract<NotificationPayload, { event: "contact.follow_up_due" }>,
+): string {
+	const { contact } = payload;
+	const lines: string[] = [];
+
+	// Title
+	lines.push(`<b>⏰ Follow-up Due: ${escapeHtml(contact.name)}</b>`);
+	lines.push("");
+
+	if (contact.nextAction) {
+		lines.push(`<b>Next action:</b> ${escapeHtml(contact.nextAction)}`);
 	}
 
-	if (lead.projectType) {
-		lines.push(`<b>Project:</b> ${escapeHtml(lead.projectType)}`);
+	lines.push(`<b>Due:</b> ${formatNotificationDate(contact.nextActionDue)}`);
+
+	if (contact.email) {
+		lines.push(`<b>Email:</b> ${escapeHtml(contact.email)}`);
 	}
 
-	if (lead.source) {
-		lines.push(`<b>Source:</b> ${escapeHtml(lead.source)}`);
+	if (contact.companyName) {
+		lines.push(`<b>Company:</b> ${escapeHtml(contact.companyName)}`);
 	}
 
-	// Message (truncate if too long)
+	// CRM link
+	lines.push("");
+	lines.push(`<a href="${getContactUrl(contact.id)}">View in CRM →</a>`);
+
+	return lines.join("\n");
+}
+
+/**
+ * Format a webhook.auto_disabled notification as Telegram HTML message.
+ *
+ * @param payload - The notification payload
+ * @returns HTML formatted message string
+ */
+export function formatWebhookAutoDisabledMessage(
+	payload: Extract<NotificationPayload, { event: "webhook.auto_disabled" }>,
+): string {
+	const { webhook } = payload;
+	const lines: string[] = [];
+
+	// Title
+	lines.push(`<b>⚠️ Webhook Auto-Disabled: ${escapeHtml(webhook.name)}</b>`);
 	lines.push("");
-	const maxMessageLength = 500;
-	const truncatedMessage =
-		lead.message.length > maxMessageLength
-			? `${lead.message.substring(0, maxMessageLength)}...`
-			: lead.message;
-	lines.push(`<i>${escapeHtml(truncatedMessage)}</i>`);
+
+	lines.push(`Disabled after ${webhook.failureCount} consecutive delivery failures.`);
+	lines.push("");
+	lines.push(`<b>URL:</b> ${escapeHtml(webhook.url)}`);
+	lines.push(`<b>Events:</b> ${escapeHtml(webhook.events.join(", "))}`);
 
 	// CRM link
 	lines.push("");
-	lines.push(`<a href="${getLeadUrl(lead.id)}">View in CRM →</a>`);
+	lines.push(`<a href="${getWebhookUrl(webhook.id)}">View deliveries →</a>`);
 
 	return lines.join("\n");
 }
 
 /**
- * Format a lead.status_changed notification as Telegram HTML message.
+ * Format a booking.created notification as Telegram HTML message.
  *
  * @param payload - The notification payload
  * @returns HTML formatted message string
  */
-export function formatLeadStatusChangedMessage(
-	payload: Extract<NotificationPayload, { event: "lead.status_changed" }>,
+export function formatBookingCreatedMessage(
+	payload: Extract<NotificationPayload, { event: "booking.created" }>,
 ): string {
-	const { lead, previousStatus, newStatus } = payload;
+	const { booking, lead, isNewLead } = payload;
 	const lines: string[] = [];
 
 	// Title
-	lines.push(`<b>📊 Status Changed: ${escapeHtml(lead.name)}</b>`);
+	lines.push(`<b>📅 New Booking: ${escapeHtml(booking.attendeeName)}</b>`);
 	lines.push("");
 
-	// Status change info
-	lines.push(`<b>Email:</b> ${escapeHtml(lead.email)}`);
+	lines.push(`<b>Meeting:</b> ${escapeHtml(booking.title)}`);
+	lines.push(
+		`<b>When:</b> ${booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time"}`,
+	);
+	lines.push(`<b>Email:</b> ${escapeHtml(booking.attendeeEmail)}`);
 
 	if (lead.company) {
 		lines.push(`<b>Company:</b> ${escapeHtml(lead.company)}`);
 	}
 
 	lines.push("");
-	lines.push(`<b>Status:</b> ${escapeHtml(previousStatus)} → ${escapeHtml(newStatus)}`);
+	lines.push(isNewLead ? "<i>New lead created from this booking</i>" : "<i>Existing lead</i>");
 
 	// CRM link
 	lines.push("");
@@ -146,20 +300,205 @@ export function formatLeadStatusChangedMessage(
 	return lines.join("\n");
 }
 
+/**
+ * Format a booking.rescheduled notification as Telegram HTML message.
+ *
+ * @param payload - The notification payload
+ * @returns HTML formatted message string
+ */
+export function formatBookingRescheduledMessage(
+	payload: Extract<NotificationPayload, { event: "booking.rescheduled" }>,
+): string {
+	const { booking, lead, previousStartTime } = payload;
+	const lines: string[] = [];
+
+	// Title
+	lines.push(`<b>🔁 Booking Rescheduled: ${escapeHtml(booking.attendeeName)}</b>`);
+	lines.push("");
+
+	lines.push(`<b>Meeting:</b> ${escapeHtml(booking.title)}`);
+	lines.push(
+		`<b>Was:</b> ${previousStartTime ? formatNotificationDate(previousStartTime) : "Unknown time"}`,
+	);
+	lines.push(
+		`<b>Now:</b> ${booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time"}`,
+	);
+	lines.push(`<b>Email:</b> ${escapeHtml(booking.attendeeEmail)}`);
+
+	// CRM link
+	lines.push("");
+	lines.push(`<a href="${getLeadUrl(lead.id)}">View in CRM →</a>`);
+
+	return lines.join("\n");
+}
+
+/**
+ * Format a booking.cancelled notification as Telegram HTML message.
+ *
+ * @param payload - The notification payload
+ * @returns HTML formatted message string
+ */
+export function formatBookingCancelledMessage(
+	payload: Extract<NotificationPayload, { event: "booking.cancelled" }>,
+): string {
+	const { booking, lead, reason } = payload;
+	const lines: string[] = [];
+
+	// Title
+	lines.push(`<b>❌ Booking Cancelled: ${escapeHtml(booking.attendeeName)}</b>`);
+	lines.push("");
+
+	lines.push(`<b>Meeting:</b> ${escapeHtml(booking.title)}`);
+	lines.push(
+		`<b>Was:</b> ${booking.startTime ? formatNotificationDate(booking.startTime) : "Unknown time"}`,
+	);
+	lines.push(`<b>Email:</b> ${escapeHtml(booking.attendeeEmail)}`);
+
+	if (reason) {
+		lines.push("");
+		lines.push(`<b>Reason:</b> ${escapeHtml(reason)}`);
+	}
+
+	// CRM link
+	lines.push("");
+	lines.push(`<a href="${getLeadUrl(lead.id)}">View in CRM →</a>`);
+
+	return lines.join("\n");
+}
+
+/**
+ * Format a digest notification as Telegram HTML message.
+ *
+ * @param payload - The notification payload
+ * @returns HTML formatted message string
+ */
+export function formatDigestMessage(
+	payload: Extract<NotificationPayload, { event: "digest" }>,
+): string {
+	const { digest } = payload;
+	const lines: string[] = [];
+
+	// Title
+	lines.push(`<b>${getDigestTitle(digest)}</b>`);
+	lines.push(`<i>${formatDigestPeriod(digest)}</i>`);
+
+	for (const section of digest.sections) {
+		lines.push("");
+		lines.push(`<b>${escapeHtml(section.title)} (${section.total})</b>`);
+
+		if (section.items.length === 0) {
+			lines.push("None");
+		}
+		for (const item of section.items) {
+			const detail = item.detail ? ` — ${escapeHtml(item.detail)}` : "";
+			lines.push(`• <a href="${item.url}">${escapeHtml(item.label)}</a>${detail}`);
+		}
+
+		const more = section.total - section.items.length;
+		if (more > 0) {
+			lines.push(`<i>…and ${more} more</i>`);
+		}
+	}
+
+	// CRM link
+	lines.push("");
+	lines.push(`<a href="${getCrmBaseUrl()}">Open CRM →</a>`);
+
+	return lines.join("\n");
+}
+
 /**
  * Format a notification payload as Telegram HTML message.
  *
  * @param payload - The notification payload
+ * @param templates - The channel's template overrides
  * @returns HTML formatted message string
  */
-export function formatTelegramMessage(payload: NotificationPayload): string {
-	if (payload.event === "lead.created") {
-		return formatLeadCreatedMessage(payload);
-	} else {
-		return formatLeadStatusChangedMessage(payload);
+export function formatTelegramMessage(
+	payload: NotificationPayload,
+	templates?: NotificationTemplates | null,
+): string {
+	switch (payload.event) {
+		case "lead.created":
+			return formatLeadCreatedMessage(payload, templates);
+		case "lead.status_changed":
+			return formatLeadStatusChangedMessage(payload);
+		case "lead.activity_added":
+			return formatLeadActivityAddedMessage(payload);
+		case "contact.follow_up_due":
+			return formatContactFollowUpDueMessage(payload);
+		case "webhook.auto_disabled":
+			return formatWebhookAutoDisabledMessage(payload);
+		case "booking.created":
+			return formatBookingCreatedMessage(payload);
+		case "booking.rescheduled":
+			return formatBookingRescheduledMessage(payload);
+		case "booking.cancelled":
+			return formatBookingCancelledMessage(payload);
+		case "digest":
+			return formatDigestMessage(payload);
 	}
 }
 
+// ============================================================================
+// INLINE KEYBOARDS
+// ============================================================================
+
+/**
+ * Actions offered as inline buttons on lead notifications.
+ * Status actions move the lead to that status; "note" asks for a note.
+ */
+export const TELEGRAM_LEAD_ACTIONS = [
+	{ action: "contacted", label: "✅ Contacted" },
+	{ action: "qualified", label: "⭐ Qualified" },
+	{ action: "lost", label: "❌ Lost" },
+	{ action: "note", label: "📝 Add note" },
+] as const;
+
+export type TelegramLeadAction = (typeof TELEGRAM_LEAD_ACTIONS)[number]["action"];
+
+/**
+ * Telegram inline keyboard button.
+ */
+export interface TelegramInlineKeyboardButton {
+	text: string;
+	callback_data: string;
+}
+
+/**
+ * Build the inline keyboard of lead actions.
+ * Callback data is "lead:<action>:<leadId>", well under Telegram's 64 byte limit.
+ *
+ * @param leadId - The lead the buttons act on
+ * @returns Keyboard rows for reply_markup.inline_keyboard
+ */
+export function buildLeadKeyboard(leadId: string): TelegramInlineKeyboardButton[][] {
+	const buttons = TELEGRAM_LEAD_ACTIONS.map(({ action, label }) => ({
+		text: label,
+		callback_data: `lead:${action}:${leadId}`,
+	}));
+
+	return [buttons.slice(0, 2), buttons.slice(2)];
+}
+
+/**
+ * Parse the callback data of a lead action button.
+ *
+ * @param data - callback_data from a callback query
+ * @returns The action and lead ID, or null if it isn't a lead action
+ */
+export function parseLeadCallbackData(
+	data: string,
+): { action: TelegramLeadAction; leadId: string } | null {
+	const [prefix, action, leadId, ...rest] = data.split(":");
+	if (prefix !== "lead" || !leadId || rest.length > 0) {
+		return null;
+	}
+
+	const known = TELEGRAM_LEAD_ACTIONS.find((entry) => entry.action === action);
+	return known ? { action: known.action, leadId } : null;
+}
+
 // ============================================================================
 // VALIDATION
 // ============================================================================
@@ -214,6 +553,16 @@ export function validateTelegramConfig(config: unknown): {
 		};
 	}
 
+	// Secret token format accepted by Telegram's setWebhook
+	if (cfg.webhook_secret !== undefined) {
+		if (typeof cfg.webhook_secret !== "string" || !/^[\w-]{1,256}$/.test(cfg.webhook_secret)) {
+			return {
+				valid: false,
+				error: "webhook_secret must be 1-256 letters, digits, underscores or hyphens",
+			};
+		}
+	}
+
 	return { valid: true };
 }
 
@@ -222,9 +571,9 @@ export function validateTelegramConfig(config: unknown): {
 // ============================================================================
 
 /**
- * Telegram sendMessage API response.
+ * Telegram Bot API response.
  */
-interface TelegramApiResponse {
+export interface TelegramApiResponse {
 	ok: boolean;
 	description?: string;
 	error_code?: number;
@@ -233,11 +582,53 @@ interface TelegramApiResponse {
 	};
 }
 
+/**
+ * Call a Telegram Bot API method.
+ *
+ * @param botToken - The bot's token
+ * @param method - API method, e.g. "sendMessage"
+ * @param body - JSON parameters for the method
+ * @returns The parsed API response
+ * @throws If the request fails, times out or the response isn't JSON
+ *
+ * @example
+ * ```ts
+ * await callTelegramApi(config.bot_token, "answerCallbackQuery", { callback_query_id: id });
+ * ```
+ */
+export async function callTelegramApi(
+	botToken: string,
+	method: string,
+	body: Record<string, unknown>,
+): Promise<TelegramApiResponse> {
+	// Create AbortController for timeout
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => {
+		controller.abort();
+	}, TELEGRAM_CONFIG.timeoutMs);
+
+	try {
+		const response = await fetch(`${TELEGRAM_CONFIG.apiBaseUrl}/bot${botToken}/${method}`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify(body),
+			signal: controller.signal,
+		});
+
+		return (await response.json()) as TelegramApiResponse;
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
 /**
  * Send a notification to Telegram via Bot API.
  *
  * @param config - Telegram configuration with bot token and chat ID
  * @param payload - The notification payload
+ * @param templates - The channel's template overrides
  * @returns Delivery result
  *
  * @example
@@ -255,6 +646,7 @@ interface TelegramApiResponse {
 export async function sendTelegramNotification(
 	config: TelegramConfig,
 	payload: NotificationPayload,
+	templates?: NotificationTemplates | null,
 ): Promise<NotificationDeliveryResult> {
 	const startTime = Date.now();
 
@@ -269,17 +661,24 @@ export async function sendTelegramNotification(
 	}
 
 	// Format the message
-	const message = formatTelegramMessage(payload);
+	const message = formatTelegramMessage(payload, templates);
 
 	// Build API URL
 	const apiUrl = `${TELEGRAM_CONFIG.apiBaseUrl}/bot${config.bot_token}/sendMessage`;
 
+	// Lead notifications get action buttons when the chat is linked to the bot
+	const replyMarkup =
+		config.webhook_secret && "lead" in payload
+			? { inline_keyboard: buildLeadKeyboard(payload.lead.id) }
+			: undefined;
+
 	// Build request body
 	const body = JSON.stringify({
 		chat_id: config.chat_id,
 		text: message,
 		parse_mode: "HTML",
 		disable_web_page_preview: true,
+		reply_markup: replyMarkup,
 	});
 
 	// Create AbortController for timeout
@@ -376,6 +775,7 @@ export const telegramProvider: NotificationProvider = {
 	async send(
 		config: NotificationConfig,
 		payload: NotificationPayload,
+		templates?: NotificationTemplates | null,
 	): Promise<NotificationDeliveryResult> {
 		if (!isTelegramConfig(config)) {
 			return {
@@ -384,7 +784,7 @@ export const telegramProvider: NotificationProvider = {
 				durationMs: 0,
 			};
 		}
-		return sendTelegramNotification(config, payload);
+		return sendTelegramNotification(config, payload, templates);
 	},
 
 	validateConfig(config: unknown): { valid: boolean; error?: string } {
@@ -0,0 +1,163 @@
+/**
+ * Tests for notification message templates.
+ *
+ * Verifies parsing, validation errors, rendering and escaping of the
+ * logic-less template language channels use to override their messages.
+ */
+
+import { describe, expect, it } from "vitest";
+import { escapeHtml } from "./telegram";
+import {
+	createLeadTemplateContext,
+	LEAD_TEMPLATE_FIELDS,
+	MAX_NOTIFICATION_TEMPLATE_LENGTH,
+	NotificationTemplateError,
+	parseNotificationTemplate,
+	renderNotificationTemplate,
+	resolveTemplates,
+	validateNotificationTemplate,
+} from "./templates";
+import type { NotificationLeadData } from "./types";
+
+const lead: NotificationLeadData = {
+	id: "lead-1",
+	name: "Jane <Doe>",
+	email: "jane@example.com",
+	company: "Acme Inc",
+	phone: null,
+	budget: "$15,000 - $50,000",
+	projectType: "New Product / MVP",
+	message: "We need an app",
+	source: "Contact Form",
+	status: "new",
+	tags: ["vip", "enterprise"],
+	createdAt: new Date("2025-01-20T10:00:00Z"),
+};
+
+const context = createLeadTemplateContext(lead);
+
+describe("parseNotificationTemplate", () => {
+	it("should parse values and nested sections", () => {
+		expect(
+			parseNotificationTemplate(
+				"Hi {{ lead.name }}{{#lead.company}} ({{^lead.phone}}no phone{{/lead.phone}}){{/lead.company}}",
+			),
+		).toEqual([
+			{ type: "text", value: "Hi " },
+			{ type: "value", path: "lead.name" },
+			{
+				type: "section",
+				path: "lead.company",
+				inverted: false,
+				children: [
+					{ type: "text", value: " (" },
+					{
+						type: "section",
+						path: "lead.phone",
+						inverted: true,
+						children: [{ type: "text", value: "no phone" }],
+					},
+					{ type: "text", value: ")" },
+				],
+			},
+		]);
+	});
+
+	it("should reject unknown fields when a field list is given", () => {
+		expect(() => parseNotificationTemplate("{{lead.notes}}", LEAD_TEMPLATE_FIELDS)).toThrow(
+			'Unknown field "lead.notes"',
+		);
+	});
+
+	it.each([
+		["{{#lead.name}}x", 'Missing "{{/lead.name}}"'],
+		["x{{/lead.name}}", 'Unexpected "{{/lead.name}}"'],
+		["{{#lead.name}}{{/lead.email}}", 'Unexpected "{{/lead.email}}"'],
+		["{{lead..name}}", 'Invalid tag "{{lead..name}}"'],
+		["{{{lead.name}}}", "{{{...}}} is not supported"],
+		["{{lead.name", "Invalid tag near"],
+	])("should reject %j", (source, message) => {
+		expect(() => parseNotificationTemplate(source)).toThrow(message);
+	});
+
+	it("should reject templates over the length limit", () => {
+		expect(() =>
+			parseNotificationTemplate("a".repeat(MAX_NOTIFICATION_TEMPLATE_LENGTH + 1)),
+		).toThrow(NotificationTemplateError);
+	});
+});
+
+describe("validateNotificationTemplate", () => {
+	it("should return null for a valid template", () => {
+		expect(
+			validateNotificationTemplate("{{lead.name}} · {{leadUrl}}", LEAD_TEMPLATE_FIELDS),
+		).toBeNull();
+	});
+
+	it("should return the error message for an invalid template", () => {
+		expect(validateNotificationTemplate("{{#lead.tags}}", LEAD_TEMPLATE_FIELDS)).toBe(
+			'Missing "{{/lead.tags}}"',
+		);
+	});
+});
+
+describe("renderNotificationTemplate", () => {
+	it("should insert values and render sections by presence", () => {
+		expect(
+			renderNotificationTemplate(
+				"{{lead.company}}{{#lead.phone}} · {{lead.phone}}{{/lead.phone}}{{^lead.phone}} · no phone{{/lead.phone}}",
+				context,
+			),
+		).toBe("Acme Inc · no phone");
+	});
+
+	it("should join lists and treat empty lists as missing", () => {
+		const untagged = createLeadTemplateContext({ ...lead, tags: [] });
+		const template =
+			"{{#lead.tags}}Tags: {{lead.tags}}{{/lead.tags}}{{^lead.tags}}Untagged{{/lead.tags}}";
+
+		expect(renderNotificationTemplate(template, context)).toBe("Tags: vip, enterprise");
+		expect(renderNotificationTemplate(template, untagged)).toBe("Untagged");
+	});
+
+	it("should render missing paths as empty", () => {
+		expect(renderNotificationTemplate("[{{lead.notes}}]", context)).toBe("[]");
+	});
+
+	it("should escape values but not the template", () => {
+		expect(renderNotificationTemplate("<b>{{lead.name}}</b>", context, escapeHtml)).toBe(
+			"<b>Jane &lt;Doe&gt;</b>",
+		);
+	});
+
+	it("should not leave blank lines for section tags on their own line", () => {
+		const template = ["Lead", "  {{#lead.phone}}", "Phone", "  {{/lead.phone}}", "Done"].join("\n");
+
+		expect(renderNotificationTemplate(template, context)).toBe("Lead\nDone");
+	});
+});
+
+describe("createLeadTemplateContext", () => {
+	it("should add links, a formatted date and a shortened message", () => {
+		const shortened = createLeadTemplateContext(lead, 5);
+
+		expect(shortened.message).toBe("We ne...");
+		expect(shortened.lead.message).toBe("We need an app");
+		expect(shortened.lead.createdAt).toBe("Jan 20, 2025, 10:00 AM UTC");
+		expect(shortened.leadUrl).toContain("/leads/lead-1");
+	});
+});
+
+describe("resolveTemplates", () => {
+	it("should override only non-empty parts for the event", () => {
+		const defaults = { title: "Default title", body: "Default body" };
+
+		expect(
+			resolveTemplates({ "lead.created": { title: "Custom", body: "" } }, "lead.created", defaults),
+		).toEqual({ title: "Custom", body: "Default body" });
+		expect(resolveTemplates({ other: { title: "Custom" } }, "lead.created", defaults)).toEqual(
+			defaults,
+		);
+		expect(resolveTemplates(null, "lead.created", defaults)).toEqual(defaults);
+	});
+});
@@ -0,0 +1,350 @@
+/**
+ * Message Templates.
+ *
+ * Channels can override the messages providers send with templates, per
+ * specs/09-notifications.md. The language is a logic-less subset of Mustache
+ * over the notification payload:
+ *
+ *   {{lead.name}}                          the field's value
+ *   {{#lead.company}}...{{/lead.company}}  rendered when the field has a value
+ *   {{^lead.company}}...{{/lead.company}}  rendered when it doesn't
+ *
+ * As in Mustache, a section tag alone on its line doesn't leave a blank line.
+ * Values are escaped for the output they are rendered into (HTML for
+ * Telegram and email bodies) and lists such as tags render as comma-separated
+ * text. There are no loops, helpers or unescaped values, and templates are
+ * parsed into a tree before rendering, so payload content is only ever
+ * inserted as text.
+ */
+
+import type { NotificationLeadData, NotificationTemplates } from "./types.js";
+import { formatNotificationDate, getCrmBaseUrl, getLeadUrl } from "./types.js";
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+/**
+ * Error thrown when a template is invalid.
+ */
+export class NotificationTemplateError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "NotificationTemplateError";
+	}
+}
+
+/**
+ * Maximum template length.
+ */
+export const MAX_NOTIFICATION_TEMPLATE_LENGTH = 10_000;
+
+/**
+ * Fields lead templates may reference.
+ */
+export const LEAD_TEMPLATE_FIELDS = [
+	"lead.id",
+	"lead.name",
+	"lead.email",
+	"lead.company",
+	"lead.phone",
+	"lead.budget",
+	"lead.projectType",
+	"lead.message",
+	"lead.source",
+	"lead.status",
+	"lead.tags",
+	"lead.createdAt",
+	"message",
+	"leadUrl",
+	"crmUrl",
+] as const;
+
+/**
+ * Values lead templates render against.
+ */
+export interface LeadTemplateContext {
+	lead: Omit<NotificationLeadData, "createdAt"> & { createdAt: string };
+	/** The lead's message, shortened to the provider's limit */
+	message: string;
+	leadUrl: string;
+	crmUrl: string;
+}
+
+/**
+ * Parsed template.
+ */
+type TemplateNode =
+	| { type: "text"; value: string }
+	| { type: "value"; path: string }
+	| { type: "section"; path: string; inverted: boolean; children: TemplateNode[] };
+
+/**
+ * Matches {{path}}, {{#path}}, {{^path}} and {{/path}} tags.
+ */
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Valid tag path, e.g. "lead.name".
+ */
+const PATH_PATTERN = /^[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*$/;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Add a text node, rejecting stray tag delimiters.
+ */
+function pushText(nodes: TemplateNode[], text: string): void {
+	if (!text) return;
+	const stray = text.indexOf("{{");
+	if (stray !== -1) {
+		throw new NotificationTemplateError(`Invalid tag near "${text.slice(stray, stray + 20)}"`);
+	}
+	nodes.push({ type: "text", value: text });
+}
+
+/**
+ * Parse a template and check its tags.
+ *
+ * @param source - The template source
+ * @param fields - Paths the template may reference (any when omitted)
+ * @returns The parsed template
+ * @throws NotificationTemplateError if the template is invalid
+ *
+ * @example
+ * ```ts
+ * const template = parseNotificationTemplate("New lead: {{lead.name}}", LEAD_TEMPLATE_FIELDS);
+ * ```
+ */
+export function parseNotificationTemplate(
+	source: string,
+	fields?: readonly string[],
+): TemplateNode[] {
+	if (source.length > MAX_NOTIFICATION_TEMPLATE_LENGTH) {
+		throw new NotificationTemplateError(
+			`Template must be at most ${MAX_NOTIFICATION_TEMPLATE_LENGTH} characters`,
+		);
+	}
+
+	const root: TemplateNode[] = [];
+	const stack: Array<{ path: string; children: TemplateNode[] }> = [];
+	let current = root;
+	let position = 0;
+
+	for (const match of source.matchAll(TAG_PATTERN)) {
+		const [tag, sigil, path] = match;
+		let textEnd = match.index;
+		let tagEnd = match.index + tag.length;
+
+		// Section tags on a line of their own don't leave a blank line behind
+		if (sigil) {
+			const lineStart = source.lastIndexOf("\n", match.index - 1) + 1;
+			const newline = source.indexOf("\n", tagEnd);
+			const lineEnd = newline === -1 ? source.length : newline;
+			if (
+				lineStart >= position &&
+				!source.slice(lineStart, match.index).trim() &&
+				!source.slice(tagEnd, lineEnd).trim()
+			) {
+				textEnd = lineStart;
+				tagEnd = newline === -1 ? lineEnd : newline + 1;
+			}
+		}
+
+		if (source[match.index - 1] === "{" || source[match.index + tag.length] === "}") {
+			throw new NotificationTemplateError(
+				`Invalid tag near "{${tag}}": values are always escaped, so {{{...}}} is not supported`,
+			);
+		}
+
+		pushText(current, source.slice(position, textEnd));
+		position = tagEnd;
+
+		if (!PATH_PATTERN.test(path)) {
+			throw new NotificationTemplateError(`Invalid tag "${tag}"`);
+		}
+		if (fields && sigil !== "/" && !fields.includes(path)) {
+			throw new NotificationTemplateError(`Unknown field "${path}"`);
+		}
+
+		if (sigil === "#" || sigil === "^") {
+			const section: TemplateNode = {
+				type: "section",
+				path,
+				inverted: sigil === "^",
+				children: [],
+			};
+			current.push(section);
+			stack.push({ path, children: current });
+			current = section.children;
+		} else if (sigil === "/") {
+			const open = stack.pop();
+			if (!open || open.path !== path) {
+				throw new NotificationTemplateError(`Unexpected "{{/${path}}}"`);
+			}
+			current = open.children;
+		} else {
+			current.push({ type: "value", path });
+		}
+	}
+
+	pushText(current, source.slice(position));
+
+	const unclosed = stack.pop();
+	if (unclosed) {
+		throw new NotificationTemplateError(`Missing "{{/${unclosed.path}}}"`);
+	}
+
+	return root;
+}
+
+/**
+ * Check a template without rendering it.
+ *
+ * @param source - The template source
+ * @param fields - Paths the template may reference (any when omitted)
+ * @returns Error message, or null if the template is valid
+ */
+export function validateNotificationTemplate(
+	source: string,
+	fields?: readonly string[],
+): string | null {
+	try {
+		parseNotificationTemplate(source, fields);
+		return null;
+	} catch (error) {
+		if (error instanceof NotificationTemplateError) {
+			return error.message;
+		}
+		throw error;
+	}
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Look up a dot-separated path in the context.
+ */
+function resolvePath(context: unknown, path: string): unknown {
+	let value: unknown = context;
+	for (const key of path.split(".")) {
+		if (value === null || typeof value !== "object" || !Object.hasOwn(value, key)) {
+			return undefined;
+		}
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value;
+}
+
+/**
+ * Whether a section for a value is rendered.
+ */
+function hasValue(value: unknown): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	return value !== undefined && value !== null && value !== "" && value !== false;
+}
+
+/**
+ * Convert a value to text.
+ */
+function toText(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	if (Array.isArray(value)) return value.join(", ");
+	return String(value);
+}
+
+function renderNodes(
+	nodes: TemplateNode[],
+	context: unknown,
+	escapeValue: (text: string) => string,
+): string {
+	let output = "";
+	for (const node of nodes) {
+		if (node.type === "text") {
+			output += node.value;
+		} else if (node.type === "value") {
+			output += escapeValue(toText(resolvePath(context, node.path)));
+		} else if (hasValue(resolvePath(context, node.path)) !== node.inverted) {
+			output += renderNodes(node.children, context, escapeValue);
+		}
+	}
+	return output;
+}
+
+/**
+ * Render a template.
+ *
+ * @param source - The template source
+ * @param context - The values tags resolve against
+ * @param escapeValue - Escapes values for the output (e.g. HTML); identity by default
+ * @returns The rendered text
+ * @throws NotificationTemplateError if the template is invalid
+ *
+ * @example
+ * ```ts
+ * renderNotificationTemplate("New lead: {{lead.name}}", createLeadTemplateContext(lead));
+ * // "New lead: John Doe"
+ * ```
+ */
+export function renderNotificationTemplate(
+	source: string,
+	context: unknown,
+	escapeValue: (text: string) => string = (text) => text,
+): string {
+	return renderNodes(parseNotificationTemplate(source), context, escapeValue);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Build the values lead templates render against.
+ *
+ * @param lead - The lead
+ * @param messageLength - Length `message` is shortened to (not shortened when omitted)
+ * @returns Template context
+ */
+export function createLeadTemplateContext(
+	lead: NotificationLeadData,
+	messageLength?: number,
+): LeadTemplateContext {
+	const message =
+		messageLength !== undefined && lead.message.length > messageLength
+			? `${lead.message.substring(0, messageLength)}...`
+			: lead.message;
+
+	return {
+		lead: { ...lead, tags: lead.tags ?? [], createdAt: formatNotificationDate(lead.createdAt) },
+		message,
+		leadUrl: getLeadUrl(lead.id),
+		crmUrl: getCrmBaseUrl(),
+	};
+}
+
+/**
+ * Get a channel's template for a message part, falling back to the default.
+ *
+ * @param templates - The channel's template overrides (null for none)
+ * @param event - The event being formatted
+ * @param defaults - The provider's default templates for the event
+ * @returns The template for each part
+ */
+export function resolveTemplates<T extends Record<string, string>>(
+	templates: NotificationTemplates | null | undefined,
+	event: string,
+	defaults: T,
+): T {
+	const overrides = templates?.[event] ?? {};
+	const resolved: Record<string, string> = { ...defaults };
+	for (const part of Object.keys(defaults)) {
+		if (overrides[part]) {
+			resolved[part] = overrides[part];
+		}
+	}
+	return resolved as T;
+}
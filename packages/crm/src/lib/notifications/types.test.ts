@@ -5,10 +5,17 @@
  */
 
 import { afterEach, describe, expect, it } from "vitest";
-import type { Lead } from "../../db";
+import type { Lead, LeadActivity } from "../../db";
 import {
+	activityToNotificationData,
+	formatDigestPeriod,
+	formatNotificationDate,
+	getContactUrl,
 	getCrmBaseUrl,
+	getDigestTitle,
 	getLeadUrl,
+	getNotificationUrl,
+	getWebhookUrl,
 	isDiscordConfig,
 	isEmailConfig,
 	isTelegramConfig,
@@ -60,8 +67,17 @@ describe("notificationEventEnum", () => {
 		expect(notificationEventEnum).toContain("lead.status_changed");
 	});
 
-	it("should have exactly 2 event types", () => {
-		expect(notificationEventEnum).toHaveLength(2);
+	it("should contain the contact, webhook and booking events", () => {
+		expect(notificationEventEnum).toContain("lead.activity_added");
+		expect(notificationEventEnum).toContain("contact.follow_up_due");
+		expect(notificationEventEnum).toContain("webhook.auto_disabled");
+		expect(notificationEventEnum).toContain("booking.created");
+		expect(notificationEventEnum).toContain("booking.rescheduled");
+		expect(notificationEventEnum).toContain("booking.cancelled");
+	});
+
+	it("should have exactly 8 event types", () => {
+		expect(notificationEventEnum).toHaveLength(8);
 	});
 });
 
@@ -98,10 +114,17 @@ describe("leadToNotificationData", () => {
 			message: "I need a web application built",
 			source: "Contact Form",
 			status: "new",
+			tags: [],
 			createdAt: new Date("2024-01-15T10:00:00Z"),
 		});
 	});
 
+	it("should include tags for routing rules", () => {
+		const lead = createMockLead({ tags: ["important"] });
+
+		expect(leadToNotificationData(lead).tags).toEqual(["important"]);
+	});
+
 	it("should handle null optional fields", () => {
 		const lead = createMockLead({
 			company: null,
@@ -119,16 +142,14 @@ describe("leadToNotificationData", () => {
 		expect(data.source).toBeNull();
 	});
 
-	it("should exclude internal fields like notes, tags, rawInput", () => {
+	it("should exclude internal fields like notes and rawInput", () => {
 		const lead = createMockLead({
 			notes: "Internal notes",
-			tags: ["important"],
 			rawInput: "Some raw input",
 		});
 		const data = leadToNotificationData(lead) as Record<string, unknown>;
 
 		expect(data).not.toHaveProperty("notes");
-		expect(data).not.toHaveProperty("tags");
 		expect(data).not.toHaveProperty("rawInput");
 		expect(data).not.toHaveProperty("aiParsed");
 		expect(data).not.toHaveProperty("updatedAt");
@@ -186,6 +207,115 @@ describe("getLeadUrl", () => {
 	});
 });
 
+describe("getNotificationUrl", () => {
+	const originalEnv = process.env.CRM_BASE_URL;
+
+	afterEach(() => {
+		if (originalEnv !== undefined) {
+			process.env.CRM_BASE_URL = originalEnv;
+		} else {
+			delete process.env.CRM_BASE_URL;
+		}
+	});
+
+	it("should link contact follow-ups to the contact", () => {
+		delete process.env.CRM_BASE_URL;
+		const url = getNotificationUrl({
+			event: "contact.follow_up_due",
+			contact: {
+				id: "contact-1",
+				name: "Jane",
+				email: null,
+				role: null,
+				companyName: null,
+				nextAction: null,
+				nextActionDue: new Date(),
+			},
+		});
+		expect(url).toBe(getContactUrl("contact-1"));
+		expect(url).toBe("https://api.octatech.xyz/contacts/contact-1");
+	});
+
+	it("should link disabled webhooks to their delivery history", () => {
+		delete process.env.CRM_BASE_URL;
+		const url = getNotificationUrl({
+			event: "webhook.auto_disabled",
+			webhook: {
+				id: "hook-1",
+				name: "Zapier",
+				url: "https://x.test",
+				events: [],
+				failureCount: 10,
+			},
+		});
+		expect(url).toBe(getWebhookUrl("hook-1"));
+		expect(url).toBe("https://api.octatech.xyz/webhooks/hook-1/deliveries");
+	});
+
+	it("should link lead events to the lead", () => {
+		const lead = leadToNotificationData(createMockLead());
+		expect(getNotificationUrl({ event: "lead.created", lead })).toBe(getLeadUrl(lead.id));
+	});
+
+	it("should link digests to the CRM home", () => {
+		delete process.env.CRM_BASE_URL;
+		const url = getNotificationUrl({
+			event: "digest",
+			digest: { period: "daily", since: new Date(), until: new Date(), sections: [] },
+		});
+		expect(url).toBe("https://api.octatech.xyz");
+	});
+});
+
+describe("digest helpers", () => {
+	const digest = {
+		period: "weekly" as const,
+		since: new Date("2025-01-13T09:00:00Z"),
+		until: new Date("2025-01-20T09:00:00Z"),
+		sections: [],
+	};
+
+	it("should title digests by period", () => {
+		expect(getDigestTitle(digest)).toBe("📬 Weekly Digest");
+		expect(getDigestTitle({ ...digest, period: "daily" })).toBe("📬 Daily Digest");
+	});
+
+	it("should format the covered period", () => {
+		expect(formatDigestPeriod(digest)).toBe(
+			"Jan 13, 2025, 9:00 AM UTC – Jan 20, 2025, 9:00 AM UTC",
+		);
+	});
+});
+
+describe("formatNotificationDate", () => {
+	it("should format dates in UTC", () => {
+		expect(formatNotificationDate(new Date("2025-01-20T10:00:00Z"))).toBe(
+			"Jan 20, 2025, 10:00 AM UTC",
+		);
+	});
+});
+
+describe("activityToNotificationData", () => {
+	it("should keep only the notification fields", () => {
+		const activity: LeadActivity = {
+			id: "activity-1",
+			leadId: "lead-1",
+			type: "call",
+			description: "Discussed scope",
+			oldStatus: null,
+			newStatus: null,
+			createdAt: new Date("2025-01-15T10:00:00Z"),
+		};
+
+		expect(activityToNotificationData(activity)).toEqual({
+			id: "activity-1",
+			type: "call",
+			description: "Discussed scope",
+			createdAt: new Date("2025-01-15T10:00:00Z"),
+		});
+	});
+});
+
 // ============================================================================
 // TYPE GUARD TESTS
 // ============================================================================
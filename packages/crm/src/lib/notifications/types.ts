@@ -5,7 +5,7 @@
  * and the dispatcher per specs/09-notifications.md.
  */
 
-import type { Lead } from "../../db/index.js";
+import type { Lead, LeadActivity } from "../../db/index.js";
 
 // ============================================================================
 // CHANNEL TYPES
@@ -14,7 +14,7 @@ import type { Lead } from "../../db/index.js";
 /**
  * Supported notification channel types.
  */
-export type NotificationChannelType = "discord" | "telegram" | "email";
+export type NotificationChannelType = "discord" | "telegram" | "email" | "slack" | "push";
 
 /**
  * Configuration for Discord notifications via webhook.
@@ -29,6 +29,11 @@ export interface DiscordConfig {
 export interface TelegramConfig {
 	bot_token: string;
 	chat_id: string;
+	/**
+	 * Secret Telegram sends with every webhook update. When set, lead
+	 * notifications get inline action buttons and the chat can use the bot.
+	 */
+	webhook_secret?: string;
 }
 
 /**
@@ -39,10 +44,37 @@ export interface EmailConfig {
 	from: string;
 }
 
+/**
+ * Configuration for Slack notifications via incoming webhook.
+ */
+export interface SlackConfig {
+	webhook_url: string;
+}
+
+/**
+ * Configuration for generic HTTP push notifications (ntfy, Gotify, Matrix hookshot).
+ */
+export interface PushConfig {
+	url: string;
+	/** "text" (ntfy-style headers, default) or "json" */
+	format?: "text" | "json";
+	/** Replaces the event title when set */
+	title?: string;
+	/** 1-5 or min, low, default, high, urgent */
+	priority?: string;
+	/** Comma-separated tags */
+	tags?: string;
+}
+
 /**
  * Union type for all channel configurations.
  */
-export type NotificationConfig = DiscordConfig | TelegramConfig | EmailConfig;
+export type NotificationConfig =
+	| DiscordConfig
+	| TelegramConfig
+	| EmailConfig
+	| SlackConfig
+	| PushConfig;
 
 // ============================================================================
 // EVENT TYPES
@@ -50,9 +82,17 @@ export type NotificationConfig = DiscordConfig | TelegramConfig | EmailConfig;
 
 /**
  * Supported notification event types.
- * Currently supports lead.created and lead.status_changed.
  */
-export const notificationEventEnum = ["lead.created", "lead.status_changed"] as const;
+export const notificationEventEnum = [
+	"lead.created",
+	"lead.status_changed",
+	"lead.activity_added",
+	"contact.follow_up_due",
+	"webhook.auto_disabled",
+	"booking.created",
+	"booking.rescheduled",
+	"booking.cancelled",
+] as const;
 
 export type NotificationEvent = (typeof notificationEventEnum)[number];
 
@@ -80,9 +120,26 @@ export interface NotificationLeadData {
 	message: string;
 	source: string | null;
 	status: string;
+	tags: string[];
 	createdAt: Date;
 }
 
+/**
+ * Lead fields that channel routing rules may reference.
+ */
+export const NOTIFICATION_FILTER_FIELDS = [
+	"name",
+	"email",
+	"company",
+	"phone",
+	"budget",
+	"projectType",
+	"message",
+	"source",
+	"status",
+	"tags",
+] as const satisfies ReadonlyArray<keyof NotificationLeadData>;
+
 /**
  * Payload for lead.created notifications.
  */
@@ -101,10 +158,164 @@ export interface LeadStatusChangedNotification {
 	newStatus: string;
 }
 
+/**
+ * Lead activity data used in notifications.
+ */
+export interface NotificationActivityData {
+	id: string;
+	type: string;
+	description: string;
+	createdAt: Date;
+}
+
+/**
+ * Payload for lead.activity_added notifications.
+ */
+export interface LeadActivityAddedNotification {
+	event: "lead.activity_added";
+	lead: NotificationLeadData;
+	activity: NotificationActivityData;
+}
+
+/**
+ * Contact data used in follow-up notifications.
+ */
+export interface NotificationContactData {
+	id: string;
+	name: string;
+	email: string | null;
+	role: string | null;
+	companyName: string | null;
+	nextAction: string | null;
+	nextActionDue: Date;
+}
+
+/**
+ * Payload for contact.follow_up_due notifications.
+ */
+export interface ContactFollowUpDueNotification {
+	event: "contact.follow_up_due";
+	contact: NotificationContactData;
+}
+
+/**
+ * Webhook data used in auto-disable notifications.
+ */
+export interface NotificationWebhookData {
+	id: string;
+	name: string;
+	url: string;
+	events: string[];
+	failureCount: number;
+}
+
+/**
+ * Payload for webhook.auto_disabled notifications.
+ */
+export interface WebhookAutoDisabledNotification {
+	event: "webhook.auto_disabled";
+	webhook: NotificationWebhookData;
+}
+
+/**
+ * Cal.com booking data used in notifications.
+ */
+export interface NotificationBookingData {
+	title: string;
+	startTime: Date | null;
+	endTime: Date | null;
+	attendeeName: string;
+	attendeeEmail: string;
+}
+
+/**
+ * Payload for booking.created notifications.
+ */
+export interface BookingCreatedNotification {
+	event: "booking.created";
+	booking: NotificationBookingData;
+	lead: NotificationLeadData;
+	/** Whether the booking created the lead (false when it matched an existing one) */
+	isNewLead: boolean;
+}
+
+/**
+ * Payload for booking.rescheduled notifications.
+ */
+export interface BookingRescheduledNotification {
+	event: "booking.rescheduled";
+	booking: NotificationBookingData;
+	lead: NotificationLeadData;
+	/** When the meeting was scheduled before the change */
+	previousStartTime: Date | null;
+}
+
+/**
+ * Payload for booking.cancelled notifications.
+ */
+export interface BookingCancelledNotification {
+	event: "booking.cancelled";
+	booking: NotificationBookingData;
+	lead: NotificationLeadData;
+	/** Reason given by whoever cancelled, if any */
+	reason: string | null;
+}
+
+/**
+ * A single line in a digest section.
+ */
+export interface NotificationDigestItem {
+	/** Lead or contact name */
+	label: string;
+	/** Short context, e.g. "new → contacted" */
+	detail: string | null;
+	/** Link to the record in the CRM */
+	url: string;
+}
+
+/**
+ * A digest section, e.g. new leads or overdue follow-ups.
+ * Items are capped, so total can exceed items.length.
+ */
+export interface NotificationDigestSection {
+	title: string;
+	total: number;
+	items: NotificationDigestItem[];
+}
+
+/**
+ * Scheduled summary sent to digest-mode channels.
+ */
+export interface NotificationDigestData {
+	period: "daily" | "weekly";
+	since: Date;
+	until: Date;
+	sections: NotificationDigestSection[];
+}
+
+/**
+ * Payload for digest notifications.
+ * Digests are not subscribable events: they are sent on a channel's schedule
+ * and summarize the events it subscribes to.
+ */
+export interface DigestNotification {
+	event: "digest";
+	digest: NotificationDigestData;
+}
+
 /**
  * Union type for all notification payloads.
  */
-export type NotificationPayload = LeadCreatedNotification | LeadStatusChangedNotification;
+export type NotificationPayload =
+	| LeadCreatedNotification
+	| LeadStatusChangedNotification
+	| LeadActivityAddedNotification
+	| ContactFollowUpDueNotification
+	| WebhookAutoDisabledNotification
+	| BookingCreatedNotification
+	| BookingRescheduledNotification
+	| BookingCancelledNotification
+	| DigestNotification;
 
 // ============================================================================
 // DELIVERY TYPES
@@ -124,6 +335,37 @@ export interface NotificationDeliveryResult {
 	durationMs: number;
 }
 
+/**
+ * How a channel receives notifications: as they happen, or bundled into a
+ * daily or weekly digest.
+ */
+export type NotificationDeliveryMode = "realtime" | "daily" | "weekly";
+
+/**
+ * Delivery schedule for a channel. Hours and days are in the channel's
+ * timezone.
+ */
+export interface NotificationSchedule {
+	deliveryMode: NotificationDeliveryMode;
+	/** Hour (0-23) digests are sent at */
+	digestHour: number;
+	/** Day of the week (0 = Sunday) weekly digests are sent on */
+	digestDay: number;
+	/** IANA timezone, e.g. "Europe/Berlin" */
+	timezone: string;
+	/** Hour (0-23) real-time messages start being held; null disables quiet hours */
+	quietHoursStart: number | null;
+	/** Hour (0-23) held messages are released */
+	quietHoursEnd: number | null;
+}
+
+/**
+ * Message template overrides for a channel, keyed by event and then by
+ * message part, e.g. { "lead.created": { title: "{{lead.name}}" } }.
+ * Parts without an override use the provider's default template.
+ */
+export type NotificationTemplates = Record<string, Record<string, string>>;
+
 /**
  * Channel information for dispatching.
  */
@@ -134,6 +376,11 @@ export interface NotificationChannelInfo {
 	config: NotificationConfig;
 	events: string[];
 	enabled: boolean;
+	/** Routing rules over lead fields (see webhook-filters.ts); null sends every lead */
+	filter: string | null;
+	/** Message template overrides (see templates.ts); null uses the defaults */
+	templates: NotificationTemplates | null;
+	schedule: NotificationSchedule;
 }
 
 // ============================================================================
@@ -149,11 +396,13 @@ export interface NotificationProvider {
 	 *
 	 * @param config - Channel-specific configuration
 	 * @param payload - The notification payload
+	 * @param templates - The channel's message template overrides
 	 * @returns Delivery result
 	 */
 	send(
 		config: NotificationConfig,
 		payload: NotificationPayload,
+		templates?: NotificationTemplates | null,
 	): Promise<NotificationDeliveryResult>;
 
 	/**
@@ -187,10 +436,26 @@ export function leadToNotificationData(lead: Lead): NotificationLeadData {
 		message: lead.message,
 		source: lead.source,
 		status: lead.status,
+		tags: lead.tags ?? [],
 		createdAt: lead.createdAt,
 	};
 }
 
+/**
+ * Convert a LeadActivity database object to NotificationActivityData.
+ *
+ * @param activity - The activity from the database
+ * @returns Formatted activity data for notifications
+ */
+export function activityToNotificationData(activity: LeadActivity): NotificationActivityData {
+	return {
+		id: activity.id,
+		type: activity.type,
+		description: activity.description,
+		createdAt: activity.createdAt,
+	};
+}
+
 /**
  * Get the CRM base URL for generating links to leads.
  * Defaults to environment variable or localhost for development.
@@ -209,6 +474,80 @@ export function getLeadUrl(leadId: string): string {
 	return `${getCrmBaseUrl()}/leads/${leadId}`;
 }
 
+/**
+ * Generate a link to view a contact in the CRM admin UI.
+ *
+ * @param contactId - The contact ID
+ * @returns Full URL to the contact detail page
+ */
+export function getContactUrl(contactId: string): string {
+	return `${getCrmBaseUrl()}/contacts/${contactId}`;
+}
+
+/**
+ * Generate a link to a webhook's delivery history in the CRM admin UI.
+ *
+ * @param webhookId - The webhook ID
+ * @returns Full URL to the webhook deliveries page
+ */
+export function getWebhookUrl(webhookId: string): string {
+	return `${getCrmBaseUrl()}/webhooks/${webhookId}/deliveries`;
+}
+
+/**
+ * Get the CRM page a notification links to.
+ *
+ * @param payload - The notification payload
+ * @returns Full URL to the lead, contact or webhook the event is about (the CRM home for digests)
+ */
+export function getNotificationUrl(payload: NotificationPayload): string {
+	switch (payload.event) {
+		case "contact.follow_up_due":
+			return getContactUrl(payload.contact.id);
+		case "webhook.auto_disabled":
+			return getWebhookUrl(payload.webhook.id);
+		case "digest":
+			return getCrmBaseUrl();
+		default:
+			return getLeadUrl(payload.lead.id);
+	}
+}
+
+/**
+ * Format a date for notification text.
+ * Always rendered in UTC so every channel shows the same time.
+ *
+ * @param date - The date to format
+ * @returns Date string (e.g., "Jan 20, 2025, 10:00 AM UTC")
+ */
+export function formatNotificationDate(date: Date): string {
+	return `${date.toLocaleString("en-US", {
+		dateStyle: "medium",
+		timeStyle: "short",
+		timeZone: "UTC",
+	})} UTC`;
+}
+
+/**
+ * Get the title of a digest.
+ *
+ * @param digest - The digest
+ * @returns Title (e.g., "📬 Daily Digest")
+ */
+export function getDigestTitle(digest: NotificationDigestData): string {
+	return digest.period === "weekly" ? "📬 Weekly Digest" : "📬 Daily Digest";
+}
+
+/**
+ * Format the period a digest covers.
+ *
+ * @param digest - The digest
+ * @returns Period string (e.g., "Jan 19, 2025, 9:00 AM UTC – Jan 20, 2025, 9:00 AM UTC")
+ */
+export function formatDigestPeriod(digest: NotificationDigestData): string {
+	return `${formatNotificationDate(digest.since)} – ${formatNotificationDate(digest.until)}`;
+}
+
 /**
  * Type guard to check if config is DiscordConfig.
  */
@@ -223,6 +562,25 @@ export function isTelegramConfig(config: NotificationConfig): config is Telegram
 	return "bot_token" in config && "chat_id" in config;
 }
 
+/**
+ * Type guard to check if config is SlackConfig.
+ * Slack and Discord configs share a shape, so the webhook host is checked too.
+ */
+export function isSlackConfig(config: NotificationConfig): config is SlackConfig {
+	return (
+		"webhook_url" in config &&
+		typeof config.webhook_url === "string" &&
+		config.webhook_url.startsWith("https://hooks.slack.com/")
+	);
+}
+
+/**
+ * Type guard to check if config is PushConfig.
+ */
+export function isPushConfig(config: NotificationConfig): config is PushConfig {
+	return "url" in config;
+}
+
 /**
  * Type guard to check if config is EmailConfig.
  */
@@ -0,0 +1,18 @@
+/**
+ * Tests for shared-secret checks.
+ */
+
+import { describe, expect, it } from "vitest";
+import { safeCompareSecret } from "./secrets";
+
+describe("safeCompareSecret", () => {
+	it("should accept the matching token", () => {
+		expect(safeCompareSecret("0123456789abcdef", "0123456789abcdef")).toBe(true);
+	});
+
+	it("should reject tokens that differ in content or length", () => {
+		expect(safeCompareSecret("0123456789abcdef", "0123456789abcdeF")).toBe(false);
+		expect(safeCompareSecret("0123456789abcdef", "0123")).toBe(false);
+		expect(safeCompareSecret("0123456789abcdef", "")).toBe(false);
+	});
+});
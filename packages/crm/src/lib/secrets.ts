@@ -0,0 +1,30 @@
+/**
+ * Shared-secret checks.
+ *
+ * Inbound webhooks (Telegram updates, inbound email) authenticate with a
+ * static secret sent in a header or query parameter rather than a signature.
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+
+/**
+ * Compare a presented token with a configured secret in constant time.
+ * Hashes both sides first so the comparison takes the same time whatever
+ * their lengths.
+ *
+ * @param secret - The configured secret
+ * @param token - The token presented by the caller
+ * @returns true if the token matches the secret
+ *
+ * @example
+ * ```ts
+ * if (!safeCompareSecret(secret, c.req.header("X-Webhook-Secret") ?? "")) {
+ *   return c.json({ error: "Unauthorized" }, 401);
+ * }
+ * ```
+ */
+export function safeCompareSecret(secret: string, token: string): boolean {
+	const expected = createHash("sha256").update(secret).digest();
+	const actual = createHash("sha256").update(token).digest();
+	return timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,370 @@
+/**
+ * Tests for contact outreach sequences.
+ *
+ * Verifies enrolling contacts, advancing and completing steps as matching
+ * interactions are logged, and pausing on inbound replies.
+ */
+
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("../db", () => ({
+	db: {
+		select: vi.fn(),
+		insert: vi.fn(),
+		update: vi.fn(),
+		delete: vi.fn(),
+	},
+	contacts: { id: "id", nextAction: "next_action" },
+	sequences: { id: "id" },
+	sequenceEnrollments: {
+		id: "id",
+		sequenceId: "sequence_id",
+		contactId: "contact_id",
+		status: "status",
+		nextAction: "next_action",
+	},
+}));
+
+import { db } from "../db";
+import { BadRequestError } from "./errors";
+import {
+	applySequenceInteraction,
+	clearSequenceNextActions,
+	enrollContact,
+	pauseEnrollment,
+	resumeEnrollment,
+	sequenceNextAction,
+	stopEnrollment,
+	syncSequenceEnrollments,
+} from "./sequences";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEQUENCE = {
+	id: "sequence-1",
+	name: "LinkedIn intro",
+	description: null,
+	steps: [
+		{ action: "Connect", type: "linkedin_connection_sent", delayDays: 0 },
+		{ action: "Comment on a post", type: "linkedin_comment", delayDays: 1 },
+		{ action: "Send a DM", type: "linkedin_dm_sent", delayDays: 3 },
+	],
+	createdAt: new Date(),
+	updatedAt: new Date(),
+} as const;
+
+const CONTACT = {
+	id: "contact-1",
+	name: "Jane Doe",
+	nextAction: "Comment on a post (LinkedIn intro, step 2/3)",
+};
+
+function enrollmentAt(currentStep: number, overrides: Record<string, unknown> = {}) {
+	return {
+		id: "enrollment-1",
+		sequenceId: SEQUENCE.id,
+		contactId: CONTACT.id,
+		currentStep,
+		status: "active",
+		nextAction:
+			currentStep < SEQUENCE.steps.length
+				? sequenceNextAction(SEQUENCE as never, currentStep)
+				: null,
+		...overrides,
+	};
+}
+
+function interaction(type: string, direction = "outbound") {
+	return { id: "interaction-1", contactId: CONTACT.id, type, direction, description: "x" };
+}
+
+/**
+ * Mock selects: enrollment lookups and the active enrollments joins.
+ */
+function mockSelect(rows: unknown[]) {
+	(db.select as Mock).mockReturnValue({
+		from: () => ({
+			where: () => Object.assign(Promise.resolve(rows), { limit: () => Promise.resolve(rows) }),
+			innerJoin: () => ({ where: () => Promise.resolve(rows) }),
+		}),
+	});
+}
+
+/**
+ * Mock updates, returning the set mock.
+ */
+function mockUpdate() {
+	const set = vi.fn((values: Record<string, unknown>) => ({
+		where: () => Object.assign(Promise.resolve(), { returning: () => Promise.resolve([values]) }),
+	}));
+	(db.update as Mock).mockReturnValue({ set });
+	return set;
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("sequenceNextAction", () => {
+	it("should name the step and its position", () => {
+		expect(sequenceNextAction(SEQUENCE as never, 2)).toBe("Send a DM (LinkedIn intro, step 3/3)");
+	});
+});
+
+describe("enrollContact", () => {
+	it("should enroll the contact and schedule the first step", async () => {
+		mockSelect([]);
+		const set = mockUpdate();
+		const values = vi.fn((row: Record<string, unknown>) => ({
+			returning: () => Promise.resolve([{ id: "enrollment-1", ...row }]),
+		}));
+		(db.insert as Mock).mockReturnValue({ values });
+
+		const enrollment = await enrollContact(CONTACT as never, SEQUENCE as never);
+
+		expect(enrollment).toMatchObject({
+			currentStep: 0,
+			status: "active",
+			nextAction: "Connect (LinkedIn intro, step 1/3)",
+		});
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({ nextAction: "Connect (LinkedIn intro, step 1/3)" }),
+		);
+	});
+
+	it("should refuse a contact already in a sequence", async () => {
+		mockSelect([enrollmentAt(1)]);
+
+		await expect(enrollContact(CONTACT as never, SEQUENCE as never)).rejects.toThrow(
+			"Contact is already enrolled in a sequence",
+		);
+		expect(db.insert).not.toHaveBeenCalled();
+	});
+
+	it("should refuse a contact enrolled concurrently", async () => {
+		mockSelect([]);
+		const violation = Object.assign(new Error("duplicate key value violates unique constraint"), {
+			code: "23505",
+			constraint_name: "idx_sequence_enrollments_open_contact",
+		});
+		(db.insert as Mock).mockReturnValue({
+			values: () => ({
+				returning: () => Promise.reject(new Error("Failed query", { cause: violation })),
+			}),
+		});
+
+		await expect(enrollContact(CONTACT as never, SEQUENCE as never)).rejects.toThrow(
+			BadRequestError,
+		);
+		expect(db.update).not.toHaveBeenCalled();
+	});
+});
+
+describe("applySequenceInteraction", () => {
+	it("should advance to the next step when the current step is logged", async () => {
+		mockSelect([{ enrollment: enrollmentAt(1), sequence: SEQUENCE }]);
+		const set = mockUpdate();
+		const before = Date.now();
+
+		const changes = await applySequenceInteraction(
+			CONTACT as never,
+			interaction("linkedin_comment") as never,
+		);
+
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({
+				currentStep: 2,
+				nextAction: "Send a DM (LinkedIn intro, step 3/3)",
+			}),
+		);
+		expect(changes.nextAction).toBe("Send a DM (LinkedIn intro, step 3/3)");
+		const due = (changes.nextActionDue as Date).getTime();
+		expect(due).toBeGreaterThanOrEqual(before + 3 * DAY_MS);
+		expect(due).toBeLessThan(before + 3 * DAY_MS + 60_000);
+	});
+
+	it("should complete the enrollment after the last step", async () => {
+		mockSelect([
+			{
+				enrollment: enrollmentAt(2),
+				sequence: SEQUENCE,
+			},
+		]);
+		const set = mockUpdate();
+
+		const changes = await applySequenceInteraction(
+			{ ...CONTACT, nextAction: "Send a DM (LinkedIn intro, step 3/3)" } as never,
+			interaction("linkedin_dm_sent") as never,
+		);
+
+		expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: "completed" }));
+		expect(changes).toEqual({ nextAction: null, nextActionDue: null });
+	});
+
+	it("should ignore interactions that don't match the current step", async () => {
+		mockSelect([{ enrollment: enrollmentAt(1), sequence: SEQUENCE }]);
+		const set = mockUpdate();
+
+		const changes = await applySequenceInteraction(
+			CONTACT as never,
+			interaction("linkedin_like") as never,
+		);
+
+		expect(set).not.toHaveBeenCalled();
+		expect(changes).toEqual({});
+	});
+
+	it("should pause the sequence on an inbound reply", async () => {
+		mockSelect([{ enrollment: enrollmentAt(1), sequence: SEQUENCE }]);
+		const set = mockUpdate();
+
+		const changes = await applySequenceInteraction(
+			CONTACT as never,
+			interaction("linkedin_dm_received", "inbound") as never,
+		);
+
+		expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: "paused" }));
+		expect(changes).toEqual({ nextAction: null, nextActionDue: null });
+	});
+
+	it("should keep a next action set by hand when pausing", async () => {
+		mockSelect([{ enrollment: enrollmentAt(1), sequence: SEQUENCE }]);
+		mockUpdate();
+
+		const changes = await applySequenceInteraction(
+			{ ...CONTACT, nextAction: "Send proposal" } as never,
+			interaction("email_received", "inbound") as never,
+		);
+
+		expect(changes).toEqual({});
+	});
+
+	it("should clear the next action it set after the sequence was renamed", async () => {
+		mockSelect([
+			{
+				enrollment: enrollmentAt(1, { nextAction: "Comment on a post (Intro, step 2/3)" }),
+				sequence: SEQUENCE,
+			},
+		]);
+		mockUpdate();
+
+		const changes = await applySequenceInteraction(
+			{ ...CONTACT, nextAction: "Comment on a post (Intro, step 2/3)" } as never,
+			interaction("email_received", "inbound") as never,
+		);
+
+		expect(changes).toEqual({ nextAction: null, nextActionDue: null });
+	});
+});
+
+describe("pauseEnrollment", () => {
+	it("should pause and clear the next action the enrollment set", async () => {
+		const set = mockUpdate();
+
+		const updated = await pauseEnrollment(enrollmentAt(1) as never);
+
+		expect(updated).toMatchObject({ status: "paused", nextAction: null });
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({ nextAction: null, nextActionDue: null }),
+		);
+	});
+});
+
+describe("resumeEnrollment", () => {
+	it("should reschedule the current step from now", async () => {
+		const set = mockUpdate();
+
+		const updated = await resumeEnrollment(
+			enrollmentAt(2, { status: "paused" }) as never,
+			SEQUENCE as never,
+		);
+
+		expect(updated.status).toBe("active");
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({ nextAction: "Send a DM (LinkedIn intro, step 3/3)" }),
+		);
+	});
+
+	it("should refuse to resume past the last step", async () => {
+		await expect(
+			resumeEnrollment(enrollmentAt(3, { status: "paused" }) as never, SEQUENCE as never),
+		).rejects.toThrow("Sequence has no more steps");
+	});
+});
+
+describe("stopEnrollment", () => {
+	it("should delete the enrollment and clear the step's next action", async () => {
+		const where = vi.fn(() => Promise.resolve());
+		(db.delete as Mock).mockReturnValue({ where });
+		const set = mockUpdate();
+
+		await stopEnrollment(enrollmentAt(1) as never);
+
+		expect(where).toHaveBeenCalled();
+		expect(set).toHaveBeenCalledWith(expect.objectContaining({ nextAction: null }));
+	});
+});
+
+describe("syncSequenceEnrollments", () => {
+	it("should rename the next action the sequence still owns", async () => {
+		mockSelect([{ enrollment: enrollmentAt(1), contactNextAction: CONTACT.nextAction }]);
+		const set = mockUpdate();
+
+		await syncSequenceEnrollments({ ...SEQUENCE, name: "Warm intro" } as never);
+
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({ nextAction: "Comment on a post (Warm intro, step 2/3)" }),
+		);
+		expect(set).toHaveBeenCalledTimes(2);
+	});
+
+	it("should leave a next action set by hand alone", async () => {
+		mockSelect([{ enrollment: enrollmentAt(1), contactNextAction: "Send proposal" }]);
+		const set = mockUpdate();
+
+		await syncSequenceEnrollments({ ...SEQUENCE, name: "Warm intro" } as never);
+
+		expect(set).not.toHaveBeenCalled();
+	});
+
+	it("should complete enrollments whose step was removed", async () => {
+		mockSelect([
+			{
+				enrollment: enrollmentAt(2),
+				contactNextAction: "Send a DM (LinkedIn intro, step 3/3)",
+			},
+		]);
+		const set = mockUpdate();
+
+		await syncSequenceEnrollments({ ...SEQUENCE, steps: SEQUENCE.steps.slice(0, 2) } as never);
+
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({ status: "completed", nextAction: null }),
+		);
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({ nextAction: null, nextActionDue: null }),
+		);
+	});
+});
+
+describe("clearSequenceNextActions", () => {
+	it("should clear the next actions of active enrollments", async () => {
+		mockSelect([enrollmentAt(0), enrollmentAt(1)]);
+		const set = mockUpdate();
+
+		await clearSequenceNextActions(SEQUENCE.id);
+
+		expect(set).toHaveBeenCalledTimes(2);
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({ nextAction: null, nextActionDue: null }),
+		);
+	});
+});
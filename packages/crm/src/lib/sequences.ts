@@ -0,0 +1,412 @@
+/**
+ * Contact outreach sequences (cadences).
+ *
+ * A sequence is an ordered list of steps, each with an interaction type and
+ * a delay in days after the previous step. Enrolling a contact schedules the
+ * first step as the contact's next action; logging an interaction of the
+ * current step's type (via addContactInteraction) schedules the next one,
+ * and an inbound reply pauses the enrollment.
+ *
+ * A contact is in at most one active or paused sequence at a time, so the
+ * sequence owns their next action while it runs. The enrollment remembers
+ * the next action it set; once the contact's next action is changed by
+ * hand, the sequence no longer clears or replaces it.
+ */
+
+import { and, eq, inArray } from "drizzle-orm";
+import {
+	type Contact,
+	type ContactInteraction,
+	contacts,
+	db,
+	type NewContact,
+	type Sequence,
+	type SequenceEnrollment,
+	sequenceEnrollments,
+	sequences,
+} from "../db/index.js";
+import { BadRequestError } from "./errors.js";
+
+/**
+ * Inbound interaction types that count as a reply and pause the sequence.
+ */
+export const SEQUENCE_REPLY_TYPES = [
+	"linkedin_dm_received",
+	"email_received",
+	"call",
+	"meeting",
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type NextActionChanges = Pick<NewContact, "nextAction" | "nextActionDue">;
+
+/**
+ * The next action text for a sequence step, e.g.
+ * "Send a DM (LinkedIn intro, step 3/4)".
+ *
+ * @param sequence - The sequence
+ * @param stepIndex - Index into the sequence's steps
+ */
+export function sequenceNextAction(sequence: Sequence, stepIndex: number): string {
+	const step = sequence.steps[stepIndex];
+	return `${step.action} (${sequence.name}, step ${stepIndex + 1}/${sequence.steps.length})`;
+}
+
+/**
+ * Schedule a step: its next action and due date, counting its delay from
+ * `from`.
+ */
+function scheduleStep(sequence: Sequence, stepIndex: number, from: Date) {
+	return {
+		nextAction: sequenceNextAction(sequence, stepIndex),
+		nextActionDue: new Date(from.getTime() + sequence.steps[stepIndex].delayDays * DAY_MS),
+	};
+}
+
+/**
+ * Set a contact's next action.
+ */
+async function setContactNextAction(contactId: string, changes: NextActionChanges): Promise<void> {
+	await db
+		.update(contacts)
+		.set({ ...changes, updatedAt: new Date() })
+		.where(eq(contacts.id, contactId));
+}
+
+/**
+ * Clear a contact's next action if it is still the one the enrollment set,
+ * leaving anything set by hand alone.
+ */
+async function clearEnrollmentNextAction(enrollment: SequenceEnrollment): Promise<void> {
+	if (!enrollment.nextAction) return;
+
+	await db
+		.update(contacts)
+		.set({ nextAction: null, nextActionDue: null, updatedAt: new Date() })
+		.where(
+			and(eq(contacts.id, enrollment.contactId), eq(contacts.nextAction, enrollment.nextAction)),
+		);
+}
+
+/**
+ * Unique index allowing one active or paused enrollment per contact.
+ */
+const OPEN_ENROLLMENT_INDEX = "idx_sequence_enrollments_open_contact";
+
+/**
+ * Whether an error is a Postgres unique violation of the given index.
+ * Drizzle wraps driver errors, so the cause is checked too.
+ */
+function isUniqueViolation(error: unknown, index: string): boolean {
+	for (let current = error; current instanceof Error; current = current.cause) {
+		const { code, constraint_name } = current as Error & {
+			code?: string;
+			constraint_name?: string;
+		};
+		if (code === "23505" && constraint_name === index) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Find a contact's active or paused enrollment.
+ *
+ * @param contactId - The contact ID
+ * @returns The enrollment, or null if the contact isn't in a sequence
+ */
+export async function getOpenEnrollment(contactId: string): Promise<SequenceEnrollment | null> {
+	const [enrollment] = await db
+		.select()
+		.from(sequenceEnrollments)
+		.where(
+			and(
+				eq(sequenceEnrollments.contactId, contactId),
+				inArray(sequenceEnrollments.status, ["active", "paused"]),
+			),
+		)
+		.limit(1);
+
+	return enrollment ?? null;
+}
+
+/**
+ * Enroll a contact in a sequence and schedule its first step.
+ *
+ * @param contact - The contact to enroll
+ * @param sequence - The sequence
+ * @returns The new enrollment
+ * @throws BadRequestError if the contact is already in a sequence
+ */
+export async function enrollContact(
+	contact: Contact,
+	sequence: Sequence,
+): Promise<SequenceEnrollment> {
+	if (await getOpenEnrollment(contact.id)) {
+		throw new BadRequestError("Contact is already enrolled in a sequence");
+	}
+
+	const step = scheduleStep(sequence, 0, new Date());
+
+	// The open-enrollment index catches a concurrent enrollment of the contact
+	const [enrollment] = await db
+		.insert(sequenceEnrollments)
+		.values({
+			sequenceId: sequence.id,
+			contactId: contact.id,
+			currentStep: 0,
+			status: "active",
+			stepDueAt: step.nextActionDue,
+			nextAction: step.nextAction,
+		})
+		.returning()
+		.catch((error: unknown) => {
+			if (isUniqueViolation(error, OPEN_ENROLLMENT_INDEX)) {
+				throw new BadRequestError("Contact is already enrolled in a sequence");
+			}
+			throw error;
+		});
+
+	await setContactNextAction(contact.id, step);
+
+	return enrollment;
+}
+
+/**
+ * Pause an active enrollment, clearing the step's next action.
+ *
+ * @param enrollment - The enrollment
+ * @returns The updated enrollment
+ */
+export async function pauseEnrollment(enrollment: SequenceEnrollment): Promise<SequenceEnrollment> {
+	const now = new Date();
+	const [updated] = await db
+		.update(sequenceEnrollments)
+		.set({ status: "paused", pausedAt: now, nextAction: null, updatedAt: now })
+		.where(eq(sequenceEnrollments.id, enrollment.id))
+		.returning();
+
+	await clearEnrollmentNextAction(enrollment);
+
+	return updated;
+}
+
+/**
+ * Resume a paused enrollment, rescheduling the current step from now.
+ *
+ * @param enrollment - The enrollment
+ * @param sequence - Its sequence
+ * @returns The updated enrollment
+ * @throws BadRequestError if the sequence no longer has the current step
+ */
+export async function resumeEnrollment(
+	enrollment: SequenceEnrollment,
+	sequence: Sequence,
+): Promise<SequenceEnrollment> {
+	if (enrollment.currentStep >= sequence.steps.length) {
+		throw new BadRequestError("Sequence has no more steps");
+	}
+
+	const step = scheduleStep(sequence, enrollment.currentStep, new Date());
+
+	const [updated] = await db
+		.update(sequenceEnrollments)
+		.set({
+			status: "active",
+			pausedAt: null,
+			stepDueAt: step.nextActionDue,
+			nextAction: step.nextAction,
+			updatedAt: new Date(),
+		})
+		.where(eq(sequenceEnrollments.id, enrollment.id))
+		.returning();
+
+	await setContactNextAction(enrollment.contactId, step);
+
+	return updated;
+}
+
+/**
+ * Remove a contact from a sequence, clearing the step's next action.
+ *
+ * @param enrollment - The enrollment
+ */
+export async function stopEnrollment(enrollment: SequenceEnrollment): Promise<void> {
+	await db.delete(sequenceEnrollments).where(eq(sequenceEnrollments.id, enrollment.id));
+
+	if (enrollment.status === "active") {
+		await clearEnrollmentNextAction(enrollment);
+	}
+}
+
+/**
+ * Bring active enrollments in line with an edited sequence.
+ *
+ * Contacts whose next action the sequence still owns get the renamed or
+ * renumbered step text; the due date is kept. Enrollments whose current
+ * step was removed are completed and their next action cleared.
+ *
+ * @param sequence - The sequence, as saved
+ */
+export async function syncSequenceEnrollments(sequence: Sequence): Promise<void> {
+	const active = await db
+		.select({ enrollment: sequenceEnrollments, contactNextAction: contacts.nextAction })
+		.from(sequenceEnrollments)
+		.innerJoin(contacts, eq(sequenceEnrollments.contactId, contacts.id))
+		.where(
+			and(
+				eq(sequenceEnrollments.sequenceId, sequence.id),
+				eq(sequenceEnrollments.status, "active"),
+			),
+		);
+
+	const now = new Date();
+
+	for (const { enrollment, contactNextAction } of active) {
+		const ownsNextAction =
+			enrollment.nextAction !== null && contactNextAction === enrollment.nextAction;
+
+		if (enrollment.currentStep >= sequence.steps.length) {
+			await db
+				.update(sequenceEnrollments)
+				.set({
+					status: "completed",
+					stepDueAt: null,
+					nextAction: null,
+					completedAt: now,
+					updatedAt: now,
+				})
+				.where(eq(sequenceEnrollments.id, enrollment.id));
+
+			await clearEnrollmentNextAction(enrollment);
+			continue;
+		}
+
+		const nextAction = sequenceNextAction(sequence, enrollment.currentStep);
+		if (!ownsNextAction || nextAction === enrollment.nextAction) {
+			continue;
+		}
+
+		await db
+			.update(sequenceEnrollments)
+			.set({ nextAction, updatedAt: now })
+			.where(eq(sequenceEnrollments.id, enrollment.id));
+
+		await setContactNextAction(enrollment.contactId, { nextAction });
+	}
+}
+
+/**
+ * Clear the next actions a sequence's active enrollments own, before the
+ * sequence (and with it, its enrollments) is deleted.
+ *
+ * @param sequenceId - The sequence ID
+ */
+export async function clearSequenceNextActions(sequenceId: string): Promise<void> {
+	const active = await db
+		.select()
+		.from(sequenceEnrollments)
+		.where(
+			and(eq(sequenceEnrollments.sequenceId, sequenceId), eq(sequenceEnrollments.status, "active")),
+		);
+
+	for (const enrollment of active) {
+		await clearEnrollmentNextAction(enrollment);
+	}
+}
+
+/**
+ * Apply a newly logged interaction to the contact's active sequences.
+ *
+ * An inbound reply pauses the sequence. An interaction of the current
+ * step's type advances it: the next step becomes the contact's next action,
+ * or the enrollment completes after the last step.
+ *
+ * @param contact - The contact, as it was before the interaction
+ * @param interaction - The logged interaction
+ * @returns Changes to the contact's next action, to save with the interaction
+ *
+ * @example
+ * ```ts
+ * const changes = await applySequenceInteraction(contact, interaction);
+ * await db.update(contacts).set({ ...changes, lastInteractionAt: new Date() });
+ * ```
+ */
+export async function applySequenceInteraction(
+	contact: Contact,
+	interaction: ContactInteraction,
+): Promise<NextActionChanges> {
+	const active = await db
+		.select({ enrollment: sequenceEnrollments, sequence: sequences })
+		.from(sequenceEnrollments)
+		.innerJoin(sequences, eq(sequenceEnrollments.sequenceId, sequences.id))
+		.where(
+			and(eq(sequenceEnrollments.contactId, contact.id), eq(sequenceEnrollments.status, "active")),
+		);
+
+	const isReply =
+		interaction.direction === "inbound" &&
+		(SEQUENCE_REPLY_TYPES as readonly string[]).includes(interaction.type);
+	const now = new Date();
+	let changes: NextActionChanges = {};
+
+	for (const { enrollment, sequence } of active) {
+		const ownsNextAction =
+			enrollment.nextAction !== null && contact.nextAction === enrollment.nextAction;
+
+		if (isReply) {
+			await db
+				.update(sequenceEnrollments)
+				.set({ status: "paused", pausedAt: now, nextAction: null, updatedAt: now })
+				.where(eq(sequenceEnrollments.id, enrollment.id));
+
+			if (ownsNextAction) {
+				changes = { nextAction: null, nextActionDue: null };
+			}
+			continue;
+		}
+
+		if (sequence.steps[enrollment.currentStep]?.type !== interaction.type) {
+			continue;
+		}
+
+		const nextStep = enrollment.currentStep + 1;
+
+		if (nextStep >= sequence.steps.length) {
+			await db
+				.update(sequenceEnrollments)
+				.set({
+					currentStep: nextStep,
+					status: "completed",
+					stepDueAt: null,
+					nextAction: null,
+					completedAt: now,
+					updatedAt: now,
+				})
+				.where(eq(sequenceEnrollments.id, enrollment.id));
+
+			if (ownsNextAction) {
+				changes = { nextAction: null, nextActionDue: null };
+			}
+			continue;
+		}
+
+		const step = scheduleStep(sequence, nextStep, now);
+
+		await db
+			.update(sequenceEnrollments)
+			.set({
+				currentStep: nextStep,
+				stepDueAt: step.nextActionDue,
+				nextAction: step.nextAction,
+				updatedAt: now,
+			})
+			.where(eq(sequenceEnrollments.id, enrollment.id));
+
+		changes = step;
+	}
+
+	return changes;
+}
@@ -0,0 +1,35 @@
+/**
+ * Tests for setting value coercion.
+ */
+
+import { describe, expect, it } from "vitest";
+import { numberOr, numbersOr } from "./setting-values";
+
+describe("numberOr", () => {
+	it("should keep valid non-negative numbers", () => {
+		expect(numberOr(2.5, 1)).toBe(2.5);
+		expect(numberOr(0, 1)).toBe(0);
+	});
+
+	it("should fall back for missing, negative or non-numeric values", () => {
+		expect(numberOr(undefined, 1)).toBe(1);
+		expect(numberOr(-3, 1)).toBe(1);
+		expect(numberOr("4", 1)).toBe(1);
+		expect(numberOr(Number.POSITIVE_INFINITY, 1)).toBe(1);
+	});
+
+	it("should only accept whole numbers when asked", () => {
+		expect(numberOr(2.5, 1, { integer: true })).toBe(1);
+		expect(numberOr(3, 1, { integer: true })).toBe(3);
+	});
+});
+
+describe("numbersOr", () => {
+	it("should fall back key by key and drop unknown keys", () => {
+		expect(numbersOr({ a: 5, b: -1, c: 9 }, { a: 1, b: 2 })).toEqual({ a: 5, b: 2 });
+	});
+
+	it("should use the defaults when the stored value isn't an object", () => {
+		expect(numbersOr("nope", { a: 1 })).toEqual({ a: 1 });
+	});
+});
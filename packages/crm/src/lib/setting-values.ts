@@ -0,0 +1,63 @@
+/**
+ * Setting value coercion.
+ *
+ * JSON settings are stored as written and may predate the current shape, so
+ * modules reading them fall back to their defaults for anything missing or
+ * invalid instead of trusting the stored value.
+ */
+
+/**
+ * Options for reading a number from a stored setting.
+ */
+export interface NumberSettingOptions {
+	/** Only accept whole numbers */
+	integer?: boolean;
+}
+
+/**
+ * Read a non-negative number, falling back to a default.
+ *
+ * @param value - The stored value
+ * @param fallback - Used when the value is missing or invalid
+ * @param options - Extra constraints on the value
+ * @returns The value, or the fallback
+ *
+ * @example
+ * ```ts
+ * numberOr(stored.halfLifeDays, 90); // 90 unless a valid number is stored
+ * ```
+ */
+export function numberOr(
+	value: unknown,
+	fallback: number,
+	{ integer = false }: NumberSettingOptions = {},
+): number {
+	return typeof value === "number" &&
+		Number.isFinite(value) &&
+		value >= 0 &&
+		(!integer || Number.isInteger(value))
+		? value
+		: fallback;
+}
+
+/**
+ * Read a record of non-negative numbers, falling back to the defaults key by
+ * key. Keys that aren't in the defaults are dropped.
+ *
+ * @param value - The stored record
+ * @param fallback - The default record
+ * @param options - Extra constraints on each value
+ * @returns The record, with defaults for missing or invalid values
+ */
+export function numbersOr<K extends string>(
+	value: unknown,
+	fallback: Record<K, number>,
+	options: NumberSettingOptions = {},
+): Record<K, number> {
+	const stored = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+	const result = { ...fallback };
+	for (const key of Object.keys(fallback) as K[]) {
+		result[key] = numberOr(stored[key], fallback[key], options);
+	}
+	return result;
+}
@@ -0,0 +1,332 @@
+/**
+ * Tests for the two-way Telegram bot.
+ *
+ * Verifies secret checking, lead action buttons, note replies and the
+ * /lead and /followups commands. Lead changes must go through lib/leads.ts.
+ */
+
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("../db", () => ({
+	db: {
+		select: vi.fn(),
+	},
+	leads: { id: "id", email: "email", createdAt: "created_at" },
+	contacts: { nextActionDue: "next_action_due" },
+}));
+
+vi.mock("./leads", () => ({
+	updateLead: vi.fn((lead, input) => Promise.resolve({ ...lead, ...input })),
+	addLeadActivity: vi.fn(() => Promise.resolve({ id: "activity-1" })),
+}));
+
+vi.mock("./notifications", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./notifications")>()),
+	callTelegramApi: vi.fn(() => Promise.resolve({ ok: true })),
+}));
+
+import { db } from "../db";
+import { addLeadActivity, updateLead } from "./leads";
+import { buildLeadKeyboard, callTelegramApi } from "./notifications";
+import {
+	formatLeadSummary,
+	handleTelegramUpdate,
+	type TelegramUpdate,
+	verifyTelegramSecret,
+} from "./telegram-bot";
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const LEAD_ID = "550e8400-e29b-41d4-a716-446655440000";
+const NOW = new Date("2025-01-20T10:00:00Z");
+
+const config = {
+	bot_token: "123:abc",
+	chat_id: "-100123",
+	webhook_secret: "s3cret",
+};
+
+/**
+ * Create a mock lead row.
+ */
+function createMockLead(overrides: Record<string, unknown> = {}) {
+	return {
+		id: LEAD_ID,
+		name: "Jane <Doe>",
+		email: "jane@acme.com",
+		company: "Acme Inc",
+		phone: null,
+		budget: null,
+		projectType: null,
+		message: "Need an app",
+		source: "Contact Form",
+		status: "new",
+		notes: null,
+		tags: [],
+		rawInput: null,
+		aiParsed: false,
+		createdAt: new Date("2025-01-15T10:00:00Z"),
+		updatedAt: new Date("2025-01-15T10:00:00Z"),
+		contactedAt: null,
+		...overrides,
+	};
+}
+
+/**
+ * Mock select queries to return rows.
+ */
+function mockSelect(rows: unknown[]) {
+	const chain: Record<string, Mock> = {};
+	chain.from = vi.fn(() => chain);
+	chain.where = vi.fn(() => chain);
+	chain.orderBy = vi.fn(() => chain);
+	chain.limit = vi.fn(() => Promise.resolve(rows));
+	(db.select as Mock).mockReturnValue(chain);
+	return chain;
+}
+
+/**
+ * Build a text message update from the given chat.
+ */
+function messageUpdate(text: string, extra: Record<string, unknown> = {}): TelegramUpdate {
+	return {
+		update_id: 1,
+		message: { message_id: 10, chat: { id: -100123 }, text, ...extra },
+	};
+}
+
+/**
+ * Build a button press update from the given chat.
+ */
+function callbackUpdate(data: string, chatId = -100123): TelegramUpdate {
+	return {
+		update_id: 1,
+		callback_query: {
+			id: "query-1",
+			data,
+			message: { message_id: 10, chat: { id: chatId } },
+		},
+	};
+}
+
+/**
+ * Get the parameters of the bot's calls to a Telegram API method.
+ */
+function apiCalls(method: string): Record<string, unknown>[] {
+	return (callTelegramApi as Mock).mock.calls
+		.filter(([, calledMethod]) => calledMethod === method)
+		.map(([, , body]) => body);
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+// ============================================================================
+// SECRET TESTS
+// ============================================================================
+
+describe("verifyTelegramSecret", () => {
+	it("should accept the channel's secret", () => {
+		expect(verifyTelegramSecret(config, "s3cret")).toBe(true);
+	});
+
+	it("should reject a wrong or missing secret", () => {
+		expect(verifyTelegramSecret(config, "s3cret-other")).toBe(false);
+		expect(verifyTelegramSecret(config, undefined)).toBe(false);
+	});
+
+	it("should reject everything when the channel has no secret", () => {
+		expect(verifyTelegramSecret({ bot_token: "123:abc", chat_id: "-100123" }, "")).toBe(false);
+	});
+});
+
+// ============================================================================
+// BUTTON TESTS
+// ============================================================================
+
+describe("handleTelegramUpdate - lead action buttons", () => {
+	it("should update the lead's status through the shared update path", async () => {
+		const lead = createMockLead();
+		mockSelect([lead]);
+
+		await handleTelegramUpdate(config, callbackUpdate(`lead:contacted:${LEAD_ID}`));
+
+		expect(updateLead).toHaveBeenCalledWith(lead, { status: "contacted" });
+		expect(apiCalls("answerCallbackQuery")).toEqual([
+			{ callback_query_id: "query-1", text: "Jane <Doe> marked as contacted" },
+		]);
+	});
+
+	it("should not update a lead that already has the status", async () => {
+		mockSelect([createMockLead({ status: "lost" })]);
+
+		await handleTelegramUpdate(config, callbackUpdate(`lead:lost:${LEAD_ID}`));
+
+		expect(updateLead).not.toHaveBeenCalled();
+		expect(apiCalls("answerCallbackQuery")[0].text).toBe("Jane <Doe> is already lost");
+	});
+
+	it("should answer when the lead doesn't exist", async () => {
+		mockSelect([]);
+
+		await handleTelegramUpdate(config, callbackUpdate(`lead:qualified:${LEAD_ID}`));
+
+		expect(updateLead).not.toHaveBeenCalled();
+		expect(apiCalls("answerCallbackQuery")[0].text).toBe("Lead not found");
+	});
+
+	it("should answer unknown actions", async () => {
+		await handleTelegramUpdate(config, callbackUpdate(`lead:won:${LEAD_ID}`));
+
+		expect(db.select).not.toHaveBeenCalled();
+		expect(apiCalls("answerCallbackQuery")[0].text).toBe("Unknown action");
+	});
+
+	it("should prompt for a note with a forced reply", async () => {
+		mockSelect([createMockLead()]);
+
+		await handleTelegramUpdate(config, callbackUpdate(`lead:note:${LEAD_ID}`));
+
+		const [prompt] = apiCalls("sendMessage");
+		expect(prompt.chat_id).toBe("-100123");
+		expect(prompt.text).toContain("Jane &lt;Doe&gt;");
+		expect(prompt.text).toContain(LEAD_ID);
+		expect(prompt.reply_markup).toMatchObject({ force_reply: true });
+		expect(addLeadActivity).not.toHaveBeenCalled();
+	});
+
+	it("should refuse buttons pressed in other chats", async () => {
+		await handleTelegramUpdate(config, callbackUpdate(`lead:contacted:${LEAD_ID}`, 999));
+
+		expect(db.select).not.toHaveBeenCalled();
+		expect(updateLead).not.toHaveBeenCalled();
+		expect(apiCalls("answerCallbackQuery")[0].text).toBe("This chat isn't linked to the CRM");
+	});
+});
+
+// ============================================================================
+// NOTE REPLY TESTS
+// ============================================================================
+
+describe("handleTelegramUpdate - note replies", () => {
+	it("should add the reply as a note activity", async () => {
+		const lead = createMockLead();
+		mockSelect([lead]);
+
+		await handleTelegramUpdate(
+			config,
+			messageUpdate("  Called, follow up next week  ", {
+				reply_to_message: {
+					message_id: 9,
+					text: `📝 Note for lead Jane <Doe>\nReply to this message with your note.\n\n${LEAD_ID}`,
+				},
+			}),
+		);
+
+		expect(addLeadActivity).toHaveBeenCalledWith(lead, {
+			type: "note",
+			description: "Called, follow up next week",
+		});
+		expect(apiCalls("sendMessage")[0].text).toBe("📝 Note added to <b>Jane &lt;Doe&gt;</b>");
+	});
+
+	it("should not add a note for a deleted lead", async () => {
+		mockSelect([]);
+
+		await handleTelegramUpdate(
+			config,
+			messageUpdate("Note", {
+				reply_to_message: { message_id: 9, text: `📝 Note for lead Jane\n\n${LEAD_ID}` },
+			}),
+		);
+
+		expect(addLeadActivity).not.toHaveBeenCalled();
+		expect(apiCalls("sendMessage")[0].text).toContain("Lead not found");
+	});
+});
+
+// ============================================================================
+// COMMAND TESTS
+// ============================================================================
+
+describe("handleTelegramUpdate - commands", () => {
+	it("should show the lead for /lead with its action buttons", async () => {
+		const lead = createMockLead();
+		mockSelect([lead]);
+
+		await handleTelegramUpdate(config, messageUpdate("/lead@OctatechBot Jane@Acme.com"));
+
+		const [reply] = apiCalls("sendMessage");
+		expect(reply.text).toBe(formatLeadSummary(lead as never));
+		expect(reply.reply_markup).toEqual({ inline_keyboard: buildLeadKeyboard(LEAD_ID) });
+	});
+
+	it("should report when /lead finds nothing", async () => {
+		mockSelect([]);
+
+		await handleTelegramUpdate(config, messageUpdate("/lead nobody@example.com"));
+
+		expect(apiCalls("sendMessage")[0].text).toBe("No lead found for nobody@example.com");
+	});
+
+	it("should show usage for /lead without an email", async () => {
+		await handleTelegramUpdate(config, messageUpdate("/lead"));
+
+		expect(db.select).not.toHaveBeenCalled();
+		expect(apiCalls("sendMessage")[0].text).toContain("Usage: /lead");
+	});
+
+	it("should list due follow-ups for /followups", async () => {
+		const chain = mockSelect([
+			{
+				id: "contact-1",
+				name: "Sam Lee",
+				nextAction: "Send proposal",
+				nextActionDue: new Date("2025-01-19T09:00:00Z"),
+			},
+			{
+				id: "contact-2",
+				name: "Ana Ruiz",
+				nextAction: null,
+				nextActionDue: new Date("2025-01-20T15:00:00Z"),
+			},
+		]);
+
+		await handleTelegramUpdate(config, messageUpdate("/followups"), NOW);
+
+		const text = apiCalls("sendMessage")[0].text as string;
+		expect(text).toContain("Sam Lee</a> — Send proposal");
+		expect(text).toContain("Jan 19, 2025, 9:00 AM UTC (overdue)");
+		expect(text).toContain("Ana Ruiz</a>\n");
+		expect(text).not.toContain("3:00 PM UTC (overdue)");
+		expect(chain.limit).toHaveBeenCalledWith(10);
+	});
+
+	it("should say when no follow-ups are due", async () => {
+		mockSelect([]);
+
+		await handleTelegramUpdate(config, messageUpdate("/followups"), NOW);
+
+		expect(apiCalls("sendMessage")[0].text).toContain("No follow-ups due");
+	});
+
+	it("should answer other commands with help", async () => {
+		await handleTelegramUpdate(config, messageUpdate("/start"));
+
+		expect(apiCalls("sendMessage")[0].text).toContain("/followups");
+	});
+
+	it("should ignore plain messages and other chats", async () => {
+		await handleTelegramUpdate(config, messageUpdate("hello"));
+		await handleTelegramUpdate(config, {
+			update_id: 2,
+			message: { message_id: 11, chat: { id: 42 }, text: "/followups" },
+		});
+
+		expect(callTelegramApi).not.toHaveBeenCalled();
+		expect(db.select).not.toHaveBeenCalled();
+	});
+});
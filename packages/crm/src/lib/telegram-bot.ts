@@ -0,0 +1,400 @@
+/**
+ * Two-way Telegram bot for triaging leads from chat.
+ *
+ * Handles the updates Telegram posts to /api/webhooks/telegram/:channelId for
+ * Telegram channels with a webhook secret:
+ * - Inline buttons on lead notifications (mark contacted, qualified or lost;
+ *   add note). Notes are collected by replying to the bot's prompt.
+ * - Commands: /lead <email> and /followups
+ *
+ * Lead changes go through lib/leads.ts, so activities, webhooks and
+ * notifications fire exactly as for PATCH /api/admin/leads/:id.
+ * Only the channel's own chat can use the bot.
+ */
+
+import { and, asc, desc, eq, isNotNull, lte, sql } from "drizzle-orm";
+import { z } from "zod";
+import { contacts, db, type Lead, leads } from "../db/index.js";
+import { addLeadActivity, updateLead } from "./leads.js";
+import {
+	buildLeadKeyboard,
+	callTelegramApi,
+	escapeHtml,
+	formatNotificationDate,
+	getContactUrl,
+	getLeadUrl,
+	parseLeadCallbackData,
+	type TelegramConfig,
+} from "./notifications/index.js";
+import { safeCompareSecret } from "./secrets.js";
+import { createActivitySchema, isValidUuid } from "./validation.js";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Telegram bot configuration.
+ */
+export const TELEGRAM_BOT_CONFIG = {
+	/** Maximum follow-ups listed by /followups */
+	followUpsLimit: 10,
+	/** /followups includes follow-ups due within this window */
+	followUpsWindowMs: 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Header Telegram sends the webhook secret in.
+ */
+export const TELEGRAM_SECRET_HEADER = "X-Telegram-Bot-Api-Secret-Token";
+
+/**
+ * Marks the bot's note prompt. The lead ID follows it, so a reply to the
+ * prompt can be matched back to its lead.
+ */
+const NOTE_PROMPT_MARKER = "Note for lead";
+
+const HELP_TEXT = [
+	"<b>Octatech CRM bot</b>",
+	"",
+	"/lead &lt;email&gt; — show a lead with its action buttons",
+	"/followups — contact follow-ups due in the next 24 hours",
+	"",
+	"Use the buttons on lead notifications to update the lead's status or add a note.",
+].join("\n");
+
+// ============================================================================
+// UPDATE SCHEMA
+// ============================================================================
+
+/**
+ * Schema for the parts of a Telegram message the bot reads.
+ */
+const telegramMessageSchema = z.object({
+	message_id: z.number(),
+	chat: z.object({ id: z.number() }),
+	text: z.string().optional(),
+	reply_to_message: z
+		.object({
+			message_id: z.number(),
+			text: z.string().optional(),
+		})
+		.optional(),
+});
+
+/**
+ * Schema for the parts of a Telegram update the bot reads.
+ * Other update kinds pass validation and are ignored.
+ */
+export const telegramUpdateSchema = z.object({
+	update_id: z.number(),
+	message: telegramMessageSchema.optional(),
+	callback_query: z
+		.object({
+			id: z.string(),
+			data: z.string().optional(),
+			message: telegramMessageSchema.optional(),
+		})
+		.optional(),
+});
+
+export type TelegramUpdate = z.infer<typeof telegramUpdateSchema>;
+type TelegramMessage = z.infer<typeof telegramMessageSchema>;
+type TelegramCallbackQuery = NonNullable<TelegramUpdate["callback_query"]>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check the secret token Telegram sent against the channel's webhook secret.
+ *
+ * @param config - The channel's Telegram configuration
+ * @param token - Value of the X-Telegram-Bot-Api-Secret-Token header
+ * @returns true if the channel has a secret and the token matches it
+ */
+export function verifyTelegramSecret(config: TelegramConfig, token: string | undefined): boolean {
+	if (!config.webhook_secret || !token) {
+		return false;
+	}
+
+	return safeCompareSecret(config.webhook_secret, token);
+}
+
+/**
+ * Send an HTML message to the channel's chat, logging API errors.
+ */
+async function sendMessage(
+	config: TelegramConfig,
+	text: string,
+	extra: Record<string, unknown> = {},
+): Promise<void> {
+	const response = await callTelegramApi(config.bot_token, "sendMessage", {
+		chat_id: config.chat_id,
+		text,
+		parse_mode: "HTML",
+		disable_web_page_preview: true,
+		...extra,
+	});
+
+	if (!response.ok) {
+		console.error(`[Telegram Bot] sendMessage failed: ${response.description}`);
+	}
+}
+
+/**
+ * Answer a callback query, optionally showing a short toast.
+ */
+async function answerCallbackQuery(
+	config: TelegramConfig,
+	callbackQueryId: string,
+	text?: string,
+): Promise<void> {
+	const response = await callTelegramApi(config.bot_token, "answerCallbackQuery", {
+		callback_query_id: callbackQueryId,
+		text,
+	});
+
+	if (!response.ok) {
+		console.error(`[Telegram Bot] answerCallbackQuery failed: ${response.description}`);
+	}
+}
+
+/**
+ * Find a lead by ID, or null if the ID is invalid or unknown.
+ */
+async function findLead(id: string): Promise<Lead | null> {
+	if (!isValidUuid(id)) {
+		return null;
+	}
+
+	const [lead] = await db.select().from(leads).where(eq(leads.id, id)).limit(1);
+	return lead ?? null;
+}
+
+/**
+ * Format a lead as a short HTML summary.
+ */
+export function formatLeadSummary(lead: Lead): string {
+	const lines: string[] = [];
+
+	lines.push(`<b>${escapeHtml(lead.name)}</b> · ${escapeHtml(lead.status)}`);
+	lines.push("");
+	lines.push(`<b>Email:</b> ${escapeHtml(lead.email)}`);
+
+	if (lead.company) {
+		lines.push(`<b>Company:</b> ${escapeHtml(lead.company)}`);
+	}
+
+	if (lead.phone) {
+		lines.push(`<b>Phone:</b> ${escapeHtml(lead.phone)}`);
+	}
+
+	lines.push(`<b>Created:</b> ${formatNotificationDate(lead.createdAt)}`);
+
+	lines.push("");
+	lines.push(`<a href="${getLeadUrl(lead.id)}">View in CRM →</a>`);
+
+	return lines.join("\n");
+}
+
+// ============================================================================
+// CALLBACK QUERIES
+// ============================================================================
+
+/**
+ * Handle a press on a lead action button.
+ */
+async function handleCallbackQuery(
+	config: TelegramConfig,
+	query: TelegramCallbackQuery,
+): Promise<void> {
+	const parsed = query.data ? parseLeadCallbackData(query.data) : null;
+	if (!parsed) {
+		await answerCallbackQuery(config, query.id, "Unknown action");
+		return;
+	}
+
+	const lead = await findLead(parsed.leadId);
+	if (!lead) {
+		await answerCallbackQuery(config, query.id, "Lead not found");
+		return;
+	}
+
+	if (parsed.action === "note") {
+		await answerCallbackQuery(config, query.id);
+		await sendMessage(
+			config,
+			`📝 ${NOTE_PROMPT_MARKER} <b>${escapeHtml(lead.name)}</b>\nReply to this message with your note.\n\n<code>${lead.id}</code>`,
+			{ reply_markup: { force_reply: true, input_field_placeholder: "Note" } },
+		);
+		return;
+	}
+
+	if (lead.status === parsed.action) {
+		await answerCallbackQuery(config, query.id, `${lead.name} is already ${parsed.action}`);
+		return;
+	}
+
+	await updateLead(lead, { status: parsed.action });
+	await answerCallbackQuery(config, query.id, `${lead.name} marked as ${parsed.action}`);
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+/**
+ * Add a note from a reply to the bot's note prompt.
+ */
+async function handleNoteReply(config: TelegramConfig, promptText: string, text: string) {
+	const leadId = promptText.slice(promptText.lastIndexOf("\n") + 1).trim();
+	const lead = await findLead(leadId);
+	if (!lead) {
+		await sendMessage(config, "Lead not found. It may have been deleted.");
+		return;
+	}
+
+	const parseResult = createActivitySchema.safeParse({ type: "note", description: text.trim() });
+	if (!parseResult.success) {
+		await sendMessage(config, escapeHtml(parseResult.error.issues[0].message));
+		return;
+	}
+
+	await addLeadActivity(lead, parseResult.data);
+	await sendMessage(config, `📝 Note added to <b>${escapeHtml(lead.name)}</b>`);
+}
+
+/**
+ * /lead <email> — show the newest lead with that email and its action buttons.
+ */
+async function handleLeadCommand(config: TelegramConfig, args: string): Promise<void> {
+	const email = args.trim().toLowerCase();
+	if (!email) {
+		await sendMessage(config, "Usage: /lead &lt;email&gt;");
+		return;
+	}
+
+	const [lead] = await db
+		.select()
+		.from(leads)
+		.where(sql`lower(${leads.email}) = ${email}`)
+		.orderBy(desc(leads.createdAt))
+		.limit(1);
+
+	if (!lead) {
+		await sendMessage(config, `No lead found for ${escapeHtml(email)}`);
+		return;
+	}
+
+	await sendMessage(config, formatLeadSummary(lead), {
+		reply_markup: { inline_keyboard: buildLeadKeyboard(lead.id) },
+	});
+}
+
+/**
+ * /followups — list contact follow-ups that are overdue or due soon.
+ */
+async function handleFollowUpsCommand(config: TelegramConfig, now: Date): Promise<void> {
+	const dueBefore = new Date(now.getTime() + TELEGRAM_BOT_CONFIG.followUpsWindowMs);
+	const dueContacts = await db
+		.select()
+		.from(contacts)
+		.where(and(isNotNull(contacts.nextActionDue), lte(contacts.nextActionDue, dueBefore)))
+		.orderBy(asc(contacts.nextActionDue))
+		.limit(TELEGRAM_BOT_CONFIG.followUpsLimit);
+
+	if (dueContacts.length === 0) {
+		await sendMessage(config, "No follow-ups due in the next 24 hours 🎉");
+		return;
+	}
+
+	const lines = ["<b>⏰ Follow-ups due</b>", ""];
+	for (const contact of dueContacts) {
+		const due = contact.nextActionDue ?? now;
+		const overdue = due < now ? " (overdue)" : "";
+		const action = contact.nextAction ? ` — ${escapeHtml(contact.nextAction)}` : "";
+		lines.push(
+			`• <a href="${getContactUrl(contact.id)}">${escapeHtml(contact.name)}</a>${action}`,
+			`  <i>${formatNotificationDate(due)}${overdue}</i>`,
+		);
+	}
+
+	await sendMessage(config, lines.join("\n"));
+}
+
+/**
+ * Handle a text message: a reply to a note prompt or a command.
+ * Other messages are ignored.
+ */
+async function handleMessage(
+	config: TelegramConfig,
+	message: TelegramMessage,
+	now: Date,
+): Promise<void> {
+	const text = message.text;
+	if (!text) {
+		return;
+	}
+
+	const promptText = message.reply_to_message?.text;
+	if (promptText?.includes(NOTE_PROMPT_MARKER)) {
+		await handleNoteReply(config, promptText, text);
+		return;
+	}
+
+	// "/command@BotName args"
+	const command = text.match(/^\/(\w+)(?:@\w+)?(?:\s+([\s\S]*))?$/);
+	if (!command) {
+		return;
+	}
+
+	switch (command[1].toLowerCase()) {
+		case "lead":
+			await handleLeadCommand(config, command[2] ?? "");
+			return;
+		case "followups":
+			await handleFollowUpsCommand(config, now);
+			return;
+		default:
+			await sendMessage(config, HELP_TEXT);
+	}
+}
+
+// ============================================================================
+// UPDATES
+// ============================================================================
+
+/**
+ * Handle an update Telegram posted to a channel's webhook.
+ * Updates from chats other than the channel's are ignored.
+ *
+ * @param config - The channel's Telegram configuration
+ * @param update - The validated update
+ * @param now - Current time (injectable for tests)
+ *
+ * @example
+ * ```ts
+ * await handleTelegramUpdate(config, telegramUpdateSchema.parse(body));
+ * ```
+ */
+export async function handleTelegramUpdate(
+	config: TelegramConfig,
+	update: TelegramUpdate,
+	now: Date = new Date(),
+): Promise<void> {
+	const query = update.callback_query;
+	if (query) {
+		if (String(query.message?.chat.id) !== config.chat_id) {
+			await answerCallbackQuery(config, query.id, "This chat isn't linked to the CRM");
+			return;
+		}
+		await handleCallbackQuery(config, query);
+		return;
+	}
+
+	const message = update.message;
+	if (message && String(message.chat.id) === config.chat_id) {
+		await handleMessage(config, message, now);
+	}
+}
@@ -1472,7 +1472,15 @@ describe("parseSortParam", () => {
 
 	describe("all valid sort fields", () => {
 		it("should recognize all valid sort fields", () => {
-			const expectedFields = ["createdAt", "updatedAt", "name", "email", "company", "status"];
+			const expectedFields = [
+				"createdAt",
+				"updatedAt",
+				"name",
+				"email",
+				"company",
+				"status",
+				"score",
+			];
 
 			expect([...leadSortFields]).toEqual(expectedFields);
 		});
@@ -21,7 +21,14 @@ export type LeadStatusValue = (typeof leadStatusEnum)[number];
 /**
  * Valid activity types for lead interactions.
  */
-export const activityTypeEnum = ["note", "email", "call", "meeting", "status_change"] as const;
+export const activityTypeEnum = [
+	"note",
+	"email",
+	"email_received",
+	"call",
+	"meeting",
+	"status_change",
+] as const;
 export type ActivityTypeValue = (typeof activityTypeEnum)[number];
 
 /**
@@ -75,6 +82,7 @@ export const leadSortFields = [
 	"email",
 	"company",
 	"status",
+	"score",
 ] as const;
 export type LeadSortField = (typeof leadSortFields)[number];
 
@@ -397,7 +405,7 @@ const contactSourceOptions = [
 ] as const;
 
 // Contact interaction type
-const contactInteractionTypeOptions = [
+export const contactInteractionTypeOptions = [
 	"linkedin_comment",
 	"linkedin_like",
 	"linkedin_dm_sent",
@@ -522,6 +530,7 @@ export const updateContactSchema = z.object({
 		.array(z.string().max(50, "Tag must be at most 50 characters"))
 		.max(20, "Maximum 20 tags allowed")
 		.optional(),
+	decayPinned: z.boolean().optional(),
 });
 export type UpdateContactInput = z.infer<typeof updateContactSchema>;
 
@@ -567,6 +576,156 @@ export const parseContactSchema = z.object({
 });
 export type ParseContactInput = z.infer<typeof parseContactSchema>;
 
+// ============================================================================
+// EMAIL COMPOSER VALIDATION SCHEMAS
+// ============================================================================
+
+/**
+ * Schema for sending an email to a lead or contact from the CRM.
+ * Subject and body may use {{name}}, {{firstName}}, {{email}} and {{company}}.
+ */
+export const sendEmailSchema = z.object({
+	subject: z
+		.string()
+		.trim()
+		.min(1, "Subject is required")
+		.max(500, "Subject must be at most 500 characters"),
+	body: z
+		.string()
+		.trim()
+		.min(1, "Body is required")
+		.max(20000, "Body must be at most 20000 characters"),
+});
+export type SendEmailInput = z.infer<typeof sendEmailSchema>;
+
+/**
+ * Schema for creating an email snippet.
+ */
+export const createEmailSnippetSchema = z.object({
+	name: z
+		.string()
+		.trim()
+		.min(1, "Name is required")
+		.max(255, "Name must be at most 255 characters"),
+	subject: z
+		.string()
+		.trim()
+		.max(500, "Subject must be at most 500 characters")
+		.optional()
+		.nullable(),
+	body: z
+		.string()
+		.trim()
+		.min(1, "Body is required")
+		.max(20000, "Body must be at most 20000 characters"),
+});
+export type CreateEmailSnippetInput = z.infer<typeof createEmailSnippetSchema>;
+
+/**
+ * Schema for updating an email snippet (all fields optional).
+ */
+export const updateEmailSnippetSchema = createEmailSnippetSchema.partial();
+export type UpdateEmailSnippetInput = z.infer<typeof updateEmailSnippetSchema>;
+
+// ============================================================================
+// BOOKINGS VALIDATION SCHEMAS
+// ============================================================================
+
+// Booking status
+const bookingStatusOptions = ["scheduled", "cancelled", "completed"] as const;
+
+/**
+ * Schema for listing Cal.com bookings.
+ * With upcoming=true only scheduled bookings that haven't started are
+ * returned, soonest first; otherwise bookings are listed latest first.
+ */
+export const listBookingsQuerySchema = z.object({
+	limit: z.coerce
+		.number()
+		.int("Limit must be an integer")
+		.positive("Limit must be positive")
+		.max(100, "Maximum 100 items per page")
+		.default(20),
+	leadId: z.string().uuid("Invalid lead ID format").optional(),
+	contactId: z.string().uuid("Invalid contact ID format").optional(),
+	status: z.enum(bookingStatusOptions).optional(),
+	upcoming: z
+		.string()
+		.transform((val) => val === "true")
+		.optional(),
+});
+export type ListBookingsQuery = z.infer<typeof listBookingsQuerySchema>;
+
+// ============================================================================
+// SEQUENCES VALIDATION SCHEMAS
+// ============================================================================
+
+// Sequence enrollment status
+const sequenceEnrollmentStatusOptions = ["active", "paused", "completed"] as const;
+
+/**
+ * Schema for a sequence step: what to do, the interaction type that marks
+ * it done, and the days to wait after the previous step.
+ */
+export const sequenceStepSchema = z.object({
+	action: z
+		.string()
+		.trim()
+		.min(1, "Action is required")
+		.max(255, "Action must be at most 255 characters"),
+	type: z.enum(contactInteractionTypeOptions),
+	delayDays: z
+		.number()
+		.int("Delay must be a whole number of days")
+		.min(0, "Delay cannot be negative")
+		.max(365, "Delay must be at most 365 days"),
+});
+export type SequenceStepInput = z.infer<typeof sequenceStepSchema>;
+
+/**
+ * Schema for creating an outreach sequence.
+ */
+export const createSequenceSchema = z.object({
+	name: z
+		.string()
+		.trim()
+		.min(1, "Name is required")
+		.max(255, "Name must be at most 255 characters"),
+	description: z
+		.string()
+		.max(5000, "Description must be at most 5000 characters")
+		.optional()
+		.nullable(),
+	steps: z
+		.array(sequenceStepSchema)
+		.min(1, "At least one step is required")
+		.max(20, "Maximum 20 steps"),
+});
+export type CreateSequenceInput = z.infer<typeof createSequenceSchema>;
+
+/**
+ * Schema for updating an outreach sequence (all fields optional).
+ */
+export const updateSequenceSchema = createSequenceSchema.partial();
+export type UpdateSequenceInput = z.infer<typeof updateSequenceSchema>;
+
+/**
+ * Schema for enrolling a contact in a sequence.
+ */
+export const enrollContactSchema = z.object({
+	contactId: z.string().uuid("Invalid contact ID format"),
+});
+export type EnrollContactInput = z.infer<typeof enrollContactSchema>;
+
+/**
+ * Schema for listing sequence enrollments.
+ */
+export const listEnrollmentsQuerySchema = z.object({
+	contactId: z.string().uuid("Invalid contact ID format").optional(),
+	status: z.enum(sequenceEnrollmentStatusOptions).optional(),
+});
+export type ListEnrollmentsQuery = z.infer<typeof listEnrollmentsQuerySchema>;
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -0,0 +1,191 @@
+/**
+ * Tests for webhook filter expressions.
+ *
+ * Verifies parsing, validation errors, and evaluation of the filter
+ * language used to decide which events a webhook receives.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	evaluateWebhookFilter,
+	MAX_FILTER_LENGTH,
+	matchesWebhookFilter,
+	parseWebhookFilter,
+	toNumericValue,
+	validateWebhookFilter,
+	WebhookFilterError,
+} from "./webhook-filters";
+
+const lead = {
+	id: "lead-1",
+	name: "Jane Doe",
+	email: "jane@example.com",
+	company: "Acme Inc",
+	phone: null,
+	budget: "$15,000 - $50,000",
+	projectType: "New Product / MVP",
+	message: "We need an app",
+	source: "Contact Form",
+	status: "new",
+};
+
+describe("parseWebhookFilter", () => {
+	it("should parse a single comparison", () => {
+		expect(parseWebhookFilter('source == "Referral"')).toEqual({
+			type: "comparison",
+			field: "source",
+			operator: "==",
+			value: "Referral",
+		});
+	});
+
+	it("should give and higher precedence than or", () => {
+		const node = parseWebhookFilter("status == 'new' or budget > 1 and phone != null");
+
+		expect(node.type).toBe("or");
+		if (node.type === "or") {
+			expect(node.right.type).toBe("and");
+		}
+	});
+
+	it("should parse lists for in", () => {
+		const node = parseWebhookFilter('status in ["new", "contacted", 3, null]');
+
+		expect(node).toMatchObject({ operator: "in", value: ["new", "contacted", 3, null] });
+	});
+
+	it("should accept keywords in any case", () => {
+		expect(() => parseWebhookFilter("NOT (status == 'new' AND phone == NULL)")).not.toThrow();
+	});
+
+	it("should unescape quotes inside strings", () => {
+		expect(parseWebhookFilter('company == "Say \\"hi\\""')).toMatchObject({
+			value: 'Say "hi"',
+		});
+	});
+
+	it("should reject unknown fields when a field list is given", () => {
+		expect(() => parseWebhookFilter("salary > 10", ["budget"])).toThrow('Unknown field "salary"');
+	});
+
+	it("should report the position of syntax errors", () => {
+		try {
+			parseWebhookFilter("status == ");
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(WebhookFilterError);
+			expect((error as WebhookFilterError).position).toBe(10);
+		}
+	});
+
+	it.each([
+		["", "Filter is empty"],
+		["status", "Expected a comparison operator"],
+		["status == 'new' and", "Expected a field name"],
+		["(status == 'new'", 'Expected ")"'],
+		["status == 'new", "Unterminated string"],
+		["status == 'new' budget > 1", "Unexpected token"],
+		["budget > 'high'", '">" requires a number'],
+		["message contains 5", '"contains" requires a string'],
+		["status in 'new'", 'Expected "["'],
+		["status == $5", 'Unexpected character "$"'],
+	])("should reject %j", (source, message) => {
+		expect(() => parseWebhookFilter(source)).toThrow(message);
+	});
+
+	it("should reject expressions over the length limit", () => {
+		const source = `status == "${"a".repeat(MAX_FILTER_LENGTH)}"`;
+
+		expect(() => parseWebhookFilter(source)).toThrow(WebhookFilterError);
+	});
+});
+
+describe("validateWebhookFilter", () => {
+	it("should return null for a valid filter", () => {
+		expect(validateWebhookFilter("budget >= 15000", ["budget"])).toBeNull();
+	});
+
+	it("should return the error message for an invalid filter", () => {
+		expect(validateWebhookFilter("budget >=", ["budget"])).toBe("Expected a value at position 9");
+	});
+});
+
+describe("toNumericValue", () => {
+	it.each([
+		[15000, 15000],
+		["$15,000 - $50,000", 15000],
+		["$100,000+", 100000],
+		["$75k", 75000],
+		["2.5k", 2500],
+		["Not sure yet", null],
+		[null, null],
+		[undefined, null],
+		[Number.NaN, null],
+	])("should convert %j to %j", (value, expected) => {
+		expect(toNumericValue(value)).toBe(expected);
+	});
+});
+
+describe("evaluateWebhookFilter", () => {
+	it("should compare strings case-insensitively", () => {
+		expect(matchesWebhookFilter("source == 'contact form'", lead)).toBe(true);
+		expect(matchesWebhookFilter("source != 'contact form'", lead)).toBe(false);
+	});
+
+	it("should compare budgets by their lower bound", () => {
+		expect(matchesWebhookFilter("budget >= 15000", lead)).toBe(true);
+		expect(matchesWebhookFilter("budget > 15000", lead)).toBe(false);
+		expect(matchesWebhookFilter("budget < 20000", lead)).toBe(true);
+		expect(matchesWebhookFilter("budget <= 14999", lead)).toBe(false);
+	});
+
+	it("should never match numeric comparisons on values without an amount", () => {
+		const unsure = { ...lead, budget: "Not sure yet" };
+
+		expect(matchesWebhookFilter("budget >= 0", unsure)).toBe(false);
+		expect(matchesWebhookFilter("budget < 1000000", unsure)).toBe(false);
+	});
+
+	it("should treat missing fields as null", () => {
+		expect(matchesWebhookFilter("phone == null", lead)).toBe(true);
+		expect(matchesWebhookFilter("notes == null", lead)).toBe(true);
+		expect(matchesWebhookFilter("company == null", lead)).toBe(false);
+	});
+
+	it("should match in against any list element", () => {
+		expect(matchesWebhookFilter("status in ['contacted', 'NEW']", lead)).toBe(true);
+		expect(matchesWebhookFilter("status in []", lead)).toBe(false);
+	});
+
+	it("should match contains as a case-insensitive substring", () => {
+		expect(matchesWebhookFilter("projectType contains 'mvp'", lead)).toBe(true);
+		expect(matchesWebhookFilter("phone contains '555'", lead)).toBe(false);
+	});
+
+	it("should match list fields when any item matches", () => {
+		const tagged = { ...lead, tags: ["VIP", "enterprise"] };
+
+		expect(matchesWebhookFilter("tags == 'vip'", tagged)).toBe(true);
+		expect(matchesWebhookFilter("tags in ['startup', 'enterprise']", tagged)).toBe(true);
+		expect(matchesWebhookFilter("tags contains 'enter'", tagged)).toBe(true);
+		expect(matchesWebhookFilter("tags != 'vip'", tagged)).toBe(false);
+		expect(matchesWebhookFilter("tags == null", { ...lead, tags: [] })).toBe(true);
+	});
+
+	it("should combine and, or, not and parentheses", () => {
+		expect(
+			matchesWebhookFilter(
+				"budget >= 50000 or (source == 'Contact Form' and not status == 'lost')",
+				lead,
+			),
+		).toBe(true);
+		expect(matchesWebhookFilter("not (budget >= 15000 and status == 'new')", lead)).toBe(false);
+	});
+
+	it("should compare booleans exactly", () => {
+		const node = parseWebhookFilter("active == true");
+
+		expect(evaluateWebhookFilter(node, { active: true })).toBe(true);
+		expect(evaluateWebhookFilter(node, { active: "true" })).toBe(false);
+	});
+});
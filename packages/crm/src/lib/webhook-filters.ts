@@ -0,0 +1,495 @@
+/**
+ * Filter expressions for webhook subscriptions.
+ *
+ * A webhook can carry a small boolean expression that is evaluated against
+ * the event's record before delivery, for example:
+ *
+ *   budget >= 15000 and source == "Contact Form"
+ *   status in ["new", "contacted"] and not phone == null
+ *   projectType contains "mvp" or company != null
+ *   tags contains "vip"
+ *
+ * Supported syntax:
+ * - Comparisons: ==, !=, >, >=, <, <=, in [...], contains
+ * - Boolean operators: and, or, not (case-insensitive), parentheses
+ * - Literals: "double" or 'single' quoted strings, numbers, true, false, null
+ *
+ * String comparisons are case-insensitive. Numeric comparisons coerce string
+ * fields to the first amount they contain ("$15,000 - $50,000" compares as
+ * 15000, "$75k" as 75000); fields without an amount never match. List fields
+ * (e.g. tags) match when any of their items does, so `tags == "vip"` and
+ * `tags contains "vip"` both test for a tag.
+ *
+ * Expressions are parsed into an AST and interpreted - nothing is ever
+ * evaluated as code.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Comparison operators supported in filter expressions.
+ */
+export type FilterComparisonOperator = "==" | "!=" | ">" | ">=" | "<" | "<=" | "in" | "contains";
+
+/**
+ * Literal value in a filter expression.
+ */
+export type FilterLiteral = string | number | boolean | null;
+
+/**
+ * Parsed filter expression.
+ */
+export type WebhookFilterNode =
+	| { type: "and" | "or"; left: WebhookFilterNode; right: WebhookFilterNode }
+	| { type: "not"; operand: WebhookFilterNode }
+	| {
+			type: "comparison";
+			field: string;
+			operator: FilterComparisonOperator;
+			value: FilterLiteral | FilterLiteral[];
+	  };
+
+/**
+ * Error thrown when a filter expression cannot be parsed.
+ */
+export class WebhookFilterError extends Error {
+	/** Character offset in the expression where the error was found */
+	public readonly position: number;
+
+	constructor(message: string, position: number) {
+		super(`${message} at position ${position}`);
+		this.name = "WebhookFilterError";
+		this.position = position;
+	}
+}
+
+/**
+ * Maximum filter expression length accepted by the parser.
+ */
+export const MAX_FILTER_LENGTH = 1000;
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type Token =
+	| { kind: "identifier"; value: string; position: number }
+	| { kind: "string"; value: string; position: number }
+	| { kind: "number"; value: number; position: number }
+	| { kind: "operator"; value: string; position: number }
+	| { kind: "punctuation"; value: "(" | ")" | "[" | "]" | ","; position: number }
+	| { kind: "end"; position: number };
+
+const COMPARISON_SYMBOLS = ["==", "!=", ">=", "<=", ">", "<"];
+
+/**
+ * Split a filter expression into tokens.
+ */
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < source.length) {
+		const char = source[i];
+
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+
+		if (char === "(" || char === ")" || char === "[" || char === "]" || char === ",") {
+			tokens.push({ kind: "punctuation", value: char, position: i });
+			i++;
+			continue;
+		}
+
+		const symbol = COMPARISON_SYMBOLS.find((op) => source.startsWith(op, i));
+		if (symbol) {
+			tokens.push({ kind: "operator", value: symbol, position: i });
+			i += symbol.length;
+			continue;
+		}
+
+		if (char === '"' || char === "'") {
+			const start = i;
+			let value = "";
+			i++;
+			while (i < source.length && source[i] !== char) {
+				if (source[i] === "\\" && i + 1 < source.length) {
+					i++;
+				}
+				value += source[i];
+				i++;
+			}
+			if (i >= source.length) {
+				throw new WebhookFilterError("Unterminated string", start);
+			}
+			i++;
+			tokens.push({ kind: "string", value, position: start });
+			continue;
+		}
+
+		const number = /^-?\d+(\.\d+)?/.exec(source.slice(i));
+		if (number) {
+			tokens.push({ kind: "number", value: Number(number[0]), position: i });
+			i += number[0].length;
+			continue;
+		}
+
+		const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+		if (identifier) {
+			tokens.push({ kind: "identifier", value: identifier[0], position: i });
+			i += identifier[0].length;
+			continue;
+		}
+
+		throw new WebhookFilterError(`Unexpected character "${char}"`, i);
+	}
+
+	tokens.push({ kind: "end", position: source.length });
+	return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+const KEYWORDS = new Set(["and", "or", "not", "in", "contains", "true", "false", "null"]);
+
+/**
+ * Recursive descent parser over the token list.
+ *
+ * Precedence, lowest first: or, and, not, comparison.
+ */
+class FilterParser {
+	private index = 0;
+
+	constructor(
+		private readonly tokens: Token[],
+		private readonly fields: ReadonlySet<string> | null,
+	) {}
+
+	parse(): WebhookFilterNode {
+		const node = this.parseOr();
+		const next = this.peek();
+		if (next.kind !== "end") {
+			throw new WebhookFilterError("Unexpected token", next.position);
+		}
+		return node;
+	}
+
+	private peek(): Token {
+		return this.tokens[this.index];
+	}
+
+	private advance(): Token {
+		const token = this.tokens[this.index];
+		if (token.kind !== "end") {
+			this.index++;
+		}
+		return token;
+	}
+
+	private isKeyword(keyword: string): boolean {
+		const token = this.peek();
+		return token.kind === "identifier" && token.value.toLowerCase() === keyword;
+	}
+
+	private isPunctuation(value: string): boolean {
+		const token = this.peek();
+		return token.kind === "punctuation" && token.value === value;
+	}
+
+	private expectPunctuation(value: string): void {
+		const token = this.advance();
+		if (token.kind !== "punctuation" || token.value !== value) {
+			throw new WebhookFilterError(`Expected "${value}"`, token.position);
+		}
+	}
+
+	private parseOr(): WebhookFilterNode {
+		let left = this.parseAnd();
+		while (this.isKeyword("or")) {
+			this.advance();
+			left = { type: "or", left, right: this.parseAnd() };
+		}
+		return left;
+	}
+
+	private parseAnd(): WebhookFilterNode {
+		let left = this.parseNot();
+		while (this.isKeyword("and")) {
+			this.advance();
+			left = { type: "and", left, right: this.parseNot() };
+		}
+		return left;
+	}
+
+	private parseNot(): WebhookFilterNode {
+		if (this.isKeyword("not")) {
+			this.advance();
+			return { type: "not", operand: this.parseNot() };
+		}
+		return this.parsePrimary();
+	}
+
+	private parsePrimary(): WebhookFilterNode {
+		if (this.isPunctuation("(")) {
+			this.advance();
+			const node = this.parseOr();
+			this.expectPunctuation(")");
+			return node;
+		}
+		return this.parseComparison();
+	}
+
+	private parseComparison(): WebhookFilterNode {
+		const fieldToken = this.advance();
+		if (fieldToken.kind !== "identifier" || KEYWORDS.has(fieldToken.value.toLowerCase())) {
+			throw new WebhookFilterError("Expected a field name", fieldToken.position);
+		}
+		if (this.fields && !this.fields.has(fieldToken.value)) {
+			throw new WebhookFilterError(`Unknown field "${fieldToken.value}"`, fieldToken.position);
+		}
+
+		const operatorToken = this.advance();
+		let operator: FilterComparisonOperator;
+		if (operatorToken.kind === "operator") {
+			operator = operatorToken.value as FilterComparisonOperator;
+		} else if (
+			operatorToken.kind === "identifier" &&
+			(operatorToken.value.toLowerCase() === "in" ||
+				operatorToken.value.toLowerCase() === "contains")
+		) {
+			operator = operatorToken.value.toLowerCase() as FilterComparisonOperator;
+		} else {
+			throw new WebhookFilterError("Expected a comparison operator", operatorToken.position);
+		}
+
+		const valuePosition = this.peek().position;
+		let value: FilterLiteral | FilterLiteral[];
+
+		if (operator === "in") {
+			value = this.parseList();
+		} else {
+			value = this.parseLiteral();
+			if (operator === "contains" && typeof value !== "string") {
+				throw new WebhookFilterError('"contains" requires a string', valuePosition);
+			}
+			if (
+				(operator === ">" || operator === ">=" || operator === "<" || operator === "<=") &&
+				typeof value !== "number"
+			) {
+				throw new WebhookFilterError(`"${operator}" requires a number`, valuePosition);
+			}
+		}
+
+		return { type: "comparison", field: fieldToken.value, operator, value };
+	}
+
+	private parseList(): FilterLiteral[] {
+		this.expectPunctuation("[");
+		const values: FilterLiteral[] = [];
+		if (!this.isPunctuation("]")) {
+			values.push(this.parseLiteral());
+			while (this.isPunctuation(",")) {
+				this.advance();
+				values.push(this.parseLiteral());
+			}
+		}
+		this.expectPunctuation("]");
+		return values;
+	}
+
+	private parseLiteral(): FilterLiteral {
+		const token = this.advance();
+		if (token.kind === "string" || token.kind === "number") {
+			return token.value;
+		}
+		if (token.kind === "identifier") {
+			const keyword = token.value.toLowerCase();
+			if (keyword === "true") return true;
+			if (keyword === "false") return false;
+			if (keyword === "null") return null;
+		}
+		throw new WebhookFilterError("Expected a value", token.position);
+	}
+}
+
+/**
+ * Parse a filter expression.
+ *
+ * @param source - The filter expression
+ * @param fields - Field names the expression may reference (any when omitted)
+ * @returns The parsed expression
+ * @throws WebhookFilterError if the expression is invalid
+ *
+ * @example
+ * ```ts
+ * const filter = parseWebhookFilter('budget >= 15000 and source == "Referral"');
+ * ```
+ */
+export function parseWebhookFilter(source: string, fields?: readonly string[]): WebhookFilterNode {
+	if (source.length > MAX_FILTER_LENGTH) {
+		throw new WebhookFilterError(
+			`Filter must be at most ${MAX_FILTER_LENGTH} characters`,
+			MAX_FILTER_LENGTH,
+		);
+	}
+	if (!source.trim()) {
+		throw new WebhookFilterError("Filter is empty", 0);
+	}
+
+	return new FilterParser(tokenize(source), fields ? new Set(fields) : null).parse();
+}
+
+/**
+ * Check a filter expression without evaluating it.
+ *
+ * @param source - The filter expression
+ * @param fields - Field names the expression may reference (any when omitted)
+ * @returns Error message, or null if the expression is valid
+ */
+export function validateWebhookFilter(source: string, fields?: readonly string[]): string | null {
+	try {
+		parseWebhookFilter(source, fields);
+		return null;
+	} catch (error) {
+		if (error instanceof WebhookFilterError) {
+			return error.message;
+		}
+		throw error;
+	}
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Extract the first amount from a value, for numeric comparisons.
+ *
+ * @param value - Field value
+ * @returns The amount, or null if the value has none
+ *
+ * @example
+ * ```ts
+ * toNumericValue("$15,000 - $50,000"); // 15000
+ * toNumericValue("$75k"); // 75000
+ * toNumericValue("Not sure yet"); // null
+ * ```
+ */
+export function toNumericValue(value: unknown): number | null {
+	if (typeof value === "number") {
+		return Number.isFinite(value) ? value : null;
+	}
+	if (typeof value !== "string") {
+		return null;
+	}
+
+	const match = /(\d[\d,]*(?:\.\d+)?)\s*(k)?/i.exec(value);
+	if (!match) {
+		return null;
+	}
+
+	const amount = Number(match[1].replace(/,/g, ""));
+	return match[2] ? amount * 1000 : amount;
+}
+
+/**
+ * Equality used by ==, != and in.
+ */
+function valuesEqual(actual: unknown, expected: FilterLiteral): boolean {
+	if (expected === null) {
+		return (
+			actual === null || actual === undefined || (Array.isArray(actual) && actual.length === 0)
+		);
+	}
+	if (Array.isArray(actual)) {
+		return actual.some((item) => valuesEqual(item, expected));
+	}
+	if (typeof expected === "number") {
+		return toNumericValue(actual) === expected;
+	}
+	if (typeof expected === "string" && typeof actual === "string") {
+		return actual.toLowerCase() === expected.toLowerCase();
+	}
+	return actual === expected;
+}
+
+function evaluateComparison(
+	node: Extract<WebhookFilterNode, { type: "comparison" }>,
+	record: Record<string, unknown>,
+): boolean {
+	const actual = record[node.field];
+	const expected = node.value;
+
+	switch (node.operator) {
+		case "==":
+			return valuesEqual(actual, expected as FilterLiteral);
+		case "!=":
+			return !valuesEqual(actual, expected as FilterLiteral);
+		case "in":
+			return (expected as FilterLiteral[]).some((value) => valuesEqual(actual, value));
+		case "contains":
+			return (Array.isArray(actual) ? actual : [actual]).some(
+				(item) =>
+					typeof item === "string" && item.toLowerCase().includes(String(expected).toLowerCase()),
+			);
+		default: {
+			const amount = toNumericValue(actual);
+			if (amount === null) {
+				return false;
+			}
+			const threshold = expected as number;
+			if (node.operator === ">") return amount > threshold;
+			if (node.operator === ">=") return amount >= threshold;
+			if (node.operator === "<") return amount < threshold;
+			return amount <= threshold;
+		}
+	}
+}
+
+/**
+ * Evaluate a parsed filter expression against a record.
+ *
+ * Missing fields behave like null.
+ *
+ * @param node - The parsed expression
+ * @param record - The record to test
+ * @returns True if the record matches
+ */
+export function evaluateWebhookFilter(
+	node: WebhookFilterNode,
+	record: Record<string, unknown>,
+): boolean {
+	switch (node.type) {
+		case "and":
+			return evaluateWebhookFilter(node.left, record) && evaluateWebhookFilter(node.right, record);
+		case "or":
+			return evaluateWebhookFilter(node.left, record) || evaluateWebhookFilter(node.right, record);
+		case "not":
+			return !evaluateWebhookFilter(node.operand, record);
+		case "comparison":
+			return evaluateComparison(node, record);
+	}
+}
+
+/**
+ * Parse and evaluate a filter expression in one step.
+ *
+ * @param source - The filter expression
+ * @param record - The record to test
+ * @returns True if the record matches
+ * @throws WebhookFilterError if the expression is invalid
+ *
+ * @example
+ * ```ts
+ * matchesWebhookFilter("budget >= 15000", { budget: "$15,000 - $50,000" }); // true
+ * ```
+ */
+export function matchesWebhookFilter(source: string, record: Record<string, unknown>): boolean {
+	return evaluateWebhookFilter(parseWebhookFilter(source), record);
+}
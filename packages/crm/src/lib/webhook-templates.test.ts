@@ -0,0 +1,134 @@
+/**
+ * Tests for webhook body templates.
+ *
+ * Verifies template validation and rendering of payload values into
+ * custom JSON bodies.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	MAX_TEMPLATE_LENGTH,
+	parseWebhookTemplate,
+	renderWebhookTemplate,
+	validateWebhookTemplate,
+	WebhookTemplateError,
+} from "./webhook-templates";
+
+const payload = {
+	id: "evt_123",
+	event: "lead.created",
+	data: {
+		lead: {
+			name: "Jane Doe",
+			email: "jane@example.com",
+			phone: null,
+			tags: ["react", "node"],
+		},
+	},
+};
+
+describe("parseWebhookTemplate", () => {
+	it("should return the parsed JSON", () => {
+		expect(parseWebhookTemplate('{"text": "{{data.lead.name}}"}')).toEqual({
+			text: "{{data.lead.name}}",
+		});
+	});
+
+	it("should reject invalid JSON", () => {
+		expect(() => parseWebhookTemplate('{"text": {{data.lead.name}}}')).toThrow(
+			"Template must be valid JSON",
+		);
+	});
+
+	it("should reject malformed placeholders", () => {
+		expect(() => parseWebhookTemplate('{"text": "{{data.lead[0]}}"}')).toThrow(
+			'Invalid placeholder "{{data.lead[0]}}"',
+		);
+		expect(() => parseWebhookTemplate('{"text": "{{ }}"}')).toThrow(WebhookTemplateError);
+	});
+
+	it("should check placeholders in object keys", () => {
+		expect(() => parseWebhookTemplate('{"{{bad path}}": 1}')).toThrow(WebhookTemplateError);
+	});
+
+	it("should reject templates over the length limit", () => {
+		const template = JSON.stringify({ text: "a".repeat(MAX_TEMPLATE_LENGTH) });
+
+		expect(() => parseWebhookTemplate(template)).toThrow("Template must be at most");
+	});
+});
+
+describe("validateWebhookTemplate", () => {
+	it("should return null for a valid template", () => {
+		expect(validateWebhookTemplate('{"text": "New lead: {{data.lead.name}}"}')).toBeNull();
+	});
+
+	it("should return the error message for an invalid template", () => {
+		expect(validateWebhookTemplate("not json")).toMatch(/^Template must be valid JSON/);
+	});
+});
+
+describe("renderWebhookTemplate", () => {
+	it("should interpolate placeholders inside strings", () => {
+		const body = renderWebhookTemplate(
+			'{"text": "New lead: {{ data.lead.name }} <{{data.lead.email}}>"}',
+			payload,
+		);
+
+		expect(JSON.parse(body)).toEqual({ text: "New lead: Jane Doe <jane@example.com>" });
+	});
+
+	it("should keep the type of whole-string placeholders", () => {
+		const body = renderWebhookTemplate(
+			'{"lead": "{{data.lead}}", "tags": "{{data.lead.tags}}", "phone": "{{data.lead.phone}}"}',
+			payload,
+		);
+
+		expect(JSON.parse(body)).toEqual({
+			lead: payload.data.lead,
+			tags: ["react", "node"],
+			phone: null,
+		});
+	});
+
+	it("should render missing values as empty text or null", () => {
+		const body = renderWebhookTemplate(
+			'{"text": "Company: {{data.lead.company}}", "company": "{{data.lead.company}}"}',
+			payload,
+		);
+
+		expect(JSON.parse(body)).toEqual({ text: "Company: ", company: null });
+	});
+
+	it("should support array indices and nested structures", () => {
+		const body = renderWebhookTemplate(
+			'{"blocks": [{"type": "section", "text": {"text": "First tag: {{data.lead.tags.0}}"}}], "n": 1}',
+			payload,
+		);
+
+		expect(JSON.parse(body)).toEqual({
+			blocks: [{ type: "section", text: { text: "First tag: react" } }],
+			n: 1,
+		});
+	});
+
+	it("should interpolate object keys as text", () => {
+		const body = renderWebhookTemplate('{"{{event}}": true}', payload);
+
+		expect(JSON.parse(body)).toEqual({ "lead.created": true });
+	});
+
+	it("should escape payload values instead of injecting JSON", () => {
+		const body = renderWebhookTemplate('{"text": "{{data.lead.name}}!"}', {
+			data: { lead: { name: '", "admin": true, "x": "' } },
+		});
+
+		expect(JSON.parse(body)).toEqual({ text: '", "admin": true, "x": "!' });
+	});
+
+	it("should not resolve inherited properties", () => {
+		const body = renderWebhookTemplate('{"x": "{{data.constructor}}"}', payload);
+
+		expect(JSON.parse(body)).toEqual({ x: null });
+	});
+});
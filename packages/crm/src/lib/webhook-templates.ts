@@ -0,0 +1,209 @@
+/**
+ * Body templates for webhook deliveries.
+ *
+ * Targets such as Slack or Google Chat expect their own JSON shape instead
+ * of the standard webhook payload. A template is a JSON document whose
+ * strings may contain {{path}} placeholders into the payload:
+ *
+ *   {
+ *     "text": "New lead: {{data.lead.name}} ({{data.lead.email}})",
+ *     "lead": "{{data.lead}}"
+ *   }
+ *
+ * - A string that is exactly one placeholder is replaced by the raw value,
+ *   so objects, numbers and booleans keep their type ("lead" above)
+ * - Placeholders inside longer strings are interpolated as text; objects are
+ *   inserted as JSON and missing values as an empty string
+ * - Missing values for whole-string placeholders become null
+ *
+ * The template is parsed as JSON before rendering and values are inserted
+ * into the parsed structure, so payload content can never change the shape
+ * of the rendered body.
+ */
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+/**
+ * Error thrown when a body template is invalid.
+ */
+export class WebhookTemplateError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "WebhookTemplateError";
+	}
+}
+
+/**
+ * Maximum body template length.
+ */
+export const MAX_TEMPLATE_LENGTH = 10_000;
+
+/**
+ * Matches {{path}} placeholders. Paths are dot-separated identifiers or indices.
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Matches a string consisting of a single placeholder.
+ */
+const WHOLE_PLACEHOLDER_PATTERN = /^\{\{\s*([^{}]*?)\s*\}\}$/;
+
+/**
+ * Valid placeholder path, e.g. "data.lead.name" or "data.lead.tags.0".
+ */
+const PATH_PATTERN = /^[A-Za-z_$][\w$]*(\.[\w$]+)*$/;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Collect every placeholder path used in a parsed template.
+ */
+function collectPaths(node: unknown, paths: string[]): void {
+	if (typeof node === "string") {
+		for (const match of node.matchAll(PLACEHOLDER_PATTERN)) {
+			paths.push(match[1]);
+		}
+	} else if (Array.isArray(node)) {
+		for (const item of node) collectPaths(item, paths);
+	} else if (node && typeof node === "object") {
+		for (const [key, value] of Object.entries(node)) {
+			collectPaths(key, paths);
+			collectPaths(value, paths);
+		}
+	}
+}
+
+/**
+ * Parse a body template and check its placeholders.
+ *
+ * @param source - The template source (JSON with placeholders)
+ * @returns The parsed template
+ * @throws WebhookTemplateError if the template is invalid
+ *
+ * @example
+ * ```ts
+ * const template = parseWebhookTemplate('{"text": "{{data.lead.name}}"}');
+ * ```
+ */
+export function parseWebhookTemplate(source: string): unknown {
+	if (source.length > MAX_TEMPLATE_LENGTH) {
+		throw new WebhookTemplateError(`Template must be at most ${MAX_TEMPLATE_LENGTH} characters`);
+	}
+
+	let template: unknown;
+	try {
+		template = JSON.parse(source);
+	} catch (error) {
+		throw new WebhookTemplateError(`Template must be valid JSON: ${(error as Error).message}`);
+	}
+
+	const paths: string[] = [];
+	collectPaths(template, paths);
+	for (const path of paths) {
+		if (!PATH_PATTERN.test(path)) {
+			throw new WebhookTemplateError(`Invalid placeholder "{{${path}}}"`);
+		}
+	}
+
+	return template;
+}
+
+/**
+ * Check a body template without rendering it.
+ *
+ * @param source - The template source
+ * @returns Error message, or null if the template is valid
+ */
+export function validateWebhookTemplate(source: string): string | null {
+	try {
+		parseWebhookTemplate(source);
+		return null;
+	} catch (error) {
+		if (error instanceof WebhookTemplateError) {
+			return error.message;
+		}
+		throw error;
+	}
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Look up a dot-separated path in a value.
+ */
+function resolvePath(context: unknown, path: string): unknown {
+	let value: unknown = context;
+	for (const key of path.split(".")) {
+		if (value === null || typeof value !== "object" || !Object.hasOwn(value, key)) {
+			return undefined;
+		}
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value;
+}
+
+/**
+ * Convert a value for interpolation into a longer string.
+ */
+function toText(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	if (typeof value === "object") return JSON.stringify(value);
+	return String(value);
+}
+
+/**
+ * Replace every placeholder in a string with its value as text.
+ */
+function interpolate(text: string, context: unknown): string {
+	return text.replace(PLACEHOLDER_PATTERN, (_, path: string) => toText(resolvePath(context, path)));
+}
+
+/**
+ * Render one node of a parsed template.
+ */
+function renderNode(node: unknown, context: unknown): unknown {
+	if (typeof node === "string") {
+		const whole = WHOLE_PLACEHOLDER_PATTERN.exec(node);
+		if (whole) {
+			return resolvePath(context, whole[1]) ?? null;
+		}
+		return interpolate(node, context);
+	}
+	if (Array.isArray(node)) {
+		return node.map((item) => renderNode(item, context));
+	}
+	if (node && typeof node === "object") {
+		return Object.fromEntries(
+			Object.entries(node).map(([key, value]) => [
+				interpolate(key, context),
+				renderNode(value, context),
+			]),
+		);
+	}
+	return node;
+}
+
+/**
+ * Render a body template against a payload.
+ *
+ * @param source - The template source
+ * @param context - The value placeholders resolve against (usually the webhook payload)
+ * @returns The rendered JSON body
+ * @throws WebhookTemplateError if the template is invalid
+ *
+ * @example
+ * ```ts
+ * const body = renderWebhookTemplate('{"text": "New lead: {{data.lead.name}}"}', payload);
+ * // '{"text":"New lead: John Doe"}'
+ * ```
+ */
+export function renderWebhookTemplate(source: string, context: unknown): string {
+	const template = parseWebhookTemplate(source);
+	return JSON.stringify(renderNode(template, context));
+}
@@ -0,0 +1,188 @@
+/**
+ * Tests for outgoing URL safety checks.
+ *
+ * Verifies the HTTPS requirement, private IP blocking and DNS resolution
+ * checks shared by webhooks and push notifications.
+ */
+
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+
+vi.mock("dns/promises", () => ({
+	lookup: vi.fn(() => Promise.resolve([{ address: "1.2.3.4", family: 4 }])),
+}));
+
+import { resolvesToPrivateIp, validateWebhookUrl } from "./webhook-urls";
+
+describe("validateWebhookUrl", () => {
+	describe("HTTPS requirement", () => {
+		it("should accept valid HTTPS URLs", () => {
+			const result = validateWebhookUrl("https://hooks.example.com/webhook");
+
+			expect(result.valid).toBe(true);
+			expect(result.error).toBeUndefined();
+		});
+
+		it("should reject HTTP URLs", () => {
+			const result = validateWebhookUrl("http://hooks.example.com/webhook");
+
+			expect(result.valid).toBe(false);
+			expect(result.error).toBe("URL must use HTTPS protocol");
+		});
+
+		it("should reject other protocols", () => {
+			expect(validateWebhookUrl("ftp://example.com/file").valid).toBe(false);
+			expect(validateWebhookUrl("file:///etc/passwd").valid).toBe(false);
+			expect(validateWebhookUrl("javascript:alert(1)").valid).toBe(false);
+		});
+	});
+
+	describe("Private IP blocking", () => {
+		it("should block 10.x.x.x (Class A private)", () => {
+			expect(validateWebhookUrl("https://10.0.0.1/webhook").valid).toBe(false);
+			expect(validateWebhookUrl("https://10.255.255.255/webhook").valid).toBe(false);
+			expect(validateWebhookUrl("https://10.1.2.3/webhook").error).toBe(
+				"Webhooks to private IP addresses or localhost are not allowed",
+			);
+		});
+
+		it("should block 192.168.x.x (Class C private)", () => {
+			expect(validateWebhookUrl("https://192.168.0.1/webhook").valid).toBe(false);
+			expect(validateWebhookUrl("https://192.168.1.100/webhook").valid).toBe(false);
+			expect(validateWebhookUrl("https://192.168.255.255/webhook").valid).toBe(false);
+		});
+
+		it("should block 172.16-31.x.x (Class B private)", () => {
+			expect(validateWebhookUrl("https://172.16.0.1/webhook").valid).toBe(false);
+			expect(validateWebhookUrl("https://172.20.5.10/webhook").valid).toBe(false);
+			expect(validateWebhookUrl("https://172.31.255.255/webhook").valid).toBe(false);
+		});
+
+		it("should allow 172.15.x.x and 172.32.x.x (not private)", () => {
+			expect(validateWebhookUrl("https://172.15.0.1/webhook").valid).toBe(true);
+			expect(validateWebhookUrl("https://172.32.0.1/webhook").valid).toBe(true);
+		});
+
+		it("should block 127.x.x.x (loopback)", () => {
+			expect(validateWebhookUrl("https://127.0.0.1/webhook").valid).toBe(false);
+			expect(validateWebhookUrl("https://127.1.2.3/webhook").valid).toBe(false);
+		});
+
+		it("should block localhost", () => {
+			expect(validateWebhookUrl("https://localhost/webhook").valid).toBe(false);
+			expect(validateWebhookUrl("https://LOCALHOST/webhook").valid).toBe(false);
+			expect(validateWebhookUrl("https://LocalHost:8080/webhook").valid).toBe(false);
+		});
+
+		it("should block IPv6 loopback", () => {
+			expect(validateWebhookUrl("https://[::1]/webhook").valid).toBe(false);
+			expect(validateWebhookUrl("https://[::1]:8080/webhook").valid).toBe(false);
+		});
+
+		it("should block 0.x.x.x", () => {
+			expect(validateWebhookUrl("https://0.0.0.0/webhook").valid).toBe(false);
+		});
+
+		it("should block 169.254.x.x (link-local)", () => {
+			expect(validateWebhookUrl("https://169.254.0.1/webhook").valid).toBe(false);
+			expect(validateWebhookUrl("https://169.254.169.254/webhook").valid).toBe(false);
+		});
+	});
+
+	describe("Valid public URLs", () => {
+		it("should accept valid public domain URLs", () => {
+			expect(validateWebhookUrl("https://hooks.zapier.com/webhook").valid).toBe(true);
+			expect(validateWebhookUrl("https://api.example.com/webhooks/abc123").valid).toBe(true);
+			expect(validateWebhookUrl("https://webhook.site/test").valid).toBe(true);
+		});
+
+		it("should accept URLs with ports", () => {
+			expect(validateWebhookUrl("https://hooks.example.com:443/webhook").valid).toBe(true);
+			expect(validateWebhookUrl("https://hooks.example.com:8443/webhook").valid).toBe(true);
+		});
+
+		it("should accept URLs with query parameters", () => {
+			const result = validateWebhookUrl("https://hooks.example.com/webhook?token=abc123");
+			expect(result.valid).toBe(true);
+		});
+
+		it("should accept URLs with paths", () => {
+			expect(validateWebhookUrl("https://example.com/api/v1/webhooks/lead").valid).toBe(true);
+		});
+
+		it("should accept public IP addresses", () => {
+			expect(validateWebhookUrl("https://8.8.8.8/webhook").valid).toBe(true);
+			expect(validateWebhookUrl("https://1.2.3.4/webhook").valid).toBe(true);
+		});
+	});
+
+	describe("Invalid URL formats", () => {
+		it("should reject invalid URL format", () => {
+			const result = validateWebhookUrl("not-a-valid-url");
+
+			expect(result.valid).toBe(false);
+			expect(result.error).toBe("Invalid URL format");
+		});
+
+		it("should reject empty string", () => {
+			expect(validateWebhookUrl("").valid).toBe(false);
+		});
+
+		it("should reject URLs without protocol", () => {
+			expect(validateWebhookUrl("example.com/webhook").valid).toBe(false);
+		});
+	});
+});
+
+describe("resolvesToPrivateIp", () => {
+	beforeEach(() => {
+		vi.resetModules();
+	});
+
+	it("should return false for public IP addresses", async () => {
+		const dns = await import("node:dns/promises");
+		(dns.lookup as Mock).mockResolvedValueOnce([{ address: "93.184.216.34", family: 4 }]);
+
+		const result = await resolvesToPrivateIp("example.com");
+
+		expect(result).toBe(false);
+	});
+
+	it("should return true for private IP addresses", async () => {
+		const dns = await import("node:dns/promises");
+		(dns.lookup as Mock).mockResolvedValueOnce([{ address: "192.168.1.1", family: 4 }]);
+
+		const result = await resolvesToPrivateIp("internal.local");
+
+		expect(result).toBe(true);
+	});
+
+	it("should return true for loopback addresses", async () => {
+		const dns = await import("node:dns/promises");
+		(dns.lookup as Mock).mockResolvedValueOnce([{ address: "127.0.0.1", family: 4 }]);
+
+		const result = await resolvesToPrivateIp("localhost");
+
+		expect(result).toBe(true);
+	});
+
+	it("should check all resolved addresses", async () => {
+		const dns = await import("node:dns/promises");
+		(dns.lookup as Mock).mockResolvedValueOnce([
+			{ address: "93.184.216.34", family: 4 },
+			{ address: "192.168.1.1", family: 4 }, // This is private
+		]);
+
+		const result = await resolvesToPrivateIp("dual-homed.example.com");
+
+		expect(result).toBe(true);
+	});
+
+	it("should return false when DNS lookup fails", async () => {
+		const dns = await import("node:dns/promises");
+		(dns.lookup as Mock).mockRejectedValueOnce(new Error("DNS lookup failed"));
+
+		const result = await resolvesToPrivateIp("nonexistent.invalid");
+
+		expect(result).toBe(false);
+	});
+});
@@ -0,0 +1,113 @@
+/**
+ * URL safety checks for outgoing requests.
+ *
+ * Webhook deliveries and push notification channels POST to user-supplied
+ * URLs, so both apply the same rules against server-side request forgery:
+ * - Only HTTPS URLs are allowed
+ * - Private IP addresses and localhost are blocked
+ * - Hosts that resolve to a private IP address are refused at send time
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Private IP address patterns to block.
+ */
+const PRIVATE_IP_PATTERNS = [
+	/^10\./,
+	/^192\.168\./,
+	/^172\.(1[6-9]|2[0-9]|3[0-1])\./,
+	/^127\./,
+	/^0\./,
+	/^169\.254\./,
+	/^\[?::1\]?$/,
+	/^fc00:/i,
+	/^fe80:/i,
+	/^localhost$/i,
+];
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a webhook URL for security.
+ *
+ * Requirements:
+ * - Must be HTTPS
+ * - Must not point to private IP addresses
+ * - Must not point to localhost
+ *
+ * @param url - The URL to validate
+ * @returns Object with valid flag and optional error message
+ *
+ * @example
+ * ```ts
+ * const result = validateWebhookUrl("https://hooks.example.com/webhook");
+ * if (!result.valid) throw new Error(result.error);
+ * ```
+ */
+export function validateWebhookUrl(url: string): {
+	valid: boolean;
+	error?: string;
+} {
+	let parsedUrl: URL;
+
+	try {
+		parsedUrl = new URL(url);
+	} catch {
+		return { valid: false, error: "Invalid URL format" };
+	}
+
+	// Must be HTTPS
+	if (parsedUrl.protocol !== "https:") {
+		return { valid: false, error: "URL must use HTTPS protocol" };
+	}
+
+	const hostname = parsedUrl.hostname;
+
+	// Check for private IPs and localhost
+	for (const pattern of PRIVATE_IP_PATTERNS) {
+		if (pattern.test(hostname)) {
+			return {
+				valid: false,
+				error: "Webhooks to private IP addresses or localhost are not allowed",
+			};
+		}
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Check if a hostname resolves to a private IP address.
+ * This performs DNS lookup to detect SSRF attempts.
+ *
+ * Note: This is an async check that should be done before delivery.
+ *
+ * @param hostname - The hostname to check
+ * @returns true if hostname resolves to a private IP
+ */
+export async function resolvesToPrivateIp(hostname: string): Promise<boolean> {
+	try {
+		// Use dynamic import for dns/promises to avoid issues in non-Node environments
+		const dns = await import("node:dns/promises");
+		const addresses = await dns.lookup(hostname, { all: true });
+
+		for (const addr of addresses) {
+			for (const pattern of PRIVATE_IP_PATTERNS) {
+				if (pattern.test(addr.address)) {
+					return true;
+				}
+			}
+		}
+
+		return false;
+	} catch {
+		// If DNS lookup fails, allow the request to proceed
+		// The HTTP request will fail naturally
+		return false;
+	}
+}
@@ -0,0 +1,203 @@
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import * as schema from "../db/schema";
+
+/**
+ * Webhook delivery log tests against a real database.
+ *
+ * Replay and retention select rows with SQL that the mocked tests in
+ * webhooks.test.ts cannot exercise, so these run the queries for real.
+ *
+ * Requires DATABASE_URL with the schema applied via db:push.
+ */
+
+const DATABASE_URL = process.env.DATABASE_URL;
+const shouldSkip = !DATABASE_URL;
+
+describe.skipIf(shouldSkip)("Webhook delivery log", () => {
+	// Imported lazily: the connection module throws without DATABASE_URL
+	let db: typeof import("../db").db;
+	let sql: typeof import("../db/connection").sql;
+	let purgeWebhookDeliveries: typeof import("./webhooks").purgeWebhookDeliveries;
+	let replayFailedDeliveries: typeof import("./webhooks").replayFailedDeliveries;
+	let webhookId: string;
+
+	const range = {
+		from: new Date("2025-01-14T00:00:00Z"),
+		to: new Date("2025-01-15T00:00:00Z"),
+	};
+
+	function payloadWithId(id: string) {
+		return { id, event: "lead.created", timestamp: "2025-01-14T00:00:00Z", data: {} };
+	}
+
+	async function insertDelivery(
+		values: Partial<typeof schema.webhookDeliveries.$inferInsert> & { payloadId: string },
+	) {
+		const { payloadId, ...rest } = values;
+		const [delivery] = await db
+			.insert(schema.webhookDeliveries)
+			.values({
+				webhookId,
+				event: "lead.created",
+				payload: payloadWithId(payloadId),
+				...rest,
+			})
+			.returning();
+		return delivery;
+	}
+
+	async function queuedReplays() {
+		return db
+			.select()
+			.from(schema.webhookOutbox)
+			.where(eq(schema.webhookOutbox.webhookId, webhookId));
+	}
+
+	beforeAll(async () => {
+		({ db } = await import("../db"));
+		({ sql } = await import("../db/connection"));
+		({ purgeWebhookDeliveries, replayFailedDeliveries } = await import("./webhooks"));
+	});
+
+	beforeEach(async () => {
+		await db.delete(schema.webhooks).where(eq(schema.webhooks.name, "Delivery Log Webhook"));
+		const [webhook] = await db
+			.insert(schema.webhooks)
+			.values({
+				name: "Delivery Log Webhook",
+				url: "https://example.com/webhook",
+				events: ["lead.created"],
+			})
+			.returning();
+		webhookId = webhook.id;
+	});
+
+	afterAll(async () => {
+		await db.delete(schema.webhooks).where(eq(schema.webhooks.name, "Delivery Log Webhook"));
+		await sql.end();
+	});
+
+	describe("replayFailedDeliveries", () => {
+		it("should queue each failed event once using its latest failed attempt", async () => {
+			await insertDelivery({
+				payloadId: "evt-a",
+				statusCode: 500,
+				attemptedAt: new Date("2025-01-14T01:00:00Z"),
+			});
+			const latest = await insertDelivery({
+				payloadId: "evt-a",
+				statusCode: null,
+				attemptedAt: new Date("2025-01-14T02:00:00Z"),
+			});
+
+			const result = await replayFailedDeliveries(webhookId, range);
+
+			expect(result).toEqual({ queued: 1, skipped: 0 });
+			const queued = await queuedReplays();
+			expect(queued).toHaveLength(1);
+			expect(queued[0].redeliveryOfId).toBe(latest.id);
+			expect(queued[0].attemptNumber).toBe(1);
+			expect(queued[0].payload).toEqual(payloadWithId("evt-a"));
+		});
+
+		it("should skip events that were eventually delivered or are already queued", async () => {
+			await insertDelivery({
+				payloadId: "evt-delivered",
+				statusCode: 502,
+				attemptedAt: new Date("2025-01-14T01:00:00Z"),
+			});
+			await insertDelivery({
+				payloadId: "evt-delivered",
+				statusCode: 200,
+				attemptedAt: new Date("2025-01-16T01:00:00Z"),
+			});
+			await insertDelivery({
+				payloadId: "evt-pending",
+				statusCode: 500,
+				attemptedAt: new Date("2025-01-14T03:00:00Z"),
+			});
+			await db.insert(schema.webhookOutbox).values({
+				webhookId,
+				event: "lead.created",
+				payload: payloadWithId("evt-pending"),
+				attemptNumber: 2,
+				nextAttemptAt: new Date("2025-01-14T04:00:00Z"),
+			});
+
+			const result = await replayFailedDeliveries(webhookId, range);
+
+			expect(result).toEqual({ queued: 0, skipped: 2 });
+			expect(await queuedReplays()).toHaveLength(1);
+		});
+
+		it("should ignore filtered deliveries and failures outside the range", async () => {
+			await insertDelivery({
+				payloadId: "evt-filtered",
+				statusCode: null,
+				skipReason: "Filtered out by: budget >= 50000",
+				attemptedAt: new Date("2025-01-14T01:00:00Z"),
+			});
+			await insertDelivery({
+				payloadId: "evt-late",
+				statusCode: 500,
+				attemptedAt: new Date("2025-01-16T00:00:00Z"),
+			});
+
+			const result = await replayFailedDeliveries(webhookId, range);
+
+			expect(result).toEqual({ queued: 0, skipped: 0 });
+			expect(await queuedReplays()).toHaveLength(0);
+		});
+	});
+
+	describe("purgeWebhookDeliveries", () => {
+		const retention = { successDays: 7, failureDays: 90 };
+		const now = new Date("2025-02-01T00:00:00Z");
+
+		it("should not replay an event whose delivery is past success retention", async () => {
+			await insertDelivery({
+				payloadId: "evt-retried",
+				statusCode: 500,
+				attemptedAt: new Date("2025-01-14T01:00:00Z"),
+			});
+			await insertDelivery({
+				payloadId: "evt-retried",
+				statusCode: 200,
+				attemptedAt: new Date("2025-01-14T02:00:00Z"),
+			});
+
+			await purgeWebhookDeliveries(retention, now);
+			const result = await replayFailedDeliveries(webhookId, range);
+
+			expect(result).toEqual({ queued: 0, skipped: 1 });
+			expect(await queuedReplays()).toHaveLength(0);
+		});
+
+		it("should delete deliveries once no failure of the event is retained", async () => {
+			await insertDelivery({
+				payloadId: "evt-old",
+				statusCode: 500,
+				attemptedAt: new Date("2024-09-01T01:00:00Z"),
+			});
+			await insertDelivery({
+				payloadId: "evt-old",
+				statusCode: 200,
+				attemptedAt: new Date("2024-09-01T02:00:00Z"),
+			});
+			await insertDelivery({
+				payloadId: "evt-ok",
+				statusCode: 200,
+				attemptedAt: new Date("2025-01-14T02:00:00Z"),
+			});
+
+			await purgeWebhookDeliveries(retention, now);
+
+			const remaining = await db
+				.select()
+				.from(schema.webhookDeliveries)
+				.where(eq(schema.webhookDeliveries.webhookId, webhookId));
+			expect(remaining).toHaveLength(0);
+		});
+	});
+});
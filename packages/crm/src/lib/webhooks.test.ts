@@ -22,6 +22,7 @@ vi.mock("../db", () => ({
 				})),
 			})),
 		})),
+		selectDistinctOn: vi.fn(),
 		insert: vi.fn(() => ({
 			values: vi.fn(() => ({
 				returning: vi.fn(() => Promise.resolve([{ id: "test-delivery-id" }])),
@@ -42,6 +43,7 @@ vi.mock("../db", () => ({
 	},
 	webhooks: {},
 	webhookDeliveries: {},
+	webhookOutbox: {},
 	settings: {},
 	webhookEventEnum: [
 		"lead.created",
@@ -49,38 +51,93 @@ vi.mock("../db", () => ({
 		"lead.status_changed",
 		"lead.deleted",
 		"lead.activity_added",
+		"contact.created",
+		"contact.updated",
+		"contact.status_changed",
+		"contact.interaction_added",
+		"company.created",
+		"company.updated",
+		"company.deleted",
 	],
 }));
 
 // Mock dns/promises for IP resolution tests
+vi.mock("./notifications", () => ({
+	triggerWebhookAutoDisabledNotification: vi.fn(),
+}));
+
 vi.mock("dns/promises", () => ({
 	lookup: vi.fn(() => Promise.resolve([{ address: "1.2.3.4", family: 4 }])),
 }));
 
-import type { Lead, LeadActivity, Webhook } from "../db";
 import {
+	type Company,
+	type Contact,
+	type ContactInteraction,
+	db,
+	type Lead,
+	type LeadActivity,
+	type Webhook,
+} from "../db";
+import { BadRequestError } from "./errors";
+import { triggerWebhookAutoDisabledNotification } from "./notifications";
+import {
+	// Filtering & field projection
+	applyFieldAllowlist,
+	// Signature generation & verification
+	buildSignatureHeader,
+	// Request building
+	buildWebhookRequestBody,
+	type CompanyDeletedData,
+	type CompanyUpdatedData,
+	type ContactCreatedData,
+	type ContactInteractionAddedData,
+	type ContactStatusChangedData,
+	collectFieldChanges,
+	createSampleLeadPayload,
 	// Webhook delivery
+	DEFAULT_DELIVERY_RETENTION,
 	deliverWebhook,
+	dispatchWebhookEvent,
+	formatCompanyCreatedPayload,
+	formatCompanyDeletedPayload,
+	formatCompanyUpdatedPayload,
+	formatContactCreatedPayload,
+	formatContactInteractionAddedPayload,
+	formatContactStatusChangedPayload,
+	formatContactUpdatedPayload,
 	formatLeadActivityAddedPayload,
 	// Payload formatting
 	formatLeadCreatedPayload,
 	formatLeadDeletedPayload,
 	formatLeadStatusChangedPayload,
 	formatLeadUpdatedPayload,
-	// Signature generation & verification
 	generateSignature,
+	getActiveSecrets,
+	// Retention & statistics
+	getDeliveryRetention,
+	getFilterSkipReason,
+	getWebhookDeliveryStats,
+	LEAD_PAYLOAD_FIELDS,
 	type LeadActivityAddedData,
 	type LeadCreatedData,
 	type LeadDeletedData,
 	type LeadStatusChangedData,
 	type LeadUpdatedData,
+	processWebhookRetryQueue,
+	purgeWebhookDeliveries,
 	RETRY_DELAYS_MS,
-	resolvesToPrivateIp,
+	redeliverWebhookDelivery,
+	replayFailedDeliveries,
+	rotateWebhookSecret,
 	// Retry logic
 	scheduleRetry,
+	setDeliveryRetention,
+	triggerLeadActivityAdded,
+	triggerLeadDeleted,
+	triggerLeadStatusChanged,
 	VALID_WEBHOOK_EVENTS,
-	// URL validation
-	validateWebhookUrl,
+	validateCustomHeaders,
 	verifyWebhookSignature,
 	// Constants
 	WEBHOOK_CONFIG,
@@ -134,6 +191,73 @@ function createMockActivity(overrides: Partial<LeadActivity> = {}): LeadActivity
 	};
 }
 
+/**
+ * Create a mock Contact object for testing.
+ */
+function createMockContact(overrides: Partial<Contact> = {}): Contact {
+	return {
+		id: "contact-123",
+		name: "Jane Smith",
+		email: "jane@example.com",
+		phone: null,
+		role: "CTO",
+		linkedinUrl: "https://linkedin.com/in/janesmith",
+		location: "Berlin",
+		companyId: "company-456",
+		source: "linkedin_search",
+		relationshipStatus: "identified",
+		warmth: "cold",
+		tier: "B",
+		nextAction: "Send intro message",
+		nextActionDue: new Date("2024-01-20T09:00:00Z"),
+		notes: "Met at conference",
+		tags: ["react"],
+		lastInteractionAt: null,
+		leadId: null,
+		createdAt: new Date("2024-01-15T10:00:00Z"),
+		updatedAt: new Date("2024-01-15T10:00:00Z"),
+		...overrides,
+	};
+}
+
+/**
+ * Create a mock ContactInteraction object for testing.
+ */
+function createMockInteraction(overrides: Partial<ContactInteraction> = {}): ContactInteraction {
+	return {
+		id: "interaction-789",
+		contactId: "contact-123",
+		type: "linkedin_dm_sent",
+		direction: "outbound",
+		description: "Sent connection request",
+		url: null,
+		createdAt: new Date("2024-01-16T12:00:00Z"),
+		...overrides,
+	};
+}
+
+/**
+ * Create a mock Company object for testing.
+ */
+function createMockCompany(overrides: Partial<Company> = {}): Company {
+	return {
+		id: "company-456",
+		name: "Globex",
+		industry: "Fintech",
+		size: "startup",
+		location: "Berlin",
+		website: "https://globex.example.com",
+		linkedinUrl: null,
+		hiringContractors: true,
+		contractType: "b2b",
+		notes: "Internal notes",
+		tags: null,
+		createdAt: new Date("2024-01-10T08:00:00Z"),
+		updatedAt: new Date("2024-01-10T08:00:00Z"),
+		...overrides,
+	};
+}
+
 /**
  * Create a mock Webhook object for testing.
  */
@@ -144,6 +268,12 @@ function createMockWebhook(overrides: Partial<Webhook> = {}): Webhook {
 		url: "https://hooks.example.com/webhook",
 		events: ["lead.created", "lead.updated"],
 		secret: "test-secret-123",
+		previousSecret: null,
+		previousSecretExpiresAt: null,
+		filter: null,
+		fieldAllowlist: null,
+		customHeaders: null,
+		bodyTemplate: null,
 		enabled: true,
 		lastTriggeredAt: null,
 		lastStatusCode: null,
@@ -483,23 +613,195 @@ describe("formatLeadActivityAddedPayload", () => {
 	});
 });
 
+describe("formatContactCreatedPayload", () => {
+	it("should set event to 'contact.created'", () => {
+		const payload = formatContactCreatedPayload(createMockContact());
+
+		expect(payload.event).toBe("contact.created");
+		expect(payload.id).toMatch(/^[0-9a-f-]{36}$/);
+	});
+
+	it("should include formatted contact data with ISO dates", () => {
+		const payload = formatContactCreatedPayload(createMockContact());
+		const data = payload.data as ContactCreatedData;
+
+		expect(data.contact.id).toBe("contact-123");
+		expect(data.contact.relationshipStatus).toBe("identified");
+		expect(data.contact.nextActionDue).toBe("2024-01-20T09:00:00.000Z");
+		expect(data.contact.lastInteractionAt).toBeNull();
+		expect(data.contact.createdAt).toBe("2024-01-15T10:00:00.000Z");
+		expect(data.contact.tags).toEqual(["react"]);
+	});
+
+	it("should not expose internal notes", () => {
+		const payload = formatContactCreatedPayload(createMockContact());
+		const data = payload.data as ContactCreatedData;
+
+		expect(data.contact).not.toHaveProperty("notes");
+	});
+
+	it("should default null tags to an empty array", () => {
+		const payload = formatContactCreatedPayload(createMockContact({ tags: null }));
+		const data = payload.data as ContactCreatedData;
+
+		expect(data.contact.tags).toEqual([]);
+	});
+});
+
+describe("formatContactUpdatedPayload", () => {
+	it("should include contact data and changes", () => {
+		const changes = { tier: { old: "C", new: "B" } };
+		const payload = formatContactUpdatedPayload(createMockContact(), changes);
+
+		expect(payload.event).toBe("contact.updated");
+		expect(payload.data).toMatchObject({ contact: { id: "contact-123" }, changes });
+	});
+});
+
+describe("formatContactStatusChangedPayload", () => {
+	it("should include contact summary and status transition", () => {
+		const contact = createMockContact({ relationshipStatus: "engaged" });
+		const payload = formatContactStatusChangedPayload(contact, "first_interaction", "engaged");
+		const data = payload.data as ContactStatusChangedData;
+
+		expect(payload.event).toBe("contact.status_changed");
+		expect(data.contact).toEqual({
+			id: "contact-123",
+			name: "Jane Smith",
+			email: "jane@example.com",
+			relationshipStatus: "engaged",
+		});
+		expect(data.previousStatus).toBe("first_interaction");
+		expect(data.newStatus).toBe("engaged");
+	});
+});
+
+describe("formatContactInteractionAddedPayload", () => {
+	it("should include contact summary and interaction details", () => {
+		const payload = formatContactInteractionAddedPayload(
+			createMockContact(),
+			createMockInteraction({ direction: "inbound", url: "https://linkedin.com/post/1" }),
+		);
+		const data = payload.data as ContactInteractionAddedData;
+
+		expect(payload.event).toBe("contact.interaction_added");
+		expect(data.contact).toEqual({
+			id: "contact-123",
+			name: "Jane Smith",
+			email: "jane@example.com",
+		});
+		expect(data.interaction).toEqual({
+			id: "interaction-789",
+			type: "linkedin_dm_sent",
+			direction: "inbound",
+			description: "Sent connection request",
+			url: "https://linkedin.com/post/1",
+			createdAt: "2024-01-16T12:00:00.000Z",
+		});
+	});
+});
+
+describe("formatCompanyCreatedPayload", () => {
+	it("should include formatted company data without notes", () => {
+		const payload = formatCompanyCreatedPayload(createMockCompany());
+
+		expect(payload.event).toBe("company.created");
+		expect(payload.data).toEqual({
+			company: {
+				id: "company-456",
+				name: "Globex",
+				industry: "Fintech",
+				size: "startup",
+				location: "Berlin",
+				website: "https://globex.example.com",
+				linkedinUrl: null,
+				hiringContractors: true,
+				contractType: "b2b",
+				tags: [],
+				createdAt: "2024-01-10T08:00:00.000Z",
+			},
+		});
+	});
+});
+
+describe("formatCompanyUpdatedPayload", () => {
+	it("should include company data and changes", () => {
+		const changes = { hiringContractors: { old: null, new: true } };
+		const payload = formatCompanyUpdatedPayload(createMockCompany(), changes);
+		const data = payload.data as CompanyUpdatedData;
+
+		expect(payload.event).toBe("company.updated");
+		expect(data.company.id).toBe("company-456");
+		expect(data.changes).toEqual(changes);
+	});
+});
+
+describe("formatCompanyDeletedPayload", () => {
+	it("should include company id and name", () => {
+		const payload = formatCompanyDeletedPayload("company-456", "Globex");
+		const data = payload.data as CompanyDeletedData;
+
+		expect(payload.event).toBe("company.deleted");
+		expect(data).toEqual({ companyId: "company-456", name: "Globex" });
+	});
+});
+
+describe("collectFieldChanges", () => {
+	it("should return only fields whose values differ", () => {
+		const existing = createMockContact();
+		const changes = collectFieldChanges(existing, {
+			name: "Jane Smith",
+			tier: "A",
+			phone: "+49 30 1234",
+		});
+
+		expect(changes).toEqual({
+			tier: { old: "B", new: "A" },
+			phone: { old: null, new: "+49 30 1234" },
+		});
+	});
+
+	it("should compare arrays and dates by value", () => {
+		const existing = createMockContact();
+		const changes = collectFieldChanges(existing, {
+			tags: ["react"],
+			nextActionDue: new Date("2024-01-20T09:00:00Z"),
+		});
+
+		expect(changes).toEqual({});
+	});
+
+	it("should ignore updatedAt and undefined values", () => {
+		const existing = createMockCompany();
+		const changes = collectFieldChanges(existing, {
+			updatedAt: new Date(),
+			industry: undefined,
+		});
+
+		expect(changes).toEqual({});
+	});
+});
+
 // ============================================================================
 // SIGNATURE GENERATION & VERIFICATION TESTS
 // ============================================================================
 
 describe("generateSignature", () => {
-	it("should generate a signature in sha256=hex format", () => {
-		const signature = generateSignature("secret", '{"test": "data"}');
+	const id = "msg_123";
+	const timestamp = "1705312800";
 
-		expect(signature).toMatch(/^sha256=[a-f0-9]{64}$/);
+	it("should generate a signature in v1,base64 format", () => {
+		const signature = generateSignature("secret", id, timestamp, '{"test": "data"}');
+
+		expect(signature).toMatch(/^v1,[A-Za-z0-9+/]{43}=$/);
 	});
 
 	it("should produce consistent signatures for same input", () => {
 		const secret = "my-webhook-secret";
 		const body = '{"event": "lead.created"}';
 
-		const sig1 = generateSignature(secret, body);
-		const sig2 = generateSignature(secret, body);
+		const sig1 = generateSignature(secret, id, timestamp, body);
+		const sig2 = generateSignature(secret, id, timestamp, body);
 
 		expect(sig1).toBe(sig2);
 	});
@@ -507,8 +809,8 @@ describe("generateSignature", () => {
 	it("should produce different signatures for different secrets", () => {
 		const body = '{"event": "lead.created"}';
 
-		const sig1 = generateSignature("secret1", body);
-		const sig2 = generateSignature("secret2", body);
+		const sig1 = generateSignature("secret1", id, timestamp, body);
+		const sig2 = generateSignature("secret2", id, timestamp, body);
 
 		expect(sig1).not.toBe(sig2);
 	});
@@ -516,298 +818,212 @@ describe("generateSignature", () => {
 	it("should produce different signatures for different bodies", () => {
 		const secret = "my-secret";
 
-		const sig1 = generateSignature(secret, '{"a": 1}');
-		const sig2 = generateSignature(secret, '{"a": 2}');
+		const sig1 = generateSignature(secret, id, timestamp, '{"a": 1}');
+		const sig2 = generateSignature(secret, id, timestamp, '{"a": 2}');
 
 		expect(sig1).not.toBe(sig2);
 	});
 
-	it("should handle empty secret", () => {
-		const signature = generateSignature("", '{"test": "data"}');
+	it("should cover the delivery ID and timestamp", () => {
+		const secret = "my-secret";
+		const body = '{"a": 1}';
+		const original = generateSignature(secret, id, timestamp, body);
 
-		expect(signature).toMatch(/^sha256=[a-f0-9]{64}$/);
+		expect(generateSignature(secret, "msg_456", timestamp, body)).not.toBe(original);
+		expect(generateSignature(secret, id, "1705312801", body)).not.toBe(original);
 	});
 
 	it("should handle empty body", () => {
-		const signature = generateSignature("secret", "");
+		const signature = generateSignature("secret", id, timestamp, "");
 
-		expect(signature).toMatch(/^sha256=[a-f0-9]{64}$/);
+		expect(signature).toMatch(/^v1,[A-Za-z0-9+/]{43}=$/);
 	});
 
 	it("should handle Unicode characters in body", () => {
-		const signature = generateSignature("secret", '{"name": "日本語"}');
+		const signature = generateSignature("secret", id, timestamp, '{"name": "日本語"}');
 
-		expect(signature).toMatch(/^sha256=[a-f0-9]{64}$/);
+		expect(signature).toMatch(/^v1,[A-Za-z0-9+/]{43}=$/);
 	});
 
 	it("should generate known signature for test vector", () => {
-		// This is a deterministic test to ensure the algorithm doesn't change
-		const signature = generateSignature("test-secret", '{"hello":"world"}');
+		// HMAC-SHA256("test-secret", 'msg_123.1705312800.{"hello":"world"}') in base64
+		const signature = generateSignature("test-secret", id, timestamp, '{"hello":"world"}');
+
+		expect(signature).toBe("v1,yDJBs2IyWmjrsbcsnVdiwUTlnuomrqbZNVWPhfK6TS4=");
+	});
+});
+
+describe("buildSignatureHeader", () => {
+	it("should join one signature per secret with spaces", () => {
+		const header = buildSignatureHeader(["new-secret", "old-secret"], "msg_1", "1700000000", "{}");
+		const parts = header.split(" ");
+
+		expect(parts).toHaveLength(2);
+		expect(parts[0]).toBe(generateSignature("new-secret", "msg_1", "1700000000", "{}"));
+		expect(parts[1]).toBe(generateSignature("old-secret", "msg_1", "1700000000", "{}"));
+	});
+});
+
+describe("getActiveSecrets", () => {
+	const now = new Date("2024-01-15T12:00:00Z");
+
+	it("should return only the current secret when not rotating", () => {
+		expect(getActiveSecrets(createMockWebhook(), now)).toEqual(["test-secret-123"]);
+	});
 
-		// The signature should always be the same for this input
-		expect(signature.startsWith("sha256=")).toBe(true);
-		expect(signature.length).toBe(71); // "sha256=" (7) + 64 hex chars
+	it("should include the previous secret until it expires", () => {
+		const webhook = createMockWebhook({
+			secret: "new-secret-value",
+			previousSecret: "old-secret-value",
+			previousSecretExpiresAt: new Date("2024-01-16T12:00:00Z"),
+		});
+
+		expect(getActiveSecrets(webhook, now)).toEqual(["new-secret-value", "old-secret-value"]);
+	});
+
+	it("should drop the previous secret once expired", () => {
+		const webhook = createMockWebhook({
+			previousSecret: "old-secret-value",
+			previousSecretExpiresAt: new Date("2024-01-15T11:59:59Z"),
+		});
+
+		expect(getActiveSecrets(webhook, now)).toEqual(["test-secret-123"]);
+	});
+
+	it("should return an empty list for unsigned webhooks", () => {
+		expect(getActiveSecrets(createMockWebhook({ secret: null }), now)).toEqual([]);
 	});
 });
 
 describe("verifyWebhookSignature", () => {
+	const id = "msg_abc";
+	const now = 1_705_312_800_000;
+	const timestamp = String(now / 1000);
+
+	function sign(secret: string, body: string, ts = timestamp) {
+		return { id, timestamp: ts, signature: generateSignature(secret, id, ts, body) };
+	}
+
 	it("should return true for valid signature", () => {
 		const secret = "webhook-secret-123";
 		const body = '{"event": "lead.created", "data": {}}';
-		const signature = generateSignature(secret, body);
 
-		expect(verifyWebhookSignature(body, signature, secret)).toBe(true);
+		expect(verifyWebhookSignature(body, sign(secret, body), secret, 300, now)).toBe(true);
 	});
 
 	it("should return false for invalid signature", () => {
 		const secret = "webhook-secret-123";
 		const body = '{"event": "lead.created"}';
-		const invalidSignature =
-			"sha256=0000000000000000000000000000000000000000000000000000000000000000";
-
-		expect(verifyWebhookSignature(body, invalidSignature, secret)).toBe(false);
-	});
-
-	it("should return false for signature with wrong length", () => {
-		const secret = "webhook-secret";
-		const body = '{"test": "data"}';
-
-		// Too short
-		expect(verifyWebhookSignature(body, "sha256=abc123", secret)).toBe(false);
+		const headers = {
+			id,
+			timestamp,
+			signature: "v1,AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=",
+		};
 
-		// Too long
-		expect(
-			verifyWebhookSignature(
-				body,
-				"sha256=0000000000000000000000000000000000000000000000000000000000000000extra",
-				secret,
-			),
-		).toBe(false);
+		expect(verifyWebhookSignature(body, headers, secret, 300, now)).toBe(false);
 	});
 
 	it("should return false for malformed signature", () => {
 		const secret = "webhook-secret";
 		const body = '{"test": "data"}';
+		const valid = sign(secret, body);
+		const unversioned = valid.signature.slice(3);
 
-		// Missing prefix
+		// Missing version prefix
 		expect(
-			verifyWebhookSignature(
-				body,
-				"0000000000000000000000000000000000000000000000000000000000000000",
-				secret,
-			),
+			verifyWebhookSignature(body, { ...valid, signature: unversioned }, secret, 300, now),
 		).toBe(false);
 
-		// Wrong prefix
+		// Legacy body-only format
 		expect(
 			verifyWebhookSignature(
 				body,
-				"sha512=0000000000000000000000000000000000000000000000000000000000000000",
+				{ ...valid, signature: `sha256=${"0".repeat(64)}` },
 				secret,
+				300,
+				now,
 			),
 		).toBe(false);
+
+		// Too short
+		expect(verifyWebhookSignature(body, { ...valid, signature: "v1,abc" }, secret, 300, now)).toBe(
+			false,
+		);
 	});
 
 	it("should return false when body has been tampered with", () => {
 		const secret = "webhook-secret";
-		const originalBody = '{"amount": 100}';
-		const signature = generateSignature(secret, originalBody);
-		const tamperedBody = '{"amount": 1000000}';
-
-		expect(verifyWebhookSignature(tamperedBody, signature, secret)).toBe(false);
-	});
-
-	it("should return false when using wrong secret", () => {
-		const body = '{"event": "lead.created"}';
-		const signature = generateSignature("correct-secret", body);
-
-		expect(verifyWebhookSignature(body, signature, "wrong-secret")).toBe(false);
-	});
-
-	it("should use timing-safe comparison", () => {
-		// This test verifies the function behavior, not the timing
-		// The actual timing-safe comparison is handled by crypto.timingSafeEqual
-		const secret = "test-secret";
-		const body = '{"test": true}';
-		const signature = generateSignature(secret, body);
-
-		// Multiple verifications should all succeed
-		for (let i = 0; i < 10; i++) {
-			expect(verifyWebhookSignature(body, signature, secret)).toBe(true);
-		}
-	});
-});
-
-// ============================================================================
-// URL VALIDATION TESTS
-// ============================================================================
-
-describe("validateWebhookUrl", () => {
-	describe("HTTPS requirement", () => {
-		it("should accept valid HTTPS URLs", () => {
-			const result = validateWebhookUrl("https://hooks.example.com/webhook");
-
-			expect(result.valid).toBe(true);
-			expect(result.error).toBeUndefined();
-		});
-
-		it("should reject HTTP URLs", () => {
-			const result = validateWebhookUrl("http://hooks.example.com/webhook");
-
-			expect(result.valid).toBe(false);
-			expect(result.error).toBe("URL must use HTTPS protocol");
-		});
-
-		it("should reject other protocols", () => {
-			expect(validateWebhookUrl("ftp://example.com/file").valid).toBe(false);
-			expect(validateWebhookUrl("file:///etc/passwd").valid).toBe(false);
-			expect(validateWebhookUrl("javascript:alert(1)").valid).toBe(false);
-		});
-	});
-
-	describe("Private IP blocking", () => {
-		it("should block 10.x.x.x (Class A private)", () => {
-			expect(validateWebhookUrl("https://10.0.0.1/webhook").valid).toBe(false);
-			expect(validateWebhookUrl("https://10.255.255.255/webhook").valid).toBe(false);
-			expect(validateWebhookUrl("https://10.1.2.3/webhook").error).toBe(
-				"Webhooks to private IP addresses or localhost are not allowed",
-			);
-		});
-
-		it("should block 192.168.x.x (Class C private)", () => {
-			expect(validateWebhookUrl("https://192.168.0.1/webhook").valid).toBe(false);
-			expect(validateWebhookUrl("https://192.168.1.100/webhook").valid).toBe(false);
-			expect(validateWebhookUrl("https://192.168.255.255/webhook").valid).toBe(false);
-		});
-
-		it("should block 172.16-31.x.x (Class B private)", () => {
-			expect(validateWebhookUrl("https://172.16.0.1/webhook").valid).toBe(false);
-			expect(validateWebhookUrl("https://172.20.5.10/webhook").valid).toBe(false);
-			expect(validateWebhookUrl("https://172.31.255.255/webhook").valid).toBe(false);
-		});
-
-		it("should allow 172.15.x.x and 172.32.x.x (not private)", () => {
-			expect(validateWebhookUrl("https://172.15.0.1/webhook").valid).toBe(true);
-			expect(validateWebhookUrl("https://172.32.0.1/webhook").valid).toBe(true);
-		});
-
-		it("should block 127.x.x.x (loopback)", () => {
-			expect(validateWebhookUrl("https://127.0.0.1/webhook").valid).toBe(false);
-			expect(validateWebhookUrl("https://127.1.2.3/webhook").valid).toBe(false);
-		});
-
-		it("should block localhost", () => {
-			expect(validateWebhookUrl("https://localhost/webhook").valid).toBe(false);
-			expect(validateWebhookUrl("https://LOCALHOST/webhook").valid).toBe(false);
-			expect(validateWebhookUrl("https://LocalHost:8080/webhook").valid).toBe(false);
-		});
-
-		it("should block 0.x.x.x", () => {
-			expect(validateWebhookUrl("https://0.0.0.0/webhook").valid).toBe(false);
-		});
+		const headers = sign(secret, '{"amount": 100}');
 
-		it("should block 169.254.x.x (link-local)", () => {
-			expect(validateWebhookUrl("https://169.254.0.1/webhook").valid).toBe(false);
-			expect(validateWebhookUrl("https://169.254.169.254/webhook").valid).toBe(false);
-		});
+		expect(verifyWebhookSignature('{"amount": 1000000}', headers, secret, 300, now)).toBe(false);
 	});
 
-	describe("Valid public URLs", () => {
-		it("should accept valid public domain URLs", () => {
-			expect(validateWebhookUrl("https://hooks.zapier.com/webhook").valid).toBe(true);
-			expect(validateWebhookUrl("https://api.example.com/webhooks/abc123").valid).toBe(true);
-			expect(validateWebhookUrl("https://webhook.site/test").valid).toBe(true);
-		});
-
-		it("should accept URLs with ports", () => {
-			expect(validateWebhookUrl("https://hooks.example.com:443/webhook").valid).toBe(true);
-			expect(validateWebhookUrl("https://hooks.example.com:8443/webhook").valid).toBe(true);
-		});
-
-		it("should accept URLs with query parameters", () => {
-			const result = validateWebhookUrl("https://hooks.example.com/webhook?token=abc123");
-			expect(result.valid).toBe(true);
-		});
-
-		it("should accept URLs with paths", () => {
-			expect(validateWebhookUrl("https://example.com/api/v1/webhooks/lead").valid).toBe(true);
-		});
+	it("should return false when the delivery ID has been swapped", () => {
+		const secret = "webhook-secret";
+		const body = '{"amount": 100}';
+		const headers = { ...sign(secret, body), id: "msg_other" };
 
-		it("should accept public IP addresses", () => {
-			expect(validateWebhookUrl("https://8.8.8.8/webhook").valid).toBe(true);
-			expect(validateWebhookUrl("https://1.2.3.4/webhook").valid).toBe(true);
-		});
+		expect(verifyWebhookSignature(body, headers, secret, 300, now)).toBe(false);
 	});
 
-	describe("Invalid URL formats", () => {
-		it("should reject invalid URL format", () => {
-			const result = validateWebhookUrl("not-a-valid-url");
-
-			expect(result.valid).toBe(false);
-			expect(result.error).toBe("Invalid URL format");
-		});
-
-		it("should reject empty string", () => {
-			expect(validateWebhookUrl("").valid).toBe(false);
-		});
-
-		it("should reject URLs without protocol", () => {
-			expect(validateWebhookUrl("example.com/webhook").valid).toBe(false);
-		});
-	});
-});
+	it("should return false when using wrong secret", () => {
+		const body = '{"event": "lead.created"}';
 
-describe("resolvesToPrivateIp", () => {
-	beforeEach(() => {
-		vi.resetModules();
+		expect(
+			verifyWebhookSignature(body, sign("correct-secret", body), "wrong-secret", 300, now),
+		).toBe(false);
 	});
 
-	it("should return false for public IP addresses", async () => {
-		const dns = await import("node:dns/promises");
-		(dns.lookup as Mock).mockResolvedValueOnce([{ address: "93.184.216.34", family: 4 }]);
-
-		const result = await resolvesToPrivateIp("example.com");
+	it("should reject timestamps outside the tolerance window", () => {
+		const secret = "webhook-secret";
+		const body = '{"test": true}';
+		const old = String(now / 1000 - 301);
+		const future = String(now / 1000 + 301);
 
-		expect(result).toBe(false);
+		expect(verifyWebhookSignature(body, sign(secret, body, old), secret, 300, now)).toBe(false);
+		expect(verifyWebhookSignature(body, sign(secret, body, future), secret, 300, now)).toBe(false);
 	});
 
-	it("should return true for private IP addresses", async () => {
-		const dns = await import("node:dns/promises");
-		(dns.lookup as Mock).mockResolvedValueOnce([{ address: "192.168.1.1", family: 4 }]);
-
-		const result = await resolvesToPrivateIp("internal.local");
+	it("should honour a custom tolerance window", () => {
+		const secret = "webhook-secret";
+		const body = '{"test": true}';
+		const ts = String(now / 1000 - 600);
 
-		expect(result).toBe(true);
+		expect(verifyWebhookSignature(body, sign(secret, body, ts), secret, 300, now)).toBe(false);
+		expect(verifyWebhookSignature(body, sign(secret, body, ts), secret, 600, now)).toBe(true);
 	});
 
-	it("should return true for loopback addresses", async () => {
-		const dns = await import("node:dns/promises");
-		(dns.lookup as Mock).mockResolvedValueOnce([{ address: "127.0.0.1", family: 4 }]);
-
-		const result = await resolvesToPrivateIp("localhost");
+	it("should reject non-numeric timestamps", () => {
+		const secret = "webhook-secret";
+		const body = '{"test": true}';
+		const headers = { ...sign(secret, body), timestamp: "not-a-number" };
 
-		expect(result).toBe(true);
+		expect(verifyWebhookSignature(body, headers, secret, 300, now)).toBe(false);
 	});
 
-	it("should check all resolved addresses", async () => {
-		const dns = await import("node:dns/promises");
-		(dns.lookup as Mock).mockResolvedValueOnce([
-			{ address: "93.184.216.34", family: 4 },
-			{ address: "192.168.1.1", family: 4 }, // This is private
-		]);
-
-		const result = await resolvesToPrivateIp("dual-homed.example.com");
+	it("should default to the configured tolerance and current time", () => {
+		const secret = "webhook-secret";
+		const body = '{"test": true}';
+		const ts = Math.floor(Date.now() / 1000).toString();
 
-		expect(result).toBe(true);
+		expect(verifyWebhookSignature(body, sign(secret, body, ts), secret)).toBe(true);
 	});
 
-	it("should return false when DNS lookup fails", async () => {
-		const dns = await import("node:dns/promises");
-		(dns.lookup as Mock).mockRejectedValueOnce(new Error("DNS lookup failed"));
-
-		const result = await resolvesToPrivateIp("nonexistent.invalid");
+	it("should accept any matching signature during rotation", () => {
+		const body = '{"event": "lead.created"}';
+		const headers = {
+			id,
+			timestamp,
+			signature: buildSignatureHeader(["new-secret", "old-secret"], id, timestamp, body),
+		};
 
-		expect(result).toBe(false);
+		// Receiver still on the old secret
+		expect(verifyWebhookSignature(body, headers, "old-secret", 300, now)).toBe(true);
+		// Receiver already on the new secret
+		expect(verifyWebhookSignature(body, headers, "new-secret", 300, now)).toBe(true);
+		// Receiver accepting both while it rolls over
+		expect(verifyWebhookSignature(body, headers, ["other", "old-secret"], 300, now)).toBe(true);
+		expect(verifyWebhookSignature(body, headers, "unrelated", 300, now)).toBe(false);
 	});
 });
 
@@ -1142,7 +1358,7 @@ describe("deliverWebhook", () => {
 				webhook.url,
 				expect.objectContaining({
 					headers: expect.objectContaining({
-						"X-Webhook-Signature": expect.stringMatching(/^sha256=[a-f0-9]{64}$/),
+						"X-Webhook-Signature": expect.stringMatching(/^v1,[A-Za-z0-9+/]{43}=$/),
 					}),
 				}),
 			);
@@ -1202,16 +1418,32 @@ describe("deliverWebhook", () => {
 			await vi.runAllTimersAsync();
 			await resultPromise;
 
-			const signature = capturedHeaders["X-Webhook-Signature"];
-			const isValid = verifyWebhookSignature(capturedBody, signature, secret);
+			const isValid = verifyWebhookSignature(
+				capturedBody,
+				{
+					id: capturedHeaders["X-Webhook-ID"],
+					timestamp: capturedHeaders["X-Webhook-Timestamp"],
+					signature: capturedHeaders["X-Webhook-Signature"],
+				},
+				secret,
+			);
 
 			expect(isValid).toBe(true);
 		});
-	});
 
-	describe("URL validation", () => {
-		it("should reject HTTP URLs before making request", async () => {
-			const webhook = createMockWebhook({ url: "http://example.com/webhook" });
+		it("should sign with both secrets while a rotation is in progress", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				status: 200,
+				statusText: "OK",
+				text: () => Promise.resolve(""),
+			});
+
+			const webhook = createMockWebhook({
+				secret: "new-rotation-secret",
+				previousSecret: "old-rotation-secret",
+				previousSecretExpiresAt: new Date(Date.now() + 60_000),
+			});
 			const payload: WebhookPayload = {
 				id: "test-id",
 				event: "lead.created",
@@ -1219,15 +1451,35 @@ describe("deliverWebhook", () => {
 				data: { lead: {} as any },
 			};
 
-			const result = await deliverWebhook(webhook, payload);
+			const resultPromise = deliverWebhook(webhook, payload);
+			await vi.runAllTimersAsync();
+			await resultPromise;
 
-			expect(result.success).toBe(false);
-			expect(result.error).toBe("URL must use HTTPS protocol");
-			expect(mockFetch).not.toHaveBeenCalled();
+			const [, init] = mockFetch.mock.calls[0];
+			const signatureHeaders = {
+				id: init.headers["X-Webhook-ID"],
+				timestamp: init.headers["X-Webhook-Timestamp"],
+				signature: init.headers["X-Webhook-Signature"],
+			};
+
+			expect(signatureHeaders.signature.split(" ")).toHaveLength(2);
+			expect(verifyWebhookSignature(init.body, signatureHeaders, "old-rotation-secret")).toBe(true);
+			expect(verifyWebhookSignature(init.body, signatureHeaders, "new-rotation-secret")).toBe(true);
 		});
 
-		it("should reject private IP URLs before making request", async () => {
-			const webhook = createMockWebhook({ url: "https://192.168.1.1/webhook" });
+		it("should stop signing with the previous secret after it expires", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				status: 200,
+				statusText: "OK",
+				text: () => Promise.resolve(""),
+			});
+
+			const webhook = createMockWebhook({
+				secret: "new-rotation-secret",
+				previousSecret: "old-rotation-secret",
+				previousSecretExpiresAt: new Date(Date.now() - 1),
+			});
 			const payload: WebhookPayload = {
 				id: "test-id",
 				event: "lead.created",
@@ -1235,19 +1487,133 @@ describe("deliverWebhook", () => {
 				data: { lead: {} as any },
 			};
 
-			const result = await deliverWebhook(webhook, payload);
+			const resultPromise = deliverWebhook(webhook, payload);
+			await vi.runAllTimersAsync();
+			await resultPromise;
 
-			expect(result.success).toBe(false);
-			expect(result.error).toContain("private");
-			expect(mockFetch).not.toHaveBeenCalled();
+			const [, init] = mockFetch.mock.calls[0];
+			const signatureHeaders = {
+				id: init.headers["X-Webhook-ID"],
+				timestamp: init.headers["X-Webhook-Timestamp"],
+				signature: init.headers["X-Webhook-Signature"],
+			};
+
+			expect(signatureHeaders.signature.split(" ")).toHaveLength(1);
+			expect(verifyWebhookSignature(init.body, signatureHeaders, "old-rotation-secret")).toBe(
+				false,
+			);
 		});
 	});
 
-	describe("Duration tracking", () => {
-		it("should track delivery duration", async () => {
-			mockFetch.mockImplementationOnce(async () => {
-				return {
-					ok: true,
+	describe("Custom headers and body template", () => {
+		beforeEach(() => {
+			mockFetch.mockResolvedValue({
+				ok: true,
+				status: 200,
+				statusText: "OK",
+				text: () => Promise.resolve(""),
+			});
+		});
+
+		it("should send custom headers without replacing standard headers", async () => {
+			const webhook = createMockWebhook({
+				customHeaders: {
+					Authorization: "Bearer token-123",
+					"x-webhook-event": "spoofed",
+					"Content-Type": "text/plain",
+				},
+			});
+			const payload = formatLeadCreatedPayload(createMockLead());
+
+			const resultPromise = deliverWebhook(webhook, payload);
+			await vi.runAllTimersAsync();
+			await resultPromise;
+
+			const [, init] = mockFetch.mock.calls[0];
+			expect(init.headers.Authorization).toBe("Bearer token-123");
+			expect(init.headers["X-Webhook-Event"]).toBe("lead.created");
+			expect(init.headers["Content-Type"]).toBe("application/json");
+			expect(init.headers["x-webhook-event"]).toBeUndefined();
+		});
+
+		it("should send and sign the rendered template", async () => {
+			const webhook = createMockWebhook({
+				bodyTemplate: '{"text": "New lead: {{data.lead.name}}"}',
+			});
+			const payload = formatLeadCreatedPayload(createMockLead());
+
+			const resultPromise = deliverWebhook(webhook, payload);
+			await vi.runAllTimersAsync();
+			await resultPromise;
+
+			const [, init] = mockFetch.mock.calls[0];
+			expect(JSON.parse(init.body)).toEqual({ text: "New lead: John Doe" });
+			expect(
+				verifyWebhookSignature(
+					init.body,
+					{
+						id: init.headers["X-Webhook-ID"],
+						timestamp: init.headers["X-Webhook-Timestamp"],
+						signature: init.headers["X-Webhook-Signature"],
+					},
+					"test-secret-123",
+				),
+			).toBe(true);
+		});
+
+		it("should fail without sending when the stored template is invalid", async () => {
+			const webhook = createMockWebhook({ bodyTemplate: "{not json" });
+			const payload = formatLeadCreatedPayload(createMockLead());
+
+			const resultPromise = deliverWebhook(webhook, payload);
+			await vi.runAllTimersAsync();
+			const result = await resultPromise;
+
+			expect(mockFetch).not.toHaveBeenCalled();
+			expect(result.success).toBe(false);
+			expect(result.error).toMatch(/^Invalid body template: Template must be valid JSON/);
+		});
+	});
+
+	describe("URL validation", () => {
+		it("should reject HTTP URLs before making request", async () => {
+			const webhook = createMockWebhook({ url: "http://example.com/webhook" });
+			const payload: WebhookPayload = {
+				id: "test-id",
+				event: "lead.created",
+				timestamp: new Date().toISOString(),
+				data: { lead: {} as any },
+			};
+
+			const result = await deliverWebhook(webhook, payload);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("URL must use HTTPS protocol");
+			expect(mockFetch).not.toHaveBeenCalled();
+		});
+
+		it("should reject private IP URLs before making request", async () => {
+			const webhook = createMockWebhook({ url: "https://192.168.1.1/webhook" });
+			const payload: WebhookPayload = {
+				id: "test-id",
+				event: "lead.created",
+				timestamp: new Date().toISOString(),
+				data: { lead: {} as any },
+			};
+
+			const result = await deliverWebhook(webhook, payload);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("private");
+			expect(mockFetch).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("Duration tracking", () => {
+		it("should track delivery duration", async () => {
+			mockFetch.mockImplementationOnce(async () => {
+				return {
+					ok: true,
 					status: 200,
 					statusText: "OK",
 					text: () => Promise.resolve(""),
@@ -1360,6 +1726,182 @@ describe("scheduleRetry", () => {
 	});
 });
 
+describe("scheduleRetry persistence", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should persist the next attempt to the outbox", async () => {
+		const values = vi.fn(() => Promise.resolve([]));
+		(db.insert as Mock).mockReturnValueOnce({ values });
+
+		const webhook = createMockWebhook();
+		const payload = formatLeadCreatedPayload(createMockLead());
+		const before = Date.now();
+
+		const nextAttemptAt = await scheduleRetry(webhook, payload, 1);
+
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({
+				webhookId: webhook.id,
+				event: "lead.created",
+				payload,
+				attemptNumber: 2,
+			}),
+		);
+		expect(nextAttemptAt?.getTime()).toBeGreaterThanOrEqual(before + RETRY_DELAYS_MS[1]);
+	});
+
+	it("should return null without queueing when retries are exhausted", async () => {
+		const result = await scheduleRetry(
+			createMockWebhook(),
+			formatLeadCreatedPayload(createMockLead()),
+			RETRY_DELAYS_MS.length,
+		);
+
+		expect(result).toBeNull();
+		expect(db.insert).not.toHaveBeenCalled();
+	});
+});
+
+describe("processWebhookRetryQueue", () => {
+	let mockFetch: Mock;
+	let outboxUpdate: Mock;
+	let outboxDelete: Mock;
+
+	/**
+	 * Wire the mocked db so the claim query returns the given entries and
+	 * the webhook lookup returns the given webhook.
+	 */
+	function setupQueue(entries: unknown[], webhook: Webhook | null) {
+		const claimChain = {
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			orderBy: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockReturnThis(),
+			for: vi.fn().mockReturnThis(),
+		};
+		const webhookChain = {
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockResolvedValue(webhook ? [webhook] : []),
+		};
+		(db.select as Mock).mockReturnValueOnce(claimChain).mockReturnValue(webhookChain);
+
+		outboxUpdate = vi.fn(() => ({ where: vi.fn(() => Promise.resolve([])) }));
+		(db.update as Mock)
+			.mockReturnValueOnce({
+				set: vi.fn(() => ({
+					where: vi.fn(() => ({ returning: vi.fn(() => Promise.resolve(entries)) })),
+				})),
+			})
+			.mockReturnValue({ set: outboxUpdate });
+
+		outboxDelete = vi.fn(() => Promise.resolve([]));
+		(db.delete as Mock).mockReturnValue({ where: outboxDelete });
+	}
+
+	function createOutboxEntry(attemptNumber: number) {
+		return {
+			id: "outbox-1",
+			webhookId: "webhook-789",
+			event: "lead.created",
+			payload: formatLeadCreatedPayload(createMockLead()),
+			attemptNumber,
+			nextAttemptAt: new Date(),
+			lockedUntil: null,
+			lastError: null,
+			createdAt: new Date(),
+			updatedAt: new Date(),
+		};
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockFetch = vi.fn();
+		global.fetch = mockFetch;
+		vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should return 0 when nothing is due", async () => {
+		setupQueue([], null);
+
+		await expect(processWebhookRetryQueue()).resolves.toBe(0);
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it("should remove the entry after a successful retry", async () => {
+		setupQueue([createOutboxEntry(2)], createMockWebhook());
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			status: 200,
+			statusText: "OK",
+			text: () => Promise.resolve("ok"),
+		});
+
+		await expect(processWebhookRetryQueue()).resolves.toBe(1);
+
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+		expect(outboxDelete).toHaveBeenCalled();
+	});
+
+	it("should reschedule a failed retry using the next delay", async () => {
+		setupQueue([createOutboxEntry(2)], createMockWebhook());
+		mockFetch.mockResolvedValueOnce({
+			ok: false,
+			status: 500,
+			statusText: "Internal Server Error",
+			text: () => Promise.resolve("boom"),
+		});
+		const before = Date.now();
+
+		await processWebhookRetryQueue();
+
+		const rescheduled = outboxUpdate.mock.calls
+			.map(([update]) => update)
+			.find((update) => update.attemptNumber !== undefined);
+		expect(rescheduled).toMatchObject({
+			attemptNumber: 3,
+			lockedUntil: null,
+			lastError: "HTTP 500 Internal Server Error",
+		});
+		expect(rescheduled.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + RETRY_DELAYS_MS[2]);
+		expect(outboxDelete).not.toHaveBeenCalled();
+	});
+
+	it("should drop the entry after the final attempt fails", async () => {
+		setupQueue([createOutboxEntry(RETRY_DELAYS_MS.length)], createMockWebhook());
+		mockFetch.mockResolvedValueOnce({
+			ok: false,
+			status: 500,
+			statusText: "Internal Server Error",
+			text: () => Promise.resolve("boom"),
+		});
+
+		await processWebhookRetryQueue();
+
+		expect(outboxDelete).toHaveBeenCalled();
+	});
+
+	it("should drop entries for disabled webhooks without delivering", async () => {
+		setupQueue([createOutboxEntry(2)], createMockWebhook({ enabled: false }));
+
+		await processWebhookRetryQueue();
+
+		expect(mockFetch).not.toHaveBeenCalled();
+		expect(outboxDelete).toHaveBeenCalled();
+	});
+});
+
 describe("RETRY_DELAYS_MS", () => {
 	it("should have 6 retry delays", () => {
 		expect(RETRY_DELAYS_MS.length).toBe(6);
@@ -1414,10 +1956,17 @@ describe("VALID_WEBHOOK_EVENTS", () => {
 		expect(VALID_WEBHOOK_EVENTS.has("lead.status_changed")).toBe(true);
 		expect(VALID_WEBHOOK_EVENTS.has("lead.deleted")).toBe(true);
 		expect(VALID_WEBHOOK_EVENTS.has("lead.activity_added")).toBe(true);
+		expect(VALID_WEBHOOK_EVENTS.has("contact.created")).toBe(true);
+		expect(VALID_WEBHOOK_EVENTS.has("contact.updated")).toBe(true);
+		expect(VALID_WEBHOOK_EVENTS.has("contact.status_changed")).toBe(true);
+		expect(VALID_WEBHOOK_EVENTS.has("contact.interaction_added")).toBe(true);
+		expect(VALID_WEBHOOK_EVENTS.has("company.created")).toBe(true);
+		expect(VALID_WEBHOOK_EVENTS.has("company.updated")).toBe(true);
+		expect(VALID_WEBHOOK_EVENTS.has("company.deleted")).toBe(true);
 	});
 
-	it("should have exactly 5 events", () => {
-		expect(VALID_WEBHOOK_EVENTS.size).toBe(5);
+	it("should have exactly 12 events", () => {
+		expect(VALID_WEBHOOK_EVENTS.size).toBe(12);
 	});
 
 	it("should not contain invalid events", () => {
@@ -1438,9 +1987,12 @@ describe("Integration: Payload and Signature", () => {
 		const secret = "integration-test-secret";
 
 		const body = JSON.stringify(payload);
-		const signature = generateSignature(secret, body);
+		const timestamp = Math.floor(Date.now() / 1000).toString();
+		const signature = generateSignature(secret, payload.id, timestamp, body);
 
-		expect(verifyWebhookSignature(body, signature, secret)).toBe(true);
+		expect(verifyWebhookSignature(body, { id: payload.id, timestamp, signature }, secret)).toBe(
+			true,
+		);
 	});
 
 	it("should fail verification if payload is modified after signing", () => {
@@ -1449,14 +2001,17 @@ describe("Integration: Payload and Signature", () => {
 		const secret = "integration-test-secret";
 
 		const body = JSON.stringify(payload);
-		const signature = generateSignature(secret, body);
+		const timestamp = Math.floor(Date.now() / 1000).toString();
+		const signature = generateSignature(secret, payload.id, timestamp, body);
 
 		// Modify the payload by changing a field value
 		const data = payload.data as LeadCreatedData;
 		data.lead.name = "Modified Name";
 		const modifiedBody = JSON.stringify(payload);
 
-		expect(verifyWebhookSignature(modifiedBody, signature, secret)).toBe(false);
+		expect(
+			verifyWebhookSignature(modifiedBody, { id: payload.id, timestamp, signature }, secret),
+		).toBe(false);
 	});
 });
 
@@ -1498,6 +2053,14 @@ describe("incrementFailureCount", () => {
 
 		// fetch should not be called for admin notification
 		expect(global.fetch).not.toHaveBeenCalled();
+		expect(triggerWebhookAutoDisabledNotification).not.toHaveBeenCalled();
+	});
+
+	it("should notify webhook.auto_disabled channels when webhook is disabled", async () => {
+		const webhook = createMockWebhook({ failureCount: 9 });
+		await incrementFailureCount("webhook-123", 9, webhook);
+
+		expect(triggerWebhookAutoDisabledNotification).toHaveBeenCalledWith(webhook, 10);
 	});
 
 	it("should attempt to send admin notification when webhook is disabled", async () => {
@@ -1559,3 +2122,743 @@ describe("updateWebhookStatus", () => {
 		expect(result.disabled).toBe(true);
 	});
 });
+
+// ============================================================================
+// REDELIVERY & REPLAY TESTS
+// ============================================================================
+
+describe("rotateWebhookSecret", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-15T12:00:00Z"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function setupRotation(existing: Webhook | null) {
+		(db.select as Mock).mockReturnValueOnce({
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockResolvedValue(existing ? [existing] : []),
+		});
+		const set = vi.fn(() => ({
+			where: vi.fn(() => ({
+				returning: vi.fn(() => Promise.resolve([existing])),
+			})),
+		}));
+		(db.update as Mock).mockReturnValueOnce({ set });
+		return set;
+	}
+
+	it("should keep the current secret active for the grace period", async () => {
+		const set = setupRotation(createMockWebhook({ secret: "current-secret" }));
+
+		await rotateWebhookSecret("webhook-789", "brand-new-secret", 60 * 60 * 1000);
+
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({
+				secret: "brand-new-secret",
+				previousSecret: "current-secret",
+				previousSecretExpiresAt: new Date("2025-01-15T13:00:00Z"),
+			}),
+		);
+	});
+
+	it("should generate a secret when none is provided", async () => {
+		const set = setupRotation(createMockWebhook());
+
+		await rotateWebhookSecret("webhook-789");
+
+		const [[updates]] = set.mock.calls as unknown as [[{ secret: string }]];
+		expect(updates.secret).toMatch(/^[a-f0-9]{64}$/);
+	});
+
+	it("should not set a previous secret for unsigned webhooks", async () => {
+		const set = setupRotation(createMockWebhook({ secret: null }));
+
+		await rotateWebhookSecret("webhook-789", "first-secret-value");
+
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({ previousSecret: null, previousSecretExpiresAt: null }),
+		);
+	});
+
+	it("should return null when the webhook does not exist", async () => {
+		(db.select as Mock).mockReturnValueOnce({
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockResolvedValue([]),
+		});
+
+		await expect(rotateWebhookSecret("missing")).resolves.toBeNull();
+		expect(db.update).not.toHaveBeenCalled();
+	});
+});
+
+describe("getFilterSkipReason", () => {
+	it("should deliver everything when the webhook has no filter", () => {
+		const payload = formatLeadCreatedPayload(createMockLead());
+
+		expect(getFilterSkipReason(createMockWebhook(), payload)).toBeNull();
+	});
+
+	it("should deliver leads that match the filter", () => {
+		const webhook = createMockWebhook({ filter: "budget >= 10000 and source == 'contact form'" });
+		const payload = formatLeadCreatedPayload(createMockLead());
+
+		expect(getFilterSkipReason(webhook, payload)).toBeNull();
+	});
+
+	it("should skip leads that don't match the filter", () => {
+		const webhook = createMockWebhook({ filter: "budget >= 50000" });
+		const payload = formatLeadCreatedPayload(createMockLead());
+
+		expect(getFilterSkipReason(webhook, payload)).toBe("Filtered out by: budget >= 50000");
+	});
+
+	it("should evaluate summary lead payloads", () => {
+		const webhook = createMockWebhook({ filter: "status == 'won'" });
+		const payload = formatLeadStatusChangedPayload(
+			createMockLead({ status: "qualified" }),
+			"new",
+			"qualified",
+		);
+
+		expect(getFilterSkipReason(webhook, payload)).not.toBeNull();
+	});
+
+	it("should evaluate lead.deleted payloads by name and email", () => {
+		const webhook = createMockWebhook({ filter: "email contains '@example.com'" });
+		const payload = formatLeadDeletedPayload("lead-123", "John Doe", "john@example.com");
+
+		expect(getFilterSkipReason(webhook, payload)).toBeNull();
+	});
+
+	it("should evaluate the given lead fields instead of the payload's", () => {
+		const webhook = createMockWebhook({ filter: "budget >= 10000" });
+		const payload = formatLeadDeletedPayload("lead-123", "John Doe", "john@example.com");
+
+		expect(getFilterSkipReason(webhook, payload)).not.toBeNull();
+		expect(getFilterSkipReason(webhook, payload, { budget: "$10,000 - $25,000" })).toBeNull();
+	});
+
+	it("should not filter events that don't carry a lead", () => {
+		const webhook = createMockWebhook({ filter: "budget >= 50000" });
+		const payload = formatCompanyCreatedPayload(createMockCompany());
+
+		expect(getFilterSkipReason(webhook, payload)).toBeNull();
+	});
+
+	it("should skip deliveries when the stored filter is invalid", () => {
+		const webhook = createMockWebhook({ filter: "salary > 10" });
+		const payload = formatLeadCreatedPayload(createMockLead());
+
+		expect(getFilterSkipReason(webhook, payload)).toBe(
+			'Invalid filter: Unknown field "salary" at position 0',
+		);
+	});
+});
+
+describe("applyFieldAllowlist", () => {
+	it("should list every LeadPayload field", () => {
+		const payload = formatLeadCreatedPayload(createMockLead()) as WebhookPayload & {
+			data: LeadCreatedData;
+		};
+
+		expect([...LEAD_PAYLOAD_FIELDS].sort()).toEqual(Object.keys(payload.data.lead).sort());
+	});
+
+	it("should return the payload unchanged without an allow-list", () => {
+		const payload = formatLeadCreatedPayload(createMockLead());
+
+		expect(applyFieldAllowlist(payload, null)).toBe(payload);
+		expect(applyFieldAllowlist(payload, [])).toBe(payload);
+	});
+
+	it("should keep only allowed lead fields plus the ID", () => {
+		const payload = formatLeadCreatedPayload(createMockLead());
+
+		const projected = applyFieldAllowlist(payload, ["name", "budget"]);
+
+		expect(projected.data).toEqual({
+			lead: { id: "lead-123", name: "John Doe", budget: "$10,000 - $25,000" },
+		});
+		expect((payload.data as LeadCreatedData).lead.phone).toBe("+1-555-1234");
+	});
+
+	it("should project lead.updated changes", () => {
+		const payload = formatLeadUpdatedPayload(createMockLead(), {
+			phone: { old: null, new: "+1-555-1234" },
+			status: { old: "new", new: "contacted" },
+		});
+
+		const projected = applyFieldAllowlist(payload, ["status"]);
+		const data = projected.data as LeadUpdatedData;
+
+		expect(data.changes).toEqual({ status: { old: "new", new: "contacted" } });
+		expect(data.lead).toEqual({ id: "lead-123", status: "new" });
+	});
+
+	it("should drop name and email from lead.deleted when not allowed", () => {
+		const payload = formatLeadDeletedPayload("lead-123", "John Doe", "john@example.com");
+
+		expect(applyFieldAllowlist(payload, ["email"]).data).toEqual({
+			leadId: "lead-123",
+			email: "john@example.com",
+		});
+	});
+
+	it("should leave non-lead events unchanged", () => {
+		const payload = formatContactCreatedPayload(createMockContact());
+
+		expect(applyFieldAllowlist(payload, ["name"])).toBe(payload);
+	});
+});
+
+describe("validateCustomHeaders", () => {
+	it("should accept ordinary headers", () => {
+		expect(
+			validateCustomHeaders({ Authorization: "Bearer abc", "X-Api-Key": "key-123" }),
+		).toBeNull();
+	});
+
+	it.each([
+		["content-type", 'Header "content-type" is reserved'],
+		["X-Webhook-Signature", 'Header "X-Webhook-Signature" is reserved'],
+		["Host", 'Header "Host" is reserved'],
+		["Bad Header", 'Invalid header name "Bad Header"'],
+	])("should reject %s", (name, message) => {
+		expect(validateCustomHeaders({ [name]: "value" })).toBe(message);
+	});
+
+	it("should reject values with line breaks", () => {
+		expect(validateCustomHeaders({ "X-Api-Key": "abc\r\nX-Injected: 1" })).toBe(
+			'Header "X-Api-Key" must not contain line breaks',
+		);
+	});
+
+	it("should limit the number of headers", () => {
+		const headers = Object.fromEntries(
+			Array.from({ length: WEBHOOK_CONFIG.maxCustomHeaders + 1 }, (_, i) => [`X-Custom-${i}`, "v"]),
+		);
+
+		expect(validateCustomHeaders(headers)).toBe(
+			`At most ${WEBHOOK_CONFIG.maxCustomHeaders} custom headers are allowed`,
+		);
+	});
+});
+
+describe("buildWebhookRequestBody", () => {
+	it("should send the standard payload without a template", () => {
+		const payload = createSampleLeadPayload();
+
+		expect(buildWebhookRequestBody({ bodyTemplate: null }, payload)).toBe(JSON.stringify(payload));
+	});
+
+	it("should render the template against the payload", () => {
+		const payload = createSampleLeadPayload();
+
+		const body = buildWebhookRequestBody(
+			{ bodyTemplate: '{"event": "{{event}}", "who": "{{data.lead.email}}"}' },
+			payload,
+		);
+
+		expect(JSON.parse(body)).toEqual({ event: "lead.created", who: "test@example.com" });
+	});
+});
+
+describe("dispatchWebhookEvent", () => {
+	let mockFetch: Mock;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockFetch = vi.fn().mockResolvedValue({
+			ok: true,
+			status: 200,
+			statusText: "OK",
+			text: () => Promise.resolve("ok"),
+		});
+		global.fetch = mockFetch;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	function setupWebhooks(rows: Webhook[]) {
+		(db.select as Mock).mockReturnValueOnce({
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockResolvedValue(rows),
+		});
+		const values = vi.fn(() => ({
+			returning: vi.fn(() => Promise.resolve([{ id: "delivery-1" }])),
+		}));
+		(db.insert as Mock).mockReturnValue({ values });
+		return values;
+	}
+
+	it("should record filtered-out events as skipped without calling the endpoint", async () => {
+		const values = setupWebhooks([createMockWebhook({ filter: "source == 'Referral'" })]);
+		const payload = formatLeadCreatedPayload(createMockLead());
+
+		const results = await dispatchWebhookEvent("lead.created", payload);
+
+		expect(mockFetch).not.toHaveBeenCalled();
+		expect(db.update).not.toHaveBeenCalled();
+		expect(results).toEqual([
+			expect.objectContaining({ webhookId: "webhook-789", success: false, skipped: true }),
+		]);
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({
+				webhookId: "webhook-789",
+				statusCode: null,
+				skipReason: "Filtered out by: source == 'Referral'",
+			}),
+		);
+	});
+
+	it("should deliver matching events reduced to the field allow-list", async () => {
+		const values = setupWebhooks([
+			createMockWebhook({ filter: "budget >= 10000", fieldAllowlist: ["name", "budget"] }),
+		]);
+		const payload = formatLeadCreatedPayload(createMockLead());
+
+		const results = await dispatchWebhookEvent("lead.created", payload);
+
+		expect(results).toEqual([expect.objectContaining({ success: true })]);
+		const [, init] = mockFetch.mock.calls[0];
+		const body = JSON.parse(init.body);
+		expect(body.data.lead).toEqual({
+			id: "lead-123",
+			name: "John Doe",
+			budget: "$10,000 - $25,000",
+		});
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({
+				payload: expect.objectContaining({ data: body.data }),
+				skipReason: null,
+			}),
+		);
+	});
+
+	it("should filter lead.deleted by the full deleted lead", async () => {
+		setupWebhooks([
+			createMockWebhook({
+				events: ["lead.deleted"],
+				filter: "budget >= 10000 and source == 'contact form'",
+			}),
+		]);
+
+		await triggerLeadDeleted(createMockLead());
+
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+		const [, init] = mockFetch.mock.calls[0];
+		expect(JSON.parse(init.body).data).toEqual({
+			leadId: "lead-123",
+			name: "John Doe",
+			email: "john@example.com",
+		});
+	});
+
+	it("should skip lead.deleted when the deleted lead doesn't match", async () => {
+		const values = setupWebhooks([
+			createMockWebhook({ events: ["lead.deleted"], filter: "source == 'Referral'" }),
+		]);
+
+		await triggerLeadDeleted(createMockLead());
+
+		expect(mockFetch).not.toHaveBeenCalled();
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({ skipReason: "Filtered out by: source == 'Referral'" }),
+		);
+	});
+
+	it("should filter lead.status_changed by the full lead", async () => {
+		setupWebhooks([
+			createMockWebhook({
+				events: ["lead.status_changed"],
+				filter: "budget >= 10000 and source == 'contact form'",
+			}),
+		]);
+
+		await triggerLeadStatusChanged(createMockLead({ status: "contacted" }), "new", "contacted");
+
+		expect(mockFetch).toHaveBeenCalledTimes(1);
+		const [, init] = mockFetch.mock.calls[0];
+		expect(JSON.parse(init.body).data.lead).toEqual(
+			expect.not.objectContaining({ budget: expect.anything() }),
+		);
+	});
+
+	it("should filter lead.activity_added by the full lead", async () => {
+		const values = setupWebhooks([
+			createMockWebhook({ events: ["lead.activity_added"], filter: "source == 'Referral'" }),
+		]);
+
+		await triggerLeadActivityAdded(createMockLead(), createMockActivity());
+
+		expect(mockFetch).not.toHaveBeenCalled();
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({ skipReason: "Filtered out by: source == 'Referral'" }),
+		);
+	});
+});
+
+describe("redeliverWebhookDelivery", () => {
+	let mockFetch: Mock;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockFetch = vi.fn();
+		global.fetch = mockFetch;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	function selectReturning(rows: unknown[]) {
+		return {
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockResolvedValue(rows),
+		};
+	}
+
+	it("should return null when the webhook does not exist", async () => {
+		(db.select as Mock).mockReturnValueOnce(selectReturning([]));
+
+		await expect(redeliverWebhookDelivery("missing", "delivery-1")).resolves.toBeNull();
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it("should return null when the delivery does not belong to the webhook", async () => {
+		(db.select as Mock)
+			.mockReturnValueOnce(selectReturning([createMockWebhook()]))
+			.mockReturnValueOnce(selectReturning([]));
+
+		await expect(redeliverWebhookDelivery("webhook-789", "delivery-1")).resolves.toBeNull();
+		expect(mockFetch).not.toHaveBeenCalled();
+	});
+
+	it("should resend the stored payload signed with the current secret", async () => {
+		const payload = formatLeadCreatedPayload(createMockLead());
+		const webhook = createMockWebhook({ secret: "rotated-secret-value" });
+		(db.select as Mock)
+			.mockReturnValueOnce(selectReturning([webhook]))
+			.mockReturnValueOnce(
+				selectReturning([{ id: "delivery-1", event: "lead.created", payload, statusCode: 500 }]),
+			);
+		mockFetch.mockResolvedValueOnce({
+			ok: true,
+			status: 200,
+			statusText: "OK",
+			text: () => Promise.resolve("ok"),
+		});
+		const values = vi.fn(() => ({
+			returning: vi.fn(() => Promise.resolve([{ id: "delivery-2" }])),
+		}));
+		(db.insert as Mock).mockReturnValueOnce({ values });
+
+		const result = await redeliverWebhookDelivery("webhook-789", "delivery-1");
+
+		expect(result).toMatchObject({ success: true, statusCode: 200, deliveryId: "delivery-2" });
+
+		const [, init] = mockFetch.mock.calls[0];
+		expect(init.body).toBe(JSON.stringify(payload));
+		expect(init.headers["X-Webhook-ID"]).toBe(payload.id);
+		expect(
+			verifyWebhookSignature(
+				init.body,
+				{
+					id: init.headers["X-Webhook-ID"],
+					timestamp: init.headers["X-Webhook-Timestamp"],
+					signature: init.headers["X-Webhook-Signature"],
+				},
+				"rotated-secret-value",
+			),
+		).toBe(true);
+		expect(values).toHaveBeenCalledWith(expect.objectContaining({ redeliveryOfId: "delivery-1" }));
+	});
+});
+
+describe("replayFailedDeliveries", () => {
+	const range = {
+		from: new Date("2025-01-14T00:00:00Z"),
+		to: new Date("2025-01-15T00:00:00Z"),
+	};
+
+	function payloadWithId(id: string) {
+		return { ...formatLeadCreatedPayload(createMockLead()), id };
+	}
+
+	// Which failures to replay is decided in SQL (see webhooks.db.test.ts);
+	// these mocks return the selected latest failures and the failed count.
+	function setupReplay(toReplay: unknown[], failed: number) {
+		(db.select as Mock)
+			.mockReturnValueOnce({
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				limit: vi.fn().mockResolvedValue([createMockWebhook()]),
+			})
+			.mockReturnValueOnce({
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+			})
+			.mockReturnValueOnce({
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+			});
+		(db.selectDistinctOn as Mock).mockReturnValueOnce({
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			orderBy: vi.fn().mockReturnThis(),
+			as: vi.fn(() => ({ attemptedAt: {} })),
+		});
+		const limit = vi.fn().mockResolvedValue(toReplay);
+		(db.select as Mock)
+			.mockReturnValueOnce({
+				from: vi.fn().mockReturnThis(),
+				orderBy: vi.fn().mockReturnThis(),
+				limit,
+			})
+			.mockReturnValueOnce({
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockResolvedValue([{ failed }]),
+			});
+		const values = vi.fn(() => Promise.resolve([]));
+		(db.insert as Mock).mockReturnValueOnce({ values });
+		return { limit, values };
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("should return null when the webhook does not exist", async () => {
+		(db.select as Mock).mockReturnValueOnce({
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockResolvedValue([]),
+		});
+
+		await expect(replayFailedDeliveries("missing", range)).resolves.toBeNull();
+	});
+
+	it("should refuse to queue replays for a disabled webhook", async () => {
+		(db.select as Mock).mockReturnValueOnce({
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockResolvedValue([createMockWebhook({ enabled: false })]),
+		});
+
+		await expect(replayFailedDeliveries("webhook-123", range)).rejects.toThrow(BadRequestError);
+		expect(db.insert).not.toHaveBeenCalled();
+	});
+
+	it("should queue a redelivery of each selected failure", async () => {
+		const payload = payloadWithId("evt-a");
+		const { values } = setupReplay(
+			[
+				{
+					id: "d2",
+					event: "lead.created",
+					payload,
+					attemptedAt: new Date("2025-01-14T02:00:00Z"),
+				},
+			],
+			1,
+		);
+
+		const result = await replayFailedDeliveries("webhook-789", range);
+
+		expect(result).toEqual({ queued: 1, skipped: 0 });
+		expect(values).toHaveBeenCalledWith([
+			expect.objectContaining({
+				webhookId: "webhook-789",
+				event: "lead.created",
+				payload,
+				attemptNumber: 1,
+				redeliveryOfId: "d2",
+			}),
+		]);
+	});
+
+	it("should count failed events that are not replayed as skipped", async () => {
+		const { values } = setupReplay([], 2);
+
+		const result = await replayFailedDeliveries("webhook-789", range);
+
+		expect(result).toEqual({ queued: 0, skipped: 2 });
+		expect(values).not.toHaveBeenCalled();
+	});
+
+	it("should cap the number of replays per call", async () => {
+		const { limit } = setupReplay([], 0);
+
+		await replayFailedDeliveries("webhook-789", range);
+
+		expect(limit).toHaveBeenCalledWith(WEBHOOK_CONFIG.maxReplayBatch);
+	});
+});
+
+describe("getDeliveryRetention", () => {
+	function setupSetting(value: unknown) {
+		(db.select as Mock).mockReturnValueOnce({
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockResolvedValue(value === undefined ? [] : [{ value }]),
+		});
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("should return the defaults when no policy is stored", async () => {
+		setupSetting(undefined);
+
+		await expect(getDeliveryRetention()).resolves.toEqual(DEFAULT_DELIVERY_RETENTION);
+	});
+
+	it("should return the stored policy", async () => {
+		setupSetting({ successDays: 3, failureDays: 30 });
+
+		await expect(getDeliveryRetention()).resolves.toEqual({ successDays: 3, failureDays: 30 });
+	});
+
+	it("should fall back to the default for invalid values", async () => {
+		setupSetting({ successDays: 0, failureDays: "60" });
+
+		await expect(getDeliveryRetention()).resolves.toEqual(DEFAULT_DELIVERY_RETENTION);
+	});
+});
+
+describe("setDeliveryRetention", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		// Drop insert chains queued but not consumed by earlier tests
+		(db.insert as Mock).mockReset();
+	});
+
+	it("should upsert the policy into settings", async () => {
+		const onConflictDoUpdate = vi.fn().mockResolvedValue(undefined);
+		const values = vi.fn(() => ({ onConflictDoUpdate }));
+		(db.insert as Mock).mockReturnValueOnce({ values });
+
+		const result = await setDeliveryRetention({ successDays: 14, failureDays: 60 });
+
+		expect(result).toEqual({ successDays: 14, failureDays: 60 });
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({
+				key: "webhook_delivery_retention",
+				value: { successDays: 14, failureDays: 60 },
+			}),
+		);
+		expect(onConflictDoUpdate).toHaveBeenCalled();
+	});
+
+	it("should reject values outside the allowed range", async () => {
+		await expect(
+			setDeliveryRetention({ successDays: 7, failureDays: WEBHOOK_CONFIG.maxRetentionDays + 1 }),
+		).rejects.toThrow("Retention must be between 1 and 365 whole days");
+		expect(db.insert).not.toHaveBeenCalled();
+	});
+});
+
+describe("purgeWebhookDeliveries", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("should delete successes and failures past their retention", async () => {
+		const where = vi.fn();
+		(db.delete as Mock)
+			.mockReturnValueOnce({
+				where: where.mockReturnValueOnce({
+					returning: vi.fn().mockResolvedValue([{ id: "d1" }, { id: "d2" }]),
+				}),
+			})
+			.mockReturnValueOnce({
+				where: where.mockReturnValueOnce({
+					returning: vi.fn().mockResolvedValue([{ id: "d3" }]),
+				}),
+			});
+
+		const result = await purgeWebhookDeliveries({ successDays: 7, failureDays: 90 });
+
+		expect(result).toEqual({ succeeded: 2, failed: 1 });
+		expect(db.delete).toHaveBeenCalledTimes(2);
+		// Only the retained-failure subquery, not the settings
+		expect(db.select).toHaveBeenCalledTimes(1);
+	});
+
+	it("should read the configured policy when none is given", async () => {
+		(db.select as Mock).mockReturnValueOnce({
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockResolvedValue([]),
+		});
+
+		const result = await purgeWebhookDeliveries();
+
+		expect(result).toEqual({ succeeded: 0, failed: 0 });
+		expect(db.select).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe("getWebhookDeliveryStats", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("should compute rates and round percentiles over the shorter retention", async () => {
+		(db.select as Mock).mockReturnValueOnce({
+			from: vi.fn().mockReturnThis(),
+			where: vi.fn().mockReturnThis(),
+			groupBy: vi.fn().mockResolvedValue([
+				{
+					webhookId: "webhook-1",
+					total: 40,
+					succeeded: 38,
+					p50DurationMs: 120.5,
+					p95DurationMs: "980.25",
+				},
+				{
+					webhookId: "webhook-2",
+					total: 0,
+					succeeded: 0,
+					p50DurationMs: null,
+					p95DurationMs: null,
+				},
+			]),
+		});
+
+		const result = await getWebhookDeliveryStats({ successDays: 7, failureDays: 90 });
+
+		expect(result.windowDays).toBe(7);
+		expect(result.stats).toEqual([
+			{
+				webhookId: "webhook-1",
+				total: 40,
+				succeeded: 38,
+				failed: 2,
+				successRate: 0.95,
+				p50DurationMs: 121,
+				p95DurationMs: 980,
+			},
+			{
+				webhookId: "webhook-2",
+				total: 0,
+				succeeded: 0,
+				failed: 0,
+				successRate: null,
+				p50DurationMs: null,
+				p95DurationMs: null,
+			},
+		]);
+	});
+});
@@ -2,28 +2,76 @@
  * Webhook Dispatcher Library for the CRM.
  *
  * Implements webhook payload formatting, HMAC-SHA256 signature generation,
- * async delivery with retries, and failure tracking per specs/08-webhooks.md.
+ * async delivery with durable retries, and failure tracking per specs/08-webhooks.md.
+ *
+ * Failed deliveries are queued in the `webhook_outbox` table and picked up by
+ * a polling worker (see startWebhookRetryWorker), so pending retries survive
+ * redeploys and crashes. Delivery log rows are purged by a scheduled job once
+ * they pass the configured retention (see startWebhookDeliveryPurgeJob).
  *
  * Security considerations:
  * - Only HTTPS URLs are allowed
- * - Private IP addresses are blocked (10.x, 192.168.x, 127.x, localhost)
+ * - Private IP addresses are blocked (10.x, 192.168.x, 127.x, localhost),
+ *   including hosts that resolve to them (see webhook-urls.ts)
+ * - HMAC signatures cover "{id}.{timestamp}.{body}" (Standard Webhooks style),
+ *   so captured requests cannot be replayed outside the tolerance window
+ * - During secret rotation both the new and previous secret sign each delivery
  * - HMAC signatures use timing-safe comparison
  * - Webhooks are auto-disabled after 10 consecutive failures
+ * - Per-webhook filters and field allow-lists keep lead data from subscribers
+ *   that should not receive it (see webhook-filters.ts)
+ * - Custom headers cannot override Content-Type, the X-Webhook-* headers or
+ *   transport headers, and body templates are rendered into parsed JSON
+ *   (see webhook-templates.ts), so payload data cannot alter their structure
  */
 
-import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
-import { eq } from "drizzle-orm";
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+	and,
+	asc,
+	desc,
+	eq,
+	gte,
+	inArray,
+	isNotNull,
+	isNull,
+	lt,
+	lte,
+	notExists,
+	or,
+	sql,
+} from "drizzle-orm";
+import { type AnyPgColumn, alias } from "drizzle-orm/pg-core";
 import {
+	type Company,
+	type Contact,
+	type ContactInteraction,
 	db,
 	type Lead,
 	type LeadActivity,
 	settings,
 	type Webhook,
 	type WebhookEvent,
+	type WebhookOutboxEntry,
 	webhookDeliveries,
 	webhookEventEnum,
+	webhookOutbox,
 	webhooks,
 } from "../db/index.js";
+import { BadRequestError } from "./errors.js";
+import { createIntervalJob } from "./interval-job.js";
+import { triggerWebhookAutoDisabledNotification } from "./notifications/index.js";
+import {
+	evaluateWebhookFilter,
+	parseWebhookFilter,
+	WebhookFilterError,
+} from "./webhook-filters.js";
+import {
+	parseWebhookTemplate,
+	renderWebhookTemplate,
+	WebhookTemplateError,
+} from "./webhook-templates.js";
+import { resolvesToPrivateIp, validateWebhookUrl } from "./webhook-urls.js";
 
 // ============================================================================
 // CONSTANTS
@@ -41,8 +89,42 @@ export const WEBHOOK_CONFIG = {
 	maxFailureCount: 10,
 	/** Maximum response body size to store (bytes) */
 	maxResponseBodySize: 10_000,
+	/** How often the retry worker polls the outbox for due deliveries */
+	retryPollIntervalMs: 5_000,
+	/** Maximum outbox entries claimed per poll */
+	retryBatchSize: 20,
+	/** How long a claimed outbox entry stays locked before another worker may take it */
+	retryLeaseMs: 120_000,
+	/** Maximum deliveries queued by a single bulk replay */
+	maxReplayBatch: 500,
+	/** Maximum age/skew of a signed timestamp accepted by verifyWebhookSignature */
+	signatureToleranceSeconds: 300,
+	/** How long the previous secret keeps signing after a rotation */
+	secretRotationGraceMs: 24 * 60 * 60 * 1000,
+	/** Maximum custom headers per webhook */
+	maxCustomHeaders: 20,
+	/** Maximum length of a custom header value */
+	maxCustomHeaderValueLength: 2_000,
+	/** How often the purge job removes deliveries past their retention */
+	purgeIntervalMs: 6 * 60 * 60 * 1000,
+	/** Maximum retention for either outcome */
+	maxRetentionDays: 365,
 } as const;
 
+/**
+ * Settings key holding the delivery retention policy.
+ */
+export const DELIVERY_RETENTION_SETTING = "webhook_delivery_retention";
+
+/**
+ * Retention used until one is configured. Failures are kept longer because
+ * they are the ones that get investigated and replayed.
+ */
+export const DEFAULT_DELIVERY_RETENTION: DeliveryRetention = {
+	successDays: 7,
+	failureDays: 90,
+};
+
 /**
  * Retry delay schedule in milliseconds.
  * Attempt 1: Immediate (0)
@@ -62,25 +144,27 @@ export const RETRY_DELAYS_MS = [
 ] as const;
 
 /**
- * Private IP address patterns to block.
+ * Valid webhook events as a Set for fast lookup.
  */
-const PRIVATE_IP_PATTERNS = [
-	/^10\./,
-	/^192\.168\./,
-	/^172\.(1[6-9]|2[0-9]|3[0-1])\./,
-	/^127\./,
-	/^0\./,
-	/^169\.254\./,
-	/^::1$/,
-	/^fc00:/i,
-	/^fe80:/i,
-	/^localhost$/i,
-];
+export const VALID_WEBHOOK_EVENTS = new Set<string>(webhookEventEnum);
 
 /**
- * Valid webhook events as a Set for fast lookup.
+ * Headers that custom headers may not set (compared case-insensitively).
+ * X-Webhook-* headers are also reserved; see isReservedHeader.
  */
-export const VALID_WEBHOOK_EVENTS = new Set<string>(webhookEventEnum);
+const RESERVED_HEADERS = new Set([
+	"content-type",
+	"content-length",
+	"host",
+	"connection",
+	"transfer-encoding",
+	"user-agent",
+]);
+
+/**
+ * Valid HTTP header name (RFC 9110 token).
+ */
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
 
 // ============================================================================
 // TYPES
@@ -104,7 +188,19 @@ export type WebhookEventData =
 	| LeadUpdatedData
 	| LeadStatusChangedData
 	| LeadDeletedData
-	| LeadActivityAddedData;
+	| LeadActivityAddedData
+	| ContactCreatedData
+	| ContactUpdatedData
+	| ContactStatusChangedData
+	| ContactInteractionAddedData
+	| CompanyCreatedData
+	| CompanyUpdatedData
+	| CompanyDeletedData;
+
+/**
+ * Field-level changes carried by *.updated events.
+ */
+export type FieldChanges = Record<string, { old: unknown; new: unknown }>;
 
 /**
  * Data for lead.created event.
@@ -147,6 +243,61 @@ export interface LeadActivityAddedData {
 	activity: ActivityPayload;
 }
 
+/**
+ * Data for contact.created event.
+ */
+export interface ContactCreatedData {
+	contact: ContactPayload;
+}
+
+/**
+ * Data for contact.updated event.
+ */
+export interface ContactUpdatedData {
+	contact: ContactPayload;
+	changes: FieldChanges;
+}
+
+/**
+ * Data for contact.status_changed event.
+ */
+export interface ContactStatusChangedData {
+	contact: ContactSummaryPayload;
+	previousStatus: string;
+	newStatus: string;
+}
+
+/**
+ * Data for contact.interaction_added event.
+ */
+export interface ContactInteractionAddedData {
+	contact: ContactSummaryPayload;
+	interaction: InteractionPayload;
+}
+
+/**
+ * Data for company.created event.
+ */
+export interface CompanyCreatedData {
+	company: CompanyPayload;
+}
+
+/**
+ * Data for company.updated event.
+ */
+export interface CompanyUpdatedData {
+	company: CompanyPayload;
+	changes: FieldChanges;
+}
+
+/**
+ * Data for company.deleted event.
+ */
+export interface CompanyDeletedData {
+	companyId: string;
+	name: string;
+}
+
 /**
  * Full lead payload for webhook events.
  */
@@ -164,6 +315,23 @@ export interface LeadPayload {
 	createdAt: string;
 }
 
+/**
+ * Lead fields that webhook filters may reference and field allow-lists may select.
+ */
+export const LEAD_PAYLOAD_FIELDS = [
+	"id",
+	"name",
+	"email",
+	"company",
+	"phone",
+	"budget",
+	"projectType",
+	"message",
+	"source",
+	"status",
+	"createdAt",
+] as const satisfies ReadonlyArray<keyof LeadPayload>;
+
 /**
  * Summary lead payload for webhook events.
  */
@@ -184,6 +352,71 @@ export interface ActivityPayload {
 	createdAt: string;
 }
 
+/**
+ * Full contact payload for webhook events.
+ * Internal notes are deliberately left out.
+ */
+export interface ContactPayload {
+	id: string;
+	name: string;
+	email: string | null;
+	phone: string | null;
+	role: string | null;
+	linkedinUrl: string | null;
+	location: string | null;
+	companyId: string | null;
+	source: string | null;
+	relationshipStatus: string;
+	warmth: string;
+	tier: string | null;
+	nextAction: string | null;
+	nextActionDue: string | null;
+	tags: string[];
+	lastInteractionAt: string | null;
+	leadId: string | null;
+	createdAt: string;
+}
+
+/**
+ * Summary contact payload for webhook events.
+ */
+export interface ContactSummaryPayload {
+	id: string;
+	name: string;
+	email: string | null;
+	relationshipStatus?: string;
+}
+
+/**
+ * Contact interaction payload for webhook events.
+ */
+export interface InteractionPayload {
+	id: string;
+	type: string;
+	direction: string;
+	description: string;
+	url: string | null;
+	createdAt: string;
+}
+
+/**
+ * Full company payload for webhook events.
+ * Internal notes are deliberately left out.
+ */
+export interface CompanyPayload {
+	id: string;
+	name: string;
+	industry: string | null;
+	size: string | null;
+	location: string | null;
+	website: string | null;
+	linkedinUrl: string | null;
+	hiringContractors: boolean | null;
+	contractType: string | null;
+	tags: string[];
+	createdAt: string;
+}
+
 /**
  * Webhook delivery result.
  */
@@ -193,6 +426,32 @@ export interface DeliveryResult {
 	responseBody: string | null;
 	durationMs: number;
 	error?: string;
+	/** Delivery was not attempted because the webhook's filter did not match */
+	skipped?: boolean;
+}
+
+/**
+ * How long delivery log rows are kept, by outcome.
+ * Skipped deliveries follow the success retention.
+ */
+export interface DeliveryRetention {
+	successDays: number;
+	failureDays: number;
+}
+
+/**
+ * Delivery statistics for one webhook.
+ */
+export interface WebhookDeliveryStats {
+	webhookId: string;
+	/** Attempted deliveries (skipped ones excluded) */
+	total: number;
+	succeeded: number;
+	failed: number;
+	/** Share of attempts with a 2xx response (0-1), or null without attempts */
+	successRate: number | null;
+	p50DurationMs: number | null;
+	p95DurationMs: number | null;
 }
 
 /**
@@ -203,6 +462,8 @@ export interface DispatchOptions {
 	noRetry?: boolean;
 	/** Custom delivery ID (for testing) */
 	deliveryId?: string;
+	/** Lead fields to evaluate filters against, for payloads that carry only some of them */
+	filterRecord?: Record<string, unknown>;
 }
 
 // ============================================================================
@@ -360,195 +621,664 @@ export function formatLeadActivityAddedPayload(lead: Lead, activity: LeadActivit
 }
 
 /**
- * Format a full lead payload for webhook events.
+ * Format a contact.created webhook payload.
  *
- * @param lead - The lead to format
- * @returns Formatted lead payload
+ * @param contact - The created contact
+ * @returns Formatted webhook payload
+ *
+ * @example
+ * ```ts
+ * const payload = formatContactCreatedPayload(newContact);
+ * ```
  */
-function formatLeadPayload(lead: Lead): LeadPayload {
+export function formatContactCreatedPayload(contact: Contact): WebhookPayload {
 	return {
-		id: lead.id,
-		name: lead.name,
-		email: lead.email,
-		company: lead.company,
-		phone: lead.phone,
-		budget: lead.budget,
-		projectType: lead.projectType,
-		message: lead.message,
-		source: lead.source,
-		status: lead.status,
-		createdAt:
-			lead.createdAt instanceof Date ? lead.createdAt.toISOString() : String(lead.createdAt),
+		id: randomUUID(),
+		event: "contact.created",
+		timestamp: new Date().toISOString(),
+		data: {
+			contact: formatContactPayload(contact),
+		},
 	};
 }
 
-// ============================================================================
-// SIGNATURE GENERATION & VERIFICATION
-// ============================================================================
-
 /**
- * Generate HMAC-SHA256 signature for webhook payload.
+ * Format a contact.updated webhook payload.
  *
- * @param secret - The webhook secret
- * @param body - The JSON payload body string
- * @returns Signature string in format "sha256={hex_signature}"
+ * @param contact - The updated contact
+ * @param changes - Object mapping field names to old/new values
+ * @returns Formatted webhook payload
  *
  * @example
  * ```ts
- * const signature = generateSignature("secret123", JSON.stringify(payload));
- * // "sha256=abc123..."
+ * const payload = formatContactUpdatedPayload(contact, {
+ *   tier: { old: "C", new: "A" }
+ * });
  * ```
  */
-export function generateSignature(secret: string, body: string): string {
-	const hmac = createHmac("sha256", secret);
-	hmac.update(body);
-	return `sha256=${hmac.digest("hex")}`;
+export function formatContactUpdatedPayload(
+	contact: Contact,
+	changes: FieldChanges,
+): WebhookPayload {
+	return {
+		id: randomUUID(),
+		event: "contact.updated",
+		timestamp: new Date().toISOString(),
+		data: {
+			contact: formatContactPayload(contact),
+			changes,
+		},
+	};
 }
 
 /**
- * Verify a webhook signature using timing-safe comparison.
+ * Format a contact.status_changed webhook payload.
  *
- * @param body - The raw request body string
- * @param signature - The X-Webhook-Signature header value
- * @param secret - The webhook secret
- * @returns true if signature is valid
+ * @param contact - The contact with updated relationship status
+ * @param previousStatus - The previous relationship status
+ * @param newStatus - The new relationship status
+ * @returns Formatted webhook payload
  *
  * @example
  * ```ts
- * const isValid = verifyWebhookSignature(body, header, secret);
- * if (!isValid) throw new Error("Invalid signature");
+ * const payload = formatContactStatusChangedPayload(contact, "identified", "engaged");
  * ```
  */
-export function verifyWebhookSignature(body: string, signature: string, secret: string): boolean {
-	const expected = generateSignature(secret, body);
-	const expectedBuffer = Buffer.from(expected);
-	const signatureBuffer = Buffer.from(signature);
-
-	if (expectedBuffer.length !== signatureBuffer.length) {
-		return false;
-	}
-
-	return timingSafeEqual(expectedBuffer, signatureBuffer);
+export function formatContactStatusChangedPayload(
+	contact: Contact,
+	previousStatus: string,
+	newStatus: string,
+): WebhookPayload {
+	return {
+		id: randomUUID(),
+		event: "contact.status_changed",
+		timestamp: new Date().toISOString(),
+		data: {
+			contact: {
+				id: contact.id,
+				name: contact.name,
+				email: contact.email,
+				relationshipStatus: contact.relationshipStatus,
+			},
+			previousStatus,
+			newStatus,
+		},
+	};
 }
 
-// ============================================================================
-// URL VALIDATION
-// ============================================================================
-
 /**
- * Validate a webhook URL for security.
- *
- * Requirements:
- * - Must be HTTPS
- * - Must not point to private IP addresses
- * - Must not point to localhost
+ * Format a contact.interaction_added webhook payload.
  *
- * @param url - The URL to validate
- * @returns Object with valid flag and optional error message
+ * @param contact - The contact the interaction was logged for
+ * @param interaction - The added interaction
+ * @returns Formatted webhook payload
  *
  * @example
  * ```ts
- * const result = validateWebhookUrl("https://hooks.example.com/webhook");
- * if (!result.valid) throw new Error(result.error);
+ * const payload = formatContactInteractionAddedPayload(contact, interaction);
  * ```
  */
-export function validateWebhookUrl(url: string): {
-	valid: boolean;
-	error?: string;
-} {
-	let parsedUrl: URL;
-
-	try {
-		parsedUrl = new URL(url);
-	} catch {
-		return { valid: false, error: "Invalid URL format" };
-	}
-
-	// Must be HTTPS
-	if (parsedUrl.protocol !== "https:") {
-		return { valid: false, error: "URL must use HTTPS protocol" };
-	}
-
-	const hostname = parsedUrl.hostname;
-
-	// Check for private IPs and localhost
-	for (const pattern of PRIVATE_IP_PATTERNS) {
-		if (pattern.test(hostname)) {
-			return {
-				valid: false,
-				error: "Webhooks to private IP addresses or localhost are not allowed",
-			};
-		}
-	}
-
-	return { valid: true };
+export function formatContactInteractionAddedPayload(
+	contact: Contact,
+	interaction: ContactInteraction,
+): WebhookPayload {
+	return {
+		id: randomUUID(),
+		event: "contact.interaction_added",
+		timestamp: new Date().toISOString(),
+		data: {
+			contact: {
+				id: contact.id,
+				name: contact.name,
+				email: contact.email,
+			},
+			interaction: {
+				id: interaction.id,
+				type: interaction.type,
+				direction: interaction.direction,
+				description: interaction.description,
+				url: interaction.url,
+				createdAt: toIsoString(interaction.createdAt),
+			},
+		},
+	};
 }
 
 /**
- * Check if a hostname resolves to a private IP address.
- * This performs DNS lookup to detect SSRF attempts.
+ * Format a company.created webhook payload.
  *
- * Note: This is an async check that should be done before delivery.
+ * @param company - The created company
+ * @returns Formatted webhook payload
  *
- * @param hostname - The hostname to check
- * @returns true if hostname resolves to a private IP
+ * @example
+ * ```ts
+ * const payload = formatCompanyCreatedPayload(newCompany);
+ * ```
  */
-export async function resolvesToPrivateIp(hostname: string): Promise<boolean> {
-	try {
-		// Use dynamic import for dns/promises to avoid issues in non-Node environments
-		const dns = await import("node:dns/promises");
-		const addresses = await dns.lookup(hostname, { all: true });
-
-		for (const addr of addresses) {
-			for (const pattern of PRIVATE_IP_PATTERNS) {
-				if (pattern.test(addr.address)) {
-					return true;
-				}
-			}
-		}
+export function formatCompanyCreatedPayload(company: Company): WebhookPayload {
+	return {
+		id: randomUUID(),
+		event: "company.created",
+		timestamp: new Date().toISOString(),
+		data: {
+			company: formatCompanyPayload(company),
+		},
+	};
+}
 
-		return false;
-	} catch {
-		// If DNS lookup fails, allow the request to proceed
-		// The HTTP request will fail naturally
-		return false;
-	}
+/**
+ * Format a company.updated webhook payload.
+ *
+ * @param company - The updated company
+ * @param changes - Object mapping field names to old/new values
+ * @returns Formatted webhook payload
+ *
+ * @example
+ * ```ts
+ * const payload = formatCompanyUpdatedPayload(company, {
+ *   hiringContractors: { old: null, new: true }
+ * });
+ * ```
+ */
+export function formatCompanyUpdatedPayload(
+	company: Company,
+	changes: FieldChanges,
+): WebhookPayload {
+	return {
+		id: randomUUID(),
+		event: "company.updated",
+		timestamp: new Date().toISOString(),
+		data: {
+			company: formatCompanyPayload(company),
+			changes,
+		},
+	};
 }
 
-// ============================================================================
-// WEBHOOK DELIVERY
-// ============================================================================
+/**
+ * Format a company.deleted webhook payload.
+ *
+ * @param companyId - The deleted company's ID
+ * @param name - The deleted company's name
+ * @returns Formatted webhook payload
+ *
+ * @example
+ * ```ts
+ * const payload = formatCompanyDeletedPayload(company.id, company.name);
+ * ```
+ */
+export function formatCompanyDeletedPayload(companyId: string, name: string): WebhookPayload {
+	return {
+		id: randomUUID(),
+		event: "company.deleted",
+		timestamp: new Date().toISOString(),
+		data: {
+			companyId,
+			name,
+		},
+	};
+}
 
 /**
- * Deliver a webhook payload to a specific webhook endpoint.
+ * Collect field-level changes between a record and the values written to it.
  *
- * This function:
- * 1. Validates the webhook URL
- * 2. Generates signature if secret is configured
- * 3. Sends HTTP POST with appropriate headers
- * 4. Handles timeout and errors
- * 5. Returns delivery result
+ * Only fields present in `updates` whose value actually differs are returned.
+ * Arrays and dates are compared by value. `updatedAt` is ignored.
  *
- * @param webhook - The webhook configuration
- * @param payload - The webhook payload to deliver
- * @param options - Delivery options
- * @returns Delivery result with status, response, and timing
+ * @param existing - The record before the update
+ * @param updates - The values being written
+ * @returns Object mapping field names to old/new values
  *
  * @example
  * ```ts
- * const result = await deliverWebhook(webhook, payload);
- * if (!result.success) {
- *   console.error("Delivery failed:", result.error);
- * }
+ * const changes = collectFieldChanges(existingContact, updateData);
+ * // { tier: { old: "C", new: "A" } }
  * ```
  */
-export async function deliverWebhook(
-	webhook: Webhook,
-	payload: WebhookPayload,
-	options: DispatchOptions = {},
-): Promise<DeliveryResult> {
-	const deliveryId = options.deliveryId ?? payload.id;
-	const body = JSON.stringify(payload);
+export function collectFieldChanges<T extends object>(
+	existing: T,
+	updates: Partial<T>,
+): FieldChanges {
+	const changes: FieldChanges = {};
+
+	for (const [field, value] of Object.entries(updates)) {
+		if (field === "updatedAt" || value === undefined) continue;
+
+		const previous = (existing as Record<string, unknown>)[field] ?? null;
+		if (JSON.stringify(previous) !== JSON.stringify(value)) {
+			changes[field] = { old: previous, new: value };
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Format a full lead payload for webhook events.
+ *
+ * @param lead - The lead to format
+ * @returns Formatted lead payload
+ */
+function formatLeadPayload(lead: Lead): LeadPayload {
+	return {
+		id: lead.id,
+		name: lead.name,
+		email: lead.email,
+		company: lead.company,
+		phone: lead.phone,
+		budget: lead.budget,
+		projectType: lead.projectType,
+		message: lead.message,
+		source: lead.source,
+		status: lead.status,
+		createdAt:
+			lead.createdAt instanceof Date ? lead.createdAt.toISOString() : String(lead.createdAt),
+	};
+}
+
+/**
+ * Format a full contact payload for webhook events.
+ *
+ * @param contact - The contact to format
+ * @returns Formatted contact payload
+ */
+function formatContactPayload(contact: Contact): ContactPayload {
+	return {
+		id: contact.id,
+		name: contact.name,
+		email: contact.email,
+		phone: contact.phone,
+		role: contact.role,
+		linkedinUrl: contact.linkedinUrl,
+		location: contact.location,
+		companyId: contact.companyId,
+		source: contact.source,
+		relationshipStatus: contact.relationshipStatus,
+		warmth: contact.warmth,
+		tier: contact.tier,
+		nextAction: contact.nextAction,
+		nextActionDue: contact.nextActionDue ? toIsoString(contact.nextActionDue) : null,
+		tags: contact.tags || [],
+		lastInteractionAt: contact.lastInteractionAt ? toIsoString(contact.lastInteractionAt) : null,
+		leadId: contact.leadId,
+		createdAt: toIsoString(contact.createdAt),
+	};
+}
+
+/**
+ * Format a full company payload for webhook events.
+ *
+ * @param company - The company to format
+ * @returns Formatted company payload
+ */
+function formatCompanyPayload(company: Company): CompanyPayload {
+	return {
+		id: company.id,
+		name: company.name,
+		industry: company.industry,
+		size: company.size,
+		location: company.location,
+		website: company.website,
+		linkedinUrl: company.linkedinUrl,
+		hiringContractors: company.hiringContractors,
+		contractType: company.contractType,
+		tags: company.tags || [],
+		createdAt: toIsoString(company.createdAt),
+	};
+}
+
+/**
+ * Serialize a timestamp that may already have been stringified.
+ */
+function toIsoString(value: Date | string): string {
+	return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// ============================================================================
+// SIGNATURE GENERATION & VERIFICATION
+// ============================================================================
+
+/**
+ * Headers a receiver needs to verify a signed webhook request.
+ */
+export interface WebhookSignatureHeaders {
+	/** The X-Webhook-ID header value */
+	id: string;
+	/** The X-Webhook-Timestamp header value (unix seconds) */
+	timestamp: string;
+	/** The X-Webhook-Signature header value */
+	signature: string;
+}
+
+/**
+ * Generate an HMAC-SHA256 signature for a webhook request.
+ *
+ * Follows the Standard Webhooks scheme: the signed content is
+ * "{id}.{timestamp}.{body}", so the delivery ID and timestamp cannot be
+ * swapped out without invalidating the signature.
+ *
+ * @param secret - The webhook secret
+ * @param id - The delivery ID sent in X-Webhook-ID
+ * @param timestamp - Unix timestamp in seconds sent in X-Webhook-Timestamp
+ * @param body - The JSON payload body string
+ * @returns Signature string in format "v1,{base64_signature}"
+ *
+ * @example
+ * ```ts
+ * const signature = generateSignature("secret123", payload.id, "1705312800", body);
+ * // "v1,K5oZfzN95Z9UVu1EsfQmfVNQhnkZ2pj9o9NDN/H/pI4="
+ * ```
+ */
+export function generateSignature(
+	secret: string,
+	id: string,
+	timestamp: string,
+	body: string,
+): string {
+	const hmac = createHmac("sha256", secret);
+	hmac.update(`${id}.${timestamp}.${body}`);
+	return `v1,${hmac.digest("base64")}`;
+}
+
+/**
+ * Build the X-Webhook-Signature header value for one or more secrets.
+ *
+ * Signatures are space-delimited, so a receiver that only knows one of the
+ * secrets (e.g. mid-rotation) can still verify the request.
+ *
+ * @param secrets - Active secrets, newest first
+ * @param id - The delivery ID
+ * @param timestamp - Unix timestamp in seconds
+ * @param body - The JSON payload body string
+ * @returns Header value, e.g. "v1,abc= v1,def="
+ */
+export function buildSignatureHeader(
+	secrets: string[],
+	id: string,
+	timestamp: string,
+	body: string,
+): string {
+	return secrets.map((secret) => generateSignature(secret, id, timestamp, body)).join(" ");
+}
+
+/**
+ * Get the secrets a webhook currently signs with.
+ *
+ * The previous secret stays active until its expiry so receivers can roll
+ * over to the new secret without dropping deliveries.
+ *
+ * @param webhook - The webhook configuration
+ * @param now - Reference time (defaults to now)
+ * @returns Active secrets, newest first (empty if unsigned)
+ */
+export function getActiveSecrets(
+	webhook: Pick<Webhook, "secret" | "previousSecret" | "previousSecretExpiresAt">,
+	now: Date = new Date(),
+): string[] {
+	const secrets: string[] = [];
+
+	if (webhook.secret) {
+		secrets.push(webhook.secret);
+	}
+
+	if (
+		webhook.previousSecret &&
+		webhook.previousSecretExpiresAt &&
+		webhook.previousSecretExpiresAt > now
+	) {
+		secrets.push(webhook.previousSecret);
+	}
+
+	return secrets;
+}
+
+/**
+ * Verify a webhook signature using timing-safe comparison.
+ *
+ * Rejects requests whose timestamp is further than `toleranceSeconds` from
+ * the current time (in either direction) to prevent replays. Accepts the
+ * request if any signature in the header matches any of the given secrets.
+ *
+ * @param body - The raw request body string
+ * @param headers - The X-Webhook-ID, X-Webhook-Timestamp and X-Webhook-Signature values
+ * @param secret - The webhook secret, or several secrets during rotation
+ * @param toleranceSeconds - Maximum allowed clock difference (default 5 minutes)
+ * @param now - Reference time in milliseconds (defaults to Date.now())
+ * @returns true if signature is valid and fresh
+ *
+ * @example
+ * ```ts
+ * const isValid = verifyWebhookSignature(
+ *   body,
+ *   {
+ *     id: req.header("X-Webhook-ID"),
+ *     timestamp: req.header("X-Webhook-Timestamp"),
+ *     signature: req.header("X-Webhook-Signature"),
+ *   },
+ *   secret,
+ * );
+ * if (!isValid) throw new Error("Invalid signature");
+ * ```
+ */
+export function verifyWebhookSignature(
+	body: string,
+	headers: WebhookSignatureHeaders,
+	secret: string | string[],
+	toleranceSeconds: number = WEBHOOK_CONFIG.signatureToleranceSeconds,
+	now: number = Date.now(),
+): boolean {
+	if (!/^\d+$/.test(headers.timestamp)) {
+		return false;
+	}
+
+	const ageSeconds = Math.abs(Math.floor(now / 1000) - Number(headers.timestamp));
+	if (ageSeconds > toleranceSeconds) {
+		return false;
+	}
+
+	const secrets = Array.isArray(secret) ? secret : [secret];
+	const received = headers.signature.split(" ").filter((sig) => sig.startsWith("v1,"));
+
+	for (const candidate of secrets) {
+		const expectedBuffer = Buffer.from(
+			generateSignature(candidate, headers.id, headers.timestamp, body),
+		);
+
+		for (const signature of received) {
+			const signatureBuffer = Buffer.from(signature);
+			if (
+				expectedBuffer.length === signatureBuffer.length &&
+				timingSafeEqual(expectedBuffer, signatureBuffer)
+			) {
+				return true;
+			}
+		}
+	}
+
+	return false;
+}
+
+// ============================================================================
+// REQUEST BUILDING
+// ============================================================================
+
+/**
+ * Check whether a header is managed by the dispatcher and cannot be customized.
+ *
+ * @param name - Header name
+ * @returns True if the header is reserved
+ */
+export function isReservedHeader(name: string): boolean {
+	const normalized = name.toLowerCase();
+	return RESERVED_HEADERS.has(normalized) || normalized.startsWith("x-webhook-");
+}
+
+/**
+ * Validate a webhook's custom headers.
+ *
+ * @param headers - Header names and values
+ * @returns Error message, or null if the headers are valid
+ *
+ * @example
+ * ```ts
+ * validateCustomHeaders({ Authorization: "Bearer abc" }); // null
+ * validateCustomHeaders({ "X-Webhook-Signature": "x" }); // 'Header "X-Webhook-Signature" is reserved'
+ * ```
+ */
+export function validateCustomHeaders(headers: Record<string, string>): string | null {
+	const names = Object.keys(headers);
+
+	if (names.length > WEBHOOK_CONFIG.maxCustomHeaders) {
+		return `At most ${WEBHOOK_CONFIG.maxCustomHeaders} custom headers are allowed`;
+	}
+
+	for (const name of names) {
+		if (!HEADER_NAME_PATTERN.test(name)) {
+			return `Invalid header name "${name}"`;
+		}
+		if (isReservedHeader(name)) {
+			return `Header "${name}" is reserved`;
+		}
+		const value = headers[name];
+		if (/[\r\n\0]/.test(value)) {
+			return `Header "${name}" must not contain line breaks`;
+		}
+		if (value.length > WEBHOOK_CONFIG.maxCustomHeaderValueLength) {
+			return `Header "${name}" must be at most ${WEBHOOK_CONFIG.maxCustomHeaderValueLength} characters`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Build the request body for a delivery.
+ *
+ * Uses the webhook's body template when it has one, otherwise the standard
+ * JSON payload.
+ *
+ * @param webhook - The webhook configuration
+ * @param payload - The webhook payload
+ * @returns The JSON request body
+ * @throws WebhookTemplateError if the stored template is invalid
+ */
+export function buildWebhookRequestBody(
+	webhook: Pick<Webhook, "bodyTemplate">,
+	payload: WebhookPayload,
+): string {
+	if (webhook.bodyTemplate) {
+		return renderWebhookTemplate(webhook.bodyTemplate, payload);
+	}
+	return JSON.stringify(payload);
+}
+
+/**
+ * Build the request headers for a delivery.
+ *
+ * Custom headers are applied first so they can never replace the standard
+ * or signature headers.
+ *
+ * @param webhook - The webhook configuration
+ * @param deliveryId - Value of X-Webhook-ID
+ * @param event - The event type
+ * @param body - The exact request body (signed)
+ * @returns Request headers
+ */
+export function buildWebhookRequestHeaders(
+	webhook: Webhook,
+	deliveryId: string,
+	event: WebhookEvent,
+	body: string,
+): Record<string, string> {
+	const timestamp = Math.floor(Date.now() / 1000).toString();
+	const headers: Record<string, string> = {};
+
+	for (const [name, value] of Object.entries(webhook.customHeaders ?? {})) {
+		if (!isReservedHeader(name)) {
+			headers[name] = value;
+		}
+	}
+
+	Object.assign(headers, {
+		"Content-Type": "application/json",
+		"User-Agent": WEBHOOK_CONFIG.userAgent,
+		"X-Webhook-ID": deliveryId,
+		"X-Webhook-Event": event,
+		"X-Webhook-Timestamp": timestamp,
+	});
+
+	// Sign with every active secret (two while a rotation is in progress)
+	const secrets = getActiveSecrets(webhook);
+	if (secrets.length > 0) {
+		headers["X-Webhook-Signature"] = buildSignatureHeader(secrets, deliveryId, timestamp, body);
+	}
+
+	return headers;
+}
+
+/**
+ * Create a sample lead.created payload for test deliveries and template previews.
+ *
+ * @returns A payload with placeholder lead data
+ */
+export function createSampleLeadPayload(): WebhookPayload {
+	const timestamp = new Date().toISOString();
+	return {
+		id: randomUUID(),
+		event: "lead.created",
+		timestamp,
+		data: {
+			lead: {
+				id: "test-lead-00000000-0000-0000-0000-000000000000",
+				name: "Test Lead",
+				email: "test@example.com",
+				company: "Test Company Inc",
+				phone: "+1-555-0123",
+				budget: "$15,000 - $50,000",
+				projectType: "New Product / MVP",
+				message: "This is a test webhook delivery to verify your endpoint.",
+				source: "Test",
+				status: "new",
+				createdAt: timestamp,
+			},
+		},
+	};
+}
+
+// ============================================================================
+// WEBHOOK DELIVERY
+// ============================================================================
+
+/**
+ * Deliver a webhook payload to a specific webhook endpoint.
+ *
+ * This function:
+ * 1. Validates the webhook URL
+ * 2. Renders the body (body template or standard payload)
+ * 3. Signs "{id}.{timestamp}.{body}" with each active secret
+ * 4. Sends HTTP POST with custom and standard headers
+ * 5. Handles timeout and errors
+ * 6. Returns delivery result
+ *
+ * @param webhook - The webhook configuration
+ * @param payload - The webhook payload to deliver
+ * @param options - Delivery options
+ * @returns Delivery result with status, response, and timing
+ *
+ * @example
+ * ```ts
+ * const result = await deliverWebhook(webhook, payload);
+ * if (!result.success) {
+ *   console.error("Delivery failed:", result.error);
+ * }
+ * ```
+ */
+export async function deliverWebhook(
+	webhook: Webhook,
+	payload: WebhookPayload,
+	options: DispatchOptions = {},
+): Promise<DeliveryResult> {
+	const deliveryId = options.deliveryId ?? payload.id;
 	const startTime = Date.now();
 
 	// Validate URL security
@@ -580,20 +1310,25 @@ export async function deliverWebhook(
 		// Continue if DNS check fails - the HTTP request will fail naturally
 	}
 
-	// Build headers
-	const headers: Record<string, string> = {
-		"Content-Type": "application/json",
-		"User-Agent": WEBHOOK_CONFIG.userAgent,
-		"X-Webhook-ID": deliveryId,
-		"X-Webhook-Event": payload.event,
-		"X-Webhook-Timestamp": Math.floor(Date.now() / 1000).toString(),
-	};
-
-	// Add signature if secret is configured
-	if (webhook.secret) {
-		headers["X-Webhook-Signature"] = generateSignature(webhook.secret, body);
+	// Render the body; a template that no longer parses fails the delivery
+	let body: string;
+	try {
+		body = buildWebhookRequestBody(webhook, payload);
+	} catch (error) {
+		if (!(error instanceof WebhookTemplateError)) {
+			throw error;
+		}
+		return {
+			success: false,
+			statusCode: null,
+			responseBody: null,
+			durationMs: Date.now() - startTime,
+			error: `Invalid body template: ${error.message}`,
+		};
 	}
 
+	const headers = buildWebhookRequestHeaders(webhook, deliveryId, payload.event, body);
+
 	// Create AbortController for timeout
 	const controller = new AbortController();
 	const timeoutId = setTimeout(() => {
@@ -657,6 +1392,20 @@ export async function deliverWebhook(
 // DELIVERY LOGGING
 // ============================================================================
 
+/**
+ * Retry metadata recorded alongside a delivery attempt.
+ */
+export interface DeliveryLogOptions {
+	/** Attempt number (1 = initial delivery) */
+	attemptNumber?: number;
+	/** When the next retry was queued for, if any */
+	nextRetryAt?: Date | null;
+	/** Original delivery when this attempt is a redelivery or replay */
+	redeliveryOfId?: string | null;
+	/** Why the delivery was not attempted, if it was skipped */
+	skipReason?: string | null;
+}
+
 /**
  * Log a webhook delivery attempt to the database.
  *
@@ -664,6 +1413,7 @@ export async function deliverWebhook(
  * @param event - The event type
  * @param payload - The delivered payload
  * @param result - The delivery result
+ * @param options - Attempt number and next retry time
  * @returns The created delivery record ID
  *
  * @example
@@ -676,6 +1426,7 @@ export async function logDelivery(
 	event: WebhookEvent,
 	payload: WebhookPayload,
 	result: DeliveryResult,
+	options: DeliveryLogOptions = {},
 ): Promise<string> {
 	const [delivery] = await db
 		.insert(webhookDeliveries)
@@ -686,6 +1437,10 @@ export async function logDelivery(
 			statusCode: result.statusCode,
 			responseBody: result.responseBody,
 			durationMs: result.durationMs,
+			attemptNumber: options.attemptNumber ?? 1,
+			nextRetryAt: options.nextRetryAt ?? null,
+			redeliveryOfId: options.redeliveryOfId ?? null,
+			skipReason: options.skipReason ?? null,
 		})
 		.returning({ id: webhookDeliveries.id });
 
@@ -879,6 +1634,9 @@ export async function incrementFailureCount(
 		notifyAdminWebhookDisabled(webhookInfo).catch((err) => {
 			console.error("Error sending webhook disabled notification:", err);
 		});
+
+		// Also tell notification channels subscribed to webhook.auto_disabled
+		triggerWebhookAutoDisabledNotification(webhookInfo, newFailureCount);
 	}
 
 	return { disabled: shouldDisable };
@@ -932,36 +1690,151 @@ export async function updateWebhookStatus(
 }
 
 // ============================================================================
-// WEBHOOK DISPATCHING
+// FILTERING & FIELD PROJECTION
 // ============================================================================
 
 /**
- * Get all enabled webhooks subscribed to a specific event.
- *
- * @param event - The event type to filter by
- * @returns Array of enabled webhooks subscribed to the event
+ * Get the lead fields a payload carries, for filter evaluation.
  *
- * @example
- * ```ts
- * const webhooks = await getWebhooksForEvent("lead.created");
- * ```
+ * @param payload - The webhook payload
+ * @returns Lead fields, or null for events that don't carry a lead
  */
-export async function getWebhooksForEvent(event: WebhookEvent): Promise<Webhook[]> {
-	const allWebhooks = await db.select().from(webhooks).where(eq(webhooks.enabled, true));
+function getLeadRecord(payload: WebhookPayload): Record<string, unknown> | null {
+	if (!payload.event.startsWith("lead.")) {
+		return null;
+	}
 
-	// Filter to webhooks that include this event
-	return allWebhooks.filter((webhook) => webhook.events.includes(event));
+	if (payload.event === "lead.deleted") {
+		const data = payload.data as LeadDeletedData;
+		return { id: data.leadId, name: data.name, email: data.email };
+	}
+
+	const data = payload.data as { lead?: Record<string, unknown> };
+	return data.lead ?? null;
 }
 
 /**
- * Dispatch a webhook event to all subscribed webhooks.
+ * Check a payload against a webhook's filter expression.
  *
- * This is the main entry point for triggering webhooks. It:
+ * Filters only apply to lead events; other events always pass. A filter
+ * that no longer parses skips the delivery rather than sending data the
+ * subscriber may not be meant to see.
+ *
+ * @param webhook - The webhook configuration
+ * @param payload - The webhook payload
+ * @param record - Lead fields to evaluate (default: the lead the payload carries)
+ * @returns Why the delivery should be skipped, or null to deliver it
+ *
+ * @example
+ * ```ts
+ * const skipReason = getFilterSkipReason(webhook, payload);
+ * if (skipReason) {
+ *   console.log(`Not delivering: ${skipReason}`);
+ * }
+ * ```
+ */
+export function getFilterSkipReason(
+	webhook: Pick<Webhook, "filter">,
+	payload: WebhookPayload,
+	record = getLeadRecord(payload),
+): string | null {
+	if (!webhook.filter) {
+		return null;
+	}
+
+	if (!record) {
+		return null;
+	}
+
+	try {
+		const filter = parseWebhookFilter(webhook.filter, LEAD_PAYLOAD_FIELDS);
+		return evaluateWebhookFilter(filter, record) ? null : `Filtered out by: ${webhook.filter}`;
+	} catch (error) {
+		if (error instanceof WebhookFilterError) {
+			return `Invalid filter: ${error.message}`;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Remove lead fields that are not on a webhook's allow-list.
+ *
+ * Applies to the lead object, the changes of lead.updated and the name and
+ * email of lead.deleted. The lead ID is always kept so subscribers can
+ * correlate events. Other events are returned unchanged.
+ *
+ * @param payload - The webhook payload
+ * @param allowlist - Allowed lead fields, or null/empty for all fields
+ * @returns The projected payload (a copy; the input is not modified)
+ *
+ * @example
+ * ```ts
+ * const projected = applyFieldAllowlist(payload, ["name", "budget", "source"]);
+ * // projected.data.lead has no phone or message
+ * ```
+ */
+export function applyFieldAllowlist(
+	payload: WebhookPayload,
+	allowlist: readonly string[] | null | undefined,
+): WebhookPayload {
+	if (!allowlist || allowlist.length === 0 || !payload.event.startsWith("lead.")) {
+		return payload;
+	}
+
+	const allowed = new Set(["id", ...allowlist]);
+	const pick = (record: object) =>
+		Object.fromEntries(Object.entries(record).filter(([key]) => allowed.has(key)));
+
+	const data: Record<string, unknown> = { ...payload.data };
+
+	if (data.lead && typeof data.lead === "object") {
+		data.lead = pick(data.lead);
+	}
+	if (payload.event === "lead.updated" && data.changes && typeof data.changes === "object") {
+		data.changes = pick(data.changes);
+	}
+	if (payload.event === "lead.deleted") {
+		for (const key of ["name", "email"]) {
+			if (!allowed.has(key)) delete data[key];
+		}
+	}
+
+	return { ...payload, data: data as unknown as WebhookEventData };
+}
+
+// ============================================================================
+// WEBHOOK DISPATCHING
+// ============================================================================
+
+/**
+ * Get all enabled webhooks subscribed to a specific event.
+ *
+ * @param event - The event type to filter by
+ * @returns Array of enabled webhooks subscribed to the event
+ *
+ * @example
+ * ```ts
+ * const webhooks = await getWebhooksForEvent("lead.created");
+ * ```
+ */
+export async function getWebhooksForEvent(event: WebhookEvent): Promise<Webhook[]> {
+	const allWebhooks = await db.select().from(webhooks).where(eq(webhooks.enabled, true));
+
+	// Filter to webhooks that include this event
+	return allWebhooks.filter((webhook) => webhook.events.includes(event));
+}
+
+/**
+ * Dispatch a webhook event to all subscribed webhooks.
+ *
+ * This is the main entry point for triggering webhooks. It:
  * 1. Finds all enabled webhooks subscribed to the event
- * 2. Delivers the payload to each webhook
- * 3. Logs all delivery attempts
+ * 2. Skips webhooks whose filter doesn't match, logging them as skipped
+ * 3. Delivers the payload to each webhook, reduced to its field allow-list
  * 4. Updates failure counts
- * 5. Schedules retries for failed deliveries
+ * 5. Queues durable retries for failed deliveries
+ * 6. Logs all delivery attempts
  *
  * @param event - The event type
  * @param payload - The webhook payload
@@ -991,20 +1864,46 @@ export async function dispatchWebhookEvent(
 
 	// Deliver to all webhooks in parallel
 	const deliveryPromises = eventWebhooks.map(async (webhook) => {
-		const result = await deliverWebhook(webhook, payload, options);
+		const webhookPayload = applyFieldAllowlist(payload, webhook.fieldAllowlist);
 
-		// Log the delivery
-		await logDelivery(webhook.id, event, payload, result);
+		// Record filtered-out events without contacting the endpoint
+		const skipReason = getFilterSkipReason(webhook, payload, options.filterRecord);
+		if (skipReason) {
+			const skipped: DeliveryResult = {
+				success: false,
+				skipped: true,
+				statusCode: null,
+				responseBody: null,
+				durationMs: 0,
+				error: skipReason,
+			};
+			await logDelivery(webhook.id, event, webhookPayload, skipped, { skipReason });
+			return { ...skipped, webhookId: webhook.id };
+		}
+
+		const result = await deliverWebhook(webhook, webhookPayload, options);
 
 		// Update webhook status (failure count, etc.)
 		// Pass webhook info for admin notification if auto-disabled
-		await updateWebhookStatus(webhook.id, result, webhook.failureCount ?? 0, webhook);
-
-		// Schedule retry if failed and retries are not disabled
-		if (!result.success && !options.noRetry) {
-			scheduleRetry(webhook, payload, 1);
+		const { disabled } = await updateWebhookStatus(
+			webhook.id,
+			result,
+			webhook.failureCount ?? 0,
+			webhook,
+		);
+
+		// Queue a retry if failed, retries are not disabled, and the webhook is still enabled
+		let nextRetryAt: Date | null = null;
+		if (!result.success && !options.noRetry && !disabled) {
+			nextRetryAt = await scheduleRetry(webhook, webhookPayload, 1);
 		}
 
+		// Log the delivery
+		await logDelivery(webhook.id, event, webhookPayload, result, {
+			attemptNumber: 1,
+			nextRetryAt,
+		});
+
 		return { ...result, webhookId: webhook.id };
 	});
 
@@ -1027,75 +1926,114 @@ export async function dispatchWebhookEvent(
 // ============================================================================
 
 /**
- * Schedule a webhook retry with exponential backoff.
+ * Queue a webhook retry in the durable outbox.
  *
- * This function schedules a retry using setTimeout. In a production
- * environment, you would want to use a proper job queue (BullMQ, etc.)
- * for reliable retry handling across restarts.
+ * The retry is persisted to `webhook_outbox` and delivered by the retry
+ * worker once it becomes due, so it survives process restarts.
  *
  * @param webhook - The webhook to retry
  * @param payload - The original payload
- * @param attempt - The current attempt number (1-indexed)
+ * @param attempt - The attempt number that just failed (1-indexed)
+ * @returns When the retry is due, or null if retries are exhausted
  *
  * @example
  * ```ts
- * // Schedule retry after first failure
- * scheduleRetry(webhook, payload, 1);
+ * // Queue retry after first failure
+ * await scheduleRetry(webhook, payload, 1);
  * ```
  */
-export function scheduleRetry(webhook: Webhook, payload: WebhookPayload, attempt: number): void {
+export async function scheduleRetry(
+	webhook: Webhook,
+	payload: WebhookPayload,
+	attempt: number,
+): Promise<Date | null> {
 	// Check if we've exceeded max retries
 	if (attempt >= RETRY_DELAYS_MS.length) {
 		console.log(`Webhook ${webhook.id} exceeded max retries (${RETRY_DELAYS_MS.length})`);
-		return;
+		return null;
 	}
 
 	const delay = RETRY_DELAYS_MS[attempt];
+	const nextAttemptAt = new Date(Date.now() + delay);
 
 	console.log(
 		`Scheduling retry ${attempt + 1}/${RETRY_DELAYS_MS.length} for webhook ${webhook.id} in ${delay}ms`,
 	);
 
-	// Schedule the retry
-	setTimeout(async () => {
-		try {
-			await executeRetry(webhook.id, payload, attempt);
-		} catch (error) {
-			console.error(`Retry failed for webhook ${webhook.id}:`, error);
-		}
-	}, delay);
+	await db.insert(webhookOutbox).values({
+		webhookId: webhook.id,
+		event: payload.event,
+		payload: payload as unknown as Record<string, unknown>,
+		attemptNumber: attempt + 1,
+		nextAttemptAt,
+	});
+
+	return nextAttemptAt;
 }
 
 /**
- * Execute a scheduled webhook retry.
+ * Claim due outbox entries for this worker.
  *
- * @param webhookId - The webhook ID
- * @param payload - The original payload
- * @param attempt - The current attempt number
+ * Uses `FOR UPDATE SKIP LOCKED` plus a lease timestamp so concurrent
+ * workers never deliver the same entry, and entries held by a crashed
+ * worker become claimable again once the lease expires.
+ *
+ * @returns The claimed outbox entries
  */
-async function executeRetry(
-	webhookId: string,
-	payload: WebhookPayload,
-	attempt: number,
-): Promise<void> {
-	// Fetch current webhook state (it may have been disabled or deleted)
-	const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, webhookId)).limit(1);
+async function claimDueRetries(): Promise<WebhookOutboxEntry[]> {
+	const now = new Date();
+
+	const dueEntries = db
+		.select({ id: webhookOutbox.id })
+		.from(webhookOutbox)
+		.where(
+			and(
+				lte(webhookOutbox.nextAttemptAt, now),
+				or(isNull(webhookOutbox.lockedUntil), lt(webhookOutbox.lockedUntil, now)),
+			),
+		)
+		.orderBy(asc(webhookOutbox.nextAttemptAt))
+		.limit(WEBHOOK_CONFIG.retryBatchSize)
+		.for("update", { skipLocked: true });
+
+	return db
+		.update(webhookOutbox)
+		.set({
+			lockedUntil: new Date(now.getTime() + WEBHOOK_CONFIG.retryLeaseMs),
+			updatedAt: now,
+		})
+		.where(inArray(webhookOutbox.id, dueEntries))
+		.returning();
+}
 
-	if (!webhook) {
-		console.log(`Webhook ${webhookId} no longer exists, skipping retry`);
-		return;
-	}
+/**
+ * Execute a claimed outbox entry.
+ *
+ * Delivers the stored payload, logs the attempt, and either reschedules
+ * the entry for its next attempt or removes it from the outbox.
+ *
+ * @param entry - The claimed outbox entry
+ */
+async function executeRetry(entry: WebhookOutboxEntry): Promise<void> {
+	const attempt = entry.attemptNumber;
 
-	if (!webhook.enabled) {
-		console.log(`Webhook ${webhookId} is disabled, skipping retry`);
+	// Fetch current webhook state (it may have been disabled or deleted)
+	const [webhook] = await db
+		.select()
+		.from(webhooks)
+		.where(eq(webhooks.id, entry.webhookId))
+		.limit(1);
+
+	if (!webhook || !webhook.enabled) {
+		console.log(`Webhook ${entry.webhookId} is missing or disabled, dropping queued retry`);
+		await db.delete(webhookOutbox).where(eq(webhookOutbox.id, entry.id));
 		return;
 	}
 
+	// Re-apply the allow-list in case it was narrowed since the entry was queued
+	const payload = applyFieldAllowlist(entry.payload as WebhookPayload, webhook.fieldAllowlist);
 	const result = await deliverWebhook(webhook, payload);
 
-	// Log the retry attempt
-	await logDelivery(webhook.id, payload.event, payload, result);
-
 	// Update webhook status
 	// Pass webhook info for admin notification if auto-disabled
 	const { disabled } = await updateWebhookStatus(
@@ -1105,20 +2043,94 @@ async function executeRetry(
 		webhook,
 	);
 
+	const retriesLeft = attempt < RETRY_DELAYS_MS.length;
+	const nextRetryAt =
+		!result.success && !disabled && retriesLeft
+			? new Date(Date.now() + RETRY_DELAYS_MS[attempt])
+			: null;
+
+	// Log the retry attempt
+	await logDelivery(webhook.id, entry.event as WebhookEvent, payload, result, {
+		attemptNumber: attempt,
+		nextRetryAt,
+		redeliveryOfId: entry.redeliveryOfId,
+	});
+
+	if (nextRetryAt) {
+		console.log(`Webhook ${webhook.id} retry ${attempt} failed: ${result.error}`);
+		await db
+			.update(webhookOutbox)
+			.set({
+				attemptNumber: attempt + 1,
+				nextAttemptAt: nextRetryAt,
+				lockedUntil: null,
+				lastError: result.error ?? null,
+				updatedAt: new Date(),
+			})
+			.where(eq(webhookOutbox.id, entry.id));
+		return;
+	}
+
+	await db.delete(webhookOutbox).where(eq(webhookOutbox.id, entry.id));
+
 	if (result.success) {
-		console.log(`Webhook ${webhookId} retry ${attempt + 1} succeeded`);
+		console.log(`Webhook ${webhook.id} retry ${attempt} succeeded`);
+	} else if (disabled) {
+		console.log(`Webhook ${webhook.id} has been auto-disabled due to consecutive failures`);
 	} else {
-		console.log(`Webhook ${webhookId} retry ${attempt + 1} failed: ${result.error}`);
+		console.log(`Webhook ${webhook.id} exceeded max retries (${RETRY_DELAYS_MS.length})`);
+	}
+}
 
-		// Schedule next retry if not disabled
-		if (!disabled) {
-			scheduleRetry(webhook, payload, attempt + 1);
-		} else {
-			console.log(`Webhook ${webhookId} has been auto-disabled due to consecutive failures`);
+/**
+ * Process all currently due webhook retries once.
+ *
+ * @returns Number of outbox entries processed
+ *
+ * @example
+ * ```ts
+ * const processed = await processWebhookRetryQueue();
+ * ```
+ */
+export async function processWebhookRetryQueue(): Promise<number> {
+	const entries = await claimDueRetries();
+
+	for (const entry of entries) {
+		try {
+			await executeRetry(entry);
+		} catch (error) {
+			// Leave the entry locked; it becomes claimable again when the lease expires
+			console.error(`Retry failed for webhook ${entry.webhookId}:`, error);
 		}
 	}
+
+	return entries.length;
 }
 
+const webhookRetryWorker = createIntervalJob(
+	"Webhook retry worker",
+	WEBHOOK_CONFIG.retryPollIntervalMs,
+	() => processWebhookRetryQueue(),
+);
+
+/**
+ * Start the background worker that drains the webhook retry outbox, every
+ * WEBHOOK_CONFIG.retryPollIntervalMs unless an interval is given.
+ *
+ * @example
+ * ```ts
+ * // On server startup
+ * startWebhookRetryWorker();
+ * ```
+ */
+export const startWebhookRetryWorker = webhookRetryWorker.start;
+
+/**
+ * Stop the webhook retry worker.
+ * Entries that are mid-delivery keep their lease and are retried after it expires.
+ */
+export const stopWebhookRetryWorker = webhookRetryWorker.stop;
+
 // ============================================================================
 // CONVENIENCE FUNCTIONS
 // ============================================================================
@@ -1166,6 +2178,9 @@ export async function triggerLeadUpdated(
 /**
  * Trigger webhooks for a lead.status_changed event.
  *
+ * The payload only carries a summary of the lead, so filters are evaluated
+ * against the full lead.
+ *
  * @param lead - The lead with updated status
  * @param previousStatus - The previous status
  * @param newStatus - The new status
@@ -1183,37 +2198,42 @@ export async function triggerLeadStatusChanged(
 	newStatus: string,
 ): Promise<void> {
 	const payload = formatLeadStatusChangedPayload(lead, previousStatus, newStatus);
-	await dispatchWebhookEvent("lead.status_changed", payload);
+	await dispatchWebhookEvent("lead.status_changed", payload, {
+		filterRecord: { ...formatLeadPayload(lead) },
+	});
 }
 
 /**
  * Trigger webhooks for a lead.deleted event.
  *
- * @param leadId - The deleted lead's ID
- * @param name - The deleted lead's name
- * @param email - The deleted lead's email
+ * The payload only carries the lead's ID, name and email, but filters are
+ * evaluated against the full lead so they match the same leads as for the
+ * other lead events.
+ *
+ * @param lead - The deleted lead, captured before deletion
  * @returns Dispatch results
  *
  * @example
  * ```ts
- * // Before deleting a lead (capture info first)
- * const { id, name, email } = lead;
+ * // Before deleting a lead (capture it first)
+ * const lead = await getLeadOrThrow(id);
  * await deleteLead(id);
- * await triggerLeadDeleted(id, name, email);
+ * await triggerLeadDeleted(lead);
  * ```
  */
-export async function triggerLeadDeleted(
-	leadId: string,
-	name: string,
-	email: string,
-): Promise<void> {
-	const payload = formatLeadDeletedPayload(leadId, name, email);
-	await dispatchWebhookEvent("lead.deleted", payload);
+export async function triggerLeadDeleted(lead: Lead): Promise<void> {
+	const payload = formatLeadDeletedPayload(lead.id, lead.name, lead.email);
+	await dispatchWebhookEvent("lead.deleted", payload, {
+		filterRecord: { ...formatLeadPayload(lead) },
+	});
 }
 
 /**
  * Trigger webhooks for a lead.activity_added event.
  *
+ * The payload only carries a summary of the lead, so filters are evaluated
+ * against the full lead.
+ *
  * @param lead - The lead the activity was added to
  * @param activity - The added activity
  * @returns Dispatch results
@@ -1227,7 +2247,142 @@ export async function triggerLeadDeleted(
  */
 export async function triggerLeadActivityAdded(lead: Lead, activity: LeadActivity): Promise<void> {
 	const payload = formatLeadActivityAddedPayload(lead, activity);
-	await dispatchWebhookEvent("lead.activity_added", payload);
+	await dispatchWebhookEvent("lead.activity_added", payload, {
+		filterRecord: { ...formatLeadPayload(lead) },
+	});
+}
+
+/**
+ * Trigger webhooks for a contact.created event.
+ *
+ * @param contact - The created contact
+ * @returns Dispatch results
+ *
+ * @example
+ * ```ts
+ * await triggerContactCreated(newContact);
+ * ```
+ */
+export async function triggerContactCreated(contact: Contact): Promise<void> {
+	const payload = formatContactCreatedPayload(contact);
+	await dispatchWebhookEvent("contact.created", payload);
+}
+
+/**
+ * Trigger webhooks for a contact.updated event.
+ *
+ * @param contact - The updated contact
+ * @param changes - Object mapping field names to old/new values
+ * @returns Dispatch results
+ *
+ * @example
+ * ```ts
+ * await triggerContactUpdated(updated, collectFieldChanges(existing, updateData));
+ * ```
+ */
+export async function triggerContactUpdated(
+	contact: Contact,
+	changes: FieldChanges,
+): Promise<void> {
+	const payload = formatContactUpdatedPayload(contact, changes);
+	await dispatchWebhookEvent("contact.updated", payload);
+}
+
+/**
+ * Trigger webhooks for a contact.status_changed event.
+ *
+ * @param contact - The contact with updated relationship status
+ * @param previousStatus - The previous relationship status
+ * @param newStatus - The new relationship status
+ * @returns Dispatch results
+ *
+ * @example
+ * ```ts
+ * await triggerContactStatusChanged(contact, "identified", "first_interaction");
+ * ```
+ */
+export async function triggerContactStatusChanged(
+	contact: Contact,
+	previousStatus: string,
+	newStatus: string,
+): Promise<void> {
+	const payload = formatContactStatusChangedPayload(contact, previousStatus, newStatus);
+	await dispatchWebhookEvent("contact.status_changed", payload);
+}
+
+/**
+ * Trigger webhooks for a contact.interaction_added event.
+ *
+ * @param contact - The contact the interaction was logged for
+ * @param interaction - The added interaction
+ * @returns Dispatch results
+ *
+ * @example
+ * ```ts
+ * await triggerContactInteractionAdded(contact, interaction);
+ * ```
+ */
+export async function triggerContactInteractionAdded(
+	contact: Contact,
+	interaction: ContactInteraction,
+): Promise<void> {
+	const payload = formatContactInteractionAddedPayload(contact, interaction);
+	await dispatchWebhookEvent("contact.interaction_added", payload);
+}
+
+/**
+ * Trigger webhooks for a company.created event.
+ *
+ * @param company - The created company
+ * @returns Dispatch results
+ *
+ * @example
+ * ```ts
+ * await triggerCompanyCreated(newCompany);
+ * ```
+ */
+export async function triggerCompanyCreated(company: Company): Promise<void> {
+	const payload = formatCompanyCreatedPayload(company);
+	await dispatchWebhookEvent("company.created", payload);
+}
+
+/**
+ * Trigger webhooks for a company.updated event.
+ *
+ * @param company - The updated company
+ * @param changes - Object mapping field names to old/new values
+ * @returns Dispatch results
+ *
+ * @example
+ * ```ts
+ * await triggerCompanyUpdated(updated, { industry: { old: null, new: "Fintech" } });
+ * ```
+ */
+export async function triggerCompanyUpdated(
+	company: Company,
+	changes: FieldChanges,
+): Promise<void> {
+	const payload = formatCompanyUpdatedPayload(company, changes);
+	await dispatchWebhookEvent("company.updated", payload);
+}
+
+/**
+ * Trigger webhooks for a company.deleted event.
+ *
+ * @param companyId - The deleted company's ID
+ * @param name - The deleted company's name
+ * @returns Dispatch results
+ *
+ * @example
+ * ```ts
+ * // Capture info before deleting
+ * const { id, name } = company;
+ * await triggerCompanyDeleted(id, name);
+ * ```
+ */
+export async function triggerCompanyDeleted(companyId: string, name: string): Promise<void> {
+	const payload = formatCompanyDeletedPayload(companyId, name);
+	await dispatchWebhookEvent("company.deleted", payload);
 }
 
 // ============================================================================
@@ -1243,6 +2398,14 @@ export interface CreateWebhookOptions {
 	events: WebhookEvent[];
 	secret?: string;
 	enabled?: boolean;
+	/** Filter expression over lead fields (see webhook-filters.ts) */
+	filter?: string | null;
+	/** Lead fields to send; all fields when null or empty */
+	fieldAllowlist?: string[] | null;
+	/** Extra request headers, e.g. Authorization */
+	customHeaders?: Record<string, string> | null;
+	/** JSON body template (see webhook-templates.ts) */
+	bodyTemplate?: string | null;
 }
 
 /**
@@ -1275,6 +2438,9 @@ export async function createWebhook(options: CreateWebhookOptions): Promise<Webh
 		}
 	}
 
+	validateDeliveryFiltering(options);
+	validateRequestCustomization(options);
+
 	const [webhook] = await db
 		.insert(webhooks)
 		.values({
@@ -1283,6 +2449,10 @@ export async function createWebhook(options: CreateWebhookOptions): Promise<Webh
 			events: options.events,
 			secret: options.secret ?? null,
 			enabled: options.enabled ?? true,
+			filter: options.filter || null,
+			fieldAllowlist: options.fieldAllowlist?.length ? options.fieldAllowlist : null,
+			customHeaders: hasEntries(options.customHeaders) ? options.customHeaders : null,
+			bodyTemplate: options.bodyTemplate || null,
 		})
 		.returning();
 
@@ -1298,6 +2468,11 @@ export interface UpdateWebhookOptions {
 	events?: WebhookEvent[];
 	secret?: string | null;
 	enabled?: boolean;
+	filter?: string | null;
+	fieldAllowlist?: string[] | null;
+	/** Replaces all custom headers */
+	customHeaders?: Record<string, string> | null;
+	bodyTemplate?: string | null;
 }
 
 /**
@@ -1336,12 +2511,21 @@ export async function updateWebhook(
 		}
 	}
 
+	validateDeliveryFiltering(options);
+	validateRequestCustomization(options);
+
 	const updates: Partial<{
 		name: string;
 		url: string;
 		events: string[];
 		secret: string | null;
+		previousSecret: string | null;
+		previousSecretExpiresAt: Date | null;
 		enabled: boolean;
+		filter: string | null;
+		fieldAllowlist: string[] | null;
+		customHeaders: Record<string, string> | null;
+		bodyTemplate: string | null;
 		updatedAt: Date;
 	}> = {
 		updatedAt: new Date(),
@@ -1350,14 +2534,92 @@ export async function updateWebhook(
 	if (options.name !== undefined) updates.name = options.name;
 	if (options.url !== undefined) updates.url = options.url;
 	if (options.events !== undefined) updates.events = options.events;
-	if (options.secret !== undefined) updates.secret = options.secret;
+	if (options.secret !== undefined) {
+		// Replacing the secret outright ends any rotation in progress
+		updates.secret = options.secret;
+		updates.previousSecret = null;
+		updates.previousSecretExpiresAt = null;
+	}
 	if (options.enabled !== undefined) updates.enabled = options.enabled;
+	if (options.filter !== undefined) updates.filter = options.filter || null;
+	if (options.fieldAllowlist !== undefined) {
+		updates.fieldAllowlist = options.fieldAllowlist?.length ? options.fieldAllowlist : null;
+	}
+	if (options.customHeaders !== undefined) {
+		updates.customHeaders = hasEntries(options.customHeaders) ? options.customHeaders : null;
+	}
+	if (options.bodyTemplate !== undefined) updates.bodyTemplate = options.bodyTemplate || null;
 
 	const [webhook] = await db.update(webhooks).set(updates).where(eq(webhooks.id, id)).returning();
 
 	return webhook ?? null;
 }
 
+/**
+ * Validate a webhook's filter expression and field allow-list.
+ *
+ * @param options - Filter and allow-list to check
+ * @throws Error if the filter doesn't parse or a field is unknown
+ */
+function validateDeliveryFiltering(options: {
+	filter?: string | null;
+	fieldAllowlist?: string[] | null;
+}): void {
+	if (options.filter) {
+		try {
+			parseWebhookFilter(options.filter, LEAD_PAYLOAD_FIELDS);
+		} catch (error) {
+			if (error instanceof WebhookFilterError) {
+				throw new Error(`Invalid webhook filter: ${error.message}`);
+			}
+			throw error;
+		}
+	}
+
+	const knownFields = new Set<string>(LEAD_PAYLOAD_FIELDS);
+	for (const field of options.fieldAllowlist ?? []) {
+		if (!knownFields.has(field)) {
+			throw new Error(`Invalid webhook field: ${field}`);
+		}
+	}
+}
+
+/**
+ * Validate a webhook's custom headers and body template.
+ *
+ * @param options - Headers and template to check
+ * @throws Error if a header is invalid or the template doesn't parse
+ */
+function validateRequestCustomization(options: {
+	customHeaders?: Record<string, string> | null;
+	bodyTemplate?: string | null;
+}): void {
+	if (options.customHeaders) {
+		const error = validateCustomHeaders(options.customHeaders);
+		if (error) {
+			throw new Error(`Invalid webhook headers: ${error}`);
+		}
+	}
+
+	if (options.bodyTemplate) {
+		try {
+			parseWebhookTemplate(options.bodyTemplate);
+		} catch (error) {
+			if (error instanceof WebhookTemplateError) {
+				throw new Error(`Invalid webhook body template: ${error.message}`);
+			}
+			throw error;
+		}
+	}
+}
+
+/**
+ * Check whether an optional record has any entries.
+ */
+function hasEntries(record: Record<string, string> | null | undefined): boolean {
+	return !!record && Object.keys(record).length > 0;
+}
+
 /**
  * Get a webhook by ID.
  *
@@ -1420,27 +2682,7 @@ export async function sendTestWebhook(id: string): Promise<DeliveryResult | null
 	}
 
 	// Create test payload
-	const testPayload: WebhookPayload = {
-		id: randomUUID(),
-		event: "lead.created",
-		timestamp: new Date().toISOString(),
-		data: {
-			lead: {
-				id: "test-lead-id",
-				name: "Test Lead",
-				email: "test@example.com",
-				company: "Test Company",
-				phone: "+1-555-0000",
-				budget: "$10,000 - $25,000",
-				projectType: "Test Project",
-				message: "This is a test webhook delivery",
-				source: "Webhook Test",
-				status: "new",
-				createdAt: new Date().toISOString(),
-			},
-		},
-	};
-
+	const testPayload = applyFieldAllowlist(createSampleLeadPayload(), webhook.fieldAllowlist);
 	const result = await deliverWebhook(webhook, testPayload, { noRetry: true });
 
 	// Log the test delivery
@@ -1476,6 +2718,16 @@ export async function getDeliveryHistory(
 		statusCode: number | null;
 		durationMs: number | null;
 		attemptedAt: Date;
+		attemptNumber: number;
+		nextRetryAt: Date | null;
+		skipReason: string | null;
+	}>;
+	queued: Array<{
+		id: string;
+		event: string;
+		attemptNumber: number;
+		nextAttemptAt: Date;
+		lastError: string | null;
 	}>;
 	pagination: {
 		page: number;
@@ -1503,6 +2755,9 @@ export async function getDeliveryHistory(
 			statusCode: webhookDeliveries.statusCode,
 			durationMs: webhookDeliveries.durationMs,
 			attemptedAt: webhookDeliveries.attemptedAt,
+			attemptNumber: webhookDeliveries.attemptNumber,
+			nextRetryAt: webhookDeliveries.nextRetryAt,
+			skipReason: webhookDeliveries.skipReason,
 		})
 		.from(webhookDeliveries)
 		.where(eq(webhookDeliveries.webhookId, webhookId))
@@ -1510,8 +2765,12 @@ export async function getDeliveryHistory(
 		.limit(limit)
 		.offset(offset);
 
+	// Get attempts still waiting in the retry outbox
+	const queued = await getQueuedRetries(webhookId);
+
 	return {
 		deliveries,
+		queued,
 		pagination: {
 			page,
 			limit,
@@ -1520,6 +2779,34 @@ export async function getDeliveryHistory(
 	};
 }
 
+/**
+ * Get retries queued in the outbox for a webhook, soonest first.
+ *
+ * @param webhookId - The webhook ID
+ * @returns Pending outbox entries
+ */
+export async function getQueuedRetries(webhookId: string): Promise<
+	Array<{
+		id: string;
+		event: string;
+		attemptNumber: number;
+		nextAttemptAt: Date;
+		lastError: string | null;
+	}>
+> {
+	return db
+		.select({
+			id: webhookOutbox.id,
+			event: webhookOutbox.event,
+			attemptNumber: webhookOutbox.attemptNumber,
+			nextAttemptAt: webhookOutbox.nextAttemptAt,
+			lastError: webhookOutbox.lastError,
+		})
+		.from(webhookOutbox)
+		.where(eq(webhookOutbox.webhookId, webhookId))
+		.orderBy(asc(webhookOutbox.nextAttemptAt));
+}
+
 /**
  * Re-enable a webhook that was auto-disabled.
  * Also resets the failure count.
@@ -1540,3 +2827,477 @@ export async function reenableWebhook(id: string): Promise<Webhook | null> {
 
 	return webhook ?? null;
 }
+
+/**
+ * Generate a random webhook signing secret.
+ *
+ * @returns A 64-character hex secret
+ */
+export function generateWebhookSecret(): string {
+	return randomBytes(32).toString("hex");
+}
+
+/**
+ * Rotate a webhook's signing secret without downtime.
+ *
+ * The current secret becomes the previous secret and keeps signing
+ * deliveries (alongside the new one) until the grace period ends, giving
+ * receivers time to switch over.
+ *
+ * @param id - The webhook ID
+ * @param newSecret - The new secret (generated if omitted)
+ * @param graceMs - How long the previous secret stays active
+ * @returns The updated webhook or null if not found
+ *
+ * @example
+ * ```ts
+ * const webhook = await rotateWebhookSecret(id);
+ * // Share webhook.secret with the receiver; the old secret works for 24h
+ * ```
+ */
+export async function rotateWebhookSecret(
+	id: string,
+	newSecret: string = generateWebhookSecret(),
+	graceMs: number = WEBHOOK_CONFIG.secretRotationGraceMs,
+): Promise<Webhook | null> {
+	const existing = await getWebhook(id);
+	if (!existing) {
+		return null;
+	}
+
+	const now = new Date();
+	const [webhook] = await db
+		.update(webhooks)
+		.set({
+			secret: newSecret,
+			previousSecret: existing.secret,
+			previousSecretExpiresAt: existing.secret ? new Date(now.getTime() + graceMs) : null,
+			updatedAt: now,
+		})
+		.where(eq(webhooks.id, id))
+		.returning();
+
+	return webhook ?? null;
+}
+
+/**
+ * End a secret rotation early by dropping the previous secret.
+ *
+ * @param id - The webhook ID
+ * @returns The updated webhook or null if not found
+ */
+export async function revokePreviousWebhookSecret(id: string): Promise<Webhook | null> {
+	const [webhook] = await db
+		.update(webhooks)
+		.set({
+			previousSecret: null,
+			previousSecretExpiresAt: null,
+			updatedAt: new Date(),
+		})
+		.where(eq(webhooks.id, id))
+		.returning();
+
+	return webhook ?? null;
+}
+
+// ============================================================================
+// REDELIVERY & REPLAY
+// ============================================================================
+
+/**
+ * Redeliver a single logged delivery.
+ *
+ * Reuses the stored payload (same ID, so receivers can deduplicate), signs it
+ * with the webhook's current secret, and logs a new delivery row linked to
+ * the original. Manual redeliveries are attempted once and never queue retries.
+ *
+ * @param webhookId - The webhook ID
+ * @param deliveryId - The delivery to redeliver
+ * @returns Delivery result with the new delivery ID, or null if not found
+ *
+ * @example
+ * ```ts
+ * const result = await redeliverWebhookDelivery(webhookId, deliveryId);
+ * if (result?.success) {
+ *   console.log("Redelivered as", result.deliveryId);
+ * }
+ * ```
+ */
+export async function redeliverWebhookDelivery(
+	webhookId: string,
+	deliveryId: string,
+): Promise<(DeliveryResult & { deliveryId: string }) | null> {
+	const webhook = await getWebhook(webhookId);
+	if (!webhook) {
+		return null;
+	}
+
+	const [original] = await db
+		.select()
+		.from(webhookDeliveries)
+		.where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.webhookId, webhookId)))
+		.limit(1);
+
+	if (!original) {
+		return null;
+	}
+
+	const payload = applyFieldAllowlist(original.payload as WebhookPayload, webhook.fieldAllowlist);
+	const result = await deliverWebhook(webhook, payload, { noRetry: true });
+
+	await updateWebhookStatus(webhook.id, result, webhook.failureCount ?? 0, webhook);
+
+	const newDeliveryId = await logDelivery(
+		webhook.id,
+		original.event as WebhookEvent,
+		payload,
+		result,
+		{ redeliveryOfId: original.id },
+	);
+
+	return { ...result, deliveryId: newDeliveryId };
+}
+
+/**
+ * SQL expression for the event ID in a delivery's payload. Every attempt,
+ * retry and replay of an event carries the same ID.
+ */
+function deliveryPayloadId(payload: AnyPgColumn) {
+	return sql<string>`${payload}->>'id'`;
+}
+
+/**
+ * Queue every failed delivery in a time range for redelivery.
+ *
+ * Deliveries are grouped by payload ID so each event is replayed once,
+ * using its most recent failed attempt as the original. Events that were
+ * eventually delivered, or that already have a retry pending, are skipped.
+ * Deliveries skipped by the webhook's filter are not failures and are ignored.
+ * Grouping happens in the database, so only the events to replay are loaded.
+ * Replays go through the retry outbox, so they follow the normal retry
+ * schedule if the endpoint is still failing.
+ *
+ * @param webhookId - The webhook ID
+ * @param range - Inclusive time range of original delivery attempts
+ * @returns Number of deliveries queued, or null if the webhook does not exist
+ * @throws BadRequestError if the webhook is disabled (the worker would drop the replays)
+ *
+ * @example
+ * ```ts
+ * // Replay everything that failed during yesterday's outage
+ * const result = await replayFailedDeliveries(webhookId, { from, to });
+ * console.log(`${result?.queued} deliveries queued`);
+ * ```
+ */
+export async function replayFailedDeliveries(
+	webhookId: string,
+	range: { from: Date; to: Date },
+): Promise<{ queued: number; skipped: number } | null> {
+	const webhook = await getWebhook(webhookId);
+	if (!webhook) {
+		return null;
+	}
+	if (!webhook.enabled) {
+		throw new BadRequestError("Webhook is disabled. Enable it before replaying deliveries.");
+	}
+
+	const payloadId = deliveryPayloadId(webhookDeliveries.payload);
+	const failedInRange = and(
+		eq(webhookDeliveries.webhookId, webhookId),
+		failedDeliveryCondition(),
+		gte(webhookDeliveries.attemptedAt, range.from),
+		lte(webhookDeliveries.attemptedAt, range.to),
+	);
+
+	// Any 2xx attempt of the event, including retries after the range
+	const succeeded = alias(webhookDeliveries, "succeeded");
+	const wasDelivered = db
+		.select({ id: succeeded.id })
+		.from(succeeded)
+		.where(
+			and(
+				eq(succeeded.webhookId, webhookId),
+				eq(deliveryPayloadId(succeeded.payload), payloadId),
+				succeededDeliveryCondition(succeeded),
+			),
+		);
+	const isPending = db
+		.select({ id: webhookOutbox.id })
+		.from(webhookOutbox)
+		.where(
+			and(
+				eq(webhookOutbox.webhookId, webhookId),
+				eq(deliveryPayloadId(webhookOutbox.payload), payloadId),
+			),
+		);
+
+	const latestFailures = db
+		.selectDistinctOn([payloadId], {
+			id: webhookDeliveries.id,
+			event: webhookDeliveries.event,
+			payload: webhookDeliveries.payload,
+			attemptedAt: webhookDeliveries.attemptedAt,
+		})
+		.from(webhookDeliveries)
+		.where(and(failedInRange, notExists(wasDelivered), notExists(isPending)))
+		.orderBy(payloadId, desc(webhookDeliveries.attemptedAt))
+		.as("latest_failures");
+
+	const toReplay = await db
+		.select()
+		.from(latestFailures)
+		.orderBy(asc(latestFailures.attemptedAt))
+		.limit(WEBHOOK_CONFIG.maxReplayBatch);
+
+	const [{ failed }] = await db
+		.select({ failed: sql<number>`count(distinct ${payloadId})::int` })
+		.from(webhookDeliveries)
+		.where(failedInRange);
+
+	if (toReplay.length > 0) {
+		const now = new Date();
+		await db.insert(webhookOutbox).values(
+			toReplay.map((attempt) => ({
+				webhookId,
+				event: attempt.event,
+				payload: attempt.payload as Record<string, unknown>,
+				attemptNumber: 1,
+				nextAttemptAt: now,
+				redeliveryOfId: attempt.id,
+			})),
+		);
+	}
+
+	return { queued: toReplay.length, skipped: failed - toReplay.length };
+}
+
+// ============================================================================
+// RETENTION & STATISTICS
+// ============================================================================
+
+/**
+ * Read the delivery retention policy from settings.
+ * Missing or invalid values fall back to DEFAULT_DELIVERY_RETENTION.
+ *
+ * @returns The retention policy in days
+ */
+export async function getDeliveryRetention(): Promise<DeliveryRetention> {
+	const [setting] = await db
+		.select()
+		.from(settings)
+		.where(eq(settings.key, DELIVERY_RETENTION_SETTING))
+		.limit(1);
+
+	const value = (setting?.value ?? {}) as Partial<DeliveryRetention>;
+	return {
+		successDays: isRetentionDays(value.successDays)
+			? value.successDays
+			: DEFAULT_DELIVERY_RETENTION.successDays,
+		failureDays: isRetentionDays(value.failureDays)
+			? value.failureDays
+			: DEFAULT_DELIVERY_RETENTION.failureDays,
+	};
+}
+
+/**
+ * Store the delivery retention policy.
+ *
+ * @param retention - Days to keep successful and failed deliveries
+ * @returns The stored policy
+ * @throws Error if either value is not a whole number of days within range
+ */
+export async function setDeliveryRetention(
+	retention: DeliveryRetention,
+): Promise<DeliveryRetention> {
+	if (!isRetentionDays(retention.successDays) || !isRetentionDays(retention.failureDays)) {
+		throw new Error(
+			`Retention must be between 1 and ${WEBHOOK_CONFIG.maxRetentionDays} whole days`,
+		);
+	}
+
+	const value = { successDays: retention.successDays, failureDays: retention.failureDays };
+	const now = new Date();
+	await db
+		.insert(settings)
+		.values({ key: DELIVERY_RETENTION_SETTING, value, updatedAt: now })
+		.onConflictDoUpdate({ target: settings.key, set: { value, updatedAt: now } });
+
+	return value;
+}
+
+/**
+ * Check that a value is a valid retention period.
+ */
+function isRetentionDays(value: unknown): value is number {
+	return (
+		typeof value === "number" &&
+		Number.isInteger(value) &&
+		value >= 1 &&
+		value <= WEBHOOK_CONFIG.maxRetentionDays
+	);
+}
+
+/**
+ * Outcome columns of the delivery log (or an alias of it).
+ */
+type DeliveryOutcomeColumns = { statusCode: AnyPgColumn; skipReason: AnyPgColumn };
+
+/**
+ * SQL condition matching deliveries that received a 2xx response.
+ */
+function succeededDeliveryCondition(table: DeliveryOutcomeColumns = webhookDeliveries) {
+	return and(gte(table.statusCode, 200), lt(table.statusCode, 300));
+}
+
+/**
+ * SQL condition matching attempted deliveries that got no 2xx response.
+ */
+function failedDeliveryCondition(table: DeliveryOutcomeColumns = webhookDeliveries) {
+	return and(
+		isNull(table.skipReason),
+		or(isNull(table.statusCode), lt(table.statusCode, 200), gte(table.statusCode, 300)),
+	);
+}
+
+/**
+ * Delete delivery log rows older than the retention policy.
+ *
+ * Successful and skipped deliveries are kept for `successDays`, failed
+ * attempts for `failureDays`. A successful or skipped delivery is also kept
+ * while a failed attempt of the same event is retained, so replaying that
+ * failure still sees the event as delivered. Pending retries live in the
+ * outbox and are not affected.
+ *
+ * @param retention - Policy to apply (default: the configured policy)
+ * @param now - Reference time (for testing)
+ * @returns Number of deleted rows by outcome
+ *
+ * @example
+ * ```ts
+ * const { succeeded, failed } = await purgeWebhookDeliveries();
+ * ```
+ */
+export async function purgeWebhookDeliveries(
+	retention?: DeliveryRetention,
+	now: Date = new Date(),
+): Promise<{ succeeded: number; failed: number }> {
+	const policy = retention ?? (await getDeliveryRetention());
+	const successCutoff = new Date(now.getTime() - policy.successDays * 24 * 60 * 60 * 1000);
+	const failureCutoff = new Date(now.getTime() - policy.failureDays * 24 * 60 * 60 * 1000);
+
+	// A retained failure of the same event still needs its delivery on record
+	const failedSibling = alias(webhookDeliveries, "failed_sibling");
+	const hasRetainedFailure = db
+		.select({ id: failedSibling.id })
+		.from(failedSibling)
+		.where(
+			and(
+				eq(failedSibling.webhookId, webhookDeliveries.webhookId),
+				eq(deliveryPayloadId(failedSibling.payload), deliveryPayloadId(webhookDeliveries.payload)),
+				failedDeliveryCondition(failedSibling),
+				gte(failedSibling.attemptedAt, failureCutoff),
+			),
+		);
+
+	const succeeded = await db
+		.delete(webhookDeliveries)
+		.where(
+			and(
+				lt(webhookDeliveries.attemptedAt, successCutoff),
+				or(isNotNull(webhookDeliveries.skipReason), succeededDeliveryCondition()),
+				notExists(hasRetainedFailure),
+			),
+		)
+		.returning({ id: webhookDeliveries.id });
+
+	const failed = await db
+		.delete(webhookDeliveries)
+		.where(and(lt(webhookDeliveries.attemptedAt, failureCutoff), failedDeliveryCondition()))
+		.returning({ id: webhookDeliveries.id });
+
+	return { succeeded: succeeded.length, failed: failed.length };
+}
+
+/**
+ * Compute delivery statistics per webhook.
+ *
+ * Statistics cover the last min(successDays, failureDays) days, the window
+ * in which both successes and failures are still retained, so purging one
+ * outcome earlier does not skew the success rate. Skipped deliveries are
+ * not counted.
+ *
+ * @param retention - Policy defining the window (default: the configured policy)
+ * @returns Statistics for each webhook with attempts in the window, and the window length
+ *
+ * @example
+ * ```ts
+ * const { stats, windowDays } = await getWebhookDeliveryStats();
+ * ```
+ */
+export async function getWebhookDeliveryStats(retention?: DeliveryRetention): Promise<{
+	stats: WebhookDeliveryStats[];
+	windowDays: number;
+}> {
+	const policy = retention ?? (await getDeliveryRetention());
+	const windowDays = Math.min(policy.successDays, policy.failureDays);
+	const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+	const rows = await db
+		.select({
+			webhookId: webhookDeliveries.webhookId,
+			total: sql<number>`cast(count(*) as integer)`,
+			succeeded: sql<number>`cast(count(*) filter (where ${succeededDeliveryCondition()}) as integer)`,
+			p50DurationMs: sql<
+				number | null
+			>`percentile_cont(0.5) within group (order by ${webhookDeliveries.durationMs})`,
+			p95DurationMs: sql<
+				number | null
+			>`percentile_cont(0.95) within group (order by ${webhookDeliveries.durationMs})`,
+		})
+		.from(webhookDeliveries)
+		.where(and(gte(webhookDeliveries.attemptedAt, since), isNull(webhookDeliveries.skipReason)))
+		.groupBy(webhookDeliveries.webhookId);
+
+	return {
+		stats: rows.map((row) => ({
+			webhookId: row.webhookId,
+			total: row.total,
+			succeeded: row.succeeded,
+			failed: row.total - row.succeeded,
+			successRate: row.total > 0 ? row.succeeded / row.total : null,
+			p50DurationMs: row.p50DurationMs === null ? null : Math.round(Number(row.p50DurationMs)),
+			p95DurationMs: row.p95DurationMs === null ? null : Math.round(Number(row.p95DurationMs)),
+		})),
+		windowDays,
+	};
+}
+
+const deliveryPurgeJob = createIntervalJob(
+	"Webhook delivery purge",
+	WEBHOOK_CONFIG.purgeIntervalMs,
+	async () => {
+		const { succeeded, failed } = await purgeWebhookDeliveries();
+		if (succeeded + failed > 0) {
+			console.log(
+				`Purged ${succeeded + failed} webhook deliveries (${succeeded} succeeded, ${failed} failed)`,
+			);
+		}
+	},
+);
+
+/**
+ * Start the scheduled job that purges deliveries past their retention, every
+ * WEBHOOK_CONFIG.purgeIntervalMs unless an interval is given.
+ *
+ * @example
+ * ```ts
+ * // On server startup
+ * startWebhookDeliveryPurgeJob();
+ * ```
+ */
+export const startWebhookDeliveryPurgeJob = deliveryPurgeJob.start;
+
+/**
+ * Stop the webhook delivery purge job.
+ */
+export const stopWebhookDeliveryPurgeJob = deliveryPurgeJob.stop;
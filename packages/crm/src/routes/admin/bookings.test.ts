@@ -0,0 +1,228 @@
+/**
+ * Tests for admin bookings routes.
+ *
+ * Tests listing bookings, the upcoming filter, query validation and auth
+ * using mocked database and session middleware.
+ */
+
+import { Hono } from "hono";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Valid UUIDs for testing
+const VALID_UUID = "550e8400-e29b-41d4-a716-446655440000";
+const LEAD_UUID = "550e8400-e29b-41d4-a716-446655440001";
+const CONTACT_UUID = "550e8400-e29b-41d4-a716-446655440002";
+
+// Mock session/auth modules BEFORE imports
+vi.mock("../../lib/session", () => ({
+	validateSession: vi.fn(),
+	refreshSession: vi.fn(),
+	shouldRefreshSession: vi.fn(),
+	SESSION_CONFIG: {
+		defaultDurationMs: 24 * 60 * 60 * 1000,
+		rememberMeDurationMs: 30 * 24 * 60 * 60 * 1000,
+		tokenBytes: 32,
+		cookieName: "session",
+		refreshThresholdMs: 60 * 60 * 1000,
+	},
+}));
+
+// Mock the database
+vi.mock("../../db", () => ({
+	db: {
+		select: vi.fn(),
+	},
+	bookings: {
+		id: "id",
+		leadId: "lead_id",
+		contactId: "contact_id",
+		status: "status",
+		startTime: "start_time",
+	},
+	leads: { id: "id", name: "name" },
+	contacts: { id: "id", name: "name" },
+}));
+
+import { db } from "../../db";
+import type { SessionData } from "../../lib/session";
+import { SESSION_CONFIG, shouldRefreshSession, validateSession } from "../../lib/session";
+import { errorHandler } from "../../middleware/error-handler";
+// Import after mocking
+import { adminBookingsRoutes } from "./bookings";
+
+// Cast to mock types
+const mockValidateSession = validateSession as ReturnType<typeof vi.fn>;
+const mockShouldRefreshSession = shouldRefreshSession as ReturnType<typeof vi.fn>;
+const mockDb = db as {
+	select: ReturnType<typeof vi.fn>;
+};
+
+const headers = {
+	Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+	"X-Requested-With": "XMLHttpRequest",
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createMockSession(overrides: Partial<SessionData> = {}): SessionData {
+	const now = new Date();
+	return {
+		sessionId: "sess_test_123",
+		userId: "user_test_456",
+		user: {
+			id: "user_test_456",
+			email: "admin@example.com",
+		},
+		expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+		createdAt: now,
+		...overrides,
+	};
+}
+
+function createMockBooking(overrides: Record<string, unknown> = {}) {
+	const now = new Date();
+	return {
+		id: VALID_UUID,
+		calUid: "bk_123",
+		leadId: LEAD_UUID,
+		contactId: CONTACT_UUID,
+		title: "Discovery Call",
+		startTime: new Date("2030-01-20T10:00:00Z"),
+		endTime: new Date("2030-01-20T10:30:00Z"),
+		attendeeName: "John Doe",
+		attendeeEmail: "john@acme.com",
+		attendeeTimeZone: "America/New_York",
+		status: "scheduled",
+		rescheduleCount: 0,
+		cancellationReason: null,
+		createdAt: now,
+		updatedAt: now,
+		...overrides,
+	};
+}
+
+/**
+ * Setup database mock to return the given rows from the bookings query.
+ * Returns the where mock so tests can inspect the filters.
+ */
+function setupDbMock(rows: unknown[] = []) {
+	const limit = vi.fn().mockResolvedValue(rows);
+	const orderBy = vi.fn().mockReturnValue({ limit });
+	const where = vi.fn().mockReturnValue({ orderBy });
+	const leftJoin = vi.fn();
+	leftJoin.mockReturnValue({ leftJoin, where });
+	mockDb.select.mockReturnValue({
+		from: vi.fn().mockReturnValue({ leftJoin }),
+	});
+	return { where, limit };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("Admin Bookings Routes", () => {
+	let app: Hono;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+
+		// Setup authenticated session by default
+		mockValidateSession.mockResolvedValue(createMockSession());
+		mockShouldRefreshSession.mockReturnValue(false);
+
+		setupDbMock();
+
+		// Create app with routes
+		app = new Hono();
+		app.route("/api/admin/bookings", adminBookingsRoutes);
+		app.onError(errorHandler);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("Authentication", () => {
+		it("rejects requests without session cookie", async () => {
+			mockValidateSession.mockResolvedValue(null);
+
+			const res = await app.request("/api/admin/bookings");
+
+			expect(res.status).toBe(401);
+		});
+	});
+
+	describe("GET /api/admin/bookings (list)", () => {
+		it("returns bookings with their lead and contact", async () => {
+			setupDbMock([{ booking: createMockBooking(), leadName: "John Doe", contactName: "John D." }]);
+
+			const res = await app.request("/api/admin/bookings", { headers });
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.data).toHaveLength(1);
+			expect(body.data[0]).toMatchObject({
+				id: VALID_UUID,
+				calUid: "bk_123",
+				title: "Discovery Call",
+				startTime: "2030-01-20T10:00:00.000Z",
+				attendeeTimeZone: "America/New_York",
+				status: "scheduled",
+				lead: { id: LEAD_UUID, name: "John Doe" },
+				contact: { id: CONTACT_UUID, name: "John D." },
+			});
+		});
+
+		it("returns null lead and contact for unlinked bookings", async () => {
+			setupDbMock([
+				{
+					booking: createMockBooking({ leadId: null, contactId: null, startTime: null }),
+					leadName: null,
+					contactName: null,
+				},
+			]);
+
+			const res = await app.request("/api/admin/bookings", { headers });
+
+			const body = await res.json();
+			expect(body.data[0].lead).toBeNull();
+			expect(body.data[0].contact).toBeNull();
+			expect(body.data[0].startTime).toBeNull();
+		});
+
+		it("filters upcoming bookings for a lead", async () => {
+			const { where, limit } = setupDbMock();
+
+			const res = await app.request(
+				`/api/admin/bookings?leadId=${LEAD_UUID}&upcoming=true&limit=5`,
+				{ headers },
+			);
+
+			expect(res.status).toBe(200);
+			expect(where).toHaveBeenCalledWith(expect.anything());
+			expect(limit).toHaveBeenCalledWith(5);
+		});
+
+		it("lists all bookings without filters", async () => {
+			const { where, limit } = setupDbMock();
+
+			await app.request("/api/admin/bookings", { headers });
+
+			expect(where).toHaveBeenCalledWith(undefined);
+			expect(limit).toHaveBeenCalledWith(20);
+		});
+
+		it("rejects invalid query parameters", async () => {
+			const res = await app.request("/api/admin/bookings?leadId=not-a-uuid&status=pending", {
+				headers,
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.code).toBe("VALIDATION_ERROR");
+		});
+	});
+});
@@ -0,0 +1,109 @@
+/**
+ * Admin bookings routes for the CRM admin UI.
+ *
+ * Lists the Cal.com bookings stored by the booking webhook
+ * (routes/api/cal-webhook.ts), with the lead and contact each belongs to.
+ * The dashboard and lead pages use upcoming=true for their upcoming-meetings
+ * panels.
+ *
+ * All routes require a valid admin session (via requireAuth middleware).
+ */
+
+import { and, asc, desc, eq, gte } from "drizzle-orm";
+import { Hono } from "hono";
+import { type Booking, bookings, contacts, db, leads } from "../../db/index.js";
+import { ValidationError } from "../../lib/errors.js";
+import { formatZodErrors, listBookingsQuerySchema } from "../../lib/validation.js";
+import { requireAuth, requireCsrfHeader } from "../../middleware/auth.js";
+
+/**
+ * Admin bookings routes app instance.
+ */
+export const adminBookingsRoutes = new Hono();
+
+// All routes require session authentication
+adminBookingsRoutes.use("*", requireAuth);
+
+// State-changing routes require CSRF header
+adminBookingsRoutes.use("*", requireCsrfHeader);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Format a booking for API response.
+ */
+function formatBookingResponse(
+	booking: Booking,
+	leadName: string | null,
+	contactName: string | null,
+) {
+	return {
+		id: booking.id,
+		calUid: booking.calUid,
+		title: booking.title,
+		startTime: booking.startTime?.toISOString() ?? null,
+		endTime: booking.endTime?.toISOString() ?? null,
+		attendeeName: booking.attendeeName,
+		attendeeEmail: booking.attendeeEmail,
+		attendeeTimeZone: booking.attendeeTimeZone,
+		status: booking.status,
+		rescheduleCount: booking.rescheduleCount,
+		cancellationReason: booking.cancellationReason,
+		lead: booking.leadId && leadName ? { id: booking.leadId, name: leadName } : null,
+		contact: booking.contactId && contactName ? { id: booking.contactId, name: contactName } : null,
+		createdAt: booking.createdAt.toISOString(),
+		updatedAt: booking.updatedAt.toISOString(),
+	};
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * GET /api/admin/bookings
+ *
+ * List bookings, optionally for one lead or contact or with one status.
+ * With upcoming=true only scheduled bookings that haven't started yet are
+ * returned, soonest first; otherwise the latest bookings come first.
+ */
+adminBookingsRoutes.get("/", async (c) => {
+	const parseResult = listBookingsQuerySchema.safeParse(c.req.query());
+
+	if (!parseResult.success) {
+		throw new ValidationError("Invalid query parameters", formatZodErrors(parseResult.error));
+	}
+
+	const { limit, leadId, contactId, status, upcoming } = parseResult.data;
+
+	const conditions = [];
+
+	if (leadId) {
+		conditions.push(eq(bookings.leadId, leadId));
+	}
+
+	if (contactId) {
+		conditions.push(eq(bookings.contactId, contactId));
+	}
+
+	if (upcoming) {
+		conditions.push(eq(bookings.status, "scheduled"), gte(bookings.startTime, new Date()));
+	} else if (status) {
+		conditions.push(eq(bookings.status, status));
+	}
+
+	const rows = await db
+		.select({ booking: bookings, leadName: leads.name, contactName: contacts.name })
+		.from(bookings)
+		.leftJoin(leads, eq(bookings.leadId, leads.id))
+		.leftJoin(contacts, eq(bookings.contactId, contacts.id))
+		.where(conditions.length > 0 ? and(...conditions) : undefined)
+		.orderBy(upcoming ? asc(bookings.startTime) : desc(bookings.startTime))
+		.limit(limit);
+
+	return c.json({
+		data: rows.map((row) => formatBookingResponse(row.booking, row.leadName, row.contactName)),
+	});
+});
@@ -30,6 +30,14 @@ vi.mock("../../lib/session", () => ({
 }));
 
 // Mock the database
+// Mock the webhooks - must return Promises
+vi.mock("../../lib/webhooks", () => ({
+	collectFieldChanges: vi.fn(() => ({})),
+	triggerCompanyCreated: vi.fn(() => Promise.resolve()),
+	triggerCompanyUpdated: vi.fn(() => Promise.resolve()),
+	triggerCompanyDeleted: vi.fn(() => Promise.resolve()),
+}));
+
 vi.mock("../../db", () => ({
 	db: {
 		select: vi.fn(),
@@ -79,6 +87,12 @@ vi.mock("../../db", () => ({
 import { db } from "../../db";
 import type { SessionData } from "../../lib/session";
 import { SESSION_CONFIG, shouldRefreshSession, validateSession } from "../../lib/session";
+import {
+	collectFieldChanges,
+	triggerCompanyCreated,
+	triggerCompanyDeleted,
+	triggerCompanyUpdated,
+} from "../../lib/webhooks";
 import { errorHandler } from "../../middleware/error-handler";
 // Import after mocking
 import { adminCompaniesRoutes } from "./companies";
@@ -86,6 +100,10 @@ import { adminCompaniesRoutes } from "./companies";
 // Cast to mock types
 const mockValidateSession = validateSession as ReturnType<typeof vi.fn>;
 const mockShouldRefreshSession = shouldRefreshSession as ReturnType<typeof vi.fn>;
+const mockCollectFieldChanges = collectFieldChanges as ReturnType<typeof vi.fn>;
+const mockTriggerCompanyCreated = triggerCompanyCreated as ReturnType<typeof vi.fn>;
+const mockTriggerCompanyUpdated = triggerCompanyUpdated as ReturnType<typeof vi.fn>;
+const mockTriggerCompanyDeleted = triggerCompanyDeleted as ReturnType<typeof vi.fn>;
 const mockDb = db as {
 	select: ReturnType<typeof vi.fn>;
 	insert: ReturnType<typeof vi.fn>;
@@ -207,6 +225,12 @@ describe("Admin Companies Routes", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
 
+		// Re-establish webhook mock implementations
+		mockCollectFieldChanges.mockImplementation(() => ({}));
+		mockTriggerCompanyCreated.mockImplementation(() => Promise.resolve());
+		mockTriggerCompanyUpdated.mockImplementation(() => Promise.resolve());
+		mockTriggerCompanyDeleted.mockImplementation(() => Promise.resolve());
+
 		// Setup authenticated session by default
 		const mockSession = createMockSession();
 		mockValidateSession.mockResolvedValue(mockSession);
@@ -699,6 +723,8 @@ describe("Admin Companies Routes", () => {
 			expect(body.data.name).toBe("Test Company");
 			expect(body.data.industry).toBe("Fintech");
 			expect(body.data.tags).toEqual(["fintech"]);
+
+			expect(mockTriggerCompanyCreated).toHaveBeenCalledWith(mockCompany);
 		});
 
 		it("creates a company with only required name field", async () => {
@@ -786,6 +812,77 @@ describe("Admin Companies Routes", () => {
 			expect(body.data.name).toBe("Updated Company");
 		});
 
+		it("triggers company.updated webhook with tracked changes", async () => {
+			const mockCompany = createMockCompany();
+			const updatedCompany = createMockCompany({ hiringContractors: false });
+			const changes = { hiringContractors: { old: true, new: false } };
+			mockCollectFieldChanges.mockReturnValueOnce(changes);
+
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue([mockCompany]),
+					}),
+				}),
+			});
+			mockDb.update.mockReturnValue({
+				set: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						returning: vi.fn().mockResolvedValue([updatedCompany]),
+					}),
+				}),
+			});
+
+			const res = await app.request(`/api/admin/companies/${VALID_UUID}`, {
+				method: "PATCH",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+					"X-Requested-With": "XMLHttpRequest",
+				},
+				body: JSON.stringify({ hiringContractors: false }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(mockCollectFieldChanges).toHaveBeenCalledWith(
+				mockCompany,
+				expect.objectContaining({ hiringContractors: false }),
+			);
+			expect(mockTriggerCompanyUpdated).toHaveBeenCalledWith(updatedCompany, changes);
+		});
+
+		it("does not trigger company.updated webhook when nothing changed", async () => {
+			const mockCompany = createMockCompany();
+
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue([mockCompany]),
+					}),
+				}),
+			});
+			mockDb.update.mockReturnValue({
+				set: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						returning: vi.fn().mockResolvedValue([mockCompany]),
+					}),
+				}),
+			});
+
+			const res = await app.request(`/api/admin/companies/${VALID_UUID}`, {
+				method: "PATCH",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+					"X-Requested-With": "XMLHttpRequest",
+				},
+				body: JSON.stringify({ name: "Test Company" }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(mockTriggerCompanyUpdated).not.toHaveBeenCalled();
+		});
+
 		it("updates multiple fields", async () => {
 			const mockCompany = createMockCompany();
 			const updatedCompany = createMockCompany({
@@ -911,6 +1008,8 @@ describe("Admin Companies Routes", () => {
 			const body = await res.json();
 			expect(body.success).toBe(true);
 			expect(body.message).toBe("Company deleted");
+
+			expect(mockTriggerCompanyDeleted).toHaveBeenCalledWith(VALID_UUID, "Test Company");
 		});
 
 		it("returns 404 for non-existent company", async () => {
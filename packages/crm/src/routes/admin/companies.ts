@@ -19,6 +19,12 @@ import {
 	parseCompanySortParam,
 	updateCompanySchema,
 } from "../../lib/validation.js";
+import {
+	collectFieldChanges,
+	triggerCompanyCreated,
+	triggerCompanyDeleted,
+	triggerCompanyUpdated,
+} from "../../lib/webhooks.js";
 import { requireAuth, requireCsrfHeader } from "../../middleware/auth.js";
 
 /**
@@ -292,6 +298,11 @@ adminCompaniesRoutes.post("/", async (c) => {
 		})
 		.returning();
 
+	// Trigger webhook (fire-and-forget, don't await)
+	triggerCompanyCreated(newCompany).catch((err) => {
+		console.error("Failed to trigger company.created webhook:", err);
+	});
+
 	return c.json(
 		{
 			data: formatCompanyResponse(newCompany),
@@ -308,7 +319,7 @@ adminCompaniesRoutes.post("/", async (c) => {
  */
 adminCompaniesRoutes.patch("/:id", async (c) => {
 	const id = c.req.param("id");
-	await getCompanyOrThrow(id);
+	const existingCompany = await getCompanyOrThrow(id);
 
 	// Parse and validate request body
 	const body = await c.req.json().catch(() => ({}));
@@ -363,6 +374,9 @@ adminCompaniesRoutes.patch("/:id", async (c) => {
 		updateData.tags = input.tags;
 	}
 
+	// Track changes for webhooks
+	const changes = collectFieldChanges(existingCompany, updateData);
+
 	// Update company
 	const [updatedCompany] = await db
 		.update(companies)
@@ -370,6 +384,13 @@ adminCompaniesRoutes.patch("/:id", async (c) => {
 		.where(eq(companies.id, id))
 		.returning();
 
+	// Trigger webhook (fire-and-forget, don't await)
+	if (Object.keys(changes).length > 0) {
+		triggerCompanyUpdated(updatedCompany, changes).catch((err) => {
+			console.error("Failed to trigger company.updated webhook:", err);
+		});
+	}
+
 	return c.json({
 		data: formatCompanyResponse(updatedCompany),
 	});
@@ -386,11 +407,16 @@ adminCompaniesRoutes.delete("/:id", async (c) => {
 	const id = c.req.param("id");
 
 	// Verify company exists
-	await getCompanyOrThrow(id);
+	const company = await getCompanyOrThrow(id);
 
 	// Delete company (contacts will have companyId set null via ON DELETE SET NULL)
 	await db.delete(companies).where(eq(companies.id, id));
 
+	// Trigger webhook (fire-and-forget, don't await)
+	triggerCompanyDeleted(id, company.name).catch((err) => {
+		console.error("Failed to trigger company.deleted webhook:", err);
+	});
+
 	return c.json({
 		success: true,
 		message: "Company deleted",
@@ -37,6 +37,25 @@ vi.mock("../../lib/ai", () => ({
 	isOpenAIConfigured: vi.fn(),
 }));
 
+// Mock the webhooks - must return Promises
+vi.mock("../../lib/webhooks", () => ({
+	collectFieldChanges: vi.fn(() => ({})),
+	triggerContactCreated: vi.fn(() => Promise.resolve()),
+	triggerContactUpdated: vi.fn(() => Promise.resolve()),
+	triggerContactStatusChanged: vi.fn(() => Promise.resolve()),
+	triggerContactInteractionAdded: vi.fn(() => Promise.resolve()),
+}));
+
+// Mock contact scoring
+vi.mock("../../lib/contact-score", () => ({
+	scoreContact: vi.fn(),
+}));
+
+// Mock outreach sequences (no active enrollments)
+vi.mock("../../lib/sequences", () => ({
+	applySequenceInteraction: vi.fn(() => Promise.resolve({})),
+}));
+
 // Mock the database
 vi.mock("../../db", () => ({
 	db: {
@@ -88,10 +107,29 @@ vi.mock("../../db", () => ({
 	},
 }));
 
+// Mock the email composer
+vi.mock("../../lib/email-composer", () => ({
+	sendContactEmail: vi.fn(),
+	validateComposerTemplates: vi.fn(() => null),
+	EmailSendError: class EmailSendError extends Error {
+		code = "EMAIL_SERVICE_ERROR";
+	},
+}));
+
 import { db } from "../../db";
 import { isOpenAIConfigured, parseContactText } from "../../lib/ai";
+import { scoreContact } from "../../lib/contact-score";
+import { EmailSendError, sendContactEmail } from "../../lib/email-composer";
+import { applySequenceInteraction } from "../../lib/sequences";
 import type { SessionData } from "../../lib/session";
 import { SESSION_CONFIG, shouldRefreshSession, validateSession } from "../../lib/session";
+import {
+	collectFieldChanges,
+	triggerContactCreated,
+	triggerContactInteractionAdded,
+	triggerContactStatusChanged,
+	triggerContactUpdated,
+} from "../../lib/webhooks";
 import { errorHandler } from "../../middleware/error-handler";
 // Import after mocking
 import { adminContactsRoutes } from "./contacts";
@@ -101,6 +139,16 @@ const mockValidateSession = validateSession as ReturnType<typeof vi.fn>;
 const mockShouldRefreshSession = shouldRefreshSession as ReturnType<typeof vi.fn>;
 const mockParseContactText = parseContactText as ReturnType<typeof vi.fn>;
 const mockIsOpenAIConfigured = isOpenAIConfigured as ReturnType<typeof vi.fn>;
+const mockSendContactEmail = sendContactEmail as ReturnType<typeof vi.fn>;
+const mockApplySequenceInteraction = applySequenceInteraction as ReturnType<typeof vi.fn>;
+const mockScoreContact = scoreContact as ReturnType<typeof vi.fn>;
+const mockCollectFieldChanges = collectFieldChanges as ReturnType<typeof vi.fn>;
+const mockTriggerContactCreated = triggerContactCreated as ReturnType<typeof vi.fn>;
+const mockTriggerContactUpdated = triggerContactUpdated as ReturnType<typeof vi.fn>;
+const mockTriggerContactStatusChanged = triggerContactStatusChanged as ReturnType<typeof vi.fn>;
+const mockTriggerContactInteractionAdded = triggerContactInteractionAdded as ReturnType<
+	typeof vi.fn
+>;
 const mockDb = db as {
 	select: ReturnType<typeof vi.fn>;
 	insert: ReturnType<typeof vi.fn>;
@@ -167,6 +215,16 @@ function createMockInteraction(overrides: Record<string, unknown> = {}) {
 	};
 }
 
+function createMockScore(overrides: Record<string, unknown> = {}) {
+	return {
+		score: 0,
+		warmth: "cold",
+		suggestedTier: "C",
+		breakdown: { interactions: [], company: [] },
+		...overrides,
+	};
+}
+
 function setupEmptyDbMock() {
 	mockDb.select.mockReturnValue({
 		from: vi.fn().mockReturnValue({
@@ -212,6 +270,14 @@ describe("Admin Contacts Routes", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
 
+		// Re-establish webhook mock implementations
+		mockCollectFieldChanges.mockImplementation(() => ({}));
+		mockTriggerContactCreated.mockImplementation(() => Promise.resolve());
+		mockTriggerContactUpdated.mockImplementation(() => Promise.resolve());
+		mockTriggerContactStatusChanged.mockImplementation(() => Promise.resolve());
+		mockTriggerContactInteractionAdded.mockImplementation(() => Promise.resolve());
+		mockScoreContact.mockResolvedValue(createMockScore());
+
 		const mockSession = createMockSession();
 		mockValidateSession.mockResolvedValue(mockSession);
 		mockShouldRefreshSession.mockReturnValue(false);
@@ -668,6 +734,9 @@ describe("Admin Contacts Routes", () => {
 			expect(body.data.name).toBe("Test Contact");
 			expect(body.data.role).toBe("CTO");
 			expect(body.data.warmth).toBe("cold");
+
+			expect(mockTriggerContactCreated).toHaveBeenCalledTimes(1);
+			expect(mockTriggerContactCreated).toHaveBeenCalledWith(mockContact);
 		});
 
 		it("creates a contact with only required name field", async () => {
@@ -749,6 +818,78 @@ describe("Admin Contacts Routes", () => {
 			expect(body.data.name).toBe("Updated Contact");
 		});
 
+		it("triggers contact.updated webhook with tracked changes", async () => {
+			const mockContact = createMockContact();
+			const updatedContact = createMockContact({ tier: "A" });
+			const changes = { tier: { old: "C", new: "A" } };
+			mockCollectFieldChanges.mockReturnValueOnce(changes);
+
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue([mockContact]),
+					}),
+				}),
+			});
+			mockDb.update.mockReturnValue({
+				set: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						returning: vi.fn().mockResolvedValue([updatedContact]),
+					}),
+				}),
+			});
+
+			const res = await app.request(`/api/admin/contacts/${VALID_UUID}`, {
+				method: "PATCH",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+					"X-Requested-With": "XMLHttpRequest",
+				},
+				body: JSON.stringify({ tier: "A" }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(mockCollectFieldChanges).toHaveBeenCalledWith(
+				mockContact,
+				expect.objectContaining({ tier: "A" }),
+			);
+			expect(mockTriggerContactUpdated).toHaveBeenCalledWith(updatedContact, changes);
+			expect(mockTriggerContactStatusChanged).not.toHaveBeenCalled();
+		});
+
+		it("does not trigger contact.updated webhook when nothing changed", async () => {
+			const mockContact = createMockContact();
+
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue([mockContact]),
+					}),
+				}),
+			});
+			mockDb.update.mockReturnValue({
+				set: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						returning: vi.fn().mockResolvedValue([mockContact]),
+					}),
+				}),
+			});
+
+			const res = await app.request(`/api/admin/contacts/${VALID_UUID}`, {
+				method: "PATCH",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+					"X-Requested-With": "XMLHttpRequest",
+				},
+				body: JSON.stringify({ name: "Test Contact" }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(mockTriggerContactUpdated).not.toHaveBeenCalled();
+		});
+
 		it("updates multiple fields", async () => {
 			const mockContact = createMockContact();
 			const updatedContact = createMockContact({
@@ -827,6 +968,12 @@ describe("Admin Contacts Routes", () => {
 			expect(res.status).toBe(200);
 			// Verify insert was called (for the status change note)
 			expect(mockDb.insert).toHaveBeenCalled();
+
+			expect(mockTriggerContactStatusChanged).toHaveBeenCalledWith(
+				updatedContact,
+				"identified",
+				"engaged",
+			);
 		});
 
 		it("rejects empty update body", async () => {
@@ -962,9 +1109,76 @@ describe("Admin Contacts Routes", () => {
 			const body = await res.json();
 			expect(body.data.type).toBe("linkedin_comment");
 			expect(body.data.direction).toBe("outbound");
+
+			// The payload shows the contact as updated by this interaction
+			expect(mockTriggerContactInteractionAdded).toHaveBeenCalledWith(
+				expect.objectContaining({
+					id: VALID_UUID,
+					relationshipStatus: "first_interaction",
+					lastInteractionAt: expect.any(Date),
+				}),
+				mockInteraction,
+			);
+			// identified -> first_interaction on the first interaction
+			expect(mockTriggerContactStatusChanged).toHaveBeenCalledWith(
+				expect.objectContaining({ id: VALID_UUID, relationshipStatus: "first_interaction" }),
+				"identified",
+				"first_interaction",
+			);
+		});
+
+		it("saves the contact's next sequence step", async () => {
+			const nextActionDue = new Date("2030-01-04T10:00:00Z");
+			mockApplySequenceInteraction.mockResolvedValue({
+				nextAction: "Send a DM (LinkedIn intro, step 3/3)",
+				nextActionDue,
+			});
+
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue([createMockContact()]),
+					}),
+				}),
+			});
+			mockDb.insert.mockReturnValue({
+				values: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([createMockInteraction()]),
+				}),
+			});
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockResolvedValue([{ count: 1 }]),
+				}),
+			});
+			const set = vi.fn().mockReturnValue({
+				where: vi.fn().mockResolvedValue(undefined),
+			});
+			mockDb.update.mockReturnValue({ set });
+
+			const res = await app.request(`/api/admin/contacts/${VALID_UUID}/interactions`, {
+				method: "POST",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+					"X-Requested-With": "XMLHttpRequest",
+				},
+				body: JSON.stringify({
+					type: "linkedin_comment",
+					description: "Commented on their post",
+				}),
+			});
+
+			expect(res.status).toBe(201);
+			expect(set).toHaveBeenCalledWith(
+				expect.objectContaining({
+					nextAction: "Send a DM (LinkedIn intro, step 3/3)",
+					nextActionDue,
+				}),
+			);
 		});
 
-		it("auto-upgrades warmth at 3 interactions", async () => {
+		it("auto-upgrades warmth from the contact score", async () => {
 			const mockContact = createMockContact({ warmth: "cold" });
 			const mockInteraction = createMockInteraction();
 
@@ -980,18 +1194,59 @@ describe("Admin Contacts Routes", () => {
 					returning: vi.fn().mockResolvedValue([mockInteraction]),
 				}),
 			});
-			// Return count of 3 (threshold for cold->warm)
 			mockDb.select.mockReturnValueOnce({
 				from: vi.fn().mockReturnValue({
 					where: vi.fn().mockResolvedValue([{ count: 3 }]),
 				}),
 			});
-			mockDb.update.mockReturnValue({
-				set: vi.fn().mockReturnValue({
-					where: vi.fn().mockResolvedValue(undefined),
+			// Score past the warm threshold
+			mockScoreContact.mockResolvedValue(createMockScore({ score: 8, warmth: "warm" }));
+			const set = vi.fn().mockReturnValue({
+				where: vi.fn().mockResolvedValue(undefined),
+			});
+			mockDb.update.mockReturnValue({ set });
+
+			const res = await app.request(`/api/admin/contacts/${VALID_UUID}/interactions`, {
+				method: "POST",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+					"X-Requested-With": "XMLHttpRequest",
+				},
+				body: JSON.stringify({
+					type: "linkedin_like",
+					description: "Liked their post",
 				}),
 			});
 
+			expect(res.status).toBe(201);
+			expect(mockScoreContact).toHaveBeenCalledWith(mockContact);
+			expect(set).toHaveBeenCalledWith(expect.objectContaining({ warmth: "warm" }));
+		});
+
+		it("never lowers warmth from the contact score", async () => {
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue([createMockContact({ warmth: "hot" })]),
+					}),
+				}),
+			});
+			mockDb.insert.mockReturnValue({
+				values: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([createMockInteraction()]),
+				}),
+			});
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockResolvedValue([{ count: 1 }]),
+				}),
+			});
+			const set = vi.fn().mockReturnValue({
+				where: vi.fn().mockResolvedValue(undefined),
+			});
+			mockDb.update.mockReturnValue({ set });
+
 			const res = await app.request(`/api/admin/contacts/${VALID_UUID}/interactions`, {
 				method: "POST",
 				headers: {
@@ -1006,8 +1261,7 @@ describe("Admin Contacts Routes", () => {
 			});
 
 			expect(res.status).toBe(201);
-			// Verify update was called (for auto-upgrade)
-			expect(mockDb.update).toHaveBeenCalled();
+			expect(set).toHaveBeenCalledWith(expect.not.objectContaining({ warmth: expect.anything() }));
 		});
 
 		it("auto-upgrades status from identified to first_interaction", async () => {
@@ -1086,6 +1340,41 @@ describe("Admin Contacts Routes", () => {
 		});
 	});
 
+	describe("GET /api/admin/contacts/:id/score", () => {
+		it("returns the contact's score breakdown", async () => {
+			const mockContact = createMockContact();
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue([mockContact]),
+					}),
+				}),
+			});
+			mockScoreContact.mockResolvedValue(
+				createMockScore({
+					score: 13,
+					warmth: "warm",
+					suggestedTier: "B",
+					breakdown: {
+						interactions: [{ type: "meeting", direction: "outbound", count: 1, points: 8 }],
+						company: [{ signal: "hiringContractors", points: 5 }],
+					},
+				}),
+			);
+
+			const res = await app.request(`/api/admin/contacts/${VALID_UUID}/score`, {
+				headers: { Cookie: `${SESSION_CONFIG.cookieName}=valid_token` },
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.data.score).toBe(13);
+			expect(body.data.suggestedTier).toBe("B");
+			expect(body.data.breakdown.company).toHaveLength(1);
+			expect(mockScoreContact).toHaveBeenCalledWith(mockContact);
+		});
+	});
+
 	describe("GET /api/admin/contacts/:id/interactions (list)", () => {
 		it("returns paginated interactions", async () => {
 			const mockContact = createMockContact();
@@ -1129,6 +1418,85 @@ describe("Admin Contacts Routes", () => {
 		});
 	});
 
+	// ==========================================================================
+	// EMAIL COMPOSER TESTS
+	// ==========================================================================
+
+	describe("POST /api/admin/contacts/:id/email (send email)", () => {
+		function sendEmailRequest(data: unknown) {
+			return app.request(`/api/admin/contacts/${VALID_UUID}/email`, {
+				method: "POST",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+					"X-Requested-With": "XMLHttpRequest",
+				},
+				body: JSON.stringify(data),
+			});
+		}
+
+		function setupContactLookup(contact: unknown) {
+			mockDb.select.mockReturnValueOnce({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue([contact]),
+					}),
+				}),
+			});
+		}
+
+		it("sends the email and returns the logged email_sent interaction", async () => {
+			const mockContact = createMockContact();
+			setupContactLookup(mockContact);
+			mockSendContactEmail.mockResolvedValue(
+				createMockInteraction({
+					type: "email_sent",
+					description: 'Email sent: "Quick question"',
+					url: null,
+					body: "Hi Test, ...",
+				}),
+			);
+
+			const res = await sendEmailRequest({
+				subject: "Quick question",
+				body: "Hi {{firstName}}, ...",
+			});
+
+			expect(res.status).toBe(201);
+			expect(mockSendContactEmail).toHaveBeenCalledWith(mockContact, {
+				subject: "Quick question",
+				body: "Hi {{firstName}}, ...",
+			});
+			const body = await res.json();
+			expect(body.data.type).toBe("email_sent");
+			expect(body.data.body).toBe("Hi Test, ...");
+		});
+
+		it("rejects contacts without an email address", async () => {
+			setupContactLookup(createMockContact({ email: null }));
+
+			const res = await sendEmailRequest({ subject: "Quick question", body: "Hi" });
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.error).toBe("Contact has no email address");
+			expect(mockSendContactEmail).not.toHaveBeenCalled();
+		});
+
+		it("returns 503 when the email can't be sent", async () => {
+			setupContactLookup(createMockContact());
+			mockSendContactEmail.mockRejectedValue(
+				new EmailSendError("Failed to send email: Resend API error"),
+			);
+
+			const res = await sendEmailRequest({ subject: "Quick question", body: "Hi" });
+
+			expect(res.status).toBe(503);
+			const body = await res.json();
+			expect(body.code).toBe("EMAIL_SERVICE_ERROR");
+		});
+	});
+
 	// ==========================================================================
 	// AI PARSE TESTS
 	// ==========================================================================
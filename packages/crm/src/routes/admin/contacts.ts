@@ -18,6 +18,13 @@ import {
 	db,
 } from "../../db/index.js";
 import { isOpenAIConfigured, parseContactText } from "../../lib/ai/index.js";
+import { scoreContact } from "../../lib/contact-score.js";
+import { addContactInteraction } from "../../lib/contacts.js";
+import {
+	EmailSendError,
+	sendContactEmail,
+	validateComposerTemplates,
+} from "../../lib/email-composer.js";
 import { BadRequestError, NotFoundError, ValidationError } from "../../lib/errors.js";
 import {
 	createContactSchema,
@@ -28,8 +35,15 @@ import {
 	listInteractionsQuerySchema,
 	parseContactSchema,
 	parseContactSortParam,
+	sendEmailSchema,
 	updateContactSchema,
 } from "../../lib/validation.js";
+import {
+	collectFieldChanges,
+	triggerContactCreated,
+	triggerContactStatusChanged,
+	triggerContactUpdated,
+} from "../../lib/webhooks.js";
 import { requireAuth, requireCsrfHeader } from "../../middleware/auth.js";
 
 /**
@@ -69,6 +83,7 @@ function formatContactResponse(contact: Contact) {
 		notes: contact.notes,
 		tags: contact.tags || [],
 		lastInteractionAt: contact.lastInteractionAt?.toISOString() || null,
+		decayPinned: contact.decayPinned,
 		leadId: contact.leadId,
 		createdAt: contact.createdAt.toISOString(),
 		updatedAt: contact.updatedAt.toISOString(),
@@ -86,6 +101,7 @@ function formatInteractionResponse(interaction: ContactInteraction) {
 		direction: interaction.direction,
 		description: interaction.description,
 		url: interaction.url,
+		body: interaction.body,
 		createdAt: interaction.createdAt.toISOString(),
 	};
 }
@@ -107,69 +123,6 @@ async function getContactOrThrow(id: string): Promise<Contact> {
 	return contact;
 }
 
-/**
- * Count interactions for a contact.
- */
-async function getInteractionCount(contactId: string): Promise<number> {
-	const [result] = await db
-		.select({ count: sql<number>`count(*)::int` })
-		.from(contactInteractions)
-		.where(eq(contactInteractions.contactId, contactId));
-
-	return result?.count || 0;
-}
-
-/**
- * Auto-upgrade warmth based on interaction count.
- * Only upgrades, never downgrades.
- *
- * Rules:
- * - 1-2 interactions: stay at current warmth (minimum cold)
- * - 3-5 interactions: cold → warm
- * - 6+ interactions: warm → hot
- */
-function computeAutoWarmth(currentWarmth: string, interactionCount: number): string {
-	const warmthOrder = ["cold", "warm", "hot"];
-	const currentIndex = warmthOrder.indexOf(currentWarmth);
-
-	let targetWarmth = currentWarmth;
-
-	if (interactionCount >= 6) {
-		targetWarmth = "hot";
-	} else if (interactionCount >= 3) {
-		targetWarmth = "warm";
-	}
-
-	// Only upgrade, never downgrade
-	const targetIndex = warmthOrder.indexOf(targetWarmth);
-	if (targetIndex > currentIndex) {
-		return targetWarmth;
-	}
-
-	return currentWarmth;
-}
-
-/**
- * Auto-upgrade relationship status based on interaction count.
- * Only auto-upgrades from low statuses (identified, first_interaction).
- *
- * Rules:
- * - If identified and first interaction → first_interaction
- * - If first_interaction and 3+ interactions → engaged
- * - Higher statuses require manual change
- */
-function computeAutoStatus(currentStatus: string, interactionCount: number): string {
-	if (currentStatus === "identified" && interactionCount >= 1) {
-		return "first_interaction";
-	}
-
-	if (currentStatus === "first_interaction" && interactionCount >= 3) {
-		return "engaged";
-	}
-
-	return currentStatus;
-}
-
 // ============================================================================
 // ROUTES
 // ============================================================================
@@ -438,6 +391,11 @@ adminContactsRoutes.post("/", async (c) => {
 		})
 		.returning();
 
+	// Trigger webhook (fire-and-forget, don't await)
+	triggerContactCreated(newContact).catch((err) => {
+		console.error("Failed to trigger contact.created webhook:", err);
+	});
+
 	return c.json(
 		{
 			data: formatContactResponse(newContact),
@@ -492,6 +450,13 @@ adminContactsRoutes.patch("/:id", async (c) => {
 		updateData.nextActionDue = input.nextActionDue ? new Date(input.nextActionDue) : null;
 	if (input.notes !== undefined) updateData.notes = input.notes;
 	if (input.tags !== undefined) updateData.tags = input.tags;
+	if (input.decayPinned !== undefined) updateData.decayPinned = input.decayPinned;
+
+	// Track changes for webhooks
+	const changes = collectFieldChanges(existingContact, updateData);
+	const statusChanged =
+		input.relationshipStatus !== undefined &&
+		input.relationshipStatus !== existingContact.relationshipStatus;
 
 	// Update contact
 	const [updatedContact] = await db
@@ -501,7 +466,7 @@ adminContactsRoutes.patch("/:id", async (c) => {
 		.returning();
 
 	// Auto-create a note interaction when relationship status changes
-	if (input.relationshipStatus && input.relationshipStatus !== existingContact.relationshipStatus) {
+	if (input.relationshipStatus && statusChanged) {
 		await db.insert(contactInteractions).values({
 			contactId: id,
 			type: "note",
@@ -510,6 +475,24 @@ adminContactsRoutes.patch("/:id", async (c) => {
 		});
 	}
 
+	// Trigger webhooks (fire-and-forget, don't await)
+	if (Object.keys(changes).length > 0) {
+		triggerContactUpdated(updatedContact, changes).catch((err) => {
+			console.error("Failed to trigger contact.updated webhook:", err);
+		});
+	}
+
+	// Trigger status changed webhook in addition to contact.updated when status changes
+	if (input.relationshipStatus && statusChanged) {
+		triggerContactStatusChanged(
+			updatedContact,
+			existingContact.relationshipStatus,
+			input.relationshipStatus,
+		).catch((err) => {
+			console.error("Failed to trigger contact.status_changed webhook:", err);
+		});
+	}
+
 	return c.json({
 		data: formatContactResponse(updatedContact),
 	});
@@ -555,49 +538,72 @@ adminContactsRoutes.post("/:id/interactions", async (c) => {
 		throw new ValidationError("Validation failed", formatZodErrors(parseResult.error));
 	}
 
-	const input = parseResult.data;
+	const newInteraction = await addContactInteraction(contact, parseResult.data);
 
-	// Create the interaction
-	const [newInteraction] = await db
-		.insert(contactInteractions)
-		.values({
-			contactId: id,
-			type: input.type,
-			direction: input.direction || "outbound",
-			description: input.description,
-			url: input.url || null,
-		})
-		.returning();
+	return c.json(
+		{
+			data: formatInteractionResponse(newInteraction),
+		},
+		201,
+	);
+});
 
-	// Get updated interaction count
-	const interactionCount = await getInteractionCount(id);
+/**
+ * POST /api/admin/contacts/:id/email
+ *
+ * Email a contact through Resend and log it as an outbound "email_sent"
+ * interaction that keeps the sent body (with the usual auto-upgrades).
+ * Subject and body may use {{name}}, {{firstName}}, {{email}} and {{company}}.
+ *
+ * @response 201 - The logged interaction
+ * @response 400 - The contact has no email address
+ * @response 503 - No sender configured, or sending failed
+ */
+adminContactsRoutes.post("/:id/email", async (c) => {
+	const id = c.req.param("id");
+	const contact = await getContactOrThrow(id);
 
-	// Compute auto-upgrades
-	const newWarmth = computeAutoWarmth(contact.warmth, interactionCount);
-	const newStatus = computeAutoStatus(contact.relationshipStatus, interactionCount);
+	if (!contact.email) {
+		throw new BadRequestError("Contact has no email address");
+	}
 
-	// Update contact: lastInteractionAt + any auto-upgrades
-	const contactUpdateData: Partial<typeof contacts.$inferInsert> = {
-		lastInteractionAt: new Date(),
-		updatedAt: new Date(),
-	};
+	const body = await c.req.json().catch(() => ({}));
+	const parseResult = sendEmailSchema.safeParse(body);
 
-	if (newWarmth !== contact.warmth) {
-		contactUpdateData.warmth = newWarmth;
+	if (!parseResult.success) {
+		throw new ValidationError("Validation failed", formatZodErrors(parseResult.error));
 	}
 
-	if (newStatus !== contact.relationshipStatus) {
-		contactUpdateData.relationshipStatus = newStatus;
+	const templateErrors = validateComposerTemplates(parseResult.data);
+	if (templateErrors) {
+		throw new ValidationError("Validation failed", templateErrors);
 	}
 
-	await db.update(contacts).set(contactUpdateData).where(eq(contacts.id, id));
+	try {
+		const interaction = await sendContactEmail(
+			{ ...contact, email: contact.email },
+			parseResult.data,
+		);
 
-	return c.json(
-		{
-			data: formatInteractionResponse(newInteraction),
-		},
-		201,
-	);
+		return c.json(
+			{
+				data: formatInteractionResponse(interaction),
+			},
+			201,
+		);
+	} catch (error) {
+		if (error instanceof EmailSendError) {
+			return c.json(
+				{
+					error: error.message,
+					code: error.code,
+				},
+				503,
+			);
+		}
+
+		throw error;
+	}
 });
 
 /**
@@ -653,6 +659,20 @@ adminContactsRoutes.get("/:id/interactions", async (c) => {
 	});
 });
 
+/**
+ * GET /api/admin/contacts/:id/score
+ *
+ * Get the contact's score, the warmth and tier it suggests, and the points
+ * each interaction type and company signal contributed.
+ */
+adminContactsRoutes.get("/:id/score", async (c) => {
+	const contact = await getContactOrThrow(c.req.param("id"));
+
+	return c.json({
+		data: await scoreContact(contact),
+	});
+});
+
 /**
  * POST /api/admin/contacts/parse
  *
@@ -708,6 +728,11 @@ adminContactsRoutes.post("/parse", async (c) => {
 			})
 			.returning();
 
+		// Trigger webhook (fire-and-forget, don't await)
+		triggerContactCreated(newContact).catch((err) => {
+			console.error("Failed to trigger contact.created webhook:", err);
+		});
+
 		return c.json({
 			parsed: result.parsed,
 			confidence: result.confidence,
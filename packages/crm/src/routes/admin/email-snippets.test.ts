@@ -0,0 +1,311 @@
+/**
+ * Tests for admin email snippets routes.
+ *
+ * Tests CRUD operations, validation, template checking, auth, and CSRF
+ * using mocked database and session middleware.
+ */
+
+import { Hono } from "hono";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Valid UUIDs for testing
+const VALID_UUID = "550e8400-e29b-41d4-a716-446655440000";
+
+// Mock session/auth modules BEFORE imports
+vi.mock("../../lib/session", () => ({
+	validateSession: vi.fn(),
+	refreshSession: vi.fn(),
+	shouldRefreshSession: vi.fn(),
+	SESSION_CONFIG: {
+		defaultDurationMs: 24 * 60 * 60 * 1000,
+		rememberMeDurationMs: 30 * 24 * 60 * 60 * 1000,
+		tokenBytes: 32,
+		cookieName: "session",
+		refreshThresholdMs: 60 * 60 * 1000,
+	},
+}));
+
+// Mock the email composer
+vi.mock("../../lib/email-composer", () => ({
+	EMAIL_COMPOSER_FIELDS: ["name", "firstName", "email", "company"],
+	validateComposerTemplates: vi.fn(() => null),
+}));
+
+// Mock the database
+vi.mock("../../db", () => ({
+	db: {
+		select: vi.fn(),
+		insert: vi.fn(),
+		update: vi.fn(),
+		delete: vi.fn(),
+	},
+	emailSnippets: {
+		id: "id",
+		name: "name",
+		subject: "subject",
+		body: "body",
+		createdAt: "created_at",
+		updatedAt: "updated_at",
+	},
+}));
+
+import { db } from "../../db";
+import { validateComposerTemplates } from "../../lib/email-composer";
+import type { SessionData } from "../../lib/session";
+import { SESSION_CONFIG, shouldRefreshSession, validateSession } from "../../lib/session";
+import { errorHandler } from "../../middleware/error-handler";
+// Import after mocking
+import { adminEmailSnippetsRoutes } from "./email-snippets";
+
+// Cast to mock types
+const mockValidateSession = validateSession as ReturnType<typeof vi.fn>;
+const mockShouldRefreshSession = shouldRefreshSession as ReturnType<typeof vi.fn>;
+const mockValidateComposerTemplates = validateComposerTemplates as ReturnType<typeof vi.fn>;
+const mockDb = db as {
+	select: ReturnType<typeof vi.fn>;
+	insert: ReturnType<typeof vi.fn>;
+	update: ReturnType<typeof vi.fn>;
+	delete: ReturnType<typeof vi.fn>;
+};
+
+const headers = {
+	Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+	"Content-Type": "application/json",
+	"X-Requested-With": "XMLHttpRequest",
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createMockSession(overrides: Partial<SessionData> = {}): SessionData {
+	const now = new Date();
+	return {
+		sessionId: "sess_test_123",
+		userId: "user_test_456",
+		user: {
+			id: "user_test_456",
+			email: "admin@example.com",
+		},
+		expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+		createdAt: now,
+		...overrides,
+	};
+}
+
+function createMockSnippet(overrides: Record<string, unknown> = {}) {
+	const now = new Date();
+	return {
+		id: VALID_UUID,
+		name: "Follow-up",
+		subject: "Following up, {{firstName}}",
+		body: "Hi {{firstName}}, just checking in.",
+		createdAt: now,
+		updatedAt: now,
+		...overrides,
+	};
+}
+
+/**
+ * Setup database mock to return the given snippets from selects.
+ */
+function setupDbMock(snippets: unknown[] = []) {
+	mockDb.select.mockReturnValue({
+		from: vi.fn().mockReturnValue({
+			where: vi.fn().mockReturnValue({
+				limit: vi.fn().mockResolvedValue(snippets),
+			}),
+			orderBy: vi.fn().mockResolvedValue(snippets),
+		}),
+	});
+	mockDb.insert.mockReturnValue({
+		values: vi.fn().mockReturnValue({
+			returning: vi.fn().mockResolvedValue([createMockSnippet()]),
+		}),
+	});
+	mockDb.update.mockReturnValue({
+		set: vi.fn().mockReturnValue({
+			where: vi.fn().mockReturnValue({
+				returning: vi.fn().mockResolvedValue([createMockSnippet({ name: "Renamed" })]),
+			}),
+		}),
+	});
+	mockDb.delete.mockReturnValue({
+		where: vi.fn().mockResolvedValue(undefined),
+	});
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("Admin Email Snippets Routes", () => {
+	let app: Hono;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+
+		mockValidateComposerTemplates.mockReturnValue(null);
+
+		// Setup authenticated session by default
+		mockValidateSession.mockResolvedValue(createMockSession());
+		mockShouldRefreshSession.mockReturnValue(false);
+
+		setupDbMock();
+
+		// Create app with routes
+		app = new Hono();
+		app.route("/api/admin/email-snippets", adminEmailSnippetsRoutes);
+		app.onError(errorHandler);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("Authentication", () => {
+		it("rejects requests without session cookie", async () => {
+			mockValidateSession.mockResolvedValue(null);
+
+			const res = await app.request("/api/admin/email-snippets");
+
+			expect(res.status).toBe(401);
+		});
+
+		it("rejects POST requests without CSRF header", async () => {
+			const res = await app.request("/api/admin/email-snippets", {
+				method: "POST",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({ name: "Follow-up", body: "Hi" }),
+			});
+
+			expect(res.status).toBe(401);
+		});
+	});
+
+	describe("GET /api/admin/email-snippets (list)", () => {
+		it("returns snippets with the available fields", async () => {
+			setupDbMock([createMockSnippet()]);
+
+			const res = await app.request("/api/admin/email-snippets", { headers });
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.data).toHaveLength(1);
+			expect(body.data[0].name).toBe("Follow-up");
+			expect(body.fields).toEqual(["name", "firstName", "email", "company"]);
+		});
+	});
+
+	describe("POST /api/admin/email-snippets (create)", () => {
+		it("creates a snippet", async () => {
+			const res = await app.request("/api/admin/email-snippets", {
+				method: "POST",
+				headers,
+				body: JSON.stringify({
+					name: "Follow-up",
+					subject: "Following up, {{firstName}}",
+					body: "Hi {{firstName}}, just checking in.",
+				}),
+			});
+
+			expect(res.status).toBe(201);
+			const body = await res.json();
+			expect(body.data.id).toBe(VALID_UUID);
+		});
+
+		it("requires a name and body", async () => {
+			const res = await app.request("/api/admin/email-snippets", {
+				method: "POST",
+				headers,
+				body: JSON.stringify({ subject: "Hi" }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details.name).toBeDefined();
+			expect(body.details.body).toBeDefined();
+		});
+
+		it("rejects invalid templates", async () => {
+			mockValidateComposerTemplates.mockReturnValue({ body: 'Unknown field "lead.name"' });
+
+			const res = await app.request("/api/admin/email-snippets", {
+				method: "POST",
+				headers,
+				body: JSON.stringify({ name: "Broken", body: "{{lead.name}}" }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details.body).toBe('Unknown field "lead.name"');
+			expect(mockDb.insert).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("PATCH /api/admin/email-snippets/:id (update)", () => {
+		it("updates a snippet", async () => {
+			setupDbMock([createMockSnippet()]);
+
+			const res = await app.request(`/api/admin/email-snippets/${VALID_UUID}`, {
+				method: "PATCH",
+				headers,
+				body: JSON.stringify({ name: "Renamed" }),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.data.name).toBe("Renamed");
+		});
+
+		it("rejects empty update body", async () => {
+			setupDbMock([createMockSnippet()]);
+
+			const res = await app.request(`/api/admin/email-snippets/${VALID_UUID}`, {
+				method: "PATCH",
+				headers,
+				body: JSON.stringify({}),
+			});
+
+			expect(res.status).toBe(400);
+		});
+
+		it("returns 404 for non-existent snippet", async () => {
+			const res = await app.request(`/api/admin/email-snippets/${VALID_UUID}`, {
+				method: "PATCH",
+				headers,
+				body: JSON.stringify({ name: "Renamed" }),
+			});
+
+			expect(res.status).toBe(404);
+		});
+	});
+
+	describe("DELETE /api/admin/email-snippets/:id (delete)", () => {
+		it("deletes a snippet", async () => {
+			setupDbMock([createMockSnippet()]);
+
+			const res = await app.request(`/api/admin/email-snippets/${VALID_UUID}`, {
+				method: "DELETE",
+				headers,
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.success).toBe(true);
+			expect(mockDb.delete).toHaveBeenCalled();
+		});
+
+		it("returns 404 for invalid UUID", async () => {
+			const res = await app.request("/api/admin/email-snippets/not-a-uuid", {
+				method: "DELETE",
+				headers,
+			});
+
+			expect(res.status).toBe(404);
+		});
+	});
+});
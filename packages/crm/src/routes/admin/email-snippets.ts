@@ -0,0 +1,193 @@
+/**
+ * Admin email snippets routes for the CRM admin UI.
+ *
+ * Snippets are reusable subjects and bodies for the lead and contact email
+ * composer (see lib/email-composer.ts). They may use {{name}},
+ * {{firstName}}, {{email}} and {{company}}, which are filled in per
+ * recipient when the email is sent.
+ *
+ * All routes require a valid admin session (via requireAuth middleware).
+ */
+
+import { asc, eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { db, type EmailSnippet, emailSnippets } from "../../db/index.js";
+import { EMAIL_COMPOSER_FIELDS, validateComposerTemplates } from "../../lib/email-composer.js";
+import { BadRequestError, NotFoundError, ValidationError } from "../../lib/errors.js";
+import {
+	createEmailSnippetSchema,
+	formatZodErrors,
+	isValidUuid,
+	updateEmailSnippetSchema,
+} from "../../lib/validation.js";
+import { requireAuth, requireCsrfHeader } from "../../middleware/auth.js";
+
+/**
+ * Admin email snippets routes app instance.
+ */
+export const adminEmailSnippetsRoutes = new Hono();
+
+// All routes require session authentication
+adminEmailSnippetsRoutes.use("*", requireAuth);
+
+// State-changing routes require CSRF header
+adminEmailSnippetsRoutes.use("*", requireCsrfHeader);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Format a snippet for API response.
+ */
+function formatSnippetResponse(snippet: EmailSnippet) {
+	return {
+		id: snippet.id,
+		name: snippet.name,
+		subject: snippet.subject,
+		body: snippet.body,
+		createdAt: snippet.createdAt.toISOString(),
+		updatedAt: snippet.updatedAt.toISOString(),
+	};
+}
+
+/**
+ * Get a snippet by ID or throw NotFoundError.
+ */
+async function getSnippetOrThrow(id: string): Promise<EmailSnippet> {
+	if (!isValidUuid(id)) {
+		throw new NotFoundError("Email snippet");
+	}
+
+	const [snippet] = await db.select().from(emailSnippets).where(eq(emailSnippets.id, id)).limit(1);
+
+	if (!snippet) {
+		throw new NotFoundError("Email snippet");
+	}
+
+	return snippet;
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * GET /api/admin/email-snippets
+ *
+ * List all snippets by name, with the fields they may reference.
+ */
+adminEmailSnippetsRoutes.get("/", async (c) => {
+	const snippets = await db.select().from(emailSnippets).orderBy(asc(emailSnippets.name));
+
+	return c.json({
+		data: snippets.map(formatSnippetResponse),
+		fields: EMAIL_COMPOSER_FIELDS,
+	});
+});
+
+/**
+ * POST /api/admin/email-snippets
+ *
+ * Create a snippet.
+ */
+adminEmailSnippetsRoutes.post("/", async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const parseResult = createEmailSnippetSchema.safeParse(body);
+
+	if (!parseResult.success) {
+		throw new ValidationError("Validation failed", formatZodErrors(parseResult.error));
+	}
+
+	const input = parseResult.data;
+
+	const templateErrors = validateComposerTemplates({ subject: input.subject, body: input.body });
+	if (templateErrors) {
+		throw new ValidationError("Validation failed", templateErrors);
+	}
+
+	const [snippet] = await db
+		.insert(emailSnippets)
+		.values({
+			name: input.name,
+			subject: input.subject || null,
+			body: input.body,
+		})
+		.returning();
+
+	return c.json(
+		{
+			data: formatSnippetResponse(snippet),
+		},
+		201,
+	);
+});
+
+/**
+ * PATCH /api/admin/email-snippets/:id
+ *
+ * Update a snippet (partial update).
+ */
+adminEmailSnippetsRoutes.patch("/:id", async (c) => {
+	const id = c.req.param("id");
+	await getSnippetOrThrow(id);
+
+	const body = await c.req.json().catch(() => ({}));
+	const parseResult = updateEmailSnippetSchema.safeParse(body);
+
+	if (!parseResult.success) {
+		throw new ValidationError("Validation failed", formatZodErrors(parseResult.error));
+	}
+
+	const input = parseResult.data;
+
+	if (Object.keys(input).length === 0) {
+		throw new BadRequestError("At least one field is required for update");
+	}
+
+	const templateErrors = validateComposerTemplates({ subject: input.subject, body: input.body });
+	if (templateErrors) {
+		throw new ValidationError("Validation failed", templateErrors);
+	}
+
+	const updateData: Partial<typeof emailSnippets.$inferInsert> = {
+		updatedAt: new Date(),
+	};
+
+	if (input.name !== undefined) {
+		updateData.name = input.name;
+	}
+	if (input.subject !== undefined) {
+		updateData.subject = input.subject || null;
+	}
+	if (input.body !== undefined) {
+		updateData.body = input.body;
+	}
+
+	const [snippet] = await db
+		.update(emailSnippets)
+		.set(updateData)
+		.where(eq(emailSnippets.id, id))
+		.returning();
+
+	return c.json({
+		data: formatSnippetResponse(snippet),
+	});
+});
+
+/**
+ * DELETE /api/admin/email-snippets/:id
+ *
+ * Delete a snippet. Emails already sent from it are unaffected.
+ */
+adminEmailSnippetsRoutes.delete("/:id", async (c) => {
+	const id = c.req.param("id");
+	await getSnippetOrThrow(id);
+
+	await db.delete(emailSnippets).where(eq(emailSnippets.id, id));
+
+	return c.json({
+		success: true,
+		message: "Email snippet deleted",
+	});
+});
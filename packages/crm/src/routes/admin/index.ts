@@ -5,10 +5,13 @@
  */
 
 export { adminApiKeysRoutes } from "./api-keys.js";
+export { adminBookingsRoutes } from "./bookings.js";
 export { adminCompaniesRoutes } from "./companies.js";
 export { adminContactsRoutes } from "./contacts.js";
 export { adminDashboardRoutes } from "./dashboard.js";
+export { adminEmailSnippetsRoutes } from "./email-snippets.js";
 export { adminLeadsRoutes } from "./leads.js";
 export { adminNotificationsRoutes } from "./notifications.js";
+export { adminSequencesRoutes } from "./sequences.js";
 export { adminSettingsRoutes } from "./settings.js";
 export { adminWebhooksRoutes } from "./webhooks.js";
@@ -8,7 +8,7 @@
  * are called with correct arguments when lead operations occur:
  * - triggerLeadCreated: POST /api/admin/leads
  * - triggerLeadUpdated: PATCH /api/admin/leads/:id (when fields change)
- * - triggerLeadStatusChanged: PATCH when status changes
+ * - triggerLeadStatusChanged: PATCH when status changes (also notifies channels)
  * - triggerLeadDeleted: DELETE /api/admin/leads/:id
  * - triggerLeadActivityAdded: POST /api/admin/leads/:id/activities
  */
@@ -83,6 +83,12 @@ vi.mock("../../lib/webhooks", () => ({
 	triggerLeadActivityAdded: vi.fn(() => Promise.resolve()),
 }));
 
+// Mock notification triggers
+vi.mock("../../lib/notifications", () => ({
+	triggerLeadActivityAddedNotification: vi.fn(),
+	triggerLeadStatusChangedNotification: vi.fn(),
+}));
+
 // Mock the AI module
 vi.mock("../../lib/ai", () => ({
 	parseLeadText: vi.fn(),
@@ -97,8 +103,29 @@ vi.mock("../../lib/ai", () => ({
 	isOpenAIConfigured: vi.fn(() => false),
 }));
 
+// Mock lead scoring (reads settings and contact interactions)
+vi.mock("../../lib/lead-score", () => ({
+	scoreLead: vi.fn(),
+	withLeadScore: (values: object) => Promise.resolve({ ...values, score: 42 }),
+}));
+
+// Mock the email composer
+vi.mock("../../lib/email-composer", () => ({
+	sendLeadEmail: vi.fn(),
+	validateComposerTemplates: vi.fn(() => null),
+	EmailSendError: class EmailSendError extends Error {
+		code = "EMAIL_SERVICE_ERROR";
+	},
+}));
+
 import { db } from "../../db";
 import { isOpenAIConfigured, parseLeadText } from "../../lib/ai";
+import { EmailSendError, sendLeadEmail, validateComposerTemplates } from "../../lib/email-composer";
+import { scoreLead } from "../../lib/lead-score";
+import {
+	triggerLeadActivityAddedNotification,
+	triggerLeadStatusChangedNotification,
+} from "../../lib/notifications";
 import type { SessionData } from "../../lib/session";
 import { SESSION_CONFIG, shouldRefreshSession, validateSession } from "../../lib/session";
 import {
@@ -126,8 +153,17 @@ const mockTriggerLeadUpdated = triggerLeadUpdated as ReturnType<typeof vi.fn>;
 const mockTriggerLeadStatusChanged = triggerLeadStatusChanged as ReturnType<typeof vi.fn>;
 const mockTriggerLeadDeleted = triggerLeadDeleted as ReturnType<typeof vi.fn>;
 const mockTriggerLeadActivityAdded = triggerLeadActivityAdded as ReturnType<typeof vi.fn>;
+const mockTriggerLeadActivityAddedNotification = triggerLeadActivityAddedNotification as ReturnType<
+	typeof vi.fn
+>;
+const mockTriggerLeadStatusChangedNotification = triggerLeadStatusChangedNotification as ReturnType<
+	typeof vi.fn
+>;
+const mockScoreLead = scoreLead as ReturnType<typeof vi.fn>;
 const mockIsOpenAIConfigured = isOpenAIConfigured as ReturnType<typeof vi.fn>;
 const mockParseLeadText = parseLeadText as ReturnType<typeof vi.fn>;
+const mockSendLeadEmail = sendLeadEmail as ReturnType<typeof vi.fn>;
+const mockValidateComposerTemplates = validateComposerTemplates as ReturnType<typeof vi.fn>;
 
 /**
  * Create a mock session for testing.
@@ -163,6 +199,7 @@ function createMockLead(overrides: Record<string, unknown> = {}) {
 		message: "Need help with a web project",
 		source: "Admin",
 		status: "new",
+		score: 0,
 		notes: null,
 		tags: null,
 		rawInput: null,
@@ -236,6 +273,7 @@ describe("Admin Leads Routes", () => {
 		mockTriggerLeadStatusChanged.mockImplementation(() => Promise.resolve());
 		mockTriggerLeadDeleted.mockImplementation(() => Promise.resolve());
 		mockTriggerLeadActivityAdded.mockImplementation(() => Promise.resolve());
+		mockScoreLead.mockResolvedValue(42);
 
 		// Setup authenticated session by default
 		const mockSession = createMockSession();
@@ -498,6 +536,104 @@ describe("Admin Leads Routes", () => {
 		});
 	});
 
+	// ==========================================================================
+	// LEAD SCORING TESTS
+	// ==========================================================================
+
+	describe("Lead scoring", () => {
+		it("stores the score when creating a lead", async () => {
+			const values = vi.fn().mockReturnValue({
+				returning: vi.fn().mockResolvedValue([createMockLead({ score: 42 })]),
+			});
+			mockDb.insert.mockReturnValue({ values });
+
+			const res = await app.request("/api/admin/leads", {
+				method: "POST",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+					"X-Requested-With": "XMLHttpRequest",
+				},
+				body: JSON.stringify({
+					name: "Test Lead",
+					email: "test@example.com",
+					message: "Need help with a web project",
+				}),
+			});
+
+			expect(res.status).toBe(201);
+			expect(values).toHaveBeenCalledWith(
+				expect.objectContaining({ email: "test@example.com", score: 42 }),
+			);
+			const body = await res.json();
+			expect(body.data.score).toBe(42);
+		});
+
+		it("rescores the lead on update", async () => {
+			mockDb.select.mockReturnValue({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue([createMockLead()]),
+					}),
+				}),
+			});
+			const set = vi.fn().mockReturnValue({
+				where: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([createMockLead({ score: 42 })]),
+				}),
+			});
+			mockDb.update.mockReturnValue({ set });
+
+			const res = await app.request(`/api/admin/leads/${VALID_UUID}`, {
+				method: "PATCH",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+					"X-Requested-With": "XMLHttpRequest",
+				},
+				body: JSON.stringify({ source: "Referral" }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(set).toHaveBeenCalledWith(expect.objectContaining({ source: "Referral", score: 42 }));
+		});
+
+		it("keeps the current score when rescoring fails", async () => {
+			const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+			mockScoreLead.mockRejectedValue(new Error("settings unavailable"));
+			mockDb.select.mockReturnValue({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue([createMockLead({ score: 30 })]),
+					}),
+				}),
+			});
+			const set = vi.fn().mockReturnValue({
+				where: vi.fn().mockReturnValue({
+					returning: vi.fn().mockResolvedValue([createMockLead({ source: "Referral", score: 30 })]),
+				}),
+			});
+			mockDb.update.mockReturnValue({ set });
+
+			const res = await app.request(`/api/admin/leads/${VALID_UUID}`, {
+				method: "PATCH",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+					"X-Requested-With": "XMLHttpRequest",
+				},
+				body: JSON.stringify({ source: "Referral" }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(set).toHaveBeenCalledWith(expect.not.objectContaining({ score: expect.anything() }));
+			const body = await res.json();
+			expect(body.data.score).toBe(30);
+			expect(consoleSpy).toHaveBeenCalled();
+			consoleSpy.mockRestore();
+		});
+	});
+
 	// ==========================================================================
 	// WEBHOOK TRIGGERING TESTS
 	//
@@ -815,6 +951,13 @@ describe("Admin Leads Routes", () => {
 						status: { old: "new", new: "contacted" },
 					}),
 				);
+
+				// And subscribed notification channels are notified
+				expect(mockTriggerLeadStatusChangedNotification).toHaveBeenCalledWith(
+					expect.objectContaining({ id: VALID_UUID, status: "contacted" }),
+					"new",
+					"contacted",
+				);
 			});
 
 			it("does NOT trigger triggerLeadStatusChanged when status is unchanged", async () => {
@@ -853,6 +996,7 @@ describe("Admin Leads Routes", () => {
 
 				// Status unchanged so status_changed webhook should NOT be triggered
 				expect(mockTriggerLeadStatusChanged).not.toHaveBeenCalled();
+				expect(mockTriggerLeadStatusChangedNotification).not.toHaveBeenCalled();
 
 				// But updated webhook should be triggered for notes change
 				expect(mockTriggerLeadUpdated).toHaveBeenCalledTimes(1);
@@ -943,9 +1087,7 @@ describe("Admin Leads Routes", () => {
 				// Verify deleted webhook was triggered with lead info
 				expect(mockTriggerLeadDeleted).toHaveBeenCalledTimes(1);
 				expect(mockTriggerLeadDeleted).toHaveBeenCalledWith(
-					VALID_UUID,
-					"Lead To Delete",
-					"delete@example.com",
+					expect.objectContaining({ name: "Lead To Delete", email: "delete@example.com" }),
 				);
 			});
 
@@ -979,11 +1121,14 @@ describe("Admin Leads Routes", () => {
 
 				await new Promise((resolve) => setTimeout(resolve, 10));
 
-				// Verify the exact arguments match the lead's data
+				// Verify the full lead is passed on, so filters can use every field
 				expect(mockTriggerLeadDeleted).toHaveBeenCalledWith(
-					VALID_UUID,
-					"Special Lead",
-					"special@test.com",
+					expect.objectContaining({
+						id: VALID_UUID,
+						name: "Special Lead",
+						email: "special@test.com",
+						company: "Test Corp",
+					}),
 				);
 			});
 		});
@@ -1048,6 +1193,12 @@ describe("Admin Leads Routes", () => {
 						description: "Discussed project requirements",
 					}),
 				);
+
+				// Verify notification channels were notified too
+				expect(mockTriggerLeadActivityAddedNotification).toHaveBeenCalledWith(
+					expect.objectContaining({ id: mockLead.id }),
+					expect.objectContaining({ type: "call" }),
+				);
 			});
 
 			it("passes correct activity data to webhook for different activity types", async () => {
@@ -1349,4 +1500,103 @@ describe("Admin Leads Routes", () => {
 			});
 		});
 	});
+
+	// ==========================================================================
+	// EMAIL COMPOSER TESTS
+	// ==========================================================================
+
+	describe("POST /api/admin/leads/:id/email", () => {
+		function sendEmailRequest(data: unknown) {
+			return app.request(`/api/admin/leads/${VALID_UUID}/email`, {
+				method: "POST",
+				headers: {
+					Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+					"Content-Type": "application/json",
+					"X-Requested-With": "XMLHttpRequest",
+				},
+				body: JSON.stringify(data),
+			});
+		}
+
+		function setupLeadLookup(lead: unknown) {
+			mockDb.select.mockReturnValue({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue(lead ? [lead] : []),
+					}),
+				}),
+			});
+		}
+
+		it("sends the email and returns the logged activity with its body", async () => {
+			const mockLead = createMockLead();
+			setupLeadLookup(mockLead);
+			mockSendLeadEmail.mockResolvedValue(
+				createMockActivity({
+					type: "email",
+					description: 'Email sent: "Following up, Test"',
+					body: "Hi Test, ...",
+				}),
+			);
+
+			const res = await sendEmailRequest({
+				subject: "Following up, {{firstName}}",
+				body: "Hi {{firstName}}, ...",
+			});
+
+			expect(res.status).toBe(201);
+			expect(mockSendLeadEmail).toHaveBeenCalledWith(mockLead, {
+				subject: "Following up, {{firstName}}",
+				body: "Hi {{firstName}}, ...",
+			});
+			const body = await res.json();
+			expect(body.data.type).toBe("email");
+			expect(body.data.body).toBe("Hi Test, ...");
+		});
+
+		it("rejects a missing subject or body", async () => {
+			setupLeadLookup(createMockLead());
+
+			const res = await sendEmailRequest({ subject: "  " });
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details.subject).toBeDefined();
+			expect(body.details.body).toBeDefined();
+			expect(mockSendLeadEmail).not.toHaveBeenCalled();
+		});
+
+		it("rejects invalid template fields", async () => {
+			setupLeadLookup(createMockLead());
+			mockValidateComposerTemplates.mockReturnValue({ body: "Unknown field {{lead.name}}" });
+
+			const res = await sendEmailRequest({ subject: "Hi", body: "Hi {{lead.name}}" });
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details.body).toBe("Unknown field {{lead.name}}");
+			expect(mockSendLeadEmail).not.toHaveBeenCalled();
+		});
+
+		it("returns 503 when the email can't be sent", async () => {
+			setupLeadLookup(createMockLead());
+			mockSendLeadEmail.mockRejectedValue(new EmailSendError("No sender configured"));
+
+			const res = await sendEmailRequest({ subject: "Hi", body: "Hello" });
+
+			expect(res.status).toBe(503);
+			const body = await res.json();
+			expect(body.code).toBe("EMAIL_SERVICE_ERROR");
+			expect(body.error).toBe("No sender configured");
+		});
+
+		it("returns 404 for an unknown lead", async () => {
+			setupLeadLookup(null);
+
+			const res = await sendEmailRequest({ subject: "Hi", body: "Hello" });
+
+			expect(res.status).toBe(404);
+			expect(mockSendLeadEmail).not.toHaveBeenCalled();
+		});
+	});
 });
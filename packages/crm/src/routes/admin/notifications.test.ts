@@ -54,19 +54,45 @@ vi.mock("../../db", () => ({
 		createdAt: "createdAt",
 		updatedAt: "updatedAt",
 	},
-	notificationChannelTypeEnum: ["discord", "telegram", "email"],
+	leads: { createdAt: "createdAt" },
+	notificationChannelTypeEnum: ["discord", "telegram", "email", "slack", "push"],
+	notificationDeliveryModeEnum: ["realtime", "daily", "weekly"],
+	notificationDeliveries: {
+		channelId: "channelId",
+		attemptedAt: "attemptedAt",
+	},
 }));
 
 // Mock notifications lib
 const mockSendTestNotification = vi.fn();
 const mockValidateChannelConfig = vi.fn();
 
-vi.mock("../../lib/notifications", () => ({
-	validateChannelConfig: (...args: unknown[]) => mockValidateChannelConfig(...args),
-	sendTestNotification: (...args: unknown[]) => mockSendTestNotification(...args),
-	notificationEventEnum: ["lead.created", "lead.status_changed"],
-	VALID_NOTIFICATION_EVENTS: new Set(["lead.created", "lead.status_changed"]),
-}));
+vi.mock("../../lib/notifications", async () => {
+	const dispatcher = await vi.importActual<typeof import("../../lib/notifications/dispatcher")>(
+		"../../lib/notifications/dispatcher",
+	);
+	return {
+		isValidTimeZone: (
+			await vi.importActual<typeof import("../../lib/notifications/schedule")>(
+				"../../lib/notifications/schedule",
+			)
+		).isValidTimeZone,
+		...(await vi.importActual<typeof import("../../lib/notifications/types")>(
+			"../../lib/notifications/types",
+		)),
+		...(await vi.importActual<typeof import("../../lib/notifications/templates")>(
+			"../../lib/notifications/templates",
+		)),
+		matchesChannelFilter: dispatcher.matchesChannelFilter,
+		getDefaultChannelTemplates: dispatcher.getDefaultChannelTemplates,
+		previewChannelTemplates: dispatcher.previewChannelTemplates,
+		validateChannelTemplates: dispatcher.validateChannelTemplates,
+		validateChannelConfig: (...args: unknown[]) => mockValidateChannelConfig(...args),
+		sendTestNotification: (...args: unknown[]) => mockSendTestNotification(...args),
+		notificationEventEnum: ["lead.created", "lead.status_changed"],
+		VALID_NOTIFICATION_EVENTS: new Set(["lead.created", "lead.status_changed"]),
+	};
+});
 
 import { db } from "../../db";
 import type { SessionData } from "../../lib/session";
@@ -151,13 +177,15 @@ function setupMockDbChain(resolvedValue: unknown) {
  * Create a mock channel for testing.
  */
 function createMockChannel(
-	type: "discord" | "telegram" | "email" = "discord",
+	type: "discord" | "telegram" | "email" | "slack" | "push" = "discord",
 	overrides: Record<string, unknown> = {},
 ) {
 	const configs = {
 		discord: { webhook_url: "https://discord.com/api/webhooks/123/abcdefghijk" },
 		telegram: { bot_token: "123456789:ABCdef", chat_id: "-1001234567890" },
 		email: { to: "admin@example.com", from: "crm@octatech.xyz" },
+		slack: { webhook_url: "https://hooks.slack.com/services/T000/B000/abcdefghijk" },
+		push: { url: "https://ntfy.sh/octatech-leads", priority: "high", tags: "rotating_light" },
 	};
 
 	return {
@@ -167,6 +195,15 @@ function createMockChannel(
 		config: configs[type],
 		events: ["lead.created"],
 		enabled: true,
+		filter: null,
+		templates: null,
+		deliveryMode: "realtime",
+		digestHour: 9,
+		digestDay: 1,
+		timezone: "UTC",
+		quietHoursStart: null,
+		quietHoursEnd: null,
+		lastDigestAt: null,
 		createdAt: new Date("2024-01-15T10:00:00Z"),
 		updatedAt: new Date("2024-01-15T10:00:00Z"),
 		...overrides,
@@ -379,6 +416,91 @@ describe("POST /api/admin/notifications", () => {
 		expect(data.type).toBe("email");
 	});
 
+	it("should create Slack channel with valid data", async () => {
+		const mockChannel = createMockChannel("slack");
+
+		const chain = setupMockDbChain([mockChannel]);
+		chain.returning.mockResolvedValue([mockChannel]);
+
+		const res = await app.request("/api/admin/notifications", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "slack",
+				name: "Test Slack Channel",
+				config: { webhook_url: "https://hooks.slack.com/services/T000/B000/abcdefghijk" },
+				events: ["lead.created"],
+			}),
+		});
+
+		expect(res.status).toBe(201);
+		const data = await res.json();
+		expect(data.type).toBe("slack");
+	});
+
+	it("should reject a non-Slack webhook URL for Slack channels", async () => {
+		const res = await app.request("/api/admin/notifications", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "slack",
+				name: "Test Slack Channel",
+				config: { webhook_url: "https://discord.com/api/webhooks/123/abc" },
+				events: ["lead.created"],
+			}),
+		});
+
+		expect(res.status).toBe(400);
+		const data = await res.json();
+		expect(data.details["config.webhook_url"]).toBe("Invalid Slack webhook URL");
+	});
+
+	it("should create push channel with title, priority and tags", async () => {
+		const mockChannel = createMockChannel("push");
+
+		const chain = setupMockDbChain([mockChannel]);
+		chain.returning.mockResolvedValue([mockChannel]);
+
+		const res = await app.request("/api/admin/notifications", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "push",
+				name: "Phone",
+				config: {
+					url: "https://ntfy.sh/octatech-leads",
+					title: "New lead",
+					priority: "high",
+					tags: "rotating_light,lead",
+				},
+				events: ["lead.created"],
+			}),
+		});
+
+		expect(res.status).toBe(201);
+		const data = await res.json();
+		expect(data.type).toBe("push");
+	});
+
+	it("should reject invalid push config", async () => {
+		const res = await app.request("/api/admin/notifications", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "push",
+				name: "Phone",
+				config: { url: "http://ntfy.sh/octatech-leads", priority: "loud", format: "xml" },
+				events: ["lead.created"],
+			}),
+		});
+
+		expect(res.status).toBe(400);
+		const data = await res.json();
+		expect(data.details["config.url"]).toBe("URL must use HTTPS protocol");
+		expect(data.details["config.priority"]).toContain("priority must be 1-5");
+		expect(data.details["config.format"]).toBeDefined();
+	});
+
 	it("should reject invalid channel type", async () => {
 		const res = await app.request("/api/admin/notifications", {
 			method: "POST",
@@ -467,6 +589,156 @@ describe("POST /api/admin/notifications", () => {
 
 		expect(res.status).toBe(400);
 	});
+	it("should create a digest channel with its schedule", async () => {
+		const mockChannel = createMockChannel("telegram", {
+			deliveryMode: "daily",
+			digestHour: 8,
+			timezone: "Europe/Berlin",
+			lastDigestAt: new Date("2024-01-15T10:00:00Z"),
+		});
+		const chain = setupMockDbChain([mockChannel]);
+
+		const res = await app.request("/api/admin/notifications", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "telegram",
+				name: "Morning Digest",
+				config: { bot_token: "123456789:ABCdef", chat_id: "-1001234567890" },
+				events: ["lead.created"],
+				deliveryMode: "daily",
+				digestHour: 8,
+				timezone: "Europe/Berlin",
+			}),
+		});
+
+		expect(res.status).toBe(201);
+		expect(chain.values).toHaveBeenCalledWith(
+			expect.objectContaining({
+				deliveryMode: "daily",
+				digestHour: 8,
+				digestDay: 1,
+				timezone: "Europe/Berlin",
+				quietHoursStart: null,
+				quietHoursEnd: null,
+				lastDigestAt: expect.any(Date),
+			}),
+		);
+		const data = await res.json();
+		expect(data.deliveryMode).toBe("daily");
+		expect(data.timezone).toBe("Europe/Berlin");
+		expect(data.lastDigestAt).toBe("2024-01-15T10:00:00.000Z");
+	});
+
+	it("should create a channel with trimmed routing rules", async () => {
+		const filter = "source == 'Referral'";
+		const chain = setupMockDbChain([createMockChannel("email", { filter })]);
+
+		const res = await app.request("/api/admin/notifications", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "email",
+				name: "Referrals",
+				config: { to: "admin@example.com", from: "crm@octatech.xyz" },
+				events: ["lead.created"],
+				filter: `  ${filter}  `,
+			}),
+		});
+
+		expect(res.status).toBe(201);
+		expect(chain.values).toHaveBeenCalledWith(expect.objectContaining({ filter }));
+		const data = await res.json();
+		expect(data.filter).toBe(filter);
+	});
+
+	it("should reject routing rules over unknown fields", async () => {
+		const res = await app.request("/api/admin/notifications", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "discord",
+				name: "Test",
+				config: { webhook_url: "https://discord.com/api/webhooks/123/abcdefghijk" },
+				events: ["lead.created"],
+				filter: "notes contains 'urgent'",
+			}),
+		});
+
+		expect(res.status).toBe(400);
+		const data = await res.json();
+		expect(data.details.filter).toContain('Unknown field "notes"');
+	});
+
+	it("should create a channel with template overrides, dropping blank ones", async () => {
+		const templates = { "lead.created": { text: "<b>{{lead.name}}</b> via {{lead.source}}" } };
+		const chain = setupMockDbChain([createMockChannel("telegram", { templates })]);
+
+		const res = await app.request("/api/admin/notifications", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "telegram",
+				name: "Leads",
+				config: { bot_token: "123456789:ABCdef", chat_id: "-1001234567890" },
+				events: ["lead.created"],
+				templates: { "lead.created": { ...templates["lead.created"] } },
+			}),
+		});
+
+		expect(res.status).toBe(201);
+		expect(chain.values).toHaveBeenCalledWith(expect.objectContaining({ templates }));
+		const data = await res.json();
+		expect(data.templates).toEqual(templates);
+	});
+
+	it.each([
+		["discord", { "lead.created": { title: "{{lead.notes}}" } }, 'Unknown field "lead.notes"'],
+		["discord", { "lead.created": { title: "{{#lead.company}}x" } }, "Missing"],
+		["discord", { "lead.created": { footer: "x" } }, 'Unknown template part "footer"'],
+		["email", { "lead.status_changed": { subject: "x" } }, "not supported for lead.status_changed"],
+		["slack", { "lead.created": { text: "x" } }, "don't support message templates"],
+	])("should reject invalid %s templates %o", async (type, templates, message) => {
+		const res = await app.request("/api/admin/notifications", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type,
+				name: "Test",
+				config: createMockChannel(type as "discord").config,
+				events: ["lead.created"],
+				templates,
+			}),
+		});
+
+		expect(res.status).toBe(400);
+		const data = await res.json();
+		expect(data.details.templates).toContain(message);
+	});
+
+	it.each([
+		[{ timezone: "Mars/Olympus" }, "timezone", "Invalid timezone"],
+		[{ digestHour: 24 }, "digestHour", "Hour must be between 0 and 23"],
+		[{ deliveryMode: "hourly" }, "deliveryMode", "deliveryMode must be one of"],
+		[{ quietHoursStart: 22 }, "quietHoursStart", "must be set together"],
+		[{ quietHoursStart: 7, quietHoursEnd: 7 }, "quietHoursStart", "different hours"],
+	])("should reject invalid schedule %o", async (schedule, field, message) => {
+		const res = await app.request("/api/admin/notifications", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "discord",
+				name: "Test",
+				config: { webhook_url: "https://discord.com/api/webhooks/123/abcdefghijk" },
+				events: ["lead.created"],
+				...schedule,
+			}),
+		});
+
+		expect(res.status).toBe(400);
+		const data = await res.json();
+		expect(data.details[field]).toContain(message);
+	});
 });
 
 // ============================================================================
@@ -610,6 +882,346 @@ describe("PATCH /api/admin/notifications/:id", () => {
 		expect(res.status).toBe(400);
 		expect(mockValidateChannelConfig).toHaveBeenCalled();
 	});
+	it("should start the first digest when switching to digest mode", async () => {
+		const existingChannel = createMockChannel("discord");
+		const chain = setupMockDbChain([{ ...existingChannel, deliveryMode: "weekly" }]);
+		chain.limit.mockResolvedValue([existingChannel]);
+
+		const res = await app.request("/api/admin/notifications/channel-123", {
+			method: "PATCH",
+			headers: authHeaders(true),
+			body: JSON.stringify({ deliveryMode: "weekly", digestDay: 5 }),
+		});
+
+		expect(res.status).toBe(200);
+		expect(chain.set).toHaveBeenCalledWith(
+			expect.objectContaining({
+				deliveryMode: "weekly",
+				digestDay: 5,
+				lastDigestAt: expect.any(Date),
+			}),
+		);
+		const data = await res.json();
+		expect(data.deliveryMode).toBe("weekly");
+	});
+
+	it("should remove routing rules when cleared", async () => {
+		const existingChannel = createMockChannel("discord", { filter: "budget >= 50000" });
+		const chain = setupMockDbChain([{ ...existingChannel, filter: null }]);
+		chain.limit.mockResolvedValue([existingChannel]);
+
+		const res = await app.request("/api/admin/notifications/channel-123", {
+			method: "PATCH",
+			headers: authHeaders(true),
+			body: JSON.stringify({ filter: "" }),
+		});
+
+		expect(res.status).toBe(200);
+		expect(chain.set).toHaveBeenCalledWith(expect.objectContaining({ filter: null }));
+		const data = await res.json();
+		expect(data.filter).toBeNull();
+	});
+
+	it("should restore the default templates when cleared", async () => {
+		const existingChannel = createMockChannel("email", {
+			templates: { "lead.created": { subject: "Lead: {{lead.name}}" } },
+		});
+		const chain = setupMockDbChain([{ ...existingChannel, templates: null }]);
+		chain.limit.mockResolvedValue([existingChannel]);
+
+		const res = await app.request("/api/admin/notifications/channel-123", {
+			method: "PATCH",
+			headers: authHeaders(true),
+			body: JSON.stringify({ templates: { "lead.created": { subject: " " } } }),
+		});
+
+		expect(res.status).toBe(200);
+		expect(chain.set).toHaveBeenCalledWith(expect.objectContaining({ templates: null }));
+	});
+
+	it("should validate templates against the channel type", async () => {
+		const existingChannel = createMockChannel("push");
+		const chain = setupMockDbChain([existingChannel]);
+		chain.limit.mockResolvedValue([existingChannel]);
+
+		const res = await app.request("/api/admin/notifications/channel-123", {
+			method: "PATCH",
+			headers: authHeaders(true),
+			body: JSON.stringify({ templates: { "lead.created": { text: "{{lead.name}}" } } }),
+		});
+
+		expect(res.status).toBe(400);
+		const data = await res.json();
+		expect(data.details.templates).toContain("don't support message templates");
+		expect(chain.set).not.toHaveBeenCalled();
+	});
+
+	it("should validate quiet hours against the stored values", async () => {
+		const existingChannel = createMockChannel("discord", {
+			quietHoursStart: 22,
+			quietHoursEnd: 7,
+		});
+		const chain = setupMockDbChain([existingChannel]);
+		chain.limit.mockResolvedValue([existingChannel]);
+
+		const res = await app.request("/api/admin/notifications/channel-123", {
+			method: "PATCH",
+			headers: authHeaders(true),
+			body: JSON.stringify({ quietHoursEnd: null }),
+		});
+
+		expect(res.status).toBe(400);
+		const data = await res.json();
+		expect(data.details.quietHoursStart).toContain("must be set together");
+	});
+});
+
+// ============================================================================
+// POST /api/admin/notifications/filter/preview TESTS
+// ============================================================================
+
+describe("POST /api/admin/notifications/filter/preview", () => {
+	let app: Hono;
+
+	const recentLeads = [
+		{
+			id: "lead-1",
+			name: "Big Co",
+			email: "cto@big.co",
+			company: "Big Co",
+			phone: null,
+			budget: "$50,000 - $100,000",
+			projectType: "New Product / MVP",
+			message: "Hi",
+			source: "LinkedIn",
+			status: "new",
+			tags: null,
+			createdAt: new Date("2024-01-16T10:00:00Z"),
+		},
+		{
+			id: "lead-2",
+			name: "Small Co",
+			email: "hi@small.co",
+			company: null,
+			phone: null,
+			budget: "$5,000 - $15,000",
+			projectType: "Legacy Modernization",
+			message: "Hello",
+			source: "Referral",
+			status: "contacted",
+			tags: ["vip"],
+			createdAt: new Date("2024-01-15T10:00:00Z"),
+		},
+	];
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+
+		const mockSession = createMockSession();
+		mockValidateSession.mockResolvedValue(mockSession);
+		mockShouldRefreshSession.mockReturnValue(false);
+
+		app = new Hono();
+		app.route("/api/admin/notifications", adminNotificationsRoutes);
+		app.onError(errorHandler);
+	});
+
+	it("should report which recent leads the rules match", async () => {
+		const chain = setupMockDbChain([]);
+		chain.limit.mockResolvedValue(recentLeads);
+
+		const res = await app.request("/api/admin/notifications/filter/preview", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({ filter: "budget >= 50000 or tags contains 'vip'" }),
+		});
+
+		expect(res.status).toBe(200);
+		expect(chain.limit).toHaveBeenCalledWith(50);
+		const data = await res.json();
+		expect(data.total).toBe(2);
+		expect(data.matched).toBe(2);
+
+		const strict = await app.request("/api/admin/notifications/filter/preview", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({ filter: "source == 'Referral'" }),
+		});
+
+		const strictData = await strict.json();
+		expect(strictData.matched).toBe(1);
+		expect(strictData.leads).toMatchObject([
+			{ id: "lead-1", matched: false },
+			{ id: "lead-2", matched: true, tags: ["vip"], createdAt: "2024-01-15T10:00:00.000Z" },
+		]);
+	});
+
+	it("should match every lead without rules", async () => {
+		const chain = setupMockDbChain([]);
+		chain.limit.mockResolvedValue(recentLeads);
+
+		const res = await app.request("/api/admin/notifications/filter/preview", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({ filter: null }),
+		});
+
+		const data = await res.json();
+		expect(data.matched).toBe(2);
+	});
+
+	it("should reject invalid rules", async () => {
+		const res = await app.request("/api/admin/notifications/filter/preview", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({ filter: "budget >=" }),
+		});
+
+		expect(res.status).toBe(400);
+		const data = await res.json();
+		expect(data.details.filter).toContain("Invalid filter");
+	});
+});
+
+// ============================================================================
+// POST /api/admin/notifications/templates/* TESTS
+// ============================================================================
+
+describe("POST /api/admin/notifications/templates/preview", () => {
+	let app: Hono;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+
+		const mockSession = createMockSession();
+		mockValidateSession.mockResolvedValue(mockSession);
+		mockShouldRefreshSession.mockReturnValue(false);
+
+		app = new Hono();
+		app.route("/api/admin/notifications", adminNotificationsRoutes);
+		app.onError(errorHandler);
+	});
+
+	it("should render overrides for the sample lead", async () => {
+		const res = await app.request("/api/admin/notifications/templates/preview", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "discord",
+				templates: {
+					"lead.created": { title: "{{lead.name}} ({{lead.company}})", fields: "" },
+				},
+			}),
+		});
+
+		expect(res.status).toBe(200);
+		const data = await res.json();
+		const [embed] = data.preview.embeds;
+		expect(embed.title).toBe("Test Lead (Test Company Inc)");
+		expect(embed.fields[0]).toEqual({ name: "📧 Email", value: "test@example.com", inline: true });
+	});
+
+	it("should render the default message without overrides", async () => {
+		const res = await app.request("/api/admin/notifications/templates/preview", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({ type: "email" }),
+		});
+
+		const data = await res.json();
+		expect(data.preview.subject).toBe("New Lead: Test Lead - Test Company Inc");
+		expect(data.preview.html).toContain("🆕 New Lead Received");
+	});
+
+	it("should keep the markup of HTML templates", async () => {
+		const res = await app.request("/api/admin/notifications/templates/preview", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "telegram",
+				templates: { "lead.created": { text: "<b>{{lead.budget}}</b> & more" } },
+			}),
+		});
+
+		const data = await res.json();
+		expect(data.preview.text).toBe("<b>$10,000 - $50,000</b> & more");
+	});
+
+	it("should reject invalid templates", async () => {
+		const res = await app.request("/api/admin/notifications/templates/preview", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "telegram",
+				templates: { "lead.created": { text: "{{/lead.name}}" } },
+			}),
+		});
+
+		expect(res.status).toBe(400);
+		const data = await res.json();
+		expect(data.details.templates).toContain('Unexpected "{{/lead.name}}"');
+	});
+
+	it("should reject channel types without templates", async () => {
+		const res = await app.request("/api/admin/notifications/templates/preview", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({ type: "slack" }),
+		});
+
+		expect(res.status).toBe(400);
+	});
+});
+
+describe("POST /api/admin/notifications/templates/validate", () => {
+	let app: Hono;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+
+		const mockSession = createMockSession();
+		mockValidateSession.mockResolvedValue(mockSession);
+		mockShouldRefreshSession.mockReturnValue(false);
+
+		app = new Hono();
+		app.route("/api/admin/notifications", adminNotificationsRoutes);
+		app.onError(errorHandler);
+	});
+
+	it("should accept valid templates", async () => {
+		const res = await app.request("/api/admin/notifications/templates/validate", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "email",
+				templates: {
+					"lead.created": {
+						subject: "{{lead.name}}{{^lead.company}} (no company){{/lead.company}}",
+					},
+				},
+			}),
+		});
+
+		expect(res.status).toBe(200);
+		expect(await res.json()).toEqual({ valid: true });
+	});
+
+	it("should report templates that render an empty message", async () => {
+		const res = await app.request("/api/admin/notifications/templates/validate", {
+			method: "POST",
+			headers: authHeaders(true),
+			body: JSON.stringify({
+				type: "discord",
+				templates: { "lead.created": { title: "{{^lead.name}}Unknown{{/lead.name}}" } },
+			}),
+		});
+
+		expect(res.status).toBe(200);
+		expect(await res.json()).toEqual({
+			valid: false,
+			error: "lead.created title must not render empty",
+		});
+	});
 });
 
 // ============================================================================
@@ -767,6 +1379,127 @@ describe("POST /api/admin/notifications/:id/test", () => {
 	});
 });
 
+// ============================================================================
+// GET /api/admin/notifications/:id/deliveries TESTS
+// ============================================================================
+
+describe("GET /api/admin/notifications/:id/deliveries", () => {
+	let app: Hono;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+
+		const mockSession = createMockSession();
+		mockValidateSession.mockResolvedValue(mockSession);
+		mockShouldRefreshSession.mockReturnValue(false);
+
+		app = new Hono();
+		app.route("/api/admin/notifications", adminNotificationsRoutes);
+		app.onError(errorHandler);
+	});
+
+	/**
+	 * Mock the three queries: channel lookup, count, and the page of deliveries.
+	 */
+	function mockDeliveryQueries(channel: unknown, deliveries: unknown[]) {
+		const offset = vi.fn().mockResolvedValue(deliveries);
+		const limit = vi.fn().mockReturnThis();
+		const chains = [
+			{
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				limit: vi.fn().mockResolvedValue(channel ? [channel] : []),
+			},
+			{
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockResolvedValue([{ count: deliveries.length }]),
+			},
+			{
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				orderBy: vi.fn().mockReturnThis(),
+				limit,
+				offset,
+			},
+		];
+		let call = 0;
+		mockDb.select.mockImplementation(() => chains[call++]);
+		return { limit, offset };
+	}
+
+	it("should return the channel's delivery attempts", async () => {
+		const attemptedAt = new Date("2024-01-15T10:00:00Z");
+		const nextRetryAt = new Date("2024-01-15T10:00:30Z");
+		mockDeliveryQueries(createMockChannel("telegram"), [
+			{
+				id: "delivery-2",
+				channelId: "channel-123",
+				event: "lead.created",
+				payload: { event: "lead.created" },
+				status: "failed",
+				statusCode: 502,
+				error: "Telegram API returned 502",
+				durationMs: 120,
+				attemptNumber: 1,
+				nextRetryAt,
+				attemptedAt,
+			},
+		]);
+
+		const res = await app.request("/api/admin/notifications/channel-123/deliveries", {
+			headers: authHeaders(),
+		});
+
+		expect(res.status).toBe(200);
+		const data = await res.json();
+		expect(data.deliveries).toEqual([
+			{
+				id: "delivery-2",
+				event: "lead.created",
+				payload: { event: "lead.created" },
+				status: "failed",
+				success: false,
+				statusCode: 502,
+				error: "Telegram API returned 502",
+				durationMs: 120,
+				attemptNumber: 1,
+				nextRetryAt: nextRetryAt.toISOString(),
+				attemptedAt: attemptedAt.toISOString(),
+			},
+		]);
+		expect(data.pagination).toEqual({
+			page: 1,
+			limit: 20,
+			total: 1,
+			totalPages: 1,
+			hasMore: false,
+		});
+	});
+
+	it("should apply pagination parameters", async () => {
+		const { limit, offset } = mockDeliveryQueries(createMockChannel("discord"), []);
+
+		const res = await app.request(
+			"/api/admin/notifications/channel-123/deliveries?page=3&limit=500",
+			{ headers: authHeaders() },
+		);
+
+		expect(res.status).toBe(200);
+		expect(limit).toHaveBeenCalledWith(100);
+		expect(offset).toHaveBeenCalledWith(200);
+	});
+
+	it("should return 404 for non-existent channel", async () => {
+		mockDeliveryQueries(null, []);
+
+		const res = await app.request("/api/admin/notifications/non-existent/deliveries", {
+			headers: authHeaders(),
+		});
+
+		expect(res.status).toBe(404);
+	});
+});
+
 // ============================================================================
 // GET /api/admin/notifications/events/list TESTS
 // ============================================================================
@@ -830,7 +1563,7 @@ describe("GET /api/admin/notifications/types/list", () => {
 		expect(res.status).toBe(200);
 		const data = await res.json();
 		expect(data.types).toBeInstanceOf(Array);
-		expect(data.types.length).toBe(3);
+		expect(data.types.length).toBe(5);
 
 		const discord = data.types.find((t: { type: string }) => t.type === "discord");
 		expect(discord).toBeDefined();
@@ -840,10 +1573,42 @@ describe("GET /api/admin/notifications/types/list", () => {
 
 		const telegram = data.types.find((t: { type: string }) => t.type === "telegram");
 		expect(telegram).toBeDefined();
-		expect(telegram.configFields).toHaveLength(2);
+		expect(telegram.configFields).toHaveLength(3);
 
 		const email = data.types.find((t: { type: string }) => t.type === "email");
 		expect(email).toBeDefined();
 		expect(email.configFields).toHaveLength(2);
+
+		const slack = data.types.find((t: { type: string }) => t.type === "slack");
+		expect(slack).toBeDefined();
+		expect(slack.configFields[0].name).toBe("webhook_url");
+
+		const push = data.types.find((t: { type: string }) => t.type === "push");
+		expect(push).toBeDefined();
+		expect(push.configFields.map((f: { name: string }) => f.name)).toEqual([
+			"url",
+			"format",
+			"title",
+			"priority",
+			"tags",
+		]);
+	});
+
+	it("should describe the template parts each type can override", async () => {
+		const res = await app.request("/api/admin/notifications/types/list", {
+			headers: authHeaders(),
+		});
+
+		const data = await res.json();
+		const parts = (type: string) =>
+			data.types
+				.find((t: { type: string }) => t.type === type)
+				.templateParts.map((part: { name: string }) => part.name);
+
+		expect(parts("discord")).toEqual(["title", "description", "fields"]);
+		expect(parts("telegram")).toEqual(["text"]);
+		expect(parts("email")).toEqual(["subject", "html"]);
+		expect(parts("slack")).toEqual([]);
+		expect(data.templateFields).toContain("lead.name");
 	});
 });
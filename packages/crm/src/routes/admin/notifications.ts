@@ -5,26 +5,47 @@
  * All routes require admin session authentication.
  *
  * Notification channels allow the CRM to send alerts to Discord, Telegram,
- * and Email when events occur (primarily new leads).
+ * Email, Slack, and any HTTP push endpoint (ntfy, Gotify, Matrix hookshot)
+ * when events occur (primarily new leads). Each channel either receives
+ * events in real time (optionally held during quiet hours) or as a daily or
+ * weekly digest. Routing rules (a filter expression over lead fields) limit
+ * which leads a channel hears about, and Discord, Telegram and email channels
+ * can override their new-lead messages with templates.
  */
 
-import { desc, eq } from "drizzle-orm";
+import { desc, eq, sql } from "drizzle-orm";
 import { Hono } from "hono";
 import { z } from "zod";
 import {
 	db,
+	leads,
 	type NewNotificationChannel,
+	type NotificationChannel,
+	type NotificationChannelType,
 	type NotificationConfig,
 	notificationChannels,
 	notificationChannelTypeEnum,
+	notificationDeliveries,
+	notificationDeliveryModeEnum,
 } from "../../db/index.js";
 import { BadRequestError, NotFoundError, ValidationError } from "../../lib/errors.js";
 import {
+	getDefaultChannelTemplates,
+	isValidTimeZone,
+	LEAD_TEMPLATE_FIELDS,
+	leadToNotificationData,
+	MAX_NOTIFICATION_TEMPLATE_LENGTH,
+	matchesChannelFilter,
+	NOTIFICATION_FILTER_FIELDS,
+	type NotificationTemplates,
 	notificationEventEnum,
+	previewChannelTemplates,
 	sendTestNotification,
 	VALID_NOTIFICATION_EVENTS,
 	validateChannelConfig,
+	validateChannelTemplates,
 } from "../../lib/notifications/index.js";
+import { MAX_FILTER_LENGTH, validateWebhookFilter } from "../../lib/webhook-filters.js";
 import { requireAuth, requireCsrfHeader } from "../../middleware/auth.js";
 
 /**
@@ -66,6 +87,10 @@ const telegramConfigSchema = z.object({
 		.string()
 		.min(1, "chat_id is required")
 		.regex(/^-?\d+$/, "chat_id must be a numeric string"),
+	webhook_secret: z
+		.string()
+		.regex(/^[\w-]{1,256}$/, "webhook_secret must be 1-256 letters, digits, underscores or hyphens")
+		.optional(),
 });
 
 /**
@@ -99,6 +124,43 @@ const emailConfigSchema = z.object({
 		),
 });
 
+/**
+ * Schema for Slack configuration.
+ */
+const slackConfigSchema = z.object({
+	webhook_url: z
+		.string()
+		.min(1, "webhook_url is required")
+		.regex(
+			/^https:\/\/hooks\.slack\.com\/services\/[A-Z0-9]+\/[A-Z0-9]+\/[A-Za-z0-9]+$/,
+			"Invalid Slack webhook URL",
+		),
+});
+
+/**
+ * Schema for generic HTTP push configuration.
+ */
+const pushConfigSchema = z.object({
+	url: z
+		.string()
+		.min(1, "url is required")
+		.url("Invalid URL format")
+		.refine((val) => val.startsWith("https://"), "URL must use HTTPS protocol"),
+	format: z.enum(["text", "json"]).optional(),
+	title: z.string().max(250, "title must be at most 250 characters").optional(),
+	priority: z
+		.string()
+		.regex(
+			/^([1-5]|min|low|default|high|urgent|max)?$/i,
+			"priority must be 1-5 or one of: min, low, default, high, urgent",
+		)
+		.optional(),
+	tags: z
+		.string()
+		.regex(/^[\w\s,-]*$/, "tags must be a comma-separated list of words")
+		.optional(),
+});
+
 /**
  * Get config schema based on channel type.
  */
@@ -110,11 +172,87 @@ function getConfigSchema(type: string) {
 			return telegramConfigSchema;
 		case "email":
 			return emailConfigSchema;
+		case "slack":
+			return slackConfigSchema;
+		case "push":
+			return pushConfigSchema;
 		default:
 			return z.object({}).passthrough();
 	}
 }
 
+/**
+ * Schema for a channel's routing rules (a filter expression over lead fields).
+ */
+const filterSchema = z
+	.string()
+	.max(MAX_FILTER_LENGTH, `Filter must be at most ${MAX_FILTER_LENGTH} characters`)
+	.superRefine((filter, ctx) => {
+		if (!filter.trim()) return;
+		const error = validateWebhookFilter(filter, NOTIFICATION_FILTER_FIELDS);
+		if (error) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid filter: ${error}` });
+		}
+	});
+
+/**
+ * Schema for message template overrides, by event and message part.
+ */
+const templatesSchema = z.record(
+	z.record(
+		z
+			.string()
+			.max(
+				MAX_NOTIFICATION_TEMPLATE_LENGTH,
+				`Templates must be at most ${MAX_NOTIFICATION_TEMPLATE_LENGTH} characters`,
+			),
+	),
+);
+
+/**
+ * Schema for an hour of the day in the channel's timezone.
+ */
+const hourSchema = z
+	.number()
+	.int("Hour must be a whole number")
+	.min(0, "Hour must be between 0 and 23")
+	.max(23, "Hour must be between 0 and 23");
+
+/**
+ * Delivery schedule fields shared by the create and update schemas.
+ */
+const scheduleFields = {
+	deliveryMode: z.enum(notificationDeliveryModeEnum, {
+		errorMap: () => ({
+			message: `deliveryMode must be one of: ${notificationDeliveryModeEnum.join(", ")}`,
+		}),
+	}),
+	digestHour: hourSchema,
+	digestDay: z
+		.number()
+		.int("digestDay must be a whole number")
+		.min(0, "digestDay must be between 0 (Sunday) and 6 (Saturday)")
+		.max(6, "digestDay must be between 0 (Sunday) and 6 (Saturday)"),
+	timezone: z.string().refine(isValidTimeZone, { message: "Invalid timezone" }),
+	quietHoursStart: hourSchema.nullable(),
+	quietHoursEnd: hourSchema.nullable(),
+};
+
+/**
+ * Check that quiet hours are either both set (and different) or both unset.
+ *
+ * @returns Error message, or null if valid
+ */
+function validateQuietHours(start: number | null, end: number | null): string | null {
+	if ((start === null) !== (end === null)) {
+		return "quietHoursStart and quietHoursEnd must be set together";
+	}
+	if (start !== null && start === end) {
+		return "Quiet hours must start and end at different hours";
+	}
+	return null;
+}
+
 /**
  * Schema for creating a notification channel.
  */
@@ -131,8 +269,40 @@ const createChannelSchema = z
 			.refine((events) => events.every((e) => VALID_NOTIFICATION_EVENTS.has(e)), {
 				message: `Invalid event. Valid events are: ${notificationEventEnum.join(", ")}`,
 			}),
+		filter: filterSchema.optional().nullable(),
+		templates: templatesSchema.optional().nullable(),
+		deliveryMode: scheduleFields.deliveryMode.default("realtime"),
+		digestHour: scheduleFields.digestHour.default(9),
+		digestDay: scheduleFields.digestDay.default(1),
+		timezone: scheduleFields.timezone.default("UTC"),
+		quietHoursStart: scheduleFields.quietHoursStart.default(null),
+		quietHoursEnd: scheduleFields.quietHoursEnd.default(null),
 	})
 	.superRefine((data, ctx) => {
+		const quietHoursError = validateQuietHours(data.quietHoursStart, data.quietHoursEnd);
+		if (quietHoursError) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["quietHoursStart"],
+				message: quietHoursError,
+			});
+		}
+
+		const templates = normalizeTemplates(data.templates);
+		if (templates) {
+			const templateValidation = validateChannelTemplates(
+				data.type as NotificationChannelType,
+				templates,
+			);
+			if (!templateValidation.valid) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["templates"],
+					message: templateValidation.error || "Invalid templates",
+				});
+			}
+		}
+
 		const configSchema = getConfigSchema(data.type);
 		const result = configSchema.safeParse(data.config);
 		if (!result.success) {
@@ -164,8 +334,123 @@ const updateChannelSchema = z.object({
 		})
 		.optional(),
 	enabled: z.boolean().optional(),
+	filter: filterSchema.optional().nullable(),
+	templates: templatesSchema.optional().nullable(),
+	deliveryMode: scheduleFields.deliveryMode.optional(),
+	digestHour: scheduleFields.digestHour.optional(),
+	digestDay: scheduleFields.digestDay.optional(),
+	timezone: scheduleFields.timezone.optional(),
+	quietHoursStart: scheduleFields.quietHoursStart.optional(),
+	quietHoursEnd: scheduleFields.quietHoursEnd.optional(),
+});
+
+/**
+ * Schema for previewing routing rules against recent leads.
+ */
+const filterPreviewSchema = z.object({
+	filter: filterSchema.optional().nullable(),
+});
+
+/**
+ * Schema for previewing and validating message templates before saving.
+ */
+const templatePreviewSchema = z.object({
+	type: z.string().refine((val) => VALID_CHANNEL_TYPES.has(val), {
+		message: `type must be one of: ${Array.from(VALID_CHANNEL_TYPES).join(", ")}`,
+	}),
+	templates: templatesSchema.optional().nullable(),
 });
 
+/**
+ * Number of recent leads routing rules are previewed against.
+ */
+const FILTER_PREVIEW_LEADS = 50;
+
+/**
+ * Normalize a filter for storage (blank means no filter).
+ */
+function normalizeFilter(filter: string | null | undefined): string | null {
+	return filter?.trim() ? filter.trim() : null;
+}
+
+/**
+ * Normalize template overrides for storage, dropping blank templates (which
+ * fall back to the default). Returns null when nothing is overridden.
+ */
+function normalizeTemplates(
+	templates: NotificationTemplates | null | undefined,
+): NotificationTemplates | null {
+	const normalized: NotificationTemplates = {};
+
+	for (const [event, parts] of Object.entries(templates ?? {})) {
+		const overrides = Object.entries(parts).filter(([, source]) => source.trim());
+		if (overrides.length > 0) {
+			normalized[event] = Object.fromEntries(overrides);
+		}
+	}
+
+	return Object.keys(normalized).length > 0 ? normalized : null;
+}
+
+/**
+ * Labels for the message parts templates can override.
+ */
+const TEMPLATE_PART_LABELS: Record<string, string> = {
+	title: "Title",
+	description: "Description",
+	fields: 'Fields (one "Name | value" per line)',
+	text: "Message",
+	subject: "Subject",
+	html: "HTML body",
+};
+
+/**
+ * Describe the message parts a channel type's templates can override.
+ *
+ * @param type - The channel type
+ * @returns Template parts with their default templates (empty if unsupported)
+ */
+function getTemplateParts(type: NotificationChannelType) {
+	const defaults = getDefaultChannelTemplates(type) ?? {};
+
+	return Object.entries(defaults).flatMap(([event, parts]) =>
+		Object.entries(parts).map(([name, template]) => ({
+			event,
+			name,
+			label: TEMPLATE_PART_LABELS[name] ?? name,
+			default: template,
+		})),
+	);
+}
+
+/**
+ * Format a notification channel for API responses.
+ *
+ * @param channel - The channel from the database
+ * @returns Channel response object
+ */
+function formatChannelResponse(channel: NotificationChannel) {
+	return {
+		id: channel.id,
+		type: channel.type,
+		name: channel.name,
+		config: channel.config,
+		events: channel.events,
+		enabled: channel.enabled,
+		filter: channel.filter,
+		templates: channel.templates,
+		deliveryMode: channel.deliveryMode,
+		digestHour: channel.digestHour,
+		digestDay: channel.digestDay,
+		timezone: channel.timezone,
+		quietHoursStart: channel.quietHoursStart,
+		quietHoursEnd: channel.quietHoursEnd,
+		lastDigestAt: channel.lastDigestAt?.toISOString() ?? null,
+		createdAt: channel.createdAt.toISOString(),
+		updatedAt: channel.updatedAt.toISOString(),
+	};
+}
+
 /**
  * Parse and validate request body with Zod schema.
  * Returns validation errors in a consistent format.
@@ -209,16 +494,7 @@ adminNotificationsRoutes.get("/", async (c) => {
 		.orderBy(desc(notificationChannels.createdAt));
 
 	return c.json({
-		channels: channels.map((channel) => ({
-			id: channel.id,
-			type: channel.type,
-			name: channel.name,
-			config: channel.config,
-			events: channel.events,
-			enabled: channel.enabled,
-			createdAt: channel.createdAt.toISOString(),
-			updatedAt: channel.updatedAt.toISOString(),
-		})),
+		channels: channels.map(formatChannelResponse),
 	});
 });
 
@@ -244,16 +520,7 @@ adminNotificationsRoutes.get("/:id", async (c) => {
 		throw new NotFoundError("Notification channel");
 	}
 
-	return c.json({
-		id: channel.id,
-		type: channel.type,
-		name: channel.name,
-		config: channel.config,
-		events: channel.events,
-		enabled: channel.enabled,
-		createdAt: channel.createdAt.toISOString(),
-		updatedAt: channel.updatedAt.toISOString(),
-	});
+	return c.json(formatChannelResponse(channel));
 });
 
 /**
@@ -261,15 +528,27 @@ adminNotificationsRoutes.get("/:id", async (c) => {
  *
  * Create a new notification channel.
  *
- * @body type - Channel type (discord, telegram, email)
+ * @body type - Channel type (discord, telegram, email, slack, push)
  * @body name - Friendly name for the channel
  * @body config - Type-specific configuration
  * @body events - Array of event types to subscribe to
+ * @body filter - Routing rules over lead fields (optional, all leads when empty)
+ * @body templates - Message template overrides by event and part (optional,
+ *   Discord, Telegram and email only)
+ * @body deliveryMode - realtime (default), daily or weekly
+ * @body digestHour - Hour digests are sent at (default 9)
+ * @body digestDay - Day of the week weekly digests are sent on, 0 = Sunday (default 1)
+ * @body timezone - IANA timezone for the schedule (default UTC)
+ * @body quietHoursStart - Hour real-time messages start being held (optional)
+ * @body quietHoursEnd - Hour held messages are released (optional)
  * @response 201 - Created notification channel
  */
 adminNotificationsRoutes.post("/", requireCsrfHeader, async (c) => {
 	const body = await c.req.json().catch(() => ({}));
-	const { type, name, config, events } = parseAndValidate(createChannelSchema, body);
+	const { type, name, config, events, filter, templates, ...schedule } = parseAndValidate(
+		createChannelSchema,
+		body,
+	);
 
 	const [created] = await db
 		.insert(notificationChannels)
@@ -279,22 +558,15 @@ adminNotificationsRoutes.post("/", requireCsrfHeader, async (c) => {
 			config: config as NotificationConfig,
 			events,
 			enabled: true,
+			filter: normalizeFilter(filter),
+			templates: normalizeTemplates(templates),
+			...schedule,
+			// The first digest covers events from now on
+			lastDigestAt: schedule.deliveryMode === "realtime" ? null : new Date(),
 		})
 		.returning();
 
-	return c.json(
-		{
-			id: created.id,
-			type: created.type,
-			name: created.name,
-			config: created.config,
-			events: created.events,
-			enabled: created.enabled,
-			createdAt: created.createdAt.toISOString(),
-			updatedAt: created.updatedAt.toISOString(),
-		},
-		201,
-	);
+	return c.json(formatChannelResponse(created), 201);
 });
 
 /**
@@ -307,6 +579,11 @@ adminNotificationsRoutes.post("/", requireCsrfHeader, async (c) => {
  * @body config - New configuration (optional)
  * @body events - New events array (optional)
  * @body enabled - Enable/disable channel (optional)
+ * @body filter - New routing rules (optional, pass null to remove)
+ * @body templates - New message template overrides (optional, pass null to
+ *   restore the defaults)
+ * @body deliveryMode, digestHour, digestDay, timezone, quietHoursStart, quietHoursEnd -
+ *   Delivery schedule (optional, see POST)
  * @response 200 - Updated notification channel
  * @response 404 - Channel not found
  */
@@ -317,13 +594,10 @@ adminNotificationsRoutes.patch("/:id", requireCsrfHeader, async (c) => {
 	const data = parseAndValidate(updateChannelSchema, body);
 
 	// Check if there's anything to update
-	if (
-		data.name === undefined &&
-		data.config === undefined &&
-		data.events === undefined &&
-		data.enabled === undefined
-	) {
-		throw new BadRequestError("At least one field (name, config, events, or enabled) is required");
+	if (Object.values(data).every((value) => value === undefined)) {
+		throw new BadRequestError(
+			"At least one field (name, config, events, enabled, filter, templates, or a schedule field) is required",
+		);
 	}
 
 	// Check if channel exists
@@ -340,7 +614,7 @@ adminNotificationsRoutes.patch("/:id", requireCsrfHeader, async (c) => {
 	// If config is being updated, validate it against the channel type
 	if (data.config !== undefined) {
 		const configValidation = validateChannelConfig(
-			existing.type as "discord" | "telegram" | "email",
+			existing.type as NotificationChannelType,
 			data.config,
 		);
 		if (!configValidation.valid) {
@@ -350,6 +624,29 @@ adminNotificationsRoutes.patch("/:id", requireCsrfHeader, async (c) => {
 		}
 	}
 
+	// Templates depend on the channel type
+	const templates = data.templates !== undefined ? normalizeTemplates(data.templates) : undefined;
+	if (templates) {
+		const templateValidation = validateChannelTemplates(
+			existing.type as NotificationChannelType,
+			templates,
+		);
+		if (!templateValidation.valid) {
+			throw new ValidationError("Invalid templates", {
+				templates: templateValidation.error || "Invalid templates",
+			});
+		}
+	}
+
+	// Quiet hours are validated as a pair, falling back to the stored values
+	const quietHoursError = validateQuietHours(
+		data.quietHoursStart !== undefined ? data.quietHoursStart : existing.quietHoursStart,
+		data.quietHoursEnd !== undefined ? data.quietHoursEnd : existing.quietHoursEnd,
+	);
+	if (quietHoursError) {
+		throw new ValidationError("Invalid request", { quietHoursStart: quietHoursError });
+	}
+
 	// Build update object with only provided fields
 	const updateData: Partial<NewNotificationChannel> & { updatedAt: Date } = {
 		updatedAt: new Date(),
@@ -359,6 +656,23 @@ adminNotificationsRoutes.patch("/:id", requireCsrfHeader, async (c) => {
 	if (data.config !== undefined) updateData.config = data.config as typeof existing.config;
 	if (data.events !== undefined) updateData.events = data.events;
 	if (data.enabled !== undefined) updateData.enabled = data.enabled;
+	if (data.filter !== undefined) updateData.filter = normalizeFilter(data.filter);
+	if (templates !== undefined) updateData.templates = templates;
+	if (data.deliveryMode !== undefined) updateData.deliveryMode = data.deliveryMode;
+	if (data.digestHour !== undefined) updateData.digestHour = data.digestHour;
+	if (data.digestDay !== undefined) updateData.digestDay = data.digestDay;
+	if (data.timezone !== undefined) updateData.timezone = data.timezone;
+	if (data.quietHoursStart !== undefined) updateData.quietHoursStart = data.quietHoursStart;
+	if (data.quietHoursEnd !== undefined) updateData.quietHoursEnd = data.quietHoursEnd;
+
+	// Switching to digest mode starts the first digest from now
+	if (
+		data.deliveryMode !== undefined &&
+		data.deliveryMode !== "realtime" &&
+		existing.deliveryMode === "realtime"
+	) {
+		updateData.lastDigestAt = new Date();
+	}
 
 	const [updated] = await db
 		.update(notificationChannels)
@@ -366,16 +680,7 @@ adminNotificationsRoutes.patch("/:id", requireCsrfHeader, async (c) => {
 		.where(eq(notificationChannels.id, id))
 		.returning();
 
-	return c.json({
-		id: updated.id,
-		type: updated.type,
-		name: updated.name,
-		config: updated.config,
-		events: updated.events,
-		enabled: updated.enabled,
-		createdAt: updated.createdAt.toISOString(),
-		updatedAt: updated.updatedAt.toISOString(),
-	});
+	return c.json(formatChannelResponse(updated));
 });
 
 /**
@@ -405,6 +710,101 @@ adminNotificationsRoutes.delete("/:id", requireCsrfHeader, async (c) => {
 	});
 });
 
+/**
+ * POST /api/admin/notifications/filter/preview
+ *
+ * Check which of the most recent leads a set of routing rules would send to
+ * a channel, without saving anything. Used by the admin UI's rule editor.
+ *
+ * @body filter - Routing rules to preview (all leads match when empty)
+ * @response 200 - The recent leads and whether each matched
+ * @response 400 - Invalid filter
+ */
+adminNotificationsRoutes.post("/filter/preview", requireCsrfHeader, async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const { filter } = parseAndValidate(filterPreviewSchema, body);
+
+	const recentLeads = await db
+		.select()
+		.from(leads)
+		.orderBy(desc(leads.createdAt))
+		.limit(FILTER_PREVIEW_LEADS);
+
+	const results = recentLeads.map((lead) => ({
+		id: lead.id,
+		name: lead.name,
+		company: lead.company,
+		budget: lead.budget,
+		projectType: lead.projectType,
+		source: lead.source,
+		status: lead.status,
+		tags: lead.tags ?? [],
+		createdAt: lead.createdAt.toISOString(),
+		matched: matchesChannelFilter(normalizeFilter(filter), leadToNotificationData(lead)),
+	}));
+
+	return c.json({
+		total: results.length,
+		matched: results.filter((result) => result.matched).length,
+		leads: results,
+	});
+});
+
+/**
+ * POST /api/admin/notifications/templates/preview
+ *
+ * Render a channel type's new-lead message for a sample lead with the given
+ * template overrides, without saving anything. Used by the admin UI's
+ * template editor.
+ *
+ * @body type - Channel type (discord, telegram or email)
+ * @body templates - Template overrides (defaults when empty)
+ * @response 200 - The message as it would be sent
+ * @response 400 - Unsupported channel type or invalid templates
+ */
+adminNotificationsRoutes.post("/templates/preview", requireCsrfHeader, async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const data = parseAndValidate(templatePreviewSchema, body);
+	const type = data.type as NotificationChannelType;
+
+	if (!getDefaultChannelTemplates(type)) {
+		throw new BadRequestError(`${type} channels don't support message templates`);
+	}
+
+	const templates = normalizeTemplates(data.templates);
+	if (templates) {
+		const validation = validateChannelTemplates(type, templates);
+		if (!validation.valid) {
+			throw new ValidationError("Invalid templates", {
+				templates: validation.error || "Invalid templates",
+			});
+		}
+	}
+
+	return c.json({ type, preview: previewChannelTemplates(type, templates) });
+});
+
+/**
+ * POST /api/admin/notifications/templates/validate
+ *
+ * Check template overrides against a sample lead without saving them.
+ *
+ * @body type - Channel type
+ * @body templates - Template overrides to check
+ * @response 200 - Validation result with an error message when invalid
+ */
+adminNotificationsRoutes.post("/templates/validate", requireCsrfHeader, async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const data = parseAndValidate(templatePreviewSchema, body);
+	const templates = normalizeTemplates(data.templates);
+
+	if (!templates) {
+		return c.json({ valid: true });
+	}
+
+	return c.json(validateChannelTemplates(data.type as NotificationChannelType, templates));
+});
+
 /**
  * POST /api/admin/notifications/:id/test
  *
@@ -447,6 +847,80 @@ adminNotificationsRoutes.post("/:id/test", requireCsrfHeader, async (c) => {
 	});
 });
 
+/**
+ * GET /api/admin/notifications/:id/deliveries
+ *
+ * Get paginated delivery history for a notification channel.
+ * Each attempt is a row; retries link to the same event and payload.
+ *
+ * @param id - The channel ID (UUID)
+ * @query page - Page number (default: 1)
+ * @query limit - Items per page (default: 20, max: 100)
+ * @response 200 - Paginated list of deliveries
+ * @response 404 - Channel not found
+ */
+adminNotificationsRoutes.get("/:id/deliveries", async (c) => {
+	const id = c.req.param("id");
+
+	// Check if channel exists
+	const [channel] = await db
+		.select({ id: notificationChannels.id })
+		.from(notificationChannels)
+		.where(eq(notificationChannels.id, id))
+		.limit(1);
+
+	if (!channel) {
+		throw new NotFoundError("Notification channel");
+	}
+
+	// Parse pagination params with defaults
+	const pageParam = c.req.query("page");
+	const limitParam = c.req.query("limit");
+	const page = pageParam ? Math.max(1, parseInt(pageParam, 10) || 1) : 1;
+	const limit = limitParam ? Math.min(100, Math.max(1, parseInt(limitParam, 10) || 20)) : 20;
+	const offset = (page - 1) * limit;
+
+	// Get total count
+	const [{ count: totalCount }] = await db
+		.select({ count: sql<number>`count(*)::int` })
+		.from(notificationDeliveries)
+		.where(eq(notificationDeliveries.channelId, id));
+
+	// Get deliveries
+	const deliveries = await db
+		.select()
+		.from(notificationDeliveries)
+		.where(eq(notificationDeliveries.channelId, id))
+		.orderBy(desc(notificationDeliveries.attemptedAt))
+		.limit(limit)
+		.offset(offset);
+
+	const totalPages = Math.ceil(totalCount / limit);
+
+	return c.json({
+		deliveries: deliveries.map((delivery) => ({
+			id: delivery.id,
+			event: delivery.event,
+			payload: delivery.payload,
+			status: delivery.status,
+			success: delivery.status === "success",
+			statusCode: delivery.statusCode,
+			error: delivery.error,
+			durationMs: delivery.durationMs,
+			attemptNumber: delivery.attemptNumber,
+			nextRetryAt: delivery.nextRetryAt?.toISOString() || null,
+			attemptedAt: delivery.attemptedAt.toISOString(),
+		})),
+		pagination: {
+			page,
+			limit,
+			total: totalCount,
+			totalPages,
+			hasMore: page < totalPages,
+		},
+	});
+});
+
 /**
  * GET /api/admin/notifications/events/list
  *
@@ -459,6 +933,12 @@ adminNotificationsRoutes.get("/events/list", async (c) => {
 	const eventDescriptions: Record<string, string> = {
 		"lead.created": "Triggered when a new lead is added",
 		"lead.status_changed": "Triggered when a lead's status changes",
+		"lead.activity_added": "Triggered when an activity is added to a lead",
+		"contact.follow_up_due": "Triggered when a contact's next action comes due",
+		"webhook.auto_disabled": "Triggered when a webhook is disabled after repeated failures",
+		"booking.created": "Triggered when a meeting is booked through Cal.com",
+		"booking.rescheduled": "Triggered when a Cal.com meeting is moved to a new time",
+		"booking.cancelled": "Triggered when a Cal.com meeting is cancelled",
 	};
 
 	const events = notificationEventEnum.map((event: string) => ({
@@ -476,7 +956,8 @@ adminNotificationsRoutes.get("/events/list", async (c) => {
  * List all available notification channel types.
  * Useful for populating UI dropdowns when creating channels.
  *
- * @response 200 - List of channel types with configuration hints
+ * @response 200 - List of channel types with configuration hints, the message
+ *   parts each type's templates can override, and the fields templates can use
  */
 adminNotificationsRoutes.get("/types/list", async (c) => {
 	const types = [
@@ -513,6 +994,13 @@ adminNotificationsRoutes.get("/types/list", async (c) => {
 					placeholder: "-1001234567890",
 					hint: "Get chat ID from @userinfobot or /getUpdates API",
 				},
+				{
+					name: "webhook_secret",
+					label: "Bot Webhook Secret",
+					type: "password",
+					placeholder: "a-long-random-string",
+					hint: "Optional. Enables action buttons and /lead, /followups: call setWebhook with url <CRM>/api/webhooks/telegram/<channel ID> and this secret_token",
+				},
 			],
 		},
 		{
@@ -536,7 +1024,70 @@ adminNotificationsRoutes.get("/types/list", async (c) => {
 				},
 			],
 		},
+		{
+			type: "slack",
+			name: "Slack",
+			description: "Send notifications to a Slack channel via incoming webhook",
+			configFields: [
+				{
+					name: "webhook_url",
+					label: "Webhook URL",
+					type: "url",
+					placeholder: "https://hooks.slack.com/services/...",
+					hint: "Create an incoming webhook in your Slack app under Features → Incoming Webhooks",
+				},
+			],
+		},
+		{
+			type: "push",
+			name: "HTTP Push",
+			description: "POST a plain text message to any URL (ntfy, Gotify, Matrix hookshot)",
+			configFields: [
+				{
+					name: "url",
+					label: "URL",
+					type: "url",
+					placeholder: "https://ntfy.sh/your-topic",
+					hint: "ntfy topic URL, or a Gotify/hookshot endpoint with its token",
+				},
+				{
+					name: "format",
+					label: "Format",
+					type: "select",
+					options: ["text", "json"],
+					placeholder: "text",
+					hint: "text sends ntfy-style headers; json sends { title, message, text, priority, tags, url }",
+				},
+				{
+					name: "title",
+					label: "Title",
+					type: "text",
+					placeholder: "New lead",
+					hint: "Optional. Replaces the default title",
+				},
+				{
+					name: "priority",
+					label: "Priority",
+					type: "text",
+					placeholder: "default",
+					hint: "Optional. 1-5 or min, low, default, high, urgent",
+				},
+				{
+					name: "tags",
+					label: "Tags",
+					type: "text",
+					placeholder: "rotating_light,lead",
+					hint: "Optional. Comma-separated; ntfy shows emoji shortcodes as icons",
+				},
+			],
+		},
 	];
 
-	return c.json({ types });
+	return c.json({
+		types: types.map((entry) => ({
+			...entry,
+			templateParts: getTemplateParts(entry.type as NotificationChannelType),
+		})),
+		templateFields: LEAD_TEMPLATE_FIELDS,
+	});
 });
@@ -0,0 +1,431 @@
+/**
+ * Tests for admin outreach sequences routes.
+ *
+ * Tests sequence CRUD, validation, enrolling contacts and managing
+ * enrollments using mocked database, sequence logic and session middleware.
+ */
+
+import { Hono } from "hono";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Valid UUIDs for testing
+const SEQUENCE_UUID = "550e8400-e29b-41d4-a716-446655440000";
+const CONTACT_UUID = "550e8400-e29b-41d4-a716-446655440001";
+const ENROLLMENT_UUID = "550e8400-e29b-41d4-a716-446655440002";
+
+// Mock session/auth modules BEFORE imports
+vi.mock("../../lib/session", () => ({
+	validateSession: vi.fn(),
+	refreshSession: vi.fn(),
+	shouldRefreshSession: vi.fn(),
+	SESSION_CONFIG: {
+		defaultDurationMs: 24 * 60 * 60 * 1000,
+		rememberMeDurationMs: 30 * 24 * 60 * 60 * 1000,
+		tokenBytes: 32,
+		cookieName: "session",
+		refreshThresholdMs: 60 * 60 * 1000,
+	},
+}));
+
+// Keep the real next action text, mock the enrollment changes
+vi.mock("../../lib/sequences", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../../lib/sequences")>()),
+	enrollContact: vi.fn(),
+	pauseEnrollment: vi.fn(),
+	resumeEnrollment: vi.fn(),
+	stopEnrollment: vi.fn(),
+	syncSequenceEnrollments: vi.fn(),
+	clearSequenceNextActions: vi.fn(),
+}));
+
+// Mock the database
+vi.mock("../../db", () => ({
+	db: {
+		select: vi.fn(),
+		insert: vi.fn(),
+		update: vi.fn(),
+		delete: vi.fn(),
+	},
+	contacts: { id: "id", name: "name" },
+	sequences: { id: "id", name: "name" },
+	sequenceEnrollments: {
+		id: "id",
+		sequenceId: "sequence_id",
+		contactId: "contact_id",
+		status: "status",
+		createdAt: "created_at",
+	},
+}));
+
+import { db } from "../../db";
+import {
+	clearSequenceNextActions,
+	enrollContact,
+	pauseEnrollment,
+	resumeEnrollment,
+	syncSequenceEnrollments,
+} from "../../lib/sequences";
+import type { SessionData } from "../../lib/session";
+import { SESSION_CONFIG, shouldRefreshSession, validateSession } from "../../lib/session";
+import { errorHandler } from "../../middleware/error-handler";
+// Import after mocking
+import { adminSequencesRoutes } from "./sequences";
+
+// Cast to mock types
+const mockValidateSession = validateSession as ReturnType<typeof vi.fn>;
+const mockShouldRefreshSession = shouldRefreshSession as ReturnType<typeof vi.fn>;
+const mockEnrollContact = enrollContact as ReturnType<typeof vi.fn>;
+const mockPauseEnrollment = pauseEnrollment as ReturnType<typeof vi.fn>;
+const mockResumeEnrollment = resumeEnrollment as ReturnType<typeof vi.fn>;
+const mockSyncSequenceEnrollments = syncSequenceEnrollments as ReturnType<typeof vi.fn>;
+const mockClearSequenceNextActions = clearSequenceNextActions as ReturnType<typeof vi.fn>;
+const mockDb = db as {
+	select: ReturnType<typeof vi.fn>;
+	insert: ReturnType<typeof vi.fn>;
+	update: ReturnType<typeof vi.fn>;
+	delete: ReturnType<typeof vi.fn>;
+};
+
+const headers = {
+	Cookie: `${SESSION_CONFIG.cookieName}=valid_token`,
+	"Content-Type": "application/json",
+	"X-Requested-With": "XMLHttpRequest",
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createMockSession(overrides: Partial<SessionData> = {}): SessionData {
+	const now = new Date();
+	return {
+		sessionId: "sess_test_123",
+		userId: "user_test_456",
+		user: {
+			id: "user_test_456",
+			email: "admin@example.com",
+		},
+		expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+		createdAt: now,
+		...overrides,
+	};
+}
+
+function createMockSequence(overrides: Record<string, unknown> = {}) {
+	const now = new Date();
+	return {
+		id: SEQUENCE_UUID,
+		name: "LinkedIn intro",
+		description: null,
+		steps: [
+			{ action: "Connect", type: "linkedin_connection_sent", delayDays: 0 },
+			{ action: "Send a DM", type: "linkedin_dm_sent", delayDays: 3 },
+		],
+		createdAt: now,
+		updatedAt: now,
+		...overrides,
+	};
+}
+
+function createMockEnrollment(overrides: Record<string, unknown> = {}) {
+	const now = new Date();
+	return {
+		id: ENROLLMENT_UUID,
+		sequenceId: SEQUENCE_UUID,
+		contactId: CONTACT_UUID,
+		currentStep: 1,
+		status: "active",
+		stepDueAt: now,
+		nextAction: "Send a DM (LinkedIn intro, step 2/2)",
+		pausedAt: null,
+		completedAt: null,
+		createdAt: now,
+		updatedAt: now,
+		...overrides,
+	};
+}
+
+/**
+ * Setup database mock: plain selects return `rows`, joined selects return
+ * `joinedRows`.
+ */
+function setupDbMock(rows: unknown[] = [], joinedRows: unknown[] = []) {
+	const joined = {
+		innerJoin: vi.fn(),
+		where: vi.fn().mockReturnValue({
+			limit: vi.fn().mockResolvedValue(joinedRows),
+			orderBy: vi.fn().mockResolvedValue(joinedRows),
+		}),
+	};
+	joined.innerJoin.mockReturnValue(joined);
+	mockDb.select.mockReturnValue({
+		from: vi.fn().mockReturnValue({
+			where: vi.fn().mockReturnValue({
+				limit: vi.fn().mockResolvedValue(rows),
+			}),
+			orderBy: vi.fn().mockResolvedValue(rows),
+			innerJoin: joined.innerJoin,
+		}),
+	});
+	const values = vi.fn().mockReturnValue({
+		returning: vi.fn().mockResolvedValue([createMockSequence()]),
+	});
+	mockDb.insert.mockReturnValue({ values });
+	mockDb.delete.mockReturnValue({
+		where: vi.fn().mockResolvedValue(undefined),
+	});
+	return { values };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("Admin Sequences Routes", () => {
+	let app: Hono;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+
+		// Setup authenticated session by default
+		mockValidateSession.mockResolvedValue(createMockSession());
+		mockShouldRefreshSession.mockReturnValue(false);
+
+		setupDbMock();
+
+		// Create app with routes
+		app = new Hono();
+		app.route("/api/admin/sequences", adminSequencesRoutes);
+		app.onError(errorHandler);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("Authentication", () => {
+		it("rejects requests without session cookie", async () => {
+			mockValidateSession.mockResolvedValue(null);
+
+			const res = await app.request("/api/admin/sequences");
+
+			expect(res.status).toBe(401);
+		});
+	});
+
+	describe("GET /api/admin/sequences (list)", () => {
+		it("returns sequences with their active enrollment counts", async () => {
+			setupDbMock([{ sequence: createMockSequence(), activeEnrollments: 4 }]);
+
+			const res = await app.request("/api/admin/sequences", { headers });
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.data).toHaveLength(1);
+			expect(body.data[0].name).toBe("LinkedIn intro");
+			expect(body.data[0].steps).toHaveLength(2);
+			expect(body.data[0].activeEnrollments).toBe(4);
+		});
+	});
+
+	describe("POST /api/admin/sequences (create)", () => {
+		it("creates a sequence", async () => {
+			const { values } = setupDbMock();
+
+			const res = await app.request("/api/admin/sequences", {
+				method: "POST",
+				headers,
+				body: JSON.stringify({
+					name: "LinkedIn intro",
+					steps: [{ action: "Connect", type: "linkedin_connection_sent", delayDays: 0 }],
+				}),
+			});
+
+			expect(res.status).toBe(201);
+			expect(values).toHaveBeenCalledWith({
+				name: "LinkedIn intro",
+				description: null,
+				steps: [{ action: "Connect", type: "linkedin_connection_sent", delayDays: 0 }],
+			});
+		});
+
+		it("rejects sequences without steps or with unknown step types", async () => {
+			const res = await app.request("/api/admin/sequences", {
+				method: "POST",
+				headers,
+				body: JSON.stringify({
+					name: "Broken",
+					steps: [{ action: "Wave", type: "wave", delayDays: -1 }],
+				}),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.code).toBe("VALIDATION_ERROR");
+			expect(mockDb.insert).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("PATCH /api/admin/sequences/:id (update)", () => {
+		function mockUpdate(updated: unknown) {
+			const set = vi.fn().mockReturnValue({
+				where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([updated]) }),
+			});
+			mockDb.update.mockReturnValue({ set });
+			return set;
+		}
+
+		it("updates enrolled contacts' next actions when the sequence is renamed", async () => {
+			setupDbMock([createMockSequence()]);
+			const updated = createMockSequence({ name: "Warm intro" });
+			mockUpdate(updated);
+
+			const res = await app.request(`/api/admin/sequences/${SEQUENCE_UUID}`, {
+				method: "PATCH",
+				headers,
+				body: JSON.stringify({ name: "Warm intro" }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(mockSyncSequenceEnrollments).toHaveBeenCalledWith(updated);
+		});
+
+		it("leaves enrollments alone when only the description changes", async () => {
+			setupDbMock([createMockSequence()]);
+			mockUpdate(createMockSequence({ description: "Cold outreach" }));
+
+			const res = await app.request(`/api/admin/sequences/${SEQUENCE_UUID}`, {
+				method: "PATCH",
+				headers,
+				body: JSON.stringify({ description: "Cold outreach" }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(mockSyncSequenceEnrollments).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("DELETE /api/admin/sequences/:id", () => {
+		it("clears the next actions the sequence set before deleting it", async () => {
+			setupDbMock([createMockSequence()]);
+
+			const res = await app.request(`/api/admin/sequences/${SEQUENCE_UUID}`, {
+				method: "DELETE",
+				headers,
+			});
+
+			expect(res.status).toBe(200);
+			expect(mockClearSequenceNextActions).toHaveBeenCalledWith(SEQUENCE_UUID);
+			expect(mockDb.delete).toHaveBeenCalled();
+		});
+	});
+
+	describe("POST /api/admin/sequences/:id/enrollments (enroll)", () => {
+		it("enrolls a contact", async () => {
+			const contact = { id: CONTACT_UUID, name: "Jane Doe" };
+			let call = 0;
+			mockDb.select.mockImplementation(() => ({
+				from: vi.fn().mockReturnValue({
+					where: vi.fn().mockReturnValue({
+						limit: vi.fn().mockResolvedValue(call++ === 0 ? [createMockSequence()] : [contact]),
+					}),
+				}),
+			}));
+			mockEnrollContact.mockResolvedValue(createMockEnrollment({ currentStep: 0 }));
+
+			const res = await app.request(`/api/admin/sequences/${SEQUENCE_UUID}/enrollments`, {
+				method: "POST",
+				headers,
+				body: JSON.stringify({ contactId: CONTACT_UUID }),
+			});
+
+			expect(res.status).toBe(201);
+			const body = await res.json();
+			expect(body.data.contact).toEqual({ id: CONTACT_UUID, name: "Jane Doe" });
+			expect(body.data.currentAction).toBe("Connect (LinkedIn intro, step 1/2)");
+			expect(mockEnrollContact).toHaveBeenCalledWith(
+				contact,
+				expect.objectContaining({ id: SEQUENCE_UUID }),
+			);
+		});
+
+		it("returns 404 for an unknown sequence", async () => {
+			const res = await app.request("/api/admin/sequences/not-a-uuid/enrollments", {
+				method: "POST",
+				headers,
+				body: JSON.stringify({ contactId: CONTACT_UUID }),
+			});
+
+			expect(res.status).toBe(404);
+		});
+	});
+
+	describe("Enrollments", () => {
+		it("lists a contact's enrollments", async () => {
+			setupDbMock(
+				[],
+				[
+					{
+						enrollment: createMockEnrollment(),
+						sequence: createMockSequence(),
+						contactName: "Jane Doe",
+					},
+				],
+			);
+
+			const res = await app.request(`/api/admin/sequences/enrollments?contactId=${CONTACT_UUID}`, {
+				headers,
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.data[0]).toMatchObject({
+				id: ENROLLMENT_UUID,
+				sequence: { id: SEQUENCE_UUID, name: "LinkedIn intro", stepCount: 2 },
+				currentStep: 1,
+				currentAction: "Send a DM (LinkedIn intro, step 2/2)",
+				status: "active",
+			});
+		});
+
+		it("pauses an active enrollment", async () => {
+			const row = {
+				enrollment: createMockEnrollment(),
+				sequence: createMockSequence(),
+				contactName: "Jane Doe",
+			};
+			setupDbMock([], [row]);
+			mockPauseEnrollment.mockResolvedValue(createMockEnrollment({ status: "paused" }));
+
+			const res = await app.request(`/api/admin/sequences/enrollments/${ENROLLMENT_UUID}/pause`, {
+				method: "POST",
+				headers,
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.data.status).toBe("paused");
+		});
+
+		it("only resumes paused enrollments", async () => {
+			setupDbMock(
+				[],
+				[
+					{
+						enrollment: createMockEnrollment(),
+						sequence: createMockSequence(),
+						contactName: "Jane Doe",
+					},
+				],
+			);
+
+			const res = await app.request(`/api/admin/sequences/enrollments/${ENROLLMENT_UUID}/resume`, {
+				method: "POST",
+				headers,
+			});
+
+			expect(res.status).toBe(400);
+			expect(mockResumeEnrollment).not.toHaveBeenCalled();
+		});
+	});
+});
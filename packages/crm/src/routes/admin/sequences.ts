@@ -0,0 +1,407 @@
+/**
+ * Admin outreach sequences routes for the CRM admin UI.
+ *
+ * Sequences are cadences of steps (e.g. connect, comment, DM after 3 days)
+ * that contacts are enrolled in. The current step is kept as the contact's
+ * next action; see lib/sequences.ts for how logged interactions advance or
+ * pause an enrollment.
+ *
+ * All routes require a valid admin session (via requireAuth middleware).
+ */
+
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import { Hono } from "hono";
+import {
+	type Contact,
+	contacts,
+	db,
+	type Sequence,
+	type SequenceEnrollment,
+	sequenceEnrollments,
+	sequences,
+} from "../../db/index.js";
+import { BadRequestError, NotFoundError, ValidationError } from "../../lib/errors.js";
+import {
+	clearSequenceNextActions,
+	enrollContact,
+	pauseEnrollment,
+	resumeEnrollment,
+	sequenceNextAction,
+	stopEnrollment,
+	syncSequenceEnrollments,
+} from "../../lib/sequences.js";
+import {
+	createSequenceSchema,
+	enrollContactSchema,
+	formatZodErrors,
+	isValidUuid,
+	listEnrollmentsQuerySchema,
+	updateSequenceSchema,
+} from "../../lib/validation.js";
+import { requireAuth, requireCsrfHeader } from "../../middleware/auth.js";
+
+/**
+ * Admin sequences routes app instance.
+ */
+export const adminSequencesRoutes = new Hono();
+
+// All routes require session authentication
+adminSequencesRoutes.use("*", requireAuth);
+
+// State-changing routes require CSRF header
+adminSequencesRoutes.use("*", requireCsrfHeader);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Format a sequence for API response.
+ */
+function formatSequenceResponse(sequence: Sequence) {
+	return {
+		id: sequence.id,
+		name: sequence.name,
+		description: sequence.description,
+		steps: sequence.steps,
+		createdAt: sequence.createdAt.toISOString(),
+		updatedAt: sequence.updatedAt.toISOString(),
+	};
+}
+
+/**
+ * Format an enrollment for API response, with its sequence and contact.
+ */
+function formatEnrollmentResponse(
+	enrollment: SequenceEnrollment,
+	sequence: Sequence,
+	contactName: string,
+) {
+	const hasStep = enrollment.currentStep < sequence.steps.length;
+	return {
+		id: enrollment.id,
+		sequence: { id: sequence.id, name: sequence.name, stepCount: sequence.steps.length },
+		contact: { id: enrollment.contactId, name: contactName },
+		currentStep: enrollment.currentStep,
+		currentAction: hasStep ? sequenceNextAction(sequence, enrollment.currentStep) : null,
+		status: enrollment.status,
+		stepDueAt: enrollment.stepDueAt?.toISOString() ?? null,
+		pausedAt: enrollment.pausedAt?.toISOString() ?? null,
+		completedAt: enrollment.completedAt?.toISOString() ?? null,
+		createdAt: enrollment.createdAt.toISOString(),
+		updatedAt: enrollment.updatedAt.toISOString(),
+	};
+}
+
+/**
+ * Get a sequence by ID or throw NotFoundError.
+ */
+async function getSequenceOrThrow(id: string): Promise<Sequence> {
+	if (!isValidUuid(id)) {
+		throw new NotFoundError("Sequence");
+	}
+
+	const [sequence] = await db.select().from(sequences).where(eq(sequences.id, id)).limit(1);
+
+	if (!sequence) {
+		throw new NotFoundError("Sequence");
+	}
+
+	return sequence;
+}
+
+/**
+ * Get an enrollment and its sequence by enrollment ID or throw NotFoundError.
+ */
+async function getEnrollmentOrThrow(
+	id: string,
+): Promise<{ enrollment: SequenceEnrollment; sequence: Sequence; contactName: string }> {
+	if (!isValidUuid(id)) {
+		throw new NotFoundError("Enrollment");
+	}
+
+	const [row] = await db
+		.select({ enrollment: sequenceEnrollments, sequence: sequences, contactName: contacts.name })
+		.from(sequenceEnrollments)
+		.innerJoin(sequences, eq(sequenceEnrollments.sequenceId, sequences.id))
+		.innerJoin(contacts, eq(sequenceEnrollments.contactId, contacts.id))
+		.where(eq(sequenceEnrollments.id, id))
+		.limit(1);
+
+	if (!row) {
+		throw new NotFoundError("Enrollment");
+	}
+
+	return row;
+}
+
+/**
+ * Get a contact by ID or throw NotFoundError.
+ */
+async function getContactOrThrow(id: string): Promise<Contact> {
+	const [contact] = await db.select().from(contacts).where(eq(contacts.id, id)).limit(1);
+
+	if (!contact) {
+		throw new NotFoundError("Contact");
+	}
+
+	return contact;
+}
+
+// ============================================================================
+// ENROLLMENT ROUTES
+// ============================================================================
+
+/**
+ * GET /api/admin/sequences/enrollments
+ *
+ * List enrollments, optionally for one contact or with one status, newest first.
+ */
+adminSequencesRoutes.get("/enrollments", async (c) => {
+	const parseResult = listEnrollmentsQuerySchema.safeParse(c.req.query());
+
+	if (!parseResult.success) {
+		throw new ValidationError("Invalid query parameters", formatZodErrors(parseResult.error));
+	}
+
+	const { contactId, status } = parseResult.data;
+
+	const conditions = [];
+
+	if (contactId) {
+		conditions.push(eq(sequenceEnrollments.contactId, contactId));
+	}
+
+	if (status) {
+		conditions.push(eq(sequenceEnrollments.status, status));
+	}
+
+	const rows = await db
+		.select({ enrollment: sequenceEnrollments, sequence: sequences, contactName: contacts.name })
+		.from(sequenceEnrollments)
+		.innerJoin(sequences, eq(sequenceEnrollments.sequenceId, sequences.id))
+		.innerJoin(contacts, eq(sequenceEnrollments.contactId, contacts.id))
+		.where(conditions.length > 0 ? and(...conditions) : undefined)
+		.orderBy(desc(sequenceEnrollments.createdAt));
+
+	return c.json({
+		data: rows.map((row) =>
+			formatEnrollmentResponse(row.enrollment, row.sequence, row.contactName),
+		),
+	});
+});
+
+/**
+ * POST /api/admin/sequences/enrollments/:id/pause
+ *
+ * Pause an active enrollment.
+ */
+adminSequencesRoutes.post("/enrollments/:id/pause", async (c) => {
+	const { enrollment, sequence, contactName } = await getEnrollmentOrThrow(c.req.param("id"));
+
+	if (enrollment.status !== "active") {
+		throw new BadRequestError("Only active enrollments can be paused");
+	}
+
+	const updated = await pauseEnrollment(enrollment);
+
+	return c.json({
+		data: formatEnrollmentResponse(updated, sequence, contactName),
+	});
+});
+
+/**
+ * POST /api/admin/sequences/enrollments/:id/resume
+ *
+ * Resume a paused enrollment; the current step is rescheduled from now.
+ */
+adminSequencesRoutes.post("/enrollments/:id/resume", async (c) => {
+	const { enrollment, sequence, contactName } = await getEnrollmentOrThrow(c.req.param("id"));
+
+	if (enrollment.status !== "paused") {
+		throw new BadRequestError("Only paused enrollments can be resumed");
+	}
+
+	const updated = await resumeEnrollment(enrollment, sequence);
+
+	return c.json({
+		data: formatEnrollmentResponse(updated, sequence, contactName),
+	});
+});
+
+/**
+ * DELETE /api/admin/sequences/enrollments/:id
+ *
+ * Remove a contact from a sequence.
+ */
+adminSequencesRoutes.delete("/enrollments/:id", async (c) => {
+	const { enrollment } = await getEnrollmentOrThrow(c.req.param("id"));
+
+	await stopEnrollment(enrollment);
+
+	return c.json({
+		success: true,
+		message: "Contact removed from sequence",
+	});
+});
+
+// ============================================================================
+// SEQUENCE ROUTES
+// ============================================================================
+
+/**
+ * GET /api/admin/sequences
+ *
+ * List all sequences by name, with their active enrollment counts.
+ */
+adminSequencesRoutes.get("/", async (c) => {
+	const activeCountSq =
+		sql<number>`(SELECT count(*)::int FROM sequence_enrollments WHERE sequence_enrollments.sequence_id = ${sequences.id} AND sequence_enrollments.status = 'active')`.as(
+			"activeEnrollments",
+		);
+
+	const rows = await db
+		.select({ sequence: sequences, activeEnrollments: activeCountSq })
+		.from(sequences)
+		.orderBy(asc(sequences.name));
+
+	return c.json({
+		data: rows.map((row) => ({
+			...formatSequenceResponse(row.sequence),
+			activeEnrollments: row.activeEnrollments,
+		})),
+	});
+});
+
+/**
+ * GET /api/admin/sequences/:id
+ *
+ * Get a sequence.
+ */
+adminSequencesRoutes.get("/:id", async (c) => {
+	const sequence = await getSequenceOrThrow(c.req.param("id"));
+
+	return c.json({
+		data: formatSequenceResponse(sequence),
+	});
+});
+
+/**
+ * POST /api/admin/sequences
+ *
+ * Create a sequence.
+ */
+adminSequencesRoutes.post("/", async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const parseResult = createSequenceSchema.safeParse(body);
+
+	if (!parseResult.success) {
+		throw new ValidationError("Validation failed", formatZodErrors(parseResult.error));
+	}
+
+	const input = parseResult.data;
+
+	const [sequence] = await db
+		.insert(sequences)
+		.values({
+			name: input.name,
+			description: input.description || null,
+			steps: input.steps,
+		})
+		.returning();
+
+	return c.json(
+		{
+			data: formatSequenceResponse(sequence),
+		},
+		201,
+	);
+});
+
+/**
+ * PATCH /api/admin/sequences/:id
+ *
+ * Update a sequence (partial update). Steps are replaced as a whole;
+ * enrolled contacts keep their step position, and next actions the sequence
+ * set are updated to the new step text.
+ */
+adminSequencesRoutes.patch("/:id", async (c) => {
+	const id = c.req.param("id");
+	await getSequenceOrThrow(id);
+
+	const body = await c.req.json().catch(() => ({}));
+	const parseResult = updateSequenceSchema.safeParse(body);
+
+	if (!parseResult.success) {
+		throw new ValidationError("Validation failed", formatZodErrors(parseResult.error));
+	}
+
+	const input = parseResult.data;
+	const updateData: Partial<typeof sequences.$inferInsert> = {
+		updatedAt: new Date(),
+	};
+
+	if (input.name !== undefined) updateData.name = input.name;
+	if (input.description !== undefined) updateData.description = input.description || null;
+	if (input.steps !== undefined) updateData.steps = input.steps;
+
+	const [updated] = await db
+		.update(sequences)
+		.set(updateData)
+		.where(eq(sequences.id, id))
+		.returning();
+
+	if (input.name !== undefined || input.steps !== undefined) {
+		await syncSequenceEnrollments(updated);
+	}
+
+	return c.json({
+		data: formatSequenceResponse(updated),
+	});
+});
+
+/**
+ * DELETE /api/admin/sequences/:id
+ *
+ * Delete a sequence and its enrollments, clearing the next actions it set.
+ */
+adminSequencesRoutes.delete("/:id", async (c) => {
+	const id = c.req.param("id");
+	await getSequenceOrThrow(id);
+
+	await clearSequenceNextActions(id);
+	await db.delete(sequences).where(eq(sequences.id, id));
+
+	return c.json({
+		success: true,
+		message: "Sequence deleted",
+	});
+});
+
+/**
+ * POST /api/admin/sequences/:id/enrollments
+ *
+ * Enroll a contact; the first step becomes their next action.
+ *
+ * @response 400 - The contact is already in a sequence
+ */
+adminSequencesRoutes.post("/:id/enrollments", async (c) => {
+	const sequence = await getSequenceOrThrow(c.req.param("id"));
+
+	const body = await c.req.json().catch(() => ({}));
+	const parseResult = enrollContactSchema.safeParse(body);
+
+	if (!parseResult.success) {
+		throw new ValidationError("Validation failed", formatZodErrors(parseResult.error));
+	}
+
+	const contact = await getContactOrThrow(parseResult.data.contactId);
+	const enrollment = await enrollContact(contact, sequence);
+
+	return c.json(
+		{
+			data: formatEnrollmentResponse(enrollment, sequence, contact.name),
+		},
+		201,
+	);
+});
@@ -1,7 +1,8 @@
 /**
  * Tests for admin settings management routes.
  *
- * Verifies GET and PATCH operations for system settings.
+ * Verifies GET and PATCH operations for system settings, the
+ * auto-responder and contact scoring.
  */
 
 import { Hono } from "hono";
@@ -53,7 +54,69 @@ vi.mock("../../db", () => {
 	};
 });
 
+// Keep the real rendering and validation, mock settings storage
+vi.mock("../../lib/auto-responder", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../lib/auto-responder")>();
+	return {
+		...actual,
+		getAutoResponderSettings: vi.fn(() => Promise.resolve(actual.DEFAULT_AUTO_RESPONDER)),
+		setAutoResponderSettings: vi.fn((autoResponder) => Promise.resolve(autoResponder)),
+		getCalBookingUrl: vi.fn(() => Promise.resolve("https://cal.com/octatech/discovery")),
+	};
+});
+
+// Keep the real defaults, mock settings storage
+vi.mock("../../lib/contact-score", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../lib/contact-score")>();
+	return {
+		...actual,
+		getContactScoringSettings: vi.fn(() => Promise.resolve(actual.DEFAULT_CONTACT_SCORING)),
+		setContactScoringSettings: vi.fn((contactScoring) => Promise.resolve(contactScoring)),
+	};
+});
+
+// Keep the real defaults, mock settings storage and rescoring
+vi.mock("../../lib/lead-score", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../lib/lead-score")>();
+	return {
+		...actual,
+		getLeadScoringSettings: vi.fn(() => Promise.resolve(actual.DEFAULT_LEAD_SCORING)),
+		setLeadScoringSettings: vi.fn((leadScoring) => Promise.resolve(leadScoring)),
+		rescoreAllLeads: vi.fn(() => Promise.resolve(3)),
+	};
+});
+
+vi.mock("../../lib/leads", () => ({
+	addLeadActivity: vi.fn(),
+}));
+
+vi.mock("../../lib/email-composer", () => ({
+	EMAIL_FROM_SETTING: "email_from",
+}));
+
+vi.mock("../../lib/inbound-email", () => ({
+	INBOUND_EMAIL_SECRET_SETTING: "inbound_email_secret",
+}));
+
+vi.mock("../../lib/bookings", () => ({
+	CAL_WEBHOOK_SECRET_SETTING: "cal_webhook_secret",
+	QUALIFY_AFTER_MEETING_SETTING: "qualify_after_meeting",
+}));
+
+vi.mock("../../lib/contact-decay", () => ({
+	WARMTH_DECAY_DAYS_SETTING: "warmth_decay_days",
+	DORMANT_AFTER_DAYS_SETTING: "dormant_after_days",
+	CONTACT_DECAY_CONFIG: { defaultWarmthDecayDays: 30, defaultDormantAfterDays: 90 },
+}));
+
 import { db } from "../../db";
+import { DEFAULT_AUTO_RESPONDER, setAutoResponderSettings } from "../../lib/auto-responder";
+import { DEFAULT_CONTACT_SCORING, setContactScoringSettings } from "../../lib/contact-score";
+import {
+	DEFAULT_LEAD_SCORING,
+	rescoreAllLeads,
+	setLeadScoringSettings,
+} from "../../lib/lead-score";
 import type { SessionData } from "../../lib/session";
 import { SESSION_CONFIG, shouldRefreshSession, validateSession } from "../../lib/session";
 import { errorHandler } from "../../middleware/error-handler";
@@ -124,39 +187,20 @@ function createMockSetting(key: string, value: unknown) {
 }
 
 /**
- * Setup mock db to return specific values for different keys.
+ * Setup mock db to return the given settings from the settings query.
  */
 function setupMockDbForGet(settingsMap: Record<string, unknown>) {
+	const rows = Object.entries(settingsMap).map(([key, value]) => createMockSetting(key, value));
 	const chain = {
 		select: vi.fn().mockReturnThis(),
 		from: vi.fn().mockReturnThis(),
-		where: vi.fn((_condition: unknown) => {
-			// Return the appropriate setting based on the where clause
-			return chain;
-		}),
-		limit: vi.fn().mockImplementation(() => {
-			// This will be called multiple times for each setting
-			return Promise.resolve([]);
-		}),
+		where: vi.fn(() => Promise.resolve(rows)),
 		insert: vi.fn().mockReturnThis(),
 		values: vi.fn().mockReturnThis(),
 		onConflictDoUpdate: vi.fn().mockReturnThis(),
 		returning: vi.fn().mockResolvedValue([]),
 	};
 
-	// Track which key is being queried
-	let queryCount = 0;
-	const keys = ["cal_link", "openai_api_key", "admin_email"];
-
-	chain.limit.mockImplementation(() => {
-		const key = keys[queryCount % 3];
-		queryCount++;
-		if (settingsMap[key] !== undefined) {
-			return Promise.resolve([createMockSetting(key, settingsMap[key])]);
-		}
-		return Promise.resolve([]);
-	});
-
 	mockDb.select.mockImplementation(() => chain);
 	mockDb.insert.mockImplementation(() => chain);
 
@@ -208,6 +252,8 @@ describe("Admin Settings Routes", () => {
 			expect(body.settings.cal_link).toBeNull();
 			expect(body.settings.openai_api_key).toBeNull();
 			expect(body.settings.admin_email).toBeNull();
+			expect(body.settings.warmth_decay_days).toBe(30);
+			expect(body.settings.dormant_after_days).toBe(90);
 		});
 
 		it("should return settings with masked OpenAI API key", async () => {
@@ -256,6 +302,29 @@ describe("Admin Settings Routes", () => {
 			const body = await res.json();
 			expect(body.settings.admin_email).toBe("contact@company.com");
 		});
+
+		it("should load all settings with one query", async () => {
+			setupMockDbForGet({ cal_link: "myuser/meeting", qualify_after_meeting: true });
+
+			const res = await app.request("/api/admin/settings", {
+				headers: authHeaders(),
+			});
+
+			expect(res.status).toBe(200);
+			expect(mockDb.select).toHaveBeenCalledTimes(1);
+			const body = await res.json();
+			expect(body.settings).toEqual({
+				cal_link: "myuser/meeting",
+				openai_api_key: null,
+				admin_email: null,
+				email_from: null,
+				inbound_email_secret: null,
+				cal_webhook_secret: null,
+				qualify_after_meeting: true,
+				warmth_decay_days: 30,
+				dormant_after_days: 90,
+			});
+		});
 	});
 
 	// ==========================================================================
@@ -349,6 +418,25 @@ describe("Admin Settings Routes", () => {
 			expect(body.settings).toBeDefined();
 		});
 
+		it("should upsert only the provided settings", async () => {
+			const chain = setupMockDbForGet({});
+
+			const res = await app.request("/api/admin/settings", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ admin_email: "updated@example.com", warmth_decay_days: 0 }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(chain.values).toHaveBeenCalledTimes(2);
+			expect(chain.values).toHaveBeenCalledWith(
+				expect.objectContaining({ key: "admin_email", value: "updated@example.com" }),
+			);
+			expect(chain.values).toHaveBeenCalledWith(
+				expect.objectContaining({ key: "warmth_decay_days", value: 0 }),
+			);
+		});
+
 		it("should validate cal_link format (reject invalid format)", async () => {
 			const res = await app.request("/api/admin/settings", {
 				method: "PATCH",
@@ -436,6 +524,138 @@ describe("Admin Settings Routes", () => {
 			expect(res.status).toBe(200);
 		});
 
+		it("should update email_from setting", async () => {
+			setupMockDbForGet({ email_from: "Octatech <hello@octatech.xyz>" });
+
+			const res = await app.request("/api/admin/settings", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ email_from: "Octatech <hello@octatech.xyz>" }),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.settings.email_from).toBe("Octatech <hello@octatech.xyz>");
+		});
+
+		it("should validate email_from format", async () => {
+			const res = await app.request("/api/admin/settings", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ email_from: "Octatech" }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details?.email_from).toBeDefined();
+		});
+
+		it("should update inbound_email_secret and return it masked", async () => {
+			setupMockDbForGet({ inbound_email_secret: "whsec-0123456789abcdef" });
+
+			const res = await app.request("/api/admin/settings", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ inbound_email_secret: "whsec-0123456789abcdef" }),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.settings.inbound_email_secret).toBe("whs••••••••cdef");
+		});
+
+		it("should update cal_webhook_secret and return it masked", async () => {
+			setupMockDbForGet({ cal_webhook_secret: "calsec-0123456789abcdef" });
+
+			const res = await app.request("/api/admin/settings", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ cal_webhook_secret: "calsec-0123456789abcdef" }),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.settings.cal_webhook_secret).toBe("cal••••••••cdef");
+		});
+
+		it("should reject a short cal_webhook_secret", async () => {
+			const res = await app.request("/api/admin/settings", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ cal_webhook_secret: "short" }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details?.cal_webhook_secret).toBeDefined();
+		});
+
+		it("should update qualify_after_meeting", async () => {
+			setupMockDbForGet({ qualify_after_meeting: true });
+
+			const res = await app.request("/api/admin/settings", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ qualify_after_meeting: true }),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.settings.qualify_after_meeting).toBe(true);
+		});
+
+		it("should reject a non-boolean qualify_after_meeting", async () => {
+			const res = await app.request("/api/admin/settings", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ qualify_after_meeting: "yes" }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details?.qualify_after_meeting).toBeDefined();
+		});
+
+		it("should update the contact inactivity thresholds", async () => {
+			setupMockDbForGet({ warmth_decay_days: 45, dormant_after_days: 0 });
+
+			const res = await app.request("/api/admin/settings", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ warmth_decay_days: 45, dormant_after_days: 0 }),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.settings.warmth_decay_days).toBe(45);
+			expect(body.settings.dormant_after_days).toBe(0);
+		});
+
+		it("should reject a negative or fractional inactivity threshold", async () => {
+			const res = await app.request("/api/admin/settings", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ warmth_decay_days: -1, dormant_after_days: 1.5 }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details?.warmth_decay_days).toBeDefined();
+			expect(body.details?.dormant_after_days).toBeDefined();
+		});
+
+		it("should reject a short inbound_email_secret", async () => {
+			const res = await app.request("/api/admin/settings", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ inbound_email_secret: "short" }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details?.inbound_email_secret).toBeDefined();
+		});
+
 		it("should accept team/user/event cal_link format", async () => {
 			setupMockDbForGet({ cal_link: "team/user/event" });
 
@@ -448,4 +668,221 @@ describe("Admin Settings Routes", () => {
 			expect(res.status).toBe(200);
 		});
 	});
+
+	// ==========================================================================
+	// /api/admin/settings/auto-responder - Auto-responder
+	// ==========================================================================
+	describe("GET /api/admin/settings/auto-responder", () => {
+		it("should return the configuration with the editor's options", async () => {
+			const res = await app.request("/api/admin/settings/auto-responder", {
+				headers: authHeaders(),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.autoResponder).toEqual(DEFAULT_AUTO_RESPONDER);
+			expect(body.templateFields).toContain("calLink");
+			expect(body.projectTypes).toContain("Cloud Migration");
+		});
+	});
+
+	describe("PATCH /api/admin/settings/auto-responder", () => {
+		function patch(data: unknown) {
+			return app.request("/api/admin/settings/auto-responder", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify(data),
+			});
+		}
+
+		it("should merge the update into the current configuration", async () => {
+			const res = await patch({
+				enabled: true,
+				from: "Octatech <hello@octatech.xyz>",
+				projectTypeTemplates: {
+					"Cloud Migration": { subject: "Cloud help for {{lead.company}}", body: "  " },
+					Other: { subject: "", body: "" },
+				},
+				excludedSources: ["API", "API", " "],
+			});
+
+			expect(res.status).toBe(200);
+			expect(setAutoResponderSettings).toHaveBeenCalledWith({
+				...DEFAULT_AUTO_RESPONDER,
+				enabled: true,
+				from: "Octatech <hello@octatech.xyz>",
+				projectTypeTemplates: {
+					"Cloud Migration": { subject: "Cloud help for {{lead.company}}", body: undefined },
+				},
+				excludedSources: ["API"],
+			});
+		});
+
+		it("should require a sender to enable the auto-responder", async () => {
+			const res = await patch({ enabled: true });
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details?.from).toBeDefined();
+			expect(setAutoResponderSettings).not.toHaveBeenCalled();
+		});
+
+		it("should reject invalid senders and reply-to addresses", async () => {
+			expect((await patch({ from: "Octatech <not-an-email>" })).status).toBe(400);
+			expect((await patch({ replyTo: "nope" })).status).toBe(400);
+			expect(setAutoResponderSettings).not.toHaveBeenCalled();
+		});
+
+		it("should reject invalid templates", async () => {
+			const res = await patch({ body: "Hi {{lead.unknown}}" });
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details?.templates).toMatch(/^body: /);
+		});
+
+		it("should return 400 for an empty update", async () => {
+			expect((await patch({})).status).toBe(400);
+		});
+	});
+
+	describe("POST /api/admin/settings/auto-responder/preview", () => {
+		it("should render unsaved changes for a sample lead", async () => {
+			const res = await app.request("/api/admin/settings/auto-responder/preview", {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({
+					projectType: "Cloud Migration",
+					projectTypeTemplates: {
+						"Cloud Migration": {
+							subject: "{{lead.projectType}} for {{lead.name}} ({{lead.budget}})",
+						},
+					},
+				}),
+			});
+
+			expect(res.status).toBe(200);
+			const { preview } = await res.json();
+			expect(preview.subject).toBe("Cloud Migration for Jane Smith ($15,000 - $50,000)");
+			expect(preview.text).toContain("https://cal.com/octatech/discovery");
+			expect(preview.html).toContain("<!DOCTYPE html>");
+			expect(setAutoResponderSettings).not.toHaveBeenCalled();
+		});
+	});
+
+	// ==========================================================================
+	// /api/admin/settings/contact-scoring - Contact scoring
+	// ==========================================================================
+	describe("GET /api/admin/settings/contact-scoring", () => {
+		it("should return the configuration", async () => {
+			const res = await app.request("/api/admin/settings/contact-scoring", {
+				headers: authHeaders(),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.contactScoring).toEqual(DEFAULT_CONTACT_SCORING);
+		});
+	});
+
+	describe("PATCH /api/admin/settings/contact-scoring", () => {
+		function patch(data: unknown) {
+			return app.request("/api/admin/settings/contact-scoring", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify(data),
+			});
+		}
+
+		it("should merge the update into the current configuration", async () => {
+			const res = await patch({
+				interactionWeights: { meeting: 12 },
+				halfLifeDays: 0,
+				warmthThresholds: { hot: 25 },
+			});
+
+			expect(res.status).toBe(200);
+			expect(setContactScoringSettings).toHaveBeenCalledWith({
+				...DEFAULT_CONTACT_SCORING,
+				interactionWeights: { ...DEFAULT_CONTACT_SCORING.interactionWeights, meeting: 12 },
+				halfLifeDays: 0,
+				warmthThresholds: { warm: 6, hot: 25 },
+			});
+		});
+
+		it("should reject unknown interaction types and negative points", async () => {
+			expect((await patch({ interactionWeights: { carrier_pigeon: 3 } })).status).toBe(400);
+			expect((await patch({ companySignals: { hiringContractors: -1 } })).status).toBe(400);
+			expect(setContactScoringSettings).not.toHaveBeenCalled();
+		});
+
+		it("should reject a hot threshold below the warm threshold", async () => {
+			const res = await patch({ warmthThresholds: { warm: 30 } });
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details?.warmthThresholds).toBeDefined();
+			expect(setContactScoringSettings).not.toHaveBeenCalled();
+		});
+
+		it("should return 400 for an empty update", async () => {
+			expect((await patch({})).status).toBe(400);
+		});
+	});
+
+	// ==========================================================================
+	// /api/admin/settings/lead-scoring - Lead scoring
+	// ==========================================================================
+	describe("GET /api/admin/settings/lead-scoring", () => {
+		it("should return the rules", async () => {
+			const res = await app.request("/api/admin/settings/lead-scoring", {
+				headers: authHeaders(),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.leadScoring).toEqual(DEFAULT_LEAD_SCORING);
+		});
+	});
+
+	describe("PATCH /api/admin/settings/lead-scoring", () => {
+		function patch(data: unknown) {
+			return app.request("/api/admin/settings/lead-scoring", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify(data),
+			});
+		}
+
+		it("should merge the update and rescore every lead", async () => {
+			const res = await patch({
+				budgetPoints: { "$100,000+": 40 },
+				sourcePoints: { Partner: 12 },
+				freeMailDomains: ["GMAIL.com", "fastmail.com", "gmail.com"],
+			});
+
+			expect(res.status).toBe(200);
+			expect(setLeadScoringSettings).toHaveBeenCalledWith({
+				...DEFAULT_LEAD_SCORING,
+				budgetPoints: { ...DEFAULT_LEAD_SCORING.budgetPoints, "$100,000+": 40 },
+				sourcePoints: { Partner: 12 },
+				freeMailDomains: ["gmail.com", "fastmail.com"],
+			});
+			expect(rescoreAllLeads).toHaveBeenCalled();
+			const body = await res.json();
+			expect(body.rescored).toBe(3);
+		});
+
+		it("should reject unknown budgets, fractional points and invalid domains", async () => {
+			expect((await patch({ budgetPoints: { "A lot": 5 } })).status).toBe(400);
+			expect((await patch({ domainPoints: { corporate: 2.5 } })).status).toBe(400);
+			expect((await patch({ freeMailDomains: ["not a domain"] })).status).toBe(400);
+			expect(setLeadScoringSettings).not.toHaveBeenCalled();
+			expect(rescoreAllLeads).not.toHaveBeenCalled();
+		});
+
+		it("should return 400 for an empty update", async () => {
+			expect((await patch({})).status).toBe(400);
+		});
+	});
 });
@@ -8,13 +8,65 @@
  * - cal_link: Cal.com booking link (e.g., "octatech/discovery")
  * - openai_api_key: OpenAI API key (masked in GET response)
  * - admin_email: Admin email address for notifications
+ * - email_from: Sender for emails composed in the CRM (lib/email-composer.ts)
+ * - inbound_email_secret: Secret inbound email webhooks must present
+ *   (lib/inbound-email.ts, masked in GET response)
+ * - cal_webhook_secret: Secret Cal.com signs webhook payloads with
+ *   (lib/bookings.ts, masked in GET response)
+ * - qualify_after_meeting: Advance new/contacted leads to qualified when a
+ *   Cal.com meeting ends (lib/bookings.ts)
+ * - warmth_decay_days / dormant_after_days: Days without an interaction
+ *   before a contact cools down a warmth level / becomes dormant, 0 to turn
+ *   off (lib/contact-decay.ts)
+ * - lead_auto_responder: Acknowledgement email for new inbound leads
+ *   (see lib/auto-responder.ts), under /auto-responder
+ * - contact_scoring: Interaction weights and thresholds behind contact
+ *   warmth and suggested tiers (see lib/contact-score.ts), under
+ *   /contact-scoring
+ * - lead_scoring: Rules behind the score stored on each lead (see
+ *   lib/lead-score.ts), under /lead-scoring
  */
 
-import { eq } from "drizzle-orm";
+import { inArray } from "drizzle-orm";
 import { Hono } from "hono";
 import { z } from "zod";
 import { db, settings } from "../../db/index.js";
+import {
+	AUTO_RESPONDER_TEMPLATE_FIELDS,
+	type AutoResponderSettings,
+	getAutoResponderSettings,
+	getCalBookingUrl,
+	previewAutoResponse,
+	setAutoResponderSettings,
+	validateAutoResponderTemplates,
+} from "../../lib/auto-responder.js";
+import { CAL_WEBHOOK_SECRET_SETTING, QUALIFY_AFTER_MEETING_SETTING } from "../../lib/bookings.js";
+import {
+	CONTACT_DECAY_CONFIG,
+	DORMANT_AFTER_DAYS_SETTING,
+	WARMTH_DECAY_DAYS_SETTING,
+} from "../../lib/contact-decay.js";
+import {
+	COMPANY_SIGNALS,
+	type ContactScoringSettings,
+	getContactScoringSettings,
+	setContactScoringSettings,
+} from "../../lib/contact-score.js";
+import { EMAIL_FROM_SETTING } from "../../lib/email-composer.js";
 import { BadRequestError, ValidationError } from "../../lib/errors.js";
+import { INBOUND_EMAIL_SECRET_SETTING } from "../../lib/inbound-email.js";
+import {
+	getLeadScoringSettings,
+	type LeadScoringSettings,
+	rescoreAllLeads,
+	setLeadScoringSettings,
+} from "../../lib/lead-score.js";
+import { MAX_NOTIFICATION_TEMPLATE_LENGTH } from "../../lib/notifications/index.js";
+import {
+	budgetOptions,
+	contactInteractionTypeOptions,
+	projectTypeOptions,
+} from "../../lib/validation.js";
 import { requireAuth, requireCsrfHeader } from "../../middleware/auth.js";
 
 /**
@@ -31,6 +83,38 @@ adminSettingsRoutes.use("*", requireAuth);
  */
 const CAL_LINK_REGEX = /^[a-zA-Z0-9_-]+(?:\/[a-zA-Z0-9_-]+)+$/;
 
+/**
+ * Regular expression for a sender address: "email" or "Name <email>".
+ */
+const SENDER_REGEX = /^(?:[^<>]*<[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+>|[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+)$/;
+
+/**
+ * Schema for an inactivity threshold in days (0 turns it off).
+ */
+const inactivityDaysSchema = z
+	.number()
+	.int("Days must be a whole number")
+	.min(0, "Days cannot be negative")
+	.max(3650, "Days must be at most 3650");
+
+/**
+ * Settings managed by GET and PATCH /api/admin/settings.
+ * The PATCH body fields are named after these keys.
+ */
+const SETTING_KEYS = [
+	"cal_link",
+	"openai_api_key",
+	"admin_email",
+	EMAIL_FROM_SETTING,
+	INBOUND_EMAIL_SECRET_SETTING,
+	CAL_WEBHOOK_SECRET_SETTING,
+	QUALIFY_AFTER_MEETING_SETTING,
+	WARMTH_DECAY_DAYS_SETTING,
+	DORMANT_AFTER_DAYS_SETTING,
+] as const;
+
+type SettingKey = (typeof SETTING_KEYS)[number];
+
 /**
  * Schema for updating settings.
  * All fields are optional - only provided fields will be updated.
@@ -50,8 +134,283 @@ const updateSettingsSchema = z.object({
 		})
 		.optional(),
 	admin_email: z.string().email("Invalid email address").optional(),
+	email_from: z
+		.string()
+		.trim()
+		.max(255, "Sender must be at most 255 characters")
+		.refine((val) => SENDER_REGEX.test(val), {
+			message: 'Sender must be an email address or "Name <email>"',
+		})
+		.optional(),
+	inbound_email_secret: z
+		.string()
+		.trim()
+		.min(16, "Secret must be at least 16 characters")
+		.max(255, "Secret must be at most 255 characters")
+		.optional(),
+	cal_webhook_secret: z
+		.string()
+		.trim()
+		.min(16, "Secret must be at least 16 characters")
+		.max(255, "Secret must be at most 255 characters")
+		.optional(),
+	qualify_after_meeting: z.boolean().optional(),
+	warmth_decay_days: inactivityDaysSchema.optional(),
+	dormant_after_days: inactivityDaysSchema.optional(),
+});
+
+/**
+ * Schema for an auto-response subject or body template.
+ */
+const autoResponderTemplateSchema = z
+	.string()
+	.max(
+		MAX_NOTIFICATION_TEMPLATE_LENGTH,
+		`Templates must be at most ${MAX_NOTIFICATION_TEMPLATE_LENGTH} characters`,
+	);
+
+/**
+ * Schema for updating the auto-responder.
+ * All fields are optional - omitted fields keep their current values.
+ */
+const updateAutoResponderSchema = z.object({
+	enabled: z.boolean().optional(),
+	from: z
+		.string()
+		.trim()
+		.max(255, "Sender must be at most 255 characters")
+		.refine((val) => !val || SENDER_REGEX.test(val), {
+			message: 'Sender must be an email address or "Name <email>"',
+		})
+		.optional(),
+	replyTo: z.string().trim().email("Invalid reply-to email address").nullable().optional(),
+	subject: autoResponderTemplateSchema.min(1, "Subject cannot be empty").optional(),
+	body: autoResponderTemplateSchema.min(1, "Body cannot be empty").optional(),
+	projectTypeTemplates: z
+		.record(
+			z.string().max(100, "Project type must be at most 100 characters"),
+			z.object({
+				subject: autoResponderTemplateSchema.optional(),
+				body: autoResponderTemplateSchema.optional(),
+			}),
+		)
+		.optional(),
+	excludedSources: z
+		.array(z.string().trim().max(100, "Source must be at most 100 characters"))
+		.max(50, "At most 50 sources can be excluded")
+		.optional(),
+});
+
+/**
+ * Schema for previewing the auto-responder before saving.
+ */
+const autoResponderPreviewSchema = updateAutoResponderSchema.extend({
+	projectType: z.string().max(100).nullable().optional(),
+});
+
+/**
+ * Schema for the points an interaction or company signal is worth,
+ * or a score threshold.
+ */
+const scorePointsSchema = z
+	.number()
+	.min(0, "Points cannot be negative")
+	.max(1000, "Points must be at most 1000");
+
+/**
+ * Schema for updating contact scoring.
+ * All fields are optional - omitted fields and weights keep their current values.
+ */
+const updateContactScoringSchema = z.object({
+	interactionWeights: z.record(z.enum(contactInteractionTypeOptions), scorePointsSchema).optional(),
+	inboundMultiplier: z
+		.number()
+		.min(1, "Inbound multiplier must be at least 1")
+		.max(10, "Inbound multiplier must be at most 10")
+		.optional(),
+	halfLifeDays: z
+		.number()
+		.int("Half-life must be a whole number of days")
+		.min(0, "Half-life cannot be negative")
+		.max(3650, "Half-life must be at most 3650 days")
+		.optional(),
+	companySignals: z.record(z.enum(COMPANY_SIGNALS), scorePointsSchema).optional(),
+	warmthThresholds: z
+		.object({ warm: scorePointsSchema, hot: scorePointsSchema })
+		.partial()
+		.optional(),
+	tierThresholds: z.object({ A: scorePointsSchema, B: scorePointsSchema }).partial().optional(),
+});
+
+/**
+ * Schema for the points a lead scoring rule is worth.
+ */
+const leadPointsSchema = z
+	.number()
+	.int("Points must be a whole number")
+	.min(0, "Points cannot be negative")
+	.max(1000, "Points must be at most 1000");
+
+/**
+ * Regular expression for a bare email domain, e.g. "gmail.com".
+ */
+const DOMAIN_REGEX = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+/**
+ * Schema for updating lead scoring.
+ * All fields are optional - omitted fields and points keep their current
+ * values. sourcePoints and freeMailDomains replace the stored lists.
+ */
+const updateLeadScoringSchema = z.object({
+	budgetPoints: z.record(z.enum(budgetOptions), leadPointsSchema).optional(),
+	projectTypePoints: z.record(z.enum(projectTypeOptions), leadPointsSchema).optional(),
+	sourcePoints: z
+		.record(
+			z
+				.string()
+				.trim()
+				.min(1, "Source is required")
+				.max(100, "Source must be at most 100 characters"),
+			leadPointsSchema,
+		)
+		.optional(),
+	domainPoints: z
+		.object({ corporate: leadPointsSchema, freeMail: leadPointsSchema })
+		.partial()
+		.optional(),
+	freeMailDomains: z
+		.array(
+			z
+				.string()
+				.trim()
+				.toLowerCase()
+				.regex(DOMAIN_REGEX, "Free-mail domains must look like gmail.com"),
+		)
+		.max(500, "At most 500 free-mail domains are allowed")
+		.optional(),
+	detailedMessage: z
+		.object({
+			minLength: z
+				.number()
+				.int("Message length must be a whole number")
+				.min(0, "Message length cannot be negative")
+				.max(10000, "Message length must be at most 10000"),
+			points: leadPointsSchema,
+		})
+		.partial()
+		.optional(),
+	contactInteractions: z
+		.object({ pointsEach: leadPointsSchema, maxPoints: leadPointsSchema })
+		.partial()
+		.optional(),
 });
 
+/**
+ * Apply a lead scoring update to the current rules.
+ *
+ * @param current - The stored rules
+ * @param data - The validated update
+ * @returns The updated rules
+ */
+function mergeLeadScoring(
+	current: LeadScoringSettings,
+	data: z.infer<typeof updateLeadScoringSchema>,
+): LeadScoringSettings {
+	return {
+		budgetPoints: { ...current.budgetPoints, ...data.budgetPoints },
+		projectTypePoints: { ...current.projectTypePoints, ...data.projectTypePoints },
+		sourcePoints: data.sourcePoints ?? current.sourcePoints,
+		domainPoints: { ...current.domainPoints, ...data.domainPoints },
+		freeMailDomains: data.freeMailDomains
+			? [...new Set(data.freeMailDomains)]
+			: current.freeMailDomains,
+		detailedMessage: { ...current.detailedMessage, ...data.detailedMessage },
+		contactInteractions: { ...current.contactInteractions, ...data.contactInteractions },
+	};
+}
+
+/**
+ * Apply a contact scoring update to the current configuration.
+ *
+ * @param current - The stored configuration
+ * @param data - The validated update
+ * @returns The updated configuration
+ * @throws ValidationError if a threshold is below the one beneath it
+ */
+function mergeContactScoring(
+	current: ContactScoringSettings,
+	data: z.infer<typeof updateContactScoringSchema>,
+): ContactScoringSettings {
+	const merged: ContactScoringSettings = {
+		interactionWeights: { ...current.interactionWeights, ...data.interactionWeights },
+		inboundMultiplier: data.inboundMultiplier ?? current.inboundMultiplier,
+		halfLifeDays: data.halfLifeDays ?? current.halfLifeDays,
+		companySignals: { ...current.companySignals, ...data.companySignals },
+		warmthThresholds: { ...current.warmthThresholds, ...data.warmthThresholds },
+		tierThresholds: { ...current.tierThresholds, ...data.tierThresholds },
+	};
+
+	if (merged.warmthThresholds.hot < merged.warmthThresholds.warm) {
+		throw new ValidationError("Invalid request", {
+			warmthThresholds: "The hot threshold must be at least the warm threshold",
+		});
+	}
+
+	if (merged.tierThresholds.A < merged.tierThresholds.B) {
+		throw new ValidationError("Invalid request", {
+			tierThresholds: "The tier A threshold must be at least the tier B threshold",
+		});
+	}
+
+	return merged;
+}
+
+/**
+ * Apply an auto-responder update to the current configuration.
+ * Blank project type overrides and excluded sources are dropped.
+ *
+ * @param current - The stored configuration
+ * @param data - The validated update
+ * @returns The updated configuration
+ * @throws ValidationError if a template is invalid
+ */
+function mergeAutoResponder(
+	current: AutoResponderSettings,
+	data: z.infer<typeof updateAutoResponderSchema>,
+): AutoResponderSettings {
+	const merged: AutoResponderSettings = {
+		enabled: data.enabled ?? current.enabled,
+		from: data.from ?? current.from,
+		replyTo: data.replyTo === undefined ? current.replyTo : data.replyTo,
+		subject: data.subject ?? current.subject,
+		body: data.body ?? current.body,
+		projectTypeTemplates: current.projectTypeTemplates,
+		excludedSources: current.excludedSources,
+	};
+
+	if (data.projectTypeTemplates) {
+		merged.projectTypeTemplates = {};
+		for (const [projectType, overrides] of Object.entries(data.projectTypeTemplates)) {
+			const subject = overrides.subject?.trim() ? overrides.subject : undefined;
+			const body = overrides.body?.trim() ? overrides.body : undefined;
+			if (subject || body) {
+				merged.projectTypeTemplates[projectType] = { subject, body };
+			}
+		}
+	}
+
+	if (data.excludedSources) {
+		merged.excludedSources = [...new Set(data.excludedSources.filter(Boolean))];
+	}
+
+	const templateError = validateAutoResponderTemplates(merged);
+	if (templateError) {
+		throw new ValidationError("Invalid templates", { templates: templateError });
+	}
+
+	return merged;
+}
+
 /**
  * Mask a sensitive API key for display.
  * Shows the prefix and last 4 characters with dots in between.
@@ -101,42 +460,66 @@ function parseAndValidate<T>(schema: z.ZodSchema<T>, body: unknown): T {
 }
 
 /**
- * GET /api/admin/settings
- *
- * Return all settings as an object with keys mapped to their values.
- * Sensitive values (like OpenAI API key) are masked for security.
+ * Load the settings managed by GET and PATCH /api/admin/settings.
  *
- * @response 200 - Settings object
+ * @returns Stored values by setting key (unset settings are absent)
  */
-adminSettingsRoutes.get("/", async (c) => {
-	// Fetch each setting individually
-	const [calLinkSetting] = await db
+async function loadSettings(): Promise<Map<string, unknown>> {
+	const rows = await db
 		.select()
 		.from(settings)
-		.where(eq(settings.key, "cal_link"))
-		.limit(1);
+		.where(inArray(settings.key, [...SETTING_KEYS]));
 
-	const [openaiKeySetting] = await db
-		.select()
-		.from(settings)
-		.where(eq(settings.key, "openai_api_key"))
-		.limit(1);
+	return new Map(rows.map((row) => [row.key, row.value]));
+}
 
-	const [adminEmailSetting] = await db
-		.select()
-		.from(settings)
-		.where(eq(settings.key, "admin_email"))
-		.limit(1);
-
-	// Build response object with all settings
-	const response: Record<string, unknown> = {
-		cal_link: calLinkSetting?.value ?? null,
-		openai_api_key: openaiKeySetting?.value ? maskApiKey(openaiKeySetting.value as string) : null,
-		admin_email: adminEmailSetting?.value ?? null,
+/**
+ * Build the settings response.
+ * Secrets are masked, and unset settings come back as null or their default.
+ *
+ * @param stored - Stored values by setting key
+ * @returns Settings object keyed by setting key
+ */
+function serializeSettings(stored: Map<string, unknown>): Record<SettingKey, unknown> {
+	const masked = (key: SettingKey) => {
+		const value = stored.get(key);
+		return typeof value === "string" && value ? maskApiKey(value) : null;
+	};
+	const days = (key: SettingKey, fallback: number) => {
+		const value = stored.get(key);
+		return typeof value === "number" ? value : fallback;
 	};
 
+	return {
+		cal_link: stored.get("cal_link") ?? null,
+		openai_api_key: masked("openai_api_key"),
+		admin_email: stored.get("admin_email") ?? null,
+		[EMAIL_FROM_SETTING]: stored.get(EMAIL_FROM_SETTING) ?? null,
+		[INBOUND_EMAIL_SECRET_SETTING]: masked(INBOUND_EMAIL_SECRET_SETTING),
+		[CAL_WEBHOOK_SECRET_SETTING]: masked(CAL_WEBHOOK_SECRET_SETTING),
+		[QUALIFY_AFTER_MEETING_SETTING]: stored.get(QUALIFY_AFTER_MEETING_SETTING) === true,
+		[WARMTH_DECAY_DAYS_SETTING]: days(
+			WARMTH_DECAY_DAYS_SETTING,
+			CONTACT_DECAY_CONFIG.defaultWarmthDecayDays,
+		),
+		[DORMANT_AFTER_DAYS_SETTING]: days(
+			DORMANT_AFTER_DAYS_SETTING,
+			CONTACT_DECAY_CONFIG.defaultDormantAfterDays,
+		),
+	};
+}
+
+/**
+ * GET /api/admin/settings
+ *
+ * Return all settings as an object with keys mapped to their values.
+ * Sensitive values (like OpenAI API key) are masked for security.
+ *
+ * @response 200 - Settings object
+ */
+adminSettingsRoutes.get("/", async (c) => {
 	return c.json({
-		settings: response,
+		settings: serializeSettings(await loadSettings()),
 	});
 });
 
@@ -150,101 +533,198 @@ adminSettingsRoutes.get("/", async (c) => {
  * @body cal_link - Cal.com booking link (optional)
  * @body openai_api_key - OpenAI API key (optional)
  * @body admin_email - Admin email address (optional)
+ * @body email_from - Sender for composed emails, e.g. "Octatech <hello@octatech.xyz>" (optional)
+ * @body inbound_email_secret - Secret for POST /api/webhooks/email (optional)
+ * @body cal_webhook_secret - Secret for verifying POST /api/webhooks/cal signatures (optional)
+ * @body qualify_after_meeting - Qualify leads when their Cal.com meeting ends (optional)
+ * @body warmth_decay_days - Quiet days before a contact's warmth drops a level, 0 for never (optional)
+ * @body dormant_after_days - Quiet days before a contact becomes dormant, 0 for never (optional)
  * @response 200 - Updated settings
  */
 adminSettingsRoutes.patch("/", requireCsrfHeader, async (c) => {
 	const body = await c.req.json().catch(() => ({}));
 	const data = parseAndValidate(updateSettingsSchema, body);
 
-	// Check if there's anything to update
-	if (
-		data.cal_link === undefined &&
-		data.openai_api_key === undefined &&
-		data.admin_email === undefined
-	) {
+	const updates = SETTING_KEYS.filter((key) => data[key] !== undefined);
+	if (updates.length === 0) {
 		throw new BadRequestError(
-			"At least one setting (cal_link, openai_api_key, or admin_email) is required",
+			`At least one setting (${SETTING_KEYS.slice(0, -1).join(", ")}, or ${SETTING_KEYS.at(-1)}) is required`,
 		);
 	}
 
 	const now = new Date();
 
-	// Update each provided setting using upsert
-	if (data.cal_link !== undefined) {
+	// Upsert each provided setting
+	for (const key of updates) {
+		const value = data[key];
 		await db
 			.insert(settings)
-			.values({
-				key: "cal_link",
-				value: data.cal_link,
-				updatedAt: now,
-			})
+			.values({ key, value, updatedAt: now })
 			.onConflictDoUpdate({
 				target: settings.key,
-				set: {
-					value: data.cal_link,
-					updatedAt: now,
-				},
+				set: { value, updatedAt: now },
 			});
 	}
 
-	if (data.openai_api_key !== undefined) {
-		await db
-			.insert(settings)
-			.values({
-				key: "openai_api_key",
-				value: data.openai_api_key,
-				updatedAt: now,
-			})
-			.onConflictDoUpdate({
-				target: settings.key,
-				set: {
-					value: data.openai_api_key,
-					updatedAt: now,
-				},
-			});
+	// Return the complete state
+	return c.json({
+		settings: serializeSettings(await loadSettings()),
+	});
+});
+
+/**
+ * GET /api/admin/settings/auto-responder
+ *
+ * Return the auto-responder configuration, with the template fields and
+ * project types the admin UI's editor offers.
+ *
+ * @response 200 - Auto-responder configuration
+ */
+adminSettingsRoutes.get("/auto-responder", async (c) => {
+	const autoResponder = await getAutoResponderSettings();
+
+	return c.json({
+		autoResponder,
+		templateFields: AUTO_RESPONDER_TEMPLATE_FIELDS,
+		projectTypes: projectTypeOptions,
+	});
+});
+
+/**
+ * PATCH /api/admin/settings/auto-responder
+ *
+ * Update the auto-responder. Only provided fields are changed;
+ * projectTypeTemplates and excludedSources are replaced as a whole.
+ *
+ * @body enabled - Send auto-responses (requires a sender)
+ * @body from - Sender, e.g. "Octatech <hello@octatech.xyz>"
+ * @body replyTo - Reply-to address (null for the sender)
+ * @body subject - Subject template
+ * @body body - Plain text body template
+ * @body projectTypeTemplates - Subject/body overrides by lead projectType
+ * @body excludedSources - Lead sources that never get an auto-response
+ * @response 200 - Updated auto-responder configuration
+ * @response 400 - Validation error
+ */
+adminSettingsRoutes.patch("/auto-responder", requireCsrfHeader, async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const data = parseAndValidate(updateAutoResponderSchema, body);
+
+	if (Object.keys(data).length === 0) {
+		throw new BadRequestError("At least one auto-responder field is required");
 	}
 
-	if (data.admin_email !== undefined) {
-		await db
-			.insert(settings)
-			.values({
-				key: "admin_email",
-				value: data.admin_email,
-				updatedAt: now,
-			})
-			.onConflictDoUpdate({
-				target: settings.key,
-				set: {
-					value: data.admin_email,
-					updatedAt: now,
-				},
-			});
+	const autoResponder = mergeAutoResponder(await getAutoResponderSettings(), data);
+
+	if (autoResponder.enabled && !autoResponder.from) {
+		throw new ValidationError("Invalid request", {
+			from: "A sender is required to enable the auto-responder",
+		});
 	}
 
-	// Fetch all settings to return the complete state
-	const [calLinkSetting] = await db
-		.select()
-		.from(settings)
-		.where(eq(settings.key, "cal_link"))
-		.limit(1);
+	return c.json({ autoResponder: await setAutoResponderSettings(autoResponder) });
+});
 
-	const [openaiKeySetting] = await db
-		.select()
-		.from(settings)
-		.where(eq(settings.key, "openai_api_key"))
-		.limit(1);
+/**
+ * POST /api/admin/settings/auto-responder/preview
+ *
+ * Render the auto-response for a sample lead with unsaved changes applied,
+ * without saving anything.
+ *
+ * @body projectType - The sample lead's projectType (optional)
+ * @body ... - Unsaved auto-responder fields, as for PATCH
+ * @response 200 - Subject, plain text and HTML body
+ * @response 400 - Validation error
+ */
+adminSettingsRoutes.post("/auto-responder/preview", requireCsrfHeader, async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const { projectType, ...data } = parseAndValidate(autoResponderPreviewSchema, body);
 
-	const [adminEmailSetting] = await db
-		.select()
-		.from(settings)
-		.where(eq(settings.key, "admin_email"))
-		.limit(1);
+	const autoResponder = mergeAutoResponder(await getAutoResponderSettings(), data);
+	const calLink = await getCalBookingUrl();
 
-	return c.json({
-		settings: {
-			cal_link: calLinkSetting?.value ?? null,
-			openai_api_key: openaiKeySetting?.value ? maskApiKey(openaiKeySetting.value as string) : null,
-			admin_email: adminEmailSetting?.value ?? null,
-		},
-	});
+	return c.json({ preview: previewAutoResponse(autoResponder, projectType ?? null, calLink) });
+});
+
+/**
+ * GET /api/admin/settings/contact-scoring
+ *
+ * Return the contact scoring configuration.
+ *
+ * @response 200 - Contact scoring configuration
+ */
+adminSettingsRoutes.get("/contact-scoring", async (c) => {
+	return c.json({ contactScoring: await getContactScoringSettings() });
+});
+
+/**
+ * PATCH /api/admin/settings/contact-scoring
+ *
+ * Update contact scoring. Only provided fields and weights are changed.
+ * Existing contacts' warmth is upgraded to match the next time an
+ * interaction is logged for them.
+ *
+ * @body interactionWeights - Points per interaction type
+ * @body inboundMultiplier - Multiplier for inbound interactions
+ * @body halfLifeDays - Days after which an interaction counts half (0 for no decay)
+ * @body companySignals - Points for hiringContractors and b2bContracts
+ * @body warmthThresholds - Minimum scores for warm and hot
+ * @body tierThresholds - Minimum scores for suggesting tier A and B
+ * @response 200 - Updated contact scoring configuration
+ * @response 400 - Validation error
+ */
+adminSettingsRoutes.patch("/contact-scoring", requireCsrfHeader, async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const data = parseAndValidate(updateContactScoringSchema, body);
+
+	if (Object.keys(data).length === 0) {
+		throw new BadRequestError("At least one contact scoring field is required");
+	}
+
+	const contactScoring = mergeContactScoring(await getContactScoringSettings(), data);
+
+	return c.json({ contactScoring: await setContactScoringSettings(contactScoring) });
+});
+
+/**
+ * GET /api/admin/settings/lead-scoring
+ *
+ * Return the lead scoring rules.
+ *
+ * @response 200 - Lead scoring rules
+ */
+adminSettingsRoutes.get("/lead-scoring", async (c) => {
+	return c.json({ leadScoring: await getLeadScoringSettings() });
+});
+
+/**
+ * PATCH /api/admin/settings/lead-scoring
+ *
+ * Update lead scoring. Only provided fields and points are changed, except
+ * sourcePoints and freeMailDomains, which replace the stored lists. Every
+ * lead is rescored with the new rules.
+ *
+ * @body budgetPoints - Points per budget range
+ * @body projectTypePoints - Points per project type
+ * @body sourcePoints - Points per source
+ * @body domainPoints - Points for a corporate or free-mail email domain
+ * @body freeMailDomains - Domains counted as free mail
+ * @body detailedMessage - Minimum message length and the points it earns
+ * @body contactInteractions - Points per prior contact interaction and the cap
+ * @response 200 - Updated lead scoring rules and the number of leads rescored
+ * @response 400 - Validation error
+ */
+adminSettingsRoutes.patch("/lead-scoring", requireCsrfHeader, async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const data = parseAndValidate(updateLeadScoringSchema, body);
+
+	if (Object.keys(data).length === 0) {
+		throw new BadRequestError("At least one lead scoring field is required");
+	}
+
+	const leadScoring = await setLeadScoringSettings(
+		mergeLeadScoring(await getLeadScoringSettings(), data),
+	);
+
+	return c.json({ leadScoring, rescored: await rescoreAllLeads() });
 });
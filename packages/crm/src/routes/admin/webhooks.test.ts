@@ -47,6 +47,12 @@ vi.mock("../../db", () => {
 			url: "url",
 			events: "events",
 			secret: "secret",
+			previousSecret: "previousSecret",
+			previousSecretExpiresAt: "previousSecretExpiresAt",
+			filter: "filter",
+			fieldAllowlist: "fieldAllowlist",
+			customHeaders: "customHeaders",
+			bodyTemplate: "bodyTemplate",
 			enabled: "enabled",
 			lastTriggeredAt: "lastTriggeredAt",
 			lastStatusCode: "lastStatusCode",
@@ -63,6 +69,17 @@ vi.mock("../../db", () => {
 			responseBody: "responseBody",
 			durationMs: "durationMs",
 			attemptedAt: "attemptedAt",
+			attemptNumber: "attemptNumber",
+			nextRetryAt: "nextRetryAt",
+			skipReason: "skipReason",
+		},
+		webhookOutbox: {
+			id: "id",
+			webhookId: "webhookId",
+			event: "event",
+			attemptNumber: "attemptNumber",
+			nextAttemptAt: "nextAttemptAt",
+			lastError: "lastError",
 		},
 		webhookEventEnum: [
 			"lead.created",
@@ -70,13 +87,46 @@ vi.mock("../../db", () => {
 			"lead.status_changed",
 			"lead.deleted",
 			"lead.activity_added",
+			"contact.created",
+			"contact.updated",
+			"contact.status_changed",
+			"contact.interaction_added",
+			"company.created",
+			"company.updated",
+			"company.deleted",
 		],
 	};
 });
 
+// Mock redelivery and rotation helpers; the rest of the webhook library runs against the mocked db
+vi.mock("../../lib/webhooks", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../../lib/webhooks")>();
+	return {
+		...actual,
+		getDeliveryRetention: vi.fn(),
+		getWebhookDeliveryStats: vi.fn(),
+		setDeliveryRetention: vi.fn(),
+		redeliverWebhookDelivery: vi.fn(),
+		replayFailedDeliveries: vi.fn(),
+		rotateWebhookSecret: vi.fn(),
+		revokePreviousWebhookSecret: vi.fn(),
+	};
+});
+
 import { db } from "../../db";
+import { BadRequestError } from "../../lib/errors";
 import type { SessionData } from "../../lib/session";
 import { SESSION_CONFIG, shouldRefreshSession, validateSession } from "../../lib/session";
+import {
+	getDeliveryRetention,
+	getWebhookDeliveryStats,
+	redeliverWebhookDelivery,
+	replayFailedDeliveries,
+	revokePreviousWebhookSecret,
+	rotateWebhookSecret,
+	setDeliveryRetention,
+	verifyWebhookSignature,
+} from "../../lib/webhooks";
 import { errorHandler } from "../../middleware/error-handler";
 // Import after mocking
 import { adminWebhooksRoutes } from "./webhooks";
@@ -84,6 +134,13 @@ import { adminWebhooksRoutes } from "./webhooks";
 // Cast to mock types
 const mockValidateSession = validateSession as ReturnType<typeof vi.fn>;
 const mockShouldRefreshSession = shouldRefreshSession as ReturnType<typeof vi.fn>;
+const mockRedeliver = redeliverWebhookDelivery as ReturnType<typeof vi.fn>;
+const mockReplay = replayFailedDeliveries as ReturnType<typeof vi.fn>;
+const mockRotateSecret = rotateWebhookSecret as ReturnType<typeof vi.fn>;
+const mockRevokePreviousSecret = revokePreviousWebhookSecret as ReturnType<typeof vi.fn>;
+const mockGetStats = getWebhookDeliveryStats as ReturnType<typeof vi.fn>;
+const mockGetRetention = getDeliveryRetention as ReturnType<typeof vi.fn>;
+const mockSetRetention = setDeliveryRetention as ReturnType<typeof vi.fn>;
 const mockDb = db as unknown as {
 	select: ReturnType<typeof vi.fn>;
 	from: ReturnType<typeof vi.fn>;
@@ -142,6 +199,12 @@ function createMockWebhook(overrides: Record<string, unknown> = {}) {
 		url: "https://example.com/webhook",
 		events: ["lead.created", "lead.updated"],
 		secret: null,
+		previousSecret: null,
+		previousSecretExpiresAt: null,
+		filter: null,
+		fieldAllowlist: null,
+		customHeaders: null,
+		bodyTemplate: null,
 		enabled: true,
 		lastTriggeredAt: null,
 		lastStatusCode: null,
@@ -166,6 +229,7 @@ function createMockDelivery(overrides: Record<string, unknown> = {}) {
 		responseBody: "OK",
 		durationMs: 150,
 		attemptedAt: now,
+		skipReason: null,
 		...overrides,
 	};
 }
@@ -481,6 +545,111 @@ describe("Admin Webhooks Routes", () => {
 			expect(res.status).toBe(201);
 		});
 
+		it("should create webhook with a filter and field allow-list", async () => {
+			const createdWebhook = createMockWebhook({
+				id: "new_webhook_id",
+				filter: "budget >= 15000",
+				fieldAllowlist: ["name", "budget"],
+			});
+
+			const chain = setupMockDbChain([createdWebhook]);
+			chain.returning.mockResolvedValue([createdWebhook]);
+
+			const res = await app.request("/api/admin/webhooks", {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({
+					name: "Filtered Webhook",
+					url: "https://example.com/webhook",
+					events: ["lead.created"],
+					filter: "  budget >= 15000  ",
+					fieldAllowlist: ["name", "budget", "name"],
+				}),
+			});
+
+			expect(res.status).toBe(201);
+			expect(chain.values).toHaveBeenCalledWith(
+				expect.objectContaining({ filter: "budget >= 15000", fieldAllowlist: ["name", "budget"] }),
+			);
+			const body = await res.json();
+			expect(body).toMatchObject({ filter: "budget >= 15000", fieldAllowlist: ["name", "budget"] });
+		});
+
+		it("should reject invalid filters and unknown fields", async () => {
+			const res = await app.request("/api/admin/webhooks", {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({
+					name: "Filtered Webhook",
+					url: "https://example.com/webhook",
+					events: ["lead.created"],
+					filter: "salary > 10",
+					fieldAllowlist: ["name", "notes"],
+				}),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details.filter).toBe('Invalid filter: Unknown field "salary" at position 0');
+			expect(body.details.fieldAllowlist).toContain("Invalid field");
+		});
+
+		it("should store custom headers and mask them in the response", async () => {
+			const createdWebhook = createMockWebhook({
+				id: "new_webhook_id",
+				customHeaders: { Authorization: "Bearer live-token-abcd", "X-Team": "ops" },
+				bodyTemplate: '{"text": "{{data.lead.name}}"}',
+			});
+
+			const chain = setupMockDbChain([createdWebhook]);
+			chain.returning.mockResolvedValue([createdWebhook]);
+
+			const res = await app.request("/api/admin/webhooks", {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({
+					name: "Slack",
+					url: "https://example.com/webhook",
+					events: ["lead.created"],
+					customHeaders: { Authorization: "Bearer live-token-abcd", "X-Team": "ops" },
+					bodyTemplate: '{"text": "{{data.lead.name}}"}',
+				}),
+			});
+
+			expect(res.status).toBe(201);
+			expect(chain.values).toHaveBeenCalledWith(
+				expect.objectContaining({
+					customHeaders: { Authorization: "Bearer live-token-abcd", "X-Team": "ops" },
+					bodyTemplate: '{"text": "{{data.lead.name}}"}',
+				}),
+			);
+			const body = await res.json();
+			expect(body.customHeaders).toEqual({
+				Authorization: "••••••••abcd",
+				"X-Team": "••••••••",
+			});
+			expect(body.bodyTemplate).toBe('{"text": "{{data.lead.name}}"}');
+		});
+
+		it("should reject reserved headers and invalid templates", async () => {
+			const res = await app.request("/api/admin/webhooks", {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({
+					name: "Slack",
+					url: "https://example.com/webhook",
+					events: ["lead.created"],
+					customHeaders: { "X-Webhook-Signature": "forged" },
+					bodyTemplate: '{"text": {{data.lead.name}}}',
+				}),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details.customHeaders).toBe('Header "X-Webhook-Signature" is reserved');
+			expect(body.details.bodyTemplate).toMatch(/^Template must be valid JSON/);
+		});
+
 		it("should require HTTPS URL (reject HTTP)", async () => {
 			const res = await app.request("/api/admin/webhooks", {
 				method: "POST",
@@ -746,6 +915,148 @@ describe("Admin Webhooks Routes", () => {
 			expect(body.name).toBe("Updated Name");
 		});
 
+		it("should end any rotation in progress when the secret is replaced", async () => {
+			const existingWebhook = createMockWebhook({
+				id: "webhook_123",
+				secret: "current-secret-1234567",
+				previousSecret: "previous-secret-12345",
+				previousSecretExpiresAt: new Date(Date.now() + 60_000),
+			});
+
+			const selectChain = {
+				select: vi.fn().mockReturnThis(),
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				limit: vi.fn().mockResolvedValue([existingWebhook]),
+			};
+
+			const updateChain = {
+				update: vi.fn().mockReturnThis(),
+				set: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				returning: vi.fn().mockResolvedValue([createMockWebhook({ id: "webhook_123" })]),
+			};
+
+			mockDb.select.mockImplementation(() => selectChain);
+			mockDb.update.mockImplementation(() => updateChain);
+
+			const res = await app.request("/api/admin/webhooks/webhook_123", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ secret: "replacement-secret-123" }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(updateChain.set).toHaveBeenCalledWith(
+				expect.objectContaining({
+					secret: "replacement-secret-123",
+					previousSecret: null,
+					previousSecretExpiresAt: null,
+				}),
+			);
+		});
+
+		it("should clear the filter and allow-list when emptied", async () => {
+			const existingWebhook = createMockWebhook({
+				id: "webhook_123",
+				filter: "budget >= 15000",
+				fieldAllowlist: ["name"],
+			});
+
+			const selectChain = {
+				select: vi.fn().mockReturnThis(),
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				limit: vi.fn().mockResolvedValue([existingWebhook]),
+			};
+
+			const updateChain = {
+				update: vi.fn().mockReturnThis(),
+				set: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				returning: vi.fn().mockResolvedValue([createMockWebhook({ id: "webhook_123" })]),
+			};
+
+			mockDb.select.mockImplementation(() => selectChain);
+			mockDb.update.mockImplementation(() => updateChain);
+
+			const res = await app.request("/api/admin/webhooks/webhook_123", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ filter: "", fieldAllowlist: [] }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(updateChain.set).toHaveBeenCalledWith(
+				expect.objectContaining({ filter: null, fieldAllowlist: null }),
+			);
+		});
+
+		it("should merge custom header changes into the stored headers", async () => {
+			const existingWebhook = createMockWebhook({
+				id: "webhook_123",
+				customHeaders: { Authorization: "Bearer old-token", "X-Team": "ops" },
+			});
+
+			const selectChain = {
+				select: vi.fn().mockReturnThis(),
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				limit: vi.fn().mockResolvedValue([existingWebhook]),
+			};
+
+			const updateChain = {
+				update: vi.fn().mockReturnThis(),
+				set: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				returning: vi.fn().mockResolvedValue([createMockWebhook({ id: "webhook_123" })]),
+			};
+
+			mockDb.select.mockImplementation(() => selectChain);
+			mockDb.update.mockImplementation(() => updateChain);
+
+			const res = await app.request("/api/admin/webhooks/webhook_123", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({
+					customHeaders: { authorization: "Bearer new-token", "X-Team": null },
+				}),
+			});
+
+			expect(res.status).toBe(200);
+			expect(updateChain.set).toHaveBeenCalledWith(
+				expect.objectContaining({ customHeaders: { authorization: "Bearer new-token" } }),
+			);
+		});
+
+		it("should reject header updates that exceed the limit", async () => {
+			const existingWebhook = createMockWebhook({
+				id: "webhook_123",
+				customHeaders: Object.fromEntries(
+					Array.from({ length: 20 }, (_, i) => [`X-Existing-${i}`, "v"]),
+				),
+			});
+
+			const selectChain = {
+				select: vi.fn().mockReturnThis(),
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				limit: vi.fn().mockResolvedValue([existingWebhook]),
+			};
+
+			mockDb.select.mockImplementation(() => selectChain);
+
+			const res = await app.request("/api/admin/webhooks/webhook_123", {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ customHeaders: { "X-One-More": "v" } }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details.customHeaders).toBe("At most 20 custom headers are allowed");
+		});
+
 		it("should reset failure count when re-enabling disabled webhook", async () => {
 			const existingWebhook = createMockWebhook({
 				id: "webhook_123",
@@ -1032,8 +1343,13 @@ describe("Admin Webhooks Routes", () => {
 			expect(body.responseTime).toBeGreaterThanOrEqual(0);
 		});
 
-		it("should log delivery to database", async () => {
-			const mockWebhook = createMockWebhook({ id: "webhook_123" });
+		it("should sign the test delivery with every active secret", async () => {
+			const mockWebhook = createMockWebhook({
+				id: "webhook_123",
+				secret: "current-secret-1234567",
+				previousSecret: "previous-secret-12345",
+				previousSecretExpiresAt: new Date(Date.now() + 60_000),
+			});
 
 			const selectChain = {
 				select: vi.fn().mockReturnThis(),
@@ -1055,38 +1371,58 @@ describe("Admin Webhooks Routes", () => {
 				headers: authHeaders(true),
 			});
 
-			expect(mockDb.insert).toHaveBeenCalled();
+			const [, init] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+			const signatureHeaders = {
+				id: init.headers["X-Webhook-ID"],
+				timestamp: init.headers["X-Webhook-Timestamp"],
+				signature: init.headers["X-Webhook-Signature"],
+			};
+
+			expect(signatureHeaders.signature.split(" ")).toHaveLength(2);
+			expect(verifyWebhookSignature(init.body, signatureHeaders, "current-secret-1234567")).toBe(
+				true,
+			);
+			expect(verifyWebhookSignature(init.body, signatureHeaders, "previous-secret-12345")).toBe(
+				true,
+			);
 		});
 
-		it("should return 404 for non-existent webhook", async () => {
+		it("should send only allow-listed lead fields", async () => {
+			const mockWebhook = createMockWebhook({
+				id: "webhook_123",
+				fieldAllowlist: ["name", "budget"],
+			});
+
 			const selectChain = {
 				select: vi.fn().mockReturnThis(),
 				from: vi.fn().mockReturnThis(),
 				where: vi.fn().mockReturnThis(),
-				limit: vi.fn().mockResolvedValue([]),
+				limit: vi.fn().mockResolvedValue([mockWebhook]),
+			};
+
+			const insertChain = {
+				insert: vi.fn().mockReturnThis(),
+				values: vi.fn().mockResolvedValue(undefined),
 			};
 
 			mockDb.select.mockImplementation(() => selectChain);
+			mockDb.insert.mockImplementation(() => insertChain);
 
-			const res = await app.request("/api/admin/webhooks/nonexistent/test", {
+			await app.request("/api/admin/webhooks/webhook_123/test", {
 				method: "POST",
 				headers: authHeaders(true),
 			});
 
-			expect(res.status).toBe(404);
+			const [, init] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+			expect(Object.keys(JSON.parse(init.body).data.lead).sort()).toEqual(["budget", "id", "name"]);
 		});
 
-		it("should handle failed webhook delivery", async () => {
-			vi.stubGlobal(
-				"fetch",
-				vi.fn().mockResolvedValue({
-					ok: false,
-					status: 500,
-					text: vi.fn().mockResolvedValue("Internal Server Error"),
-				}),
-			);
-
-			const mockWebhook = createMockWebhook({ id: "webhook_123" });
+		it("should send the rendered template with custom headers", async () => {
+			const mockWebhook = createMockWebhook({
+				id: "webhook_123",
+				customHeaders: { Authorization: "Bearer token-123" },
+				bodyTemplate: '{"text": "New lead: {{data.lead.name}}"}',
+			});
 
 			const selectChain = {
 				select: vi.fn().mockReturnThis(),
@@ -1103,20 +1439,17 @@ describe("Admin Webhooks Routes", () => {
 			mockDb.select.mockImplementation(() => selectChain);
 			mockDb.insert.mockImplementation(() => insertChain);
 
-			const res = await app.request("/api/admin/webhooks/webhook_123/test", {
+			await app.request("/api/admin/webhooks/webhook_123/test", {
 				method: "POST",
 				headers: authHeaders(true),
 			});
 
-			expect(res.status).toBe(200);
-			const body = await res.json();
-			expect(body.success).toBe(false);
-			expect(body.statusCode).toBe(500);
+			const [, init] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+			expect(JSON.parse(init.body)).toEqual({ text: "New lead: Test Lead" });
+			expect(init.headers.Authorization).toBe("Bearer token-123");
 		});
 
-		it("should handle network errors gracefully", async () => {
-			vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("Network error")));
-
+		it("should log delivery to database", async () => {
 			const mockWebhook = createMockWebhook({ id: "webhook_123" });
 
 			const selectChain = {
@@ -1134,26 +1467,164 @@ describe("Admin Webhooks Routes", () => {
 			mockDb.select.mockImplementation(() => selectChain);
 			mockDb.insert.mockImplementation(() => insertChain);
 
-			const res = await app.request("/api/admin/webhooks/webhook_123/test", {
+			await app.request("/api/admin/webhooks/webhook_123/test", {
 				method: "POST",
 				headers: authHeaders(true),
 			});
 
-			expect(res.status).toBe(200);
-			const body = await res.json();
-			expect(body.success).toBe(false);
-			expect(body.responseBody).toContain("Network error");
+			expect(mockDb.insert).toHaveBeenCalled();
 		});
-	});
 
-	// ==========================================================================
-	// GET /api/admin/webhooks/:id/deliveries - Delivery history
-	// ==========================================================================
-	describe("GET /api/admin/webhooks/:id/deliveries", () => {
-		it("should return 401 when not authenticated", async () => {
-			mockValidateSession.mockResolvedValue(null);
-
-			const res = await app.request("/api/admin/webhooks/webhook_123/deliveries");
+		it("should return 404 for non-existent webhook", async () => {
+			const selectChain = {
+				select: vi.fn().mockReturnThis(),
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				limit: vi.fn().mockResolvedValue([]),
+			};
+
+			mockDb.select.mockImplementation(() => selectChain);
+
+			const res = await app.request("/api/admin/webhooks/nonexistent/test", {
+				method: "POST",
+				headers: authHeaders(true),
+			});
+
+			expect(res.status).toBe(404);
+		});
+
+		it("should handle failed webhook delivery", async () => {
+			vi.stubGlobal(
+				"fetch",
+				vi.fn().mockResolvedValue({
+					ok: false,
+					status: 500,
+					text: vi.fn().mockResolvedValue("Internal Server Error"),
+				}),
+			);
+
+			const mockWebhook = createMockWebhook({ id: "webhook_123" });
+
+			const selectChain = {
+				select: vi.fn().mockReturnThis(),
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				limit: vi.fn().mockResolvedValue([mockWebhook]),
+			};
+
+			const insertChain = {
+				insert: vi.fn().mockReturnThis(),
+				values: vi.fn().mockResolvedValue(undefined),
+			};
+
+			mockDb.select.mockImplementation(() => selectChain);
+			mockDb.insert.mockImplementation(() => insertChain);
+
+			const res = await app.request("/api/admin/webhooks/webhook_123/test", {
+				method: "POST",
+				headers: authHeaders(true),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.success).toBe(false);
+			expect(body.statusCode).toBe(500);
+		});
+
+		it("should handle network errors gracefully", async () => {
+			vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("Network error")));
+
+			const mockWebhook = createMockWebhook({ id: "webhook_123" });
+
+			const selectChain = {
+				select: vi.fn().mockReturnThis(),
+				from: vi.fn().mockReturnThis(),
+				where: vi.fn().mockReturnThis(),
+				limit: vi.fn().mockResolvedValue([mockWebhook]),
+			};
+
+			const insertChain = {
+				insert: vi.fn().mockReturnThis(),
+				values: vi.fn().mockResolvedValue(undefined),
+			};
+
+			mockDb.select.mockImplementation(() => selectChain);
+			mockDb.insert.mockImplementation(() => insertChain);
+
+			const res = await app.request("/api/admin/webhooks/webhook_123/test", {
+				method: "POST",
+				headers: authHeaders(true),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.success).toBe(false);
+			expect(body.responseBody).toContain("Network error");
+		});
+	});
+
+	// ==========================================================================
+	// GET /api/admin/webhooks/:id/deliveries - Delivery history
+	// ==========================================================================
+	describe("POST /api/admin/webhooks/preview", () => {
+		it("should return 401 without CSRF header", async () => {
+			const res = await app.request("/api/admin/webhooks/preview", {
+				method: "POST",
+				headers: authHeaders(),
+				body: JSON.stringify({}),
+			});
+
+			expect(res.status).toBe(401);
+		});
+
+		it("should render the template against a sample lead", async () => {
+			const res = await app.request("/api/admin/webhooks/preview", {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({
+					bodyTemplate:
+						'{"text": "{{data.lead.name}} <{{data.lead.email}}>", "phone": "{{data.lead.phone}}"}',
+					fieldAllowlist: ["name", "email"],
+				}),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.body).toEqual({ text: "Test Lead <test@example.com>", phone: null });
+			expect(Object.keys(body.payload.data.lead).sort()).toEqual(["email", "id", "name"]);
+		});
+
+		it("should return the standard payload without a template", async () => {
+			const res = await app.request("/api/admin/webhooks/preview", {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({ bodyTemplate: "" }),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.body).toEqual(body.payload);
+			expect(body.body.event).toBe("lead.created");
+		});
+
+		it("should return 400 for an invalid template", async () => {
+			const res = await app.request("/api/admin/webhooks/preview", {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({ bodyTemplate: '{"text": "{{data.lead[0]}}"}' }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details.bodyTemplate).toBe('Invalid placeholder "{{data.lead[0]}}"');
+		});
+	});
+
+	describe("GET /api/admin/webhooks/:id/deliveries", () => {
+		it("should return 401 when not authenticated", async () => {
+			mockValidateSession.mockResolvedValue(null);
+
+			const res = await app.request("/api/admin/webhooks/webhook_123/deliveries");
 
 			expect(res.status).toBe(401);
 		});
@@ -1194,7 +1665,7 @@ describe("Admin Webhooks Routes", () => {
 						from: vi.fn().mockReturnThis(),
 						where: vi.fn().mockResolvedValue([{ count: 2 }]),
 					};
-				} else {
+				} else if (selectCallCount === 3) {
 					// Third call: get deliveries
 					return {
 						select: vi.fn().mockReturnThis(),
@@ -1204,6 +1675,14 @@ describe("Admin Webhooks Routes", () => {
 						limit: vi.fn().mockReturnThis(),
 						offset: vi.fn().mockResolvedValue(mockDeliveries),
 					};
+				} else {
+					// Fourth call: queued retries from the outbox
+					return {
+						select: vi.fn().mockReturnThis(),
+						from: vi.fn().mockReturnThis(),
+						where: vi.fn().mockReturnThis(),
+						orderBy: vi.fn().mockResolvedValue([]),
+					};
 				}
 			};
 
@@ -1245,7 +1724,7 @@ describe("Admin Webhooks Routes", () => {
 						from: vi.fn().mockReturnThis(),
 						where: vi.fn().mockResolvedValue([{ count: 25 }]),
 					};
-				} else {
+				} else if (selectCallCount === 3) {
 					return {
 						select: vi.fn().mockReturnThis(),
 						from: vi.fn().mockReturnThis(),
@@ -1254,6 +1733,14 @@ describe("Admin Webhooks Routes", () => {
 						limit: vi.fn().mockReturnThis(),
 						offset: vi.fn().mockResolvedValue(mockDeliveries),
 					};
+				} else {
+					// Fourth call: queued retries from the outbox
+					return {
+						select: vi.fn().mockReturnThis(),
+						from: vi.fn().mockReturnThis(),
+						where: vi.fn().mockReturnThis(),
+						orderBy: vi.fn().mockResolvedValue([]),
+					};
 				}
 			};
 
@@ -1312,7 +1799,7 @@ describe("Admin Webhooks Routes", () => {
 						from: vi.fn().mockReturnThis(),
 						where: vi.fn().mockResolvedValue([{ count: 1 }]),
 					};
-				} else {
+				} else if (selectCallCount === 3) {
 					return {
 						select: vi.fn().mockReturnThis(),
 						from: vi.fn().mockReturnThis(),
@@ -1321,6 +1808,14 @@ describe("Admin Webhooks Routes", () => {
 						limit: vi.fn().mockReturnThis(),
 						offset: vi.fn().mockResolvedValue(mockDeliveries),
 					};
+				} else {
+					// Fourth call: queued retries from the outbox
+					return {
+						select: vi.fn().mockReturnThis(),
+						from: vi.fn().mockReturnThis(),
+						where: vi.fn().mockReturnThis(),
+						orderBy: vi.fn().mockResolvedValue([]),
+					};
 				}
 			};
 
@@ -1334,6 +1829,88 @@ describe("Admin Webhooks Routes", () => {
 			expect(body.deliveries[0].attemptedAt).toBe(attemptedAt.toISOString());
 		});
 
+		it("should include attempt metadata and queued retries", async () => {
+			const mockWebhook = createMockWebhook({ id: "webhook_123" });
+			const nextRetryAt = new Date("2025-01-15T10:01:00Z");
+			const mockDeliveries = [
+				createMockDelivery({
+					id: "delivery_1",
+					statusCode: 503,
+					attemptNumber: 1,
+					nextRetryAt,
+				}),
+			];
+			const mockQueued = [
+				{
+					id: "outbox_1",
+					event: "lead.created",
+					attemptNumber: 2,
+					nextAttemptAt: nextRetryAt,
+					lastError: "HTTP 503 Service Unavailable",
+				},
+			];
+
+			let selectCallCount = 0;
+			const createSelectChain = () => {
+				selectCallCount++;
+				if (selectCallCount === 1) {
+					return {
+						select: vi.fn().mockReturnThis(),
+						from: vi.fn().mockReturnThis(),
+						where: vi.fn().mockReturnThis(),
+						limit: vi.fn().mockResolvedValue([mockWebhook]),
+					};
+				} else if (selectCallCount === 2) {
+					return {
+						select: vi.fn().mockReturnThis(),
+						from: vi.fn().mockReturnThis(),
+						where: vi.fn().mockResolvedValue([{ count: 1 }]),
+					};
+				} else if (selectCallCount === 3) {
+					return {
+						select: vi.fn().mockReturnThis(),
+						from: vi.fn().mockReturnThis(),
+						where: vi.fn().mockReturnThis(),
+						orderBy: vi.fn().mockReturnThis(),
+						limit: vi.fn().mockReturnThis(),
+						offset: vi.fn().mockResolvedValue(mockDeliveries),
+					};
+				} else {
+					return {
+						select: vi.fn().mockReturnThis(),
+						from: vi.fn().mockReturnThis(),
+						where: vi.fn().mockReturnThis(),
+						orderBy: vi.fn().mockResolvedValue(mockQueued),
+					};
+				}
+			};
+
+			mockDb.select.mockImplementation(createSelectChain);
+
+			const res = await app.request("/api/admin/webhooks/webhook_123/deliveries", {
+				headers: authHeaders(),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.deliveries[0]).toMatchObject({
+				success: false,
+				skipped: false,
+				skipReason: null,
+				attemptNumber: 1,
+				nextRetryAt: nextRetryAt.toISOString(),
+			});
+			expect(body.queued).toEqual([
+				{
+					id: "outbox_1",
+					event: "lead.created",
+					attemptNumber: 2,
+					nextAttemptAt: nextRetryAt.toISOString(),
+					lastError: "HTTP 503 Service Unavailable",
+				},
+			]);
+		});
+
 		it("should cap limit at 100", async () => {
 			const mockWebhook = createMockWebhook({ id: "webhook_123" });
 
@@ -1353,7 +1930,7 @@ describe("Admin Webhooks Routes", () => {
 						from: vi.fn().mockReturnThis(),
 						where: vi.fn().mockResolvedValue([{ count: 500 }]),
 					};
-				} else {
+				} else if (selectCallCount === 3) {
 					return {
 						select: vi.fn().mockReturnThis(),
 						from: vi.fn().mockReturnThis(),
@@ -1362,6 +1939,14 @@ describe("Admin Webhooks Routes", () => {
 						limit: vi.fn().mockReturnThis(),
 						offset: vi.fn().mockResolvedValue([]),
 					};
+				} else {
+					// Fourth call: queued retries from the outbox
+					return {
+						select: vi.fn().mockReturnThis(),
+						from: vi.fn().mockReturnThis(),
+						where: vi.fn().mockReturnThis(),
+						orderBy: vi.fn().mockResolvedValue([]),
+					};
 				}
 			};
 
@@ -1376,6 +1961,362 @@ describe("Admin Webhooks Routes", () => {
 		});
 	});
 
+	// ==========================================================================
+	// POST /api/admin/webhooks/:id/deliveries/:deliveryId/redeliver
+	// ==========================================================================
+	describe("POST /api/admin/webhooks/:id/deliveries/:deliveryId/redeliver", () => {
+		const path = "/api/admin/webhooks/webhook_123/deliveries/delivery_1/redeliver";
+
+		it("should return 401 without CSRF header", async () => {
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(),
+			});
+
+			expect(res.status).toBe(401);
+		});
+
+		it("should redeliver and return the new delivery result", async () => {
+			mockRedeliver.mockResolvedValue({
+				success: true,
+				statusCode: 200,
+				responseBody: "OK",
+				durationMs: 42,
+				deliveryId: "delivery_2",
+			});
+
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+			});
+
+			expect(res.status).toBe(200);
+			expect(mockRedeliver).toHaveBeenCalledWith("webhook_123", "delivery_1");
+			const body = await res.json();
+			expect(body).toMatchObject({
+				success: true,
+				deliveryId: "delivery_2",
+				statusCode: 200,
+				responseTime: 42,
+				error: null,
+			});
+		});
+
+		it("should return 404 when the delivery does not exist", async () => {
+			mockRedeliver.mockResolvedValue(null);
+
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+			});
+
+			expect(res.status).toBe(404);
+		});
+	});
+
+	// ==========================================================================
+	// POST /api/admin/webhooks/:id/replay
+	// ==========================================================================
+	describe("POST /api/admin/webhooks/:id/replay", () => {
+		const path = "/api/admin/webhooks/webhook_123/replay";
+
+		it("should queue failed deliveries in the range", async () => {
+			mockReplay.mockResolvedValue({ queued: 3, skipped: 1 });
+
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({
+					from: "2025-01-14T00:00:00Z",
+					to: "2025-01-15T00:00:00Z",
+				}),
+			});
+
+			expect(res.status).toBe(202);
+			expect(await res.json()).toEqual({ queued: 3, skipped: 1 });
+			expect(mockReplay).toHaveBeenCalledWith("webhook_123", {
+				from: new Date("2025-01-14T00:00:00Z"),
+				to: new Date("2025-01-15T00:00:00Z"),
+			});
+		});
+
+		it("should default the end of the range to now", async () => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date("2025-01-15T12:00:00Z"));
+			mockReplay.mockResolvedValue({ queued: 0, skipped: 0 });
+
+			await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({ from: "2025-01-14T00:00:00Z" }),
+			});
+
+			expect(mockReplay).toHaveBeenCalledWith("webhook_123", {
+				from: new Date("2025-01-14T00:00:00Z"),
+				to: new Date("2025-01-15T12:00:00Z"),
+			});
+		});
+
+		it("should reject a range that ends before it starts", async () => {
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({
+					from: "2025-01-15T00:00:00Z",
+					to: "2025-01-14T00:00:00Z",
+				}),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details.to).toBeDefined();
+			expect(mockReplay).not.toHaveBeenCalled();
+		});
+
+		it("should require a valid from timestamp", async () => {
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({ from: "yesterday" }),
+			});
+
+			expect(res.status).toBe(400);
+		});
+
+		it("should return 404 for non-existent webhook", async () => {
+			mockReplay.mockResolvedValue(null);
+
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({ from: "2025-01-14T00:00:00Z" }),
+			});
+
+			expect(res.status).toBe(404);
+		});
+
+		it("should return 400 for a disabled webhook", async () => {
+			mockReplay.mockRejectedValue(
+				new BadRequestError("Webhook is disabled. Enable it before replaying deliveries."),
+			);
+
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({ from: "2025-01-14T00:00:00Z" }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.error).toContain("disabled");
+		});
+	});
+
+	// ==========================================================================
+	// GET /api/admin/webhooks/stats - Delivery statistics
+	// ==========================================================================
+	describe("GET /api/admin/webhooks/stats", () => {
+		it("should return per-webhook statistics and the window", async () => {
+			const stats = [
+				{
+					webhookId: "webhook_123",
+					total: 200,
+					succeeded: 190,
+					failed: 10,
+					successRate: 0.95,
+					p50DurationMs: 120,
+					p95DurationMs: 850,
+				},
+			];
+			mockGetStats.mockResolvedValue({ stats, windowDays: 7 });
+
+			const res = await app.request("/api/admin/webhooks/stats", {
+				headers: authHeaders(),
+			});
+
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ stats, windowDays: 7 });
+		});
+
+		it("should return 401 when not authenticated", async () => {
+			mockValidateSession.mockResolvedValue(null);
+
+			const res = await app.request("/api/admin/webhooks/stats");
+
+			expect(res.status).toBe(401);
+			expect(mockGetStats).not.toHaveBeenCalled();
+		});
+	});
+
+	// ==========================================================================
+	// GET/PATCH /api/admin/webhooks/retention - Delivery retention policy
+	// ==========================================================================
+	describe("/api/admin/webhooks/retention", () => {
+		const path = "/api/admin/webhooks/retention";
+
+		it("should return the current policy", async () => {
+			mockGetRetention.mockResolvedValue({ successDays: 7, failureDays: 90 });
+
+			const res = await app.request(path, { headers: authHeaders() });
+
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ retention: { successDays: 7, failureDays: 90 } });
+		});
+
+		it("should store a new policy", async () => {
+			mockSetRetention.mockImplementation(async (retention) => retention);
+
+			const res = await app.request(path, {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ successDays: 14, failureDays: 30 }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(mockSetRetention).toHaveBeenCalledWith({ successDays: 14, failureDays: 30 });
+			expect(await res.json()).toEqual({ retention: { successDays: 14, failureDays: 30 } });
+		});
+
+		it("should reject retention outside the allowed range", async () => {
+			const res = await app.request(path, {
+				method: "PATCH",
+				headers: authHeaders(true),
+				body: JSON.stringify({ successDays: 0, failureDays: 1.5 }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details.successDays).toBe("Retention must be at least 1 day");
+			expect(body.details.failureDays).toBe("Retention must be a whole number of days");
+			expect(mockSetRetention).not.toHaveBeenCalled();
+		});
+
+		it("should return 401 without CSRF header", async () => {
+			const res = await app.request(path, {
+				method: "PATCH",
+				headers: authHeaders(),
+				body: JSON.stringify({ successDays: 14, failureDays: 30 }),
+			});
+
+			expect(res.status).toBe(401);
+		});
+	});
+
+	// ==========================================================================
+	// POST /api/admin/webhooks/:id/rotate-secret - Rotate signing secret
+	// ==========================================================================
+	describe("POST /api/admin/webhooks/:id/rotate-secret", () => {
+		const path = "/api/admin/webhooks/webhook_123/rotate-secret";
+
+		it("should return 401 without CSRF header", async () => {
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(),
+			});
+
+			expect(res.status).toBe(401);
+			expect(mockRotateSecret).not.toHaveBeenCalled();
+		});
+
+		it("should generate a new secret with the default grace period", async () => {
+			const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+			mockRotateSecret.mockResolvedValue(
+				createMockWebhook({
+					secret: "generated-secret-value",
+					previousSecret: "old-secret-value-123",
+					previousSecretExpiresAt: expiresAt,
+				}),
+			);
+
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+			});
+
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({
+				secret: "generated-secret-value",
+				previousSecretExpiresAt: expiresAt.toISOString(),
+			});
+			expect(mockRotateSecret).toHaveBeenCalledWith("webhook_123", undefined, 24 * 60 * 60 * 1000);
+		});
+
+		it("should accept a provided secret and grace period", async () => {
+			mockRotateSecret.mockResolvedValue(createMockWebhook({ secret: "my-own-new-secret-value" }));
+
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({ secret: "my-own-new-secret-value", gracePeriodHours: 2 }),
+			});
+
+			expect(res.status).toBe(200);
+			const body = await res.json();
+			expect(body.previousSecretExpiresAt).toBeNull();
+			expect(mockRotateSecret).toHaveBeenCalledWith(
+				"webhook_123",
+				"my-own-new-secret-value",
+				2 * 60 * 60 * 1000,
+			);
+		});
+
+		it("should reject short secrets and out-of-range grace periods", async () => {
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+				body: JSON.stringify({ secret: "short", gracePeriodHours: 500 }),
+			});
+
+			expect(res.status).toBe(400);
+			const body = await res.json();
+			expect(body.details.secret).toBeDefined();
+			expect(body.details.gracePeriodHours).toBeDefined();
+			expect(mockRotateSecret).not.toHaveBeenCalled();
+		});
+
+		it("should return 404 for non-existent webhook", async () => {
+			mockRotateSecret.mockResolvedValue(null);
+
+			const res = await app.request(path, {
+				method: "POST",
+				headers: authHeaders(true),
+			});
+
+			expect(res.status).toBe(404);
+		});
+	});
+
+	// ==========================================================================
+	// DELETE /api/admin/webhooks/:id/previous-secret - End rotation early
+	// ==========================================================================
+	describe("DELETE /api/admin/webhooks/:id/previous-secret", () => {
+		const path = "/api/admin/webhooks/webhook_123/previous-secret";
+
+		it("should revoke the previous secret", async () => {
+			mockRevokePreviousSecret.mockResolvedValue(createMockWebhook());
+
+			const res = await app.request(path, {
+				method: "DELETE",
+				headers: authHeaders(true),
+			});
+
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ success: true, message: "Previous secret revoked" });
+			expect(mockRevokePreviousSecret).toHaveBeenCalledWith("webhook_123");
+		});
+
+		it("should return 404 for non-existent webhook", async () => {
+			mockRevokePreviousSecret.mockResolvedValue(null);
+
+			const res = await app.request(path, {
+				method: "DELETE",
+				headers: authHeaders(true),
+			});
+
+			expect(res.status).toBe(404);
+		});
+	});
+
 	// ==========================================================================
 	// GET /api/admin/webhooks/events/list - List events
 	// ==========================================================================
@@ -1387,7 +2328,7 @@ describe("Admin Webhooks Routes", () => {
 
 			expect(res.status).toBe(200);
 			const body = await res.json();
-			expect(body.events).toHaveLength(5);
+			expect(body.events).toHaveLength(12);
 
 			const eventNames = body.events.map((e: { event: string }) => e.event);
 			expect(eventNames).toContain("lead.created");
@@ -1395,6 +2336,9 @@ describe("Admin Webhooks Routes", () => {
 			expect(eventNames).toContain("lead.status_changed");
 			expect(eventNames).toContain("lead.deleted");
 			expect(eventNames).toContain("lead.activity_added");
+			expect(eventNames).toContain("contact.created");
+			expect(eventNames).toContain("contact.interaction_added");
+			expect(eventNames).toContain("company.deleted");
 		});
 
 		it("should include descriptions for each event", async () => {
@@ -1424,6 +2368,11 @@ describe("Admin Webhooks Routes", () => {
 				(e: { event: string }) => e.event === "lead.status_changed",
 			);
 			expect(statusChanged.description).toContain("status");
+
+			const companyDeleted = body.events.find(
+				(e: { event: string }) => e.event === "company.deleted",
+			);
+			expect(companyDeleted.description).toContain("company");
 		});
 	});
 });
@@ -14,11 +14,37 @@ import { z } from "zod";
 import {
 	db,
 	type NewWebhook,
+	type Webhook,
 	webhookDeliveries,
 	webhookEventEnum,
 	webhooks,
 } from "../../db/index.js";
 import { BadRequestError, NotFoundError, ValidationError } from "../../lib/errors.js";
+import { MAX_FILTER_LENGTH, validateWebhookFilter } from "../../lib/webhook-filters.js";
+import {
+	MAX_TEMPLATE_LENGTH,
+	renderWebhookTemplate,
+	validateWebhookTemplate,
+	WebhookTemplateError,
+} from "../../lib/webhook-templates.js";
+import {
+	applyFieldAllowlist,
+	buildWebhookRequestBody,
+	buildWebhookRequestHeaders,
+	createSampleLeadPayload,
+	getActiveSecrets,
+	getDeliveryRetention,
+	getQueuedRetries,
+	getWebhookDeliveryStats,
+	LEAD_PAYLOAD_FIELDS,
+	redeliverWebhookDelivery,
+	replayFailedDeliveries,
+	revokePreviousWebhookSecret,
+	rotateWebhookSecret,
+	setDeliveryRetention,
+	validateCustomHeaders,
+	WEBHOOK_CONFIG,
+} from "../../lib/webhooks.js";
 import { requireAuth, requireCsrfHeader } from "../../middleware/auth.js";
 
 /**
@@ -64,6 +90,55 @@ function isPrivateUrl(url: string): boolean {
 	return PRIVATE_IP_PATTERNS.some((pattern) => pattern.test(url));
 }
 
+/**
+ * Schema for a webhook's filter expression over lead fields.
+ */
+const filterSchema = z
+	.string()
+	.max(MAX_FILTER_LENGTH, `Filter must be at most ${MAX_FILTER_LENGTH} characters`)
+	.superRefine((filter, ctx) => {
+		if (!filter.trim()) return;
+		const error = validateWebhookFilter(filter, LEAD_PAYLOAD_FIELDS);
+		if (error) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid filter: ${error}` });
+		}
+	});
+
+/**
+ * Schema for the lead fields a webhook receives.
+ */
+const fieldAllowlistSchema = z.array(
+	z.enum(LEAD_PAYLOAD_FIELDS, {
+		errorMap: () => ({
+			message: `Invalid field. Valid fields are: ${LEAD_PAYLOAD_FIELDS.join(", ")}`,
+		}),
+	}),
+);
+
+/**
+ * Schema for a webhook's JSON body template.
+ */
+const bodyTemplateSchema = z
+	.string()
+	.max(MAX_TEMPLATE_LENGTH, `Template must be at most ${MAX_TEMPLATE_LENGTH} characters`)
+	.superRefine((template, ctx) => {
+		if (!template.trim()) return;
+		const error = validateWebhookTemplate(template);
+		if (error) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+		}
+	});
+
+/**
+ * Schema for a webhook's custom request headers.
+ */
+const customHeadersSchema = z.record(z.string()).superRefine((headers, ctx) => {
+	const error = validateCustomHeaders(headers);
+	if (error) {
+		ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+	}
+});
+
 /**
  * Schema for creating a webhook.
  */
@@ -90,10 +165,15 @@ const createWebhookSchema = z.object({
 		.max(255, "Secret must be at most 255 characters")
 		.optional()
 		.nullable(),
+	filter: filterSchema.optional().nullable(),
+	fieldAllowlist: fieldAllowlistSchema.optional().nullable(),
+	customHeaders: customHeadersSchema.optional().nullable(),
+	bodyTemplate: bodyTemplateSchema.optional().nullable(),
 });
 
 /**
  * Schema for updating a webhook.
+ * Custom headers are merged into the existing ones; a null value removes a header.
  */
 const updateWebhookSchema = z.object({
 	name: z
@@ -124,6 +204,68 @@ const updateWebhookSchema = z.object({
 		.optional()
 		.nullable(),
 	enabled: z.boolean().optional(),
+	filter: filterSchema.optional().nullable(),
+	fieldAllowlist: fieldAllowlistSchema.optional().nullable(),
+	customHeaders: z.record(z.string().nullable()).optional().nullable(),
+	bodyTemplate: bodyTemplateSchema.optional().nullable(),
+});
+
+/**
+ * Schema for previewing a body template against a sample lead.
+ */
+const previewSchema = z.object({
+	bodyTemplate: bodyTemplateSchema.optional().nullable(),
+	fieldAllowlist: fieldAllowlistSchema.optional().nullable(),
+});
+
+/**
+ * Schema for rotating a webhook secret.
+ */
+const rotateSecretSchema = z.object({
+	secret: z
+		.string()
+		.min(16, "Secret must be at least 16 characters for security")
+		.max(255, "Secret must be at most 255 characters")
+		.optional(),
+	gracePeriodHours: z
+		.number()
+		.int("Grace period must be a whole number of hours")
+		.min(1, "Grace period must be at least 1 hour")
+		.max(168, "Grace period must be at most 168 hours (7 days)")
+		.optional(),
+});
+
+/**
+ * Schema for replaying failed deliveries in a time range.
+ */
+const replayDeliveriesSchema = z
+	.object({
+		from: z.string().datetime({ offset: true, message: "from must be an ISO 8601 timestamp" }),
+		to: z
+			.string()
+			.datetime({ offset: true, message: "to must be an ISO 8601 timestamp" })
+			.optional(),
+	})
+	.refine((range) => !range.to || new Date(range.from) < new Date(range.to), {
+		message: "from must be before to",
+		path: ["to"],
+	});
+
+/**
+ * Schema for the delivery retention policy (days per outcome).
+ */
+const retentionDaysSchema = z
+	.number()
+	.int("Retention must be a whole number of days")
+	.min(1, "Retention must be at least 1 day")
+	.max(
+		WEBHOOK_CONFIG.maxRetentionDays,
+		`Retention must be at most ${WEBHOOK_CONFIG.maxRetentionDays} days`,
+	);
+
+const deliveryRetentionSchema = z.object({
+	successDays: retentionDaysSchema,
+	failureDays: retentionDaysSchema,
 });
 
 /**
@@ -150,6 +292,81 @@ function parseAndValidate<T>(schema: z.ZodSchema<T>, body: unknown): T {
 	return parseResult.data;
 }
 
+/**
+ * Expiry of the previous secret while a rotation is in progress.
+ *
+ * @param webhook - The webhook
+ * @returns ISO timestamp, or null if no previous secret is still signing
+ */
+function formatPreviousSecretExpiry(webhook: Webhook): string | null {
+	if (getActiveSecrets(webhook).length < 2 || !webhook.previousSecretExpiresAt) {
+		return null;
+	}
+	return webhook.previousSecretExpiresAt.toISOString();
+}
+
+/**
+ * Normalize a filter for storage (blank means no filter).
+ */
+function normalizeFilter(filter: string | null | undefined): string | null {
+	return filter?.trim() ? filter.trim() : null;
+}
+
+/**
+ * Mask custom header values for display.
+ * Values are secrets (e.g. bearer tokens); only the last 4 characters are shown.
+ *
+ * @param headers - Stored custom headers
+ * @returns Headers with masked values (e.g., "••••••••abcd"), or null if none
+ */
+function maskCustomHeaders(headers: Record<string, string> | null): Record<string, string> | null {
+	if (!headers) {
+		return null;
+	}
+
+	return Object.fromEntries(
+		Object.entries(headers).map(([name, value]) => [
+			name,
+			value.length < 12 ? "••••••••" : `••••••••${value.slice(-4)}`,
+		]),
+	);
+}
+
+/**
+ * Apply a custom headers update to the stored headers.
+ * Header names are matched case-insensitively; null removes a header.
+ *
+ * @param existing - Stored custom headers
+ * @param changes - Headers to set or remove
+ * @returns The merged headers, or null if none remain
+ */
+function mergeCustomHeaders(
+	existing: Record<string, string> | null,
+	changes: Record<string, string | null>,
+): Record<string, string> | null {
+	const merged = { ...existing };
+
+	for (const [name, value] of Object.entries(changes)) {
+		for (const key of Object.keys(merged)) {
+			if (key.toLowerCase() === name.toLowerCase()) {
+				delete merged[key];
+			}
+		}
+		if (value !== null) {
+			merged[name] = value;
+		}
+	}
+
+	return Object.keys(merged).length > 0 ? merged : null;
+}
+
+/**
+ * Normalize a field allow-list for storage (empty means all fields).
+ */
+function normalizeFieldAllowlist(fields: string[] | null | undefined): string[] | null {
+	return fields?.length ? [...new Set(fields)] : null;
+}
+
 /**
  * GET /api/admin/webhooks
  *
@@ -167,16 +384,68 @@ adminWebhooksRoutes.get("/", async (c) => {
 			name: webhook.name,
 			url: webhook.url,
 			events: webhook.events,
+			filter: webhook.filter,
+			fieldAllowlist: webhook.fieldAllowlist,
+			customHeaders: maskCustomHeaders(webhook.customHeaders),
+			bodyTemplate: webhook.bodyTemplate,
 			enabled: webhook.enabled,
 			lastTriggeredAt: webhook.lastTriggeredAt?.toISOString() || null,
 			lastStatusCode: webhook.lastStatusCode,
 			failureCount: webhook.failureCount,
+			previousSecretExpiresAt: formatPreviousSecretExpiry(webhook),
 			createdAt: webhook.createdAt.toISOString(),
 			updatedAt: webhook.updatedAt.toISOString(),
 		})),
 	});
 });
 
+/**
+ * GET /api/admin/webhooks/stats
+ *
+ * Delivery statistics for every webhook over the retained window
+ * (see getWebhookDeliveryStats). Webhooks without attempts in the
+ * window are omitted.
+ *
+ * @response 200 - Per-webhook statistics and the window length in days
+ */
+adminWebhooksRoutes.get("/stats", async (c) => {
+	const { stats, windowDays } = await getWebhookDeliveryStats();
+
+	return c.json({ stats, windowDays });
+});
+
+/**
+ * GET /api/admin/webhooks/retention
+ *
+ * Get the delivery retention policy.
+ *
+ * @response 200 - Days to keep successful and failed deliveries
+ */
+adminWebhooksRoutes.get("/retention", async (c) => {
+	const retention = await getDeliveryRetention();
+
+	return c.json({ retention });
+});
+
+/**
+ * PATCH /api/admin/webhooks/retention
+ *
+ * Update the delivery retention policy.
+ * The scheduled purge job applies it on its next run.
+ *
+ * @body successDays - Days to keep successful and skipped deliveries
+ * @body failureDays - Days to keep failed deliveries
+ * @response 200 - The stored policy
+ */
+adminWebhooksRoutes.patch("/retention", requireCsrfHeader, async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const data = parseAndValidate(deliveryRetentionSchema, body);
+
+	const retention = await setDeliveryRetention(data);
+
+	return c.json({ retention });
+});
+
 /**
  * GET /api/admin/webhooks/:id
  *
@@ -200,10 +469,15 @@ adminWebhooksRoutes.get("/:id", async (c) => {
 		name: webhook.name,
 		url: webhook.url,
 		events: webhook.events,
+		filter: webhook.filter,
+		fieldAllowlist: webhook.fieldAllowlist,
+		customHeaders: maskCustomHeaders(webhook.customHeaders),
+		bodyTemplate: webhook.bodyTemplate,
 		enabled: webhook.enabled,
 		lastTriggeredAt: webhook.lastTriggeredAt?.toISOString() || null,
 		lastStatusCode: webhook.lastStatusCode,
 		failureCount: webhook.failureCount,
+		previousSecretExpiresAt: formatPreviousSecretExpiry(webhook),
 		createdAt: webhook.createdAt.toISOString(),
 		updatedAt: webhook.updatedAt.toISOString(),
 	});
@@ -218,11 +492,16 @@ adminWebhooksRoutes.get("/:id", async (c) => {
  * @body url - HTTPS URL to receive webhook notifications
  * @body events - Array of event types to subscribe to
  * @body secret - Optional shared secret for HMAC signature verification
+ * @body filter - Optional filter expression over lead fields
+ * @body fieldAllowlist - Optional lead fields to send (all fields when omitted)
+ * @body customHeaders - Optional extra request headers (e.g., Authorization)
+ * @body bodyTemplate - Optional JSON body template with {{path}} placeholders
  * @response 201 - Created webhook
  */
 adminWebhooksRoutes.post("/", requireCsrfHeader, async (c) => {
 	const body = await c.req.json().catch(() => ({}));
-	const { name, url, events, secret } = parseAndValidate(createWebhookSchema, body);
+	const { name, url, events, secret, filter, fieldAllowlist, customHeaders, bodyTemplate } =
+		parseAndValidate(createWebhookSchema, body);
 
 	const [created] = await db
 		.insert(webhooks)
@@ -231,6 +510,10 @@ adminWebhooksRoutes.post("/", requireCsrfHeader, async (c) => {
 			url,
 			events,
 			secret: secret || null,
+			filter: normalizeFilter(filter),
+			fieldAllowlist: normalizeFieldAllowlist(fieldAllowlist),
+			customHeaders: customHeaders && Object.keys(customHeaders).length > 0 ? customHeaders : null,
+			bodyTemplate: bodyTemplate?.trim() ? bodyTemplate : null,
 			enabled: true,
 			failureCount: 0,
 		})
@@ -242,6 +525,10 @@ adminWebhooksRoutes.post("/", requireCsrfHeader, async (c) => {
 			name: created.name,
 			url: created.url,
 			events: created.events,
+			filter: created.filter,
+			fieldAllowlist: created.fieldAllowlist,
+			customHeaders: maskCustomHeaders(created.customHeaders),
+			bodyTemplate: created.bodyTemplate,
 			enabled: created.enabled,
 			lastTriggeredAt: null,
 			lastStatusCode: null,
@@ -264,6 +551,10 @@ adminWebhooksRoutes.post("/", requireCsrfHeader, async (c) => {
  * @body events - New events array (optional)
  * @body secret - New secret (optional, pass null to remove)
  * @body enabled - Enable/disable webhook (optional)
+ * @body filter - New filter expression (optional, pass null to remove)
+ * @body fieldAllowlist - New lead field allow-list (optional, pass null to send all fields)
+ * @body customHeaders - Headers to set, or null values to remove (optional, pass null to remove all)
+ * @body bodyTemplate - New body template (optional, pass null to send the standard payload)
  * @response 200 - Updated webhook
  * @response 404 - Webhook not found
  */
@@ -279,10 +570,14 @@ adminWebhooksRoutes.patch("/:id", requireCsrfHeader, async (c) => {
 		data.url === undefined &&
 		data.events === undefined &&
 		data.secret === undefined &&
-		data.enabled === undefined
+		data.enabled === undefined &&
+		data.filter === undefined &&
+		data.fieldAllowlist === undefined &&
+		data.customHeaders === undefined &&
+		data.bodyTemplate === undefined
 	) {
 		throw new BadRequestError(
-			"At least one field (name, url, events, secret, or enabled) is required",
+			"At least one field (name, url, events, secret, enabled, filter, fieldAllowlist, customHeaders, or bodyTemplate) is required",
 		);
 	}
 
@@ -301,7 +596,30 @@ adminWebhooksRoutes.patch("/:id", requireCsrfHeader, async (c) => {
 	if (data.name !== undefined) updateData.name = data.name;
 	if (data.url !== undefined) updateData.url = data.url;
 	if (data.events !== undefined) updateData.events = data.events;
-	if (data.secret !== undefined) updateData.secret = data.secret;
+	if (data.secret !== undefined) {
+		// Replacing the secret outright ends any rotation in progress
+		updateData.secret = data.secret;
+		updateData.previousSecret = null;
+		updateData.previousSecretExpiresAt = null;
+	}
+	if (data.filter !== undefined) updateData.filter = normalizeFilter(data.filter);
+	if (data.fieldAllowlist !== undefined) {
+		updateData.fieldAllowlist = normalizeFieldAllowlist(data.fieldAllowlist);
+	}
+	if (data.customHeaders !== undefined) {
+		const customHeaders =
+			data.customHeaders === null
+				? null
+				: mergeCustomHeaders(existing.customHeaders, data.customHeaders);
+		const error = customHeaders ? validateCustomHeaders(customHeaders) : null;
+		if (error) {
+			throw new ValidationError("Invalid request", { customHeaders: error });
+		}
+		updateData.customHeaders = customHeaders;
+	}
+	if (data.bodyTemplate !== undefined) {
+		updateData.bodyTemplate = data.bodyTemplate?.trim() ? data.bodyTemplate : null;
+	}
 	if (data.enabled !== undefined) {
 		updateData.enabled = data.enabled;
 		// Reset failure count when re-enabling
@@ -321,6 +639,10 @@ adminWebhooksRoutes.patch("/:id", requireCsrfHeader, async (c) => {
 		name: updated.name,
 		url: updated.url,
 		events: updated.events,
+		filter: updated.filter,
+		fieldAllowlist: updated.fieldAllowlist,
+		customHeaders: maskCustomHeaders(updated.customHeaders),
+		bodyTemplate: updated.bodyTemplate,
 		enabled: updated.enabled,
 		lastTriggeredAt: updated.lastTriggeredAt?.toISOString() || null,
 		lastStatusCode: updated.lastStatusCode,
@@ -358,11 +680,39 @@ adminWebhooksRoutes.delete("/:id", requireCsrfHeader, async (c) => {
 	});
 });
 
+/**
+ * POST /api/admin/webhooks/preview
+ *
+ * Render a body template against a sample lead without sending anything.
+ * Used by the admin UI for a live preview while editing a webhook.
+ *
+ * @body bodyTemplate - Template to render (optional, standard payload when empty)
+ * @body fieldAllowlist - Lead fields to include (optional)
+ * @response 200 - The sample payload and the rendered body
+ * @response 400 - Invalid template
+ */
+adminWebhooksRoutes.post("/preview", requireCsrfHeader, async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const { bodyTemplate, fieldAllowlist } = parseAndValidate(previewSchema, body);
+
+	const payload = applyFieldAllowlist(createSampleLeadPayload(), fieldAllowlist);
+	const rendered = bodyTemplate?.trim()
+		? renderWebhookTemplate(bodyTemplate, payload)
+		: JSON.stringify(payload);
+
+	return c.json({
+		payload,
+		body: JSON.parse(rendered),
+	});
+});
+
 /**
  * POST /api/admin/webhooks/:id/test
  *
  * Send a test webhook to verify the endpoint is working.
- * Uses mock lead data to simulate a real webhook delivery.
+ * Uses mock lead data to simulate a real webhook delivery, reduced to the
+ * webhook's field allow-list and rendered with its body template and custom
+ * headers. The filter is not applied.
  *
  * @param id - The webhook ID (UUID)
  * @response 200 - Test result with status code and response
@@ -378,58 +728,26 @@ adminWebhooksRoutes.post("/:id/test", requireCsrfHeader, async (c) => {
 		throw new NotFoundError("Webhook");
 	}
 
-	// Create test payload with mock lead data
-	const testDeliveryId = crypto.randomUUID();
-	const timestamp = new Date().toISOString();
-	const testPayload = {
-		id: testDeliveryId,
-		event: "lead.created" as const,
-		timestamp,
-		data: {
-			lead: {
-				id: "test-lead-00000000-0000-0000-0000-000000000000",
-				name: "Test Lead",
-				email: "test@example.com",
-				company: "Test Company Inc",
-				phone: "+1-555-0123",
-				budget: "$10,000 - $50,000",
-				projectType: "Test Project",
-				message: "This is a test webhook delivery to verify your endpoint.",
-				source: "Test",
-				status: "new",
-				createdAt: timestamp,
-			},
-		},
-	};
-
-	const payloadString = JSON.stringify(testPayload);
+	// Create test payload with mock lead data, shaped and signed like a real delivery
+	const deliveredPayload = applyFieldAllowlist(createSampleLeadPayload(), webhook.fieldAllowlist);
 
-	// Build headers
-	const headers: Record<string, string> = {
-		"Content-Type": "application/json",
-		"User-Agent": "Octatech-Webhook/1.0",
-		"X-Webhook-ID": testDeliveryId,
-		"X-Webhook-Event": "lead.created",
-		"X-Webhook-Timestamp": String(Math.floor(Date.now() / 1000)),
-	};
-
-	// Add signature if secret is configured
-	if (webhook.secret) {
-		const encoder = new TextEncoder();
-		const key = await crypto.subtle.importKey(
-			"raw",
-			encoder.encode(webhook.secret),
-			{ name: "HMAC", hash: "SHA-256" },
-			false,
-			["sign"],
-		);
-		const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payloadString));
-		const signatureHex = Array.from(new Uint8Array(signature))
-			.map((b) => b.toString(16).padStart(2, "0"))
-			.join("");
-		headers["X-Webhook-Signature"] = `sha256=${signatureHex}`;
+	let payloadString: string;
+	try {
+		payloadString = buildWebhookRequestBody(webhook, deliveredPayload);
+	} catch (error) {
+		if (error instanceof WebhookTemplateError) {
+			throw new BadRequestError(`Invalid body template: ${error.message}`);
+		}
+		throw error;
 	}
 
+	const headers = buildWebhookRequestHeaders(
+		webhook,
+		deliveredPayload.id,
+		deliveredPayload.event,
+		payloadString,
+	);
+
 	// Send the test webhook
 	const startTime = Date.now();
 	let statusCode: number | null = null;
@@ -475,7 +793,7 @@ adminWebhooksRoutes.post("/:id/test", requireCsrfHeader, async (c) => {
 	await db.insert(webhookDeliveries).values({
 		webhookId: webhook.id,
 		event: "lead.created",
-		payload: testPayload,
+		payload: deliveredPayload,
 		statusCode,
 		responseBody,
 		durationMs: responseTime,
@@ -489,10 +807,71 @@ adminWebhooksRoutes.post("/:id/test", requireCsrfHeader, async (c) => {
 	});
 });
 
+/**
+ * POST /api/admin/webhooks/:id/rotate-secret
+ *
+ * Rotate the signing secret without downtime. The current secret keeps
+ * signing deliveries alongside the new one until the grace period ends.
+ * The new secret is returned once and never shown again.
+ *
+ * @param id - The webhook ID (UUID)
+ * @body secret - New secret (optional, generated if omitted)
+ * @body gracePeriodHours - How long the previous secret stays active (default: 24)
+ * @response 200 - New secret and previous secret expiry
+ * @response 404 - Webhook not found
+ */
+adminWebhooksRoutes.post("/:id/rotate-secret", requireCsrfHeader, async (c) => {
+	const id = c.req.param("id");
+
+	const body = await c.req.json().catch(() => ({}));
+	const { secret, gracePeriodHours } = parseAndValidate(rotateSecretSchema, body);
+
+	const graceMs =
+		gracePeriodHours !== undefined
+			? gracePeriodHours * 60 * 60 * 1000
+			: WEBHOOK_CONFIG.secretRotationGraceMs;
+
+	const rotated = await rotateWebhookSecret(id, secret, graceMs);
+
+	if (!rotated) {
+		throw new NotFoundError("Webhook");
+	}
+
+	return c.json({
+		secret: rotated.secret,
+		previousSecretExpiresAt: formatPreviousSecretExpiry(rotated),
+	});
+});
+
+/**
+ * DELETE /api/admin/webhooks/:id/previous-secret
+ *
+ * End a secret rotation early. Only the current secret signs from now on.
+ *
+ * @param id - The webhook ID (UUID)
+ * @response 200 - Previous secret revoked
+ * @response 404 - Webhook not found
+ */
+adminWebhooksRoutes.delete("/:id/previous-secret", requireCsrfHeader, async (c) => {
+	const id = c.req.param("id");
+
+	const updated = await revokePreviousWebhookSecret(id);
+
+	if (!updated) {
+		throw new NotFoundError("Webhook");
+	}
+
+	return c.json({
+		success: true,
+		message: "Previous secret revoked",
+	});
+});
+
 /**
  * GET /api/admin/webhooks/:id/deliveries
  *
- * Get paginated delivery history for a webhook.
+ * Get paginated delivery history for a webhook, plus any retries
+ * still waiting in the outbox.
  *
  * @param id - The webhook ID (UUID)
  * @query page - Page number (default: 1)
@@ -536,6 +915,9 @@ adminWebhooksRoutes.get("/:id/deliveries", async (c) => {
 		.limit(limit)
 		.offset(offset);
 
+	// Get retries queued for future delivery
+	const queued = await getQueuedRetries(id);
+
 	const totalPages = Math.ceil(totalCount / limit);
 
 	return c.json({
@@ -546,8 +928,22 @@ adminWebhooksRoutes.get("/:id/deliveries", async (c) => {
 			statusCode: delivery.statusCode,
 			responseBody: delivery.responseBody,
 			durationMs: delivery.durationMs,
+			success:
+				delivery.statusCode !== null && delivery.statusCode >= 200 && delivery.statusCode < 300,
+			skipped: Boolean(delivery.skipReason),
+			skipReason: delivery.skipReason ?? null,
+			attemptNumber: delivery.attemptNumber,
+			nextRetryAt: delivery.nextRetryAt?.toISOString() || null,
+			redeliveryOfId: delivery.redeliveryOfId ?? null,
 			attemptedAt: delivery.attemptedAt.toISOString(),
 		})),
+		queued: queued.map((entry) => ({
+			id: entry.id,
+			event: entry.event,
+			attemptNumber: entry.attemptNumber,
+			nextAttemptAt: entry.nextAttemptAt.toISOString(),
+			lastError: entry.lastError,
+		})),
 		pagination: {
 			page,
 			limit,
@@ -558,6 +954,70 @@ adminWebhooksRoutes.get("/:id/deliveries", async (c) => {
 	});
 });
 
+/**
+ * POST /api/admin/webhooks/:id/deliveries/:deliveryId/redeliver
+ *
+ * Redeliver a single logged delivery using its stored payload.
+ * The payload is re-signed with the webhook's current secret and the
+ * attempt is logged as a new delivery linked to the original.
+ *
+ * @param id - The webhook ID (UUID)
+ * @param deliveryId - The delivery ID (UUID)
+ * @response 200 - Redelivery result with status code and response
+ * @response 404 - Webhook or delivery not found
+ */
+adminWebhooksRoutes.post("/:id/deliveries/:deliveryId/redeliver", requireCsrfHeader, async (c) => {
+	const id = c.req.param("id");
+	const deliveryId = c.req.param("deliveryId");
+
+	const result = await redeliverWebhookDelivery(id, deliveryId);
+
+	if (!result) {
+		throw new NotFoundError("Delivery");
+	}
+
+	return c.json({
+		success: result.success,
+		deliveryId: result.deliveryId,
+		statusCode: result.statusCode,
+		responseTime: result.durationMs,
+		responseBody: result.responseBody,
+		error: result.error ?? null,
+	});
+});
+
+/**
+ * POST /api/admin/webhooks/:id/replay
+ *
+ * Replay every failed delivery in a time range.
+ * Each failed event is queued once in the retry outbox and delivered
+ * by the retry worker; events that later succeeded are skipped.
+ *
+ * @param id - The webhook ID (UUID)
+ * @body from - Start of the range (ISO 8601)
+ * @body to - End of the range (ISO 8601, default: now)
+ * @response 202 - Number of deliveries queued and skipped
+ * @response 400 - Webhook is disabled
+ * @response 404 - Webhook not found
+ */
+adminWebhooksRoutes.post("/:id/replay", requireCsrfHeader, async (c) => {
+	const id = c.req.param("id");
+
+	const body = await c.req.json().catch(() => ({}));
+	const { from, to } = parseAndValidate(replayDeliveriesSchema, body);
+
+	const result = await replayFailedDeliveries(id, {
+		from: new Date(from),
+		to: to ? new Date(to) : new Date(),
+	});
+
+	if (!result) {
+		throw new NotFoundError("Webhook");
+	}
+
+	return c.json(result, 202);
+});
+
 /**
  * GET /api/admin/webhooks/events/list
  *
@@ -573,6 +1033,13 @@ adminWebhooksRoutes.get("/events/list", async (c) => {
 		"lead.status_changed": "Triggered when a lead's status changes",
 		"lead.deleted": "Triggered when a lead is removed",
 		"lead.activity_added": "Triggered when an activity is added to a lead",
+		"contact.created": "Triggered when a new contact is added",
+		"contact.updated": "Triggered when contact information is changed",
+		"contact.status_changed": "Triggered when a contact's relationship status changes",
+		"contact.interaction_added": "Triggered when an interaction is logged for a contact",
+		"company.created": "Triggered when a new company is added",
+		"company.updated": "Triggered when company information is changed",
+		"company.deleted": "Triggered when a company is removed",
 	};
 
 	const events = webhookEventEnum.map((event) => ({
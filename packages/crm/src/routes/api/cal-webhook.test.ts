@@ -5,6 +5,7 @@
  * and activity tracking per specs/10-booking.md.
  */
 
+import { createHmac } from "node:crypto";
 import { Hono } from "hono";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
@@ -31,7 +32,48 @@ vi.mock("../../lib/webhooks", () => ({
 	triggerLeadCreated: vi.fn().mockResolvedValue(undefined),
 }));
 
+// Mock booking notification triggers
+vi.mock("../../lib/notifications", () => ({
+	triggerBookingCreatedNotification: vi.fn(),
+	triggerBookingRescheduledNotification: vi.fn(),
+	triggerBookingCancelledNotification: vi.fn(),
+}));
+
+// Mock booking storage and the secret lookup, keeping the real signature check
+vi.mock("../../lib/bookings", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../../lib/bookings")>()),
+	getCalWebhookSecret: vi.fn(),
+	findBookingByUid: vi.fn().mockResolvedValue(null),
+	saveBooking: vi.fn().mockResolvedValue({ id: "booking-1" }),
+	updateBooking: vi.fn().mockResolvedValue({ id: "booking-1" }),
+	getQualifyAfterMeeting: vi.fn().mockResolvedValue(false),
+}));
+
+// Mock lead updates and activities (they fire their own side effects)
+vi.mock("../../lib/leads", () => ({
+	addLeadActivity: vi.fn(() => Promise.resolve({ id: "activity-id-123" })),
+	updateLead: vi.fn((lead, input) => Promise.resolve({ ...lead, ...input })),
+}));
+
+// Mock lead scoring (reads settings and contact interactions)
+vi.mock("../../lib/lead-score", () => ({
+	withLeadScore: vi.fn((values) => Promise.resolve({ ...values, score: 0 })),
+}));
+
 import { db } from "../../db/connection";
+import {
+	findBookingByUid,
+	getCalWebhookSecret,
+	getQualifyAfterMeeting,
+	saveBooking,
+	updateBooking,
+} from "../../lib/bookings";
+import { addLeadActivity, updateLead } from "../../lib/leads";
+import {
+	triggerBookingCancelledNotification,
+	triggerBookingCreatedNotification,
+	triggerBookingRescheduledNotification,
+} from "../../lib/notifications";
 import { triggerLeadCreated } from "../../lib/webhooks";
 import { errorHandler } from "../../middleware/error-handler";
 // Import after mocking
@@ -44,6 +86,35 @@ const mockDb = db as unknown as {
 };
 
 const mockTriggerLeadCreated = triggerLeadCreated as ReturnType<typeof vi.fn>;
+const mockTriggerBookingCreated = triggerBookingCreatedNotification as ReturnType<typeof vi.fn>;
+const mockTriggerBookingRescheduled = triggerBookingRescheduledNotification as ReturnType<
+	typeof vi.fn
+>;
+const mockTriggerBookingCancelled = triggerBookingCancelledNotification as ReturnType<typeof vi.fn>;
+const mockFindBookingByUid = findBookingByUid as ReturnType<typeof vi.fn>;
+const mockSaveBooking = saveBooking as ReturnType<typeof vi.fn>;
+const mockUpdateBooking = updateBooking as ReturnType<typeof vi.fn>;
+const mockGetQualifyAfterMeeting = getQualifyAfterMeeting as ReturnType<typeof vi.fn>;
+const mockAddLeadActivity = addLeadActivity as ReturnType<typeof vi.fn>;
+const mockUpdateLead = updateLead as ReturnType<typeof vi.fn>;
+const mockGetCalWebhookSecret = getCalWebhookSecret as ReturnType<typeof vi.fn>;
+
+const CAL_SECRET = "cal-secret-0123456789";
+
+/**
+ * Helper to build a webhook request signed the way Cal.com signs it.
+ */
+function signedRequest(body: unknown, secret = CAL_SECRET): RequestInit {
+	const raw = typeof body === "string" ? body : JSON.stringify(body);
+	return {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			"X-Cal-Signature-256": createHmac("sha256", secret).update(raw).digest("hex"),
+		},
+		body: raw,
+	};
+}
 
 /**
  * Helper to create a valid Cal.com webhook payload.
@@ -74,6 +145,17 @@ function createValidCalWebhookPayload(
 	};
 }
 
+/**
+ * Helper to create a payload for an event, merging fields into the default booking.
+ */
+function createCalEventPayload(
+	triggerEvent: string,
+	fields: Record<string, unknown> = {},
+): Record<string, unknown> {
+	const base = createValidCalWebhookPayload({ triggerEvent });
+	return { ...base, payload: { ...(base.payload as Record<string, unknown>), ...fields } };
+}
+
 /**
  * Helper to setup database mocks for various scenarios.
  */
@@ -177,6 +259,7 @@ describe("Cal.com Webhook Routes", () => {
 
 	beforeEach(() => {
 		vi.clearAllMocks();
+		mockGetCalWebhookSecret.mockResolvedValue(CAL_SECRET);
 
 		// Create app with routes
 		app = new Hono();
@@ -194,14 +277,72 @@ describe("Cal.com Webhook Routes", () => {
 	});
 
 	describe("POST /api/webhooks/cal", () => {
-		describe("Validation Tests", () => {
-			it("should return 400 for empty request body", async () => {
+		describe("Signature Tests", () => {
+			let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+			beforeEach(() => {
+				consoleWarnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+			});
+
+			afterEach(() => {
+				consoleWarnSpy.mockRestore();
+			});
+
+			it("should return 404 until a secret is configured", async () => {
+				mockGetCalWebhookSecret.mockResolvedValue(null);
+
+				const res = await app.request(
+					"/api/webhooks/cal",
+					signedRequest(createValidCalWebhookPayload()),
+				);
+
+				expect(res.status).toBe(404);
+				expect(mockDb.insert).not.toHaveBeenCalled();
+			});
+
+			it("should reject unsigned requests and log the attempt", async () => {
 				const res = await app.request("/api/webhooks/cal", {
 					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify({}),
+					headers: { "Content-Type": "application/json", "X-Forwarded-For": "203.0.113.7" },
+					body: JSON.stringify(createValidCalWebhookPayload()),
 				});
 
+				expect(res.status).toBe(401);
+				const body = await res.json();
+				expect(body).toEqual({ success: false, error: "Invalid signature" });
+				expect(mockDb.select).not.toHaveBeenCalled();
+				expect(consoleWarnSpy).toHaveBeenCalledWith(
+					"[Cal.com Webhook] Rejected request from 203.0.113.7: missing signature",
+				);
+			});
+
+			it("should reject requests signed with another secret", async () => {
+				const res = await app.request(
+					"/api/webhooks/cal",
+					signedRequest(createValidCalWebhookPayload(), "some-other-secret-123"),
+				);
+
+				expect(res.status).toBe(401);
+				expect(mockDb.insert).not.toHaveBeenCalled();
+				expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining("invalid signature"));
+			});
+
+			it("should reject a body changed after signing", async () => {
+				const request = signedRequest(createValidCalWebhookPayload());
+				const tampered = JSON.stringify(
+					createValidCalWebhookPayload({ triggerEvent: "BOOKING_CANCELLED" }),
+				);
+
+				const res = await app.request("/api/webhooks/cal", { ...request, body: tampered });
+
+				expect(res.status).toBe(401);
+			});
+		});
+
+		describe("Validation Tests", () => {
+			it("should return 400 for empty request body", async () => {
+				const res = await app.request("/api/webhooks/cal", signedRequest({}));
+
 				expect(res.status).toBe(400);
 				const body = await res.json();
 				expect(body.success).toBe(false);
@@ -212,11 +353,7 @@ describe("Cal.com Webhook Routes", () => {
 				const payload = createValidCalWebhookPayload();
 				delete payload.triggerEvent;
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(400);
 				const body = await res.json();
@@ -226,11 +363,10 @@ describe("Cal.com Webhook Routes", () => {
 			});
 
 			it("should return 400 for missing payload", async () => {
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify({ triggerEvent: "BOOKING_CREATED" }),
-				});
+				const res = await app.request(
+					"/api/webhooks/cal",
+					signedRequest({ triggerEvent: "BOOKING_CREATED" }),
+				);
 
 				expect(res.status).toBe(400);
 				const body = await res.json();
@@ -248,11 +384,7 @@ describe("Cal.com Webhook Routes", () => {
 					},
 				});
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(400);
 				const body = await res.json();
@@ -270,11 +402,7 @@ describe("Cal.com Webhook Routes", () => {
 					},
 				});
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(400);
 				const body = await res.json();
@@ -297,11 +425,7 @@ describe("Cal.com Webhook Routes", () => {
 					},
 				});
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(400);
 				const body = await res.json();
@@ -324,11 +448,7 @@ describe("Cal.com Webhook Routes", () => {
 					},
 				});
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(400);
 				const body = await res.json();
@@ -338,16 +458,12 @@ describe("Cal.com Webhook Routes", () => {
 		});
 
 		describe("Event Handling Tests", () => {
-			it("should return 200 and ignore non-BOOKING_CREATED events", async () => {
+			it("should return 200 and ignore unhandled events", async () => {
 				const payload = createValidCalWebhookPayload({
-					triggerEvent: "BOOKING_CANCELLED",
+					triggerEvent: "BOOKING_REQUESTED",
 				});
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(200);
 				const body = await res.json();
@@ -364,11 +480,7 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(201);
 				const body = await res.json();
@@ -383,11 +495,7 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(201);
 				const body = await res.json();
@@ -406,11 +514,7 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(leadValues).toHaveBeenCalledTimes(1);
 				const insertArgs = leadValues.mock.calls[0][0];
@@ -434,11 +538,7 @@ describe("Cal.com Webhook Routes", () => {
 					},
 				});
 
-				await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(leadValues).toHaveBeenCalledTimes(1);
 				const insertArgs = leadValues.mock.calls[0][0];
@@ -450,11 +550,7 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(leadValues).toHaveBeenCalledTimes(1);
 				const insertArgs = leadValues.mock.calls[0][0];
@@ -466,11 +562,7 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(leadValues).toHaveBeenCalledTimes(1);
 				const insertArgs = leadValues.mock.calls[0][0];
@@ -482,11 +574,7 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(leadValues).toHaveBeenCalledTimes(1);
 				const insertArgs = leadValues.mock.calls[0][0];
@@ -501,11 +589,7 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(activityValues).toHaveBeenCalledTimes(1);
 				const activityArgs = activityValues.mock.calls[0][0];
@@ -519,11 +603,7 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(201);
 				const body = await res.json();
@@ -537,14 +617,30 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(mockTriggerLeadCreated).toHaveBeenCalledTimes(1);
 			});
+
+			it("should notify booking.created channels for new leads", async () => {
+				setupDbMock({ existingLead: null });
+
+				const payload = createValidCalWebhookPayload();
+
+				await app.request("/api/webhooks/cal", signedRequest(payload));
+
+				expect(mockTriggerBookingCreated).toHaveBeenCalledWith(
+					expect.objectContaining({ id: "new-lead-id-123" }),
+					{
+						title: "Discovery Call",
+						startTime: new Date("2025-01-20T10:00:00Z"),
+						endTime: new Date("2025-01-20T10:30:00Z"),
+						attendeeName: "John Doe",
+						attendeeEmail: "john@acme.com",
+					},
+					true,
+				);
+			});
 		});
 
 		describe("Existing Lead Tests", () => {
@@ -554,15 +650,11 @@ describe("Cal.com Webhook Routes", () => {
 					email: "john@acme.com",
 					name: "John Doe",
 				};
-				const { activityValues, leadValues } = setupDbMock({ existingLead });
+				const { leadValues } = setupDbMock({ existingLead });
 
 				const payload = createValidCalWebhookPayload();
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(200);
 				const body = await res.json();
@@ -570,10 +662,9 @@ describe("Cal.com Webhook Routes", () => {
 				expect(body.message).toBe("Activity added to existing lead");
 				expect(body.leadId).toBe("existing-lead-id-789");
 
-				// Verify activity was created for existing lead
-				expect(activityValues).toHaveBeenCalledTimes(1);
-				const activityArgs = activityValues.mock.calls[0][0];
-				expect(activityArgs.leadId).toBe("existing-lead-id-789");
+				// Verify activity was added to the existing lead
+				expect(mockAddLeadActivity).toHaveBeenCalledTimes(1);
+				expect(mockAddLeadActivity.mock.calls[0][0]).toBe(existingLead);
 
 				// leadValues should not be called for existing lead (lead insert doesn't happen)
 				expect(leadValues).not.toHaveBeenCalled();
@@ -589,11 +680,7 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(200);
 				const body = await res.json();
@@ -606,18 +693,14 @@ describe("Cal.com Webhook Routes", () => {
 					email: "john@acme.com",
 					name: "John Doe",
 				};
-				const { activityValues } = setupDbMock({ existingLead });
+				setupDbMock({ existingLead });
 
 				const payload = createValidCalWebhookPayload();
 
-				await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				await app.request("/api/webhooks/cal", signedRequest(payload));
 
-				expect(activityValues).toHaveBeenCalledTimes(1);
-				const activityArgs = activityValues.mock.calls[0][0];
+				expect(mockAddLeadActivity).toHaveBeenCalledTimes(1);
+				const activityArgs = mockAddLeadActivity.mock.calls[0][1];
 				expect(activityArgs.type).toBe("meeting");
 				expect(activityArgs.description).toContain("Cal.com booking created");
 			});
@@ -632,14 +715,29 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(mockTriggerLeadCreated).not.toHaveBeenCalled();
 			});
+
+			it("should notify booking.created channels for existing leads", async () => {
+				const existingLead = {
+					id: "existing-lead-booking",
+					email: "john@acme.com",
+					name: "John Doe",
+				};
+				setupDbMock({ existingLead });
+
+				const payload = createValidCalWebhookPayload();
+
+				await app.request("/api/webhooks/cal", signedRequest(payload));
+
+				expect(mockTriggerBookingCreated).toHaveBeenCalledWith(
+					existingLead,
+					expect.objectContaining({ title: "Discovery Call" }),
+					false,
+				);
+			});
 		});
 
 		describe("Error Handling Tests", () => {
@@ -648,11 +746,7 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(500);
 				const body = await res.json();
@@ -665,11 +759,7 @@ describe("Cal.com Webhook Routes", () => {
 
 				const payload = createValidCalWebhookPayload();
 
-				await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(consoleErrorSpy).toHaveBeenCalledWith(
 					expect.stringContaining("[Cal.com Webhook]"),
@@ -678,11 +768,7 @@ describe("Cal.com Webhook Routes", () => {
 			});
 
 			it("should handle invalid JSON gracefully", async () => {
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: "not valid json",
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest("not valid json"));
 
 				expect(res.status).toBe(400);
 				const body = await res.json();
@@ -707,11 +793,7 @@ describe("Cal.com Webhook Routes", () => {
 					},
 				});
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(201);
 
@@ -736,11 +818,7 @@ describe("Cal.com Webhook Routes", () => {
 					},
 				});
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(201);
 
@@ -765,11 +843,7 @@ describe("Cal.com Webhook Routes", () => {
 					},
 				});
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(201);
 
@@ -798,11 +872,7 @@ describe("Cal.com Webhook Routes", () => {
 					},
 				});
 
-				const res = await app.request("/api/webhooks/cal", {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(payload),
-				});
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 				expect(res.status).toBe(201);
 
@@ -814,10 +884,10 @@ describe("Cal.com Webhook Routes", () => {
 
 			it("should handle various BOOKING_* event types gracefully", async () => {
 				const ignoredEvents = [
-					"BOOKING_CANCELLED",
-					"BOOKING_RESCHEDULED",
+					"BOOKING_REQUESTED",
+					"BOOKING_REJECTED",
 					"BOOKING_CONFIRMED",
-					"MEETING_ENDED",
+					"MEETING_STARTED",
 				];
 
 				for (const eventType of ignoredEvents) {
@@ -827,11 +897,7 @@ describe("Cal.com Webhook Routes", () => {
 						triggerEvent: eventType,
 					});
 
-					const res = await app.request("/api/webhooks/cal", {
-						method: "POST",
-						headers: { "Content-Type": "application/json" },
-						body: JSON.stringify(payload),
-					});
+					const res = await app.request("/api/webhooks/cal", signedRequest(payload));
 
 					expect(res.status).toBe(200);
 					const body = await res.json();
@@ -839,5 +905,212 @@ describe("Cal.com Webhook Routes", () => {
 				}
 			});
 		});
+
+		describe("Booking Record Tests", () => {
+			it("should store the booking against the lead when Cal.com sends a uid", async () => {
+				setupDbMock({
+					existingLead: { id: "lead-with-booking", email: "john@acme.com", name: "John Doe" },
+				});
+
+				const payload = createCalEventPayload("BOOKING_CREATED", { uid: "bk_123" });
+
+				await app.request("/api/webhooks/cal", signedRequest(payload));
+
+				expect(mockSaveBooking).toHaveBeenCalledWith(
+					expect.objectContaining({
+						calUid: "bk_123",
+						leadId: "lead-with-booking",
+						title: "Discovery Call",
+						startTime: new Date("2025-01-20T10:00:00Z"),
+						attendeeTimeZone: "America/New_York",
+						status: "scheduled",
+					}),
+				);
+			});
+
+			it("should not store bookings without a uid", async () => {
+				setupDbMock({ existingLead: null });
+
+				await app.request("/api/webhooks/cal", signedRequest(createValidCalWebhookPayload()));
+
+				expect(mockSaveBooking).not.toHaveBeenCalled();
+			});
+		});
+
+		describe("Booking Change Tests", () => {
+			const existingLead = {
+				id: "lead-booked",
+				email: "john@acme.com",
+				name: "John Doe",
+				status: "contacted",
+			};
+			const storedBooking = {
+				id: "booking-1",
+				calUid: "bk_old",
+				leadId: "lead-booked",
+				startTime: new Date("2025-01-20T10:00:00Z"),
+				endTime: new Date("2025-01-20T10:30:00Z"),
+				rescheduleCount: 0,
+			};
+
+			beforeEach(() => {
+				mockFindBookingByUid.mockResolvedValue(null);
+				mockGetQualifyAfterMeeting.mockResolvedValue(false);
+			});
+
+			it("should move a rescheduled booking and note the old and new times", async () => {
+				setupDbMock({ existingLead });
+				mockFindBookingByUid.mockResolvedValue(storedBooking);
+
+				const payload = createCalEventPayload("BOOKING_RESCHEDULED", {
+					uid: "bk_new",
+					rescheduleUid: "bk_old",
+					startTime: "2025-01-22T15:00:00Z",
+					endTime: "2025-01-22T15:30:00Z",
+				});
+
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
+
+				expect(res.status).toBe(200);
+				const body = await res.json();
+				expect(body).toEqual({
+					success: true,
+					message: "Booking rescheduled",
+					leadId: "lead-booked",
+				});
+
+				expect(mockFindBookingByUid).toHaveBeenCalledWith("bk_old");
+				expect(mockUpdateBooking).toHaveBeenCalledWith(
+					"booking-1",
+					expect.objectContaining({
+						calUid: "bk_new",
+						startTime: new Date("2025-01-22T15:00:00Z"),
+						rescheduleCount: 1,
+						status: "scheduled",
+					}),
+				);
+
+				expect(mockAddLeadActivity.mock.calls[0][0]).toBe(existingLead);
+				const activityArgs = mockAddLeadActivity.mock.calls[0][1];
+				expect(activityArgs.type).toBe("meeting");
+				expect(activityArgs.description).toContain("Cal.com booking rescheduled");
+				expect(activityArgs.description).toContain("from Jan 20, 2025");
+				expect(activityArgs.description).toContain("to Jan 22, 2025");
+
+				expect(mockTriggerBookingRescheduled).toHaveBeenCalledWith(
+					existingLead,
+					expect.objectContaining({ startTime: new Date("2025-01-22T15:00:00Z") }),
+					storedBooking.startTime,
+				);
+			});
+
+			it("should record a reschedule with no matching lead on the booking only", async () => {
+				setupDbMock({ existingLead: null });
+
+				const payload = createCalEventPayload("BOOKING_RESCHEDULED", {
+					uid: "bk_new",
+					rescheduleUid: "bk_unknown",
+					rescheduleStartTime: "2025-01-20T10:00:00Z",
+				});
+
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
+
+				expect(res.status).toBe(200);
+				const body = await res.json();
+				expect(body.message).toBe("No matching lead");
+				expect(mockSaveBooking).toHaveBeenCalledWith(
+					expect.objectContaining({ calUid: "bk_new", leadId: null }),
+				);
+				expect(mockAddLeadActivity).not.toHaveBeenCalled();
+				expect(mockTriggerBookingRescheduled).not.toHaveBeenCalled();
+			});
+
+			it("should cancel the booking and notify with the reason", async () => {
+				setupDbMock({ existingLead });
+				mockFindBookingByUid.mockResolvedValue(storedBooking);
+
+				const payload = createCalEventPayload("BOOKING_CANCELLED", {
+					uid: "bk_old",
+					cancellationReason: " Went with another agency ",
+				});
+
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
+
+				expect(res.status).toBe(200);
+				const body = await res.json();
+				expect(body.message).toBe("Booking cancelled");
+
+				expect(mockSaveBooking).toHaveBeenCalledWith(
+					expect.objectContaining({
+						calUid: "bk_old",
+						leadId: "lead-booked",
+						status: "cancelled",
+						cancellationReason: "Went with another agency",
+					}),
+				);
+				expect(mockAddLeadActivity).toHaveBeenCalledWith(existingLead, {
+					type: "meeting",
+					description: expect.stringContaining("(reason: Went with another agency)"),
+				});
+				expect(mockTriggerBookingCancelled).toHaveBeenCalledWith(
+					existingLead,
+					expect.objectContaining({ title: "Discovery Call" }),
+					"Went with another agency",
+				);
+			});
+
+			it("should mark the meeting completed without changing the lead by default", async () => {
+				setupDbMock({ existingLead });
+
+				const payload = createCalEventPayload("MEETING_ENDED", { uid: "bk_old" });
+
+				const res = await app.request("/api/webhooks/cal", signedRequest(payload));
+
+				expect(res.status).toBe(200);
+				const body = await res.json();
+				expect(body).toEqual({
+					success: true,
+					message: "Meeting completed",
+					leadId: "lead-booked",
+					qualified: false,
+				});
+				expect(mockSaveBooking).toHaveBeenCalledWith(
+					expect.objectContaining({ calUid: "bk_old", status: "completed" }),
+				);
+				expect(mockAddLeadActivity).toHaveBeenCalledWith(existingLead, {
+					type: "meeting",
+					description: expect.stringContaining("Meeting completed"),
+				});
+				expect(mockUpdateLead).not.toHaveBeenCalled();
+			});
+
+			it("should qualify a contacted lead when qualify_after_meeting is on", async () => {
+				setupDbMock({ existingLead });
+				mockGetQualifyAfterMeeting.mockResolvedValue(true);
+
+				const res = await app.request(
+					"/api/webhooks/cal",
+					signedRequest(createCalEventPayload("MEETING_ENDED")),
+				);
+
+				const body = await res.json();
+				expect(body.qualified).toBe(true);
+				expect(mockUpdateLead).toHaveBeenCalledWith(existingLead, { status: "qualified" });
+			});
+
+			it("should not move leads past qualified back to qualified", async () => {
+				setupDbMock({ existingLead: { ...existingLead, status: "proposal" } });
+				mockGetQualifyAfterMeeting.mockResolvedValue(true);
+
+				const res = await app.request(
+					"/api/webhooks/cal",
+					signedRequest(createCalEventPayload("MEETING_ENDED")),
+				);
+
+				const body = await res.json();
+				expect(body.qualified).toBe(false);
+				expect(mockUpdateLead).not.toHaveBeenCalled();
+			});
+		});
 	});
 });
@@ -1,23 +1,53 @@
 /**
  * Cal.com Webhook Handler Endpoint.
  *
- * Receives webhook payloads from Cal.com when bookings are created.
- * Automatically creates leads in the CRM or adds activity notes for existing leads.
+ * Receives webhook payloads from Cal.com as bookings are created, moved,
+ * cancelled and held. Automatically creates leads in the CRM or adds activity
+ * notes for existing leads.
  *
  * Per specs/10-booking.md, this endpoint:
  * - Receives BOOKING_CREATED webhook events from Cal.com
  * - Checks if a lead with the attendee's email already exists
  * - Creates a new lead with source "Cal.com Booking" if no lead exists
  * - Adds a meeting activity note if the lead already exists
+ * - Notifies channels subscribed to booking.created
  *
- * This endpoint does NOT require authentication - Cal.com calls it directly.
+ * It also handles BOOKING_RESCHEDULED, BOOKING_CANCELLED and MEETING_ENDED,
+ * adding a meeting activity to the booking's lead and keeping the stored
+ * booking record (lib/bookings.ts) in step. Reschedules and cancellations
+ * notify booking.rescheduled / booking.cancelled channels, and a finished
+ * meeting can advance the lead to "qualified" (qualify_after_meeting setting).
+ * Stored bookings are listed at GET /api/admin/bookings.
+ *
+ * This endpoint does NOT use session or API key authentication - Cal.com
+ * calls it directly. Instead every payload must be signed with the
+ * cal_webhook_secret setting (X-Cal-Signature-256); the endpoint is disabled
+ * (404) until the secret is set, and rejected requests are logged.
  */
 
 import { eq } from "drizzle-orm";
-import { Hono } from "hono";
+import { type Context, Hono } from "hono";
 import { z } from "zod";
 import { db } from "../../db/connection.js";
-import { leadActivities, leads } from "../../db/schema.js";
+import { type Booking, type Lead, leadActivities, leads } from "../../db/schema.js";
+import {
+	CAL_SIGNATURE_HEADER,
+	findBookingByUid,
+	getCalWebhookSecret,
+	getQualifyAfterMeeting,
+	QUALIFY_AFTER_MEETING_STATUSES,
+	saveBooking,
+	updateBooking,
+	verifyCalSignature,
+} from "../../lib/bookings.js";
+import { withLeadScore } from "../../lib/lead-score.js";
+import { addLeadActivity, updateLead } from "../../lib/leads.js";
+import {
+	type NotificationBookingData,
+	triggerBookingCancelledNotification,
+	triggerBookingCreatedNotification,
+	triggerBookingRescheduledNotification,
+} from "../../lib/notifications/index.js";
 import { formatZodErrors } from "../../lib/validation.js";
 import { triggerLeadCreated } from "../../lib/webhooks.js";
 
@@ -49,11 +79,18 @@ const calResponsesSchema = z
  * Schema for Cal.com booking payload.
  */
 const calBookingPayloadSchema = z.object({
+	/** Cal.com booking uid (a reschedule gets a new uid) */
+	uid: z.string().optional(),
 	title: z.string().optional(),
 	startTime: z.string().optional(),
 	endTime: z.string().optional(),
 	attendees: z.array(calAttendeeSchema).min(1, "At least one attendee is required"),
 	responses: calResponsesSchema,
+	/** BOOKING_RESCHEDULED: uid and start time of the booking being replaced */
+	rescheduleUid: z.string().nullish(),
+	rescheduleStartTime: z.string().nullish(),
+	/** BOOKING_CANCELLED: reason given by whoever cancelled */
+	cancellationReason: z.string().nullish(),
 });
 
 /**
@@ -67,6 +104,312 @@ const calWebhookSchema = z.object({
 
 export type CalWebhookPayload = z.infer<typeof calWebhookSchema>;
 
+type CalBookingPayload = CalWebhookPayload["payload"];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Format a Cal.com timestamp for activity descriptions.
+ */
+function formatBookingTime(value: string | Date | null | undefined): string {
+	return value
+		? new Date(value).toLocaleString("en-US", {
+				dateStyle: "medium",
+				timeStyle: "short",
+			})
+		: "Unknown time";
+}
+
+/**
+ * Booking details for notifications, taken from the first attendee.
+ */
+function toNotificationBooking(payload: CalBookingPayload): NotificationBookingData {
+	const attendee = payload.attendees[0];
+	return {
+		title: payload.title || "Cal.com Booking",
+		startTime: payload.startTime ? new Date(payload.startTime) : null,
+		endTime: payload.endTime ? new Date(payload.endTime) : null,
+		attendeeName: attendee.name,
+		attendeeEmail: attendee.email,
+	};
+}
+
+/**
+ * Find the lead a booking belongs to: the stored booking's lead, falling
+ * back to the lead with the attendee's email.
+ */
+async function findBookingLead(booking: Booking | null, email: string): Promise<Lead | null> {
+	if (booking?.leadId) {
+		const [lead] = await db.select().from(leads).where(eq(leads.id, booking.leadId)).limit(1);
+		if (lead) return lead;
+	}
+
+	const [lead] = await db.select().from(leads).where(eq(leads.email, email)).limit(1);
+	return lead ?? null;
+}
+
+/**
+ * Get the client IP for logging rejected requests.
+ */
+function getClientIp(c: Context): string {
+	return (
+		c.req.header("CF-Connecting-IP") ||
+		c.req.header("X-Real-IP") ||
+		c.req.header("X-Forwarded-For")?.split(",")[0].trim() ||
+		"unknown"
+	);
+}
+
+/**
+ * Response for booking changes with no lead to record them on.
+ */
+function noMatchingLead(c: Context, event: string, email: string) {
+	console.log(`[Cal.com Webhook] No lead for ${email}, ${event} recorded on booking only`);
+	return c.json({ success: true, message: "No matching lead" });
+}
+
+// ============================================================================
+// EVENT HANDLERS
+// ============================================================================
+
+/**
+ * BOOKING_CREATED: add a meeting activity to the attendee's lead, or create
+ * the lead.
+ */
+async function handleBookingCreated(c: Context, payload: CalBookingPayload) {
+	const attendee = payload.attendees[0];
+	const booking = toNotificationBooking(payload);
+	const bookingTitle = booking.title;
+	const bookingTime = formatBookingTime(payload.startTime);
+	const record = {
+		title: bookingTitle,
+		startTime: booking.startTime,
+		endTime: booking.endTime,
+		attendeeName: attendee.name,
+		attendeeEmail: attendee.email,
+		attendeeTimeZone: attendee.timeZone ?? null,
+		status: "scheduled",
+	};
+
+	// Check if lead with this email already exists
+	const [existingLead] = await db
+		.select()
+		.from(leads)
+		.where(eq(leads.email, attendee.email))
+		.limit(1);
+
+	if (existingLead) {
+		// Lead exists - add activity noting the booking
+		console.log(`[Cal.com Webhook] Lead exists for ${attendee.email}, adding booking activity`);
+
+		await addLeadActivity(existingLead, {
+			type: "meeting",
+			description: `Cal.com booking created: "${bookingTitle}" scheduled for ${bookingTime}`,
+		});
+
+		if (payload.uid) {
+			await saveBooking({ ...record, calUid: payload.uid, leadId: existingLead.id });
+		}
+
+		triggerBookingCreatedNotification(existingLead, booking, false);
+
+		return c.json({
+			success: true,
+			message: "Activity added to existing lead",
+			leadId: existingLead.id,
+		});
+	}
+
+	// No existing lead - create a new one
+	console.log(`[Cal.com Webhook] Creating new lead for ${attendee.email}`);
+
+	// Build message from available information
+	const messageParts: string[] = [];
+	if (payload.responses?.projectDescription) {
+		messageParts.push(payload.responses.projectDescription);
+	}
+	messageParts.push(`Booked via Cal.com: "${bookingTitle}" at ${bookingTime}`);
+
+	const [newLead] = await db
+		.insert(leads)
+		.values(
+			await withLeadScore({
+				name: attendee.name,
+				email: attendee.email,
+				company: payload.responses?.company || null,
+				phone: null,
+				budget: null,
+				projectType: null,
+				message: messageParts.join("\n\n"),
+				source: "Cal.com Booking",
+				status: "new",
+			}),
+		)
+		.returning();
+
+	// Create initial activity
+	await db.insert(leadActivities).values({
+		leadId: newLead.id,
+		type: "meeting",
+		description: `Lead created from Cal.com booking: "${bookingTitle}" scheduled for ${bookingTime}`,
+	});
+
+	if (payload.uid) {
+		await saveBooking({ ...record, calUid: payload.uid, leadId: newLead.id });
+	}
+
+	// Trigger webhooks (fire-and-forget, don't await)
+	triggerLeadCreated(newLead).catch((err) => {
+		console.error("[Cal.com Webhook] Failed to trigger lead.created webhook:", err);
+	});
+
+	// Notify subscribed channels (fire-and-forget)
+	triggerBookingCreatedNotification(newLead, booking, true);
+
+	console.log(`[Cal.com Webhook] Created new lead ${newLead.id} for ${attendee.email}`);
+
+	return c.json(
+		{
+			success: true,
+			message: "Lead created",
+			leadId: newLead.id,
+		},
+		201,
+	);
+}
+
+/**
+ * BOOKING_RESCHEDULED: move the stored booking (Cal.com issues a new uid)
+ * and note the old and new times on the lead.
+ */
+async function handleBookingRescheduled(c: Context, payload: CalBookingPayload) {
+	const booking = toNotificationBooking(payload);
+	const previous = payload.rescheduleUid ? await findBookingByUid(payload.rescheduleUid) : null;
+	const previousStartTime =
+		previous?.startTime ??
+		(payload.rescheduleStartTime ? new Date(payload.rescheduleStartTime) : null);
+	const lead = await findBookingLead(previous, booking.attendeeEmail);
+
+	const record = {
+		title: booking.title,
+		startTime: booking.startTime,
+		endTime: booking.endTime,
+		attendeeName: booking.attendeeName,
+		attendeeEmail: booking.attendeeEmail,
+		attendeeTimeZone: payload.attendees[0].timeZone ?? previous?.attendeeTimeZone ?? null,
+		status: "scheduled",
+		cancellationReason: null,
+	};
+	if (previous) {
+		await updateBooking(previous.id, {
+			...record,
+			calUid: payload.uid ?? previous.calUid,
+			leadId: previous.leadId ?? lead?.id ?? null,
+			rescheduleCount: previous.rescheduleCount + 1,
+		});
+	} else if (payload.uid) {
+		await saveBooking({ ...record, calUid: payload.uid, leadId: lead?.id ?? null });
+	}
+
+	if (!lead) {
+		return noMatchingLead(c, "reschedule", booking.attendeeEmail);
+	}
+
+	await addLeadActivity(lead, {
+		type: "meeting",
+		description: `Cal.com booking rescheduled: "${booking.title}" moved from ${formatBookingTime(previousStartTime)} to ${formatBookingTime(booking.startTime)}`,
+	});
+
+	triggerBookingRescheduledNotification(lead, booking, previousStartTime);
+
+	return c.json({ success: true, message: "Booking rescheduled", leadId: lead.id });
+}
+
+/**
+ * BOOKING_CANCELLED: mark the stored booking cancelled and note it, with the
+ * reason, on the lead.
+ */
+async function handleBookingCancelled(c: Context, payload: CalBookingPayload) {
+	const booking = toNotificationBooking(payload);
+	const stored = payload.uid ? await findBookingByUid(payload.uid) : null;
+	const lead = await findBookingLead(stored, booking.attendeeEmail);
+	const reason = payload.cancellationReason?.trim() || null;
+
+	if (payload.uid) {
+		await saveBooking({
+			calUid: payload.uid,
+			leadId: stored?.leadId ?? lead?.id ?? null,
+			title: booking.title,
+			startTime: booking.startTime ?? stored?.startTime ?? null,
+			endTime: booking.endTime ?? stored?.endTime ?? null,
+			attendeeName: booking.attendeeName,
+			attendeeEmail: booking.attendeeEmail,
+			attendeeTimeZone: payload.attendees[0].timeZone ?? stored?.attendeeTimeZone ?? null,
+			status: "cancelled",
+			cancellationReason: reason,
+		});
+	}
+
+	if (!lead) {
+		return noMatchingLead(c, "cancellation", booking.attendeeEmail);
+	}
+
+	const scheduledFor = formatBookingTime(booking.startTime ?? stored?.startTime);
+	await addLeadActivity(lead, {
+		type: "meeting",
+		description: `Cal.com booking cancelled: "${booking.title}" scheduled for ${scheduledFor}${reason ? ` (reason: ${reason})` : ""}`,
+	});
+
+	triggerBookingCancelledNotification(lead, booking, reason);
+
+	return c.json({ success: true, message: "Booking cancelled", leadId: lead.id });
+}
+
+/**
+ * MEETING_ENDED: mark the stored booking completed, note it on the lead and,
+ * when qualify_after_meeting is on, advance a new or contacted lead to
+ * "qualified".
+ */
+async function handleMeetingEnded(c: Context, payload: CalBookingPayload) {
+	const booking = toNotificationBooking(payload);
+	const stored = payload.uid ? await findBookingByUid(payload.uid) : null;
+	const lead = await findBookingLead(stored, booking.attendeeEmail);
+
+	if (payload.uid) {
+		await saveBooking({
+			calUid: payload.uid,
+			leadId: stored?.leadId ?? lead?.id ?? null,
+			title: booking.title,
+			startTime: booking.startTime ?? stored?.startTime ?? null,
+			endTime: booking.endTime ?? stored?.endTime ?? null,
+			attendeeName: booking.attendeeName,
+			attendeeEmail: booking.attendeeEmail,
+			attendeeTimeZone: payload.attendees[0].timeZone ?? stored?.attendeeTimeZone ?? null,
+			status: "completed",
+		});
+	}
+
+	if (!lead) {
+		return noMatchingLead(c, "meeting end", booking.attendeeEmail);
+	}
+
+	await addLeadActivity(lead, {
+		type: "meeting",
+		description: `Meeting completed: "${booking.title}" (${formatBookingTime(booking.startTime ?? stored?.startTime)})`,
+	});
+
+	const qualifies = (QUALIFY_AFTER_MEETING_STATUSES as readonly string[]).includes(lead.status);
+	let qualified = false;
+	if (qualifies && (await getQualifyAfterMeeting())) {
+		await updateLead(lead, { status: "qualified" });
+		qualified = true;
+	}
+
+	return c.json({ success: true, message: "Meeting completed", leadId: lead.id, qualified });
+}
+
 // ============================================================================
 // ROUTE HANDLER
 // ============================================================================
@@ -80,19 +423,28 @@ export const calWebhookRoutes = new Hono();
  * POST /api/webhooks/cal
  *
  * Handle Cal.com webhook events.
- * Currently supports BOOKING_CREATED events.
+ * Supports BOOKING_CREATED, BOOKING_RESCHEDULED, BOOKING_CANCELLED and
+ * MEETING_ENDED events; others are acknowledged and ignored.
  *
  * When a booking is created:
  * - If no lead exists with the attendee's email: Creates a new lead
  * - If a lead already exists: Adds a meeting activity noting the booking
  *
+ * When a booking is rescheduled, cancelled or its meeting ends, a meeting
+ * activity is added to the booking's lead (200 "No matching lead" if there
+ * is none) and the stored booking is updated.
+ *
  * @returns {Object} Response indicating success or failure
  *
+ * @response 404 - Cal.com webhooks are not set up (no secret)
+ * @response 401 - Missing or invalid X-Cal-Signature-256
+ *
  * @example Request body:
  * ```json
  * {
  *   "triggerEvent": "BOOKING_CREATED",
  *   "payload": {
+ *     "uid": "bk_8f2a...",
  *     "title": "Discovery Call",
  *     "startTime": "2025-01-20T10:00:00Z",
  *     "attendees": [{ "email": "john@acme.com", "name": "John Doe" }],
@@ -102,8 +454,29 @@ export const calWebhookRoutes = new Hono();
  * ```
  */
 calWebhookRoutes.post("/", async (c) => {
+	const secret = await getCalWebhookSecret();
+	if (!secret) {
+		console.warn(`[Cal.com Webhook] Rejected request from ${getClientIp(c)}: no secret configured`);
+		return c.json({ success: false, error: "Not found" }, 404);
+	}
+
+	// The signature covers the raw body, so read it before parsing
+	const rawBody = await c.req.text();
+	const signature = c.req.header(CAL_SIGNATURE_HEADER);
+	if (!verifyCalSignature(secret, rawBody, signature)) {
+		console.warn(
+			`[Cal.com Webhook] Rejected request from ${getClientIp(c)}: ${signature ? "invalid" : "missing"} signature`,
+		);
+		return c.json({ success: false, error: "Invalid signature" }, 401);
+	}
+
 	// Parse and validate request body
-	const body = await c.req.json().catch(() => ({}));
+	let body: unknown;
+	try {
+		body = JSON.parse(rawBody);
+	} catch {
+		body = {};
+	}
 	const parseResult = calWebhookSchema.safeParse(body);
 
 	if (!parseResult.success) {
@@ -118,96 +491,22 @@ calWebhookRoutes.post("/", async (c) => {
 		);
 	}
 
-	const webhookData = parseResult.data;
-
-	// Only handle BOOKING_CREATED events
-	if (webhookData.triggerEvent !== "BOOKING_CREATED") {
-		console.log(`[Cal.com Webhook] Ignoring event: ${webhookData.triggerEvent}`);
-		return c.json({ success: true, message: "Event ignored" });
-	}
-
-	const { payload } = webhookData;
-	const attendee = payload.attendees[0];
-	const bookingTitle = payload.title || "Cal.com Booking";
-	const bookingTime = payload.startTime
-		? new Date(payload.startTime).toLocaleString("en-US", {
-				dateStyle: "medium",
-				timeStyle: "short",
-			})
-		: "Unknown time";
+	const { triggerEvent, payload } = parseResult.data;
 
 	try {
-		// Check if lead with this email already exists
-		const [existingLead] = await db
-			.select()
-			.from(leads)
-			.where(eq(leads.email, attendee.email))
-			.limit(1);
-
-		if (existingLead) {
-			// Lead exists - add activity noting the booking
-			console.log(`[Cal.com Webhook] Lead exists for ${attendee.email}, adding booking activity`);
-
-			await db.insert(leadActivities).values({
-				leadId: existingLead.id,
-				type: "meeting",
-				description: `Cal.com booking created: "${bookingTitle}" scheduled for ${bookingTime}`,
-			});
-
-			return c.json({
-				success: true,
-				message: "Activity added to existing lead",
-				leadId: existingLead.id,
-			});
+		switch (triggerEvent) {
+			case "BOOKING_CREATED":
+				return await handleBookingCreated(c, payload);
+			case "BOOKING_RESCHEDULED":
+				return await handleBookingRescheduled(c, payload);
+			case "BOOKING_CANCELLED":
+				return await handleBookingCancelled(c, payload);
+			case "MEETING_ENDED":
+				return await handleMeetingEnded(c, payload);
+			default:
+				console.log(`[Cal.com Webhook] Ignoring event: ${triggerEvent}`);
+				return c.json({ success: true, message: "Event ignored" });
 		}
-
-		// No existing lead - create a new one
-		console.log(`[Cal.com Webhook] Creating new lead for ${attendee.email}`);
-
-		// Build message from available information
-		const messageParts: string[] = [];
-		if (payload.responses?.projectDescription) {
-			messageParts.push(payload.responses.projectDescription);
-		}
-		messageParts.push(`Booked via Cal.com: "${bookingTitle}" at ${bookingTime}`);
-
-		const [newLead] = await db
-			.insert(leads)
-			.values({
-				name: attendee.name,
-				email: attendee.email,
-				company: payload.responses?.company || null,
-				phone: null,
-				budget: null,
-				projectType: null,
-				message: messageParts.join("\n\n"),
-				source: "Cal.com Booking",
-				status: "new",
-			})
-			.returning();
-
-		// Create initial activity
-		await db.insert(leadActivities).values({
-			leadId: newLead.id,
-			type: "meeting",
-			description: `Lead created from Cal.com booking: "${bookingTitle}" scheduled for ${bookingTime}`,
-		});
-
-		// Trigger webhooks (fire-and-forget, don't await)
-		triggerLeadCreated(newLead).catch((err) => {
-			console.error("[Cal.com Webhook] Failed to trigger lead.created webhook:", err);
-		});
-
-		console.log(`[Cal.com Webhook] Created new lead ${newLead.id} for ${attendee.email}`);
-
-		return c.json(
-			{
-				success: true,
-				message: "Lead created",
-				leadId: newLead.id,
-			},
-			201,
-		);
 	} catch (error) {
 		console.error("[Cal.com Webhook] Error processing webhook:", error);
 		return c.json(
@@ -20,6 +20,12 @@ import {
 	type UpdateCompanyInput,
 	updateCompanySchema,
 } from "../../lib/validation.js";
+import {
+	collectFieldChanges,
+	triggerCompanyCreated,
+	triggerCompanyDeleted,
+	triggerCompanyUpdated,
+} from "../../lib/webhooks.js";
 import { requireApiKey, requireScope } from "../../middleware/api-key.js";
 
 /**
@@ -288,6 +294,11 @@ companiesApiRoutes.post("/", requireScope("companies:write"), async (c) => {
 		})
 		.returning();
 
+	// Trigger webhook (fire-and-forget, don't await)
+	triggerCompanyCreated(newCompany).catch((err) => {
+		console.error("Failed to trigger company.created webhook:", err);
+	});
+
 	return c.json(
 		{
 			data: formatCompanyResponse(newCompany, 0),
@@ -304,7 +315,7 @@ companiesApiRoutes.post("/", requireScope("companies:write"), async (c) => {
  */
 companiesApiRoutes.patch("/:id", requireScope("companies:write"), async (c) => {
 	const id = c.req.param("id");
-	await getCompanyOrThrow(id);
+	const existingCompany = await getCompanyOrThrow(id);
 
 	// Parse and validate request body
 	const body = await c.req.json().catch(() => ({}));
@@ -337,6 +348,9 @@ companiesApiRoutes.patch("/:id", requireScope("companies:write"), async (c) => {
 	if (input.notes !== undefined) updateData.notes = input.notes;
 	if (input.tags !== undefined) updateData.tags = input.tags;
 
+	// Track changes for webhooks
+	const changes = collectFieldChanges(existingCompany, updateData);
+
 	// Update company
 	const [updatedCompany] = await db
 		.update(companies)
@@ -344,6 +358,13 @@ companiesApiRoutes.patch("/:id", requireScope("companies:write"), async (c) => {
 		.where(eq(companies.id, id))
 		.returning();
 
+	// Trigger webhook (fire-and-forget, don't await)
+	if (Object.keys(changes).length > 0) {
+		triggerCompanyUpdated(updatedCompany, changes).catch((err) => {
+			console.error("Failed to trigger company.updated webhook:", err);
+		});
+	}
+
 	// Get contact count
 	const [contactCountResult] = await db
 		.select({ count: sql<number>`count(*)::int` })
@@ -365,11 +386,16 @@ companiesApiRoutes.delete("/:id", requireScope("companies:delete"), async (c) =>
 	const id = c.req.param("id");
 
 	// Verify company exists
-	await getCompanyOrThrow(id);
+	const company = await getCompanyOrThrow(id);
 
 	// Delete company (contacts' companyId will be set to null via onDelete: "set null")
 	await db.delete(companies).where(eq(companies.id, id));
 
+	// Trigger webhook (fire-and-forget, don't await)
+	triggerCompanyDeleted(id, company.name).catch((err) => {
+		console.error("Failed to trigger company.deleted webhook:", err);
+	});
+
 	return c.json({
 		success: true,
 		message: "Company deleted",
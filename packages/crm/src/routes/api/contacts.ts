@@ -14,6 +14,7 @@ import {
 	contactInteractions,
 	contacts,
 } from "../../db/schema.js";
+import { addContactInteraction } from "../../lib/contacts.js";
 import { BadRequestError, NotFoundError, ValidationError } from "../../lib/errors.js";
 import {
 	createContactSchema,
@@ -24,6 +25,12 @@ import {
 	parseContactSortParam,
 	updateContactSchema,
 } from "../../lib/validation.js";
+import {
+	collectFieldChanges,
+	triggerContactCreated,
+	triggerContactStatusChanged,
+	triggerContactUpdated,
+} from "../../lib/webhooks.js";
 import { requireApiKey, requireScope } from "../../middleware/api-key.js";
 
 /**
@@ -60,6 +67,7 @@ function formatContactResponse(contact: Contact) {
 		notes: contact.notes,
 		tags: contact.tags || [],
 		lastInteractionAt: contact.lastInteractionAt?.toISOString() || null,
+		decayPinned: contact.decayPinned,
 		leadId: contact.leadId,
 		createdAt: contact.createdAt.toISOString(),
 		updatedAt: contact.updatedAt.toISOString(),
@@ -77,6 +85,7 @@ function formatInteractionResponse(interaction: ContactInteraction) {
 		direction: interaction.direction,
 		description: interaction.description,
 		url: interaction.url,
+		body: interaction.body,
 		createdAt: interaction.createdAt.toISOString(),
 	};
 }
@@ -98,56 +107,6 @@ async function getContactOrThrow(id: string): Promise<Contact> {
 	return contact;
 }
 
-/**
- * Count interactions for a contact.
- */
-async function getInteractionCount(contactId: string): Promise<number> {
-	const [result] = await db
-		.select({ count: sql<number>`count(*)::int` })
-		.from(contactInteractions)
-		.where(eq(contactInteractions.contactId, contactId));
-
-	return result?.count || 0;
-}
-
-/**
- * Auto-upgrade warmth based on interaction count.
- */
-function computeAutoWarmth(currentWarmth: string, interactionCount: number): string {
-	const warmthOrder = ["cold", "warm", "hot"];
-	const currentIndex = warmthOrder.indexOf(currentWarmth);
-
-	let targetWarmth = currentWarmth;
-
-	if (interactionCount >= 6) {
-		targetWarmth = "hot";
-	} else if (interactionCount >= 3) {
-		targetWarmth = "warm";
-	}
-
-	const targetIndex = warmthOrder.indexOf(targetWarmth);
-	if (targetIndex > currentIndex) {
-		return targetWarmth;
-	}
-
-	return currentWarmth;
-}
-
-/**
- * Auto-upgrade relationship status based on interaction count.
- */
-function computeAutoStatus(currentStatus: string, interactionCount: number): string {
-	if (currentStatus === "identified" && interactionCount >= 1) {
-		return "first_interaction";
-	}
-
-	if (currentStatus === "first_interaction" && interactionCount >= 3) {
-		return "engaged";
-	}
-
-	return currentStatus;
-}
-
 // ============================================================================
 // ROUTES
 // ============================================================================
@@ -300,6 +259,11 @@ contactsApiRoutes.post("/", requireScope("contacts:write"), async (c) => {
 		})
 		.returning();
 
+	// Trigger webhook (fire-and-forget, don't await)
+	triggerContactCreated(newContact).catch((err) => {
+		console.error("Failed to trigger contact.created webhook:", err);
+	});
+
 	return c.json(
 		{
 			data: formatContactResponse(newContact),
@@ -316,7 +280,7 @@ contactsApiRoutes.post("/", requireScope("contacts:write"), async (c) => {
  */
 contactsApiRoutes.patch("/:id", requireScope("contacts:write"), async (c) => {
 	const id = c.req.param("id");
-	await getContactOrThrow(id);
+	const existingContact = await getContactOrThrow(id);
 
 	const body = await c.req.json().catch(() => ({}));
 	const parseResult = updateContactSchema.safeParse(body);
@@ -354,6 +318,9 @@ contactsApiRoutes.patch("/:id", requireScope("contacts:write"), async (c) => {
 		updateData.nextActionDue = input.nextActionDue ? new Date(input.nextActionDue) : null;
 	if (input.notes !== undefined) updateData.notes = input.notes;
 	if (input.tags !== undefined) updateData.tags = input.tags;
+	if (input.decayPinned !== undefined) updateData.decayPinned = input.decayPinned;
+
+	const changes = collectFieldChanges(existingContact, updateData);
 
 	const [updatedContact] = await db
 		.update(contacts)
@@ -361,6 +328,23 @@ contactsApiRoutes.patch("/:id", requireScope("contacts:write"), async (c) => {
 		.where(eq(contacts.id, id))
 		.returning();
 
+	// Trigger webhooks (fire-and-forget, don't await)
+	if (Object.keys(changes).length > 0) {
+		triggerContactUpdated(updatedContact, changes).catch((err) => {
+			console.error("Failed to trigger contact.updated webhook:", err);
+		});
+	}
+
+	if (changes.relationshipStatus) {
+		triggerContactStatusChanged(
+			updatedContact,
+			existingContact.relationshipStatus,
+			updatedContact.relationshipStatus,
+		).catch((err) => {
+			console.error("Failed to trigger contact.status_changed webhook:", err);
+		});
+	}
+
 	return c.json({
 		data: formatContactResponse(updatedContact),
 	});
@@ -401,38 +385,7 @@ contactsApiRoutes.post("/:id/interactions", requireScope("contacts:write"), asyn
 		throw new ValidationError("Validation failed", formatZodErrors(parseResult.error));
 	}
 
-	const input = parseResult.data;
-
-	const [newInteraction] = await db
-		.insert(contactInteractions)
-		.values({
-			contactId: id,
-			type: input.type,
-			direction: input.direction || "outbound",
-			description: input.description,
-			url: input.url || null,
-		})
-		.returning();
-
-	const interactionCount = await getInteractionCount(id);
-
-	const newWarmth = computeAutoWarmth(contact.warmth, interactionCount);
-	const newStatus = computeAutoStatus(contact.relationshipStatus, interactionCount);
-
-	const contactUpdateData: Partial<typeof contacts.$inferInsert> = {
-		lastInteractionAt: new Date(),
-		updatedAt: new Date(),
-	};
-
-	if (newWarmth !== contact.warmth) {
-		contactUpdateData.warmth = newWarmth;
-	}
-
-	if (newStatus !== contact.relationshipStatus) {
-		contactUpdateData.relationshipStatus = newStatus;
-	}
-
-	await db.update(contacts).set(contactUpdateData).where(eq(contacts.id, id));
+	const newInteraction = await addContactInteraction(contact, parseResult.data);
 
 	return c.json(
 		{
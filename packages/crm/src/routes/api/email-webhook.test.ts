@@ -0,0 +1,195 @@
+/**
+ * Tests for the inbound email webhook endpoint.
+ *
+ * Verifies secret checking and reading JSON, raw and uploaded emails before
+ * they are handed to ingestion.
+ */
+
+import { Hono } from "hono";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database and ingestion side effects BEFORE imports
+vi.mock("../../db", () => ({
+	db: { select: vi.fn(), insert: vi.fn() },
+}));
+
+vi.mock("../../lib/leads", () => ({ addLeadActivity: vi.fn() }));
+vi.mock("../../lib/contacts", () => ({ addContactInteraction: vi.fn() }));
+vi.mock("../../lib/auto-responder", () => ({ sendLeadAutoResponse: vi.fn() }));
+vi.mock("../../lib/notifications/dispatcher", () => ({ triggerLeadCreatedNotification: vi.fn() }));
+vi.mock("../../lib/webhooks", () => ({ triggerLeadCreated: vi.fn() }));
+
+// Keep the real parsing and secret check, mock the settings read and ingestion
+vi.mock("../../lib/inbound-email", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../../lib/inbound-email")>()),
+	getInboundEmailSecret: vi.fn(),
+	ingestInboundEmail: vi.fn(),
+}));
+
+import { getInboundEmailSecret, ingestInboundEmail } from "../../lib/inbound-email";
+import { errorHandler } from "../../middleware/error-handler";
+// Import after mocking
+import { emailWebhookRoutes } from "./email-webhook";
+
+const mockGetInboundEmailSecret = getInboundEmailSecret as ReturnType<typeof vi.fn>;
+const mockIngestInboundEmail = ingestInboundEmail as ReturnType<typeof vi.fn>;
+
+const SECRET = "0123456789abcdef";
+
+const eml = ["From: Jane Doe <jane@acme.com>", "Subject: Hello", "", "Hi there"].join("\r\n");
+
+describe("POST /api/webhooks/email", () => {
+	let app: Hono;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockGetInboundEmailSecret.mockResolvedValue(SECRET);
+		mockIngestInboundEmail.mockResolvedValue({
+			leadIds: ["lead-1"],
+			contactIds: [],
+			createdLeadId: null,
+		});
+
+		app = new Hono();
+		app.onError(errorHandler);
+		app.route("/api/webhooks/email", emailWebhookRoutes);
+	});
+
+	it("should return 404 until a secret is configured", async () => {
+		mockGetInboundEmailSecret.mockResolvedValue(null);
+
+		const res = await app.request("/api/webhooks/email", { method: "POST", body: eml });
+
+		expect(res.status).toBe(404);
+		expect(mockIngestInboundEmail).not.toHaveBeenCalled();
+	});
+
+	it("should reject a missing or wrong secret", async () => {
+		const consoleSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		const res = await app.request("/api/webhooks/email?token=wrong", {
+			method: "POST",
+			body: eml,
+		});
+
+		expect(res.status).toBe(401);
+		expect(mockIngestInboundEmail).not.toHaveBeenCalled();
+		consoleSpy.mockRestore();
+	});
+
+	it("should log a Postmark webhook authenticated by header", async () => {
+		const res = await app.request("/api/webhooks/email", {
+			method: "POST",
+			headers: { "Content-Type": "application/json", "X-Inbound-Email-Secret": SECRET },
+			body: JSON.stringify({
+				From: "jane@acme.com",
+				Subject: "Hello",
+				TextBody: "Hi there",
+				Attachments: [{ Name: "brief.pdf" }],
+			}),
+		});
+
+		expect(res.status).toBe(200);
+		const body = await res.json();
+		expect(body).toEqual({
+			success: true,
+			message: "Email logged",
+			leadIds: ["lead-1"],
+			contactIds: [],
+		});
+		expect(mockIngestInboundEmail).toHaveBeenCalledWith({
+			from: { email: "jane@acme.com", name: null },
+			subject: "Hello",
+			text: "Hi there",
+			attachments: ["brief.pdf"],
+			automated: false,
+		});
+	});
+
+	it("should acknowledge an automated email that was not recorded", async () => {
+		mockIngestInboundEmail.mockResolvedValue({ leadIds: [], contactIds: [], createdLeadId: null });
+
+		const res = await app.request("/api/webhooks/email", {
+			method: "POST",
+			headers: { "X-Inbound-Email-Secret": SECRET },
+			body: ["From: noreply@vendor.com", "Auto-Submitted: auto-replied", "", "Out of office"].join(
+				"\r\n",
+			),
+		});
+
+		expect(res.status).toBe(200);
+		expect(await res.json()).toEqual({ success: true, message: "Automated email ignored" });
+		expect(mockIngestInboundEmail).toHaveBeenCalledWith(
+			expect.objectContaining({ automated: true }),
+		);
+	});
+
+	it("should create a lead from a raw message authenticated by query token", async () => {
+		mockIngestInboundEmail.mockResolvedValue({
+			leadIds: ["lead-2"],
+			contactIds: [],
+			createdLeadId: "lead-2",
+		});
+		const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+		const res = await app.request(`/api/webhooks/email?token=${SECRET}`, {
+			method: "POST",
+			headers: { "Content-Type": "message/rfc822" },
+			body: eml,
+		});
+
+		expect(res.status).toBe(201);
+		const body = await res.json();
+		expect(body.leadId).toBe("lead-2");
+		expect(mockIngestInboundEmail).toHaveBeenCalledWith(
+			expect.objectContaining({ from: { email: "jane@acme.com", name: "Jane Doe" } }),
+		);
+		consoleSpy.mockRestore();
+	});
+
+	it("should accept an uploaded .eml file", async () => {
+		const form = new FormData();
+		form.append("file", new File([eml], "message.eml", { type: "message/rfc822" }));
+
+		const res = await app.request("/api/webhooks/email", {
+			method: "POST",
+			headers: { "X-Inbound-Email-Secret": SECRET },
+			body: form,
+		});
+
+		expect(res.status).toBe(200);
+		expect(mockIngestInboundEmail).toHaveBeenCalledWith(
+			expect.objectContaining({ subject: "Hello", text: "Hi there" }),
+		);
+	});
+
+	it("should return 400 for an unreadable email", async () => {
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+		const res = await app.request("/api/webhooks/email", {
+			method: "POST",
+			headers: { "Content-Type": "application/json", "X-Inbound-Email-Secret": SECRET },
+			body: JSON.stringify({ subject: "No sender" }),
+		});
+
+		expect(res.status).toBe(400);
+		const body = await res.json();
+		expect(body.success).toBe(false);
+		expect(mockIngestInboundEmail).not.toHaveBeenCalled();
+		consoleSpy.mockRestore();
+	});
+
+	it("should return 500 when ingestion fails", async () => {
+		mockIngestInboundEmail.mockRejectedValue(new Error("Database down"));
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+		const res = await app.request("/api/webhooks/email", {
+			method: "POST",
+			headers: { "X-Inbound-Email-Secret": SECRET },
+			body: eml,
+		});
+
+		expect(res.status).toBe(500);
+		consoleSpy.mockRestore();
+	});
+});
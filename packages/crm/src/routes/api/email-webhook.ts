@@ -0,0 +1,137 @@
+/**
+ * Inbound Email Webhook Endpoint.
+ *
+ * Receives emails forwarded to the CRM and records them on the sender's lead
+ * or contact, creating a lead for unknown senders unless the email is
+ * automated (see lib/inbound-email.ts).
+ * Accepts:
+ * - A Postmark inbound webhook, or a Resend email.received event (JSON)
+ * - A raw message (Content-Type: message/rfc822 or text/plain)
+ * - An .eml upload (multipart/form-data, "file" field)
+ *
+ * Every request must carry the inbound_email_secret setting, either in the
+ * X-Inbound-Email-Secret header or as ?token=<secret> for providers that
+ * only let you configure a URL. The endpoint is disabled (404) until the
+ * secret is set.
+ *
+ * This endpoint does NOT use session or API key authentication - email
+ * providers call it directly.
+ */
+
+import { type Context, Hono } from "hono";
+import {
+	getInboundEmailSecret,
+	INBOUND_EMAIL_SECRET_HEADER,
+	type InboundEmail,
+	InboundEmailParseError,
+	ingestInboundEmail,
+	parseInboundPayload,
+	parseRawEmail,
+	verifyInboundEmailSecret,
+} from "../../lib/inbound-email.js";
+
+/**
+ * Inbound email webhook routes app instance.
+ */
+export const emailWebhookRoutes = new Hono();
+
+/**
+ * Read the email from the request in whichever format it was sent.
+ *
+ * @throws InboundEmailParseError if the email can't be read
+ */
+async function readInboundEmail(c: Context): Promise<InboundEmail> {
+	const contentType = c.req.header("Content-Type") ?? "";
+
+	if (contentType.includes("application/json")) {
+		const body = await c.req.json().catch(() => ({}));
+		return parseInboundPayload(body);
+	}
+
+	if (contentType.includes("multipart/form-data")) {
+		const form = await c.req.parseBody();
+		const file = form.file;
+		if (!(file instanceof File)) {
+			throw new InboundEmailParseError('Upload the .eml file in the "file" field');
+		}
+		return parseRawEmail(await file.text());
+	}
+
+	return parseRawEmail(await c.req.text());
+}
+
+/**
+ * POST /api/webhooks/email
+ *
+ * Record an inbound email.
+ *
+ * @response 201 - Lead created for an unknown sender
+ * @response 200 - Email logged on the matching lead and/or contact
+ * @response 404 - Inbound email is not set up (no secret)
+ * @response 401 - Missing or wrong secret
+ * @response 400 - The email couldn't be read
+ *
+ * @example Response (existing contact):
+ * ```json
+ * { "success": true, "message": "Email logged", "leadIds": [], "contactIds": ["..."] }
+ * ```
+ */
+emailWebhookRoutes.post("/", async (c) => {
+	const secret = await getInboundEmailSecret();
+	if (!secret) {
+		return c.json({ success: false, error: "Not found" }, 404);
+	}
+
+	const token = c.req.header(INBOUND_EMAIL_SECRET_HEADER) ?? c.req.query("token");
+	if (!verifyInboundEmailSecret(secret, token)) {
+		console.warn("[Inbound Email] Invalid secret");
+		return c.json({ success: false, error: "Invalid secret" }, 401);
+	}
+
+	let email: InboundEmail;
+	try {
+		email = await readInboundEmail(c);
+	} catch (error) {
+		if (error instanceof InboundEmailParseError) {
+			console.error("[Inbound Email] Could not read email:", error.message);
+			return c.json({ success: false, error: error.message }, 400);
+		}
+		throw error;
+	}
+
+	try {
+		const result = await ingestInboundEmail(email);
+
+		if (result.createdLeadId) {
+			console.log(`[Inbound Email] Created lead ${result.createdLeadId} from ${email.from.email}`);
+			return c.json(
+				{
+					success: true,
+					message: "Lead created",
+					leadId: result.createdLeadId,
+				},
+				201,
+			);
+		}
+
+		if (result.leadIds.length === 0 && result.contactIds.length === 0) {
+			return c.json({ success: true, message: "Automated email ignored" });
+		}
+
+		return c.json({
+			success: true,
+			message: "Email logged",
+			leadIds: result.leadIds,
+			contactIds: result.contactIds,
+		});
+	} catch (error) {
+		console.error("[Inbound Email] Error processing email:", error);
+		return c.json(
+			{
+				success: false,
+				error: "Internal server error",
+			},
+			500,
+		);
+	}
+});
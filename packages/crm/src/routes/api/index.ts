@@ -7,6 +7,8 @@
 export { calWebhookRoutes } from "./cal-webhook.js";
 export { companiesApiRoutes } from "./companies.js";
 export { contactsApiRoutes } from "./contacts.js";
+export { emailWebhookRoutes } from "./email-webhook.js";
 export { leadsRoutes } from "./leads.js";
 export { meRoutes } from "./me.js";
 export { publicLeadsRoutes } from "./public-leads.js";
+export { telegramWebhookRoutes } from "./telegram-webhook.js";
@@ -42,6 +42,18 @@ vi.mock("../../lib/ai", () => ({
 	},
 }));
 
+// Mock lead scoring (reads settings and contact interactions)
+vi.mock("../../lib/lead-score", () => ({
+	scoreLead: () => Promise.resolve(42),
+	withLeadScore: (values: object) => Promise.resolve({ ...values, score: 42 }),
+}));
+
+// Mock notifications (lead updates notify subscribed channels)
+vi.mock("../../lib/notifications", () => ({
+	triggerLeadActivityAddedNotification: vi.fn(),
+	triggerLeadStatusChangedNotification: vi.fn(),
+}));
+
 // Mock api-key middleware BEFORE imports
 vi.mock("../../middleware/api-key", () => ({
 	requireApiKey: vi.fn((_c, next) => next()),
@@ -67,6 +79,10 @@ import { db } from "../../db/connection";
 import type { Lead, LeadActivity } from "../../db/schema";
 import { AIServiceError, isOpenAIConfigured, ParseFailedError, parseLeadText } from "../../lib/ai";
 import { InsufficientScopeError, InvalidApiKeyError } from "../../lib/errors";
+import {
+	triggerLeadActivityAddedNotification,
+	triggerLeadStatusChangedNotification,
+} from "../../lib/notifications";
 import { requireApiKey, requireApiKeyFromContext, requireScope } from "../../middleware/api-key";
 import { errorHandler } from "../../middleware/error-handler";
 // Import after mocking
@@ -109,6 +125,7 @@ function createMockLead(overrides: Partial<Lead> = {}): Lead {
 		message: "Looking for help with our new product launch.",
 		source: "API",
 		status: "new",
+		score: 0,
 		notes: null,
 		tags: ["startup", "mvp"],
 		rawInput: null,
@@ -619,6 +636,30 @@ describe("Leads API Routes", () => {
 			expect(body.data.name).toBe(mockLead.name);
 		});
 
+		it("should store the lead score", async () => {
+			const insertLeadChain = createInsertChain([createMockLead({ score: 42 })]);
+			const insertActivityChain = createInsertChain([createMockActivity()]);
+
+			mockDb.insert.mockReturnValueOnce(insertLeadChain).mockReturnValueOnce(insertActivityChain);
+
+			const res = await app.request("/api/v1/leads", {
+				method: "POST",
+				headers: authHeaders(),
+				body: JSON.stringify({
+					name: "John Doe",
+					email: "john@example.com",
+					message: "Looking for help with our new product launch.",
+				}),
+			});
+
+			expect(res.status).toBe(201);
+			expect(insertLeadChain.values).toHaveBeenCalledWith(
+				expect.objectContaining({ email: "john@example.com", score: 42 }),
+			);
+			const body = await res.json();
+			expect(body.data.score).toBe(42);
+		});
+
 		it("should create lead with all optional fields", async () => {
 			const mockLead = createMockLead({
 				company: "Acme Inc",
@@ -837,6 +878,26 @@ describe("Leads API Routes", () => {
 			expect(body.data.name).toBe("Jane Doe");
 		});
 
+		it("should rescore the lead", async () => {
+			const existingLead = createMockLead();
+			const selectChain = createSelectChain([existingLead]);
+			const updateChain = createUpdateChain([createMockLead({ budget: "$100,000+", score: 42 })]);
+
+			mockDb.select.mockReturnValueOnce(selectChain);
+			mockDb.update.mockReturnValueOnce(updateChain);
+
+			const res = await app.request(`/api/v1/leads/${existingLead.id}`, {
+				method: "PATCH",
+				headers: authHeaders(),
+				body: JSON.stringify({ budget: "$100,000+" }),
+			});
+
+			expect(res.status).toBe(200);
+			expect(updateChain.set).toHaveBeenCalledWith(
+				expect.objectContaining({ budget: "$100,000+", score: 42 }),
+			);
+		});
+
 		it("should update lead status and log status change activity", async () => {
 			const existingLead = createMockLead({ status: "new" });
 			const updatedLead = createMockLead({ status: "contacted" });
@@ -858,6 +919,11 @@ describe("Leads API Routes", () => {
 			expect(res.status).toBe(200);
 			// Verify activity was inserted for status change
 			expect(mockDb.insert).toHaveBeenCalled();
+			expect(triggerLeadStatusChangedNotification).toHaveBeenCalledWith(
+				updatedLead,
+				"new",
+				"contacted",
+			);
 		});
 
 		it("should set contactedAt when status changes to contacted", async () => {
@@ -1220,6 +1286,29 @@ describe("Leads API Routes", () => {
 
 			expect(mockDb.update).toHaveBeenCalled();
 		});
+
+		it("should notify subscribed channels", async () => {
+			const mockLead = createMockLead();
+			const mockActivity = createMockActivity();
+
+			mockDb.select.mockReturnValueOnce(createSelectChain([mockLead]));
+			mockDb.insert.mockReturnValueOnce(createInsertChain([mockActivity]));
+			mockDb.update.mockReturnValueOnce(createUpdateChain([mockLead]));
+
+			await app.request(`/api/v1/leads/${mockLead.id}/activities`, {
+				method: "POST",
+				headers: authHeaders(),
+				body: JSON.stringify({
+					type: "note",
+					description: "Test note",
+				}),
+			});
+
+			expect(triggerLeadActivityAddedNotification).toHaveBeenCalledWith(
+				expect.objectContaining({ id: mockLead.id }),
+				expect.objectContaining({ id: mockActivity.id }),
+			);
+		});
 	});
 
 	// ==========================================================================
@@ -1607,7 +1696,7 @@ describe("Leads API Routes", () => {
 		});
 
 		it("should validate that all sortable fields work", async () => {
-			const sortFields = ["createdAt", "updatedAt", "name", "email", "company", "status"];
+			const sortFields = ["createdAt", "updatedAt", "name", "email", "company", "status", "score"];
 
 			for (const field of sortFields) {
 				const countChain = createSelectChain([{ count: 1 }]);
@@ -16,6 +16,8 @@ import {
 	parseLeadText,
 } from "../../lib/ai/index.js";
 import { BadRequestError, NotFoundError, ValidationError } from "../../lib/errors.js";
+import { withLeadScore } from "../../lib/lead-score.js";
+import { addLeadActivity, updateLead } from "../../lib/leads.js";
 import {
 	type CreateActivityInput,
 	type CreateLeadInput,
@@ -30,13 +32,7 @@ import {
 	type UpdateLeadInput,
 	updateLeadSchema,
 } from "../../lib/validation.js";
-import {
-	triggerLeadActivityAdded,
-	triggerLeadCreated,
-	triggerLeadDeleted,
-	triggerLeadStatusChanged,
-	triggerLeadUpdated,
-} from "../../lib/webhooks.js";
+import { triggerLeadCreated, triggerLeadDeleted } from "../../lib/webhooks.js";
 import { requireApiKey, requireApiKeyFromContext, requireScope } from "../../middleware/api-key.js";
 
 /**
@@ -67,6 +63,7 @@ function formatLeadResponse(lead: Lead) {
 		message: lead.message,
 		source: lead.source,
 		status: lead.status,
+		score: lead.score,
 		notes: lead.notes,
 		tags: lead.tags || [],
 		rawInput: lead.rawInput,
@@ -88,6 +85,7 @@ function formatActivityResponse(activity: LeadActivity) {
 		description: activity.description,
 		oldStatus: activity.oldStatus,
 		newStatus: activity.newStatus,
+		body: activity.body,
 		createdAt: activity.createdAt.toISOString(),
 	};
 }
@@ -109,23 +107,6 @@ async function getLeadOrThrow(id: string): Promise<Lead> {
 	return lead;
 }
 
-/**
- * Create a status change activity when lead status changes.
- */
-async function logStatusChange(
-	leadId: string,
-	oldStatus: string,
-	newStatus: string,
-): Promise<void> {
-	await db.insert(leadActivities).values({
-		leadId,
-		type: "status_change",
-		description: `Status changed from ${oldStatus} to ${newStatus}`,
-		oldStatus,
-		newStatus,
-	});
-}
-
 // ============================================================================
 // ROUTES
 // ============================================================================
@@ -197,6 +178,7 @@ leadsRoutes.get("/", requireScope("leads:read"), async (c) => {
 			email: leads.email,
 			company: leads.company,
 			status: leads.status,
+			score: leads.score,
 		}[field] || leads.createdAt;
 
 	const orderBy = direction === "desc" ? desc(sortColumn) : asc(sortColumn);
@@ -272,19 +254,21 @@ leadsRoutes.post("/", requireScope("leads:write"), async (c) => {
 	// Insert lead
 	const [newLead] = await db
 		.insert(leads)
-		.values({
-			name: input.name,
-			email: input.email,
-			company: input.company || null,
-			phone: input.phone || null,
-			budget: input.budget || null,
-			projectType: input.projectType || null,
-			message: input.message,
-			source,
-			status: input.status || "new",
-			notes: input.notes || null,
-			tags: input.tags || null,
-		})
+		.values(
+			await withLeadScore({
+				name: input.name,
+				email: input.email,
+				company: input.company || null,
+				phone: input.phone || null,
+				budget: input.budget || null,
+				projectType: input.projectType || null,
+				message: input.message,
+				source,
+				status: input.status || "new",
+				notes: input.notes || null,
+				tags: input.tags || null,
+			}),
+		)
 		.returning();
 
 	// Create initial activity
@@ -310,7 +294,8 @@ leadsRoutes.post("/", requireScope("leads:write"), async (c) => {
 /**
  * PATCH /api/v1/leads/:id
  *
- * Update a lead.
+ * Update a lead. Status changes are logged as activities and fire the
+ * lead.status_changed webhook and notification (see lib/leads.ts).
  * Requires leads:write scope.
  */
 leadsRoutes.patch("/:id", requireScope("leads:write"), async (c) => {
@@ -332,111 +317,7 @@ leadsRoutes.patch("/:id", requireScope("leads:write"), async (c) => {
 		throw new BadRequestError("At least one field is required for update");
 	}
 
-	// Track status change for activity logging
-	const statusChanged = input.status !== undefined && input.status !== existingLead.status;
-	const oldStatus = existingLead.status;
-	const newStatus = input.status;
-
-	// Build update object and track changes for webhooks
-	const updateData: Partial<typeof leads.$inferInsert> & { updatedAt: Date } = {
-		updatedAt: new Date(),
-	};
-	const changes: Record<string, { old: unknown; new: unknown }> = {};
-
-	if (input.name !== undefined) {
-		if (input.name !== existingLead.name) {
-			changes.name = { old: existingLead.name, new: input.name };
-		}
-		updateData.name = input.name;
-	}
-	if (input.email !== undefined) {
-		if (input.email !== existingLead.email) {
-			changes.email = { old: existingLead.email, new: input.email };
-		}
-		updateData.email = input.email;
-	}
-	if (input.company !== undefined) {
-		if (input.company !== existingLead.company) {
-			changes.company = { old: existingLead.company, new: input.company };
-		}
-		updateData.company = input.company;
-	}
-	if (input.phone !== undefined) {
-		if (input.phone !== existingLead.phone) {
-			changes.phone = { old: existingLead.phone, new: input.phone };
-		}
-		updateData.phone = input.phone;
-	}
-	if (input.budget !== undefined) {
-		if (input.budget !== existingLead.budget) {
-			changes.budget = { old: existingLead.budget, new: input.budget };
-		}
-		updateData.budget = input.budget;
-	}
-	if (input.projectType !== undefined) {
-		if (input.projectType !== existingLead.projectType) {
-			changes.projectType = { old: existingLead.projectType, new: input.projectType };
-		}
-		updateData.projectType = input.projectType;
-	}
-	if (input.message !== undefined) {
-		if (input.message !== existingLead.message) {
-			changes.message = { old: existingLead.message, new: input.message };
-		}
-		updateData.message = input.message;
-	}
-	if (input.source !== undefined) {
-		if (input.source !== existingLead.source) {
-			changes.source = { old: existingLead.source, new: input.source };
-		}
-		updateData.source = input.source;
-	}
-	if (input.status !== undefined) {
-		if (input.status !== existingLead.status) {
-			changes.status = { old: existingLead.status, new: input.status };
-		}
-		updateData.status = input.status;
-	}
-	if (input.notes !== undefined) {
-		if (input.notes !== existingLead.notes) {
-			changes.notes = { old: existingLead.notes, new: input.notes };
-		}
-		updateData.notes = input.notes;
-	}
-	if (input.tags !== undefined) {
-		const tagsChanged = JSON.stringify(input.tags) !== JSON.stringify(existingLead.tags);
-		if (tagsChanged) {
-			changes.tags = { old: existingLead.tags, new: input.tags };
-		}
-		updateData.tags = input.tags;
-	}
-
-	// Set contactedAt when status changes to 'contacted' for the first time
-	if (statusChanged && newStatus === "contacted" && existingLead.contactedAt === null) {
-		updateData.contactedAt = new Date();
-	}
-
-	// Update lead
-	const [updatedLead] = await db.update(leads).set(updateData).where(eq(leads.id, id)).returning();
-
-	// Log status change as activity
-	if (statusChanged && oldStatus && newStatus) {
-		await logStatusChange(id, oldStatus, newStatus);
-	}
-
-	// Trigger webhooks (fire-and-forget, don't await)
-	if (Object.keys(changes).length > 0) {
-		triggerLeadUpdated(updatedLead, changes).catch((err) => {
-			console.error("Failed to trigger lead.updated webhook:", err);
-		});
-	}
-
-	// Trigger status changed webhook in addition to lead.updated when status changes
-	if (statusChanged && oldStatus && newStatus) {
-		triggerLeadStatusChanged(updatedLead, oldStatus, newStatus).catch((err) => {
-			console.error("Failed to trigger lead.status_changed webhook:", err);
-		});
-	}
+	const updatedLead = await updateLead(existingLead, input);
 
 	return c.json({
 		data: formatLeadResponse(updatedLead),
@@ -452,15 +333,14 @@ leadsRoutes.patch("/:id", requireScope("leads:write"), async (c) => {
 leadsRoutes.delete("/:id", requireScope("leads:delete"), async (c) => {
 	const id = c.req.param("id");
 
-	// Verify lead exists and capture info before deletion
+	// Verify lead exists and capture it before deletion
 	const lead = await getLeadOrThrow(id);
-	const { name, email } = lead;
 
 	// Delete lead (activities cascade automatically)
 	await db.delete(leads).where(eq(leads.id, id));
 
 	// Trigger webhook (fire-and-forget, don't await)
-	triggerLeadDeleted(id, name, email).catch((err) => {
+	triggerLeadDeleted(lead).catch((err) => {
 		console.error("Failed to trigger lead.deleted webhook:", err);
 	});
 
@@ -492,23 +372,7 @@ leadsRoutes.post("/:id/activities", requireScope("leads:write"), async (c) => {
 
 	const input: CreateActivityInput = parseResult.data;
 
-	// Insert activity
-	const [newActivity] = await db
-		.insert(leadActivities)
-		.values({
-			leadId: id,
-			type: input.type,
-			description: input.description,
-		})
-		.returning();
-
-	// Update lead's updatedAt timestamp
-	await db.update(leads).set({ updatedAt: new Date() }).where(eq(leads.id, id));
-
-	// Trigger webhook (fire-and-forget, don't await)
-	triggerLeadActivityAdded(lead, newActivity).catch((err) => {
-		console.error("Failed to trigger lead.activity_added webhook:", err);
-	});
+	const newActivity = await addLeadActivity(lead, input);
 
 	return c.json(
 		{
@@ -608,19 +472,21 @@ leadsRoutes.post("/parse", requireScope("leads:write"), async (c) => {
 			// Insert lead
 			const [newLead] = await db
 				.insert(leads)
-				.values({
-					name: result.parsed.name,
-					email: result.parsed.email,
-					company: result.parsed.company,
-					phone: result.parsed.phone,
-					budget: result.parsed.budget,
-					projectType: result.parsed.projectType,
-					message,
-					source: result.parsed.source || "API",
-					status: "new",
-					rawInput: input.text,
-					aiParsed: true,
-				})
+				.values(
+					await withLeadScore({
+						name: result.parsed.name,
+						email: result.parsed.email,
+						company: result.parsed.company,
+						phone: result.parsed.phone,
+						budget: result.parsed.budget,
+						projectType: result.parsed.projectType,
+						message,
+						source: result.parsed.source || "API",
+						status: "new",
+						rawInput: input.text,
+						aiParsed: true,
+					}),
+				)
 				.returning();
 
 			// Create initial activity
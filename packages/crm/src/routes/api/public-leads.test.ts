@@ -1,8 +1,8 @@
 /**
  * Tests for public leads endpoint (contact form submissions).
  *
- * Verifies lead creation, validation, and honeypot spam protection
- * per specs/02-contact-form.md.
+ * Verifies lead creation, validation, honeypot spam protection and the
+ * auto-response trigger per specs/02-contact-form.md.
  */
 
 import { Hono } from "hono";
@@ -22,7 +22,19 @@ vi.mock("../../db/connection", () => {
 	};
 });
 
+// Mock the auto-responder (fire-and-forget after lead creation)
+vi.mock("../../lib/auto-responder", () => ({
+	sendLeadAutoResponse: vi.fn(() => Promise.resolve(false)),
+}));
+
+// Mock lead scoring (reads settings and contact interactions)
+vi.mock("../../lib/lead-score", () => ({
+	scoreLead: () => Promise.resolve(42),
+	withLeadScore: (values: object) => Promise.resolve({ ...values, score: 42 }),
+}));
+
 import { db } from "../../db/connection";
+import { sendLeadAutoResponse } from "../../lib/auto-responder";
 import { errorHandler } from "../../middleware/error-handler";
 // Import after mocking
 import { publicLeadsRoutes } from "./public-leads";
@@ -159,6 +171,11 @@ describe("Public Leads Routes", () => {
 				// Verify db.insert was called for leads and activities
 				expect(leadValues).toHaveBeenCalledTimes(1);
 				expect(activityValues).toHaveBeenCalledTimes(1);
+
+				// The new lead gets the auto-response
+				expect(sendLeadAutoResponse).toHaveBeenCalledWith(
+					expect.objectContaining({ id: "test-lead-id-123" }),
+				);
 			});
 
 			it("should create a lead with all optional fields", async () => {
@@ -565,6 +582,7 @@ describe("Public Leads Routes", () => {
 
 				// db.insert should NOT have been called
 				expect(mockDb.insert).not.toHaveBeenCalled();
+				expect(sendLeadAutoResponse).not.toHaveBeenCalled();
 			});
 
 			it("should log the spam attempt when honeypot is filled", async () => {
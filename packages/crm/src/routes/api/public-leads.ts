@@ -11,6 +11,8 @@
 import { Hono } from "hono";
 import { db } from "../../db/connection.js";
 import { leadActivities, leads } from "../../db/schema.js";
+import { sendLeadAutoResponse } from "../../lib/auto-responder.js";
+import { withLeadScore } from "../../lib/lead-score.js";
 import { triggerLeadCreatedNotification } from "../../lib/notifications/dispatcher.js";
 import {
 	formatZodErrors,
@@ -31,6 +33,8 @@ export const publicLeadsRoutes = new Hono();
  * Create a lead from the public contact form.
  * No authentication required.
  *
+ * Sends the lead an auto-response email when enabled (see lib/auto-responder.ts).
+ *
  * Includes honeypot spam protection:
  * - If the hidden 'website' field is filled, the submission is silently rejected
  * - Returns 200 OK with success message (to not tip off bots)
@@ -81,17 +85,19 @@ publicLeadsRoutes.post("/", async (c) => {
 	// Insert lead
 	const [newLead] = await db
 		.insert(leads)
-		.values({
-			name: input.name,
-			email: input.email,
-			company: input.company || null,
-			phone: input.phone || null,
-			budget: input.budget || null,
-			projectType: input.projectType || null,
-			message: input.message,
-			source: input.source || "Contact Form",
-			status: "new",
-		})
+		.values(
+			await withLeadScore({
+				name: input.name,
+				email: input.email,
+				company: input.company || null,
+				phone: input.phone || null,
+				budget: input.budget || null,
+				projectType: input.projectType || null,
+				message: input.message,
+				source: input.source || "Contact Form",
+				status: "new",
+			}),
+		)
 		.returning();
 
 	// Create initial activity
@@ -110,6 +116,10 @@ publicLeadsRoutes.post("/", async (c) => {
 	// Fire-and-forget - notifications should not block the response
 	triggerLeadCreatedNotification(newLead);
 
+	// Acknowledge the lead by email when the auto-responder is enabled
+	// Fire-and-forget - failures are logged, never surfaced to the form
+	sendLeadAutoResponse(newLead);
+
 	// Return success response per spec
 	return c.json(
 		{
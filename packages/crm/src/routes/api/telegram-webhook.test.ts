@@ -0,0 +1,172 @@
+/**
+ * Tests for the Telegram bot webhook endpoint.
+ *
+ * Verifies channel lookup, secret token checking and update validation
+ * before updates are handed to the bot.
+ */
+
+import { Hono } from "hono";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database BEFORE imports
+vi.mock("../../db", () => {
+	const mockLimit = vi.fn();
+	const mockWhere = vi.fn(() => ({ limit: mockLimit }));
+	const mockSelect = vi.fn(() => ({ from: vi.fn(() => ({ where: mockWhere })) }));
+
+	return {
+		db: { select: mockSelect },
+		notificationChannels: { id: "id" },
+	};
+});
+
+vi.mock("../../lib/leads", () => ({
+	updateLead: vi.fn(),
+	addLeadActivity: vi.fn(),
+}));
+
+// Keep the real secret check and schema, mock update handling
+vi.mock("../../lib/telegram-bot", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../../lib/telegram-bot")>()),
+	handleTelegramUpdate: vi.fn(() => Promise.resolve()),
+}));
+
+import { db } from "../../db";
+import { handleTelegramUpdate } from "../../lib/telegram-bot";
+import { errorHandler } from "../../middleware/error-handler";
+// Import after mocking
+import { telegramWebhookRoutes } from "./telegram-webhook";
+
+const mockDb = db as unknown as { select: ReturnType<typeof vi.fn> };
+const mockHandleTelegramUpdate = handleTelegramUpdate as ReturnType<typeof vi.fn>;
+
+const CHANNEL_ID = "550e8400-e29b-41d4-a716-446655440000";
+
+const update = {
+	update_id: 1,
+	message: { message_id: 10, chat: { id: -100123 }, text: "/followups" },
+};
+
+/**
+ * Create a mock notification channel row.
+ */
+function createMockChannel(overrides: Record<string, unknown> = {}) {
+	return {
+		id: CHANNEL_ID,
+		type: "telegram",
+		name: "Sales chat",
+		config: { bot_token: "123:abc", chat_id: "-100123", webhook_secret: "s3cret" },
+		events: ["lead.created"],
+		enabled: true,
+		...overrides,
+	};
+}
+
+/**
+ * Make the channel lookup return the given rows.
+ */
+function mockChannelLookup(rows: unknown[]) {
+	mockDb.select.mockReturnValue({
+		from: vi.fn(() => ({ where: vi.fn(() => ({ limit: vi.fn().mockResolvedValue(rows) })) })),
+	});
+}
+
+describe("POST /api/webhooks/telegram/:channelId", () => {
+	let app: Hono;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		app = new Hono();
+		app.onError(errorHandler);
+		app.route("/api/webhooks/telegram", telegramWebhookRoutes);
+	});
+
+	function post(body: unknown, secret: string | null = "s3cret", channelId = CHANNEL_ID) {
+		const headers: Record<string, string> = { "Content-Type": "application/json" };
+		if (secret !== null) {
+			headers["X-Telegram-Bot-Api-Secret-Token"] = secret;
+		}
+		return app.request(`/api/webhooks/telegram/${channelId}`, {
+			method: "POST",
+			headers,
+			body: JSON.stringify(body),
+		});
+	}
+
+	it("should hand a verified update to the bot", async () => {
+		mockChannelLookup([createMockChannel()]);
+
+		const res = await post(update);
+
+		expect(res.status).toBe(200);
+		expect(await res.json()).toEqual({ success: true });
+		expect(mockHandleTelegramUpdate).toHaveBeenCalledWith(
+			{ bot_token: "123:abc", chat_id: "-100123", webhook_secret: "s3cret" },
+			update,
+		);
+	});
+
+	it("should reject a wrong or missing secret token", async () => {
+		mockChannelLookup([createMockChannel()]);
+
+		expect((await post(update, "wrong")).status).toBe(401);
+		expect((await post(update, null)).status).toBe(401);
+		expect(mockHandleTelegramUpdate).not.toHaveBeenCalled();
+	});
+
+	it.each([
+		["an unknown channel", []],
+		["a non-Telegram channel", [createMockChannel({ type: "discord" })]],
+		[
+			"a channel without a webhook secret",
+			[createMockChannel({ config: { bot_token: "123:abc", chat_id: "-100123" } })],
+		],
+	])("should return 404 for %s", async (_, rows) => {
+		mockChannelLookup(rows);
+
+		const res = await post(update);
+
+		expect(res.status).toBe(404);
+		expect(mockHandleTelegramUpdate).not.toHaveBeenCalled();
+	});
+
+	it("should return 404 for an invalid channel ID without querying", async () => {
+		const res = await post(update, "s3cret", "not-a-uuid");
+
+		expect(res.status).toBe(404);
+		expect(mockDb.select).not.toHaveBeenCalled();
+	});
+
+	it("should reject an invalid update", async () => {
+		mockChannelLookup([createMockChannel()]);
+
+		const res = await post({ message: { text: "hi" } });
+
+		expect(res.status).toBe(400);
+		expect(mockHandleTelegramUpdate).not.toHaveBeenCalled();
+	});
+
+	it("should ignore updates for a disabled channel", async () => {
+		mockChannelLookup([createMockChannel({ enabled: false })]);
+
+		const res = await post(update);
+
+		expect(res.status).toBe(200);
+		expect(mockHandleTelegramUpdate).not.toHaveBeenCalled();
+	});
+
+	it("should answer 200 when handling fails so Telegram doesn't redeliver", async () => {
+		mockChannelLookup([createMockChannel()]);
+		mockHandleTelegramUpdate.mockRejectedValueOnce(new Error("Telegram API down"));
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+		const res = await post(update);
+
+		expect(res.status).toBe(200);
+		expect(consoleSpy).toHaveBeenCalledWith(
+			"[Telegram Webhook] Error handling update:",
+			expect.any(Error),
+		);
+		consoleSpy.mockRestore();
+	});
+});
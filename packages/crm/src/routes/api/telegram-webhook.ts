@@ -0,0 +1,96 @@
+/**
+ * Telegram Bot Webhook Endpoint.
+ *
+ * Receives updates Telegram posts for a Telegram notification channel whose
+ * bot is registered with:
+ *
+ *   setWebhook url=<CRM>/api/webhooks/telegram/<channelId> secret_token=<webhook_secret>
+ *
+ * Every request must carry the channel's webhook secret in the
+ * X-Telegram-Bot-Api-Secret-Token header. Updates are handled by
+ * lib/telegram-bot.ts (inline lead actions, /lead and /followups).
+ *
+ * This endpoint does NOT use session or API key authentication - Telegram
+ * calls it directly.
+ */
+
+import { eq } from "drizzle-orm";
+import { Hono } from "hono";
+import { db, notificationChannels } from "../../db/index.js";
+import { isTelegramConfig } from "../../lib/notifications/index.js";
+import {
+	handleTelegramUpdate,
+	TELEGRAM_SECRET_HEADER,
+	telegramUpdateSchema,
+	verifyTelegramSecret,
+} from "../../lib/telegram-bot.js";
+import { formatZodErrors, isValidUuid } from "../../lib/validation.js";
+
+/**
+ * Telegram webhook routes app instance.
+ */
+export const telegramWebhookRoutes = new Hono();
+
+/**
+ * POST /api/webhooks/telegram/:channelId
+ *
+ * Handle a Telegram bot update for a channel.
+ *
+ * Responds 200 once the update is handled, or ignored (disabled channel,
+ * other chat, unsupported update). Handling errors are logged and still
+ * answered with 200, since Telegram redelivers failed updates and would
+ * repeat actions that already took effect.
+ *
+ * @response 404 - Unknown channel, or a channel without a webhook secret
+ * @response 401 - Missing or wrong secret token
+ * @response 400 - Invalid update body
+ */
+telegramWebhookRoutes.post("/:channelId", async (c) => {
+	const channelId = c.req.param("channelId");
+
+	const [channel] = isValidUuid(channelId)
+		? await db
+				.select()
+				.from(notificationChannels)
+				.where(eq(notificationChannels.id, channelId))
+				.limit(1)
+		: [];
+
+	if (
+		!channel ||
+		channel.type !== "telegram" ||
+		!isTelegramConfig(channel.config) ||
+		!channel.config.webhook_secret
+	) {
+		return c.json({ success: false, error: "Not found" }, 404);
+	}
+
+	const config = channel.config;
+
+	if (!verifyTelegramSecret(config, c.req.header(TELEGRAM_SECRET_HEADER))) {
+		console.warn(`[Telegram Webhook] Invalid secret token for channel ${channel.id}`);
+		return c.json({ success: false, error: "Invalid secret token" }, 401);
+	}
+
+	// Parse and validate request body
+	const body = await c.req.json().catch(() => ({}));
+	const parseResult = telegramUpdateSchema.safeParse(body);
+
+	if (!parseResult.success) {
+		const errors = formatZodErrors(parseResult.error);
+		console.error("[Telegram Webhook] Validation failed:", errors);
+		return c.json({ success: false, errors }, 400);
+	}
+
+	if (!channel.enabled) {
+		return c.json({ success: true, message: "Channel disabled" });
+	}
+
+	try {
+		await handleTelegramUpdate(config, parseResult.data);
+	} catch (error) {
+		console.error("[Telegram Webhook] Error handling update:", error);
+	}
+
+	return c.json({ success: true });
+});